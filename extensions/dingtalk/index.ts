@@ -10,24 +10,79 @@
  * Requirements: 1.1
  */
 
+import type { IncomingMessage, ServerResponse } from "node:http";
+
 import { dingtalkPlugin, DEFAULT_ACCOUNT_ID } from "./src/channel.js";
+import { resolveDingtalkConnectionMode } from "./src/config.js";
 import { setDingtalkRuntime } from "./src/runtime.js";
+import { DEFAULT_DINGTALK_WEBHOOK_PATH, handleDingtalkWebhookRequest } from "./src/webhook.js";
 import { registerChinaSetupCli, showChinaInstallHint } from "@openclaw-china/shared";
 
+type HttpRouteParams = {
+  path: string;
+  auth: "gateway" | "plugin";
+  match?: "exact" | "prefix";
+  handler: (req: IncomingMessage, res: ServerResponse) => Promise<boolean> | boolean;
+};
+
+type DingtalkRouteConfig = {
+  mode?: "stream" | "webhook";
+  connectionMode?: "stream" | "webhook";
+  webhookPath?: string;
+  accounts?: Record<
+    string,
+    {
+      mode?: "stream" | "webhook";
+      connectionMode?: "stream" | "webhook";
+      webhookPath?: string;
+    }
+  >;
+};
+
 /**
  * Moltbot 插件 API 接口
  * 
  * 包含：
  * - registerChannel: 注册渠道插件
+ * - registerHttpRoute / registerHttpHandler: 注册 webhook 模式的机器人回调路由
  * - runtime: 完整的 Moltbot 运行时（包含 core API）
  */
 export interface MoltbotPluginApi {
   registerChannel: (opts: { plugin: unknown }) => void;
+  registerHttpHandler?: (handler: (req: IncomingMessage, res: ServerResponse) => Promise<boolean> | boolean) => void;
+  registerHttpRoute?: (params: HttpRouteParams) => void;
+  config?: {
+    channels?: {
+      dingtalk?: DingtalkRouteConfig;
+    };
+  };
   /** Moltbot 运行时，包含 channel.routing、channel.reply 等核心 API */
   runtime?: unknown;
   [key: string]: unknown;
 }
 
+function normalizeRoutePath(path: string | undefined, fallback: string): string {
+  const trimmed = path?.trim() ?? "";
+  const candidate = trimmed || fallback;
+  return candidate.startsWith("/") ? candidate : `/${candidate}`;
+}
+
+function collectDingtalkRoutePaths(config: DingtalkRouteConfig | undefined): string[] {
+  const routes = new Set<string>();
+  const baseMode = resolveDingtalkConnectionMode(config);
+  if (baseMode === "webhook") {
+    routes.add(normalizeRoutePath(config?.webhookPath, DEFAULT_DINGTALK_WEBHOOK_PATH));
+  }
+  for (const accountConfig of Object.values(config?.accounts ?? {})) {
+    const mode = accountConfig?.connectionMode ?? accountConfig?.mode ?? baseMode;
+    if (mode !== "webhook") continue;
+    routes.add(
+      normalizeRoutePath(accountConfig?.webhookPath ?? config?.webhookPath, DEFAULT_DINGTALK_WEBHOOK_PATH)
+    );
+  }
+  return [...routes];
+}
+
 // 导出 ChannelPlugin
 export { dingtalkPlugin, DEFAULT_ACCOUNT_ID } from "./src/channel.js";
 
@@ -75,11 +130,30 @@ const plugin = {
       requireMention: { type: "boolean" },
       allowFrom: { type: "array", items: { type: "string" } },
       groupAllowFrom: { type: "array", items: { type: "string" } },
+      denyFrom: { type: "array", items: { type: "string" } },
+      groups: {
+        type: "object",
+        additionalProperties: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            enabled: { type: "boolean" },
+            requireMention: { type: "boolean" },
+            allowFrom: { type: "array", items: { type: "string" } },
+            denyFrom: { type: "array", items: { type: "string" } },
+          },
+        },
+      },
       historyLimit: { type: "integer", minimum: 0 },
       textChunkLimit: { type: "integer", minimum: 1 },
+      replyAtSender: { type: "boolean" },
+      replyQuote: { type: "boolean" },
       longTaskNoticeDelayMs: { type: "integer", minimum: 0 },
+      mode: { type: "string", enum: ["stream", "webhook"] },
       connectionMode: { type: "string", enum: ["stream", "webhook"] },
+      webhookPath: { type: "string" },
       enableAICard: { type: "boolean" },
+      interactiveCardTemplateId: { type: "string" },
       gatewayToken: { type: "string" },
       gatewayPassword: { type: "string" },
       maxFileSizeMB: { type: "number", minimum: 1 },
@@ -106,11 +180,30 @@ const plugin = {
             requireMention: { type: "boolean" },
             allowFrom: { type: "array", items: { type: "string" } },
             groupAllowFrom: { type: "array", items: { type: "string" } },
+            denyFrom: { type: "array", items: { type: "string" } },
+            groups: {
+              type: "object",
+              additionalProperties: {
+                type: "object",
+                additionalProperties: false,
+                properties: {
+                  enabled: { type: "boolean" },
+                  requireMention: { type: "boolean" },
+                  allowFrom: { type: "array", items: { type: "string" } },
+                  denyFrom: { type: "array", items: { type: "string" } },
+                },
+              },
+            },
             historyLimit: { type: "integer", minimum: 0 },
             textChunkLimit: { type: "integer", minimum: 1 },
+            replyAtSender: { type: "boolean" },
+            replyQuote: { type: "boolean" },
             longTaskNoticeDelayMs: { type: "integer", minimum: 0 },
+            mode: { type: "string", enum: ["stream", "webhook"] },
             connectionMode: { type: "string", enum: ["stream", "webhook"] },
+            webhookPath: { type: "string" },
             enableAICard: { type: "boolean" },
+            interactiveCardTemplateId: { type: "string" },
             gatewayToken: { type: "string" },
             gatewayPassword: { type: "string" },
             maxFileSizeMB: { type: "number", minimum: 1 },
@@ -133,6 +226,7 @@ const plugin = {
    *
    * 1. 设置完整的 Moltbot 运行时（包含 core API）
    * 2. 调用 api.registerChannel 将 dingtalkPlugin 注册到 Moltbot
+   * 3. webhook 模式下注册机器人回调 HTTP 路由
    *
    * Requirements: 1.1
    */
@@ -148,6 +242,24 @@ const plugin = {
     
     // 注册渠道插件
     api.registerChannel({ plugin: dingtalkPlugin });
+
+    // webhook 模式：注册机器人消息接收地址
+    const routePaths = collectDingtalkRoutePaths(api.config?.channels?.dingtalk);
+    if (routePaths.length === 0) return;
+
+    if (api.registerHttpRoute) {
+      for (const path of routePaths) {
+        api.registerHttpRoute({
+          path,
+          auth: "plugin",
+          match: "exact",
+          handler: handleDingtalkWebhookRequest,
+        });
+      }
+    } else if (api.registerHttpHandler) {
+      // Backward compatibility for older OpenClaw core
+      api.registerHttpHandler(handleDingtalkWebhookRequest);
+    }
   },
 };
 
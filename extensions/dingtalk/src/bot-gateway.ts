@@ -2,15 +2,17 @@ import { type DWClient } from "dingtalk-stream";
 import * as fs from "node:fs/promises";
 import * as os from "node:os";
 import * as path from "node:path";
-import { registerDingtalkBotHandler } from "./bot-stream-handler.js";
+import { processDingtalkWebhookInbound, registerDingtalkBotHandler } from "./bot-stream-handler.js";
 import { createDingtalkClientFromConfig } from "./client.js";
 import {
   DEFAULT_ACCOUNT_ID,
   mergeDingtalkAccountConfig,
+  resolveDingtalkConnectionMode,
   type DingtalkConfig,
   type PluginConfig,
 } from "./config.js";
 import { createLogger, type Logger } from "./logger.js";
+import { registerDingtalkWebhookTarget, resolveDingtalkWebhookPath } from "./webhook.js";
 
 export interface MonitorDingtalkOpts {
   config?: PluginConfig;
@@ -460,6 +462,79 @@ async function runGatewayLoop(params: {
   );
 }
 
+/**
+ * webhook 模式：注册 HTTP 回调目标，直到 abort / stop 时注销
+ */
+function startDingtalkWebhook(params: {
+  conn: ActiveConnection;
+  config?: PluginConfig;
+  dingtalkCfg: DingtalkConfig;
+  accountId: string;
+  abortSignal?: AbortSignal;
+  logger: Logger;
+  setStatus?: (status: Record<string, unknown>) => void;
+}): Promise<void> {
+  const { conn, config, dingtalkCfg, accountId, abortSignal, logger, setStatus } = params;
+  if (!dingtalkCfg.clientSecret) {
+    throw new Error(`DingTalk clientSecret missing for account ${accountId} (required to verify webhook signatures)`);
+  }
+
+  const path = resolveDingtalkWebhookPath(dingtalkCfg);
+  const unregister = registerDingtalkWebhookTarget({
+    accountId,
+    account: dingtalkCfg,
+    path,
+    logger,
+    onMessage: (raw) =>
+      processDingtalkWebhookInbound({
+        raw,
+        config,
+        accountId,
+        logger,
+        onMessageAccepted: () => setStatus?.({ accountId, lastMessageAt: Date.now() }),
+      }),
+  });
+  logger.info(`webhook registered at ${path} for account ${accountId}`);
+  setStatus?.({ accountId, state: "running", mode: "webhook", webhookPath: path });
+
+  const promise = new Promise<void>((resolve) => {
+    let stopped = false;
+
+    const finalize = () => {
+      if (stopped) return;
+      stopped = true;
+      abortSignal?.removeEventListener("abort", handleAbort);
+      unregister();
+      if (conn.promise === promise) {
+        conn.stop = null;
+        conn.promise = null;
+        activeConnections.delete(accountId);
+      }
+      setStatus?.({ accountId, state: "stopped" });
+      resolve();
+    };
+
+    const handleAbort = () => {
+      logger.info("abort signal received, unregistering webhook");
+      finalize();
+    };
+
+    conn.stop = () => {
+      logger.info(`stop requested, unregistering webhook for account ${accountId}`);
+      finalize();
+    };
+
+    if (abortSignal?.aborted) {
+      finalize();
+      return;
+    }
+    abortSignal?.addEventListener("abort", handleAbort, { once: true });
+  });
+
+  conn.promise = promise;
+  return promise;
+}
+
 export async function monitorDingtalkProvider(opts: MonitorDingtalkOpts = {}): Promise<void> {
   const { config, runtime, abortSignal, accountId = DEFAULT_ACCOUNT_ID, setStatus } = opts;
   const logger: Logger = createLogger("dingtalk", {
@@ -480,6 +555,10 @@ export async function monitorDingtalkProvider(opts: MonitorDingtalkOpts = {}): P
 
   await ensureGatewayHttpEnabled({ dingtalkCfg, logger });
 
+  if (resolveDingtalkConnectionMode(dingtalkCfg) === "webhook") {
+    return startDingtalkWebhook({ conn, config, dingtalkCfg, accountId, abortSignal, logger, setStatus });
+  }
+
   const stopController = new AbortController();
   const stopSignal = stopController.signal;
 
@@ -8,6 +8,7 @@ vi.mock("./send.js", () => ({
 }));
 
 import { handleDingtalkMessage } from "./bot-handler.js";
+import { clearDingtalkGroupMembers } from "./mention.js";
 import { clearDingtalkRuntime, setDingtalkRuntime } from "./runtime.js";
 import { sendMessageDingtalk } from "./send.js";
 import type { DingtalkRawMessage } from "./types.js";
@@ -55,6 +56,7 @@ function createRuntime(reply: Record<string, unknown>) {
 describe("dingtalk reply dispatch", () => {
   afterEach(() => {
     clearDingtalkRuntime();
+    clearDingtalkGroupMembers();
     sendMessageMock.mockClear();
   });
 
@@ -147,4 +149,210 @@ describe("dingtalk reply dispatch", () => {
     expect(dispatchReplyFromConfig).not.toHaveBeenCalled();
     expect(sendMessageMock).not.toHaveBeenCalled();
   });
+
+  it("splits long code blocks without breaking the fence", async () => {
+    const code = Array.from({ length: 20 }, (_, index) => `console.log(${index});`).join("\n");
+    const dispatchReplyWithDispatcher = vi.fn(async ({ dispatcherOptions }) => {
+      await dispatcherOptions.deliver({ text: `\`\`\`js\n${code}\n\`\`\`` }, { kind: "final" });
+      return { queuedFinal: false, counts: { final: 1 } };
+    });
+
+    setDingtalkRuntime(
+      createRuntime({
+        dispatchReplyWithDispatcher,
+      }) as DingtalkRuntime
+    );
+
+    await handleDingtalkMessage({
+      cfg: {
+        channels: {
+          dingtalk: { ...baseCfg.channels.dingtalk, textChunkLimit: 120 },
+        },
+      },
+      raw: baseRaw,
+      log: () => undefined,
+      error: () => undefined,
+    });
+
+    const texts = sendMessageMock.mock.calls.map(([params]) => params.text);
+    expect(texts.length).toBeGreaterThan(1);
+    for (const text of texts) {
+      expect(text.length).toBeLessThanOrEqual(120);
+      expect(text.startsWith("```js\n")).toBe(true);
+      expect(text.endsWith("\n```")).toBe(true);
+    }
+  });
+
+  it("injects buffered group messages as context when the bot is mentioned", async () => {
+    const dispatchReplyWithDispatcher = vi.fn(async () => ({ queuedFinal: false, counts: { final: 0 } }));
+    setDingtalkRuntime(
+      createRuntime({
+        dispatchReplyWithDispatcher,
+      }) as DingtalkRuntime
+    );
+
+    const groupRaw: DingtalkRawMessage = {
+      ...baseRaw,
+      conversationType: "2",
+      conversationId: "G-history",
+    };
+    const groupCfg = {
+      channels: {
+        dingtalk: {
+          ...baseCfg.channels.dingtalk,
+          groupPolicy: "open",
+          historyLimit: 2,
+        },
+      },
+    };
+
+    for (const content of ["第一条", "第二条", "第三条"]) {
+      await handleDingtalkMessage({
+        cfg: groupCfg,
+        raw: { ...groupRaw, senderNick: "Alice", text: { content } },
+        log: () => undefined,
+        error: () => undefined,
+      });
+    }
+    expect(dispatchReplyWithDispatcher).not.toHaveBeenCalled();
+
+    const mentionRaw = { ...groupRaw, text: { content: "总结一下" }, atUsers: [{ dingtalkId: "bot" }] };
+    await handleDingtalkMessage({ cfg: groupCfg, raw: mentionRaw, log: () => undefined, error: () => undefined });
+    await handleDingtalkMessage({ cfg: groupCfg, raw: mentionRaw, log: () => undefined, error: () => undefined });
+
+    const [first, second] = dispatchReplyWithDispatcher.mock.calls.map(
+      (call) => (call as unknown as [{ ctx: { Body: string; RawBody: string } }])[0].ctx
+    );
+    expect(first?.Body).toContain("> Alice: 第二条\n> Alice: 第三条");
+    expect(first?.Body).not.toContain("第一条");
+    expect(first?.RawBody).toBe("总结一下");
+    expect(second?.Body).toBe("总结一下");
+  });
+
+  it("mentions the sender and quotes the trigger message in group replies", async () => {
+    const dispatchReplyWithDispatcher = vi.fn(async ({ dispatcherOptions }) => {
+      await dispatcherOptions.deliver({ text: "已安排，@Bob 请跟进。" }, { kind: "block" });
+      await dispatcherOptions.deliver({ text: "完成。" }, { kind: "final" });
+      return { queuedFinal: false, counts: { final: 1 } };
+    });
+    setDingtalkRuntime(
+      createRuntime({
+        dispatchReplyWithDispatcher,
+      }) as DingtalkRuntime
+    );
+
+    const groupRaw: DingtalkRawMessage = {
+      ...baseRaw,
+      conversationType: "2",
+      conversationId: "G-mention",
+      sessionWebhook: "https://oapi.dingtalk.com/robot/sendBySession?session=abc",
+      sessionWebhookExpiredTime: 1_900_000_000_000,
+    };
+    const groupCfg = {
+      channels: {
+        dingtalk: {
+          ...baseCfg.channels.dingtalk,
+          groupPolicy: "open",
+          requireMention: false,
+          replyQuote: true,
+        },
+      },
+    };
+
+    await handleDingtalkMessage({
+      cfg: groupCfg,
+      raw: { ...groupRaw, senderStaffId: "staff-bob", senderNick: "Bob", text: { content: "收到" } },
+      log: () => undefined,
+      error: () => undefined,
+    });
+    sendMessageMock.mockClear();
+    dispatchReplyWithDispatcher.mockClear();
+
+    await handleDingtalkMessage({
+      cfg: groupCfg,
+      raw: { ...groupRaw, senderStaffId: "staff-alice", senderNick: "Alice", text: { content: "帮我安排一下" } },
+      log: () => undefined,
+      error: () => undefined,
+    });
+
+    const [first, second] = sendMessageMock.mock.calls.map(([params]) => params);
+    expect(first?.text).toBe("> Alice: 帮我安排一下\n\n已安排，@Bob 请跟进。");
+    expect(first?.mentions).toEqual([
+      { userId: "staff-alice", name: "Alice" },
+      { userId: "staff-bob", name: "Bob" },
+    ]);
+    expect(first?.sessionWebhook).toBe(groupRaw.sessionWebhook);
+    expect(first?.sessionWebhookExpiresAt).toBe(groupRaw.sessionWebhookExpiredTime);
+    expect(second?.text).toBe("完成。");
+    expect(second?.mentions).toEqual([]);
+  });
+
+  it("exposes quoted messages on the inbound context", async () => {
+    const dispatchReplyWithDispatcher = vi.fn(async () => ({ queuedFinal: false, counts: { final: 0 } }));
+    setDingtalkRuntime(
+      createRuntime({
+        dispatchReplyWithDispatcher,
+      }) as DingtalkRuntime
+    );
+
+    await handleDingtalkMessage({
+      cfg: baseCfg,
+      raw: {
+        ...baseRaw,
+        text: {
+          content: "这个怎么处理？",
+          isReplyMsg: true,
+          repliedMsg: {
+            msgId: "msg-quoted",
+            msgType: "text",
+            senderId: "U-2",
+            content: { text: "服务器磁盘已满" },
+          },
+        },
+      },
+      log: () => undefined,
+      error: () => undefined,
+    });
+
+    const ctx = (
+      dispatchReplyWithDispatcher.mock.calls[0] as unknown as [{ ctx: Record<string, unknown> }]
+    )[0].ctx;
+    expect(ctx.ReplyToId).toBe("msg-quoted");
+    expect(ctx.ReplyToBody).toBe("服务器磁盘已满");
+    expect(ctx.ReplyToSender).toBe("U-2");
+  });
+
+  it("uses the quoted sender nickname when available", async () => {
+    const dispatchReplyWithDispatcher = vi.fn(async () => ({ queuedFinal: false, counts: { final: 0 } }));
+    setDingtalkRuntime(
+      createRuntime({
+        dispatchReplyWithDispatcher,
+      }) as DingtalkRuntime
+    );
+
+    await handleDingtalkMessage({
+      cfg: baseCfg,
+      raw: {
+        ...baseRaw,
+        text: {
+          content: "这个怎么处理？",
+          isReplyMsg: true,
+          repliedMsg: {
+            msgId: "msg-quoted",
+            msgType: "text",
+            senderId: "U-2",
+            senderNick: "李四",
+            content: { text: "服务器磁盘已满" },
+          },
+        },
+      },
+      log: () => undefined,
+      error: () => undefined,
+    });
+
+    const ctx = (
+      dispatchReplyWithDispatcher.mock.calls[0] as unknown as [{ ctx: Record<string, unknown> }]
+    )[0].ctx;
+    expect(ctx.ReplyToSender).toBe("李四");
+  });
 });
@@ -4,9 +4,10 @@
  * 实现消息解析、策略检查和 Agent 分发
  */
 
-import type { DingtalkRawMessage, DingtalkMessageContext } from "./types.js";
+import type { DingtalkQuotedMessage, DingtalkRawMessage, DingtalkMessageContext } from "./types.js";
 import {
   DEFAULT_ACCOUNT_ID,
+  DEFAULT_DINGTALK_HISTORY_LIMIT,
   type DingtalkConfig,
   mergeDingtalkAccountConfig,
   type PluginConfig,
@@ -29,12 +30,34 @@ import {
   type MediaMsgType,
 } from "./media.js";
 import { getAccessToken } from "./client.js";
-import { createAICard, streamAICard, finishAICard, type AICardInstance } from "./card.js";
+import {
+  formatDingtalkReplyQuote,
+  mergeDingtalkMentions,
+  rememberDingtalkGroupMember,
+  resolveDingtalkMentionsInText,
+  type DingtalkMention,
+} from "./mention.js";
+import { extractDingtalkActionCard, formatDingtalkActionCardFallbackText } from "./template.js";
+import {
+  createAICard,
+  createInteractiveCard,
+  streamAICard,
+  finishAICard,
+  type AICardInstance,
+} from "./card.js";
+import {
+  buildInteractiveCardParamMap,
+  extractInteractiveCard,
+  formatInteractiveCardFallbackText,
+  rememberInteractiveCard,
+  type InteractiveCardSpec,
+} from "./interactive-card.js";
 import {
   createLogger,
   type Logger,
   checkDmPolicy,
   checkGroupPolicy,
+  resolvePairingChallenge,
   resolveFileCategory,
   extractMediaFromText,
   type ExtractedMedia,
@@ -44,11 +67,19 @@ import {
   splitCronHiddenPrompt,
   finalizeInboundMediaFile,
   pruneInboundMediaDir,
+  createGroupHistoryBuffer,
+  buildGroupHistoryKey,
+  applyGroupHistoryToContext,
+  resolveGroupHistoryLimit,
+  chunkMarkdownText,
 } from "@openclaw-china/shared";
 
 export const LONG_TASK_NOTICE_TEXT = "任务处理时间较长，请稍等，我还在继续处理。";
 export const DEFAULT_LONG_TASK_NOTICE_DELAY_MS = 30000;
 
+/** 群聊中未 @ 机器人的最近消息，被 @ 时作为上下文注入 */
+const groupHistory = createGroupHistoryBuffer();
+
 type LongTaskNoticeController = {
   markReplyDelivered: () => void;
   dispose: () => void;
@@ -343,6 +374,57 @@ function resolveAudioRecognition(raw: DingtalkRawMessage): string | undefined {
   return trimmed.length > 0 ? trimmed : undefined;
 }
 
+/** 非文本引用消息的占位描述 */
+const REPLIED_MESSAGE_PLACEHOLDERS: Record<string, string> = {
+  picture: "[图片]",
+  video: "[视频]",
+  audio: "[语音]",
+  file: "[文件]",
+};
+
+/**
+ * 解析用户回复（引用）的原消息
+ */
+function resolveRepliedMessage(raw: DingtalkRawMessage): DingtalkQuotedMessage | undefined {
+  const replied = raw.text?.repliedMsg;
+  if (!replied || typeof replied !== "object") return undefined;
+
+  const contentObj =
+    typeof replied.content === "string"
+      ? (() => {
+          try {
+            return JSON.parse(replied.content) as unknown;
+          } catch {
+            return replied.content;
+          }
+        })()
+      : replied.content;
+
+  let content = "";
+  if (typeof contentObj === "string") {
+    content = contentObj.trim();
+  } else if (contentObj && typeof contentObj === "object") {
+    const record = contentObj as Record<string, unknown>;
+    if (typeof record.text === "string") {
+      content = record.text.trim();
+    } else if (record.richText !== undefined) {
+      const parsed = parseRichTextMessage({ msgtype: "richText", content: record });
+      content = parsed?.textParts.join("\n").trim() ?? "";
+    }
+  }
+  if (!content && replied.msgType) {
+    content = REPLIED_MESSAGE_PLACEHOLDERS[replied.msgType] ?? "";
+  }
+  if (!content) return undefined;
+
+  return {
+    messageId: replied.msgId,
+    senderId: replied.senderId,
+    senderNick: replied.senderNick,
+    content,
+  };
+}
+
 function resolveGatewayAuthFromConfigFile(logger: Logger): string | undefined {
   try {
     const fs = require("fs");
@@ -524,7 +606,7 @@ export function parseDingtalkMessage(raw: DingtalkRawMessage): DingtalkMessageCo
   const mentionedBot = resolveMentionedBot(raw);
   
   // 使用 Stream 消息 ID（如果可用），确保去重稳�?
-  const messageId = raw.streamMessageId ?? `${raw.conversationId}_${Date.now()}`;
+  const messageId = raw.streamMessageId ?? raw.msgId ?? `${raw.conversationId}_${Date.now()}`;
   
   const senderId =
     raw.senderStaffId ??
@@ -542,6 +624,7 @@ export function parseDingtalkMessage(raw: DingtalkRawMessage): DingtalkMessageCo
     contentType: raw.msgtype,
     mentionedBot,
     robotCode: raw.robotCode,
+    repliedMessage: resolveRepliedMessage(raw),
   };
 }
 
@@ -608,6 +691,12 @@ export interface InboundContext {
   UserId?: string;
   /** 群 ID（仅群聊） */
   GroupId?: string;
+  /** 被回复（引用）的消息 ID */
+  ReplyToId?: string;
+  /** 被回复（引用）的消息内容 */
+  ReplyToBody?: string;
+  /** 被回复（引用）的消息发送者 */
+  ReplyToSender?: string;
   
   // ===== 媒体相关字段 (Requirements 7.1-7.8) =====
   
@@ -674,6 +763,13 @@ export function buildInboundContext(
     CommandAuthorized: true,
     OriginatingChannel: "dingtalk",
     OriginatingTo: to,
+    ...(ctx.repliedMessage
+      ? {
+          ReplyToId: ctx.repliedMessage.messageId,
+          ReplyToBody: ctx.repliedMessage.content,
+          ReplyToSender: ctx.repliedMessage.senderNick ?? ctx.repliedMessage.senderId,
+        }
+      : {}),
   };
 }
 
@@ -702,6 +798,14 @@ function buildTargetMeta(
   };
 }
 
+/**
+ * AI Card 不支持机器人消息模板，ActionCard 按钮渲染为链接
+ */
+function formatAICardText(text: string): string {
+  const { actionCard } = extractDingtalkActionCard(text);
+  return actionCard ? formatDingtalkActionCardFallbackText(actionCard) : text;
+}
+
 /**
  * 处理 AI Card 流式响应
  * 
@@ -720,8 +824,9 @@ async function handleAICardStreaming(params: {
   targetId: string;
   chatType: "direct" | "group";
   logger: Logger;
+  sendInteractiveCard: (card: InteractiveCardSpec) => Promise<void>;
   }): Promise<void> {
-    const { card, cfg, route, inboundCtx, dingtalkCfg, targetId, chatType, logger } = params;
+    const { card, cfg, route, inboundCtx, dingtalkCfg, targetId, chatType, logger, sendInteractiveCard } = params;
     let accumulated = "";
     const streamStartAt = Date.now();
     const streamStartIso = new Date(streamStartAt).toISOString();
@@ -763,7 +868,9 @@ async function handleAICardStreaming(params: {
       }
       const now = Date.now();
       if (!firstFrameSent || now - lastUpdateTime >= updateInterval) {
-        const previewText = prepareDingtalkReplyContent({ text: accumulated }).text;
+        const previewText = prepareDingtalkReplyContent({
+          text: formatAICardText(extractInteractiveCard(accumulated).text),
+        }).text;
         await streamAICard(card, previewText, false);
         lastUpdateTime = now;
         firstFrameSent = true;
@@ -771,8 +878,9 @@ async function handleAICardStreaming(params: {
     }
 
     // 完成卡片
+    const extractedCard = extractInteractiveCard(accumulated);
     const preparedReply = prepareDingtalkReplyContent({
-      text: accumulated,
+      text: formatAICardText(extractedCard.text),
       logger,
     });
     await finishAICard(card, preparedReply.text, (msg) => logger.debug(msg));
@@ -795,6 +903,10 @@ async function handleAICardStreaming(params: {
         }
       }
     }
+
+    if (extractedCard.card) {
+      await sendInteractiveCard(extractedCard.card);
+    }
   } catch (err) {
     logger.error(`AI Card streaming failed: ${String(err)}`);
     // 尝试用错误信息完成卡片
@@ -815,8 +927,7 @@ async function handleAICardStreaming(params: {
           logger,
         });
         const limit = dingtalkCfg.textChunkLimit ?? 4000;
-        for (let i = 0; i < preparedReply.text.length; i += limit) {
-          const chunk = preparedReply.text.slice(i, i + limit);
+        for (const chunk of chunkMarkdownText(preparedReply.text, { limit })) {
           await sendMessageDingtalk({
             cfg: dingtalkCfg,
             to: targetId,
@@ -926,6 +1037,13 @@ export async function handleDingtalkMessage(params: {
   const isGroup = ctx.chatType === "group";
   const audioRecognition = resolveAudioRecognition(raw);
   const inboundTargetMeta = buildTargetMeta(ctx);
+  // 可用于 @提及的 userId（senderId 为加密 ID，不能用于 atUserIds）
+  const mentionUserId = raw.senderStaffId ?? raw.senderUserId ?? raw.senderUserid;
+  // 回复优先通过入站消息携带的 sessionWebhook 发送（过期或失败时回退 OpenAPI）
+  const sessionWebhookTarget = {
+    sessionWebhook: raw.sessionWebhook,
+    sessionWebhookExpiresAt: raw.sessionWebhookExpiredTime,
+  };
   logger.info(
     `[inbound] received=${JSON.stringify({
       ...inboundTargetMeta,
@@ -954,6 +1072,15 @@ export async function handleDingtalkMessage(params: {
     return { ...file, path: finalPath };
   };
   
+  if (isGroup && mentionUserId) {
+    rememberDingtalkGroupMember({
+      accountId,
+      conversationId: ctx.conversationId,
+      userId: mentionUserId,
+      name: ctx.senderNick,
+    });
+  }
+
   // 策略检�?
   if (isGroup) {
     const groupPolicy = channelCfg?.groupPolicy ?? "open";
@@ -966,15 +1093,32 @@ export async function handleDingtalkMessage(params: {
       groupAllowFrom,
       requireMention,
       mentionedBot: ctx.mentionedBot,
+      senderId: ctx.senderId,
+      denyFrom: channelCfg?.denyFrom,
+      groups: channelCfg?.groups,
     });
     
     if (!policyResult.allowed) {
       logger.debug(
         `[policy] rejected=${JSON.stringify({
           reason: policyResult.reason,
+          code: policyResult.code,
           ...inboundTargetMeta,
         })}`
       );
+      if (policyResult.code === "mention_required") {
+        groupHistory.record(
+          buildGroupHistoryKey(accountId, ctx.conversationId),
+          {
+            senderId: ctx.senderId,
+            senderName: ctx.senderNick,
+            body: ctx.content,
+            timestamp: Date.now(),
+            messageId: ctx.messageId,
+          },
+          resolveGroupHistoryLimit(channelCfg?.historyLimit, DEFAULT_DINGTALK_HISTORY_LIMIT)
+        );
+      }
       return;
     }
   } else {
@@ -985,15 +1129,37 @@ export async function handleDingtalkMessage(params: {
       dmPolicy,
       senderId: ctx.senderId,
       allowFrom,
+      denyFrom: channelCfg?.denyFrom,
+      pairing: { channel: "dingtalk", accountId },
     });
     
     if (!policyResult.allowed) {
       logger.debug(
         `[policy] rejected=${JSON.stringify({
           reason: policyResult.reason,
+          code: policyResult.code,
           ...inboundTargetMeta,
         })}`
       );
+      if (policyResult.pairingRequired && channelCfg) {
+        const challenge = resolvePairingChallenge({
+          channel: "dingtalk",
+          accountId,
+          senderId: ctx.senderId,
+        });
+        if (challenge) {
+          try {
+            await sendMessageDingtalk({
+              cfg: channelCfg,
+              to: ctx.senderId,
+              text: challenge,
+              chatType: "direct",
+            });
+          } catch (err) {
+            logger.warn(`[pairing] failed to send pairing code: ${String(err)}`);
+          }
+        }
+      }
       return;
     }
   }
@@ -1247,6 +1413,13 @@ export async function handleDingtalkMessage(params: {
       }
     }
 
+    if (isGroup) {
+      applyGroupHistoryToContext(
+        finalCtx,
+        groupHistory.consume(buildGroupHistoryKey(accountId, ctx.conversationId))
+      );
+    }
+
     // 记录 inbound session，用于 last route（cron/heartbeat 依赖）
     const channelSession = coreChannel?.session as
       | {
@@ -1313,6 +1486,43 @@ export async function handleDingtalkMessage(params: {
       return;
     }
 
+    const sendInteractiveCardReply = async (interactiveCard: InteractiveCardSpec): Promise<void> => {
+      const replyTargetId = isGroup ? ctx.conversationId : ctx.senderId;
+      const replyChatType = isGroup ? "group" : "direct";
+      const templateId = dingtalkCfgResolved.interactiveCardTemplateId?.trim();
+      if (templateId) {
+        const outTrackId = await createInteractiveCard({
+          cfg: dingtalkCfgResolved,
+          conversationType: isGroup ? "2" : "1",
+          conversationId: ctx.conversationId,
+          senderId: ctx.senderId,
+          senderStaffId: raw.senderStaffId,
+          templateId,
+          cardParamMap: buildInteractiveCardParamMap(interactiveCard),
+          log: (msg) => logger.debug(msg),
+        });
+        if (outTrackId) {
+          rememberInteractiveCard(outTrackId, {
+            accountId,
+            conversationType: isGroup ? "2" : "1",
+            conversationId: ctx.conversationId,
+            card: interactiveCard,
+          });
+          return;
+        }
+        logger.warn("interactive card creation failed, falling back to text");
+      } else {
+        logger.debug("interactiveCardTemplateId not configured, sending card as text");
+      }
+      await sendMessageDingtalk({
+        cfg: dingtalkCfgResolved,
+        to: replyTargetId,
+        text: formatInteractiveCardFallbackText(interactiveCard),
+        chatType: replyChatType,
+        ...sessionWebhookTarget,
+      });
+    };
+
     // ===== AI Card 流式处理 =====
     if (enableAICard) {
       const card = await createAICard({
@@ -1335,6 +1545,7 @@ export async function handleDingtalkMessage(params: {
           targetId: isGroup ? ctx.conversationId : ctx.senderId,
           chatType: isGroup ? "group" : "direct",
           logger,
+          sendInteractiveCard: sendInteractiveCardReply,
         });
         return;
       } else {
@@ -1360,6 +1571,7 @@ export async function handleDingtalkMessage(params: {
           to: targetId,
           text: LONG_TASK_NOTICE_TEXT,
           chatType,
+          ...sessionWebhookTarget,
         });
       },
     });
@@ -1378,6 +1590,38 @@ export async function handleDingtalkMessage(params: {
       const chunkMode = (textApi?.resolveChunkMode as ((cfg: unknown, channel: string) => unknown) | undefined)?.(cfg, "dingtalk");
       const tableMode = "bullets";
 
+      // 群聊: 首条回复 @提问者并按配置引用触发消息，回复中的 "@昵称" 解析为 @提及
+      const senderMention: DingtalkMention | undefined =
+        isGroup && dingtalkCfgResolved.replyAtSender !== false && mentionUserId
+          ? { userId: mentionUserId, name: ctx.senderNick }
+          : undefined;
+      const replyQuote =
+        isGroup && dingtalkCfgResolved.replyQuote
+          ? formatDingtalkReplyQuote({
+              senderName: ctx.senderNick,
+              content: finalCtx.RawBody || ctx.content,
+            })
+          : "";
+      let firstReplyTextSent = false;
+      const sendReplyText = async (text: string): Promise<void> => {
+        const isFirst = !firstReplyTextSent;
+        firstReplyTextSent = true;
+        const mentions = isGroup
+          ? mergeDingtalkMentions(
+              isFirst && senderMention ? [senderMention] : [],
+              resolveDingtalkMentionsInText({ text, accountId, conversationId: ctx.conversationId })
+            )
+          : [];
+        await sendMessageDingtalk({
+          cfg: dingtalkCfgResolved,
+          to: targetId,
+          text: isFirst && replyQuote ? `${replyQuote}\n\n${text}` : text,
+          chatType,
+          mentions,
+          ...sessionWebhookTarget,
+        });
+      };
+
       const deliver = async (payload: { text?: string; mediaUrl?: string; mediaUrls?: string[] }, info?: { kind?: string }) => {
         logger.debug(
           `[reply] meta=${JSON.stringify({
@@ -1413,6 +1657,7 @@ export async function handleDingtalkMessage(params: {
               to: targetId,
               text: fallbackText,
               chatType,
+              ...sessionWebhookTarget,
             });
             sent = true;
             longTaskNotice.markReplyDelivered();
@@ -1420,7 +1665,8 @@ export async function handleDingtalkMessage(params: {
         };
 
         const payloadMediaUrls = payload.mediaUrls ?? (payload.mediaUrl ? [payload.mediaUrl] : []);
-        const rawText = payload.text ?? "";
+        const extractedCard = extractInteractiveCard(payload.text ?? "");
+        const rawText = extractedCard.text;
         const preparedReply = prepareDingtalkReplyContent({
           text: rawText,
           logger,
@@ -1437,18 +1683,16 @@ export async function handleDingtalkMessage(params: {
 
         const hasText = converted.trim().length > 0;
         if (hasText) {
+          // newline 模式按段落逐条发送，仍交给框架处理；默认使用 markdown 感知分块，避免代码块被截断
           const chunks =
-            textApi?.chunkTextWithMode && typeof textChunkLimitResolved === "number" && textChunkLimitResolved > 0
-              ? (textApi.chunkTextWithMode as (text: string, limit: number, mode: unknown) => string[])(converted, textChunkLimitResolved, chunkMode)
-              : [converted];
+            typeof textChunkLimitResolved !== "number" || textChunkLimitResolved <= 0
+              ? [converted]
+              : chunkMode === "newline" && textApi?.chunkTextWithMode
+                ? (textApi.chunkTextWithMode as (text: string, limit: number, mode: unknown) => string[])(converted, textChunkLimitResolved, chunkMode)
+                : chunkMarkdownText(converted, { limit: textChunkLimitResolved });
 
           for (const chunk of chunks) {
-            await sendMessageDingtalk({
-              cfg: dingtalkCfgResolved,
-              to: targetId,
-              text: chunk,
-              chatType,
-            });
+            await sendReplyText(chunk);
             sent = true;
             longTaskNotice.markReplyDelivered();
           }
@@ -1458,7 +1702,13 @@ export async function handleDingtalkMessage(params: {
           await sendMediaWithFallback(mediaUrl);
         }
 
-        if (!hasText && mediaQueue.length === 0) {
+        if (extractedCard.card) {
+          await sendInteractiveCardReply(extractedCard.card);
+          sent = true;
+          longTaskNotice.markReplyDelivered();
+        }
+
+        if (!hasText && mediaQueue.length === 0 && !extractedCard.card) {
           return false;
         }
         return sent;
@@ -1525,6 +1775,7 @@ export async function handleDingtalkMessage(params: {
             to: targetId,
             text: "No response generated. Please try again.",
             chatType,
+            ...sessionWebhookTarget,
           });
           longTaskNotice.markReplyDelivered();
         }
@@ -1,7 +1,13 @@
-import { TOPIC_ROBOT, type DWClient, type DWClientDownStream } from "dingtalk-stream";
+import { TOPIC_CARD, TOPIC_ROBOT, type DWClient, type DWClientDownStream } from "dingtalk-stream";
 import { handleDingtalkMessage } from "./bot-handler.js";
+import {
+  buildCardCallbackRawMessage,
+  getInteractiveCardOrigin,
+  parseDingtalkCardCallback,
+} from "./interactive-card.js";
 import {
   mergeDingtalkAccountConfig,
+  type DingtalkConfig,
   type PluginConfig,
 } from "./config.js";
 import type { Logger } from "./logger.js";
@@ -158,6 +164,122 @@ function processDingtalkInbound(params: {
   }
 }
 
+/**
+ * 处理互动卡片回调：回写处理状态，并将操作作为入站消息投递回卡片所在会话
+ */
+function processDingtalkCardCallback(params: {
+  payload: DWClientDownStream;
+  client: DWClient;
+  config?: PluginConfig;
+  dingtalkCfg?: DingtalkConfig;
+  accountId: string;
+  logger: Logger;
+  onAckError?: (err: unknown, streamMessageId?: string) => void;
+  onParseError?: (err: unknown) => void;
+}): void {
+  const { payload, client, config, dingtalkCfg, accountId, logger, onAckError, onParseError } = params;
+  const streamMessageId = payload?.headers?.messageId;
+
+  let callback: ReturnType<typeof parseDingtalkCardCallback> = null;
+  try {
+    callback = parseDingtalkCardCallback(payload.data);
+  } catch (err) {
+    onParseError?.(err);
+    logger.error(`error parsing card callback: ${String(err)}`);
+  }
+  const origin = callback ? getInteractiveCardOrigin(callback.outTrackId) : undefined;
+
+  if (streamMessageId) {
+    const handledAction =
+      origin?.card.buttons.find((button) => button.id === callback?.actionId)?.text ?? callback?.actionId ?? "";
+    try {
+      client.socketCallBackResponse(streamMessageId, {
+        cardUpdateOptions: { updateCardDataByKey: true },
+        cardData: {
+          cardParamMap: {
+            handledAction,
+            handledBy: callback?.userId ?? "",
+          },
+        },
+      });
+    } catch (err) {
+      onAckError?.(err, streamMessageId);
+      logger.error(`failed to ACK card callback ${streamMessageId}: ${String(err)}`);
+    }
+  }
+
+  if (!callback) {
+    return;
+  }
+  const dedupeKey = streamMessageId ? `${accountId}:${streamMessageId}` : undefined;
+  if (dedupeKey && isDuplicateMessage(dedupeKey, Date.now())) {
+    logger.debug(`duplicate card callback ignored: ${streamMessageId}`);
+    return;
+  }
+
+  const rawMessage = buildCardCallbackRawMessage({
+    callback,
+    origin,
+    robotCode: dingtalkCfg?.clientId,
+    streamMessageId,
+  });
+  if (!rawMessage) {
+    logger.warn(`card callback ignored: unknown conversation for outTrackId=${callback.outTrackId}`);
+    return;
+  }
+
+  logger.info(
+    `Card callback: from=${callback.userId} outTrackId=${callback.outTrackId} action=${callback.actionId ?? ""}`
+  );
+  void handleDingtalkMessage({
+    cfg: config,
+    raw: rawMessage,
+    accountId,
+    log: (msg: string) => logger.info(msg.replace(/^\[dingtalk\]\s*/, "")),
+    error: (msg: string) => logger.error(msg.replace(/^\[dingtalk\]\s*/, "")),
+    enableAICard: dingtalkCfg?.enableAICard ?? false,
+  }).catch((err) => {
+    logger.error(`error handling card callback: ${String(err)}`);
+  });
+}
+
+/**
+ * 处理 webhook 模式（HTTP 回调）收到的机器人消息，与 Stream 模式共用去重与分发逻辑
+ */
+export function processDingtalkWebhookInbound(params: {
+  raw: DingtalkRawMessage;
+  config?: PluginConfig;
+  accountId: string;
+  logger: Logger;
+  onMessageAccepted?: () => void;
+}): void {
+  const { raw, config, accountId, logger, onMessageAccepted } = params;
+  const dedupeKey = raw.msgId ? `${accountId}:${raw.msgId}` : undefined;
+  if (dedupeKey && isDuplicateMessage(dedupeKey, Date.now())) {
+    logger.debug(`duplicate webhook message ignored: ${raw.msgId}`);
+    return;
+  }
+
+  const dingtalkCfg = config ? mergeDingtalkAccountConfig(config, accountId) : undefined;
+  const senderName = raw.senderNick ?? raw.senderId;
+  const contentText = parseContentPreview(raw);
+  logger.info(
+    `Inbound (webhook): from=${senderName} text="${contentText.slice(0, 50)}${contentText.length > 50 ? "..." : ""}"`,
+  );
+
+  onMessageAccepted?.();
+  void handleDingtalkMessage({
+    cfg: config,
+    raw,
+    accountId,
+    log: (msg: string) => logger.info(msg.replace(/^\[dingtalk\]\s*/, "")),
+    error: (msg: string) => logger.error(msg.replace(/^\[dingtalk\]\s*/, "")),
+    enableAICard: dingtalkCfg?.enableAICard ?? false,
+  }).catch((err) => {
+    logger.error(`error handling message: ${String(err)}`);
+  });
+}
+
 export function registerDingtalkBotHandler(params: RegisterDingtalkBotHandlerParams): void {
   const dingtalkCfg = params.config
     ? mergeDingtalkAccountConfig(params.config, params.accountId)
@@ -176,6 +298,18 @@ export function registerDingtalkBotHandler(params: RegisterDingtalkBotHandlerPar
       onParseError: params.onParseError,
     });
   });
+  params.client.registerCallbackListener(TOPIC_CARD, (payload) => {
+    processDingtalkCardCallback({
+      payload,
+      client: params.client,
+      config: params.config,
+      dingtalkCfg,
+      accountId: params.accountId,
+      logger: params.logger,
+      onAckError: params.onAckError,
+      onParseError: params.onParseError,
+    });
+  });
 }
 
 export function clearDingtalkMessageDedupeCache(): void {
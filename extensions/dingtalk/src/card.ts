@@ -3,6 +3,7 @@
  *
  * 提供:
  * - createAICard: 创建 AI Card 实例
+ * - createInteractiveCard: 创建带按钮 / 输入框的互动卡片
  * - streamAICard: 流式更新卡片内容
  * - finishAICard: 完成卡片
  *
@@ -62,6 +63,124 @@ export interface CreateAICardParams {
   log?: (msg: string) => void;
 }
 
+/**
+ * 创建并投放卡片实例
+ *
+ * 流程:
+ * 1. 创建卡片实例 (POST /v1.0/card/instances)
+ * 2. 投放卡片 (POST /v1.0/card/instances/deliver)
+ *
+ * @returns 是否成功
+ */
+async function createAndDeliverCardInstance(
+  params: CreateAICardParams & {
+    accessToken: string;
+    outTrackId: string;
+    cardTemplateId: string;
+    cardParamMap: Record<string, string>;
+    logTag: string;
+  }
+): Promise<boolean> {
+  const {
+    cfg,
+    conversationType,
+    conversationId,
+    senderId,
+    senderStaffId,
+    log,
+    accessToken,
+    outTrackId,
+    cardTemplateId,
+    cardParamMap,
+    logTag,
+  } = params;
+
+  // 1. 创建卡片实例
+  const createBody = {
+    cardTemplateId,
+    outTrackId,
+    cardData: {
+      cardParamMap,
+    },
+    callbackType: "STREAM",
+    imGroupOpenSpaceModel: { supportForward: true },
+    imRobotOpenSpaceModel: { supportForward: true },
+  };
+
+  const createController = new AbortController();
+  const createTimeoutId = setTimeout(() => createController.abort(), REQUEST_TIMEOUT);
+
+  try {
+    const createResp = await fetch(`${DINGTALK_API_BASE}/v1.0/card/instances`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-acs-dingtalk-access-token": accessToken,
+      },
+      body: JSON.stringify(createBody),
+      signal: createController.signal,
+    });
+
+    if (!createResp.ok) {
+      const errorText = await createResp.text();
+      log?.(`[${logTag}] Failed to create card: HTTP ${createResp.status} - ${errorText}`);
+      return false;
+    }
+
+    log?.(`[${logTag}] Card instance created successfully`);
+  } finally {
+    clearTimeout(createTimeoutId);
+  }
+
+  // 2. 投放卡片
+  const isGroup = conversationType === "2";
+  const deliverBody: Record<string, unknown> = {
+    outTrackId,
+    userIdType: 1,
+  };
+
+  if (isGroup) {
+    deliverBody.openSpaceId = `dtv1.card//IM_GROUP.${conversationId}`;
+    deliverBody.imGroupOpenDeliverModel = {
+      robotCode: cfg.clientId,
+    };
+  } else {
+    const userId = senderStaffId || senderId;
+    if (!userId) {
+      log?.(`[${logTag}] Error: missing senderStaffId/senderId for IM_ROBOT delivery`);
+      return false;
+    }
+    deliverBody.openSpaceId = `dtv1.card//IM_ROBOT.${userId}`;
+    deliverBody.imRobotOpenDeliverModel = { spaceType: "IM_ROBOT" };
+  }
+
+  const deliverController = new AbortController();
+  const deliverTimeoutId = setTimeout(() => deliverController.abort(), REQUEST_TIMEOUT);
+
+  try {
+    const deliverResp = await fetch(`${DINGTALK_API_BASE}/v1.0/card/instances/deliver`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-acs-dingtalk-access-token": accessToken,
+      },
+      body: JSON.stringify(deliverBody),
+      signal: deliverController.signal,
+    });
+
+    if (!deliverResp.ok) {
+      const errorText = await deliverResp.text();
+      log?.(`[${logTag}] Failed to deliver card: HTTP ${deliverResp.status} - ${errorText}`);
+      return false;
+    }
+
+    log?.(`[${logTag}] Card delivered successfully`);
+    return true;
+  } finally {
+    clearTimeout(deliverTimeoutId);
+  }
+}
+
 /**
  * 创建 AI Card 实例
  *
@@ -76,7 +195,7 @@ export interface CreateAICardParams {
 export async function createAICard(
   params: CreateAICardParams
 ): Promise<AICardInstance | null> {
-  const { cfg, conversationType, conversationId, senderId, senderStaffId, log } = params;
+  const { cfg, log } = params;
 
   // 验证凭证
   if (!cfg.clientId || !cfg.clientSecret) {
@@ -91,97 +210,72 @@ export async function createAICard(
 
     log?.(`[AICard] Creating card instance: ${cardInstanceId}`);
 
-    // 1. 创建卡片实例
-    const createBody = {
-      cardTemplateId: AI_CARD_TEMPLATE_ID,
+    const delivered = await createAndDeliverCardInstance({
+      ...params,
+      accessToken,
       outTrackId: cardInstanceId,
-      cardData: {
-        cardParamMap: {},
-      },
-      callbackType: "STREAM",
-      imGroupOpenSpaceModel: { supportForward: true },
-      imRobotOpenSpaceModel: { supportForward: true },
+      cardTemplateId: AI_CARD_TEMPLATE_ID,
+      cardParamMap: {},
+      logTag: "AICard",
+    });
+    if (!delivered) {
+      return null;
+    }
+
+    return {
+      cardInstanceId,
+      accessToken,
+      inputingStarted: false,
     };
+  } catch (err) {
+    log?.(`[AICard] Error creating card: ${String(err)}`);
+    return null;
+  }
+}
 
-    const createController = new AbortController();
-    const createTimeoutId = setTimeout(() => createController.abort(), REQUEST_TIMEOUT);
+/**
+ * 创建互动卡片参数
+ */
+export interface CreateInteractiveCardParams extends CreateAICardParams {
+  /** 互动卡片模板 ID（在钉钉卡片平台创建） */
+  templateId: string;
+  /** 模板变量 */
+  cardParamMap: Record<string, string>;
+}
 
-    try {
-      const createResp = await fetch(`${DINGTALK_API_BASE}/v1.0/card/instances`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-acs-dingtalk-access-token": accessToken,
-        },
-        body: JSON.stringify(createBody),
-        signal: createController.signal,
-      });
+/**
+ * 创建并投放互动卡片
+ *
+ * 卡片以 STREAM 方式回调，按钮点击由 Stream 客户端的卡片回调 topic 接收。
+ *
+ * @returns 卡片 outTrackId 或 null（失败时）
+ */
+export async function createInteractiveCard(
+  params: CreateInteractiveCardParams
+): Promise<string | null> {
+  const { cfg, log } = params;
 
-      if (!createResp.ok) {
-        const errorText = await createResp.text();
-        log?.(`[AICard] Failed to create card: HTTP ${createResp.status} - ${errorText}`);
-        return null;
-      }
+  if (!cfg.clientId || !cfg.clientSecret) {
+    log?.(`[InteractiveCard] Error: DingTalk credentials not configured`);
+    return null;
+  }
 
-      log?.(`[AICard] Card instance created successfully`);
-
-      // 2. 投放卡片
-      const isGroup = conversationType === "2";
-      const deliverBody: Record<string, unknown> = {
-        outTrackId: cardInstanceId,
-        userIdType: 1,
-      };
-
-      if (isGroup) {
-        deliverBody.openSpaceId = `dtv1.card//IM_GROUP.${conversationId}`;
-        deliverBody.imGroupOpenDeliverModel = {
-          robotCode: cfg.clientId,
-        };
-      } else {
-        const userId = senderStaffId || senderId;
-        if (!userId) {
-          log?.("[AICard] Error: missing senderStaffId/senderId for IM_ROBOT delivery");
-          return null;
-        }
-        deliverBody.openSpaceId = `dtv1.card//IM_ROBOT.${userId}`;
-        deliverBody.imRobotOpenDeliverModel = { spaceType: "IM_ROBOT" };
-      }
+  try {
+    const accessToken = await getAccessToken(cfg.clientId, cfg.clientSecret);
+    const outTrackId = `icard_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
 
-      const deliverController = new AbortController();
-      const deliverTimeoutId = setTimeout(() => deliverController.abort(), REQUEST_TIMEOUT);
-
-      try {
-        const deliverResp = await fetch(`${DINGTALK_API_BASE}/v1.0/card/instances/deliver`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "x-acs-dingtalk-access-token": accessToken,
-          },
-          body: JSON.stringify(deliverBody),
-          signal: deliverController.signal,
-        });
-
-        if (!deliverResp.ok) {
-          const errorText = await deliverResp.text();
-          log?.(`[AICard] Failed to deliver card: HTTP ${deliverResp.status} - ${errorText}`);
-          return null;
-        }
-
-        log?.(`[AICard] Card delivered successfully`);
-
-        return {
-          cardInstanceId,
-          accessToken,
-          inputingStarted: false,
-        };
-      } finally {
-        clearTimeout(deliverTimeoutId);
-      }
-    } finally {
-      clearTimeout(createTimeoutId);
-    }
+    log?.(`[InteractiveCard] Creating card instance: ${outTrackId}`);
+
+    const delivered = await createAndDeliverCardInstance({
+      ...params,
+      accessToken,
+      outTrackId,
+      cardTemplateId: params.templateId,
+      logTag: "InteractiveCard",
+    });
+    return delivered ? outTrackId : null;
   } catch (err) {
-    log?.(`[AICard] Error creating card: ${String(err)}`);
+    log?.(`[InteractiveCard] Error creating card: ${String(err)}`);
     return null;
   }
 }
@@ -5,6 +5,7 @@
  * - meta: 渠道元数据
  * - capabilities: 渠道能力声明
  * - config: 账户配置适配器
+ * - directory: 群成员目录（按昵称查找 userId）
  * - outbound: 出站消息适配器
  * - gateway: 连接管理适配器
  *
@@ -22,6 +23,7 @@ import {
   resolveDingtalkCredentials,
   type PluginConfig,
 } from "./config.js";
+import { listDingtalkGroupMembers } from "./mention.js";
 import { dingtalkOutbound } from "./outbound.js";
 import {
   monitorDingtalkProvider,
@@ -172,16 +174,35 @@ export const dingtalkPlugin = {
         defaultAccount: { type: "string" },
         clientId: { type: "string" },
         clientSecret: { type: "string" },
+        mode: { type: "string", enum: ["stream", "webhook"] },
         connectionMode: { type: "string", enum: ["stream", "webhook"] },
+        webhookPath: { type: "string" },
         dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist"] },
         groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
         requireMention: { type: "boolean" },
         allowFrom: { type: "array", items: { type: "string" } },
         groupAllowFrom: { type: "array", items: { type: "string" } },
+        denyFrom: { type: "array", items: { type: "string" } },
+        groups: {
+          type: "object",
+          additionalProperties: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              enabled: { type: "boolean" },
+              requireMention: { type: "boolean" },
+              allowFrom: { type: "array", items: { type: "string" } },
+              denyFrom: { type: "array", items: { type: "string" } },
+            },
+          },
+        },
         historyLimit: { type: "integer", minimum: 0 },
         textChunkLimit: { type: "integer", minimum: 1 },
+        replyAtSender: { type: "boolean" },
+        replyQuote: { type: "boolean" },
         longTaskNoticeDelayMs: { type: "integer", minimum: 0 },
         enableAICard: { type: "boolean" },
+        interactiveCardTemplateId: { type: "string" },
         gatewayToken: { type: "string" },
         gatewayPassword: { type: "string" },
         maxFileSizeMB: { type: "number", minimum: 0 },
@@ -203,16 +224,35 @@ export const dingtalkPlugin = {
               enabled: { type: "boolean" },
               clientId: { type: "string" },
               clientSecret: { type: "string" },
+              mode: { type: "string", enum: ["stream", "webhook"] },
               connectionMode: { type: "string", enum: ["stream", "webhook"] },
+              webhookPath: { type: "string" },
               dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist"] },
               groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
               requireMention: { type: "boolean" },
               allowFrom: { type: "array", items: { type: "string" } },
               groupAllowFrom: { type: "array", items: { type: "string" } },
+              denyFrom: { type: "array", items: { type: "string" } },
+              groups: {
+                type: "object",
+                additionalProperties: {
+                  type: "object",
+                  additionalProperties: false,
+                  properties: {
+                    enabled: { type: "boolean" },
+                    requireMention: { type: "boolean" },
+                    allowFrom: { type: "array", items: { type: "string" } },
+                    denyFrom: { type: "array", items: { type: "string" } },
+                  },
+                },
+              },
               historyLimit: { type: "integer", minimum: 0 },
               textChunkLimit: { type: "integer", minimum: 1 },
+              replyAtSender: { type: "boolean" },
+              replyQuote: { type: "boolean" },
               longTaskNoticeDelayMs: { type: "integer", minimum: 0 },
               enableAICard: { type: "boolean" },
+              interactiveCardTemplateId: { type: "string" },
               gatewayToken: { type: "string" },
               gatewayPassword: { type: "string" },
               maxFileSizeMB: { type: "number", minimum: 0 },
@@ -481,6 +521,33 @@ export const dingtalkPlugin = {
    */
   onboarding: dingtalkOnboardingAdapter,
 
+  /**
+   * 目录适配器
+   *
+   * 群成员来自入站群消息（进程内缓存），可按昵称或 userId 查找
+   */
+  directory: {
+    listPeers: async (params: {
+      cfg: PluginConfig;
+      accountId?: string;
+      query?: string;
+      limit?: number;
+    }) => {
+      const accountId = resolveDingtalkAccountId(params.cfg, params.accountId);
+      return listDingtalkGroupMembers({
+        accountId,
+        query: params.query,
+        limit: params.limit,
+      }).map((member) => ({
+        channel: "dingtalk",
+        accountId,
+        kind: "user" as const,
+        id: member.userId,
+        name: member.name,
+      }));
+    },
+  },
+
   /**
    * 出站消息适配器
    * Requirements: 7.1, 7.6
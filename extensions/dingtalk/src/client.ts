@@ -7,6 +7,7 @@
  */
 
 import { DWClient } from "dingtalk-stream";
+import { createAccessTokenManager, type AccessTokenStatus } from "@openclaw-china/shared";
 import { resolveDingtalkCredentials, type DingtalkConfig } from "./config.js";
 
 // ============================================================================
@@ -154,47 +155,16 @@ const DINGTALK_OAUTH_URL = "https://api.dingtalk.com/v1.0/oauth2/accessToken";
 /** Token 请求超时时间（毫秒） */
 const TOKEN_REQUEST_TIMEOUT = 10000;
 
-/** Token 提前刷新时间（毫秒）- 提前 5 分钟刷新 */
-const TOKEN_REFRESH_BUFFER = 5 * 60 * 1000;
-
-/** Token 缓存结构 */
-interface TokenCache {
-  /** 访问令牌 */
-  accessToken: string;
-  /** 过期时间戳（毫秒） */
-  expiresAt: number;
-  /** 关联的 clientId（用于多账户场景） */
-  clientId: string;
-}
-
-/** Token 缓存（按 clientId 索引） */
-const tokenCacheMap = new Map<string, TokenCache>();
+/** Token 缓存（按 clientId 索引），提前 5 分钟刷新 */
+const tokenManager = createAccessTokenManager({ name: "dingtalk" });
 
 /**
- * 获取钉钉 Access Token
- * 
- * 实现 token 缓存和自动刷新：
- * - 如果缓存的 token 未过期（提前 5 分钟），返回缓存的 token
- * - 否则从钉钉 OAuth 端点获取新 token
- * 
- * @param clientId 钉钉应用 AppKey
- * @param clientSecret 钉钉应用 AppSecret
- * @returns Access Token 字符串
- * @throws Error 如果获取 token 失败
+ * 从钉钉 OAuth 端点获取新 token
  */
-export async function getAccessToken(
+async function fetchAccessToken(
   clientId: string,
   clientSecret: string
-): Promise<string> {
-  const now = Date.now();
-  const cached = tokenCacheMap.get(clientId);
-
-  // 检查缓存是否有效（提前 5 分钟刷新）
-  if (cached && cached.expiresAt > now + TOKEN_REFRESH_BUFFER) {
-    return cached.accessToken;
-  }
-
-  // 从钉钉 OAuth 端点获取新 token
+): Promise<{ token: string; expiresInSec: number }> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), TOKEN_REQUEST_TIMEOUT);
 
@@ -227,15 +197,7 @@ export async function getAccessToken(
       throw new Error("DingTalk OAuth response missing accessToken");
     }
 
-    // 缓存 token（过期时间 = 当前时间 + expireIn 秒）
-    const expiresAt = now + data.expireIn * 1000;
-    tokenCacheMap.set(clientId, {
-      accessToken: data.accessToken,
-      expiresAt,
-      clientId,
-    });
-
-    return data.accessToken;
+    return { token: data.accessToken, expiresInSec: data.expireIn };
   } catch (err) {
     if (err instanceof Error && err.name === "AbortError") {
       throw new Error(`DingTalk access token request timed out after ${TOKEN_REQUEST_TIMEOUT}ms`);
@@ -246,6 +208,28 @@ export async function getAccessToken(
   }
 }
 
+/**
+ * 获取钉钉 Access Token
+ * 
+ * 实现 token 缓存和自动刷新：
+ * - 如果缓存的 token 未过期（提前 5 分钟），返回缓存的 token
+ * - 否则从钉钉 OAuth 端点获取新 token，同一 clientId 并发调用只请求一次
+ * 
+ * @param clientId 钉钉应用 AppKey
+ * @param clientSecret 钉钉应用 AppSecret
+ * @returns Access Token 字符串
+ * @throws Error 如果获取 token 失败
+ */
+export async function getAccessToken(
+  clientId: string,
+  clientSecret: string
+): Promise<string> {
+  return tokenManager.getToken({
+    key: clientId,
+    fetch: () => fetchAccessToken(clientId, clientSecret),
+  });
+}
+
 /**
  * 从配置获取 Access Token
  * 
@@ -267,11 +251,7 @@ export async function getAccessTokenFromConfig(cfg: DingtalkConfig): Promise<str
  * @param clientId 可选，指定要清除的 clientId。如果不指定则清除所有缓存
  */
 export function clearTokenCache(clientId?: string): void {
-  if (clientId) {
-    tokenCacheMap.delete(clientId);
-  } else {
-    tokenCacheMap.clear();
-  }
+  tokenManager.invalidate(clientId);
 }
 
 /**
@@ -283,17 +263,16 @@ export function clearTokenCache(clientId?: string): void {
  * @returns 是否有有效的缓存 token
  */
 export function isTokenCached(clientId: string): boolean {
-  const cached = tokenCacheMap.get(clientId);
-  if (!cached) return false;
-  return cached.expiresAt > Date.now() + TOKEN_REFRESH_BUFFER;
+  return tokenManager.getStatus(clientId).fresh;
 }
 
 /**
- * 获取 Token 缓存信息（用于测试）
+ * 获取 Token 缓存状态（用于测试和 probe）
  * 
  * @param clientId 钉钉应用 AppKey
- * @returns Token 缓存信息或 undefined
+ * @returns Token 缓存状态，未缓存时返回 undefined
  */
-export function getTokenCacheInfo(clientId: string): TokenCache | undefined {
-  return tokenCacheMap.get(clientId);
+export function getTokenCacheInfo(clientId: string): AccessTokenStatus | undefined {
+  const status = tokenManager.getStatus(clientId);
+  return status.cached ? status : undefined;
 }
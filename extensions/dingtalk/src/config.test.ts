@@ -15,6 +15,7 @@ import {
   mergeDingtalkAccountConfig,
   moveDingtalkSingleAccountConfigToDefaultAccount,
   resolveDingtalkAccountId,
+  resolveDingtalkConnectionMode,
   resolveDefaultDingtalkAccountId,
   resolveDingtalkCredentials,
   resolveInboundMediaDir,
@@ -382,6 +383,28 @@ describe("multi-account helpers", () => {
     expect(merged.textChunkLimit).toBe(2000);
   });
 
+  it("accepts mode as the connection mode and lets accounts override it with either key", () => {
+    const parsed = DingtalkConfigSchema.parse({ clientId: "id", clientSecret: "secret", mode: "webhook" });
+    expect(resolveDingtalkConnectionMode(parsed)).toBe("webhook");
+    expect(resolveDingtalkConnectionMode(DingtalkConfigSchema.parse({}))).toBe("stream");
+    expect(resolveDingtalkConnectionMode({ connectionMode: "webhook" })).toBe("webhook");
+    expect(DingtalkConfigSchema.safeParse({ mode: "websocket" }).success).toBe(false);
+
+    const cfg = {
+      channels: {
+        dingtalk: {
+          connectionMode: "stream" as const,
+          accounts: {
+            hook: { clientId: "hook-id", clientSecret: "hook-secret", mode: "webhook" as const },
+            plain: { clientId: "plain-id", clientSecret: "plain-secret" },
+          },
+        },
+      },
+    };
+    expect(resolveDingtalkConnectionMode(mergeDingtalkAccountConfig(cfg, "hook"))).toBe("webhook");
+    expect(resolveDingtalkConnectionMode(mergeDingtalkAccountConfig(cfg, "plain"))).toBe("stream");
+  });
+
   it("promotes legacy single-account root config into accounts.default", () => {
     const migrated = moveDingtalkSingleAccountConfigToDefaultAccount({
       channels: {
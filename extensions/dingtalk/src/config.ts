@@ -21,18 +21,43 @@ const optionalCoercedString = z.preprocess(
  * - enabled: 是否启用该渠道
  * - clientId: 钉钉应用的 AppKey
  * - clientSecret: 钉钉应用的 AppSecret
+ * - mode: 连接模式（stream=Stream 长连接, webhook=HTTP 回调），connectionMode 为等价旧写法
+ * - webhookPath: webhook 模式下的回调路径
  * - dmPolicy: 单聊策略 (open=开放, pairing=配对, allowlist=白名单)
  * - groupPolicy: 群聊策略 (open=开放, allowlist=白名单, disabled=禁用)
  * - requireMention: 群聊是否需要 @机器人
  * - allowFrom: 单聊白名单用户 ID 列表
  * - groupAllowFrom: 群聊白名单会话 ID 列表
+ * - denyFrom: 发送者黑名单
+ * - groups: 按群覆盖（requireMention/allowFrom/denyFrom/enabled）
  * - historyLimit: 历史消息数量限制
  * - textChunkLimit: 文本分块大小限制
+ * - replyAtSender: 群聊回复是否 @提问者
+ * - replyQuote: 群聊回复是否引用触发消息
  * - longTaskNoticeDelayMs: 长任务提醒延迟（毫秒，0 表示关闭）
  * - enableAICard: 是否启用 AI Card 流式响应
+ * - interactiveCardTemplateId: 互动卡片模板 ID（按钮 / 输入框回调）
  * - maxFileSizeMB: 媒体文件大小限制 (MB)
  * - inboundMedia: 入站媒体归档与保留策略
  */
+
+/** 默认群聊历史消息条数 */
+export const DEFAULT_DINGTALK_HISTORY_LIMIT = 10;
+
+/**
+ * 按群覆盖配置 Schema
+ */
+const DingtalkGroupOverrideSchema = z.object({
+  /** 是否在该群响应 */
+  enabled: z.boolean().optional(),
+  /** 覆盖 requireMention */
+  requireMention: z.boolean().optional(),
+  /** 该群允许触发的发送者 */
+  allowFrom: z.array(z.string()).optional(),
+  /** 该群禁止触发的发送者 */
+  denyFrom: z.array(z.string()).optional(),
+});
+
 const DingtalkAccountSchema = z.object({
   /** 账户显示名 */
   name: z.string().optional(),
@@ -43,8 +68,17 @@ const DingtalkAccountSchema = z.object({
   /** 钉钉应用 AppKey (clientId) */
   clientId: optionalCoercedString,
   
-  /** 钉钉应用 AppSecret (clientSecret) */
+  /** 钉钉应用 AppSecret (clientSecret)，webhook 模式下同时用于校验回调签名 */
   clientSecret: optionalCoercedString,
+
+  /** 连接模式: stream=Stream 长连接, webhook=HTTP 回调（机器人消息接收地址），默认 stream */
+  mode: z.enum(["stream", "webhook"]).optional(),
+
+  /** 连接模式旧写法，与 mode 等价（同时配置时以 connectionMode 为准） */
+  connectionMode: z.enum(["stream", "webhook"]).optional(),
+
+  /** webhook 模式下的回调路径 */
+  webhookPath: z.string().optional(),
   
   /** 单聊策略: open=开放, pairing=配对, allowlist=白名单 */
   dmPolicy: z.enum(["open", "pairing", "allowlist"]).optional().default("open"),
@@ -60,19 +94,34 @@ const DingtalkAccountSchema = z.object({
   
   /** 群聊白名单: 允许的会话 ID 列表 */
   groupAllowFrom: z.array(z.string()).optional(),
+
+  /** 发送者黑名单: 单聊与群聊均拒绝 */
+  denyFrom: z.array(z.string()).optional(),
+
+  /** 按群覆盖: key 为会话 ID、前缀通配（如 "cid*"）或 "*" */
+  groups: z.record(DingtalkGroupOverrideSchema).optional(),
   
   /** 历史消息数量限制 */
-  historyLimit: z.number().int().min(0).optional().default(10),
+  historyLimit: z.number().int().min(0).optional().default(DEFAULT_DINGTALK_HISTORY_LIMIT),
   
   /** 文本分块大小限制 (钉钉单条消息最大 4000 字符) */
   textChunkLimit: z.number().int().positive().optional().default(4000),
 
+  /** 群聊回复是否 @提问者（需入站消息携带有效的 sessionWebhook） */
+  replyAtSender: z.boolean().optional().default(true),
+
+  /** 群聊回复是否以引用块复述触发消息 */
+  replyQuote: z.boolean().optional().default(false),
+
   /** 长任务提醒延迟（毫秒），0 表示关闭 */
   longTaskNoticeDelayMs: z.number().int().min(0).optional().default(30000),
   
   /** 是否启用 AI Card 流式响应 */
   enableAICard: z.boolean().optional().default(false),
 
+  /** 互动卡片模板 ID: 配置后 Agent 可发送带按钮 / 输入框的卡片 */
+  interactiveCardTemplateId: z.string().optional(),
+
   /** Gateway auth token（Bearer） */
   gatewayToken: z.string().optional(),
 
@@ -120,15 +169,23 @@ const DINGTALK_ACCOUNT_KEYS = [
   "name",
   "clientId",
   "clientSecret",
+  "mode",
+  "connectionMode",
+  "webhookPath",
   "dmPolicy",
   "groupPolicy",
   "requireMention",
   "allowFrom",
   "groupAllowFrom",
+  "denyFrom",
+  "groups",
   "historyLimit",
   "textChunkLimit",
+  "replyAtSender",
+  "replyQuote",
   "longTaskNoticeDelayMs",
   "enableAICard",
+  "interactiveCardTemplateId",
   "gatewayToken",
   "gatewayPassword",
   "maxFileSizeMB",
@@ -281,6 +338,23 @@ export function moveDingtalkSingleAccountConfigToDefaultAccount(
   };
 }
 
+type ConnectionModeConfig = Pick<PartialDingtalkAccountConfig, "mode" | "connectionMode">;
+
+/**
+ * 解析连接模式（mode 与 connectionMode 等价，默认 stream）
+ */
+export function resolveDingtalkConnectionMode(
+  config: ConnectionModeConfig | undefined
+): "stream" | "webhook" {
+  return config?.connectionMode ?? config?.mode ?? "stream";
+}
+
+/** 将 mode 归一到 connectionMode，使账户级的任一写法都能覆盖顶层配置 */
+function normalizeConnectionMode<T extends ConnectionModeConfig>(config: T): T {
+  if (config.mode === undefined && config.connectionMode === undefined) return config;
+  return { ...config, connectionMode: resolveDingtalkConnectionMode(config) };
+}
+
 export function mergeDingtalkAccountConfig(
   cfg: PluginConfig,
   accountId: string
@@ -288,7 +362,7 @@ export function mergeDingtalkAccountConfig(
   const base = (cfg.channels?.dingtalk ?? {}) as DingtalkConfig;
   const { accounts: _ignored, defaultAccount: _ignored2, ...baseConfig } = base;
   const account = resolveAccountConfig(cfg, accountId) ?? {};
-  return { ...baseConfig, ...account };
+  return { ...normalizeConnectionMode(baseConfig), ...normalizeConnectionMode(account) };
 }
 
 /**
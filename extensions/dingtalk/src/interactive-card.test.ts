@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import {
+  buildCardCallbackRawMessage,
+  buildInteractiveCardParamMap,
+  clearInteractiveCardOrigins,
+  extractInteractiveCard,
+  formatInteractiveCardFallbackText,
+  getInteractiveCardOrigin,
+  parseDingtalkCardCallback,
+  rememberInteractiveCard,
+} from "./interactive-card.js";
+
+const approvalCard = {
+  title: "报销审批",
+  content: "张三提交了 300 元报销",
+  buttons: [
+    { id: "approve", text: "同意", style: "primary" as const },
+    { id: "reject", text: "拒绝", style: "danger" as const },
+  ],
+  inputs: [{ id: "remark", label: "备注" }],
+};
+
+describe("extractInteractiveCard", () => {
+  it("extracts the first card block and strips all blocks", () => {
+    const text = [
+      "已为你生成审批卡片。",
+      "```dingtalk-card",
+      JSON.stringify(approvalCard),
+      "```",
+    ].join("\n");
+
+    expect(extractInteractiveCard(text)).toEqual({ text: "已为你生成审批卡片。", card: approvalCard });
+  });
+
+  it("drops invalid blocks and unterminated partials", () => {
+    expect(extractInteractiveCard("hi\n```dingtalk-card\n{not json}\n```")).toEqual({ text: "hi" });
+    expect(extractInteractiveCard('hi\n```dingtalk-card\n{"buttons":[')).toEqual({ text: "hi" });
+    expect(extractInteractiveCard("plain text")).toEqual({ text: "plain text" });
+  });
+
+  it("requires at least one button", () => {
+    const text = '```dingtalk-card\n{"content":"x","buttons":[]}\n```';
+    expect(extractInteractiveCard(text).card).toBeUndefined();
+  });
+});
+
+describe("interactive card rendering", () => {
+  it("builds template params as strings", () => {
+    const params = buildInteractiveCardParamMap(approvalCard);
+    expect(params.title).toBe("报销审批");
+    expect(JSON.parse(params.buttons)).toEqual(approvalCard.buttons);
+    expect(JSON.parse(params.inputs)).toEqual(approvalCard.inputs);
+  });
+
+  it("falls back to text options", () => {
+    expect(formatInteractiveCardFallbackText(approvalCard)).toBe(
+      "**报销审批**\n\n张三提交了 300 元报销\n\n请回复以下选项之一：同意 / 拒绝"
+    );
+  });
+});
+
+describe("card callbacks", () => {
+  afterEach(() => {
+    clearInteractiveCardOrigins();
+  });
+
+  const payload = JSON.stringify({
+    outTrackId: "icard_1",
+    userId: "manager01",
+    spaceType: "IM_GROUP",
+    spaceId: "cidGroup",
+    type: "actionCallback",
+    value: JSON.stringify({
+      cardPrivateData: { actionIds: ["approve"], params: { remark: "尽快打款" } },
+    }),
+  });
+
+  it("parses action ids and form params", () => {
+    expect(parseDingtalkCardCallback(payload)).toEqual({
+      outTrackId: "icard_1",
+      userId: "manager01",
+      actionId: "approve",
+      params: { remark: "尽快打款" },
+      spaceType: "IM_GROUP",
+      spaceId: "cidGroup",
+    });
+    expect(parseDingtalkCardCallback("{}")).toBeNull();
+  });
+
+  it("routes callbacks back to the originating conversation", () => {
+    rememberInteractiveCard("icard_1", {
+      accountId: "default",
+      conversationType: "2",
+      conversationId: "cidOrigin",
+      card: approvalCard,
+    });
+    const callback = parseDingtalkCardCallback(payload);
+    const raw = buildCardCallbackRawMessage({
+      callback: callback!,
+      origin: getInteractiveCardOrigin("icard_1"),
+      robotCode: "robot-1",
+      streamMessageId: "stream-1",
+    });
+
+    expect(raw).toMatchObject({
+      senderId: "manager01",
+      conversationType: "2",
+      conversationId: "cidOrigin",
+      msgtype: "text",
+      text: { content: "[卡片操作] 报销审批: 同意 (approve)\n备注: 尽快打款" },
+      atUsers: [{ dingtalkId: "robot-1" }],
+      streamMessageId: "stream-1",
+    });
+  });
+
+  it("infers the conversation from the delivery space when the origin is unknown", () => {
+    const raw = buildCardCallbackRawMessage({ callback: parseDingtalkCardCallback(payload)! });
+    expect(raw).toMatchObject({
+      conversationType: "2",
+      conversationId: "cidGroup",
+      text: { content: "[卡片操作] approve (approve)\nremark: 尽快打款" },
+    });
+
+    const unknownSpace = parseDingtalkCardCallback({ outTrackId: "x", userId: "u" });
+    expect(buildCardCallbackRawMessage({ callback: unknownSpace! })).toBeNull();
+  });
+});
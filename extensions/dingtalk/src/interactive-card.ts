@@ -0,0 +1,316 @@
+/**
+ * 钉钉互动卡片（按钮 / 输入框回调）
+ *
+ * Agent 在回复中写入 dingtalk-card 代码块（JSON）即可发送互动卡片:
+ *
+ * ```dingtalk-card
+ * {"title":"报销审批","content":"张三提交了 300 元报销","buttons":[{"id":"approve","text":"同意"},{"id":"reject","text":"拒绝","style":"danger"}],"inputs":[{"id":"remark","label":"备注"}]}
+ * ```
+ *
+ * 卡片模板（interactiveCardTemplateId）需在钉钉卡片平台创建，约定模板变量:
+ * - title: 标题
+ * - content: Markdown 正文
+ * - buttons: 按钮列表 JSON 字符串 [{id, text, style}]，按钮回调的 actionId 取按钮 id
+ * - inputs: 输入框列表 JSON 字符串 [{id, label, placeholder}]，输入值以 id 为 key 放入回调 params
+ * - handledAction / handledBy: 回调处理后回写，可用于展示“已处理”状态
+ *
+ * 用户点击按钮后，钉钉通过 Stream 卡片回调 topic 推送事件，插件将其作为入站消息
+ * 投递回卡片所在会话。
+ *
+ * 文档: https://open.dingtalk.com/document/orgapp/instructions-for-filling-in-api-card-data
+ */
+
+import type { DingtalkRawMessage } from "./types.js";
+
+const CARD_BLOCK_LANG = "dingtalk-card";
+
+/** 卡片来源记录保留时长 */
+const CARD_ORIGIN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const CARD_ORIGIN_MAX_ENTRIES = 5_000;
+
+export interface InteractiveCardButton {
+  /** 按钮 ID，回调时作为 actionId */
+  id: string;
+  /** 按钮文字 */
+  text: string;
+  /** 按钮样式 */
+  style?: "primary" | "danger" | "normal";
+}
+
+export interface InteractiveCardInput {
+  /** 输入框 ID，回调时作为 params key */
+  id: string;
+  /** 输入框标签 */
+  label: string;
+  /** 占位提示 */
+  placeholder?: string;
+}
+
+export interface InteractiveCardSpec {
+  title?: string;
+  content: string;
+  buttons: InteractiveCardButton[];
+  inputs?: InteractiveCardInput[];
+}
+
+/**
+ * 卡片来源会话，用于将回调投递回原会话
+ */
+export interface InteractiveCardOrigin {
+  accountId: string;
+  conversationType: "1" | "2";
+  conversationId: string;
+  card: InteractiveCardSpec;
+  createdAt: number;
+}
+
+/**
+ * 解析后的卡片回调
+ */
+export interface DingtalkCardCallback {
+  /** 卡片 outTrackId */
+  outTrackId: string;
+  /** 操作人 userId */
+  userId: string;
+  /** 触发的按钮 ID */
+  actionId?: string;
+  /** 表单参数（输入框值等） */
+  params: Record<string, unknown>;
+  /** 投放空间类型: IM_GROUP / IM_ROBOT */
+  spaceType?: string;
+  /** 投放空间 ID（群聊为 openConversationId） */
+  spaceId?: string;
+}
+
+const cardOrigins = new Map<string, InteractiveCardOrigin>();
+
+const CARD_BLOCK_RE = new RegExp("```" + CARD_BLOCK_LANG + "[^\\n]*\\n([\\s\\S]*?)```", "g");
+const UNTERMINATED_CARD_BLOCK_RE = new RegExp("```" + CARD_BLOCK_LANG + "[\\s\\S]*$");
+
+function toTrimmedString(value: unknown): string | undefined {
+  if (typeof value === "string") return value.trim() || undefined;
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  return undefined;
+}
+
+function parseJsonRecord(value: unknown): Record<string, unknown> | undefined {
+  if (value && typeof value === "object") return value as Record<string, unknown>;
+  if (typeof value !== "string" || !value.trim()) return undefined;
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function normalizeCardSpec(raw: Record<string, unknown>): InteractiveCardSpec | undefined {
+  const content = toTrimmedString(raw.content) ?? "";
+  const buttons: InteractiveCardButton[] = [];
+  for (const item of Array.isArray(raw.buttons) ? raw.buttons : []) {
+    const record = parseJsonRecord(item);
+    const id = toTrimmedString(record?.id);
+    const text = toTrimmedString(record?.text) ?? id;
+    if (!id || !text) continue;
+    const style = record?.style;
+    buttons.push({
+      id,
+      text,
+      ...(style === "primary" || style === "danger" || style === "normal" ? { style } : {}),
+    });
+  }
+  const inputs: InteractiveCardInput[] = [];
+  for (const item of Array.isArray(raw.inputs) ? raw.inputs : []) {
+    const record = parseJsonRecord(item);
+    const id = toTrimmedString(record?.id);
+    if (!id) continue;
+    const placeholder = toTrimmedString(record?.placeholder);
+    inputs.push({
+      id,
+      label: toTrimmedString(record?.label) ?? id,
+      ...(placeholder ? { placeholder } : {}),
+    });
+  }
+  if (buttons.length === 0) return undefined;
+
+  const title = toTrimmedString(raw.title);
+  return {
+    ...(title ? { title } : {}),
+    content,
+    buttons,
+    ...(inputs.length > 0 ? { inputs } : {}),
+  };
+}
+
+/**
+ * 从回复文本中提取互动卡片
+ *
+ * 所有 dingtalk-card 代码块都会从文本中移除（包括尚未闭合的代码块），仅第一个有效代码块生效。
+ */
+export function extractInteractiveCard(text: string): { text: string; card?: InteractiveCardSpec } {
+  if (!text.includes("```" + CARD_BLOCK_LANG)) {
+    return { text };
+  }
+
+  let card: InteractiveCardSpec | undefined;
+  const stripped = text
+    .replace(CARD_BLOCK_RE, (_match, body: string) => {
+      if (!card) {
+        const raw = parseJsonRecord(body.trim());
+        card = raw ? normalizeCardSpec(raw) : undefined;
+      }
+      return "";
+    })
+    .replace(UNTERMINATED_CARD_BLOCK_RE, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return card ? { text: stripped, card } : { text: stripped };
+}
+
+/**
+ * 构建互动卡片模板变量
+ */
+export function buildInteractiveCardParamMap(card: InteractiveCardSpec): Record<string, string> {
+  return {
+    title: card.title ?? "",
+    content: card.content,
+    buttons: JSON.stringify(card.buttons.map((button) => ({ style: "normal", ...button }))),
+    inputs: JSON.stringify(card.inputs ?? []),
+  };
+}
+
+/**
+ * 未配置模板或卡片发送失败时的纯文本回退
+ */
+export function formatInteractiveCardFallbackText(card: InteractiveCardSpec): string {
+  const lines: string[] = [];
+  if (card.title) lines.push(`**${card.title}**`);
+  if (card.content) lines.push(card.content);
+  lines.push(`请回复以下选项之一：${card.buttons.map((button) => button.text).join(" / ")}`);
+  return lines.join("\n\n");
+}
+
+function pruneCardOrigins(now: number): void {
+  for (const [outTrackId, origin] of cardOrigins) {
+    if (now - origin.createdAt > CARD_ORIGIN_TTL_MS) {
+      cardOrigins.delete(outTrackId);
+    }
+  }
+  while (cardOrigins.size > CARD_ORIGIN_MAX_ENTRIES) {
+    const oldest = cardOrigins.keys().next().value;
+    if (typeof oldest !== "string") break;
+    cardOrigins.delete(oldest);
+  }
+}
+
+/**
+ * 记录卡片来源会话
+ */
+export function rememberInteractiveCard(outTrackId: string, origin: Omit<InteractiveCardOrigin, "createdAt">): void {
+  const now = Date.now();
+  cardOrigins.set(outTrackId, { ...origin, createdAt: now });
+  pruneCardOrigins(now);
+}
+
+export function getInteractiveCardOrigin(outTrackId: string): InteractiveCardOrigin | undefined {
+  return cardOrigins.get(outTrackId);
+}
+
+export function clearInteractiveCardOrigins(): void {
+  cardOrigins.clear();
+}
+
+/**
+ * 解析卡片回调 payload
+ *
+ * 回调数据中的 cardPrivateData 可能位于 value 或 content（JSON 字符串）。
+ */
+export function parseDingtalkCardCallback(payload: string | Record<string, unknown>): DingtalkCardCallback | null {
+  const data = parseJsonRecord(payload);
+  if (!data) return null;
+
+  const outTrackId = toTrimmedString(data.outTrackId);
+  const userId = toTrimmedString(data.userId);
+  if (!outTrackId || !userId) return null;
+
+  const value = parseJsonRecord(data.value) ?? parseJsonRecord(data.content) ?? {};
+  const privateData = parseJsonRecord(value.cardPrivateData) ?? {};
+  const actionIds = Array.isArray(privateData.actionIds) ? privateData.actionIds : [];
+  const actionId = toTrimmedString(actionIds[0]);
+  const params = parseJsonRecord(privateData.params) ?? {};
+
+  return {
+    outTrackId,
+    userId,
+    ...(actionId ? { actionId } : {}),
+    params,
+    spaceType: toTrimmedString(data.spaceType),
+    spaceId: toTrimmedString(data.spaceId),
+  };
+}
+
+/**
+ * 构建回调的入站正文
+ */
+export function formatCardCallbackContent(
+  callback: DingtalkCardCallback,
+  card?: InteractiveCardSpec
+): string {
+  const button = card?.buttons.find((item) => item.id === callback.actionId);
+  const lines = [
+    `[卡片操作] ${card?.title ? `${card.title}: ` : ""}${button?.text ?? callback.actionId ?? "提交"}` +
+      (callback.actionId ? ` (${callback.actionId})` : ""),
+  ];
+  for (const [key, value] of Object.entries(callback.params)) {
+    if (value === undefined || value === null || value === "") continue;
+    const label = card?.inputs?.find((item) => item.id === key)?.label ?? key;
+    lines.push(`${label}: ${typeof value === "string" ? value : JSON.stringify(value)}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * 将卡片回调转换为入站消息，投递回卡片所在会话
+ *
+ * 未找到来源记录（如网关重启后）时，根据回调中的投放空间推断会话。
+ *
+ * @returns 入站消息；无法确定会话时返回 null
+ */
+export function buildCardCallbackRawMessage(params: {
+  callback: DingtalkCardCallback;
+  origin?: InteractiveCardOrigin;
+  robotCode?: string;
+  streamMessageId?: string;
+}): DingtalkRawMessage | null {
+  const { callback, origin, robotCode, streamMessageId } = params;
+
+  let conversationType: "1" | "2";
+  let conversationId: string;
+  if (origin) {
+    conversationType = origin.conversationType;
+    conversationId = origin.conversationId;
+  } else if (callback.spaceType === "IM_GROUP" && callback.spaceId) {
+    conversationType = "2";
+    conversationId = callback.spaceId;
+  } else if (callback.spaceType === "IM_ROBOT" || callback.spaceType === "IM_SINGLE") {
+    conversationType = "1";
+    conversationId = callback.spaceId ?? callback.userId;
+  } else {
+    return null;
+  }
+
+  return {
+    senderId: callback.userId,
+    senderStaffId: callback.userId,
+    senderNick: callback.userId,
+    conversationType,
+    conversationId,
+    msgtype: "text",
+    text: { content: formatCardCallbackContent(callback, origin?.card) },
+    // 卡片操作视为直接面向机器人，群聊中无需再 @
+    ...(conversationType === "2" ? { atUsers: [{ dingtalkId: robotCode ?? "" }] } : {}),
+    ...(robotCode ? { robotCode } : {}),
+    ...(streamMessageId ? { streamMessageId } : {}),
+  };
+}
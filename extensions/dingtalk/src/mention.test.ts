@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import {
+  applyDingtalkMentions,
+  clearDingtalkGroupMembers,
+  formatDingtalkReplyQuote,
+  listDingtalkGroupMembers,
+  mergeDingtalkMentions,
+  rememberDingtalkGroupMember,
+  resolveDingtalkMentionsInText,
+} from "./mention.js";
+
+describe("dingtalk group member directory", () => {
+  afterEach(() => {
+    clearDingtalkGroupMembers();
+  });
+
+  it("looks up members by name or userId per account", () => {
+    rememberDingtalkGroupMember({ accountId: "a", conversationId: "G1", userId: "u1", name: "张三" });
+    rememberDingtalkGroupMember({ accountId: "a", conversationId: "G2", userId: "u2", name: "李四" });
+    rememberDingtalkGroupMember({ accountId: "b", conversationId: "G1", userId: "u3", name: "张三丰" });
+    rememberDingtalkGroupMember({ accountId: "a", conversationId: "G1", userId: "u4", name: "  " });
+
+    expect(listDingtalkGroupMembers({ accountId: "a", query: "张" }).map((m) => m.userId)).toEqual(["u1"]);
+    expect(listDingtalkGroupMembers({ accountId: "a", query: "u2" }).map((m) => m.name)).toEqual(["李四"]);
+    expect(listDingtalkGroupMembers({ accountId: "a", conversationId: "G2" })).toHaveLength(1);
+    expect(listDingtalkGroupMembers({ accountId: "a", limit: 1 })).toHaveLength(1);
+  });
+
+  it("resolves @name mentions, preferring longer names", () => {
+    rememberDingtalkGroupMember({ accountId: "a", conversationId: "G1", userId: "u1", name: "张三" });
+    rememberDingtalkGroupMember({ accountId: "a", conversationId: "G1", userId: "u2", name: "张三丰" });
+    rememberDingtalkGroupMember({ accountId: "a", conversationId: "G1", userId: "u3", name: "Bob" });
+
+    expect(
+      resolveDingtalkMentionsInText({
+        text: "请 @张三丰 处理，抄送 bob@Bob.com",
+        accountId: "a",
+        conversationId: "G1",
+      })
+    ).toEqual([{ userId: "u2", name: "张三丰" }]);
+  });
+});
+
+describe("dingtalk mention formatting", () => {
+  const mentions = mergeDingtalkMentions(
+    [{ userId: "u1", name: "张三" }],
+    [
+      { userId: "u2", name: "李四" },
+      { userId: "u1", name: "张三" },
+    ]
+  );
+
+  it("deduplicates mentions by userId", () => {
+    expect(mentions.map((m) => m.userId)).toEqual(["u1", "u2"]);
+  });
+
+  it("rewrites names to userIds for session webhooks", () => {
+    expect(applyDingtalkMentions("@李四 请看一下", mentions, "webhook")).toBe("@u2 请看一下\n\n@u1");
+  });
+
+  it("keeps readable names in plain text", () => {
+    expect(applyDingtalkMentions("@李四 请看一下", mentions, "text")).toBe("@李四 请看一下\n\n@张三");
+  });
+
+  it("formats a truncated quote of the trigger message", () => {
+    expect(formatDingtalkReplyQuote({ senderName: "张三", content: "第一行\n第二行" })).toBe(
+      "> 张三: 第一行 第二行"
+    );
+    expect(formatDingtalkReplyQuote({ content: "长".repeat(80) })).toBe(`> ${"长".repeat(60)}…`);
+    expect(formatDingtalkReplyQuote({ content: "  " })).toBe("");
+  });
+});
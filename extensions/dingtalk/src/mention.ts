@@ -0,0 +1,232 @@
+/**
+ * 钉钉群聊 @提及与引用
+ *
+ * - 群成员目录: 从入站消息记录 userId 与昵称（进程内），供 directory.listPeers 按名称查找，
+ *   以及把回复中的 "@昵称" 解析为可通知的 @提及
+ * - @提及: 钉钉只有 sessionWebhook 支持 at.atUserIds（正文需包含 "@userId" 才会高亮）；
+ *   OpenAPI 群消息不支持 @，此时仅在正文中保留 "@昵称"
+ * - 引用: 机器人接口不支持原生引用回复，用 Markdown 引用块复述触发消息
+ *
+ * 文档: https://open.dingtalk.com/document/orgapp/custom-robots-send-group-messages
+ */
+
+/** 单个群最多记录的成员数 */
+const GROUP_MEMBER_MAX_ENTRIES = 500;
+/** 最多记录的群数量（超过时淘汰最久未更新的群） */
+const GROUP_MEMBER_MAX_GROUPS = 1_000;
+/** 引用内容最大长度 */
+const QUOTE_MAX_LENGTH = 60;
+
+/**
+ * 回复中的 @提及
+ */
+export interface DingtalkMention {
+  /** 钉钉 userId（staffId） */
+  userId: string;
+  /** 昵称（用于文本回退展示） */
+  name?: string;
+}
+
+/**
+ * 群成员目录条目
+ */
+export interface DingtalkGroupMember {
+  userId: string;
+  name: string;
+  conversationId: string;
+  lastSeenAt: number;
+}
+
+// Map 保持插入顺序，更新时重新插入即可按最近活跃淘汰
+const groupMembers = new Map<string, Map<string, DingtalkGroupMember>>();
+
+function buildGroupKey(accountId: string, conversationId: string): string {
+  return `${accountId}:${conversationId}`;
+}
+
+/**
+ * 记录群成员（userId 与昵称）
+ */
+export function rememberDingtalkGroupMember(params: {
+  accountId: string;
+  conversationId: string;
+  userId: string;
+  name?: string;
+}): void {
+  const userId = params.userId.trim();
+  const name = params.name?.trim();
+  if (!userId || !name) return;
+
+  const key = buildGroupKey(params.accountId, params.conversationId);
+  const members = groupMembers.get(key) ?? new Map<string, DingtalkGroupMember>();
+  members.delete(userId);
+  members.set(userId, {
+    userId,
+    name,
+    conversationId: params.conversationId,
+    lastSeenAt: Date.now(),
+  });
+  while (members.size > GROUP_MEMBER_MAX_ENTRIES) {
+    const oldest = members.keys().next().value;
+    if (oldest === undefined) break;
+    members.delete(oldest);
+  }
+
+  groupMembers.delete(key);
+  groupMembers.set(key, members);
+  while (groupMembers.size > GROUP_MEMBER_MAX_GROUPS) {
+    const oldest = groupMembers.keys().next().value;
+    if (oldest === undefined) break;
+    groupMembers.delete(oldest);
+  }
+}
+
+/**
+ * 按名称或 userId 查找已知群成员
+ *
+ * 未指定 conversationId 时在该账户的所有群中查找（同一 userId 只返回最近一次出现）。
+ */
+export function listDingtalkGroupMembers(params: {
+  accountId: string;
+  conversationId?: string;
+  query?: string;
+  limit?: number;
+}): DingtalkGroupMember[] {
+  const query = params.query?.trim().toLowerCase();
+  const byUser = new Map<string, DingtalkGroupMember>();
+  const prefix = `${params.accountId}:`;
+
+  for (const [key, members] of groupMembers) {
+    if (params.conversationId !== undefined) {
+      if (key !== buildGroupKey(params.accountId, params.conversationId)) continue;
+    } else if (!key.startsWith(prefix)) {
+      continue;
+    }
+    for (const member of members.values()) {
+      if (
+        query &&
+        !member.name.toLowerCase().includes(query) &&
+        member.userId.toLowerCase() !== query
+      ) {
+        continue;
+      }
+      const existing = byUser.get(member.userId);
+      if (!existing || existing.lastSeenAt < member.lastSeenAt) {
+        byUser.set(member.userId, member);
+      }
+    }
+  }
+
+  const result = Array.from(byUser.values()).sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+  return typeof params.limit === "number" && params.limit > 0 ? result.slice(0, params.limit) : result;
+}
+
+/**
+ * 清空群成员目录（测试用）
+ */
+export function clearDingtalkGroupMembers(): void {
+  groupMembers.clear();
+}
+
+function findMentionIndex(text: string, token: string): number {
+  let index = text.indexOf(token);
+  while (index >= 0) {
+    // 排除邮箱等 "xxx@name" 形式
+    const prev = index > 0 ? text[index - 1] : "";
+    if (!prev || !/[A-Za-z0-9_.]/.test(prev)) {
+      return index;
+    }
+    index = text.indexOf(token, index + token.length);
+  }
+  return -1;
+}
+
+/**
+ * 从回复文本中解析 "@昵称" 对应的群成员
+ */
+export function resolveDingtalkMentionsInText(params: {
+  text: string;
+  accountId: string;
+  conversationId: string;
+}): DingtalkMention[] {
+  if (!params.text.includes("@")) return [];
+
+  const members = listDingtalkGroupMembers({
+    accountId: params.accountId,
+    conversationId: params.conversationId,
+  });
+  // 长名称优先，避免 "@张三丰" 被 "@张三" 抢先匹配
+  members.sort((a, b) => b.name.length - a.name.length);
+
+  const mentions: DingtalkMention[] = [];
+  let remaining = params.text;
+  for (const member of members) {
+    const token = `@${member.name}`;
+    const index = findMentionIndex(remaining, token);
+    if (index < 0) continue;
+    mentions.push({ userId: member.userId, name: member.name });
+    remaining = remaining.split(token).join("");
+  }
+  return mentions;
+}
+
+/**
+ * 合并 @提及（按 userId 去重）
+ */
+export function mergeDingtalkMentions(...lists: Array<DingtalkMention[] | undefined>): DingtalkMention[] {
+  const merged = new Map<string, DingtalkMention>();
+  for (const list of lists) {
+    for (const mention of list ?? []) {
+      if (!mention.userId || merged.has(mention.userId)) continue;
+      merged.set(mention.userId, mention);
+    }
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * 将 @提及写入正文
+ *
+ * - webhook: "@昵称" 替换为 "@userId"（钉钉据此高亮并通知），正文未提及的成员追加在末尾
+ * - text: 无法真正通知，正文未提及的成员以 "@昵称" 追加在末尾
+ */
+export function applyDingtalkMentions(
+  text: string,
+  mentions: DingtalkMention[],
+  mode: "webhook" | "text"
+): string {
+  let next = text;
+  const appended: string[] = [];
+
+  for (const mention of mentions) {
+    const nameToken = mention.name ? `@${mention.name}` : undefined;
+    const hasName = nameToken ? findMentionIndex(next, nameToken) >= 0 : false;
+
+    if (mode === "webhook") {
+      if (hasName && nameToken) {
+        next = next.split(nameToken).join(`@${mention.userId}`);
+      } else if (findMentionIndex(next, `@${mention.userId}`) < 0) {
+        appended.push(`@${mention.userId}`);
+      }
+      continue;
+    }
+
+    if (!hasName) {
+      appended.push(nameToken ?? `@${mention.userId}`);
+    }
+  }
+
+  if (appended.length === 0) return next;
+  return next.trim() ? `${next}\n\n${appended.join(" ")}` : appended.join(" ");
+}
+
+/**
+ * 格式化触发消息的引用块
+ */
+export function formatDingtalkReplyQuote(params: { senderName?: string; content: string }): string {
+  const content = params.content.replace(/\s+/g, " ").trim();
+  if (!content) return "";
+  const excerpt = content.length > QUOTE_MAX_LENGTH ? `${content.slice(0, QUOTE_MAX_LENGTH)}…` : content;
+  const sender = params.senderName?.trim();
+  return sender ? `> ${sender}: ${excerpt}` : `> ${excerpt}`;
+}
@@ -4,7 +4,7 @@
  * 实现 ChannelOutboundAdapter 接口，提供:
  * - sendText: 发送文本消息
  * - sendMedia: 发送媒体消息（含回退逻辑）
- * - chunker: 长消息分块（利用 Moltbot 核心的 markdown-aware 分块）
+ * - chunker: 长消息分块（使用 shared 的 markdown 感知分块）
  *
  * 配置:
  * - deliveryMode: "direct" (直接发送，不使用队列)
@@ -12,9 +12,9 @@
  * - chunkerMode: "markdown" (使用 markdown 感知的分块模式)
  */
 
+import { chunkMarkdownText } from "@openclaw-china/shared";
 import { sendMessageDingtalk } from "./send.js";
 import { sendMediaDingtalk } from "./media.js";
-import { getDingtalkRuntime } from "./runtime.js";
 import {
   mergeDingtalkAccountConfig,
   resolveDingtalkAccountId,
@@ -60,19 +60,9 @@ export const dingtalkOutbound = {
 
   /**
    * 长消息分块器
-   * 利用 Moltbot 核心的 markdown-aware 分块，不会在代码块中间断开
+   * 代码块、表格拆分后各自补齐结构，不会在中间断开
    */
-  chunker: (text: string, limit: number): string[] => {
-    try {
-      const runtime = getDingtalkRuntime();
-      if (runtime.channel?.text?.chunkMarkdownText) {
-        return runtime.channel.text.chunkMarkdownText(text, limit);
-      }
-    } catch {
-      // runtime 未初始化，返回原文让 Moltbot 核心处理
-    }
-    return [text];
-  },
+  chunker: (text: string, limit: number): string[] => chunkMarkdownText(text, { limit }),
 
   /**
    * 发送文本消息
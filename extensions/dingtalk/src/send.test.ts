@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./client.js", () => ({
+  getAccessToken: vi.fn(async () => "token"),
+}));
+
+import { DingtalkConfigSchema } from "./config.js";
+import { dingtalkLogger } from "./logger.js";
+import { sendMessageDingtalk } from "./send.js";
+
+const mockFetch = vi.fn();
+vi.stubGlobal("fetch", mockFetch);
+
+const cfg = DingtalkConfigSchema.parse({ clientId: "app-key", clientSecret: "app-secret" });
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function sentMsgKeys(): string[] {
+  return mockFetch.mock.calls.map(([, init]) => JSON.parse((init as RequestInit).body as string).msgKey);
+}
+
+describe("sendMessageDingtalk templates", () => {
+  afterEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("falls back along the template chain when a template is rejected", async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(400, { code: "invalidParameter", message: "msgParam invalid" }))
+      .mockResolvedValueOnce(jsonResponse(400, { code: "invalidParameter", message: "msgParam invalid" }))
+      .mockResolvedValueOnce(jsonResponse(200, { processQueryKey: "pqk-1" }));
+
+    const result = await sendMessageDingtalk({
+      cfg,
+      to: "cid-1",
+      text: "是否继续？\n```dingtalk-actioncard\n[同意](yes) [拒绝](no)\n```",
+      chatType: "group",
+    });
+
+    expect(result.messageId).toBe("pqk-1");
+    expect(sentMsgKeys()).toEqual(["sampleActionCard6", "sampleActionCard2", "sampleMarkdown"]);
+  });
+
+  it("does not retry other templates on non-validation errors", async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(403, { code: "Forbidden", message: "no permission" }));
+
+    await expect(
+      sendMessageDingtalk({ cfg, to: "user-1", text: "https://example.com", chatType: "direct" })
+    ).rejects.toThrow("no permission");
+    expect(sentMsgKeys()).toEqual(["sampleLink"]);
+  });
+
+  it("sends mentions through a valid session webhook", async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(200, { errcode: 0 }));
+
+    await sendMessageDingtalk({
+      cfg,
+      to: "cid-1",
+      text: "@张三 请处理",
+      chatType: "group",
+      mentions: [{ userId: "u1", name: "张三" }],
+      sessionWebhook: "https://oapi.dingtalk.com/robot/sendBySession?session=abc",
+      sessionWebhookExpiresAt: Date.now() + 60 * 60 * 1000,
+    });
+
+    const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(url).toContain("sendBySession");
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      msgtype: "markdown",
+      markdown: { text: "@u1 请处理" },
+      at: { atUserIds: ["u1"] },
+    });
+  });
+
+  it("keeps readable mentions when the session webhook has expired", async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(200, { processQueryKey: "pqk-2" }));
+
+    await sendMessageDingtalk({
+      cfg,
+      to: "cid-1",
+      text: "已处理",
+      chatType: "group",
+      mentions: [{ userId: "u1", name: "张三" }],
+      sessionWebhook: "https://oapi.dingtalk.com/robot/sendBySession?session=abc",
+      sessionWebhookExpiresAt: Date.now() - 1,
+    });
+
+    const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(url).toContain("/v1.0/robot/groupMessages/send");
+    expect(JSON.parse(JSON.parse(init.body as string).msgParam)).toEqual({ title: "已处理", text: "已处理\n\n@张三" });
+  });
+
+  it("replies through the session webhook in webhook mode and falls back to the OpenAPI", async () => {
+    const webhookCfg = DingtalkConfigSchema.parse({
+      clientId: "app-key",
+      clientSecret: "app-secret",
+      connectionMode: "webhook",
+    });
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(200, { errcode: 0 }))
+      .mockResolvedValueOnce(jsonResponse(200, { errcode: 300001, errmsg: "session expired" }))
+      .mockResolvedValueOnce(jsonResponse(200, { processQueryKey: "pqk-3" }));
+    const warn = vi.spyOn(dingtalkLogger, "warn").mockImplementation(() => {});
+
+    const params = {
+      cfg: webhookCfg,
+      to: "user-1",
+      text: "收到",
+      chatType: "direct" as const,
+      sessionWebhook: "https://oapi.dingtalk.com/robot/sendBySession?session=abc",
+      sessionWebhookExpiresAt: Date.now() + 60 * 60 * 1000,
+    };
+    const viaWebhook = await sendMessageDingtalk(params);
+    const viaOpenApi = await sendMessageDingtalk(params);
+
+    expect(viaWebhook.messageId.startsWith("wh_")).toBe(true);
+    expect(viaOpenApi.messageId).toBe("pqk-3");
+    const urls = mockFetch.mock.calls.map(([url]) => String(url));
+    expect(urls[0]).toContain("sendBySession");
+    expect(urls[1]).toContain("sendBySession");
+    expect(urls[2]).toContain("/v1.0/robot/oToMessages/batchSend");
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0]?.[0]).toContain("falling back to OpenAPI");
+    warn.mockRestore();
+  });
+});
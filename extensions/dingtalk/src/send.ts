@@ -2,14 +2,24 @@
  * 钉钉发送消息 API
  *
  * 提供:
- * - sendMessageDingtalk: 发送 Markdown 消息（单聊/群聊）
+ * - sendMessageDingtalk: 发送消息（单聊/群聊，按内容选择机器人消息模板，群聊支持 @提及）
+ * - sendSessionWebhookMessage: 通过入站消息携带的 sessionWebhook 回复
  *
  * API 文档:
  * - 单聊: https://open.dingtalk.com/document/orgapp/chatbots-send-one-on-one-chat-messages-in-batches
  * - 群聊: https://open.dingtalk.com/document/orgapp/the-robot-sends-a-group-message
+ * - sessionWebhook: https://open.dingtalk.com/document/orgapp/robot-reply-and-send-messages
  */
 
 import { getAccessToken } from "./client.js";
+import { resolveDingtalkConnectionMode } from "./config.js";
+import { dingtalkLogger } from "./logger.js";
+import { applyDingtalkMentions, type DingtalkMention } from "./mention.js";
+import {
+  extractDingtalkTitle,
+  resolveDingtalkTemplates,
+  type DingtalkRobotTemplate,
+} from "./template.js";
 import type { DingtalkConfig, DingtalkSendResult } from "./types.js";
 
 /** 钉钉 API 基础 URL */
@@ -18,16 +28,20 @@ const DINGTALK_API_BASE = "https://api.dingtalk.com";
 /** HTTP 请求超时时间（毫秒） */
 const REQUEST_TIMEOUT = 30000;
 
-/** Markdown 默认标题 */
-const DEFAULT_MARKDOWN_TITLE = "Moltbot";
+/** sessionWebhook 过期前预留的安全时间（毫秒） */
+const SESSION_WEBHOOK_EXPIRY_MARGIN_MS = 30_000;
 
 /**
- * 从文本中提取标题（取第一行，去除 markdown 符号）
+ * 钉钉 API HTTP 错误（保留状态码，用于判断模板是否被拒绝）
  */
-function extractTitle(text: string, defaultTitle: string): string {
-  const firstLine = text.split("\n")[0] || "";
-  const cleaned = firstLine.replace(/^[#*\s\->]+/, "").slice(0, 20);
-  return cleaned || defaultTitle;
+class DingtalkHttpError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = "DingtalkHttpError";
+  }
 }
 
 /**
@@ -44,6 +58,12 @@ export interface SendMessageParams {
   chatType: "direct" | "group";
   /** Markdown 消息标题（可选） */
   title?: string;
+  /** 群聊 @提及的成员（仅群聊生效） */
+  mentions?: DingtalkMention[];
+  /** 入站消息携带的 sessionWebhook（@提及与 webhook 模式的回复通过它发送） */
+  sessionWebhook?: string;
+  /** sessionWebhook 过期时间（毫秒时间戳） */
+  sessionWebhookExpiresAt?: number;
 }
 
 /**
@@ -56,13 +76,20 @@ interface DingtalkApiError {
 }
 
 /**
- * 发送 Markdown 消息到钉钉
+ * 发送消息到钉钉
  *
  * 根据 chatType 调用不同的 API:
  * - direct: /v1.0/robot/oToMessages/batchSend (单聊批量发送)
  * - group: /v1.0/robot/groupMessages/send (群聊发送)
  *
- * 始终使用 sampleMarkdown 模板，支持表格、代码块等格式
+ * 按内容选择机器人消息模板（链接卡片、ActionCard、图片，默认 sampleMarkdown），
+ * 模板被拒绝（HTTP 400）时沿回退链降级，最终以 sampleMarkdown 发送
+ *
+ * 内容为 Markdown 时，以下情况优先通过未过期的 sessionWebhook 发送，过期或失败时回退到 OpenAPI:
+ * - 群聊带 mentions（可真正 @ 到成员；回退后仅在正文中保留 "@昵称"）
+ * - webhook 模式（mode: "webhook"）下的所有回复
+ *
+ * 卡片类模板无法 @，忽略 mentions
  *
  * @param params 发送参数
  * @returns 发送结果
@@ -72,6 +99,41 @@ export async function sendMessageDingtalk(
   params: SendMessageParams
 ): Promise<DingtalkSendResult> {
   const { cfg, to, text, chatType, title } = params;
+  let templates = resolveDingtalkTemplates(text, { title });
+  const mentions = chatType === "group" ? (params.mentions ?? []) : [];
+
+  if (
+    templates[0]?.msgKey === "sampleMarkdown" &&
+    (mentions.length > 0 || resolveDingtalkConnectionMode(cfg) === "webhook")
+  ) {
+    const msgTitle = title || extractDingtalkTitle(text);
+    if (isSessionWebhookUsable(params.sessionWebhook, params.sessionWebhookExpiresAt)) {
+      try {
+        return await sendSessionWebhookMessage({
+          sessionWebhook: params.sessionWebhook as string,
+          text: mentions.length > 0 ? applyDingtalkMentions(text, mentions, "webhook") : text,
+          title: msgTitle,
+          atUserIds: mentions.map((mention) => mention.userId),
+          conversationId: to,
+        });
+      } catch (err) {
+        // sessionWebhook 失效时回退到 OpenAPI
+        dingtalkLogger.warn(
+          `sessionWebhook send to ${to} failed, falling back to OpenAPI: ${
+            err instanceof Error ? err.message : String(err)
+          }`
+        );
+      }
+    }
+    if (mentions.length > 0) {
+      templates = [
+        {
+          msgKey: "sampleMarkdown",
+          msgParam: { title: msgTitle, text: applyDingtalkMentions(text, mentions, "text") },
+        },
+      ];
+    }
+  }
 
   // 验证凭证
   if (!cfg.clientId || !cfg.clientSecret) {
@@ -81,14 +143,21 @@ export async function sendMessageDingtalk(
   // 获取 Access Token
   const accessToken = await getAccessToken(cfg.clientId, cfg.clientSecret);
 
-  // 提取标题
-  const msgTitle = title || extractTitle(text, DEFAULT_MARKDOWN_TITLE);
-
-  if (chatType === "direct") {
-    return sendDirectMessage({ cfg, to, text, accessToken, title: msgTitle });
-  } else {
-    return sendGroupMessage({ cfg, to, text, accessToken, title: msgTitle });
+  let lastError: unknown;
+  for (const template of templates) {
+    try {
+      return chatType === "direct"
+        ? await sendDirectMessage({ cfg, to, accessToken, template })
+        : await sendGroupMessage({ cfg, to, accessToken, template });
+    } catch (err) {
+      // 仅参数校验失败时降级，超时等错误可能已送达，不重复发送
+      if (!(err instanceof DingtalkHttpError) || err.status !== 400) {
+        throw err;
+      }
+      lastError = err;
+    }
   }
+  throw lastError;
 }
 
 
@@ -96,18 +165,16 @@ export async function sendMessageDingtalk(
  * 发送单聊消息
  *
  * 调用 /v1.0/robot/oToMessages/batchSend API
- * 始终使用 sampleMarkdown 模板
  *
  * @internal
  */
 async function sendDirectMessage(params: {
   cfg: DingtalkConfig;
   to: string;
-  text: string;
   accessToken: string;
-  title: string;
+  template: DingtalkRobotTemplate;
 }): Promise<DingtalkSendResult> {
-  const { cfg, to, text, accessToken, title } = params;
+  const { cfg, to, accessToken, template } = params;
 
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
@@ -124,8 +191,8 @@ async function sendDirectMessage(params: {
         body: JSON.stringify({
           robotCode: cfg.clientId,
           userIds: [to],
-          msgKey: "sampleMarkdown",
-          msgParam: JSON.stringify({ title, text }),
+          msgKey: template.msgKey,
+          msgParam: JSON.stringify(template.msgParam),
         }),
         signal: controller.signal,
       }
@@ -144,7 +211,7 @@ async function sendDirectMessage(params: {
         errorMessage = `${errorMessage} - ${errorText}`;
       }
 
-      throw new Error(errorMessage);
+      throw new DingtalkHttpError(errorMessage, response.status);
     }
 
     const data = (await response.json()) as {
@@ -178,18 +245,16 @@ async function sendDirectMessage(params: {
  * 发送群聊消息
  *
  * 调用 /v1.0/robot/groupMessages/send API
- * 始终使用 sampleMarkdown 模板
  *
  * @internal
  */
 async function sendGroupMessage(params: {
   cfg: DingtalkConfig;
   to: string;
-  text: string;
   accessToken: string;
-  title: string;
+  template: DingtalkRobotTemplate;
 }): Promise<DingtalkSendResult> {
-  const { cfg, to, text, accessToken, title } = params;
+  const { cfg, to, accessToken, template } = params;
 
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
@@ -206,8 +271,8 @@ async function sendGroupMessage(params: {
         body: JSON.stringify({
           robotCode: cfg.clientId,
           openConversationId: to,
-          msgKey: "sampleMarkdown",
-          msgParam: JSON.stringify({ title, text }),
+          msgKey: template.msgKey,
+          msgParam: JSON.stringify(template.msgParam),
         }),
         signal: controller.signal,
       }
@@ -226,7 +291,7 @@ async function sendGroupMessage(params: {
         errorMessage = `${errorMessage} - ${errorText}`;
       }
 
-      throw new Error(errorMessage);
+      throw new DingtalkHttpError(errorMessage, response.status);
     }
 
     const data = (await response.json()) as {
@@ -246,3 +311,78 @@ async function sendGroupMessage(params: {
     clearTimeout(timeoutId);
   }
 }
+
+/**
+ * 判断 sessionWebhook 是否仍可用
+ */
+export function isSessionWebhookUsable(
+  sessionWebhook: string | undefined,
+  expiresAt: number | undefined,
+  now = Date.now()
+): boolean {
+  if (!sessionWebhook?.trim()) return false;
+  if (typeof expiresAt !== "number" || !Number.isFinite(expiresAt)) return true;
+  return expiresAt - SESSION_WEBHOOK_EXPIRY_MARGIN_MS > now;
+}
+
+/**
+ * 通过 sessionWebhook 发送 Markdown 消息
+ *
+ * sessionWebhook 由入站消息携带，有效期内无需 Access Token，支持 at.atUserIds
+ *
+ * @throws Error 如果 HTTP 请求失败或 errcode 非 0
+ */
+export async function sendSessionWebhookMessage(params: {
+  sessionWebhook: string;
+  text: string;
+  title: string;
+  atUserIds?: string[];
+  conversationId: string;
+}): Promise<DingtalkSendResult> {
+  const { sessionWebhook, text, title, atUserIds, conversationId } = params;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+  try {
+    const response = await fetch(sessionWebhook, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        msgtype: "markdown",
+        markdown: { title, text },
+        at: {
+          atUserIds: atUserIds ?? [],
+          isAtAll: false,
+        },
+      }),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`DingTalk session webhook send failed: HTTP ${response.status} - ${errorText}`);
+    }
+
+    const data = (await response.json()) as { errcode?: number; errmsg?: string };
+    if (typeof data.errcode === "number" && data.errcode !== 0) {
+      throw new Error(
+        `DingTalk session webhook send failed: ${data.errmsg ?? "unknown error"} (code: ${data.errcode})`
+      );
+    }
+
+    return {
+      messageId: `wh_${Date.now()}`,
+      conversationId,
+    };
+  } catch (err) {
+    if (err instanceof Error && err.name === "AbortError") {
+      throw new Error(`DingTalk session webhook send timed out after ${REQUEST_TIMEOUT}ms`);
+    }
+    throw err;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
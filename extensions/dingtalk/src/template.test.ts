@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+
+import { extractDingtalkTitle, resolveDingtalkTemplates } from "./template.js";
+
+describe("extractDingtalkTitle", () => {
+  it("prefers the first heading", () => {
+    expect(extractDingtalkTitle("说明如下\n\n## **部署报告**\n内容")).toBe("部署报告");
+  });
+
+  it("falls back to the first content line and the default title", () => {
+    expect(extractDingtalkTitle("```ts\nconst a = 1;\n```")).toBe("const a = 1;");
+    expect(extractDingtalkTitle("- [文档](https://example.com) 已更新")).toBe("文档 已更新");
+    expect(extractDingtalkTitle("  ")).toBe("Moltbot");
+  });
+});
+
+describe("resolveDingtalkTemplates", () => {
+  it("uses sampleMarkdown with the heading title by default", () => {
+    expect(resolveDingtalkTemplates("# 日报\n- 完成 A\n- 完成 B")).toEqual([
+      { msgKey: "sampleMarkdown", msgParam: { title: "日报", text: "# 日报\n- 完成 A\n- 完成 B" } },
+    ]);
+  });
+
+  it("builds a link card for a single link with a description", () => {
+    const text = "[发布说明](https://example.com/releases/1)\n本次更新修复了登录问题\n![](https://example.com/cover.png)";
+    const [link, markdown] = resolveDingtalkTemplates(text);
+    expect(link).toEqual({
+      msgKey: "sampleLink",
+      msgParam: {
+        title: "发布说明",
+        text: "本次更新修复了登录问题",
+        picUrl: "https://example.com/cover.png",
+        messageUrl: "https://example.com/releases/1",
+      },
+    });
+    expect(markdown?.msgKey).toBe("sampleMarkdown");
+    expect(resolveDingtalkTemplates("https://example.com/a")[0]?.msgParam).toMatchObject({
+      title: "example.com",
+      text: "https://example.com/a",
+    });
+  });
+
+  it("keeps markdown when there are several links or structured content", () => {
+    expect(resolveDingtalkTemplates("https://a.com\nhttps://b.com")).toHaveLength(1);
+    expect(resolveDingtalkTemplates("# 标题\n[链接](https://a.com)")).toHaveLength(1);
+    expect(resolveDingtalkTemplates("见 https://a.com 与 [b](https://b.com)")).toHaveLength(1);
+  });
+
+  it("sends a lone image as sampleImageMsg", () => {
+    expect(resolveDingtalkTemplates("![图](https://example.com/a.png)")[0]).toEqual({
+      msgKey: "sampleImageMsg",
+      msgParam: { photoURL: "https://example.com/a.png" },
+    });
+  });
+
+  it("builds action cards from the dingtalk-actioncard block", () => {
+    const single = resolveDingtalkTemplates(
+      "## 审批\n请确认\n\n```dingtalk-actioncard\n[查看详情](https://example.com)\n```"
+    );
+    expect(single.map((t) => t.msgKey)).toEqual(["sampleActionCard", "sampleMarkdown"]);
+    expect(single[0]?.msgParam).toEqual({
+      title: "审批",
+      text: "## 审批\n请确认",
+      singleTitle: "查看详情",
+      singleURL: "https://example.com",
+    });
+
+    const horizontal = resolveDingtalkTemplates("是否继续？\n```dingtalk-actioncard\n[同意](同意) [拒绝](拒绝)\n```");
+    expect(horizontal.map((t) => t.msgKey)).toEqual(["sampleActionCard6", "sampleActionCard2", "sampleMarkdown"]);
+    expect(horizontal[0]?.msgParam.buttonUrl1).toBe(
+      `dtmd://dingtalkclient/sendMessage?content=${encodeURIComponent("同意")}`
+    );
+    expect(horizontal[2]?.msgParam.text).toBe(
+      `是否继续？\n\n[同意](${horizontal[0]?.msgParam.buttonUrl1}) | [拒绝](${horizontal[0]?.msgParam.buttonUrl2})`
+    );
+
+    const vertical = resolveDingtalkTemplates(
+      "选择环境\n```dingtalk-actioncard\n[开发](dev)\n[测试](test)\n[预发](pre)\n```"
+    );
+    expect(vertical.map((t) => t.msgKey)).toEqual(["sampleActionCard3", "sampleMarkdown"]);
+    expect(vertical[0]?.msgParam).toMatchObject({ actionTitle3: "预发", title: "选择环境" });
+  });
+});
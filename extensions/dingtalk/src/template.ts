@@ -0,0 +1,293 @@
+/**
+ * 钉钉机器人消息模板
+ *
+ * 根据回复内容选择机器人消息模板（msgKey），并给出被拒绝时的回退链:
+ *
+ * - sampleActionCard / sampleActionCard2~5 / sampleActionCard6: 回复中包含 dingtalk-actioncard 代码块
+ * - sampleLink: 回复只有一个链接（可带简短说明与一张配图）
+ * - sampleImageMsg: 回复只有一张网络图片
+ * - sampleMarkdown: 其余情况，标题取第一个 Markdown 标题
+ *
+ * Agent 写入 dingtalk-actioncard 代码块即可附带按钮，代码块外的内容作为卡片正文:
+ *
+ * ```dingtalk-actioncard
+ * [同意](approve) [拒绝](reject)
+ * [查看详情](https://example.com)
+ * ```
+ *
+ * - 只有一个按钮: sampleActionCard
+ * - 同一行恰好两个按钮且只有一行: sampleActionCard6（横向排列）
+ * - 其余: sampleActionCard2~5（竖向排列，最多 5 个）
+ * - 链接以 http(s):// 或 dingtalk:// 等协议开头时直接跳转，其余作为消息内容，点击后以用户身份发送到会话
+ *
+ * 文档: https://open.dingtalk.com/document/orgapp/types-of-messages-sent-by-robots
+ */
+
+/** Markdown 默认标题 */
+export const DEFAULT_MARKDOWN_TITLE = "Moltbot";
+
+const ACTION_CARD_BLOCK_LANG = "dingtalk-actioncard";
+const MAX_ACTION_CARD_BUTTONS = 5;
+/** 消息通知中展示的标题最大长度 */
+const TITLE_MAX_LENGTH = 20;
+/** 链接卡片说明最大长度 */
+const LINK_DESCRIPTION_MAX_LENGTH = 200;
+
+const ACTION_CARD_BLOCK_RE = new RegExp(
+  "```" + ACTION_CARD_BLOCK_LANG + "[^\\n]*\\n([\\s\\S]*?)```",
+  "g"
+);
+const BUTTON_RE = /\[([^\]\n]+)\]\(([^)\n]+)\)/g;
+const URL_RE = /https?:\/\/[^\s)\]]+/gi;
+const LINK_LINE_RE = /^(?:\[([^\]\n]+)\]\((https?:\/\/[^)\s]+)\)|<?(https?:\/\/[^\s>]+)>?)$/i;
+const IMAGE_LINE_RE = /^!\[[^\]\n]*\]\((https?:\/\/[^)\s]+)\)$/i;
+const HEADING_RE = /^\s{0,3}#{1,6}\s+(.+?)\s*#*\s*$/m;
+const SCHEME_RE = /^[a-z][a-z0-9+.-]*:\/\//i;
+
+/**
+ * 机器人消息模板 msgKey
+ */
+export type DingtalkRobotMsgKey =
+  | "sampleMarkdown"
+  | "sampleLink"
+  | "sampleImageMsg"
+  | "sampleActionCard"
+  | "sampleActionCard2"
+  | "sampleActionCard3"
+  | "sampleActionCard4"
+  | "sampleActionCard5"
+  | "sampleActionCard6";
+
+/**
+ * 机器人消息模板（msgParam 发送时序列化为 JSON 字符串）
+ */
+export interface DingtalkRobotTemplate {
+  msgKey: DingtalkRobotMsgKey;
+  msgParam: Record<string, string>;
+}
+
+/**
+ * ActionCard 按钮
+ */
+export interface DingtalkActionCardButton {
+  /** 按钮文字 */
+  title: string;
+  /** 跳转链接（非链接内容已转换为 dtmd 发送消息链接） */
+  url: string;
+}
+
+/**
+ * 从回复中解析出的 ActionCard
+ */
+export interface DingtalkActionCard {
+  /** 卡片正文（Markdown） */
+  text: string;
+  /** 按钮行 */
+  rows: DingtalkActionCardButton[][];
+}
+
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/[*_`~]+/g, "")
+    .trim();
+}
+
+function truncateTitle(title: string): string {
+  return Array.from(title).slice(0, TITLE_MAX_LENGTH).join("");
+}
+
+/**
+ * 提取消息标题
+ *
+ * 优先取第一个 Markdown 标题（# 标题），否则取第一行非空内容（去除 Markdown 符号）
+ */
+export function extractDingtalkTitle(text: string, defaultTitle = DEFAULT_MARKDOWN_TITLE): string {
+  const heading = text.match(HEADING_RE)?.[1];
+  if (heading) {
+    const cleaned = stripInlineMarkdown(heading);
+    if (cleaned) return truncateTitle(cleaned);
+  }
+
+  for (const line of text.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) continue;
+    const cleaned = stripInlineMarkdown(line.replace(/^[#*\s\->|]+/, ""));
+    if (cleaned) return truncateTitle(cleaned);
+  }
+  return defaultTitle;
+}
+
+function resolveButtonUrl(data: string): string {
+  if (SCHEME_RE.test(data)) return data;
+  return `dtmd://dingtalkclient/sendMessage?content=${encodeURIComponent(data)}`;
+}
+
+/**
+ * 从回复中提取 dingtalk-actioncard 代码块
+ *
+ * 返回移除代码块后的正文与按钮；没有有效按钮时原样返回
+ */
+export function extractDingtalkActionCard(text: string): {
+  text: string;
+  actionCard?: DingtalkActionCard;
+} {
+  if (!text.includes(ACTION_CARD_BLOCK_LANG)) return { text };
+
+  const rows: DingtalkActionCardButton[][] = [];
+  let buttonCount = 0;
+  const rest = text.replace(ACTION_CARD_BLOCK_RE, (_match, body: string) => {
+    for (const rawLine of body.split(/\r?\n/)) {
+      const row: DingtalkActionCardButton[] = [];
+      for (const match of rawLine.matchAll(BUTTON_RE)) {
+        const title = match[1]?.trim() ?? "";
+        const data = match[2]?.trim() ?? "";
+        if (!title || !data || buttonCount >= MAX_ACTION_CARD_BUTTONS) continue;
+        row.push({ title, url: resolveButtonUrl(data) });
+        buttonCount++;
+      }
+      if (row.length > 0) rows.push(row);
+    }
+    return "";
+  });
+
+  if (rows.length === 0) return { text };
+  const cardText = rest.replace(/\n{3,}/g, "\n\n").trim();
+  return { text: cardText, actionCard: { text: cardText, rows } };
+}
+
+function buildActionCardTemplates(card: DingtalkActionCard, title: string): DingtalkRobotTemplate[] {
+  const buttons = card.rows.flat();
+  const text = card.text || title;
+  const templates: DingtalkRobotTemplate[] = [];
+
+  if (buttons.length === 1) {
+    const [button] = buttons as [DingtalkActionCardButton];
+    templates.push({
+      msgKey: "sampleActionCard",
+      msgParam: { title, text, singleTitle: button.title, singleURL: button.url },
+    });
+    return templates;
+  }
+
+  if (card.rows.length === 1 && buttons.length === 2) {
+    const [first, second] = buttons as [DingtalkActionCardButton, DingtalkActionCardButton];
+    templates.push({
+      msgKey: "sampleActionCard6",
+      msgParam: {
+        title,
+        text,
+        buttonTitle1: first.title,
+        buttonUrl1: first.url,
+        buttonTitle2: second.title,
+        buttonUrl2: second.url,
+      },
+    });
+  }
+
+  const msgParam: Record<string, string> = { title, text };
+  buttons.forEach((button, index) => {
+    msgParam[`actionTitle${index + 1}`] = button.title;
+    msgParam[`actionURL${index + 1}`] = button.url;
+  });
+  templates.push({
+    msgKey: `sampleActionCard${buttons.length}` as DingtalkRobotMsgKey,
+    msgParam,
+  });
+  return templates;
+}
+
+/**
+ * ActionCard 回退为 Markdown 时，按钮渲染为链接
+ */
+export function formatDingtalkActionCardFallbackText(card: DingtalkActionCard): string {
+  const links = card.rows
+    .map((row) => row.map((button) => `[${button.title}](${button.url})`).join(" | "))
+    .join("\n\n");
+  return card.text ? `${card.text}\n\n${links}` : links;
+}
+
+function resolveLinkTemplate(text: string, title?: string): DingtalkRobotTemplate | undefined {
+  const lines = text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  if (lines.length === 0) return undefined;
+
+  let link: { title?: string; url: string } | undefined;
+  let picUrl = "";
+  const description: string[] = [];
+
+  for (const line of lines) {
+    const linkMatch = line.match(LINK_LINE_RE);
+    if (linkMatch) {
+      if (link) return undefined;
+      link = { title: linkMatch[1]?.trim(), url: (linkMatch[2] ?? linkMatch[3]) as string };
+      continue;
+    }
+    const imageMatch = line.match(IMAGE_LINE_RE);
+    if (imageMatch && !picUrl) {
+      picUrl = imageMatch[1] as string;
+      continue;
+    }
+    // 说明只允许普通文本，且不能再包含其他链接
+    if (/^(#|>|[-*+]\s|\d+\.\s|\||```|~~~)/.test(line) || line.match(URL_RE)) {
+      return undefined;
+    }
+    description.push(line);
+  }
+  if (!link) return undefined;
+
+  const descriptionText = description.join("\n");
+  if (descriptionText.length > LINK_DESCRIPTION_MAX_LENGTH) return undefined;
+
+  return {
+    msgKey: "sampleLink",
+    msgParam: {
+      title: title || link.title || truncateTitle(link.url.replace(/^https?:\/\//i, "").split(/[/?#]/)[0] ?? ""),
+      text: descriptionText || link.url,
+      picUrl,
+      messageUrl: link.url,
+    },
+  };
+}
+
+/**
+ * 根据回复内容解析机器人消息模板
+ *
+ * 按优先级返回回退链，最后一项始终为 sampleMarkdown；
+ * 发送时某个模板被钉钉拒绝（参数校验失败）则依次尝试下一项
+ *
+ * @param text 回复内容
+ * @param options.title 指定标题（默认从内容中提取）
+ */
+export function resolveDingtalkTemplates(
+  text: string,
+  options: { title?: string } = {}
+): DingtalkRobotTemplate[] {
+  const { text: body, actionCard } = extractDingtalkActionCard(text);
+  const title = options.title || extractDingtalkTitle(body);
+
+  if (actionCard) {
+    const markdownText = formatDingtalkActionCardFallbackText(actionCard);
+    return [
+      ...buildActionCardTemplates(actionCard, title),
+      { msgKey: "sampleMarkdown", msgParam: { title, text: markdownText } },
+    ];
+  }
+
+  const markdown: DingtalkRobotTemplate = { msgKey: "sampleMarkdown", msgParam: { title, text } };
+  const trimmed = text.trim();
+
+  const imageMatch = trimmed.match(IMAGE_LINE_RE);
+  if (imageMatch) {
+    return [{ msgKey: "sampleImageMsg", msgParam: { photoURL: imageMatch[1] as string } }, markdown];
+  }
+
+  const link = resolveLinkTemplate(trimmed, options.title);
+  if (link) {
+    return [link, markdown];
+  }
+
+  return [markdown];
+}
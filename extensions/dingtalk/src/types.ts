@@ -44,6 +44,28 @@ export interface DingtalkMediaContent {
   richText?: RichTextElement[] | string;
 }
 
+/**
+ * 被引用（回复）的消息
+ * 用户在钉钉中"回复"某条消息时，text.repliedMsg 携带原消息
+ */
+export interface DingtalkRepliedMessage {
+  /** 原消息 ID */
+  msgId?: string;
+  /** 原消息类型: text, richText, picture 等 */
+  msgType?: string;
+  /** 原消息发送者 ID */
+  senderId?: string;
+  /** 原消息发送者昵称 */
+  senderNick?: string;
+  /** 原消息发送时间（毫秒） */
+  createdAt?: number;
+  /**
+   * 原消息内容
+   * NOTE: 可能是对象或 JSON 字符串，需要解析
+   */
+  content?: string | { text?: string; richText?: RichTextElement[] };
+}
+
 /**
  * 钉钉原始消息结构
  * 从 Stream SDK 回调接收的原始消息格式
@@ -53,6 +75,8 @@ export interface DingtalkRawMessage {
   senderId: string;
   /** Stream 消息 ID（从 headers.messageId 透传） */
   streamMessageId?: string;
+  /** 机器人消息 ID（webhook 模式用于去重） */
+  msgId?: string;
   /** 发送者 staffId（部分事件提供） */
   senderStaffId?: string;
   /** 发送者 userId（部分事件提供） */
@@ -67,17 +91,35 @@ export interface DingtalkRawMessage {
   conversationId: string;
   /** 消息类型: text, audio, image, file, picture, video, richText 等 */
   msgtype: string;
-  /** 文本消息内容 */
-  text?: { content: string };
+  /** 文本消息内容（isReplyMsg 为 true 时 repliedMsg 为被回复的消息） */
+  text?: { content: string; isReplyMsg?: boolean; repliedMsg?: DingtalkRepliedMessage };
   /**
    * 媒体消息内容
    * NOTE: 此字段可能是对象或 JSON 字符串，需要解析
    */
   content?: string | DingtalkMediaContent;
   /** @提及的用户列表 */
-  atUsers?: Array<{ dingtalkId: string }>;
+  atUsers?: Array<{ dingtalkId: string; staffId?: string }>;
   /** 机器人 Code (clientId) */
   robotCode?: string;
+  /** 会话回复地址（有效期内可直接回复，支持 @提及） */
+  sessionWebhook?: string;
+  /** sessionWebhook 过期时间（毫秒时间戳） */
+  sessionWebhookExpiredTime?: number;
+}
+
+/**
+ * 被引用消息（解析后）
+ */
+export interface DingtalkQuotedMessage {
+  /** 原消息 ID */
+  messageId?: string;
+  /** 原消息发送者 ID（加密的 senderId） */
+  senderId?: string;
+  /** 原消息发送者昵称 */
+  senderNick?: string;
+  /** 原消息文本 */
+  content: string;
 }
 
 /**
@@ -103,6 +145,8 @@ export interface DingtalkMessageContext {
   mentionedBot: boolean;
   /** 机器人 Code */
   robotCode?: string;
+  /** 用户回复（引用）的消息 */
+  repliedMessage?: DingtalkQuotedMessage;
 }
 
 /**
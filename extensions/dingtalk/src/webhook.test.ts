@@ -0,0 +1,151 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import { Socket } from "node:net";
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { DingtalkAccountConfig } from "./config.js";
+import { createLogger } from "./logger.js";
+import {
+  computeDingtalkSignature,
+  handleDingtalkWebhookRequest,
+  registerDingtalkWebhookTarget,
+  verifyDingtalkSignature,
+} from "./webhook.js";
+
+function createMockRequest(params: {
+  method: "GET" | "POST";
+  url: string;
+  body?: string;
+  headers?: Record<string, string>;
+}): IncomingMessage {
+  const req = new IncomingMessage(new Socket());
+  req.method = params.method;
+  req.url = params.url;
+  Object.assign(req.headers, params.headers ?? {});
+  if (params.body !== undefined) {
+    req.push(params.body);
+  }
+  req.push(null);
+  return req;
+}
+
+function createMockResponse(): ServerResponse & { _getData: () => string } {
+  const res = new ServerResponse(new IncomingMessage(new Socket()));
+  let data = "";
+  const mutableRes = res as unknown as { end: (chunk?: unknown) => ServerResponse };
+  mutableRes.end = (chunk?: unknown) => {
+    if (chunk) data += String(chunk);
+    return res;
+  };
+  return Object.assign(res, { _getData: () => data });
+}
+
+function signedHeaders(secret: string, timestamp = String(Date.now())): Record<string, string> {
+  return { timestamp, sign: computeDingtalkSignature({ timestamp, secret }) };
+}
+
+const logger = createLogger("dingtalk", { log: () => undefined, error: () => undefined });
+const unregisters: Array<() => void> = [];
+
+function register(account: Partial<DingtalkAccountConfig>, onMessage = vi.fn(), accountId = "default") {
+  unregisters.push(
+    registerDingtalkWebhookTarget({
+      accountId,
+      account: { clientId: "ding-app", clientSecret: "secret", ...account } as DingtalkAccountConfig,
+      path: "/dingtalk",
+      logger,
+      onMessage,
+    })
+  );
+  return onMessage;
+}
+
+const messageBody = JSON.stringify({
+  msgId: "msg-1",
+  msgtype: "text",
+  text: { content: "你好" },
+  conversationType: "1",
+  conversationId: "cid-1",
+  senderId: "U-1",
+  robotCode: "ding-app",
+  sessionWebhook: "https://oapi.dingtalk.com/robot/sendBySession?session=abc",
+  sessionWebhookExpiredTime: Date.now() + 60_000,
+});
+
+afterEach(() => {
+  while (unregisters.length) unregisters.pop()?.();
+});
+
+describe("dingtalk webhook signature", () => {
+  it("accepts fresh signatures and rejects stale or forged ones", () => {
+    const now = Date.now();
+    const timestamp = String(now);
+    const sign = computeDingtalkSignature({ timestamp, secret: "secret" });
+
+    expect(verifyDingtalkSignature({ timestamp, sign, secret: "secret", now })).toBe(true);
+    expect(verifyDingtalkSignature({ timestamp, sign, secret: "other", now })).toBe(false);
+    expect(verifyDingtalkSignature({ timestamp, sign, secret: "secret", now: now + 2 * 60 * 60 * 1000 })).toBe(
+      false
+    );
+    expect(verifyDingtalkSignature({ timestamp: "", sign, secret: "secret", now })).toBe(false);
+  });
+});
+
+describe("dingtalk webhook", () => {
+  it("ignores unregistered paths", async () => {
+    const handled = await handleDingtalkWebhookRequest(
+      createMockRequest({ method: "POST", url: "/other", body: "{}" }),
+      createMockResponse()
+    );
+    expect(handled).toBe(false);
+  });
+
+  it("rejects non-POST requests", async () => {
+    register({});
+    const res = createMockResponse();
+    await handleDingtalkWebhookRequest(createMockRequest({ method: "GET", url: "/dingtalk" }), res);
+    expect(res.statusCode).toBe(405);
+  });
+
+  it("dispatches signed robot messages", async () => {
+    const onMessage = register({});
+    const res = createMockResponse();
+
+    const handled = await handleDingtalkWebhookRequest(
+      createMockRequest({ method: "POST", url: "/dingtalk", body: messageBody, headers: signedHeaders("secret") }),
+      res
+    );
+
+    expect(handled).toBe(true);
+    expect(res.statusCode).toBe(200);
+    expect(onMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ msgId: "msg-1", text: { content: "你好" }, conversationId: "cid-1" })
+    );
+  });
+
+  it("rejects requests with an invalid signature", async () => {
+    const onMessage = register({});
+    const res = createMockResponse();
+
+    await handleDingtalkWebhookRequest(
+      createMockRequest({ method: "POST", url: "/dingtalk", body: messageBody, headers: signedHeaders("wrong") }),
+      res
+    );
+
+    expect(res.statusCode).toBe(401);
+    expect(onMessage).not.toHaveBeenCalled();
+  });
+
+  it("routes to the account whose secret and robotCode match", async () => {
+    const first = register({ clientId: "other-app", clientSecret: "shared" }, vi.fn(), "first");
+    const second = register({ clientId: "ding-app", clientSecret: "shared" }, vi.fn(), "second");
+
+    await handleDingtalkWebhookRequest(
+      createMockRequest({ method: "POST", url: "/dingtalk", body: messageBody, headers: signedHeaders("shared") }),
+      createMockResponse()
+    );
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+});
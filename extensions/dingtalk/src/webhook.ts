@@ -0,0 +1,216 @@
+/**
+ * 钉钉机器人 HTTP 回调（webhook 模式）
+ *
+ * 机器人“消息接收模式”选择 HTTP 时，钉钉把群聊 / 单聊消息 POST 到配置的消息接收地址:
+ * 1. 按请求路径匹配已注册的账户
+ * 2. 校验请求头 timestamp / sign: sign = Base64(HmacSHA256(timestamp + "\n" + appSecret))，
+ *    timestamp 与当前时间相差不超过 1 小时
+ * 3. 请求体与 Stream 模式推送的机器人消息结构相同，交给 gateway 分发
+ *
+ * 回复通过消息携带的 sessionWebhook 发送（过期前有效），过期或失败时回退到 OpenAPI。
+ *
+ * 文档: https://open.dingtalk.com/document/orgapp/receive-message
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import crypto from "node:crypto";
+
+import type { DingtalkAccountConfig } from "./config.js";
+import type { Logger } from "./logger.js";
+import type { DingtalkRawMessage } from "./types.js";
+
+/** 默认回调路径 */
+export const DEFAULT_DINGTALK_WEBHOOK_PATH = "/dingtalk";
+
+/** 请求体大小上限 */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/** timestamp 允许的最大偏差 */
+const SIGN_TIMESTAMP_TOLERANCE_MS = 60 * 60 * 1000;
+
+export interface DingtalkWebhookTarget {
+  /** 账户 ID */
+  accountId: string;
+  /** 合并后的账户配置 */
+  account: DingtalkAccountConfig;
+  /** 回调路径 */
+  path: string;
+  /** 日志 */
+  logger: Logger;
+  /** 收到机器人消息 */
+  onMessage: (raw: DingtalkRawMessage) => void;
+}
+
+const webhookTargets = new Map<string, DingtalkWebhookTarget[]>();
+
+function normalizeWebhookPath(raw: string): string {
+  const trimmed = raw.trim();
+  if (!trimmed) return "/";
+  const withSlash = trimmed.startsWith("/") ? trimmed : `/${trimmed}`;
+  if (withSlash.length > 1 && withSlash.endsWith("/")) return withSlash.slice(0, -1);
+  return withSlash;
+}
+
+export function resolveDingtalkWebhookPath(account: DingtalkAccountConfig | undefined): string {
+  return normalizeWebhookPath(account?.webhookPath?.trim() || DEFAULT_DINGTALK_WEBHOOK_PATH);
+}
+
+/**
+ * 计算回调签名: Base64(HmacSHA256(timestamp + "\n" + secret))，密钥为 secret
+ */
+export function computeDingtalkSignature(params: { timestamp: string; secret: string }): string {
+  const { timestamp, secret } = params;
+  return crypto.createHmac("sha256", secret).update(`${timestamp}\n${secret}`).digest("base64");
+}
+
+/**
+ * 校验回调签名与时间戳
+ */
+export function verifyDingtalkSignature(params: {
+  timestamp: string;
+  sign: string;
+  secret: string;
+  now?: number;
+}): boolean {
+  const { timestamp, sign, secret, now = Date.now() } = params;
+  const ts = Number(timestamp);
+  if (!timestamp || !sign || !Number.isFinite(ts)) return false;
+  if (Math.abs(now - ts) > SIGN_TIMESTAMP_TOLERANCE_MS) return false;
+
+  const expected = Buffer.from(computeDingtalkSignature({ timestamp, secret }));
+  const actual = Buffer.from(sign);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * 注册 webhook 回调目标
+ * @returns 注销函数
+ */
+export function registerDingtalkWebhookTarget(target: DingtalkWebhookTarget): () => void {
+  const key = normalizeWebhookPath(target.path);
+  const normalizedTarget = { ...target, path: key };
+  const existing = webhookTargets.get(key) ?? [];
+  webhookTargets.set(key, [...existing, normalizedTarget]);
+  return () => {
+    const updated = (webhookTargets.get(key) ?? []).filter((entry) => entry !== normalizedTarget);
+    if (updated.length > 0) webhookTargets.set(key, updated);
+    else webhookTargets.delete(key);
+  };
+}
+
+function resolvePath(req: IncomingMessage): string {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  return normalizeWebhookPath(url.pathname || "/");
+}
+
+function readHeader(req: IncomingMessage, name: string): string {
+  const value = req.headers[name];
+  return (Array.isArray(value) ? value[0] : value)?.trim() ?? "";
+}
+
+async function readRequestBody(
+  req: IncomingMessage,
+  maxBytes: number
+): Promise<{ ok: boolean; raw?: string; error?: string }> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+  return await new Promise((resolve) => {
+    req.on("data", (chunk: Buffer) => {
+      total += chunk.length;
+      if (total > maxBytes) {
+        resolve({ ok: false, error: "payload too large" });
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      const raw = Buffer.concat(chunks).toString("utf8");
+      if (!raw.trim()) {
+        resolve({ ok: false, error: "empty payload" });
+        return;
+      }
+      resolve({ ok: true, raw });
+    });
+    req.on("error", (err) => {
+      resolve({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    });
+  });
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+  res.statusCode = statusCode;
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * 判断请求是否属于该账户（签名校验通过且 robotCode 一致）
+ */
+function matchesTarget(params: {
+  target: DingtalkWebhookTarget;
+  timestamp: string;
+  sign: string;
+  message: DingtalkRawMessage;
+}): boolean {
+  const { target, timestamp, sign, message } = params;
+  const secret = target.account.clientSecret;
+  if (!secret || !verifyDingtalkSignature({ timestamp, sign, secret })) return false;
+
+  const clientId = target.account.clientId;
+  if (message.robotCode && clientId && message.robotCode !== clientId) return false;
+  return true;
+}
+
+/**
+ * 处理钉钉机器人 webhook 请求
+ * @returns 是否已处理该请求（路径未注册时返回 false）
+ */
+export async function handleDingtalkWebhookRequest(
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<boolean> {
+  const path = resolvePath(req);
+  const targets = webhookTargets.get(path);
+  if (!targets || targets.length === 0) return false;
+
+  if (req.method !== "POST") {
+    res.statusCode = 405;
+    res.setHeader("Allow", "POST");
+    res.end("Method Not Allowed");
+    return true;
+  }
+
+  const bodyResult = await readRequestBody(req, MAX_BODY_BYTES);
+  if (!bodyResult.ok || !bodyResult.raw) {
+    res.statusCode = bodyResult.error === "payload too large" ? 413 : 400;
+    res.end(bodyResult.error ?? "invalid payload");
+    return true;
+  }
+
+  let message: DingtalkRawMessage;
+  try {
+    const parsed = JSON.parse(bodyResult.raw) as unknown;
+    if (!parsed || typeof parsed !== "object") throw new Error("not an object");
+    message = parsed as DingtalkRawMessage;
+  } catch {
+    res.statusCode = 400;
+    res.end("invalid json");
+    return true;
+  }
+
+  const timestamp = readHeader(req, "timestamp");
+  const sign = readHeader(req, "sign");
+  const target = targets.find((entry) => matchesTarget({ target: entry, timestamp, sign, message }));
+  if (!target) {
+    targets[0]?.logger.warn(`webhook request on ${path} rejected: no account matched signature`);
+    res.statusCode = 401;
+    res.end("unauthorized");
+    return true;
+  }
+
+  // 先应答，回复通过 sessionWebhook / OpenAPI 异步发送
+  sendJson(res, 200, {});
+  target.onMessage(message);
+  return true;
+}
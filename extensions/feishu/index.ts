@@ -8,24 +8,74 @@
  * - DEFAULT_ACCOUNT_ID: 默认账户 ID
  */
 
+import type { IncomingMessage, ServerResponse } from "node:http";
+
 import { feishuPlugin, DEFAULT_ACCOUNT_ID } from "./src/channel.js";
 import { setFeishuRuntime } from "./src/runtime.js";
+import { DEFAULT_FEISHU_WEBHOOK_PATH, handleFeishuWebhookRequest } from "./src/webhook.js";
 import { registerChinaSetupCli, showChinaInstallHint } from "@openclaw-china/shared";
 
+type HttpRouteParams = {
+  path: string;
+  auth: "gateway" | "plugin";
+  match?: "exact" | "prefix";
+  handler: (req: IncomingMessage, res: ServerResponse) => Promise<boolean> | boolean;
+};
+
+type FeishuRouteConfig = {
+  connectionMode?: "websocket" | "webhook";
+  webhookPath?: string;
+  accounts?: Record<
+    string,
+    {
+      connectionMode?: "websocket" | "webhook";
+      webhookPath?: string;
+    }
+  >;
+};
+
 /**
  * Moltbot 插件 API 接口
  *
  * 包含：
  * - registerChannel: 注册渠道插件
+ * - registerHttpRoute / registerHttpHandler: 注册 webhook 回调路由
  * - runtime: 完整的 Moltbot 运行时（包含 core API）
  */
 export interface MoltbotPluginApi {
   registerChannel: (opts: { plugin: unknown }) => void;
+  registerHttpHandler?: (handler: (req: IncomingMessage, res: ServerResponse) => Promise<boolean> | boolean) => void;
+  registerHttpRoute?: (params: HttpRouteParams) => void;
+  config?: {
+    channels?: {
+      "feishu-china"?: FeishuRouteConfig;
+    };
+  };
   /** Moltbot 运行时，包含 channel.routing、channel.reply 等核心 API */
   runtime?: unknown;
   [key: string]: unknown;
 }
 
+function normalizeRoutePath(path: string | undefined, fallback: string): string {
+  const trimmed = path?.trim() ?? "";
+  const candidate = trimmed || fallback;
+  return candidate.startsWith("/") ? candidate : `/${candidate}`;
+}
+
+function collectFeishuRoutePaths(config: FeishuRouteConfig | undefined): string[] {
+  const routes = new Set<string>();
+  if (config?.connectionMode === "webhook") {
+    routes.add(normalizeRoutePath(config.webhookPath, DEFAULT_FEISHU_WEBHOOK_PATH));
+  }
+  for (const accountConfig of Object.values(config?.accounts ?? {})) {
+    if ((accountConfig?.connectionMode ?? config?.connectionMode) !== "webhook") continue;
+    routes.add(
+      normalizeRoutePath(accountConfig?.webhookPath ?? config?.webhookPath, DEFAULT_FEISHU_WEBHOOK_PATH)
+    );
+  }
+  return [...routes];
+}
+
 // 导出 ChannelPlugin
 export { feishuPlugin, DEFAULT_ACCOUNT_ID } from "./src/channel.js";
 
@@ -57,17 +107,95 @@ const plugin = {
     additionalProperties: false,
     properties: {
       enabled: { type: "boolean" },
+      name: { type: "string" },
+      defaultAccount: { type: "string" },
       appId: { type: "string" },
       appSecret: { type: "string" },
-      connectionMode: { type: "string", enum: ["websocket"] },
+      connectionMode: { type: "string", enum: ["websocket", "webhook"] },
+      webhookPath: { type: "string" },
+      verificationToken: { type: "string" },
+      encryptKey: { type: "string" },
       dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist"] },
       groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
       requireMention: { type: "boolean" },
       allowFrom: { type: "array", items: { type: "string" } },
       groupAllowFrom: { type: "array", items: { type: "string" } },
+      denyFrom: { type: "array", items: { type: "string" } },
+      groups: {
+        type: "object",
+        additionalProperties: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            enabled: { type: "boolean" },
+            requireMention: { type: "boolean" },
+            allowFrom: { type: "array", items: { type: "string" } },
+            denyFrom: { type: "array", items: { type: "string" } },
+          },
+        },
+      },
       sendMarkdownAsCard: { type: "boolean" },
+      enableStreamingCard: { type: "boolean" },
       historyLimit: { type: "integer", minimum: 0 },
       textChunkLimit: { type: "integer", minimum: 1 },
+      maxFileSizeMB: { type: "number", minimum: 1 },
+      inboundMedia: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          dir: { type: "string" },
+          keepDays: { type: "number", minimum: 0 },
+        },
+      },
+      accounts: {
+        type: "object",
+        additionalProperties: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            name: { type: "string" },
+            enabled: { type: "boolean" },
+            appId: { type: "string" },
+            appSecret: { type: "string" },
+            connectionMode: { type: "string", enum: ["websocket", "webhook"] },
+            webhookPath: { type: "string" },
+            verificationToken: { type: "string" },
+            encryptKey: { type: "string" },
+            dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist"] },
+            groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
+            requireMention: { type: "boolean" },
+            allowFrom: { type: "array", items: { type: "string" } },
+            groupAllowFrom: { type: "array", items: { type: "string" } },
+            denyFrom: { type: "array", items: { type: "string" } },
+            groups: {
+              type: "object",
+              additionalProperties: {
+                type: "object",
+                additionalProperties: false,
+                properties: {
+                  enabled: { type: "boolean" },
+                  requireMention: { type: "boolean" },
+                  allowFrom: { type: "array", items: { type: "string" } },
+                  denyFrom: { type: "array", items: { type: "string" } },
+                },
+              },
+            },
+            sendMarkdownAsCard: { type: "boolean" },
+            enableStreamingCard: { type: "boolean" },
+            historyLimit: { type: "integer", minimum: 0 },
+            textChunkLimit: { type: "integer", minimum: 1 },
+            maxFileSizeMB: { type: "number", minimum: 1 },
+            inboundMedia: {
+              type: "object",
+              additionalProperties: false,
+              properties: {
+                dir: { type: "string" },
+                keepDays: { type: "number", minimum: 0 },
+              },
+            },
+          },
+        },
+      },
     },
   },
 
@@ -86,6 +214,23 @@ const plugin = {
     }
 
     api.registerChannel({ plugin: feishuPlugin });
+
+    const routePaths = collectFeishuRoutePaths(api.config?.channels?.["feishu-china"]);
+    if (routePaths.length === 0) return;
+
+    if (api.registerHttpRoute) {
+      for (const path of routePaths) {
+        api.registerHttpRoute({
+          path,
+          auth: "plugin",
+          match: "exact",
+          handler: handleFeishuWebhookRequest,
+        });
+      }
+    } else if (api.registerHttpHandler) {
+      // Backward compatibility for older OpenClaw core
+      api.registerHttpHandler(handleFeishuWebhookRequest);
+    }
   },
 };
 
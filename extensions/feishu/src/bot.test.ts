@@ -118,7 +118,8 @@ describe("Feature: feishu-integration, Property 3: 策略检查正确性", () =>
   it("should only allow senders in allowFrom when dmPolicy is allowlist", () => {
     const testArb = fc.record({
       senderId: fc.string({ minLength: 1, maxLength: 50 }),
-      allowFrom: fc.array(fc.string({ minLength: 1, maxLength: 50 }), { minLength: 0, maxLength: 10 }),
+      // 以 * 结尾的条目是通配规则，这里只验证精确匹配
+      allowFrom: fc.array(fc.string({ minLength: 1, maxLength: 50 }).filter((entry) => !entry.endsWith("*")), { minLength: 0, maxLength: 10 }),
     });
 
     fc.assert(
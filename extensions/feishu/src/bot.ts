@@ -5,8 +5,16 @@
  */
 
 import type { FeishuMessageEvent, FeishuMessageContext } from "./types.js";
-import type { FeishuConfig } from "./config.js";
-import { FeishuConfigSchema } from "./config.js";
+import type { FeishuAccountConfig, PluginConfig } from "./config.js";
+import {
+  DEFAULT_ACCOUNT_ID,
+  DEFAULT_FEISHU_HISTORY_LIMIT,
+  FeishuConfigSchema,
+  mergeFeishuAccountConfig,
+  resolveInboundMediaDir,
+  resolveInboundMediaKeepDays,
+  resolveInboundMediaTempDir,
+} from "./config.js";
 import { getFeishuRuntime, isFeishuRuntimeInitialized } from "./runtime.js";
 import {
   sendFileFeishu,
@@ -17,15 +25,42 @@ import {
 } from "./send.js";
 import { createLogger, type Logger } from "./logger.js";
 import {
+  createStreamingCard,
+  finishStreamingCard,
+  streamStreamingCard,
+  type StreamingCardInstance,
+} from "./card.js";
+import {
+  buildFeishuResourceContextMessage,
+  downloadFeishuMessageResources,
+  extractFeishuMessageResources,
+  parseFeishuPostContent,
+  renderFeishuPostMarkdown,
+  type DownloadedFeishuResource,
+  type FeishuMessageResource,
+  type FeishuPostParseResult,
+} from "./media.js";
+import {
+  applyGroupHistoryToContext,
+  buildGroupHistoryKey,
   checkDmPolicy,
   checkGroupPolicy,
+  chunkMarkdownText,
+  createGroupHistoryBuffer,
   extractFilesFromText,
   extractMediaFromText,
   isImagePath,
   appendCronHiddenPrompt,
+  finalizeInboundMediaFile,
+  pruneInboundMediaDir,
+  resolveGroupHistoryLimit,
+  resolvePairingChallenge,
 } from "@openclaw-china/shared";
 import * as fs from "node:fs";
 
+/** 群聊中未 @ 机器人的最近消息，被 @ 时作为上下文注入 */
+const groupHistory = createGroupHistoryBuffer();
+
 /**
  * 解析飞书消息事件为标准化上下文
  */
@@ -39,6 +74,8 @@ export function parseFeishuMessageEvent(event: FeishuMessageEvent): FeishuMessag
   const contentType = message.message_type ?? "";
 
   let content = "";
+  let resources: FeishuMessageResource[] = [];
+  let post: FeishuPostParseResult | undefined;
   if (contentType === "text" && message.content) {
     try {
       const parsed = JSON.parse(message.content) as { text?: string };
@@ -46,6 +83,22 @@ export function parseFeishuMessageEvent(event: FeishuMessageEvent): FeishuMessag
     } catch {
       content = message.content.trim();
     }
+  } else if (contentType === "post") {
+    post = parseFeishuPostContent(message.content) ?? undefined;
+    if (post) {
+      resources = [
+        ...post.imageKeys.map((key): FeishuMessageResource => ({ kind: "image", key })),
+        ...post.mediaKeys.map((key): FeishuMessageResource => ({ kind: "media", key })),
+      ];
+      content = renderFeishuPostMarkdown(post);
+    }
+  } else if (contentType === "sticker") {
+    content = "[表情]";
+  } else {
+    resources = extractFeishuMessageResources(contentType, message.content);
+    if (resources.length > 0) {
+      content = buildFeishuResourceContextMessage(resources[0]);
+    }
   }
 
   const mentions = message.mentions ?? [];
@@ -59,6 +112,8 @@ export function parseFeishuMessageEvent(event: FeishuMessageEvent): FeishuMessag
     content,
     contentType,
     mentionedBot,
+    resources,
+    post,
   };
 }
 
@@ -120,6 +175,25 @@ export interface InboundContext {
   CommandAuthorized: boolean;
   OriginatingChannel: "feishu-china";
   OriginatingTo: string;
+  /** 单个媒体文件的本地绝对路径 */
+  MediaPath?: string;
+  /** 单个媒体文件的 MIME 类型 */
+  MediaType?: string;
+  /** 多个媒体文件的本地绝对路径（用于 post 富文本） */
+  MediaPaths?: string[];
+  /** 多个媒体文件的 MIME 类型（用于 post 富文本） */
+  MediaTypes?: string[];
+  /** 原始文件名（用于 file/media 消息） */
+  FileName?: string;
+  /** 文件大小（字节） */
+  FileSize?: number;
+}
+
+/**
+ * 发送者展示名称（消息事件不携带昵称，使用 open_id），入站上下文与群历史保持一致
+ */
+function inboundSenderName(ctx: FeishuMessageContext): string {
+  return ctx.senderId;
 }
 
 /**
@@ -149,7 +223,7 @@ export function buildInboundContext(
     AccountId: accountId,
     ChatType: ctx.chatType,
     GroupSubject: isGroup ? ctx.chatId : undefined,
-    SenderName: ctx.senderId,
+    SenderName: inboundSenderName(ctx),
     SenderId: ctx.senderId,
     Provider: "feishu",
     MessageSid: ctx.messageId,
@@ -161,6 +235,74 @@ export function buildInboundContext(
   };
 }
 
+/**
+ * 下载入站消息中的资源并写入上下文
+ *
+ * - image/file/audio/media: 设置 MediaPath/MediaType
+ * - post: 设置 MediaPaths/MediaTypes，并用本地路径重新渲染正文中的图片引用
+ * - 下载失败时保留占位文本，不阻断消息分发
+ */
+async function attachInboundMedia(params: {
+  ctx: FeishuMessageContext;
+  inboundCtx: InboundContext;
+  channelCfg: FeishuAccountConfig | undefined;
+  logger: Logger;
+}): Promise<void> {
+  const { ctx, inboundCtx, channelCfg, logger } = params;
+  const resources = ctx.resources ?? [];
+  if (resources.length === 0) return;
+  if (!channelCfg?.appId || !channelCfg?.appSecret) {
+    logger.debug("credentials missing, skipping inbound media download");
+    return;
+  }
+
+  const tempDir = resolveInboundMediaTempDir();
+  const inboundDir = resolveInboundMediaDir(channelCfg);
+
+  let downloaded: DownloadedFeishuResource[] = [];
+  try {
+    downloaded = await downloadFeishuMessageResources({
+      cfg: channelCfg,
+      messageId: ctx.messageId,
+      resources,
+      log: logger,
+    });
+    downloaded = await Promise.all(
+      downloaded.map(async (file) => {
+        const finalPath = await finalizeInboundMediaFile({ filePath: file.path, tempDir, inboundDir });
+        return finalPath === file.path ? file : { ...file, path: finalPath };
+      })
+    );
+    logger.debug(`downloaded ${downloaded.length}/${resources.length} inbound resources`);
+  } catch (err) {
+    logger.warn(`inbound media download failed, continuing with text: ${String(err)}`);
+    return;
+  }
+
+  if (downloaded.length === 0) return;
+
+  if (ctx.post) {
+    const resourcePaths = new Map(downloaded.map((file) => [file.key, file.path]));
+    const body = renderFeishuPostMarkdown(ctx.post, resourcePaths) || ctx.content;
+    inboundCtx.Body = body;
+    inboundCtx.RawBody = body;
+    inboundCtx.CommandBody = body;
+    inboundCtx.MediaPaths = downloaded.map((file) => file.path);
+    inboundCtx.MediaTypes = downloaded.map((file) => file.contentType);
+    return;
+  }
+
+  const file = downloaded[0];
+  inboundCtx.MediaPath = file.path;
+  inboundCtx.MediaType = file.contentType;
+  if (file.fileName) {
+    inboundCtx.FileName = file.fileName;
+  }
+  if (file.kind === "file") {
+    inboundCtx.FileSize = file.size;
+  }
+}
+
 /**
  * 处理飞书入站消息
  */
@@ -171,7 +313,7 @@ export async function handleFeishuMessage(params: {
   log?: (msg: string) => void;
   error?: (msg: string) => void;
 }): Promise<void> {
-  const { cfg, event, accountId = "default" } = params;
+  const { cfg, event, accountId = DEFAULT_ACCOUNT_ID } = params;
 
   const logger: Logger = createLogger("feishu", {
     log: params.log,
@@ -183,20 +325,20 @@ export async function handleFeishuMessage(params: {
   const ctx = parseFeishuMessageEvent(event);
   const isGroup = ctx.chatType === "group";
 
-  if (!ctx.content || ctx.contentType !== "text") {
-    logger.debug("unsupported message type or empty content, skipping");
+  if (!ctx.content) {
+    logger.debug(`unsupported message type or empty content (type=${ctx.contentType}), skipping`);
     return;
   }
 
-  const feishuCfg = (cfg as Record<string, unknown>)?.channels as Record<string, unknown> | undefined;
-  const rawChannelCfg = feishuCfg?.["feishu-china"] as FeishuConfig | undefined;
+  const pluginCfg = (cfg as PluginConfig | undefined) ?? {};
+  const rawChannelCfg = pluginCfg.channels?.["feishu-china"];
   const parsedCfg = rawChannelCfg ? FeishuConfigSchema.safeParse(rawChannelCfg) : null;
   if (parsedCfg && !parsedCfg.success) {
     logger.warn(`invalid feishu config, using raw values: ${parsedCfg.error.message}`);
   }
-  const channelCfg = parsedCfg?.success ? parsedCfg.data : rawChannelCfg;
+  const channelCfg = rawChannelCfg ? mergeFeishuAccountConfig(pluginCfg, accountId) : undefined;
   logger.debug(
-    `config snapshot: channels.feishu-china=${channelCfg ? "present" : "missing"}, sendMarkdownAsCard=${
+    `config snapshot: account=${accountId}, channels.feishu-china=${channelCfg ? "present" : "missing"}, sendMarkdownAsCard=${
       channelCfg?.sendMarkdownAsCard ?? "undefined"
     }`
   );
@@ -212,10 +354,26 @@ export async function handleFeishuMessage(params: {
       groupAllowFrom,
       requireMention,
       mentionedBot: ctx.mentionedBot,
+      senderId: ctx.senderId,
+      denyFrom: channelCfg?.denyFrom,
+      groups: channelCfg?.groups,
     });
 
     if (!policyResult.allowed) {
-      logger.debug(`policy rejected: ${policyResult.reason}`);
+      logger.debug(`policy rejected: ${policyResult.code} ${policyResult.reason}`);
+      if (policyResult.code === "mention_required") {
+        groupHistory.record(
+          buildGroupHistoryKey(accountId, ctx.chatId),
+          {
+            senderId: ctx.senderId,
+            senderName: inboundSenderName(ctx),
+            body: ctx.content,
+            timestamp: receivedAt,
+            messageId: ctx.messageId,
+          },
+          resolveGroupHistoryLimit(channelCfg?.historyLimit, DEFAULT_FEISHU_HISTORY_LIMIT)
+        );
+      }
       return;
     }
   } else {
@@ -226,10 +384,31 @@ export async function handleFeishuMessage(params: {
       dmPolicy,
       senderId: ctx.senderId,
       allowFrom,
+      denyFrom: channelCfg?.denyFrom,
+      pairing: { channel: "feishu-china", accountId },
     });
 
     if (!policyResult.allowed) {
-      logger.debug(`policy rejected: ${policyResult.reason}`);
+      logger.debug(`policy rejected: ${policyResult.code} ${policyResult.reason}`);
+      if (policyResult.pairingRequired && channelCfg) {
+        const challenge = resolvePairingChallenge({
+          channel: "feishu-china",
+          accountId,
+          senderId: ctx.senderId,
+        });
+        if (challenge) {
+          try {
+            await sendMessageFeishu({
+              cfg: channelCfg,
+              to: ctx.chatId,
+              text: challenge,
+              receiveIdType: "chat_id",
+            });
+          } catch (err) {
+            logger.warn(`failed to send pairing code: ${String(err)}`);
+          }
+        }
+      }
       return;
     }
   }
@@ -239,6 +418,8 @@ export async function handleFeishuMessage(params: {
     return;
   }
 
+  let finalizeStreamingCards: ((err?: unknown) => Promise<void>) | undefined;
+
   try {
     const core = getFeishuRuntime();
 
@@ -263,6 +444,7 @@ export async function handleFeishuMessage(params: {
     const route = core.channel.routing.resolveAgentRoute({
       cfg,
       channel: "feishu-china",
+      accountId,
       peer: {
         kind: isGroup ? "group" : "dm",
         id: isGroup ? ctx.chatId : ctx.senderId,
@@ -270,6 +452,7 @@ export async function handleFeishuMessage(params: {
     });
 
     const inboundCtx = buildInboundContext(ctx, route.sessionKey, route.accountId);
+    await attachInboundMedia({ ctx, inboundCtx, channelCfg, logger });
 
     const finalCtx = core.channel.reply.finalizeInboundContext
       ? core.channel.reply.finalizeInboundContext(inboundCtx)
@@ -291,6 +474,13 @@ export async function handleFeishuMessage(params: {
       }
     }
 
+    if (isGroup) {
+      applyGroupHistoryToContext(
+        finalCtx as InboundContext,
+        groupHistory.consume(buildGroupHistoryKey(accountId, ctx.chatId))
+      );
+    }
+
     if (!channelCfg) {
       logger.warn("channel config missing, skipping dispatch");
       return;
@@ -307,6 +497,7 @@ export async function handleFeishuMessage(params: {
     const chunkMode = textApi?.resolveChunkMode?.(cfg, "feishu-china");
 
     const replyFinalOnly = channelCfg.replyFinalOnly !== false;
+    const streamingCardEnabled = channelCfg.enableStreamingCard === true && !replyFinalOnly;
     const isHttpUrl = (value: string): boolean => /^https?:\/\//i.test(value);
     const isFeishuImageKey = (value: string): boolean => /^img_v\d+_/i.test(value.trim());
 
@@ -358,6 +549,78 @@ export async function handleFeishuMessage(params: {
       }
     };
 
+    // ===== 流式卡片 =====
+    // 首个片段创建卡片，后续片段节流更新；final 回复到达时用最终内容完成卡片。
+    // 片段长度回退视为新一轮回复，为其创建新卡片。
+    const streamingCards: StreamingCardInstance[] = [];
+    let streamingChain: Promise<void> = Promise.resolve();
+    let streamingCardFailed = false;
+    let lastPartialLength = 0;
+
+    const handleStreamingPartialReply = (payload: { text?: string }): Promise<void> => {
+      streamingChain = streamingChain
+        .then(async () => {
+          if (streamingCardFailed) return;
+          const text = extractMediaLinesFromText({ text: payload.text ?? "" }).text;
+          if (!text.trim()) return;
+          const preview = text.slice(0, textChunkLimit);
+
+          const current = streamingCards[streamingCards.length - 1];
+          const isNewReply = text.length < lastPartialLength;
+          lastPartialLength = text.length;
+          if (current && !current.finished && !isNewReply) {
+            await streamStreamingCard(current, preview, (msg) => logger.debug(msg));
+            return;
+          }
+
+          const card = await createStreamingCard({
+            cfg: channelCfg,
+            to: ctx.chatId,
+            content: preview,
+            log: (msg) => logger.debug(msg),
+          });
+          if (card) {
+            streamingCards.push(card);
+          } else {
+            streamingCardFailed = true;
+            logger.warn("streaming card creation failed, falling back to normal messages");
+          }
+        })
+        .catch((err) => {
+          logger.warn(`streaming card update failed: ${String(err)}`);
+        });
+      return streamingChain;
+    };
+
+    const takeStreamingCard = async (): Promise<StreamingCardInstance | undefined> => {
+      await streamingChain;
+      return streamingCards.find((card) => !card.finished);
+    };
+
+    finalizeStreamingCards = async (err?: unknown): Promise<void> => {
+      await streamingChain;
+      const errorMessage =
+        err === undefined ? undefined : (err instanceof Error ? err.message : String(err)).slice(0, 200);
+      for (const card of streamingCards) {
+        if (card.finished) continue;
+        try {
+          await finishStreamingCard(card, card.latestContent, {
+            errorMessage,
+            log: (msg) => logger.debug(msg),
+          });
+        } catch (finishErr) {
+          logger.error(`failed to finish streaming card: ${String(finishErr)}`);
+        }
+      }
+    };
+
+    const streamingReplyOptions = streamingCardEnabled
+      ? {
+          disableBlockStreaming: true,
+          onPartialReply: handleStreamingPartialReply,
+        }
+      : undefined;
+
     const deliver = async (
       payload: { text?: string; mediaUrl?: string; mediaUrls?: string[] },
       info?: { kind?: string }
@@ -391,10 +654,16 @@ export async function handleFeishuMessage(params: {
         `[trace] deliver_start=${new Date(deliverAt).toISOString()} (+${deliverAt - receivedAt}ms)`
       );
 
+      // newline 模式按段落逐条发送，仍交给框架处理；默认使用 markdown 感知分块，避免代码块被截断
       const chunks =
-        textApi?.chunkTextWithMode && typeof textChunkLimit === "number" && textChunkLimit > 0
-          ? textApi.chunkTextWithMode(textWithoutMediaLines, textChunkLimit, chunkMode)
-          : [textWithoutMediaLines];
+        typeof textChunkLimit !== "number" || textChunkLimit <= 0
+          ? [textWithoutMediaLines]
+          : chunkMode === "newline" && textApi?.chunkTextWithMode
+            ? textApi.chunkTextWithMode(textWithoutMediaLines, textChunkLimit, chunkMode)
+            : chunkMarkdownText(textWithoutMediaLines, { limit: textChunkLimit });
+
+      let streamingCard =
+        streamingCardEnabled && info?.kind === "final" ? await takeStreamingCard() : undefined;
 
       const localFilesSet = new Set<string>();
       for (const chunk of chunks) {
@@ -425,7 +694,18 @@ export async function handleFeishuMessage(params: {
             channelCfg.sendMarkdownAsCard ? "interactive markdown card" : "text message"
           } (receive_id_type=chat_id, chunk_len=${cleanedChunk.length}, local_files=${localFiles.length}, kind=${replyKind})`
         );
-        await sendTextFeishu(cleanedChunk);
+        if (streamingCard) {
+          const card = streamingCard;
+          streamingCard = undefined;
+          try {
+            await finishStreamingCard(card, cleanedChunk, { log: (msg) => logger.debug(msg) });
+          } catch (err) {
+            logger.warn(`failed to finish streaming card, sending as new message: ${String(err)}`);
+            await sendTextFeishu(cleanedChunk);
+          }
+        } else {
+          await sendTextFeishu(cleanedChunk);
+        }
         sent = true;
         const sentAt = Date.now();
         logger.info?.(
@@ -433,6 +713,12 @@ export async function handleFeishuMessage(params: {
         );
       }
 
+      if (streamingCard) {
+        await finishStreamingCard(streamingCard, streamingCard.latestContent, {
+          log: (msg) => logger.debug(msg),
+        });
+      }
+
       if (localFilesSet.size > 0) {
         for (const filePath of localFilesSet) {
           addMedia(filePath);
@@ -517,7 +803,9 @@ export async function handleFeishuMessage(params: {
             logger.error(`${info.kind} reply failed: ${String(err)}`);
           },
         },
+        replyOptions: streamingReplyOptions,
       });
+      await finalizeStreamingCards();
 
       if (buffered.hasPayload) {
         const didSend = await deliver(
@@ -580,10 +868,16 @@ export async function handleFeishuMessage(params: {
       ctx: finalCtx,
       cfg,
       dispatcher: dispatcherResult.dispatcher,
-      replyOptions: dispatcherResult.replyOptions,
+      replyOptions: {
+        ...(typeof dispatcherResult.replyOptions === "object" && dispatcherResult.replyOptions
+          ? dispatcherResult.replyOptions
+          : {}),
+        ...streamingReplyOptions,
+      },
     });
 
     dispatcherResult.markDispatchIdle?.();
+    await finalizeStreamingCards();
 
     const dispatchDoneAt = Date.now();
     logger.debug(
@@ -591,5 +885,17 @@ export async function handleFeishuMessage(params: {
     );
   } catch (err) {
     logger.error(`failed to dispatch message: ${String(err)}`);
+    await finalizeStreamingCards?.(err);
+  } finally {
+    if (ctx.resources?.length) {
+      try {
+        await pruneInboundMediaDir({
+          inboundDir: resolveInboundMediaDir(channelCfg),
+          keepDays: resolveInboundMediaKeepDays(channelCfg),
+        });
+      } catch (err) {
+        logger.debug(`failed to prune inbound media dir: ${String(err)}`);
+      }
+    }
   }
 }
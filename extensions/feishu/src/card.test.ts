@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const createMock = vi.fn();
+const patchMock = vi.fn();
+
+vi.mock("./client.js", () => ({
+  createFeishuClientFromConfig: () => ({
+    im: { v1: { message: { create: createMock, patch: patchMock } } },
+  }),
+}));
+
+import {
+  buildStreamingCard,
+  createStreamingCard,
+  finishStreamingCard,
+  streamStreamingCard,
+} from "./card.js";
+import type { FeishuAccountConfig } from "./config.js";
+
+const cfg = { appId: "cli_a", appSecret: "s" } as FeishuAccountConfig;
+
+function patchedCard(call: number): { elements: Array<Record<string, unknown>> } {
+  const payload = patchMock.mock.calls[call][0] as { data: { content: string } };
+  return JSON.parse(payload.data.content);
+}
+
+describe("buildStreamingCard", () => {
+  it("enables update_multi and renders status footers", () => {
+    const streaming = buildStreamingCard({ content: "hi", status: "streaming" });
+    expect((streaming.config as Record<string, unknown>).update_multi).toBe(true);
+    expect(JSON.stringify(streaming)).toContain("生成中");
+
+    const done = buildStreamingCard({ content: "hi", status: "done" });
+    expect(done.elements).toEqual([{ tag: "markdown", content: "hi" }]);
+
+    const failed = buildStreamingCard({ content: "hi", status: "error", errorMessage: "timeout" });
+    expect(JSON.stringify(failed)).toContain("回复中断：timeout");
+  });
+});
+
+describe("streaming card lifecycle", () => {
+  beforeEach(() => {
+    createMock.mockReset();
+    patchMock.mockReset();
+    createMock.mockResolvedValue({ code: 0, data: { message_id: "om_card" } });
+    patchMock.mockResolvedValue({ code: 0 });
+  });
+
+  it("creates an interactive card and throttles patches", async () => {
+    const card = await createStreamingCard({ cfg, to: "oc_1", content: "第一段", updateIntervalMs: 60_000 });
+    expect(card?.messageId).toBe("om_card");
+    const created = createMock.mock.calls[0][0] as { data: { msg_type: string; receive_id: string } };
+    expect(created.data.msg_type).toBe("interactive");
+    expect(created.data.receive_id).toBe("oc_1");
+
+    expect(await streamStreamingCard(card!, "第一段，第二段")).toBe(false);
+    expect(patchMock).not.toHaveBeenCalled();
+
+    card!.updateIntervalMs = 0;
+    expect(await streamStreamingCard(card!, "第一段，第二段")).toBe(true);
+    expect(patchMock).toHaveBeenCalledTimes(1);
+    expect(card!.lastContent).toBe("第一段，第二段");
+  });
+
+  it("finishes with done state regardless of throttling", async () => {
+    const card = await createStreamingCard({ cfg, to: "oc_1", content: "部分", updateIntervalMs: 60_000 });
+    await finishStreamingCard(card!, "完整回答");
+    expect(patchMock).toHaveBeenCalledTimes(1);
+    expect(patchedCard(0).elements).toEqual([{ tag: "markdown", content: "完整回答" }]);
+
+    await finishStreamingCard(card!, "ignored");
+    expect(await streamStreamingCard(card!, "ignored")).toBe(false);
+    expect(patchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("remembers throttled content so the card can be finished with it", async () => {
+    const card = await createStreamingCard({ cfg, to: "oc_1", content: "第一段", updateIntervalMs: 60_000 });
+    expect(await streamStreamingCard(card!, "第一段，第二段")).toBe(false);
+    expect(card!.lastContent).toBe("第一段");
+    expect(card!.latestContent).toBe("第一段，第二段");
+
+    await finishStreamingCard(card!, card!.latestContent);
+    expect(patchedCard(0).elements).toEqual([{ tag: "markdown", content: "第一段，第二段" }]);
+  });
+
+  it("appends an error footer when finished with an error", async () => {
+    const card = await createStreamingCard({ cfg, to: "oc_1", content: "部分" });
+    await finishStreamingCard(card!, "部分", { errorMessage: "agent crashed" });
+    expect(JSON.stringify(patchedCard(0))).toContain("回复中断：agent crashed");
+  });
+
+  it("returns null when the card cannot be sent", async () => {
+    createMock.mockRejectedValueOnce(new Error("network"));
+    expect(await createStreamingCard({ cfg, to: "oc_1", content: "x" })).toBeNull();
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * 飞书流式卡片
+ *
+ * 提供:
+ * - createStreamingCard: 发送可更新的交互卡片
+ * - streamStreamingCard: 节流更新卡片内容
+ * - finishStreamingCard: 完成卡片（完成状态或错误页脚）
+ *
+ * 节流跳过的内容记录在 latestContent，完成卡片时应使用它而不是 lastContent。
+ *
+ * API 文档:
+ * - 发送消息: https://open.feishu.cn/document/server-docs/im-v1/message/create
+ * - 更新卡片: https://open.feishu.cn/document/server-docs/im-v1/message-card/patch
+ */
+
+import type { FeishuAccountConfig } from "./config.js";
+import { createFeishuClientFromConfig } from "./client.js";
+
+/** 默认更新间隔（毫秒），单条消息更新接口限频 5 QPS */
+const DEFAULT_UPDATE_INTERVAL_MS = 500;
+
+/** 流式卡片状态 */
+export type StreamingCardStatus = "streaming" | "done" | "error";
+
+/**
+ * 流式卡片实例
+ */
+export interface StreamingCardInstance {
+  /** 飞书配置 */
+  cfg: FeishuAccountConfig;
+  /** 卡片消息 ID */
+  messageId: string;
+  /** 最近一次写入卡片的内容 */
+  lastContent: string;
+  /** 最近一次请求写入的内容（含被节流跳过的更新） */
+  latestContent: string;
+  /** 最近一次更新时间 */
+  lastUpdateAt: number;
+  /** 最小更新间隔 */
+  updateIntervalMs: number;
+  /** 是否已完成 */
+  finished: boolean;
+  /** 串行化更新请求 */
+  queue: Promise<void>;
+}
+
+/**
+ * 创建流式卡片参数
+ */
+export interface CreateStreamingCardParams {
+  /** 飞书配置 */
+  cfg: FeishuAccountConfig;
+  /** 接收者 ID */
+  to: string;
+  /** 接收者 ID 类型 */
+  receiveIdType?: "chat_id" | "open_id";
+  /** 首帧内容 */
+  content: string;
+  /** 最小更新间隔（毫秒） */
+  updateIntervalMs?: number;
+  /** 日志函数 */
+  log?: (msg: string) => void;
+}
+
+/**
+ * 构建流式卡片 JSON
+ *
+ * update_multi 必须开启，否则卡片发送后无法通过 patch 更新。
+ */
+export function buildStreamingCard(params: {
+  content: string;
+  status: StreamingCardStatus;
+  errorMessage?: string;
+}): Record<string, unknown> {
+  const { content, status, errorMessage } = params;
+  const elements: Array<Record<string, unknown>> = [
+    { tag: "markdown", content: content.trim() ? content : "…" },
+  ];
+
+  const footer =
+    status === "streaming"
+      ? "生成中…"
+      : status === "error"
+        ? `⚠️ 回复中断${errorMessage ? `：${errorMessage}` : ""}`
+        : undefined;
+  if (footer) {
+    elements.push({ tag: "hr" });
+    elements.push({ tag: "note", elements: [{ tag: "plain_text", content: footer }] });
+  }
+
+  return {
+    config: {
+      wide_screen_mode: true,
+      update_multi: true,
+    },
+    elements,
+  };
+}
+
+async function patchStreamingCard(
+  card: StreamingCardInstance,
+  payload: Record<string, unknown>
+): Promise<void> {
+  const client = createFeishuClientFromConfig(card.cfg);
+  const result = await client.im.v1.message.patch({
+    path: { message_id: card.messageId },
+    data: { content: JSON.stringify(payload) },
+  });
+  if (result?.code && result.code !== 0) {
+    throw new Error(`Feishu patch card failed: ${result.code} ${result.msg ?? ""}`.trim());
+  }
+}
+
+function enqueue(card: StreamingCardInstance, task: () => Promise<void>): Promise<void> {
+  const next = card.queue.then(task, task);
+  card.queue = next.catch(() => undefined);
+  return next;
+}
+
+/**
+ * 发送流式卡片
+ *
+ * @param params 创建参数
+ * @returns 卡片实例或 null（失败时）
+ */
+export async function createStreamingCard(
+  params: CreateStreamingCardParams
+): Promise<StreamingCardInstance | null> {
+  const { cfg, to, receiveIdType = "chat_id", content, updateIntervalMs, log } = params;
+
+  try {
+    const client = createFeishuClientFromConfig(cfg);
+    const result = await client.im.v1.message.create({
+      params: { receive_id_type: receiveIdType },
+      data: {
+        receive_id: to,
+        msg_type: "interactive",
+        content: JSON.stringify(buildStreamingCard({ content, status: "streaming" })),
+      },
+    });
+
+    const messageId = (result as { data?: { message_id?: string } })?.data?.message_id;
+    if (!messageId) {
+      log?.(`[card] create streaming card returned no message_id (code=${String(result?.code)})`);
+      return null;
+    }
+
+    log?.(`[card] streaming card created: ${messageId}`);
+    return {
+      cfg,
+      messageId,
+      lastContent: content,
+      latestContent: content,
+      lastUpdateAt: Date.now(),
+      updateIntervalMs: updateIntervalMs ?? DEFAULT_UPDATE_INTERVAL_MS,
+      finished: false,
+      queue: Promise.resolve(),
+    };
+  } catch (err) {
+    log?.(`[card] failed to create streaming card: ${String(err)}`);
+    return null;
+  }
+}
+
+/**
+ * 流式更新卡片内容
+ *
+ * 距上次更新不足 updateIntervalMs 时跳过本次内容（仍记录到 latestContent），
+ * 由后续更新或 finishStreamingCard 补齐。
+ *
+ * @returns 是否实际发出了更新
+ */
+export async function streamStreamingCard(
+  card: StreamingCardInstance,
+  content: string,
+  log?: (msg: string) => void
+): Promise<boolean> {
+  if (card.finished) return false;
+  card.latestContent = content;
+  if (content === card.lastContent) return false;
+  if (Date.now() - card.lastUpdateAt < card.updateIntervalMs) return false;
+
+  let updated = false;
+  await enqueue(card, async () => {
+    if (card.finished || content === card.lastContent) return;
+    if (Date.now() - card.lastUpdateAt < card.updateIntervalMs) return;
+    await patchStreamingCard(card, buildStreamingCard({ content, status: "streaming" }));
+    card.lastContent = content;
+    card.lastUpdateAt = Date.now();
+    updated = true;
+  });
+  if (updated) {
+    log?.(`[card] streamed ${content.length} chars`);
+  }
+  return updated;
+}
+
+/**
+ * 完成流式卡片
+ *
+ * 不受节流限制，始终写入最终内容；传入 errorMessage 时追加错误页脚。
+ *
+ * @param card 卡片实例
+ * @param content 最终内容
+ * @param options.errorMessage 错误信息
+ * @param options.log 日志函数
+ */
+export async function finishStreamingCard(
+  card: StreamingCardInstance,
+  content: string,
+  options?: { errorMessage?: string; log?: (msg: string) => void }
+): Promise<void> {
+  if (card.finished) return;
+  card.finished = true;
+  card.latestContent = content;
+
+  const status: StreamingCardStatus = options?.errorMessage !== undefined ? "error" : "done";
+  await enqueue(card, async () => {
+    await patchStreamingCard(
+      card,
+      buildStreamingCard({ content, status, errorMessage: options?.errorMessage })
+    );
+    card.lastContent = content;
+    card.lastUpdateAt = Date.now();
+  });
+  options?.log?.(`[card] streaming card finished (${status}, ${content.length} chars)`);
+}
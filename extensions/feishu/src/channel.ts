@@ -3,13 +3,23 @@
  */
 
 import type { ResolvedFeishuAccount, FeishuConfig } from "./types.js";
-import { FeishuConfigSchema, isConfigured, resolveFeishuCredentials } from "./config.js";
+import {
+  DEFAULT_ACCOUNT_ID,
+  isConfigured,
+  listFeishuAccountIds,
+  mergeFeishuAccountConfig,
+  moveFeishuSingleAccountConfigToDefaultAccount,
+  resolveDefaultFeishuAccountId,
+  resolveFeishuAccountId,
+  resolveFeishuCredentials,
+  type PluginConfig,
+} from "./config.js";
 import { feishuOutbound } from "./outbound.js";
 import { startFeishuGateway, stopFeishuGateway } from "./gateway.js";
 import { setFeishuRuntime } from "./runtime.js";
 
 /** 默认账户 ID */
-export const DEFAULT_ACCOUNT_ID = "default";
+export { DEFAULT_ACCOUNT_ID } from "./config.js";
 
 const meta = {
   id: "feishu-china",
@@ -22,33 +32,32 @@ const meta = {
   order: 70,
 } as const;
 
-interface PluginConfig {
-  channels?: {
-    "feishu-china"?: FeishuConfig;
-  };
-}
-
 function resolveFeishuAccount(params: {
   cfg: PluginConfig;
   accountId?: string;
 }): ResolvedFeishuAccount {
-  const { cfg, accountId = DEFAULT_ACCOUNT_ID } = params;
-  const feishuCfg = cfg.channels?.["feishu-china"];
+  const { cfg } = params;
+  const accountId = resolveFeishuAccountId(cfg, params.accountId);
+  const merged = mergeFeishuAccountConfig(cfg, accountId);
+  const baseEnabled = cfg.channels?.["feishu-china"]?.enabled !== false;
+  const enabled = baseEnabled && merged.enabled !== false;
 
-  const parsed = feishuCfg ? FeishuConfigSchema.safeParse(feishuCfg) : null;
-  const config = parsed?.success ? parsed.data : undefined;
-
-  const credentials = resolveFeishuCredentials(config);
+  const credentials = resolveFeishuCredentials(merged);
   const configured = Boolean(credentials);
 
   return {
     accountId,
-    enabled: config?.enabled ?? true,
+    name: merged.name,
+    enabled,
     configured,
     appId: credentials?.appId,
   };
 }
 
+function canStoreDefaultAccountInAccounts(cfg: PluginConfig): boolean {
+  return Boolean(cfg.channels?.["feishu-china"]?.accounts?.[DEFAULT_ACCOUNT_ID]);
+}
+
 export const feishuPlugin = {
   id: "feishu-china",
 
@@ -72,17 +81,95 @@ export const feishuPlugin = {
       additionalProperties: false,
       properties: {
         enabled: { type: "boolean" },
+        name: { type: "string" },
+        defaultAccount: { type: "string" },
         appId: { type: "string" },
         appSecret: { type: "string" },
-        connectionMode: { type: "string", enum: ["websocket"] },
+        connectionMode: { type: "string", enum: ["websocket", "webhook"] },
+        webhookPath: { type: "string" },
+        verificationToken: { type: "string" },
+        encryptKey: { type: "string" },
         dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist"] },
         groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
         requireMention: { type: "boolean" },
         allowFrom: { type: "array", items: { type: "string" } },
         groupAllowFrom: { type: "array", items: { type: "string" } },
+        denyFrom: { type: "array", items: { type: "string" } },
+        groups: {
+          type: "object",
+          additionalProperties: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              enabled: { type: "boolean" },
+              requireMention: { type: "boolean" },
+              allowFrom: { type: "array", items: { type: "string" } },
+              denyFrom: { type: "array", items: { type: "string" } },
+            },
+          },
+        },
         sendMarkdownAsCard: { type: "boolean" },
+        enableStreamingCard: { type: "boolean" },
         historyLimit: { type: "integer", minimum: 0 },
         textChunkLimit: { type: "integer", minimum: 1 },
+        maxFileSizeMB: { type: "number", minimum: 1 },
+        inboundMedia: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            dir: { type: "string" },
+            keepDays: { type: "number", minimum: 0 },
+          },
+        },
+        accounts: {
+          type: "object",
+          additionalProperties: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              name: { type: "string" },
+              enabled: { type: "boolean" },
+              appId: { type: "string" },
+              appSecret: { type: "string" },
+              connectionMode: { type: "string", enum: ["websocket", "webhook"] },
+              webhookPath: { type: "string" },
+              verificationToken: { type: "string" },
+              encryptKey: { type: "string" },
+              dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist"] },
+              groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
+              requireMention: { type: "boolean" },
+              allowFrom: { type: "array", items: { type: "string" } },
+              groupAllowFrom: { type: "array", items: { type: "string" } },
+              denyFrom: { type: "array", items: { type: "string" } },
+              groups: {
+                type: "object",
+                additionalProperties: {
+                  type: "object",
+                  additionalProperties: false,
+                  properties: {
+                    enabled: { type: "boolean" },
+                    requireMention: { type: "boolean" },
+                    allowFrom: { type: "array", items: { type: "string" } },
+                    denyFrom: { type: "array", items: { type: "string" } },
+                  },
+                },
+              },
+              sendMarkdownAsCard: { type: "boolean" },
+              enableStreamingCard: { type: "boolean" },
+              historyLimit: { type: "integer", minimum: 0 },
+              textChunkLimit: { type: "integer", minimum: 1 },
+              maxFileSizeMB: { type: "number", minimum: 1 },
+              inboundMedia: {
+                type: "object",
+                additionalProperties: false,
+                properties: {
+                  dir: { type: "string" },
+                  keepDays: { type: "number", minimum: 0 },
+                },
+              },
+            },
+          },
+        },
       },
     },
   },
@@ -90,50 +177,131 @@ export const feishuPlugin = {
   reload: { configPrefixes: ["channels.feishu-china"] },
 
   config: {
-    listAccountIds: (_cfg: PluginConfig): string[] => [DEFAULT_ACCOUNT_ID],
+    listAccountIds: (cfg: PluginConfig): string[] => listFeishuAccountIds(cfg),
 
     resolveAccount: (cfg: PluginConfig, accountId?: string): ResolvedFeishuAccount =>
       resolveFeishuAccount({ cfg, accountId }),
 
-    defaultAccountId: (): string => DEFAULT_ACCOUNT_ID,
+    defaultAccountId: (cfg: PluginConfig): string => resolveDefaultFeishuAccountId(cfg),
+
+    setAccountEnabled: (params: {
+      cfg: PluginConfig;
+      accountId?: string;
+      enabled: boolean;
+    }): PluginConfig => {
+      const accountId = resolveFeishuAccountId(params.cfg, params.accountId);
+      const seededCfg = moveFeishuSingleAccountConfigToDefaultAccount(params.cfg);
+      const existing = seededCfg.channels?.["feishu-china"] ?? {};
+
+      if (accountId === DEFAULT_ACCOUNT_ID && !canStoreDefaultAccountInAccounts(seededCfg)) {
+        return {
+          ...seededCfg,
+          channels: {
+            ...seededCfg.channels,
+            "feishu-china": {
+              ...existing,
+              enabled: params.enabled,
+            } as FeishuConfig,
+          },
+        };
+      }
 
-    setAccountEnabled: (params: { cfg: PluginConfig; enabled: boolean }): PluginConfig => {
-      const existingConfig = params.cfg.channels?.["feishu-china"] ?? {};
+      const accounts = existing.accounts ?? {};
+      const account = accounts[accountId] ?? {};
       return {
-        ...params.cfg,
+        ...seededCfg,
         channels: {
-          ...params.cfg.channels,
+          ...seededCfg.channels,
           "feishu-china": {
-            ...existingConfig,
-            enabled: params.enabled,
+            ...existing,
+            accounts: {
+              ...accounts,
+              [accountId]: { ...account, enabled: params.enabled },
+            },
           } as FeishuConfig,
         },
       };
     },
 
-    deleteAccount: (params: { cfg: PluginConfig }): PluginConfig => {
-      const next = { ...params.cfg };
-      const nextChannels = { ...params.cfg.channels };
-      delete (nextChannels as Record<string, unknown>)["feishu-china"];
-      if (Object.keys(nextChannels).length > 0) {
-        next.channels = nextChannels;
-      } else {
-        delete next.channels;
+    deleteAccount: (params: { cfg: PluginConfig; accountId?: string }): PluginConfig => {
+      const accountId = resolveFeishuAccountId(params.cfg, params.accountId);
+      const seededCfg = moveFeishuSingleAccountConfigToDefaultAccount(params.cfg);
+      const existing = seededCfg.channels?.["feishu-china"];
+      if (!existing) return seededCfg;
+
+      const removeChannel = (): PluginConfig => {
+        const next = { ...seededCfg };
+        const nextChannels = { ...seededCfg.channels };
+        delete (nextChannels as Record<string, unknown>)["feishu-china"];
+        if (Object.keys(nextChannels).length > 0) {
+          next.channels = nextChannels;
+        } else {
+          delete next.channels;
+        }
+        return next;
+      };
+
+      const accounts = existing.accounts ?? {};
+      if (!accounts[accountId]) {
+        if (
+          accountId === DEFAULT_ACCOUNT_ID &&
+          Object.keys(accounts).length === 0 &&
+          !canStoreDefaultAccountInAccounts(seededCfg)
+        ) {
+          return removeChannel();
+        }
+        return seededCfg;
+      }
+
+      const { [accountId]: _removed, ...remainingAccounts } = accounts;
+      const remainingIds = Object.keys(remainingAccounts).sort((a, b) => a.localeCompare(b));
+      const preferred = existing.defaultAccount?.trim();
+      let nextDefaultAccount = preferred;
+      if (preferred && !remainingAccounts[preferred]) {
+        nextDefaultAccount =
+          remainingIds.includes(DEFAULT_ACCOUNT_ID) ? DEFAULT_ACCOUNT_ID : (remainingIds[0] ?? "");
       }
-      return next;
+
+      const nextChannel = {
+        ...existing,
+        accounts: remainingIds.length > 0 ? remainingAccounts : undefined,
+        defaultAccount: nextDefaultAccount || undefined,
+      } as FeishuConfig;
+      const hasNonTrivialRootConfig = Object.entries(nextChannel).some(
+        ([key, value]) =>
+          key !== "enabled" &&
+          key !== "accounts" &&
+          key !== "defaultAccount" &&
+          value !== undefined
+      );
+
+      if (remainingIds.length === 0 && !hasNonTrivialRootConfig) {
+        return removeChannel();
+      }
+
+      return {
+        ...seededCfg,
+        channels: {
+          ...seededCfg.channels,
+          "feishu-china": nextChannel,
+        },
+      };
     },
 
-    isConfigured: (_account: ResolvedFeishuAccount, cfg: PluginConfig): boolean =>
-      isConfigured(cfg.channels?.["feishu-china"]),
+    isConfigured: (_account: ResolvedFeishuAccount, cfg: PluginConfig, accountId?: string): boolean =>
+      isConfigured(mergeFeishuAccountConfig(cfg, accountId ?? _account.accountId)),
 
     describeAccount: (account: ResolvedFeishuAccount) => ({
       accountId: account.accountId,
+      name: account.name,
       enabled: account.enabled,
       configured: account.configured,
     }),
 
-    resolveAllowFrom: (params: { cfg: PluginConfig }): string[] =>
-      params.cfg.channels?.["feishu-china"]?.allowFrom ?? [],
+    resolveAllowFrom: (params: { cfg: PluginConfig; accountId?: string }): string[] => {
+      const accountId = resolveFeishuAccountId(params.cfg, params.accountId);
+      return mergeFeishuAccountConfig(params.cfg, accountId).allowFrom ?? [];
+    },
 
     formatAllowFrom: (params: { allowFrom: (string | number)[] }): string[] =>
       params.allowFrom
@@ -154,16 +322,47 @@ export const feishuPlugin = {
   },
 
   setup: {
-    resolveAccountId: (): string => DEFAULT_ACCOUNT_ID,
-    applyAccountConfig: (params: { cfg: PluginConfig }): PluginConfig => {
-      const existingConfig = params.cfg.channels?.["feishu-china"] ?? {};
+    resolveAccountId: (params: { cfg: PluginConfig; accountId?: string }): string =>
+      resolveFeishuAccountId(params.cfg, params.accountId),
+    applyAccountConfig: (params: {
+      cfg: PluginConfig;
+      accountId?: string;
+      config?: Record<string, unknown>;
+    }): PluginConfig => {
+      const accountId = resolveFeishuAccountId(params.cfg, params.accountId);
+      const seededCfg = moveFeishuSingleAccountConfigToDefaultAccount(params.cfg);
+      const existing = seededCfg.channels?.["feishu-china"] ?? {};
+
+      if (accountId === DEFAULT_ACCOUNT_ID && !canStoreDefaultAccountInAccounts(seededCfg)) {
+        return {
+          ...seededCfg,
+          channels: {
+            ...seededCfg.channels,
+            "feishu-china": {
+              ...existing,
+              ...params.config,
+              enabled: true,
+            } as FeishuConfig,
+          },
+        };
+      }
+
+      const accounts = existing.accounts ?? {};
       return {
-        ...params.cfg,
+        ...seededCfg,
         channels: {
-          ...params.cfg.channels,
+          ...seededCfg.channels,
           "feishu-china": {
-            ...existingConfig,
+            ...existing,
             enabled: true,
+            accounts: {
+              ...accounts,
+              [accountId]: {
+                ...accounts[accountId],
+                ...params.config,
+                enabled: true,
+              },
+            },
           } as FeishuConfig,
         },
       };
@@ -215,4 +414,4 @@ export const feishuPlugin = {
     },
     getStatus: () => ({ connected: true }),
   },
-};
+};
@@ -4,7 +4,7 @@
  */
 
 import * as lark from "@larksuiteoapi/node-sdk";
-import type { FeishuConfig } from "./config.js";
+import type { FeishuAccountConfig } from "./config.js";
 
 // 客户端缓存
 const clientCache = new Map<string, lark.Client>();
@@ -12,7 +12,7 @@ const clientCache = new Map<string, lark.Client>();
 /**
  * 获取或创建飞书客户端
  */
-export function createFeishuClientFromConfig(config: FeishuConfig): lark.Client {
+export function createFeishuClientFromConfig(config: FeishuAccountConfig): lark.Client {
   const cacheKey = config.appId ?? "";
 
   let client = clientCache.get(cacheKey);
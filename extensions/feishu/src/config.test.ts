@@ -7,7 +7,17 @@
 
 import { describe, it, expect } from "vitest";
 import * as fc from "fast-check";
-import { FeishuConfigSchema, isConfigured, resolveFeishuCredentials } from "./config.js";
+import {
+  DEFAULT_ACCOUNT_ID,
+  FeishuConfigSchema,
+  isConfigured,
+  listFeishuAccountIds,
+  mergeFeishuAccountConfig,
+  moveFeishuSingleAccountConfigToDefaultAccount,
+  resolveDefaultFeishuAccountId,
+  resolveFeishuAccountId,
+  resolveFeishuCredentials,
+} from "./config.js";
 
 describe("Feature: feishu-integration, Property 1: 配置 Schema 验证", () => {
   it("should parse valid configs and apply defaults", () => {
@@ -173,3 +183,106 @@ describe("Feature: feishu-integration, Property 1: 配置 Schema 验证", () =>
     );
   });
 });
+
+describe("multi-account helpers", () => {
+  it("lists configured accounts and falls back to default", () => {
+    expect(listFeishuAccountIds({})).toEqual([DEFAULT_ACCOUNT_ID]);
+    expect(
+      listFeishuAccountIds({
+        channels: {
+          "feishu-china": {
+            accounts: {
+              bot2: { appId: "cli_two", appSecret: "secret-2" },
+              bot1: { appId: "cli_one", appSecret: "secret-1" },
+            },
+          },
+        },
+      })
+    ).toEqual(["bot1", "bot2"]);
+  });
+
+  it("includes default account for mixed configs that still keep base credentials", () => {
+    expect(
+      listFeishuAccountIds({
+        channels: {
+          "feishu-china": {
+            appId: "cli_base",
+            appSecret: "base-secret",
+            accounts: {
+              work: { appId: "cli_work", appSecret: "work-secret" },
+            },
+          },
+        },
+      })
+    ).toEqual([DEFAULT_ACCOUNT_ID, "work"]);
+  });
+
+  it("resolves default account with explicit value or first configured account", () => {
+    const accounts = {
+      zebra: { appId: "cli_zebra", appSecret: "zebra-secret" },
+      alpha: { appId: "cli_alpha", appSecret: "alpha-secret" },
+    };
+    expect(
+      resolveDefaultFeishuAccountId({ channels: { "feishu-china": { defaultAccount: "zebra", accounts } } })
+    ).toBe("zebra");
+    expect(
+      resolveDefaultFeishuAccountId({ channels: { "feishu-china": { defaultAccount: "missing", accounts } } })
+    ).toBe("alpha");
+
+    const cfg = { channels: { "feishu-china": { defaultAccount: "zebra", accounts } } };
+    expect(resolveFeishuAccountId(cfg, undefined)).toBe("zebra");
+    expect(resolveFeishuAccountId(cfg, "  ")).toBe("zebra");
+    expect(resolveFeishuAccountId(cfg, "alpha")).toBe("alpha");
+  });
+
+  it("merges top-level defaults with account overrides", () => {
+    const merged = mergeFeishuAccountConfig(
+      {
+        channels: {
+          "feishu-china": {
+            appId: "cli_base",
+            appSecret: "base-secret",
+            dmPolicy: "allowlist",
+            allowFrom: ["ou_1"],
+            textChunkLimit: 4000,
+            accounts: {
+              work: { appId: "cli_work", appSecret: "work-secret", textChunkLimit: 2000 },
+            },
+          },
+        },
+      },
+      "work"
+    );
+
+    expect(merged.appId).toBe("cli_work");
+    expect(merged.appSecret).toBe("work-secret");
+    expect(merged.dmPolicy).toBe("allowlist");
+    expect(merged.allowFrom).toEqual(["ou_1"]);
+    expect(merged.textChunkLimit).toBe(2000);
+    expect(merged.sendMarkdownAsCard).toBe(true);
+  });
+
+  it("promotes legacy single-account root config into accounts.default", () => {
+    const migrated = moveFeishuSingleAccountConfigToDefaultAccount({
+      channels: {
+        "feishu-china": {
+          enabled: true,
+          appId: "cli_base",
+          appSecret: "base-secret",
+          sendMarkdownAsCard: false,
+        },
+      },
+    });
+
+    expect(migrated.channels?.["feishu-china"]).toEqual({
+      enabled: true,
+      accounts: {
+        default: {
+          appId: "cli_base",
+          appSecret: "base-secret",
+          sendMarkdownAsCard: false,
+        },
+      },
+    });
+  });
+});
@@ -1,24 +1,63 @@
 // 飞书配置 schema
 import { z } from "zod";
+import { homedir, tmpdir } from "node:os";
+import { join } from "node:path";
+
+function toTrimmedString(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const next = String(value).trim();
+  return next ? next : undefined;
+}
 
 /**
- * 飞书渠道配置 Schema
+ * 飞书账户级配置 Schema
  *
  * 配置字段说明:
+ * - name: 账户显示名
  * - enabled: 是否启用该渠道
  * - appId: 飞书应用 App ID
  * - appSecret: 飞书应用 App Secret
- * - connectionMode: 连接模式（仅支持 websocket）
+ * - connectionMode: 连接模式（websocket=长连接, webhook=HTTP 事件回调）
+ * - webhookPath: webhook 模式下的回调路径
+ * - verificationToken: 事件订阅 Verification Token
+ * - encryptKey: 事件订阅 Encrypt Key（配置后事件体加密推送）
+ *   （webhook 模式下 verificationToken 与 encryptKey 至少配置一个）
  * - dmPolicy: 单聊策略 (open=开放, pairing=配对, allowlist=白名单)
  * - groupPolicy: 群聊策略 (open=开放, allowlist=白名单, disabled=禁用)
  * - requireMention: 群聊是否需要 @机器人
  * - allowFrom: 单聊白名单用户 ID 列表
  * - groupAllowFrom: 群聊白名单会话 ID 列表
+ * - denyFrom: 发送者黑名单
+ * - groups: 按群覆盖（requireMention/allowFrom/denyFrom/enabled）
  * - historyLimit: 历史消息数量限制
  * - textChunkLimit: 文本分块大小限制
  * - replyFinalOnly: 是否只发送最终回复（非流式）
+ * - enableStreamingCard: 是否以可更新卡片流式输出回复
+ * - maxFileSizeMB: 入站媒体文件大小限制 (MB)
+ * - inboundMedia: 入站媒体归档与保留策略
+ */
+
+/** 默认群聊历史消息条数 */
+export const DEFAULT_FEISHU_HISTORY_LIMIT = 20;
+
+/**
+ * 按群覆盖配置 Schema
  */
-export const FeishuConfigSchema = z.object({
+const FeishuGroupOverrideSchema = z.object({
+  /** 是否在该群响应 */
+  enabled: z.boolean().optional(),
+  /** 覆盖 requireMention */
+  requireMention: z.boolean().optional(),
+  /** 该群允许触发的发送者 */
+  allowFrom: z.array(z.string()).optional(),
+  /** 该群禁止触发的发送者 */
+  denyFrom: z.array(z.string()).optional(),
+});
+
+const FeishuAccountSchema = z.object({
+  /** 账户显示名 */
+  name: z.string().optional(),
+
   /** 是否启用飞书渠道 */
   enabled: z.boolean().optional().default(true),
 
@@ -28,8 +67,17 @@ export const FeishuConfigSchema = z.object({
   /** 飞书应用 App Secret */
   appSecret: z.string().optional(),
 
-  /** 连接模式（暂只支持 websocket） */
-  connectionMode: z.enum(["websocket"]).optional().default("websocket"),
+  /** 连接模式: websocket=长连接, webhook=HTTP 事件回调 */
+  connectionMode: z.enum(["websocket", "webhook"]).optional().default("websocket"),
+
+  /** webhook 模式下的回调路径 */
+  webhookPath: z.string().optional(),
+
+  /** 事件订阅 Verification Token */
+  verificationToken: z.string().optional(),
+
+  /** 事件订阅 Encrypt Key */
+  encryptKey: z.string().optional(),
 
   /** 单聊策略: open=开放, pairing=配对, allowlist=白名单 */
   dmPolicy: z.enum(["open", "pairing", "allowlist"]).optional().default("open"),
@@ -46,27 +94,239 @@ export const FeishuConfigSchema = z.object({
   /** 群聊白名单: 允许的会话 ID 列表 */
   groupAllowFrom: z.array(z.string()).optional(),
 
+  /** 发送者黑名单: 单聊与群聊均拒绝 */
+  denyFrom: z.array(z.string()).optional(),
+
+  /** 按群覆盖: key 为会话 ID、前缀通配（如 "oc_*"）或 "*" */
+  groups: z.record(FeishuGroupOverrideSchema).optional(),
+
   /** 是否将 Markdown 文本以卡片形式发送 */
   sendMarkdownAsCard: z.boolean().optional().default(true),
 
   /** 历史消息数量限制 */
-  historyLimit: z.number().int().min(0).optional().default(20),
+  historyLimit: z.number().int().min(0).optional().default(DEFAULT_FEISHU_HISTORY_LIMIT),
 
   /** 文本分块大小限制 (飞书文本消息最大 4000 字符) */
   textChunkLimit: z.number().int().positive().optional().default(4000),
 
   /** 仅发送最终回复（非流式） */
   replyFinalOnly: z.boolean().optional().default(false),
+
+  /** 启用流式卡片（首个片段创建卡片，后续节流更新） */
+  enableStreamingCard: z.boolean().optional().default(false),
+
+  /** 媒体文件大小限制 (MB)，默认 100MB */
+  maxFileSizeMB: z.number().positive().optional().default(100),
+
+  /** 入站媒体归档策略 */
+  inboundMedia: z
+    .object({
+      dir: z.string().optional(),
+      keepDays: z.number().optional(),
+    })
+    .optional(),
+});
+
+/**
+ * 飞书渠道配置 Schema（支持多账户）
+ */
+export const FeishuConfigSchema = FeishuAccountSchema.extend({
+  defaultAccount: z.string().optional(),
+  accounts: z.record(FeishuAccountSchema).optional(),
 });
 
 export type FeishuConfig = z.infer<typeof FeishuConfigSchema>;
+export type FeishuAccountConfig = z.infer<typeof FeishuAccountSchema>;
+
+type PartialFeishuAccountConfig = Partial<FeishuAccountConfig>;
+type PartialFeishuConfig = Partial<Omit<FeishuConfig, "accounts">> & {
+  accounts?: Record<string, PartialFeishuAccountConfig>;
+};
+
+export interface PluginConfig {
+  channels?: {
+    "feishu-china"?: PartialFeishuConfig;
+  };
+}
+
+export const DEFAULT_ACCOUNT_ID = "default";
+
+const FEISHU_ACCOUNT_KEYS = [
+  "name",
+  "appId",
+  "appSecret",
+  "connectionMode",
+  "webhookPath",
+  "verificationToken",
+  "encryptKey",
+  "dmPolicy",
+  "groupPolicy",
+  "requireMention",
+  "allowFrom",
+  "groupAllowFrom",
+  "denyFrom",
+  "groups",
+  "sendMarkdownAsCard",
+  "historyLimit",
+  "textChunkLimit",
+  "replyFinalOnly",
+  "enableStreamingCard",
+  "maxFileSizeMB",
+  "inboundMedia",
+] as const;
+
+type FeishuAccountKey = (typeof FEISHU_ACCOUNT_KEYS)[number];
+
+const DEFAULT_INBOUND_MEDIA_DIR = join(homedir(), ".openclaw", "media", "feishu", "inbound");
+const DEFAULT_INBOUND_MEDIA_KEEP_DAYS = 7;
+const DEFAULT_INBOUND_MEDIA_TEMP_DIR = join(tmpdir(), "feishu-media");
+
+export function resolveInboundMediaDir(config: FeishuAccountConfig | undefined): string {
+  return String(config?.inboundMedia?.dir ?? "").trim() || DEFAULT_INBOUND_MEDIA_DIR;
+}
+
+export function resolveInboundMediaKeepDays(config: FeishuAccountConfig | undefined): number {
+  const value = config?.inboundMedia?.keepDays;
+  return typeof value === "number" && Number.isFinite(value) && value >= 0
+    ? value
+    : DEFAULT_INBOUND_MEDIA_KEEP_DAYS;
+}
+
+export function resolveInboundMediaTempDir(): string {
+  return DEFAULT_INBOUND_MEDIA_TEMP_DIR;
+}
+
+export function normalizeAccountId(raw?: string | null): string {
+  const trimmed = String(raw ?? "").trim();
+  return trimmed || DEFAULT_ACCOUNT_ID;
+}
+
+function cloneIfObject<T>(value: T): T {
+  if (value && typeof value === "object") {
+    return structuredClone(value);
+  }
+  return value;
+}
+
+function baseLooksLikeConcreteAccount(cfg: PartialFeishuConfig | undefined): boolean {
+  if (!cfg) return false;
+  return Boolean(
+    toTrimmedString(cfg.appId) || toTrimmedString(cfg.appSecret) || toTrimmedString(cfg.name)
+  );
+}
+
+function listConfiguredAccountIds(cfg: PluginConfig): string[] {
+  const accounts = cfg.channels?.["feishu-china"]?.accounts;
+  if (!accounts || typeof accounts !== "object") return [];
+  return Object.keys(accounts).filter(Boolean);
+}
+
+export function listFeishuAccountIds(cfg: PluginConfig): string[] {
+  const ids = new Set(listConfiguredAccountIds(cfg));
+  if (ids.size === 0) return [DEFAULT_ACCOUNT_ID];
+  if (baseLooksLikeConcreteAccount(cfg.channels?.["feishu-china"]) && !ids.has(DEFAULT_ACCOUNT_ID)) {
+    ids.add(DEFAULT_ACCOUNT_ID);
+  }
+  return Array.from(ids).sort((a, b) => a.localeCompare(b));
+}
+
+export function resolveDefaultFeishuAccountId(cfg: PluginConfig): string {
+  const feishuConfig = cfg.channels?.["feishu-china"];
+  const preferred = toTrimmedString(feishuConfig?.defaultAccount);
+  if (preferred && listFeishuAccountIds(cfg).includes(preferred)) {
+    return preferred;
+  }
+  const ids = listFeishuAccountIds(cfg);
+  if (ids.includes(DEFAULT_ACCOUNT_ID)) return DEFAULT_ACCOUNT_ID;
+  return ids[0] ?? DEFAULT_ACCOUNT_ID;
+}
+
+export function resolveFeishuAccountId(cfg: PluginConfig, rawAccountId?: string | null): string {
+  return toTrimmedString(rawAccountId) ?? resolveDefaultFeishuAccountId(cfg);
+}
+
+function resolveAccountConfig(cfg: PluginConfig, accountId: string): FeishuAccountConfig | undefined {
+  const accounts = cfg.channels?.["feishu-china"]?.accounts;
+  if (!accounts || typeof accounts !== "object") return undefined;
+  return accounts[accountId] as FeishuAccountConfig | undefined;
+}
+
+function extractBaseAccountPatch(cfg: PartialFeishuConfig | undefined): PartialFeishuAccountConfig {
+  const patch: PartialFeishuAccountConfig = {};
+  const patchRecord = patch as Record<FeishuAccountKey, FeishuAccountConfig[FeishuAccountKey] | undefined>;
+  if (!cfg) return patch;
+
+  for (const key of FEISHU_ACCOUNT_KEYS) {
+    const value = cfg[key];
+    if (value !== undefined) {
+      patchRecord[key] = cloneIfObject(value) as FeishuAccountConfig[FeishuAccountKey];
+    }
+  }
+
+  return patch;
+}
+
+export function moveFeishuSingleAccountConfigToDefaultAccount(cfg: PluginConfig): PluginConfig {
+  const feishuConfig = cfg.channels?.["feishu-china"];
+  if (!feishuConfig) {
+    return cfg;
+  }
+
+  const accounts = feishuConfig.accounts ?? {};
+  if (accounts[DEFAULT_ACCOUNT_ID]) {
+    return cfg;
+  }
+  if (!baseLooksLikeConcreteAccount(feishuConfig)) {
+    return cfg;
+  }
+
+  const patch = extractBaseAccountPatch(feishuConfig);
+  if (Object.keys(patch).length === 0) {
+    return cfg;
+  }
+
+  const nextChannel = { ...feishuConfig } as PartialFeishuConfig;
+  for (const key of FEISHU_ACCOUNT_KEYS) {
+    delete nextChannel[key];
+  }
+
+  return {
+    ...cfg,
+    channels: {
+      ...cfg.channels,
+      "feishu-china": {
+        ...nextChannel,
+        accounts: {
+          ...accounts,
+          [DEFAULT_ACCOUNT_ID]: {
+            ...patch,
+          },
+        },
+      },
+    },
+  };
+}
+
+/**
+ * 合并顶层配置与账户配置（账户配置优先）
+ *
+ * 顶层与账户配置均经过 Schema 解析以补齐默认值；解析失败时回退到原始值。
+ */
+export function mergeFeishuAccountConfig(cfg: PluginConfig, accountId: string): FeishuAccountConfig {
+  const base = (cfg.channels?.["feishu-china"] ?? {}) as FeishuConfig;
+  const { accounts: _ignored, defaultAccount: _ignored2, ...baseConfig } = base;
+  const account = resolveAccountConfig(cfg, accountId) ?? {};
+  const merged = { ...baseConfig, ...account };
+  const parsed = FeishuAccountSchema.safeParse(merged);
+  return parsed.success ? parsed.data : (merged as FeishuAccountConfig);
+}
 
 /**
  * 检查飞书配置是否已配置凭证
  * @param config 飞书配置对象
  * @returns 是否已配置 appId 和 appSecret
  */
-export function isConfigured(config: FeishuConfig | undefined): boolean {
+export function isConfigured(config: FeishuAccountConfig | undefined): boolean {
   return Boolean(config?.appId && config?.appSecret);
 }
 
@@ -76,7 +336,7 @@ export function isConfigured(config: FeishuConfig | undefined): boolean {
  * @returns 凭证对象或 undefined
  */
 export function resolveFeishuCredentials(
-  config: FeishuConfig | undefined
+  config: FeishuAccountConfig | undefined
 ): { appId: string; appSecret: string } | undefined {
   if (!config?.appId || !config?.appSecret) {
     return undefined;
@@ -85,4 +345,4 @@ export function resolveFeishuCredentials(
     appId: config.appId,
     appSecret: config.appSecret,
   };
-}
+}
@@ -1,22 +1,28 @@
 /**
- * 飞书 WebSocket 连接管理
+ * 飞书连接管理
+ *
+ * 支持两种连接模式:
+ * - websocket: SDK 长连接
+ * - webhook: HTTP 事件回调（见 webhook.ts）
  */
 
 import * as lark from "@larksuiteoapi/node-sdk";
-import type { FeishuConfig } from "./config.js";
+import {
+  DEFAULT_ACCOUNT_ID,
+  mergeFeishuAccountConfig,
+  type FeishuAccountConfig,
+  type PluginConfig,
+} from "./config.js";
 import type { FeishuMessageEvent } from "./types.js";
 import { createLogger, type Logger } from "./logger.js";
 import { handleFeishuMessage } from "./bot.js";
+import { registerFeishuWebhookTarget, resolveFeishuWebhookPath } from "./webhook.js";
 
 /**
  * Gateway 配置选项
  */
 export interface FeishuGatewayOptions {
-  config?: {
-    channels?: {
-      "feishu-china"?: FeishuConfig;
-    };
-  };
+  config?: PluginConfig;
   runtime?: {
     log?: (msg: string) => void;
     error?: (msg: string) => void;
@@ -25,13 +31,33 @@ export interface FeishuGatewayOptions {
   accountId?: string;
 }
 
-// WebSocket 客户端缓存
-let currentClient: lark.WSClient | null = null;
-let currentAccountId: string | null = null;
-let currentPromise: Promise<void> | null = null;
-let currentStop: (() => void) | null = null;
+interface ActiveConnection {
+  client: lark.WSClient | null;
+  /** webhook 模式下的回调注销函数 */
+  unregisterWebhook: (() => void) | null;
+  promise: Promise<void> | null;
+  stop: (() => void) | null;
+}
+
+// 按账户缓存的连接（WebSocket 或 webhook 注册）
+const activeConnections = new Map<string, ActiveConnection>();
+
+function getOrCreateConnection(accountId: string): ActiveConnection {
+  let conn = activeConnections.get(accountId);
+  if (!conn) {
+    conn = {
+      client: null,
+      unregisterWebhook: null,
+      promise: null,
+      stop: null,
+    };
+    activeConnections.set(accountId, conn);
+  }
+  return conn;
+}
 
-// 消息去重缓存 (messageId -> timestamp)
+// 消息去重缓存 (accountId:messageId -> timestamp)
+// 同一条群消息会分别推送给群内每个机器人，因此去重键需要带上账户 ID
 const processedMessages = new Map<string, number>();
 const MESSAGE_DEDUPE_TTL_MS = 60 * 1000; // 60秒过期
 
@@ -62,12 +88,13 @@ function cleanupDedupeCache(): void {
   }
 }
 
-function isDuplicateMessage(messageId: string): boolean {
+function isDuplicateMessage(accountId: string, messageId: string): boolean {
   if (!messageId) return false;
-  if (processedMessages.has(messageId)) {
+  const key = `${accountId}:${messageId}`;
+  if (processedMessages.has(key)) {
     return true;
   }
-  processedMessages.set(messageId, Date.now());
+  processedMessages.set(key, Date.now());
   if (processedMessages.size > 100) {
     cleanupDedupeCache();
   }
@@ -82,35 +109,145 @@ function isMessageExpired(createTimeMs: string | undefined): boolean {
   return now - createTime > MESSAGE_EXPIRE_TTL_MS;
 }
 
+/**
+ * 处理 im.message.receive_v1 事件（长连接与 webhook 共用）
+ *
+ * 去重、过期检查后异步分发，避免阻塞事件回调的响应。
+ */
+function handleMessageReceiveEvent(params: {
+  accountId: string;
+  config: PluginConfig;
+  event: FeishuMessageEvent;
+  logger: Logger;
+}): void {
+  const { accountId, config, event, logger } = params;
+  const message = event.message;
+  if (!message) return;
+
+  const messageId = message.message_id ?? "";
+
+  if (isDuplicateMessage(accountId, messageId)) {
+    return;
+  }
+
+  if (isMessageExpired(message.create_time)) {
+    logger.info(`skipping expired message ${messageId}`);
+    return;
+  }
+
+  const contentPreview = message.content ? message.content.slice(0, 80) : "";
+  logger.info(
+    `Inbound: account=${accountId} chat=${message.chat_id ?? ""} type=${message.message_type ?? ""} text="${contentPreview}"`,
+  );
+
+  setImmediate(() => {
+    void handleFeishuMessage({
+      cfg: config,
+      event,
+      accountId,
+      log: (msg: string) => logger.info(msg.replace(/^\[feishu\]\s*/, "")),
+      error: (msg: string) => logger.error(msg.replace(/^\[feishu\]\s*/, "")),
+    }).catch((err) => {
+      logger.error(`error handling message: ${String(err)}`);
+    });
+  });
+}
+
+/**
+ * 以 webhook 模式启动：注册 HTTP 回调目标，直到 abort/stop 时注销
+ */
+function startFeishuWebhook(params: {
+  conn: ActiveConnection;
+  config: PluginConfig;
+  feishuCfg: FeishuAccountConfig;
+  accountId: string;
+  abortSignal?: AbortSignal;
+  logger: Logger;
+}): Promise<void> {
+  const { conn, config, feishuCfg, accountId, abortSignal, logger } = params;
+  const path = resolveFeishuWebhookPath(feishuCfg);
+
+  try {
+    conn.unregisterWebhook = registerFeishuWebhookTarget({
+      accountId,
+      account: feishuCfg,
+      path,
+      logger,
+      onMessageEvent: (event) => handleMessageReceiveEvent({ accountId, config, event, logger }),
+    });
+  } catch (err) {
+    // 未配置 encryptKey / verificationToken 时拒绝启动
+    activeConnections.delete(accountId);
+    throw err;
+  }
+  logger.info(`webhook registered at ${path} for account ${accountId}`);
+
+  conn.promise = new Promise<void>((resolve) => {
+    let stopped = false;
+
+    const finalize = () => {
+      if (stopped) return;
+      stopped = true;
+      abortSignal?.removeEventListener("abort", handleAbort);
+      conn.unregisterWebhook?.();
+      conn.unregisterWebhook = null;
+      conn.stop = null;
+      conn.promise = null;
+      activeConnections.delete(accountId);
+      resolve();
+    };
+
+    const handleAbort = () => {
+      logger.info("abort signal received, unregistering webhook");
+      finalize();
+    };
+
+    conn.stop = () => {
+      logger.info(`stop requested, unregistering webhook for account ${accountId}`);
+      finalize();
+    };
+
+    if (abortSignal?.aborted) {
+      finalize();
+      return;
+    }
+    abortSignal?.addEventListener("abort", handleAbort, { once: true });
+  });
+
+  return conn.promise;
+}
+
 /**
  * 启动飞书 WebSocket 连接
  */
 export async function startFeishuGateway(opts: FeishuGatewayOptions = {}): Promise<void> {
-  const { config, runtime, abortSignal, accountId = "default" } = opts;
+  const { config, runtime, abortSignal, accountId = DEFAULT_ACCOUNT_ID } = opts;
 
   const logger: Logger = createLogger("feishu", {
     log: runtime?.log,
     error: runtime?.error,
   });
 
-  if (currentClient) {
-    if (currentAccountId && currentAccountId !== accountId) {
-      throw new Error(`Feishu already running for account ${currentAccountId}`);
-    }
+  const conn = getOrCreateConnection(accountId);
+  if (conn.client || conn.unregisterWebhook) {
     logger.debug(`existing connection for account ${accountId} is active, reusing gateway`);
-    if (currentPromise) {
-      return currentPromise;
+    if (conn.promise) {
+      return conn.promise;
     }
-    throw new Error("Feishu gateway state invalid: active client without promise");
+    throw new Error(`Feishu gateway state invalid for account ${accountId}: active client without promise`);
   }
 
-  const feishuCfg = config?.channels?.["feishu-china"];
-  if (!feishuCfg) {
+  if (!config?.channels?.["feishu-china"]) {
     throw new Error("Feishu configuration not found");
   }
 
+  const feishuCfg = mergeFeishuAccountConfig(config, accountId);
   if (!feishuCfg.appId || !feishuCfg.appSecret) {
-    throw new Error("Feishu appId/appSecret missing");
+    throw new Error(`Feishu appId/appSecret missing for account ${accountId}`);
+  }
+
+  if (feishuCfg.connectionMode === "webhook") {
+    return startFeishuWebhook({ conn, config, feishuCfg, accountId, abortSignal, logger });
   }
 
   const wsClient = new lark.WSClient({
@@ -119,12 +256,11 @@ export async function startFeishuGateway(opts: FeishuGatewayOptions = {}): Promi
     loggerLevel: lark.LoggerLevel.error,
   });
 
-  currentClient = wsClient;
-  currentAccountId = accountId;
+  conn.client = wsClient;
 
   logger.info(`starting WebSocket connection for account ${accountId}...`);
 
-  currentPromise = new Promise<void>((resolve, reject) => {
+  conn.promise = new Promise<void>((resolve, reject) => {
     let stopped = false;
     let watchdogId: ReturnType<typeof setInterval> | null = null;
     let connectStartedAt = Date.now();
@@ -160,11 +296,11 @@ export async function startFeishuGateway(opts: FeishuGatewayOptions = {}): Promi
         clearInterval(watchdogId);
         watchdogId = null;
       }
-      if (currentClient === wsClient) {
-        currentClient = null;
-        currentAccountId = null;
-        currentStop = null;
-        currentPromise = null;
+      if (conn.client === wsClient) {
+        conn.client = null;
+        conn.stop = null;
+        conn.promise = null;
+        activeConnections.delete(accountId);
       }
       try {
         const clientAny = wsClient as unknown as Record<string, unknown>;
@@ -199,8 +335,8 @@ export async function startFeishuGateway(opts: FeishuGatewayOptions = {}): Promi
       finalizeResolve();
     };
 
-    currentStop = () => {
-      logger.info("stop requested, stopping gateway");
+    conn.stop = () => {
+      logger.info(`stop requested, stopping gateway for account ${accountId}`);
       finalizeResolve();
     };
 
@@ -214,38 +350,12 @@ export async function startFeishuGateway(opts: FeishuGatewayOptions = {}): Promi
     try {
       const eventDispatcher = new lark.EventDispatcher({}).register({
         "im.message.receive_v1": async (data: unknown) => {
-          const event = data as FeishuMessageEvent;
-          const message = event.message;
-          if (!message) return {};
-
-          const messageId = message.message_id ?? "";
-
-          if (isDuplicateMessage(messageId)) {
-            return {};
-          }
-
-          if (isMessageExpired(message.create_time)) {
-            logger.info(`skipping expired message ${messageId}`);
-            return {};
-          }
-
-          const contentPreview = message.content ? message.content.slice(0, 80) : "";
-          logger.info(
-            `Inbound: chat=${message.chat_id ?? ""} type=${message.message_type ?? ""} text="${contentPreview}"`,
-          );
-
-          setImmediate(() => {
-            void handleFeishuMessage({
-              cfg: config,
-              event,
-              accountId,
-              log: (msg: string) => logger.info(msg.replace(/^\[feishu\]\s*/, "")),
-              error: (msg: string) => logger.error(msg.replace(/^\[feishu\]\s*/, "")),
-            }).catch((err) => {
-              logger.error(`error handling message: ${String(err)}`);
-            });
+          handleMessageReceiveEvent({
+            accountId,
+            config,
+            event: data as FeishuMessageEvent,
+            logger,
           });
-
           return {};
         },
       });
@@ -281,23 +391,24 @@ export async function startFeishuGateway(opts: FeishuGatewayOptions = {}): Promi
     }
   });
 
-  return currentPromise;
+  return conn.promise;
 }
 
 /**
- * 停止飞书 Gateway
+ * 停止指定账户的飞书 Gateway
  */
-export function stopFeishuGateway(accountId = "default"): void {
-  if (currentStop) {
-    if (!currentAccountId || currentAccountId === accountId) {
-      currentStop();
-    }
+export function stopFeishuGateway(accountId = DEFAULT_ACCOUNT_ID): void {
+  const conn = activeConnections.get(accountId);
+  if (!conn) return;
+
+  if (conn.stop) {
+    conn.stop();
     return;
   }
 
-  if (currentClient) {
+  if (conn.client) {
     try {
-      const clientAny = currentClient as unknown as Record<string, unknown>;
+      const clientAny = conn.client as unknown as Record<string, unknown>;
       if (typeof clientAny.close === "function") {
         (clientAny.close as () => void)();
       } else if (typeof clientAny.stop === "function") {
@@ -305,18 +416,39 @@ export function stopFeishuGateway(accountId = "default"): void {
       }
     } catch (err) {
       console.error(`[feishu] failed to stop client: ${String(err)}`);
-    } finally {
-      currentClient = null;
-      currentAccountId = null;
-      currentPromise = null;
-      currentStop = null;
     }
   }
+  conn.unregisterWebhook?.();
+  activeConnections.delete(accountId);
+}
+
+/**
+ * 停止所有账户的飞书 Gateway
+ */
+export function stopAllFeishuGateways(): void {
+  for (const accountId of Array.from(activeConnections.keys())) {
+    stopFeishuGateway(accountId);
+  }
+}
+
+/**
+ * 获取连接状态（不传 accountId 时表示任一账户在线）
+ */
+export function isGatewayActive(accountId?: string): boolean {
+  if (accountId) {
+    const conn = activeConnections.get(accountId);
+    return Boolean(conn?.client || conn?.unregisterWebhook);
+  }
+  return Array.from(activeConnections.values()).some(
+    (conn) => conn.client !== null || conn.unregisterWebhook !== null
+  );
 }
 
 /**
- * 获取当前连接状态
+ * 获取所有活跃账户 ID
  */
-export function isGatewayActive(): boolean {
-  return currentClient !== null;
+export function getActiveFeishuAccountIds(): string[] {
+  return Array.from(activeConnections.entries())
+    .filter(([, conn]) => conn.client !== null || conn.unregisterWebhook !== null)
+    .map(([accountId]) => accountId);
 }
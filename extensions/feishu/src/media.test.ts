@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from "vitest";
+import * as fs from "node:fs";
+
+vi.mock("./client.js", () => ({
+  createFeishuClientFromConfig: () => ({
+    domain: "https://open.feishu.cn",
+    tokenManager: { getTenantAccessToken: async () => "tenant-token" },
+  }),
+}));
+
+import {
+  downloadFeishuMessageResources,
+  extractFeishuMessageResources,
+  parseFeishuPostContent,
+  renderFeishuPostMarkdown,
+} from "./media.js";
+import { parseFeishuMessageEvent } from "./bot.js";
+import type { FeishuAccountConfig } from "./config.js";
+
+describe("extractFeishuMessageResources", () => {
+  it("extracts image, file, audio and media resources", () => {
+    expect(extractFeishuMessageResources("image", JSON.stringify({ image_key: "img_v2_1" }))).toEqual([
+      { kind: "image", key: "img_v2_1" },
+    ]);
+    expect(
+      extractFeishuMessageResources("file", JSON.stringify({ file_key: "file_v2_1", file_name: "a.pdf" }))
+    ).toEqual([{ kind: "file", key: "file_v2_1", fileName: "a.pdf" }]);
+    expect(
+      extractFeishuMessageResources("audio", JSON.stringify({ file_key: "file_v2_2", duration: 3000 }))
+    ).toEqual([{ kind: "audio", key: "file_v2_2", duration: 3000 }]);
+    expect(
+      extractFeishuMessageResources(
+        "media",
+        JSON.stringify({ file_key: "file_v2_3", image_key: "img_cover", file_name: "v.mp4", duration: 1000 })
+      )
+    ).toEqual([{ kind: "media", key: "file_v2_3", fileName: "v.mp4", duration: 1000 }]);
+  });
+
+  it("returns empty list for invalid content", () => {
+    expect(extractFeishuMessageResources("image", "not-json")).toEqual([]);
+    expect(extractFeishuMessageResources("image", JSON.stringify({}))).toEqual([]);
+    expect(extractFeishuMessageResources("text", JSON.stringify({ text: "hi" }))).toEqual([]);
+  });
+});
+
+describe("parseFeishuPostContent / renderFeishuPostMarkdown", () => {
+  const postContent = JSON.stringify({
+    title: "日报",
+    content: [
+      [
+        { tag: "text", text: "今天", style: ["bold"] },
+        { tag: "text", text: "完成了 " },
+        { tag: "a", text: "需求", href: "https://example.com/1" },
+        { tag: "at", user_id: "ou_1", user_name: "张三" },
+      ],
+      [{ tag: "img", image_key: "img_v2_a" }],
+      [{ tag: "code_block", language: "JS", text: "let a = 1;" }],
+      [{ tag: "media", file_key: "file_v2_m", image_key: "img_cover" }],
+    ],
+  });
+
+  it("collects image and media keys in order", () => {
+    const post = parseFeishuPostContent(postContent);
+    expect(post?.title).toBe("日报");
+    expect(post?.imageKeys).toEqual(["img_v2_a"]);
+    expect(post?.mediaKeys).toEqual(["file_v2_m"]);
+  });
+
+  it("supports locale-wrapped post content", () => {
+    const wrapped = JSON.stringify({ zh_cn: JSON.parse(postContent) });
+    expect(parseFeishuPostContent(wrapped)?.imageKeys).toEqual(["img_v2_a"]);
+  });
+
+  it("renders markdown with placeholders and local image references", () => {
+    const post = parseFeishuPostContent(postContent)!;
+    expect(renderFeishuPostMarkdown(post)).toBe(
+      [
+        "**日报**",
+        "**今天**完成了 [需求](https://example.com/1)@张三",
+        "[图片]",
+        "```js\nlet a = 1;\n```",
+        "[视频]",
+      ].join("\n")
+    );
+
+    const rendered = renderFeishuPostMarkdown(post, new Map([["img_v2_a", "/tmp/a.png"]]));
+    expect(rendered).toContain("![image](/tmp/a.png)");
+  });
+
+  it("parses post events into markdown content with resources", () => {
+    const ctx = parseFeishuMessageEvent({
+      sender: { sender_id: { open_id: "ou_1" } },
+      message: { message_id: "om_1", chat_id: "oc_1", chat_type: "p2p", message_type: "post", content: postContent },
+    });
+    expect(ctx.content).toContain("**日报**");
+    expect(ctx.resources).toEqual([
+      { kind: "image", key: "img_v2_a" },
+      { kind: "media", key: "file_v2_m" },
+    ]);
+  });
+
+  it("parses image and sticker events into placeholder content", () => {
+    const image = parseFeishuMessageEvent({
+      message: { message_id: "om_2", message_type: "image", content: JSON.stringify({ image_key: "img_v2_b" }) },
+    });
+    expect(image.content).toBe("[图片]");
+    expect(image.resources).toEqual([{ kind: "image", key: "img_v2_b" }]);
+
+    const sticker = parseFeishuMessageEvent({
+      message: { message_id: "om_3", message_type: "sticker", content: JSON.stringify({ file_key: "x" }) },
+    });
+    expect(sticker.content).toBe("[表情]");
+    expect(sticker.resources).toEqual([]);
+  });
+});
+
+describe("downloadFeishuMessageResources", () => {
+  it("downloads through the message resource API and skips failures", async () => {
+    const calls: Array<{ url: string; auth?: string }> = [];
+    const fetchMock = vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+      const url = String(input);
+      calls.push({ url, auth: (init?.headers as Record<string, string> | undefined)?.Authorization });
+      if (url.includes("bad_key")) {
+        return new Response("not found", { status: 404 });
+      }
+      return new Response(Buffer.from("png-bytes"), {
+        status: 200,
+        headers: { "content-type": "image/png" },
+      });
+    }) as unknown as typeof globalThis.fetch;
+
+    const files = await downloadFeishuMessageResources({
+      cfg: { appId: "cli_a", appSecret: "s", maxFileSizeMB: 1 } as FeishuAccountConfig,
+      messageId: "om_1",
+      resources: [
+        { kind: "image", key: "img_ok" },
+        { kind: "file", key: "bad_key", fileName: "a.pdf" },
+      ],
+      fetch: fetchMock,
+    });
+
+    expect(calls[0].url).toBe("https://open.feishu.cn/open-apis/im/v1/messages/om_1/resources/img_ok?type=image");
+    expect(calls[0].auth).toBe("Bearer tenant-token");
+    expect(calls[1].url).toContain("/resources/bad_key?type=file");
+    expect(files).toHaveLength(1);
+    expect(files[0].key).toBe("img_ok");
+    expect(files[0].contentType).toBe("image/png");
+    expect(fs.readFileSync(files[0].path, "utf8")).toBe("png-bytes");
+    fs.rmSync(files[0].path, { force: true });
+  });
+});
@@ -0,0 +1,436 @@
+/**
+ * 飞书入站媒体处理
+ *
+ * 提供:
+ * - extractFeishuMessageResources: 从 image/file/audio/media 消息中提取资源 key
+ * - parseFeishuPostContent: 解析 post 富文本消息
+ * - renderFeishuPostMarkdown: 将 post 富文本转换为 Markdown
+ * - downloadFeishuMessageResource: 通过消息资源 API 下载文件
+ * - downloadFeishuMessageResources: 批量下载消息中的资源
+ *
+ * API 文档:
+ * - 获取消息中的资源文件: https://open.feishu.cn/document/server-docs/im-v1/message/get-2
+ * - 接收消息内容结构: https://open.feishu.cn/document/server-docs/im-v1/message-content-description/message_content
+ */
+
+import type { FeishuAccountConfig } from "./config.js";
+import { createFeishuClientFromConfig } from "./client.js";
+import { resolveInboundMediaTempDir } from "./config.js";
+import { downloadToTempFile } from "@openclaw-china/shared";
+import type { Logger } from "./logger.js";
+
+/** 资源下载超时时间（120 秒） */
+const DOWNLOAD_TIMEOUT = 120_000;
+
+/** 默认媒体文件大小限制（100MB） */
+const DEFAULT_MAX_FILE_SIZE_MB = 100;
+
+/**
+ * 飞书消息资源类型
+ */
+export type FeishuResourceKind = "image" | "file" | "audio" | "media";
+
+/**
+ * 消息中携带的可下载资源
+ */
+export interface FeishuMessageResource {
+  /** 资源类型 */
+  kind: FeishuResourceKind;
+  /** image_key 或 file_key */
+  key: string;
+  /** 原始文件名（file/media 消息） */
+  fileName?: string;
+  /** 音视频时长（毫秒） */
+  duration?: number;
+}
+
+/**
+ * post 富文本元素
+ */
+export interface FeishuPostElement {
+  tag: string;
+  text?: string;
+  href?: string;
+  user_id?: string;
+  user_name?: string;
+  image_key?: string;
+  file_key?: string;
+  emoji_type?: string;
+  language?: string;
+  style?: string[];
+}
+
+/**
+ * post 富文本解析结果
+ */
+export interface FeishuPostParseResult {
+  /** 标题 */
+  title: string;
+  /** 段落（每个段落为一行元素） */
+  paragraphs: FeishuPostElement[][];
+  /** 富文本中嵌入的图片 key（按出现顺序） */
+  imageKeys: string[];
+  /** 富文本中嵌入的视频 file_key（按出现顺序） */
+  mediaKeys: string[];
+}
+
+/**
+ * 下载后的资源文件信息
+ */
+export interface DownloadedFeishuResource {
+  /** 资源 key */
+  key: string;
+  /** 资源类型 */
+  kind: FeishuResourceKind;
+  /** 本地绝对路径 */
+  path: string;
+  /** MIME 类型 */
+  contentType: string;
+  /** 文件大小（字节） */
+  size: number;
+  /** 原始文件名 */
+  fileName?: string;
+}
+
+function parseJsonObject(raw: string | undefined): Record<string, unknown> | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function readNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * 从 image/file/audio/media 消息的 content 中提取资源
+ *
+ * @param messageType 飞书 message_type
+ * @param content 消息 content（JSON 字符串）
+ * @returns 资源列表（无可下载资源时为空数组）
+ */
+export function extractFeishuMessageResources(
+  messageType: string,
+  content: string | undefined
+): FeishuMessageResource[] {
+  const parsed = parseJsonObject(content);
+  if (!parsed) return [];
+
+  switch (messageType) {
+    case "image": {
+      const key = readString(parsed.image_key);
+      return key ? [{ kind: "image", key }] : [];
+    }
+    case "file": {
+      const key = readString(parsed.file_key);
+      return key ? [{ kind: "file", key, fileName: readString(parsed.file_name) }] : [];
+    }
+    case "audio": {
+      const key = readString(parsed.file_key);
+      return key ? [{ kind: "audio", key, duration: readNumber(parsed.duration) }] : [];
+    }
+    case "media": {
+      const key = readString(parsed.file_key);
+      return key
+        ? [
+            {
+              kind: "media",
+              key,
+              fileName: readString(parsed.file_name),
+              duration: readNumber(parsed.duration),
+            },
+          ]
+        : [];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * 解析 post 富文本消息
+ *
+ * 接收事件中的 post content 形如 `{ title, content: [[...], [...]] }`，
+ * 部分场景会带语言包裹（`{ zh_cn: { title, content } }`），两种格式均支持。
+ *
+ * @param content 消息 content（JSON 字符串）
+ * @returns 解析结果，无效时返回 null
+ */
+export function parseFeishuPostContent(content: string | undefined): FeishuPostParseResult | null {
+  const parsed = parseJsonObject(content);
+  if (!parsed) return null;
+
+  let body: Record<string, unknown> | null = Array.isArray(parsed.content) ? parsed : null;
+  if (!body) {
+    for (const value of Object.values(parsed)) {
+      if (value && typeof value === "object" && Array.isArray((value as Record<string, unknown>).content)) {
+        body = value as Record<string, unknown>;
+        break;
+      }
+    }
+  }
+  if (!body) return null;
+
+  const paragraphs: FeishuPostElement[][] = [];
+  const imageKeys: string[] = [];
+  const mediaKeys: string[] = [];
+
+  for (const rawLine of body.content as unknown[]) {
+    if (!Array.isArray(rawLine)) continue;
+    const line: FeishuPostElement[] = [];
+    for (const rawElement of rawLine) {
+      if (!rawElement || typeof rawElement !== "object") continue;
+      const element = rawElement as FeishuPostElement;
+      if (typeof element.tag !== "string") continue;
+      if (element.tag === "img" && element.image_key) {
+        imageKeys.push(element.image_key);
+      }
+      if (element.tag === "media" && element.file_key) {
+        mediaKeys.push(element.file_key);
+      }
+      line.push(element);
+    }
+    paragraphs.push(line);
+  }
+
+  return {
+    title: readString(body.title) ?? "",
+    paragraphs,
+    imageKeys,
+    mediaKeys,
+  };
+}
+
+function applyTextStyle(text: string, style: string[] | undefined): string {
+  if (!text.trim() || !Array.isArray(style) || style.length === 0) return text;
+  let result = text;
+  if (style.includes("bold")) result = `**${result}**`;
+  if (style.includes("italic")) result = `*${result}*`;
+  if (style.includes("lineThrough")) result = `~~${result}~~`;
+  return result;
+}
+
+/**
+ * 将 post 富文本渲染为 Markdown
+ *
+ * 图片与视频以内联引用形式输出：已下载的资源使用本地路径，
+ * 未下载成功的资源降级为 `[图片]` / `[视频]` 占位符。
+ *
+ * @param post post 解析结果
+ * @param resourcePaths 资源 key -> 本地路径
+ * @returns Markdown 文本
+ */
+export function renderFeishuPostMarkdown(
+  post: FeishuPostParseResult,
+  resourcePaths: Map<string, string> = new Map()
+): string {
+  const lines: string[] = [];
+  if (post.title) {
+    lines.push(`**${post.title}**`);
+  }
+
+  for (const paragraph of post.paragraphs) {
+    let line = "";
+    for (const element of paragraph) {
+      switch (element.tag) {
+        case "text":
+          line += applyTextStyle(element.text ?? "", element.style);
+          break;
+        case "a": {
+          const label = element.text || element.href || "";
+          line += element.href ? `[${label}](${element.href})` : label;
+          break;
+        }
+        case "at":
+          line += `@${element.user_name || element.user_id || ""}`;
+          break;
+        case "img": {
+          const localPath = element.image_key ? resourcePaths.get(element.image_key) : undefined;
+          line += localPath ? `![image](${localPath})` : "[图片]";
+          break;
+        }
+        case "media": {
+          const localPath = element.file_key ? resourcePaths.get(element.file_key) : undefined;
+          line += localPath ? `[视频](${localPath})` : "[视频]";
+          break;
+        }
+        case "emotion":
+          line += element.emoji_type ? `[${element.emoji_type}]` : "";
+          break;
+        case "code_block":
+          if (line) {
+            lines.push(line);
+            line = "";
+          }
+          lines.push(`\`\`\`${element.language?.toLowerCase() ?? ""}\n${element.text ?? ""}\n\`\`\``);
+          break;
+        case "hr":
+          if (line) {
+            lines.push(line);
+            line = "";
+          }
+          lines.push("---");
+          break;
+        case "md":
+          line += element.text ?? "";
+          break;
+        default:
+          if (typeof element.text === "string") {
+            line += element.text;
+          }
+          break;
+      }
+    }
+    if (line) {
+      lines.push(line);
+    }
+  }
+
+  return lines.join("\n").trim();
+}
+
+/**
+ * 构建媒体消息的正文描述
+ */
+export function buildFeishuResourceContextMessage(resource: FeishuMessageResource): string {
+  switch (resource.kind) {
+    case "image":
+      return "[图片]";
+    case "audio":
+      return "[语音消息]";
+    case "media":
+      return resource.fileName ? `[视频: ${resource.fileName}]` : "[视频]";
+    case "file":
+      return `[文件: ${resource.fileName ?? "未知文件"}]`;
+    default:
+      return "[附件]";
+  }
+}
+
+/**
+ * 下载消息资源参数
+ */
+export interface DownloadFeishuMessageResourceParams {
+  cfg: FeishuAccountConfig;
+  /** 资源所属消息 ID */
+  messageId: string;
+  /** 资源描述 */
+  resource: FeishuMessageResource;
+  /** 日志 */
+  log?: Logger;
+  /** 自定义 fetch（测试用） */
+  fetch?: typeof globalThis.fetch;
+}
+
+/**
+ * 通过消息资源 API 下载单个资源到临时目录
+ *
+ * 图片使用 type=image，文件/语音/视频使用 type=file。
+ *
+ * @throws FileSizeLimitError 超过 maxFileSizeMB
+ * @throws MediaTimeoutError 下载超时
+ */
+export async function downloadFeishuMessageResource(
+  params: DownloadFeishuMessageResourceParams
+): Promise<DownloadedFeishuResource> {
+  const { cfg, messageId, resource, log } = params;
+  const client = createFeishuClientFromConfig(cfg) as unknown as {
+    domain?: string;
+    tokenManager?: { getTenantAccessToken: () => Promise<string> };
+  };
+
+  const tokenManager = client.tokenManager;
+  if (!tokenManager?.getTenantAccessToken) {
+    throw new Error("Feishu token manager not available for resource download");
+  }
+
+  const token = await tokenManager.getTenantAccessToken();
+  const domain = client.domain ?? "https://open.feishu.cn";
+  const resourceType = resource.kind === "image" ? "image" : "file";
+  const url =
+    `${domain}/open-apis/im/v1/messages/${encodeURIComponent(messageId)}` +
+    `/resources/${encodeURIComponent(resource.key)}?type=${resourceType}`;
+
+  const baseFetch = params.fetch ?? globalThis.fetch;
+  const authorizedFetch: typeof globalThis.fetch = (input, init) =>
+    baseFetch(input, {
+      ...init,
+      headers: {
+        ...(init?.headers as Record<string, string> | undefined),
+        Authorization: `Bearer ${token}`,
+      },
+    });
+
+  const maxFileSizeMB = cfg.maxFileSizeMB ?? DEFAULT_MAX_FILE_SIZE_MB;
+  log?.debug?.(`downloading ${resource.kind} resource ${resource.key.slice(0, 16)}...`);
+
+  const downloaded = await downloadToTempFile(url, {
+    timeout: DOWNLOAD_TIMEOUT,
+    maxSize: Math.floor(maxFileSizeMB * 1024 * 1024),
+    sourceFileName: resource.fileName ?? (resource.kind === "audio" ? "audio.opus" : undefined),
+    tempPrefix: `feishu-${resource.kind}`,
+    tempDir: resolveInboundMediaTempDir(),
+    fetch: authorizedFetch,
+  });
+
+  log?.debug?.(`resource saved to: ${downloaded.path} (${downloaded.size} bytes)`);
+
+  return {
+    key: resource.key,
+    kind: resource.kind,
+    path: downloaded.path,
+    contentType: downloaded.contentType,
+    size: downloaded.size,
+    fileName: resource.fileName,
+  };
+}
+
+/**
+ * 按顺序下载消息中的全部资源
+ *
+ * 逐个下载以避免触发频率限制；单个资源失败时记录警告并继续。
+ *
+ * @returns 成功下载的资源（可能少于输入）
+ */
+export async function downloadFeishuMessageResources(params: {
+  cfg: FeishuAccountConfig;
+  messageId: string;
+  resources: FeishuMessageResource[];
+  log?: Logger;
+  fetch?: typeof globalThis.fetch;
+}): Promise<DownloadedFeishuResource[]> {
+  const { resources, log } = params;
+  const results: DownloadedFeishuResource[] = [];
+  const total = resources.length;
+
+  for (let i = 0; i < total; i++) {
+    const resource = resources[i];
+    try {
+      results.push(
+        await downloadFeishuMessageResource({
+          cfg: params.cfg,
+          messageId: params.messageId,
+          resource,
+          log,
+          fetch: params.fetch,
+        })
+      );
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      log?.warn?.(`failed to download ${resource.kind} ${i + 1}/${total}: ${errorMessage}`);
+    }
+  }
+
+  return results;
+}
@@ -3,17 +3,18 @@
  */
 
 import { sendFileFeishu, sendImageFeishu, sendMarkdownCardFeishu, sendMessageFeishu } from "./send.js";
-import { getFeishuRuntime } from "./runtime.js";
-import type { FeishuConfig } from "./types.js";
-import { FeishuConfigSchema } from "./config.js";
-import { extractFilesFromText, extractImagesFromText, isHttpUrl, isImagePath, normalizeLocalPath } from "@openclaw-china/shared";
+import { mergeFeishuAccountConfig, resolveFeishuAccountId, type PluginConfig } from "./config.js";
+import {
+  chunkMarkdownText,
+  extractFilesFromText,
+  extractImagesFromText,
+  isHttpUrl,
+  isImagePath,
+  normalizeLocalPath,
+} from "@openclaw-china/shared";
 import * as fs from "node:fs";
 
-export interface OutboundConfig {
-  channels?: {
-    "feishu-china"?: FeishuConfig;
-  };
-}
+export type OutboundConfig = PluginConfig;
 
 export interface SendResult {
   channel: string;
@@ -41,27 +42,20 @@ export const feishuOutbound = {
   textChunkLimit: 4000,
   chunkerMode: "markdown" as const,
 
-  chunker: (text: string, limit: number): string[] => {
-    try {
-      const runtime = getFeishuRuntime();
-      if (runtime.channel?.text?.chunkMarkdownText) {
-        return runtime.channel.text.chunkMarkdownText(text, limit);
-      }
-    } catch {
-      // runtime 未初始化，返回原文
-    }
-    return [text];
-  },
+  chunker: (text: string, limit: number): string[] => chunkMarkdownText(text, { limit }),
 
-  sendText: async (params: { cfg: OutboundConfig; to: string; text: string }): Promise<SendResult> => {
-    const { cfg, to, text } = params;
+  sendText: async (params: {
+    cfg: OutboundConfig;
+    to: string;
+    text: string;
+    accountId?: string;
+  }): Promise<SendResult> => {
+    const { cfg, to, text, accountId } = params;
 
-    const rawFeishuCfg = cfg.channels?.["feishu-china"];
-    const parsedCfg = rawFeishuCfg ? FeishuConfigSchema.safeParse(rawFeishuCfg) : null;
-    const feishuCfg = parsedCfg?.success ? parsedCfg.data : rawFeishuCfg;
-    if (!feishuCfg) {
+    if (!cfg.channels?.["feishu-china"]) {
       throw new Error("Feishu channel not configured");
     }
+    const feishuCfg = mergeFeishuAccountConfig(cfg, resolveFeishuAccountId(cfg, accountId));
 
     const { targetId, receiveIdType } = parseTarget(to);
 
@@ -173,13 +167,14 @@ export const feishuOutbound = {
     to: string;
     text?: string;
     mediaUrl?: string;
+    accountId?: string;
   }): Promise<SendResult> => {
-    const { cfg, to, text, mediaUrl } = params;
+    const { cfg, to, text, mediaUrl, accountId } = params;
 
-    const feishuCfg = cfg.channels?.["feishu-china"];
-    if (!feishuCfg) {
+    if (!cfg.channels?.["feishu-china"]) {
       throw new Error("Feishu channel not configured");
     }
+    const feishuCfg = mergeFeishuAccountConfig(cfg, resolveFeishuAccountId(cfg, accountId));
 
     const { targetId, receiveIdType } = parseTarget(to);
 
@@ -2,7 +2,7 @@
  * 飞书发送消息
  */
 
-import type { FeishuConfig } from "./config.js";
+import type { FeishuAccountConfig } from "./config.js";
 import type { FeishuSendResult } from "./types.js";
 import { createFeishuClientFromConfig } from "./client.js";
 import * as fsPromises from "fs/promises";
@@ -19,21 +19,21 @@ import {
 } from "@openclaw-china/shared";
 
 export interface SendMessageParams {
-  cfg: FeishuConfig;
+  cfg: FeishuAccountConfig;
   to: string;
   text: string;
   receiveIdType?: "chat_id" | "open_id";
 }
 
 export interface SendMediaParams {
-  cfg: FeishuConfig;
+  cfg: FeishuAccountConfig;
   to: string;
   mediaUrl: string;
   receiveIdType?: "chat_id" | "open_id";
 }
 
 export interface SendFileParams {
-  cfg: FeishuConfig;
+  cfg: FeishuAccountConfig;
   to: string;
   mediaUrl: string;
   receiveIdType?: "chat_id" | "open_id";
@@ -68,7 +68,7 @@ export async function sendMessageFeishu(params: SendMessageParams): Promise<Feis
 }
 
 export interface SendCardParams {
-  cfg: FeishuConfig;
+  cfg: FeishuAccountConfig;
   to: string;
   card: Record<string, unknown>;
   receiveIdType?: "chat_id" | "open_id";
@@ -244,7 +244,7 @@ function readLocalFileStream(localPath: string): { stream: fs.ReadStream; fileNa
 }
 
 async function uploadFeishuImage(params: {
-  cfg: FeishuConfig;
+  cfg: FeishuAccountConfig;
   buffer: Buffer;
   fileName: string;
 }): Promise<string> {
@@ -319,7 +319,7 @@ function resolveFeishuFileType(fileName: string): "opus" | "mp4" | "pdf" | "doc"
 }
 
 async function uploadFeishuFile(params: {
-  cfg: FeishuConfig;
+  cfg: FeishuAccountConfig;
   file: Buffer | fs.ReadStream | Readable;
   fileName: string;
 }): Promise<string> {
@@ -404,7 +404,7 @@ function nextImageMatch(text: string, fromIndex: number): ImageMatch | null {
 }
 
 async function buildMarkdownCardWithImages(params: {
-  cfg: FeishuConfig;
+  cfg: FeishuAccountConfig;
   text: string;
 }): Promise<Record<string, unknown>> {
   const { cfg, text } = params;
@@ -541,7 +541,7 @@ async function buildMarkdownCardWithImages(params: {
  * 参考钉钉的 processLocalImagesInMarkdown 实现
  */
 export async function processLocalImagesInMarkdown(
-  cfg: FeishuConfig,
+  cfg: FeishuAccountConfig,
   text: string
 ): Promise<string> {
   // 提取所有图片（包括 Markdown、HTML 和裸本地路径）
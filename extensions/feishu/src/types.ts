@@ -1,8 +1,9 @@
 // 飞书类型定义
 
-import type { FeishuConfig } from "./config.js";
+import type { FeishuAccountConfig, FeishuConfig } from "./config.js";
+import type { FeishuMessageResource, FeishuPostParseResult } from "./media.js";
 
-export type { FeishuConfig };
+export type { FeishuAccountConfig, FeishuConfig };
 
 export interface FeishuMention {
   key?: string;
@@ -52,6 +53,10 @@ export interface FeishuMessageContext {
   contentType: string;
   /** 是否 @提及了机器人 */
   mentionedBot: boolean;
+  /** 消息携带的可下载资源（image/file/audio/media/post 内嵌图片） */
+  resources?: FeishuMessageResource[];
+  /** post 富文本解析结果（仅 post 消息） */
+  post?: FeishuPostParseResult;
 }
 
 /**
@@ -71,6 +76,8 @@ export interface FeishuSendResult {
 export interface ResolvedFeishuAccount {
   /** 账户 ID */
   accountId: string;
+  /** 账户显示名称 */
+  name?: string;
   /** 是否启用 */
   enabled: boolean;
   /** 是否已配置（有凭证） */
@@ -0,0 +1,236 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import { Socket } from "node:net";
+import crypto from "node:crypto";
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { FeishuAccountConfig } from "./config.js";
+import { createLogger } from "./logger.js";
+import {
+  computeFeishuSignature,
+  decryptFeishuEncrypt,
+  handleFeishuWebhookRequest,
+  registerFeishuWebhookTarget,
+} from "./webhook.js";
+
+function createMockRequest(params: {
+  method: "GET" | "POST";
+  url: string;
+  body?: string;
+  headers?: Record<string, string>;
+}): IncomingMessage {
+  const req = new IncomingMessage(new Socket());
+  req.method = params.method;
+  req.url = params.url;
+  Object.assign(req.headers, params.headers ?? {});
+  if (params.body !== undefined) {
+    req.push(params.body);
+  }
+  req.push(null);
+  return req;
+}
+
+function createMockResponse(): ServerResponse & { _getData: () => string } {
+  const res = new ServerResponse(new IncomingMessage(new Socket()));
+  let data = "";
+  const mutableRes = res as unknown as { end: (chunk?: unknown) => ServerResponse };
+  mutableRes.end = (chunk?: unknown) => {
+    if (chunk) data += String(chunk);
+    return res;
+  };
+  return Object.assign(res, { _getData: () => data });
+}
+
+function encryptFeishu(plain: string, encryptKey: string): string {
+  const key = crypto.createHash("sha256").update(encryptKey).digest();
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv("aes-256-cbc", key, iv);
+  return Buffer.concat([iv, cipher.update(plain, "utf8"), cipher.final()]).toString("base64");
+}
+
+const logger = createLogger("feishu", { log: () => undefined, error: () => undefined });
+const unregisters: Array<() => void> = [];
+
+function register(account: Partial<FeishuAccountConfig>, onMessageEvent = vi.fn()) {
+  unregisters.push(
+    registerFeishuWebhookTarget({
+      accountId: "default",
+      account: { appId: "cli_a", appSecret: "s", ...account } as FeishuAccountConfig,
+      path: "/feishu",
+      logger,
+      onMessageEvent,
+    })
+  );
+  return onMessageEvent;
+}
+
+afterEach(() => {
+  while (unregisters.length) unregisters.pop()?.();
+});
+
+describe("feishu webhook", () => {
+  it("ignores unregistered paths", async () => {
+    const handled = await handleFeishuWebhookRequest(
+      createMockRequest({ method: "POST", url: "/other", body: "{}" }),
+      createMockResponse()
+    );
+    expect(handled).toBe(false);
+  });
+
+  it("answers plaintext url_verification when the token matches", async () => {
+    register({ verificationToken: "vt" });
+    const res = createMockResponse();
+    await handleFeishuWebhookRequest(
+      createMockRequest({
+        method: "POST",
+        url: "/feishu",
+        body: JSON.stringify({ type: "url_verification", challenge: "abc", token: "vt" }),
+      }),
+      res
+    );
+    expect(res.statusCode).toBe(200);
+    expect(JSON.parse(res._getData())).toEqual({ challenge: "abc" });
+  });
+
+  it("rejects requests with a wrong verification token", async () => {
+    const onMessageEvent = register({ verificationToken: "vt" });
+    const res = createMockResponse();
+    await handleFeishuWebhookRequest(
+      createMockRequest({
+        method: "POST",
+        url: "/feishu",
+        body: JSON.stringify({ schema: "2.0", header: { token: "bad", event_type: "im.message.receive_v1" }, event: {} }),
+      }),
+      res
+    );
+    expect(res.statusCode).toBe(401);
+    expect(onMessageEvent).not.toHaveBeenCalled();
+  });
+
+  it("decrypts, verifies signature and dispatches message events", async () => {
+    const onMessageEvent = register({ verificationToken: "vt", encryptKey: "ek" });
+    const event = { message: { message_id: "om_1", chat_id: "oc_1", message_type: "text" } };
+    const plain = JSON.stringify({
+      schema: "2.0",
+      header: { event_type: "im.message.receive_v1", token: "vt", app_id: "cli_a" },
+      event,
+    });
+    const body = JSON.stringify({ encrypt: encryptFeishu(plain, "ek") });
+    expect(decryptFeishuEncrypt(JSON.parse(body).encrypt, "ek")).toBe(plain);
+
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers = {
+      "x-lark-request-timestamp": timestamp,
+      "x-lark-request-nonce": "n1",
+      "x-lark-signature": computeFeishuSignature({ timestamp, nonce: "n1", encryptKey: "ek", body }),
+    };
+    const res = createMockResponse();
+    await handleFeishuWebhookRequest(createMockRequest({ method: "POST", url: "/feishu", body, headers }), res);
+    expect(res.statusCode).toBe(200);
+    expect(onMessageEvent).toHaveBeenCalledWith(event);
+
+    const badRes = createMockResponse();
+    await handleFeishuWebhookRequest(
+      createMockRequest({
+        method: "POST",
+        url: "/feishu",
+        body,
+        headers: { ...headers, "x-lark-signature": "deadbeef" },
+      }),
+      badRes
+    );
+    expect(badRes.statusCode).toBe(401);
+    expect(onMessageEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it("routes shared paths to the account matching app_id", async () => {
+    const first = register({ appId: "cli_a", verificationToken: "vt" });
+    const second = vi.fn();
+    unregisters.push(
+      registerFeishuWebhookTarget({
+        accountId: "work",
+        account: { appId: "cli_b", appSecret: "s", verificationToken: "vt" } as FeishuAccountConfig,
+        path: "/feishu/",
+        logger,
+        onMessageEvent: second,
+      })
+    );
+
+    await handleFeishuWebhookRequest(
+      createMockRequest({
+        method: "POST",
+        url: "/feishu",
+        body: JSON.stringify({
+          schema: "2.0",
+          header: { event_type: "im.message.receive_v1", app_id: "cli_b", token: "vt" },
+          event: { message: { message_id: "om_2" } },
+        }),
+      }),
+      createMockResponse()
+    );
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it("refuses to register an account without encryptKey or verificationToken", () => {
+    expect(() => register({})).toThrow(/encryptKey or verificationToken/);
+  });
+
+  it("rejects encrypted events without a signature header", async () => {
+    const onMessageEvent = register({ encryptKey: "ek" });
+    const plain = JSON.stringify({
+      schema: "2.0",
+      header: { event_type: "im.message.receive_v1", app_id: "cli_a" },
+      event: { message: { message_id: "om_3" } },
+    });
+    const res = createMockResponse();
+    await handleFeishuWebhookRequest(
+      createMockRequest({
+        method: "POST",
+        url: "/feishu",
+        body: JSON.stringify({ encrypt: encryptFeishu(plain, "ek") }),
+      }),
+      res
+    );
+    expect(res.statusCode).toBe(401);
+    expect(onMessageEvent).not.toHaveBeenCalled();
+  });
+
+  it("rejects signed events with a stale timestamp", async () => {
+    const onMessageEvent = register({ encryptKey: "ek" });
+    const plain = JSON.stringify({
+      schema: "2.0",
+      header: { event_type: "im.message.receive_v1", app_id: "cli_a" },
+      event: { message: { message_id: "om_4" } },
+    });
+    const body = JSON.stringify({ encrypt: encryptFeishu(plain, "ek") });
+    const timestamp = String(Math.floor(Date.now() / 1000) - 2 * 60 * 60);
+    const res = createMockResponse();
+    await handleFeishuWebhookRequest(
+      createMockRequest({
+        method: "POST",
+        url: "/feishu",
+        body,
+        headers: {
+          "x-lark-request-timestamp": timestamp,
+          "x-lark-request-nonce": "n1",
+          "x-lark-signature": computeFeishuSignature({ timestamp, nonce: "n1", encryptKey: "ek", body }),
+        },
+      }),
+      res
+    );
+    expect(res.statusCode).toBe(401);
+    expect(onMessageEvent).not.toHaveBeenCalled();
+  });
+
+  it("answers encrypted url_verification without signature headers", async () => {
+    register({ encryptKey: "ek" });
+    const body = JSON.stringify({
+      encrypt: encryptFeishu(JSON.stringify({ type: "url_verification", challenge: "xyz" }), "ek"),
+    });
+    const res = createMockResponse();
+    await handleFeishuWebhookRequest(createMockRequest({ method: "POST", url: "/feishu", body }), res);
+    expect(res.statusCode).toBe(200);
+    expect(JSON.parse(res._getData())).toEqual({ challenge: "xyz" });
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * 飞书事件订阅 webhook（HTTP 回调）
+ *
+ * 处理流程:
+ * 1. 按请求路径匹配已注册的账户
+ * 2. 配置了 Encrypt Key 时校验签名与时间戳并解密事件体
+ * 3. 校验 Verification Token / App ID
+ * 4. url_verification 返回 challenge；im.message.receive_v1 交给 gateway 分发
+ *
+ * 账户必须至少配置 Encrypt Key 或 Verification Token 之一，否则注册时直接报错，
+ * 避免任何人都能向回调地址伪造消息
+ *
+ * 文档: https://open.feishu.cn/document/server-docs/event-subscription-guide/event-subscription-configure-/request-url-configuration-case
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import crypto from "node:crypto";
+
+import type { FeishuAccountConfig } from "./config.js";
+import type { FeishuMessageEvent } from "./types.js";
+import type { Logger } from "./logger.js";
+
+/** 默认回调路径 */
+export const DEFAULT_FEISHU_WEBHOOK_PATH = "/feishu";
+
+/** 请求体大小上限 */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/** x-lark-request-timestamp 允许的最大偏差，防止重放 */
+const SIGN_TIMESTAMP_TOLERANCE_MS = 60 * 60 * 1000;
+
+export interface FeishuWebhookTarget {
+  /** 账户 ID */
+  accountId: string;
+  /** 合并后的账户配置 */
+  account: FeishuAccountConfig;
+  /** 回调路径 */
+  path: string;
+  /** 日志 */
+  logger: Logger;
+  /** 收到消息事件 */
+  onMessageEvent: (event: FeishuMessageEvent) => void;
+}
+
+interface FeishuEventPayload {
+  type?: string;
+  challenge?: string;
+  token?: string;
+  schema?: string;
+  header?: {
+    event_id?: string;
+    event_type?: string;
+    token?: string;
+    app_id?: string;
+  };
+  event?: Record<string, unknown>;
+}
+
+const webhookTargets = new Map<string, FeishuWebhookTarget[]>();
+
+function normalizeWebhookPath(raw: string): string {
+  const trimmed = raw.trim();
+  if (!trimmed) return "/";
+  const withSlash = trimmed.startsWith("/") ? trimmed : `/${trimmed}`;
+  if (withSlash.length > 1 && withSlash.endsWith("/")) return withSlash.slice(0, -1);
+  return withSlash;
+}
+
+export function resolveFeishuWebhookPath(account: FeishuAccountConfig | undefined): string {
+  return normalizeWebhookPath(account?.webhookPath?.trim() || DEFAULT_FEISHU_WEBHOOK_PATH);
+}
+
+/**
+ * 解密飞书加密事件体
+ *
+ * AES-256-CBC，密钥为 sha256(encryptKey)，密文前 16 字节为 IV。
+ */
+export function decryptFeishuEncrypt(encrypt: string, encryptKey: string): string {
+  const key = crypto.createHash("sha256").update(encryptKey).digest();
+  const buffer = Buffer.from(encrypt, "base64");
+  if (buffer.length <= 16) {
+    throw new Error("invalid encrypt payload");
+  }
+  const decipher = crypto.createDecipheriv("aes-256-cbc", key, buffer.subarray(0, 16));
+  const plain = Buffer.concat([decipher.update(buffer.subarray(16)), decipher.final()]);
+  return plain.toString("utf8");
+}
+
+/**
+ * 计算事件推送签名: sha256(timestamp + nonce + encryptKey + body)
+ */
+export function computeFeishuSignature(params: {
+  timestamp: string;
+  nonce: string;
+  encryptKey: string;
+  body: string;
+}): string {
+  const { timestamp, nonce, encryptKey, body } = params;
+  return crypto
+    .createHash("sha256")
+    .update(timestamp + nonce + encryptKey + body)
+    .digest("hex");
+}
+
+/**
+ * 校验推送签名与时间戳（timestamp 为秒）
+ */
+export function verifyFeishuSignature(params: {
+  timestamp: string;
+  nonce: string;
+  signature: string;
+  encryptKey: string;
+  body: string;
+  now?: number;
+}): boolean {
+  const { timestamp, nonce, signature, encryptKey, body, now = Date.now() } = params;
+  const ts = Number(timestamp);
+  if (!timestamp || !signature || !Number.isFinite(ts)) return false;
+  if (Math.abs(now - ts * 1000) > SIGN_TIMESTAMP_TOLERANCE_MS) return false;
+
+  const expected = Buffer.from(computeFeishuSignature({ timestamp, nonce, encryptKey, body }));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * 注册 webhook 回调目标
+ * @returns 注销函数
+ * @throws Error 如果账户既未配置 encryptKey 也未配置 verificationToken
+ */
+export function registerFeishuWebhookTarget(target: FeishuWebhookTarget): () => void {
+  if (!target.account.encryptKey && !target.account.verificationToken) {
+    throw new Error(
+      `Feishu webhook for account ${target.accountId} requires encryptKey or verificationToken`
+    );
+  }
+  const key = normalizeWebhookPath(target.path);
+  const normalizedTarget = { ...target, path: key };
+  const existing = webhookTargets.get(key) ?? [];
+  webhookTargets.set(key, [...existing, normalizedTarget]);
+  return () => {
+    const updated = (webhookTargets.get(key) ?? []).filter((entry) => entry !== normalizedTarget);
+    if (updated.length > 0) webhookTargets.set(key, updated);
+    else webhookTargets.delete(key);
+  };
+}
+
+function resolvePath(req: IncomingMessage): string {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  return normalizeWebhookPath(url.pathname || "/");
+}
+
+function readHeader(req: IncomingMessage, name: string): string {
+  const value = req.headers[name];
+  return (Array.isArray(value) ? value[0] : value)?.trim() ?? "";
+}
+
+async function readRequestBody(
+  req: IncomingMessage,
+  maxBytes: number
+): Promise<{ ok: boolean; raw?: string; error?: string }> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+  return await new Promise((resolve) => {
+    req.on("data", (chunk: Buffer) => {
+      total += chunk.length;
+      if (total > maxBytes) {
+        resolve({ ok: false, error: "payload too large" });
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      const raw = Buffer.concat(chunks).toString("utf8");
+      if (!raw.trim()) {
+        resolve({ ok: false, error: "empty payload" });
+        return;
+      }
+      resolve({ ok: true, raw });
+    });
+    req.on("error", (err) => {
+      resolve({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    });
+  });
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+  res.statusCode = statusCode;
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * 使用指定账户配置解析并校验请求
+ *
+ * @returns 校验通过的事件体；不属于该账户时返回 null
+ */
+function resolvePayloadForTarget(params: {
+  target: FeishuWebhookTarget;
+  req: IncomingMessage;
+  raw: string;
+  body: Record<string, unknown>;
+}): FeishuEventPayload | null {
+  const { target, req, raw, body } = params;
+  const { encryptKey, verificationToken, appId } = target.account;
+  if (!encryptKey && !verificationToken) return null;
+
+  let payload: FeishuEventPayload;
+  if (typeof body.encrypt === "string") {
+    if (!encryptKey) return null;
+
+    try {
+      payload = JSON.parse(decryptFeishuEncrypt(body.encrypt, encryptKey)) as FeishuEventPayload;
+    } catch {
+      return null;
+    }
+
+    // 配置地址时的 url_verification 不带签名头，只回显 challenge；其余事件必须签名
+    if (payload.type !== "url_verification") {
+      const verified = verifyFeishuSignature({
+        timestamp: readHeader(req, "x-lark-request-timestamp"),
+        nonce: readHeader(req, "x-lark-request-nonce"),
+        signature: readHeader(req, "x-lark-signature"),
+        encryptKey,
+        body: raw,
+      });
+      if (!verified) return null;
+    }
+  } else {
+    if (encryptKey) return null;
+    payload = body as FeishuEventPayload;
+  }
+
+  const token = payload.header?.token ?? payload.token;
+  if (verificationToken && token !== verificationToken) return null;
+
+  const payloadAppId = payload.header?.app_id;
+  if (payloadAppId && appId && payloadAppId !== appId) return null;
+
+  return payload;
+}
+
+/**
+ * 处理飞书 webhook 请求
+ * @returns 是否已处理该请求（路径未注册时返回 false）
+ */
+export async function handleFeishuWebhookRequest(
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<boolean> {
+  const path = resolvePath(req);
+  const targets = webhookTargets.get(path);
+  if (!targets || targets.length === 0) return false;
+
+  if (req.method !== "POST") {
+    res.statusCode = 405;
+    res.setHeader("Allow", "POST");
+    res.end("Method Not Allowed");
+    return true;
+  }
+
+  const bodyResult = await readRequestBody(req, MAX_BODY_BYTES);
+  if (!bodyResult.ok || !bodyResult.raw) {
+    res.statusCode = bodyResult.error === "payload too large" ? 413 : 400;
+    res.end(bodyResult.error ?? "invalid payload");
+    return true;
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    const parsed = JSON.parse(bodyResult.raw) as unknown;
+    if (!parsed || typeof parsed !== "object") throw new Error("not an object");
+    body = parsed as Record<string, unknown>;
+  } catch {
+    res.statusCode = 400;
+    res.end("invalid json");
+    return true;
+  }
+
+  let matched: { target: FeishuWebhookTarget; payload: FeishuEventPayload } | undefined;
+  for (const target of targets) {
+    const payload = resolvePayloadForTarget({ target, req, raw: bodyResult.raw, body });
+    if (payload) {
+      matched = { target, payload };
+      break;
+    }
+  }
+
+  if (!matched) {
+    targets[0]?.logger.warn(`webhook request on ${path} rejected: no account matched token/signature`);
+    res.statusCode = 401;
+    res.end("unauthorized");
+    return true;
+  }
+
+  const { target, payload } = matched;
+
+  if (payload.type === "url_verification") {
+    target.logger.info(`webhook url_verification for account ${target.accountId}`);
+    sendJson(res, 200, { challenge: payload.challenge ?? "" });
+    return true;
+  }
+
+  const eventType = payload.header?.event_type ?? (payload.event?.type as string | undefined);
+  if (eventType === "im.message.receive_v1" && payload.event) {
+    target.onMessageEvent(payload.event as FeishuMessageEvent);
+  } else {
+    target.logger.debug(`ignoring webhook event ${eventType ?? "unknown"} for account ${target.accountId}`);
+  }
+
+  sendJson(res, 200, {});
+  return true;
+}
@@ -6,11 +6,13 @@ const outboundMocks = vi.hoisted(() => ({
   sendTyping: vi.fn(),
   sendText: vi.fn(),
   sendMedia: vi.fn(),
+  acknowledgeInteraction: vi.fn(),
 }));
 
 const proactiveMocks = vi.hoisted(() => ({
   getKnownQQBotTarget: vi.fn(),
   upsertKnownQQBotTarget: vi.fn(),
+  removeKnownQQBotTarget: vi.fn(),
 }));
 
 vi.mock("./outbound.js", () => ({
@@ -18,12 +20,14 @@ vi.mock("./outbound.js", () => ({
     sendTyping: outboundMocks.sendTyping,
     sendText: outboundMocks.sendText,
     sendMedia: outboundMocks.sendMedia,
+    acknowledgeInteraction: outboundMocks.acknowledgeInteraction,
   },
 }));
 
 vi.mock("./proactive.js", () => ({
   getKnownQQBotTarget: proactiveMocks.getKnownQQBotTarget,
   upsertKnownQQBotTarget: proactiveMocks.upsertKnownQQBotTarget,
+  removeKnownQQBotTarget: proactiveMocks.removeKnownQQBotTarget,
 }));
 
 function createLogger() {
@@ -120,6 +124,7 @@ describe("QQBot inbound known-target recording", () => {
     outboundMocks.sendTyping.mockResolvedValue({ channel: "qqbot" });
     outboundMocks.sendText.mockResolvedValue({ channel: "qqbot", messageId: "m-1", timestamp: 1 });
     outboundMocks.sendMedia.mockResolvedValue({ channel: "qqbot", messageId: "m-2", timestamp: 2 });
+    outboundMocks.acknowledgeInteraction.mockResolvedValue({ channel: "qqbot" });
     proactiveMocks.getKnownQQBotTarget.mockReturnValue(undefined);
     setQQBotRuntime({
       channel: {
@@ -431,6 +436,48 @@ describe("QQBot inbound known-target recording", () => {
     expect(proactiveMocks.upsertKnownQQBotTarget).not.toHaveBeenCalled();
   });
 
+  it("acknowledges button clicks rejected by policy with a permission code", async () => {
+    const logger = createLogger();
+    const interaction = (id: string, userOpenid: string) => ({
+      id,
+      chat_type: 2,
+      user_openid: userOpenid,
+      data: { resolved: { button_data: "plan:pro" } },
+    });
+    const cfg = {
+      channels: {
+        qqbot: {
+          ...baseCfg.channels.qqbot,
+          dmPolicy: "allowlist" as const,
+          allowFrom: ["u-allowed"],
+        },
+      },
+    };
+
+    await handleQQBotDispatch({
+      eventType: "INTERACTION_CREATE",
+      eventData: interaction("itr-blocked", "u-blocked"),
+      cfg,
+      accountId: "default",
+      logger,
+    });
+    expect(outboundMocks.acknowledgeInteraction).toHaveBeenLastCalledWith(
+      expect.objectContaining({ interactionId: "itr-blocked", code: 4 })
+    );
+    expect(proactiveMocks.upsertKnownQQBotTarget).not.toHaveBeenCalled();
+
+    await handleQQBotDispatch({
+      eventType: "INTERACTION_CREATE",
+      eventData: interaction("itr-allowed", "u-allowed"),
+      cfg,
+      accountId: "default",
+      logger,
+    });
+    expect(outboundMocks.acknowledgeInteraction).toHaveBeenLastCalledWith(
+      expect.objectContaining({ interactionId: "itr-allowed", code: 0 })
+    );
+  });
+
   it("does not record DIRECT_MESSAGE_CREATE events into known targets", async () => {
     const logger = createLogger();
 
@@ -1354,3 +1401,104 @@ describe("QQBot direct session isolation", () => {
     expect(dispatchCtx.OriginatingTo).toBe("group:g-finalized");
   });
 });
+
+describe("QQBot lifecycle events", () => {
+  const enqueueSystemEvent = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    outboundMocks.sendText.mockResolvedValue({ channel: "qqbot", messageId: "m-1", timestamp: 1 });
+    proactiveMocks.removeKnownQQBotTarget.mockReturnValue(true);
+    setQQBotRuntime({
+      channel: {
+        routing: {
+          resolveAgentRoute: (input: { accountId?: string; peer: { kind: string; id: string } }) => ({
+            sessionKey: `agent:main:qqbot:${input.peer.kind === "dm" ? "direct" : input.peer.kind}:${input.peer.id}`,
+            accountId: input.accountId ?? "default",
+            agentId: "main",
+          }),
+        },
+      },
+      system: { enqueueSystemEvent },
+    });
+  });
+
+  afterEach(() => {
+    clearQQBotRuntime();
+  });
+
+  it("records the group, sends the welcome message and notifies the agent when added", async () => {
+    await handleQQBotDispatch({
+      eventType: "GROUP_ADD_ROBOT",
+      eventData: { timestamp: 1700000000, group_openid: "G-1", op_member_openid: "OP-1" },
+      eventId: "GROUP_ADD_ROBOT:evt-1",
+      cfg: {
+        channels: {
+          qqbot: { ...baseCfg.channels.qqbot, welcomeMessage: { group: "大家好，@我即可提问" } },
+        },
+      },
+      accountId: "default",
+      logger: createLogger(),
+    });
+
+    expect(proactiveMocks.upsertKnownQQBotTarget).toHaveBeenCalledWith({
+      target: {
+        accountId: "default",
+        kind: "group",
+        target: "group:G-1",
+        sourceChatType: "group",
+        firstSeenAt: 1700000000000,
+        lastSeenAt: 1700000000000,
+      },
+    });
+    expect(outboundMocks.sendText).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: "group:G-1",
+        text: "大家好，@我即可提问",
+        replyEventId: "GROUP_ADD_ROBOT:evt-1",
+      })
+    );
+    expect(enqueueSystemEvent).toHaveBeenCalledWith("QQ 机器人被加入群 G-1（操作人 OP-1）", {
+      sessionKey: "agent:main:qqbot:group:group:g-1",
+      contextKey: "qqbot:group_add_robot:G-1",
+    });
+  });
+
+  it("forgets groups that removed the bot or rejected proactive messages", async () => {
+    for (const eventType of ["GROUP_DEL_ROBOT", "GROUP_MSG_REJECT"]) {
+      await handleQQBotDispatch({
+        eventType,
+        eventData: { timestamp: 1700000000, group_openid: "G-2", op_member_openid: "OP-2" },
+        cfg: baseCfg,
+        accountId: "default",
+        logger: createLogger(),
+      });
+    }
+
+    expect(proactiveMocks.removeKnownQQBotTarget).toHaveBeenCalledTimes(2);
+    expect(proactiveMocks.removeKnownQQBotTarget).toHaveBeenCalledWith({
+      accountId: "default",
+      target: "group:G-2",
+    });
+    expect(outboundMocks.sendText).not.toHaveBeenCalled();
+  });
+
+  it("tracks friend add and delete in the direct session", async () => {
+    await handleQQBotDispatch({
+      eventType: "FRIEND_DEL",
+      eventData: { timestamp: 1700000000, openid: "U-1" },
+      cfg: baseCfg,
+      accountId: "default",
+      logger: createLogger(),
+    });
+
+    expect(proactiveMocks.removeKnownQQBotTarget).toHaveBeenCalledWith({
+      accountId: "default",
+      target: "user:U-1",
+    });
+    expect(enqueueSystemEvent).toHaveBeenCalledWith(
+      "QQ 用户 U-1 删除了机器人好友，已停止向其发送主动消息",
+      expect.objectContaining({ sessionKey: "agent:main:qqbot:dm:default:u-1" })
+    );
+  });
+});
@@ -3,14 +3,25 @@
  */
 
 import {
+  applyGroupHistoryToContext,
+  buildGroupHistoryKey,
   checkDmPolicy,
   checkGroupPolicy,
+  chunkMarkdownText,
   cleanupFileSafe,
+  createGroupHistoryBuffer,
   createLogger,
   downloadToTempFile,
   type ExtractedMedia,
   finalizeInboundMediaFile,
   fetchMediaFromUrl,
+  hasMarkdownBlockStructure,
+  hasMarkdownTable,
+  isMarkdownTableStart,
+  joinMarkdownPieces,
+  looksLikeStructuredMarkdown,
+  parseMarkdownTableRowCells,
+  resolveChunkSoftLimit,
   type Logger,
   appendCronHiddenPrompt,
   ASRError,
@@ -19,11 +30,14 @@ import {
   isImagePath,
   isLocalReference,
   pruneInboundMediaDir,
+  resolveGroupHistoryLimit,
+  resolvePairingChallenge,
   stripTitleFromUrl,
   transcribeTencentFlash,
 } from "@openclaw-china/shared";
 import {
   DEFAULT_QQBOT_C2C_MARKDOWN_SAFE_CHUNK_BYTE_LIMIT,
+  DEFAULT_QQBOT_HISTORY_LIMIT,
   resolveQQBotASRCredentials,
   resolveInboundMediaDir,
   resolveInboundMediaKeepDays,
@@ -46,6 +60,22 @@ import {
   isQQBotHttpImageUrl,
   normalizeQQBotMarkdownImages,
 } from "./markdown-images.js";
+import {
+  buildQQBotKeyboardPayload,
+  extractQQBotKeyboard,
+  formatQQBotKeyboardFallbackText,
+  parseQQBotInteractionEvent,
+  resolveQQBotKeyboardPrompt,
+  type QQBotKeyboard,
+} from "./keyboard.js";
+import {
+  applyQQBotLifecycleEventToKnownTargets,
+  formatQQBotLifecycleSystemEvent,
+  parseQQBotLifecycleEvent,
+  resolveQQBotLifecycleTarget,
+  resolveQQBotWelcomeMessage,
+  type QQBotLifecycleEvent,
+} from "./lifecycle.js";
 import { qqbotOutbound } from "./outbound.js";
 import {
   getKnownQQBotTarget,
@@ -107,6 +137,8 @@ type SessionDispatchState = {
 };
 
 const sessionDispatchQueue = new Map<string, SessionDispatchState>();
+/** 群聊中未 @ 机器人的最近消息，被 @ 时作为上下文注入 */
+const groupHistory = createGroupHistoryBuffer();
 const QQBOT_ABORT_TRIGGERS = new Set([
   "stop",
   "esc",
@@ -1163,6 +1195,8 @@ function resolveInbound(eventType: string, data: unknown, fallbackEventId?: stri
       return parseChannelMessage(data, fallbackEventId);
     case "DIRECT_MESSAGE_CREATE":
       return parseDirectMessage(data, fallbackEventId);
+    case "INTERACTION_CREATE":
+      return parseQQBotInteractionEvent(data);
     default:
       return null;
   }
@@ -1416,35 +1450,9 @@ const VOICE_EMOTION_TAG_RE =
   /\[(?:happy|excited|calm|sad|angry|frustrated|softly|whispers|loudly|cheerfully|deadpan|sarcastically|laughs|sighs|chuckles|gasps|pause|slowly|rushed|hesitates|playfully|warmly|gently)\]/gi;
 const TTS_LIKE_RAW_TEXT_RE =
   /\[\[\s*(?:tts(?::text)?|\/tts(?::text)?|audio_as_voice|reply_to_current|reply_to\s*:)/i;
-const MARKDOWN_TABLE_SEPARATOR_RE = /^\|?(?:\s*:?-{3,}:?\s*\|)+(?:\s*:?-{3,}:?)?\|?$/;
-const MARKDOWN_THEMATIC_BREAK_RE = /^\s{0,3}(?:(?:-\s*){3,}|(?:_\s*){3,}|(?:\*\s*){3,})$/;
-const MARKDOWN_ATX_HEADING_RE = /^\s{0,3}#{1,6}\s+\S/;
-const MARKDOWN_BLOCKQUOTE_RE = /^\s{0,3}>\s?/;
-const MARKDOWN_FENCE_RE = /^\s*(`{3,}|~{3,})(.*)$/;
-const MARKDOWN_LIST_ITEM_RE = /^\s*(?:[-+*]|\d+\.)\s+/;
-const MARKDOWN_LIST_CONTINUATION_RE = /^\s{2,}\S/;
-const MARKDOWN_INLINE_STRUCTURE_RE = /(?:\*\*[^*\n]+\*\*|__[^_\n]+__|`[^`\n]+`|~~[^~\n]+~~|\*[^*\n]+\*)/;
-const MARKDOWN_BOUNDARY_GUARD_RE = /[`*_~|]/;
 const EXPLICIT_MARKDOWN_FENCE_RE = /(^|\n)(`{3,}|~{3,})\s*(?:markdown|md)\s*\n([\s\S]*?)\n\2(?=\n|$)/gi;
 const GENERIC_MARKDOWN_FENCE_RE = /(^|\n)(`{3,}|~{3,})\s*\n([\s\S]*?)\n\2(?=\n|$)/g;
 const QQBOT_MARKDOWN_SOFT_LIMIT_THRESHOLD = 128;
-const QQBOT_MARKDOWN_SOFT_LIMIT_HEADROOM_MIN = 16;
-const QQBOT_MARKDOWN_SOFT_LIMIT_HEADROOM_MAX = 320;
-const QQBOT_MARKDOWN_SOFT_LIMIT_HEADROOM_RATIO = 0.18;
-
-type QQBotMarkdownBlockKind =
-  | "heading"
-  | "paragraph"
-  | "list"
-  | "blockquote"
-  | "table"
-  | "code"
-  | "thematic-break";
-
-type QQBotMarkdownBlock = {
-  kind: QQBotMarkdownBlockKind;
-  text: string;
-};
 
 function extractFinalBlocks(text: string): string | undefined {
   const matches = Array.from(text.matchAll(FINAL_BLOCK_RE));
@@ -1573,23 +1581,7 @@ function splitQQBotMarkdownTransportMediaUrls(mediaUrls: string[]): {
   return { markdownImageUrls, mediaQueue };
 }
 
-export function hasQQBotMarkdownTable(text: string): boolean {
-  const lines = text.replace(/\r\n/g, "\n").split("\n");
-  for (let index = 0; index < lines.length - 1; index += 1) {
-    const header = lines[index]?.trim() ?? "";
-    const separator = lines[index + 1]?.trim() ?? "";
-    if (!header.includes("|") || !MARKDOWN_TABLE_SEPARATOR_RE.test(separator)) {
-      continue;
-    }
-
-    const headerColumns = header.split("|").filter((column) => column.trim()).length;
-    const separatorColumns = separator.split("|").filter((column) => column.trim()).length;
-    if (headerColumns >= 2 && separatorColumns >= 2) {
-      return true;
-    }
-  }
-  return false;
-}
+export const hasQQBotMarkdownTable = hasMarkdownTable;
 
 export function resolveQQBotTextReplyRefs(params: {
   to: string;
@@ -1664,13 +1656,13 @@ function resolveQQBotFirstNonEmptyLine(text: string): string | undefined {
 function resolveQQBotTrailingMarkdownTableColumnCount(text: string): number | undefined {
   const lines = text.split("\n");
   for (let index = Math.max(0, lines.length - 2); index >= 0; index -= 1) {
-    if (!isQQBotMarkdownTableStart(lines, index)) {
+    if (!isMarkdownTableStart(lines, index)) {
       continue;
     }
 
     const trailingLines = lines.slice(index + 2).filter((line) => line.trim().length > 0);
     if (trailingLines.length === 0 || trailingLines.every((line) => line.includes("|"))) {
-      return parseQQBotMarkdownTableRowCells(lines[index] ?? "").length;
+      return parseMarkdownTableRowCells(lines[index] ?? "").length;
     }
   }
 
@@ -1727,7 +1719,7 @@ function mergeQQBotBufferedTextSegments(current: string, next: string): string {
     return `${currentTrimmed}${sameRowJoiner}${nextTrimmed}`;
   }
 
-  return joinQQBotMarkdownPieces([currentTrimmed, nextTrimmed]);
+  return joinMarkdownPieces([currentTrimmed, nextTrimmed]);
 }
 
 export function combineQQBotBufferedText(bufferedTexts: string[]): string {
@@ -1776,718 +1768,7 @@ export function normalizeQQBotRenderedMarkdown(text: string): string {
   return changed ? next.trim() : text.trim();
 }
 
-function normalizeQQBotMarkdownSegment(text: string): string {
-  return text.replace(/\r\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
-}
-
-function isBlankQQBotMarkdownLine(line: string): boolean {
-  return line.trim().length === 0;
-}
-
-function resolveQQBotFenceDelimiter(line: string): string | undefined {
-  const match = line.match(MARKDOWN_FENCE_RE);
-  return match?.[1];
-}
-
-function isQQBotFenceClosingLine(line: string, delimiter: string): boolean {
-  const escapedDelimiter = delimiter.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-  const closingRe = new RegExp(`^\\s*${escapedDelimiter}${delimiter[0]}*\\s*$`);
-  return closingRe.test(line);
-}
-
-function joinQQBotMarkdownPieces(parts: string[]): string {
-  return parts.filter(Boolean).join("\n\n").trim();
-}
-
-function isQQBotMarkdownTableStart(lines: string[], index: number): boolean {
-  const header = lines[index]?.trim() ?? "";
-  const separator = lines[index + 1]?.trim() ?? "";
-  return Boolean(header.includes("|") && MARKDOWN_TABLE_SEPARATOR_RE.test(separator));
-}
-
-function collectQQBotFencedCodeBlock(
-  lines: string[],
-  startIndex: number
-): { block: QQBotMarkdownBlock; nextIndex: number } {
-  const openingLine = lines[startIndex] ?? "";
-  const delimiter = resolveQQBotFenceDelimiter(openingLine) ?? "```";
-  let index = startIndex + 1;
-  while (index < lines.length) {
-    if (isQQBotFenceClosingLine(lines[index] ?? "", delimiter)) {
-      index += 1;
-      break;
-    }
-    index += 1;
-  }
-
-  return {
-    block: {
-      kind: "code",
-      text: lines.slice(startIndex, index).join("\n").trimEnd(),
-    },
-    nextIndex: index,
-  };
-}
-
-function collectQQBotMarkdownTableBlock(
-  lines: string[],
-  startIndex: number
-): { block: QQBotMarkdownBlock; nextIndex: number } {
-  let index = startIndex + 2;
-  while (index < lines.length) {
-    const line = lines[index] ?? "";
-    if (isBlankQQBotMarkdownLine(line) || !line.includes("|")) {
-      break;
-    }
-    index += 1;
-  }
-
-  return {
-    block: {
-      kind: "table",
-      text: lines.slice(startIndex, index).join("\n").trimEnd(),
-    },
-    nextIndex: index,
-  };
-}
-
-function collectQQBotBlockquoteBlock(
-  lines: string[],
-  startIndex: number
-): { block: QQBotMarkdownBlock; nextIndex: number } {
-  const collected: string[] = [];
-  let index = startIndex;
-
-  while (index < lines.length) {
-    const line = lines[index] ?? "";
-    if (MARKDOWN_BLOCKQUOTE_RE.test(line)) {
-      collected.push(line);
-      index += 1;
-      continue;
-    }
-    if (
-      isBlankQQBotMarkdownLine(line) &&
-      index + 1 < lines.length &&
-      MARKDOWN_BLOCKQUOTE_RE.test(lines[index + 1] ?? "")
-    ) {
-      collected.push(line);
-      index += 1;
-      continue;
-    }
-    break;
-  }
-
-  return {
-    block: {
-      kind: "blockquote",
-      text: collected.join("\n").trimEnd(),
-    },
-    nextIndex: index,
-  };
-}
-
-function collectQQBotListBlock(
-  lines: string[],
-  startIndex: number
-): { block: QQBotMarkdownBlock; nextIndex: number } {
-  const collected: string[] = [];
-  let index = startIndex;
-
-  while (index < lines.length) {
-    const line = lines[index] ?? "";
-    if (isBlankQQBotMarkdownLine(line)) {
-      break;
-    }
-    if (
-      MARKDOWN_FENCE_RE.test(line) ||
-      MARKDOWN_BLOCKQUOTE_RE.test(line) ||
-      MARKDOWN_ATX_HEADING_RE.test(line) ||
-      MARKDOWN_THEMATIC_BREAK_RE.test(line) ||
-      isQQBotMarkdownTableStart(lines, index)
-    ) {
-      break;
-    }
-    if (
-      collected.length > 0 &&
-      !MARKDOWN_LIST_ITEM_RE.test(line) &&
-      !MARKDOWN_LIST_CONTINUATION_RE.test(line)
-    ) {
-      collected.push(line);
-      index += 1;
-      continue;
-    }
-
-    collected.push(line);
-    index += 1;
-  }
-
-  return {
-    block: {
-      kind: "list",
-      text: collected.join("\n").trimEnd(),
-    },
-    nextIndex: index,
-  };
-}
-
-function collectQQBotParagraphBlock(
-  lines: string[],
-  startIndex: number
-): { block: QQBotMarkdownBlock; nextIndex: number } {
-  const collected: string[] = [];
-  let index = startIndex;
-
-  while (index < lines.length) {
-    const line = lines[index] ?? "";
-    if (isBlankQQBotMarkdownLine(line)) {
-      break;
-    }
-    if (
-      collected.length > 0 &&
-      (MARKDOWN_FENCE_RE.test(line) ||
-        MARKDOWN_BLOCKQUOTE_RE.test(line) ||
-        MARKDOWN_ATX_HEADING_RE.test(line) ||
-        MARKDOWN_THEMATIC_BREAK_RE.test(line) ||
-        MARKDOWN_LIST_ITEM_RE.test(line) ||
-        isQQBotMarkdownTableStart(lines, index))
-    ) {
-      break;
-    }
-    collected.push(line);
-    index += 1;
-  }
-
-  return {
-    block: {
-      kind: "paragraph",
-      text: collected.join("\n").trimEnd(),
-    },
-    nextIndex: index,
-  };
-}
-
-function parseQQBotMarkdownBlocks(text: string): QQBotMarkdownBlock[] {
-  const lines = text.replace(/\r\n/g, "\n").split("\n");
-  const blocks: QQBotMarkdownBlock[] = [];
-  let index = 0;
-
-  while (index < lines.length) {
-    while (index < lines.length && isBlankQQBotMarkdownLine(lines[index] ?? "")) {
-      index += 1;
-    }
-    if (index >= lines.length) {
-      break;
-    }
-
-    const line = lines[index] ?? "";
-    if (MARKDOWN_FENCE_RE.test(line)) {
-      const result = collectQQBotFencedCodeBlock(lines, index);
-      blocks.push(result.block);
-      index = result.nextIndex;
-      continue;
-    }
-    if (isQQBotMarkdownTableStart(lines, index)) {
-      const result = collectQQBotMarkdownTableBlock(lines, index);
-      blocks.push(result.block);
-      index = result.nextIndex;
-      continue;
-    }
-    if (MARKDOWN_THEMATIC_BREAK_RE.test(line)) {
-      blocks.push({ kind: "thematic-break", text: line.trim() });
-      index += 1;
-      continue;
-    }
-    if (MARKDOWN_BLOCKQUOTE_RE.test(line)) {
-      const result = collectQQBotBlockquoteBlock(lines, index);
-      blocks.push(result.block);
-      index = result.nextIndex;
-      continue;
-    }
-    if (MARKDOWN_ATX_HEADING_RE.test(line)) {
-      blocks.push({ kind: "heading", text: line.trimEnd() });
-      index += 1;
-      continue;
-    }
-    if (MARKDOWN_LIST_ITEM_RE.test(line)) {
-      const result = collectQQBotListBlock(lines, index);
-      blocks.push(result.block);
-      index = result.nextIndex;
-      continue;
-    }
-
-    const result = collectQQBotParagraphBlock(lines, index);
-    blocks.push(result.block);
-    index = result.nextIndex;
-  }
-
-  return blocks;
-}
-
-function hasQQBotBoundaryGuard(text: string): boolean {
-  return MARKDOWN_BOUNDARY_GUARD_RE.test(text);
-}
-
-function measureQQBotUtf8Length(text: string): number {
-  return Buffer.byteLength(text, "utf8");
-}
-
-function findQQBotIndexWithinUtf8Limit(text: string, limit: number): number {
-  if (limit <= 0 || !text) {
-    return 0;
-  }
-
-  let totalBytes = 0;
-  let index = 0;
-
-  for (const char of text) {
-    const charBytes = measureQQBotUtf8Length(char);
-    if (totalBytes + charBytes > limit) {
-      break;
-    }
-    totalBytes += charBytes;
-    index += char.length;
-  }
-
-  return index;
-}
-
-function isQQBotSafeMarkdownBoundary(text: string, index: number): boolean {
-  const left = text.slice(Math.max(0, index - 3), index).replace(/\s+/g, "");
-  const right = text.slice(index, Math.min(text.length, index + 3)).replace(/\s+/g, "");
-  const leftEdge = left.slice(-1);
-  const rightEdge = right.slice(0, 1);
-  return !hasQQBotBoundaryGuard(leftEdge) && !hasQQBotBoundaryGuard(rightEdge);
-}
-
-function findQQBotRegexBoundary(text: string, limit: number, pattern: RegExp): number | undefined {
-  const scopedIndex = findQQBotIndexWithinUtf8Limit(text, limit);
-  const scopedText = text.slice(0, scopedIndex);
-  const regex = new RegExp(pattern.source, pattern.flags);
-  let match = regex.exec(scopedText);
-  let lastBoundary: number | undefined;
-
-  while (match) {
-    const boundary = match.index + match[0].length;
-    if (
-      boundary > 0 &&
-      measureQQBotUtf8Length(text.slice(0, boundary)) <= limit &&
-      isQQBotSafeMarkdownBoundary(text, boundary)
-    ) {
-      lastBoundary = boundary;
-    }
-    match = regex.exec(scopedText);
-  }
-
-  return lastBoundary;
-}
-
-function findQQBotFallbackBoundary(text: string, limit: number): number {
-  const maxIndex = findQQBotIndexWithinUtf8Limit(text, limit);
-  const minIndex = Math.max(1, maxIndex - 120);
-  for (let index = maxIndex; index >= minIndex; index -= 1) {
-    if (isQQBotSafeMarkdownBoundary(text, index)) {
-      return index;
-    }
-  }
-  return maxIndex;
-}
-
-function findQQBotSafeSplitIndex(text: string, limit: number): number {
-  const boundaryPatterns = [
-    /\n\n+/g,
-    /\n/g,
-    /[。！？.!?；;:：](?:\s+|$)/g,
-    /[,，](?:\s+|$)/g,
-    /\s+/g,
-  ];
-
-  for (const pattern of boundaryPatterns) {
-    const boundary = findQQBotRegexBoundary(text, limit, pattern);
-    if (boundary && boundary > 0) {
-      return boundary;
-    }
-  }
-
-  return findQQBotFallbackBoundary(text, limit);
-}
-
-function splitQQBotHardText(text: string, limit: number): string[] {
-  if (limit <= 0 || measureQQBotUtf8Length(text) <= limit) {
-    return [text];
-  }
-
-  const chunks: string[] = [];
-  let remaining = text;
-  while (measureQQBotUtf8Length(remaining) > limit) {
-    const nextIndex = Math.max(1, findQQBotIndexWithinUtf8Limit(remaining, limit));
-    chunks.push(remaining.slice(0, nextIndex));
-    remaining = remaining.slice(nextIndex);
-  }
-  if (remaining) {
-    chunks.push(remaining);
-  }
-  return chunks;
-}
-
-function splitQQBotTextSafely(
-  text: string,
-  limit: number,
-  options?: { trimLeading?: boolean; trimTrailing?: boolean }
-): string[] {
-  if (limit <= 0 || measureQQBotUtf8Length(text) <= limit) {
-    return [text];
-  }
-
-  const trimLeading = options?.trimLeading ?? true;
-  const trimTrailing = options?.trimTrailing ?? true;
-  const chunks: string[] = [];
-  let remaining = text;
-
-  while (measureQQBotUtf8Length(remaining) > limit) {
-    const splitIndex = findQQBotSafeSplitIndex(remaining, limit);
-    let nextChunk = remaining.slice(0, splitIndex);
-    let nextRemaining = remaining.slice(splitIndex);
-
-    if (trimTrailing) {
-      nextChunk = nextChunk.trimEnd();
-    }
-    if (trimLeading) {
-      nextRemaining = nextRemaining.trimStart();
-    }
-
-    if (!nextChunk) {
-      const hardChunkIndex = Math.max(1, findQQBotIndexWithinUtf8Limit(remaining, limit));
-      const hardChunk = remaining.slice(0, hardChunkIndex);
-      chunks.push(hardChunk);
-      remaining = remaining.slice(hardChunk.length);
-      continue;
-    }
-
-    chunks.push(nextChunk);
-    remaining = nextRemaining;
-  }
-
-  const finalChunk = trimTrailing ? remaining.trimEnd() : remaining;
-  if (finalChunk) {
-    chunks.push(finalChunk);
-  }
-
-  return chunks;
-}
-
-function splitQQBotMarkdownLineBlock(text: string, limit: number): string[] {
-  if (limit <= 0 || measureQQBotUtf8Length(text) <= limit) {
-    return [text];
-  }
-
-  const lines = text.split("\n");
-  const chunks: string[] = [];
-  let currentLines: string[] = [];
-
-  const flushCurrent = (): void => {
-    if (currentLines.length === 0) {
-      return;
-    }
-    const chunk = currentLines.join("\n").trimEnd();
-    if (chunk) {
-      chunks.push(chunk);
-    }
-    currentLines = [];
-  };
-
-  for (const line of lines) {
-    const candidate = currentLines.length > 0 ? `${currentLines.join("\n")}\n${line}` : line;
-    if (measureQQBotUtf8Length(candidate) <= limit) {
-      currentLines.push(line);
-      continue;
-    }
-
-    flushCurrent();
-    if (measureQQBotUtf8Length(line) <= limit) {
-      currentLines.push(line);
-      continue;
-    }
-
-    for (const piece of splitQQBotTextSafely(line, limit, {
-      trimLeading: false,
-      trimTrailing: false,
-    })) {
-      if (piece) {
-        chunks.push(piece);
-      }
-    }
-  }
-
-  flushCurrent();
-  return chunks;
-}
-
-function parseQQBotMarkdownTableRowCells(row: string, columnCount?: number): string[] {
-  const trimmed = row.trim();
-  const inner = trimmed.replace(/^\|\s*/, "").replace(/\s*\|$/, "");
-  const cells = inner.split("|").map((cell) => cell.trim());
-
-  if (typeof columnCount !== "number" || !Number.isFinite(columnCount) || columnCount <= 0) {
-    return cells;
-  }
-
-  if (cells.length >= columnCount) {
-    return cells.slice(0, columnCount);
-  }
-
-  return [...cells, ...Array.from({ length: columnCount - cells.length }, () => "")];
-}
-
-function renderQQBotMarkdownTableRow(cells: string[]): string {
-  return `| ${cells.join(" | ")} |`;
-}
-
-function splitQQBotMarkdownTableRowByCells(params: {
-  row: string;
-  columnCount: number;
-  limit: number;
-  anchorColumnCount?: number;
-}): string[] {
-  const { row, columnCount, limit } = params;
-  const normalizedCells = parseQQBotMarkdownTableRowCells(row, columnCount);
-  const normalizedRow = renderQQBotMarkdownTableRow(normalizedCells);
-  if (measureQQBotUtf8Length(normalizedRow) <= limit) {
-    return [normalizedRow];
-  }
-
-  const anchorColumnCount = Math.min(
-    Math.max(1, params.anchorColumnCount ?? 2),
-    columnCount
-  );
-  const anchorCells = normalizedCells.map((cell, index) =>
-    index < anchorColumnCount ? cell : ""
-  );
-  const chunks: string[] = [];
-  let currentCells = [...anchorCells];
-  let hasContent = false;
-
-  const flushCurrent = (): void => {
-    if (!hasContent) {
-      return;
-    }
-    chunks.push(renderQQBotMarkdownTableRow(currentCells));
-    currentCells = [...anchorCells];
-    hasContent = false;
-  };
-
-  for (let index = anchorColumnCount; index < columnCount; index += 1) {
-    const cell = normalizedCells[index] ?? "";
-    if (!cell) {
-      continue;
-    }
-
-    const candidateCells = [...currentCells];
-    candidateCells[index] = cell;
-    if (measureQQBotUtf8Length(renderQQBotMarkdownTableRow(candidateCells)) <= limit) {
-      currentCells[index] = cell;
-      hasContent = true;
-      continue;
-    }
-
-    if (hasContent) {
-      flushCurrent();
-      const nextCandidateCells = [...currentCells];
-      nextCandidateCells[index] = cell;
-      if (measureQQBotUtf8Length(renderQQBotMarkdownTableRow(nextCandidateCells)) <= limit) {
-        currentCells[index] = cell;
-        hasContent = true;
-        continue;
-      }
-    }
-
-    const emptyRowBytes = measureQQBotUtf8Length(renderQQBotMarkdownTableRow(currentCells));
-    const availableCellBytes = Math.max(1, limit - emptyRowBytes);
-    for (const cellPiece of splitQQBotTextSafely(cell, availableCellBytes, {
-      trimLeading: false,
-      trimTrailing: false,
-    })) {
-      const pieceCells = [...anchorCells];
-      pieceCells[index] = cellPiece;
-      chunks.push(renderQQBotMarkdownTableRow(pieceCells));
-    }
-    currentCells = [...anchorCells];
-    hasContent = false;
-  }
-
-  flushCurrent();
-  return chunks.length > 0 ? chunks : splitQQBotTextSafely(normalizedRow, limit);
-}
-
-function resolveQQBotMarkdownTableBlockLimit(params: {
-  header: string;
-  separator: string;
-  rows: string[];
-  limit: number;
-}): number {
-  const { header, separator, rows, limit } = params;
-  if (limit <= 512) {
-    return limit;
-  }
-
-  const columnCount = parseQQBotMarkdownTableRowCells(header).length;
-  if (columnCount < 8) {
-    return limit;
-  }
-
-  const tablePrefixBytes = measureQQBotUtf8Length(`${header}\n${separator}`);
-  const extraColumnCount = Math.max(0, columnCount - 7);
-  const columnPenalty = Math.min(240, extraColumnCount * 55);
-  const headerPenalty = Math.min(120, Math.floor(tablePrefixBytes * 0.25));
-  const reducedLimit = limit - columnPenalty - headerPenalty;
-  const minTableLimit = Math.max(tablePrefixBytes + 64, Math.floor(limit * 0.45));
-  const maxSingleRowRequirement = Math.min(
-    limit,
-    rows.reduce((max, row) => {
-      const normalizedRow = renderQQBotMarkdownTableRow(
-        parseQQBotMarkdownTableRowCells(row, columnCount)
-      );
-      return Math.max(max, measureQQBotUtf8Length(`${header}\n${separator}\n${normalizedRow}`));
-    }, tablePrefixBytes)
-  );
-
-  return Math.min(
-    limit,
-    Math.max(maxSingleRowRequirement, minTableLimit, Math.min(limit, reducedLimit))
-  );
-}
-
-function splitQQBotMarkdownTableBlock(text: string, limit: number): string[] {
-  if (limit <= 0 || measureQQBotUtf8Length(text) <= limit) {
-    return [text];
-  }
-
-  const lines = text.split("\n");
-  const header = lines[0] ?? "";
-  const separator = lines[1] ?? "";
-  const rows = lines.slice(2);
-  const packingLimit = resolveQQBotMarkdownTableBlockLimit({
-    header,
-    separator,
-    rows,
-    limit,
-  });
-  const tablePrefix = `${header}\n${separator}`;
-  const columnCount = parseQQBotMarkdownTableRowCells(header).length;
-  const chunks: string[] = [];
-  let currentRows: string[] = [];
-
-  const flushCurrent = (): void => {
-    if (currentRows.length === 0) {
-      return;
-    }
-    chunks.push(`${tablePrefix}\n${currentRows.join("\n")}`);
-    currentRows = [];
-  };
-
-  for (const row of rows) {
-    const candidate =
-      currentRows.length > 0
-        ? `${tablePrefix}\n${currentRows.join("\n")}\n${row}`
-        : `${tablePrefix}\n${row}`;
-    if (measureQQBotUtf8Length(candidate) <= packingLimit) {
-      currentRows.push(row);
-      continue;
-    }
-
-    flushCurrent();
-    if (measureQQBotUtf8Length(`${tablePrefix}\n${row}`) <= limit) {
-      currentRows.push(row);
-      continue;
-    }
-
-    const maxRowLength = Math.max(16, limit - measureQQBotUtf8Length(tablePrefix) - 1);
-    for (const rowPiece of splitQQBotMarkdownTableRowByCells({
-      row,
-      columnCount,
-      limit: maxRowLength,
-    })) {
-      chunks.push(`${tablePrefix}\n${rowPiece}`);
-    }
-  }
-
-  flushCurrent();
-  return chunks.length > 0 ? chunks : [text];
-}
-
-function splitQQBotMarkdownCodeFence(text: string, limit: number): string[] {
-  if (limit <= 0 || measureQQBotUtf8Length(text) <= limit) {
-    return [text];
-  }
-
-  const lines = text.split("\n");
-  const openingLine = lines[0] ?? "```";
-  const delimiter = resolveQQBotFenceDelimiter(openingLine) ?? "```";
-  const hasClosingFence =
-    lines.length > 1 && isQQBotFenceClosingLine(lines[lines.length - 1] ?? "", delimiter);
-  const closingLine = hasClosingFence ? lines[lines.length - 1] ?? delimiter : delimiter;
-  const codeLines = lines.slice(1, hasClosingFence ? -1 : lines.length);
-  const fixedOverhead =
-    measureQQBotUtf8Length(openingLine) + measureQQBotUtf8Length(closingLine) + 2;
-  const availableLineLength = Math.max(1, limit - fixedOverhead);
-  const chunks: string[] = [];
-  let currentCodeLines: string[] = [];
-
-  const flushCurrent = (): void => {
-    if (currentCodeLines.length === 0) {
-      return;
-    }
-    chunks.push(`${openingLine}\n${currentCodeLines.join("\n")}\n${closingLine}`);
-    currentCodeLines = [];
-  };
-
-  for (const codeLine of codeLines) {
-    const candidate =
-      currentCodeLines.length > 0
-        ? `${openingLine}\n${currentCodeLines.join("\n")}\n${codeLine}\n${closingLine}`
-        : `${openingLine}\n${codeLine}\n${closingLine}`;
-    if (measureQQBotUtf8Length(candidate) <= limit) {
-      currentCodeLines.push(codeLine);
-      continue;
-    }
-
-    flushCurrent();
-    if (measureQQBotUtf8Length(`${openingLine}\n${codeLine}\n${closingLine}`) <= limit) {
-      currentCodeLines.push(codeLine);
-      continue;
-    }
-
-    for (const linePiece of splitQQBotHardText(codeLine, availableLineLength)) {
-      chunks.push(`${openingLine}\n${linePiece}\n${closingLine}`);
-    }
-  }
-
-  flushCurrent();
-  return chunks.length > 0 ? chunks : [text];
-}
-
-function splitQQBotMarkdownBlock(block: QQBotMarkdownBlock, limit: number): string[] {
-  if (limit <= 0 || measureQQBotUtf8Length(block.text) <= limit) {
-    return [block.text];
-  }
-
-  switch (block.kind) {
-    case "table":
-      return splitQQBotMarkdownTableBlock(block.text, limit);
-    case "code":
-      return splitQQBotMarkdownCodeFence(block.text, limit);
-    case "blockquote":
-      return splitQQBotMarkdownLineBlock(block.text, limit);
-    case "list":
-      return splitQQBotMarkdownLineBlock(block.text, limit);
-    case "paragraph":
-    case "heading":
-      return splitQQBotTextSafely(block.text, limit);
-    case "thematic-break":
-      return [block.text];
-    default:
-      return [block.text];
-  }
-}
+export { looksLikeStructuredMarkdown };
 
 function resolveQQBotStructuredMarkdownSoftLimit(
   limit: number,
@@ -2505,332 +1786,9 @@ function resolveQQBotStructuredMarkdownSoftLimit(
     return Math.min(limit, configuredSafeLimit);
   }
 
-  const reservedLength = Math.min(
-    QQBOT_MARKDOWN_SOFT_LIMIT_HEADROOM_MAX,
-    Math.max(
-      QQBOT_MARKDOWN_SOFT_LIMIT_HEADROOM_MIN,
-      Math.floor(limit * QQBOT_MARKDOWN_SOFT_LIMIT_HEADROOM_RATIO)
-    )
-  );
-  const softLimit = limit - reservedLength;
-  const boundedSoftLimit = Math.min(
-    softLimit > 0 ? softLimit : limit,
-    DEFAULT_QQBOT_C2C_MARKDOWN_SAFE_CHUNK_BYTE_LIMIT
-  );
-  return boundedSoftLimit > 0 ? boundedSoftLimit : limit;
-}
-
-function maybePrefixQQBotContinuationPiece(params: {
-  prefix?: string;
-  piece: string;
-  limit: number;
-}): string {
-  const prefix = params.prefix?.trim();
-  if (!prefix) {
-    return params.piece;
-  }
-
-  const prefixedPiece = joinQQBotMarkdownPieces([prefix, params.piece]);
-  return measureQQBotUtf8Length(prefixedPiece) <= params.limit ? prefixedPiece : params.piece;
-}
-
-function resolveQQBotMarkdownLeadPiece(
-  blocks: QQBotMarkdownBlock[],
-  index: number,
-  limit: number
-): string | undefined {
-  const block = blocks[index];
-  if (!block) {
-    return undefined;
-  }
-
-  if (block.kind === "heading") {
-    const nextBlock = blocks[index + 1];
-    if (nextBlock && nextBlock.kind !== "thematic-break") {
-      const nextPieces = splitQQBotMarkdownBlock(nextBlock, limit);
-      const firstBodyPiece = nextPieces[0];
-      if (firstBodyPiece) {
-        const pairedText = joinQQBotMarkdownPieces([block.text, firstBodyPiece]);
-        if (measureQQBotUtf8Length(pairedText) <= limit) {
-          return pairedText;
-        }
-      }
-    }
-  }
-
-  return splitQQBotMarkdownBlock(block, limit)
-    .map((piece) => piece.trim())
-    .find(Boolean);
-}
-
-function shouldQQBotCarryThematicBreakToNextBlock(params: {
-  blocks: QQBotMarkdownBlock[];
-  index: number;
-  currentPieces: string[];
-  limit: number;
-}): boolean {
-  const block = params.blocks[params.index];
-  if (!block || block.kind !== "thematic-break") {
-    return false;
-  }
-
-  if (params.currentPieces.length === 0) {
-    return true;
-  }
-
-  const withBreak = joinQQBotMarkdownPieces([...params.currentPieces, block.text]);
-  if (measureQQBotUtf8Length(withBreak) > params.limit) {
-    return true;
-  }
-
-  const nextLeadPiece = resolveQQBotMarkdownLeadPiece(
-    params.blocks,
-    params.index + 1,
-    params.limit
-  );
-  if (!nextLeadPiece) {
-    return false;
-  }
-
-  const prefixedLeadPiece = joinQQBotMarkdownPieces([block.text, nextLeadPiece]);
-  if (measureQQBotUtf8Length(prefixedLeadPiece) > params.limit) {
-    return false;
-  }
-
-  const sectionCandidate = joinQQBotMarkdownPieces([
-    ...params.currentPieces,
-    block.text,
-    nextLeadPiece,
-  ]);
-  return measureQQBotUtf8Length(sectionCandidate) > params.limit;
-}
-
-function chunkQQBotStructuredMarkdown(
-  text: string,
-  limit: number,
-  safeChunkByteLimit?: number
-): string[] {
-  const blocks = parseQQBotMarkdownBlocks(text);
-  if (blocks.length === 0 || limit <= 0) {
-    return [text.trim()];
-  }
-
   // Keep a small buffer below the transport limit so structured markdown can
   // break on stable boundaries before QQ's rendered payload hits the ceiling.
-  const chunkLimit = resolveQQBotStructuredMarkdownSoftLimit(limit, safeChunkByteLimit);
-  const chunks: string[] = [];
-  let currentPieces: string[] = [];
-  let pendingPrefixPieces: string[] = [];
-
-  const flushCurrent = (): void => {
-    if (currentPieces.length === 0) {
-      return;
-    }
-    const chunk = joinQQBotMarkdownPieces(currentPieces);
-    if (chunk) {
-      chunks.push(chunk);
-    }
-    currentPieces = [];
-  };
-
-  const appendPiece = (piece: string): void => {
-    if (!piece) {
-      return;
-    }
-    const pieces =
-      measureQQBotUtf8Length(piece) > chunkLimit
-        ? splitQQBotTextSafely(piece, chunkLimit)
-        : [piece];
-    for (const nextPiece of pieces) {
-      const normalizedPiece = nextPiece.trim();
-      if (!normalizedPiece) {
-        continue;
-      }
-      const candidate = joinQQBotMarkdownPieces([...currentPieces, normalizedPiece]);
-      if (
-        currentPieces.length === 0 ||
-        measureQQBotUtf8Length(candidate) <= chunkLimit
-      ) {
-        currentPieces.push(normalizedPiece);
-        continue;
-      }
-      flushCurrent();
-      currentPieces.push(normalizedPiece);
-    }
-  };
-
-  const consumePendingPrefix = (piece: string): string => {
-    if (pendingPrefixPieces.length === 0) {
-      return piece;
-    }
-    const prefixed = joinQQBotMarkdownPieces([...pendingPrefixPieces, piece]);
-    pendingPrefixPieces = [];
-    return prefixed;
-  };
-
-  for (let index = 0; index < blocks.length; index += 1) {
-    const block = blocks[index];
-    if (!block) {
-      continue;
-    }
-
-    if (block.kind === "thematic-break") {
-      if (
-        shouldQQBotCarryThematicBreakToNextBlock({
-          blocks,
-          index,
-          currentPieces,
-          limit: chunkLimit,
-        })
-      ) {
-        flushCurrent();
-        pendingPrefixPieces.push(block.text);
-        continue;
-      }
-
-      if (currentPieces.length > 0) {
-        const candidate = joinQQBotMarkdownPieces([...currentPieces, block.text]);
-        if (measureQQBotUtf8Length(candidate) <= chunkLimit) {
-          currentPieces.push(block.text);
-          continue;
-        }
-        flushCurrent();
-      }
-      pendingPrefixPieces.push(block.text);
-      continue;
-    }
-
-    if (block.kind === "heading") {
-      const headingText = consumePendingPrefix(block.text);
-      const nextBlock = blocks[index + 1];
-      if (nextBlock && nextBlock.kind !== "thematic-break") {
-        const nextPieces = splitQQBotMarkdownBlock(nextBlock, chunkLimit);
-        const firstBodyPiece = nextPieces[0];
-        if (firstBodyPiece) {
-          const pairedText = joinQQBotMarkdownPieces([headingText, firstBodyPiece]);
-          const pairedCandidate = joinQQBotMarkdownPieces([
-            ...currentPieces,
-            headingText,
-            firstBodyPiece,
-          ]);
-          if (
-            measureQQBotUtf8Length(pairedText) <= chunkLimit &&
-            (currentPieces.length === 0 ||
-              measureQQBotUtf8Length(pairedCandidate) <= chunkLimit)
-          ) {
-            currentPieces.push(headingText, firstBodyPiece);
-            for (let pieceIndex = 1; pieceIndex < nextPieces.length; pieceIndex += 1) {
-              const nextPiece = nextPieces[pieceIndex] ?? "";
-              appendPiece(
-                nextBlock.kind === "table"
-                  ? maybePrefixQQBotContinuationPiece({
-                      prefix: headingText,
-                      piece: nextPiece,
-                      limit: chunkLimit,
-                    })
-                  : nextPiece
-              );
-            }
-            index += 1;
-            continue;
-          }
-          if (
-            currentPieces.length > 0 &&
-            measureQQBotUtf8Length(pairedText) <= chunkLimit
-          ) {
-            flushCurrent();
-            currentPieces.push(headingText, firstBodyPiece);
-            for (let pieceIndex = 1; pieceIndex < nextPieces.length; pieceIndex += 1) {
-              const nextPiece = nextPieces[pieceIndex] ?? "";
-              appendPiece(
-                nextBlock.kind === "table"
-                  ? maybePrefixQQBotContinuationPiece({
-                      prefix: headingText,
-                      piece: nextPiece,
-                      limit: chunkLimit,
-                    })
-                  : nextPiece
-              );
-            }
-            index += 1;
-            continue;
-          }
-        }
-      }
-
-      appendPiece(headingText);
-      continue;
-    }
-
-    const blockText = consumePendingPrefix(block.text);
-    for (const piece of splitQQBotMarkdownBlock({ ...block, text: blockText }, chunkLimit)) {
-      appendPiece(piece);
-    }
-  }
-
-  if (pendingPrefixPieces.length > 0 && currentPieces.length > 0) {
-    const trailingCandidate = joinQQBotMarkdownPieces([...currentPieces, ...pendingPrefixPieces]);
-    if (measureQQBotUtf8Length(trailingCandidate) <= chunkLimit) {
-      currentPieces.push(...pendingPrefixPieces);
-      pendingPrefixPieces = [];
-    }
-  }
-
-  if (pendingPrefixPieces.length > 0 && chunks.length > 0) {
-    const trailingPrefix = joinQQBotMarkdownPieces(pendingPrefixPieces);
-    const lastChunk = chunks[chunks.length - 1] ?? "";
-    const trailingCandidate = joinQQBotMarkdownPieces([lastChunk, trailingPrefix]);
-    if (measureQQBotUtf8Length(trailingCandidate) <= chunkLimit) {
-      chunks[chunks.length - 1] = trailingCandidate;
-      pendingPrefixPieces = [];
-    }
-  }
-
-  if (pendingPrefixPieces.length > 0) {
-    currentPieces.push(joinQQBotMarkdownPieces(pendingPrefixPieces));
-  }
-
-  flushCurrent();
-  return chunks.length > 0 ? chunks : [text.trim()];
-}
-
-export function looksLikeStructuredMarkdown(text: string): boolean {
-  const normalized = normalizeQQBotMarkdownSegment(text);
-  if (!normalized) {
-    return false;
-  }
-
-  const lines = normalized.split("\n");
-  if (hasQQBotMarkdownTable(normalized)) {
-    return true;
-  }
-
-  return (
-    normalized.includes("\n\n") ||
-    lines.some((line) => MARKDOWN_ATX_HEADING_RE.test(line)) ||
-    lines.some((line) => MARKDOWN_BLOCKQUOTE_RE.test(line)) ||
-    lines.some((line) => MARKDOWN_FENCE_RE.test(line)) ||
-    lines.some((line) => MARKDOWN_THEMATIC_BREAK_RE.test(line)) ||
-    lines.some((line) => MARKDOWN_LIST_ITEM_RE.test(line)) ||
-    MARKDOWN_INLINE_STRUCTURE_RE.test(normalized)
-  );
-}
-
-function looksLikeQQBotStreamingIneligibleMarkdown(text: string): boolean {
-  const normalized = normalizeQQBotMarkdownSegment(text);
-  if (!normalized) {
-    return false;
-  }
-
-  const lines = normalized.split("\n");
-  return (
-    hasQQBotMarkdownTable(normalized) ||
-    lines.some((line) => MARKDOWN_ATX_HEADING_RE.test(line)) ||
-    lines.some((line) => MARKDOWN_BLOCKQUOTE_RE.test(line)) ||
-    lines.some((line) => MARKDOWN_FENCE_RE.test(line)) ||
-    lines.some((line) => MARKDOWN_THEMATIC_BREAK_RE.test(line)) ||
-    lines.some((line) => MARKDOWN_LIST_ITEM_RE.test(line))
-  );
+  return resolveChunkSoftLimit(limit, { cap: DEFAULT_QQBOT_C2C_MARKDOWN_SAFE_CHUNK_BYTE_LIMIT });
 }
 
 export function chunkC2CMarkdownText(params: {
@@ -2854,7 +1812,10 @@ export function chunkC2CMarkdownText(params: {
     return params.fallbackChunkText ? params.fallbackChunkText(normalized) : [normalized];
   }
 
-  return chunkQQBotStructuredMarkdown(normalized, params.limit, params.safeChunkByteLimit);
+  return chunkMarkdownText(normalized, {
+    limit: resolveQQBotStructuredMarkdownSoftLimit(params.limit, params.safeChunkByteLimit),
+    unit: "byte",
+  });
 }
 
 export async function sendQQBotMediaWithFallback(params: {
@@ -2950,7 +1911,7 @@ function buildInboundContext(params: {
     SenderName: event.senderName,
     SenderId: event.senderId,
     Provider: "qqbot",
-    MessageSid: event.messageId,
+    MessageSid: event.messageId || event.eventId || "",
     Timestamp: event.timestamp,
     WasMentioned: event.mentionedBot,
     CommandAuthorized: true,
@@ -3241,6 +2202,16 @@ async function dispatchToAgent(params: {
       finalCtx.BodyForAgent = appendCronHiddenPrompt(agentBody);
     }
 
+    if (inbound.type !== "direct") {
+      const conversationId = resolveGroupConversationId(inbound);
+      if (conversationId) {
+        applyGroupHistoryToContext(
+          finalCtx,
+          groupHistory.consume(buildGroupHistoryKey(accountId, conversationId))
+        );
+      }
+    }
+
     if (storePath) {
       const mainSessionKeyRaw = route.mainSessionKey;
       const mainSessionKey =
@@ -3309,13 +2280,14 @@ async function dispatchToAgent(params: {
     });
     const resolvedTableMode = tableMode ?? "bullets";
     const chunkText = (text: string): string[] => {
-      if (textApi?.chunkMarkdownText && limit > 0) {
-        return textApi.chunkMarkdownText(text, limit);
+      if (limit <= 0) {
+        return [text];
       }
-      if (textApi?.chunkTextWithMode && limit > 0) {
+      // newline 模式按段落逐条发送，仍交给框架处理
+      if (chunkMode === "newline" && textApi?.chunkTextWithMode) {
         return textApi.chunkTextWithMode(text, limit, chunkMode);
       }
-      return [text];
+      return chunkMarkdownText(text, { limit });
     };
 
     const replyFinalOnly = qqCfg.replyFinalOnly ?? false;
@@ -3371,7 +2343,7 @@ async function dispatchToAgent(params: {
       }
 
       const extractedTextMedia = extractQQBotReplyMedia({
-        text: rawText,
+        text: extractQQBotKeyboard(rawText).text,
         logger,
         autoSendLocalPathMedia: resolveQQBotAutoSendLocalPathMedia(qqCfg),
       });
@@ -3383,7 +2355,7 @@ async function dispatchToAgent(params: {
       if (
         !streamingController.hasSuccessfulChunk &&
         (extractedTextMedia.mediaUrls.length > 0 ||
-          looksLikeQQBotStreamingIneligibleMarkdown(cleanedText))
+          hasMarkdownBlockStructure(cleanedText))
       ) {
         return;
       }
@@ -3520,13 +2492,59 @@ async function dispatchToAgent(params: {
       });
     };
 
+    let pendingKeyboard: QQBotKeyboard | undefined;
+    const sendPendingKeyboard = async (): Promise<void> => {
+      const keyboard = pendingKeyboard;
+      pendingKeyboard = undefined;
+      if (!keyboard || shouldSuppressVisibleReplies()) {
+        return;
+      }
+      markVisibleOutboundStarted();
+      // 频道不支持按钮，直接发送文本列表
+      if (inbound.type !== "channel") {
+        const result = await qqbotOutbound.sendText({
+          cfg: { channels: { qqbot: qqCfg } },
+          to: target.to,
+          text: resolveQQBotKeyboardPrompt(keyboard),
+          keyboard: buildQQBotKeyboardPayload(keyboard),
+          replyToId: inbound.messageId,
+          replyEventId: inbound.eventId,
+          accountId: outboundAccountId,
+        });
+        if (!result.error) {
+          markReplyDelivered();
+          return;
+        }
+        logger.warn(`send keyboard failed: ${result.error}; falling back to text`);
+      }
+
+      const fallbackResult = await qqbotOutbound.sendText({
+        cfg: { channels: { qqbot: qqCfg } },
+        to: target.to,
+        text: formatQQBotKeyboardFallbackText(keyboard),
+        replyToId: inbound.messageId,
+        replyEventId: inbound.eventId,
+        accountId: outboundAccountId,
+      });
+      if (fallbackResult.error) {
+        logger.error(`sendText keyboard fallback failed: ${fallbackResult.error}`);
+        markGroupMessageInterfaceBlocked(fallbackResult.error);
+      } else {
+        markReplyDelivered();
+      }
+    };
+
     const deliver = async (payload: unknown, info?: { kind?: string }): Promise<void> => {
       if (shouldSuppressVisibleReplies()) {
         return;
       }
       const typed = payload as { text?: string; mediaUrl?: string; mediaUrls?: string[] } | undefined;
+      const extractedKeyboard = extractQQBotKeyboard(typed?.text ?? "");
+      if (extractedKeyboard.keyboard) {
+        pendingKeyboard = extractedKeyboard.keyboard;
+      }
       const extractedTextMedia = extractQQBotReplyMedia({
-        text: typed?.text ?? "",
+        text: extractedKeyboard.text,
         logger,
         autoSendLocalPathMedia: resolveQQBotAutoSendLocalPathMedia(qqCfg),
       });
@@ -3775,6 +2793,8 @@ async function dispatchToAgent(params: {
       }
     }
 
+    await sendPendingKeyboard();
+
     const noReplyFallback = resolveQQBotNoReplyFallback({
       inbound,
       replyDelivered,
@@ -3816,42 +2836,174 @@ async function dispatchToAgent(params: {
   }
 }
 
-function shouldHandleMessage(event: QQInboundMessage, qqCfg: QQBotAccountConfig, logger: Logger): boolean {
+async function sendPairingChallenge(params: {
+  event: QQInboundMessage;
+  qqCfg: QQBotAccountConfig;
+  logger: Logger;
+  accountId: string;
+}): Promise<void> {
+  const { event, qqCfg, logger, accountId } = params;
+  const challenge = resolvePairingChallenge({ channel: "qqbot", accountId, senderId: event.senderId });
+  if (!challenge) return;
+  const result = await qqbotOutbound.sendText({
+    cfg: { channels: { qqbot: qqCfg } },
+    to: resolveChatTarget(event).to,
+    text: challenge,
+    replyToId: event.messageId,
+    replyEventId: event.eventId,
+    accountId,
+  });
+  if (result.error) {
+    logger.warn(`send pairing code failed: ${result.error}`);
+  }
+}
+
+function resolveGroupConversationId(event: QQInboundMessage): string {
+  return event.type === "group" ? event.groupOpenid ?? "" : event.channelId ?? "";
+}
+
+async function shouldHandleMessage(
+  event: QQInboundMessage,
+  qqCfg: QQBotAccountConfig,
+  logger: Logger,
+  accountId: string
+): Promise<boolean> {
   if (event.type === "direct") {
     const dmPolicy = qqCfg.dmPolicy ?? "open";
     const allowed = checkDmPolicy({
       dmPolicy,
       senderId: event.senderId,
       allowFrom: qqCfg.allowFrom ?? [],
+      denyFrom: qqCfg.denyFrom,
+      pairing: { channel: "qqbot", accountId },
     });
     if (!allowed.allowed) {
-      logger.info(`dm blocked: ${allowed.reason ?? "policy"}`);
+      logger.info(`dm blocked: ${allowed.code ?? "policy"} ${allowed.reason ?? ""}`.trim());
+      if (allowed.pairingRequired) {
+        await sendPairingChallenge({ event, qqCfg, logger, accountId });
+      }
       return false;
     }
     return true;
   }
 
   const groupPolicy = qqCfg.groupPolicy ?? "open";
-  const conversationId =
-    event.type === "group"
-      ? event.groupOpenid ?? ""
-      : event.channelId ?? "";
+  const conversationId = resolveGroupConversationId(event);
   const allowed = checkGroupPolicy({
     groupPolicy,
     conversationId,
     groupAllowFrom: qqCfg.groupAllowFrom ?? [],
     requireMention: qqCfg.requireMention ?? true,
     mentionedBot: event.mentionedBot,
+    senderId: event.senderId,
+    denyFrom: qqCfg.denyFrom,
+    groups: qqCfg.groups,
   });
   if (!allowed.allowed) {
-    logger.info(`group blocked: ${allowed.reason ?? "policy"}`);
+    logger.info(`group blocked: ${allowed.code ?? "policy"} ${allowed.reason ?? ""}`.trim());
+    if (allowed.code === "mention_required" && conversationId) {
+      groupHistory.record(
+        buildGroupHistoryKey(accountId, conversationId),
+        {
+          senderId: event.senderId,
+          senderName: event.senderName,
+          body: event.content,
+          timestamp: event.timestamp,
+          messageId: event.messageId,
+        },
+        resolveGroupHistoryLimit(qqCfg.historyLimit, DEFAULT_QQBOT_HISTORY_LIMIT)
+      );
+    }
     return false;
   }
   return true;
 }
 
+async function handleQQBotLifecycleEvent(params: {
+  event: QQBotLifecycleEvent;
+  eventId?: string;
+  cfg?: PluginConfig;
+  accountId: string;
+  logger: Logger;
+}): Promise<void> {
+  const { event, eventId, accountId, logger } = params;
+  const qqCfg = params.cfg ? mergeQQBotAccountConfig(params.cfg, accountId) : undefined;
+  if (!qqCfg || qqCfg.enabled === false) {
+    return;
+  }
+
+  const target = resolveQQBotLifecycleTarget(event);
+  logger.info(
+    `[lifecycle] accountId=${accountId} event=${event.eventType} target=${target}` +
+      (event.operatorOpenid ? ` operator=${event.operatorOpenid}` : "")
+  );
+
+  try {
+    const change = applyQQBotLifecycleEventToKnownTargets({ event, accountId });
+    if (change !== "unchanged") {
+      logger.info(`[lifecycle] known target ${change}: ${target}`);
+    }
+  } catch (err) {
+    logger.warn(`failed to update known qqbot target: ${String(err)}`);
+  }
+
+  const welcome = resolveQQBotWelcomeMessage(qqCfg, event);
+  if (welcome) {
+    const result = await qqbotOutbound.sendText({
+      cfg: { channels: { qqbot: qqCfg } },
+      to: target,
+      text: welcome,
+      replyEventId: eventId,
+      accountId,
+    });
+    if (result.error) {
+      logger.warn(`send welcome message failed: ${result.error}`);
+    }
+  }
+
+  const runtime = getQQBotRuntime();
+  const enqueueSystemEvent = runtime.system?.enqueueSystemEvent;
+  const routing = runtime.channel?.routing?.resolveAgentRoute;
+  if (!enqueueSystemEvent || !routing) {
+    return;
+  }
+  const route = routing({
+    cfg: params.cfg,
+    channel: "qqbot",
+    accountId,
+    peer:
+      event.kind === "group"
+        ? { kind: "group", id: `group:${event.openid.toLowerCase()}` }
+        : { kind: "dm", id: event.openid },
+  }) as QQBotAgentRoute;
+  const sessionKey =
+    event.kind === "group"
+      ? route.sessionKey
+      : buildQQBotDirectSessionKey({
+          routeSessionKey: route.sessionKey,
+          accountId: route.accountId?.trim() || accountId,
+          senderStableId: event.openid,
+        });
+  enqueueSystemEvent(formatQQBotLifecycleSystemEvent(event), {
+    sessionKey,
+    contextKey: `qqbot:${event.eventType.toLowerCase()}:${event.openid}`,
+  });
+}
+
 export async function handleQQBotDispatch(params: DispatchParams): Promise<void> {
   const logger = params.logger ?? createLogger("qqbot");
+  const lifecycleEvent = parseQQBotLifecycleEvent(params.eventType, params.eventData);
+  if (lifecycleEvent) {
+    await handleQQBotLifecycleEvent({
+      event: lifecycleEvent,
+      eventId: params.eventId,
+      cfg: params.cfg,
+      accountId: params.accountId ?? DEFAULT_ACCOUNT_ID,
+      logger,
+    });
+    return;
+  }
+
   const inbound = resolveInbound(params.eventType, params.eventData, params.eventId);
   if (!inbound) {
     return;
@@ -3896,7 +3048,24 @@ export async function handleQQBotDispatch(params: DispatchParams): Promise<void>
       `senderName=${JSON.stringify(resolvedInbound.senderName ?? resolvedInbound.senderId)} content=${inboundLogContent}`
   );
 
-  if (!shouldHandleMessage(resolvedInbound, qqCfg, logger)) {
+  let allowed = false;
+  try {
+    allowed = await shouldHandleMessage(resolvedInbound, qqCfg, logger, accountId);
+  } finally {
+    // 按钮点击无论是否放行都必须回应，否则客户端一直处于加载状态；被策略拒绝时回应“没有权限”
+    if (inbound.interaction) {
+      const ack = await qqbotOutbound.acknowledgeInteraction({
+        cfg: { channels: { qqbot: qqCfg } },
+        interactionId: inbound.interaction.id,
+        accountId,
+        code: allowed ? 0 : 4,
+      });
+      if (ack.error) {
+        logger.warn(`acknowledge interaction failed: ${ack.error}`);
+      }
+    }
+  }
+  if (!allowed) {
     return;
   }
 
@@ -168,6 +168,28 @@ export const qqbotPlugin = {
         requireMention: { type: "boolean" },
         allowFrom: { type: "array", items: { type: "string" } },
         groupAllowFrom: { type: "array", items: { type: "string" } },
+        denyFrom: { type: "array", items: { type: "string" } },
+        groups: {
+          type: "object",
+          additionalProperties: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              enabled: { type: "boolean" },
+              requireMention: { type: "boolean" },
+              allowFrom: { type: "array", items: { type: "string" } },
+              denyFrom: { type: "array", items: { type: "string" } },
+            },
+          },
+        },
+        welcomeMessage: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            group: { type: "string" },
+            friend: { type: "string" },
+          },
+        },
         historyLimit: { type: "integer", minimum: 0 },
         textChunkLimit: { type: "integer", minimum: 1 },
         replyFinalOnly: { type: "boolean" },
@@ -223,6 +245,28 @@ export const qqbotPlugin = {
               requireMention: { type: "boolean" },
               allowFrom: { type: "array", items: { type: "string" } },
               groupAllowFrom: { type: "array", items: { type: "string" } },
+              denyFrom: { type: "array", items: { type: "string" } },
+              groups: {
+                type: "object",
+                additionalProperties: {
+                  type: "object",
+                  additionalProperties: false,
+                  properties: {
+                    enabled: { type: "boolean" },
+                    requireMention: { type: "boolean" },
+                    allowFrom: { type: "array", items: { type: "string" } },
+                    denyFrom: { type: "array", items: { type: "string" } },
+                  },
+                },
+              },
+              welcomeMessage: {
+                type: "object",
+                additionalProperties: false,
+                properties: {
+                  group: { type: "string" },
+                  friend: { type: "string" },
+                },
+              },
               historyLimit: { type: "integer", minimum: 0 },
               textChunkLimit: { type: "integer", minimum: 1 },
               replyFinalOnly: { type: "boolean" },
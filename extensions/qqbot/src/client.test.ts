@@ -58,6 +58,17 @@ describe("getAccessToken", () => {
     );
   });
 
+  it("caches tokens for the default lifetime when expires_in is not a number", async () => {
+    mocks.httpPost.mockResolvedValue({
+      access_token: "token-2",
+      expires_in: "soon",
+    });
+
+    expect(await getAccessToken("app-2", "secret")).toBe("token-2");
+    expect(await getAccessToken("app-2", "secret")).toBe("token-2");
+    expect(mocks.httpPost).toHaveBeenCalledTimes(1);
+  });
+
   it("rejects empty appId values after trimming", async () => {
     await expect(getAccessToken("  ", "secret")).rejects.toThrow("appId");
     expect(mocks.httpPost).not.toHaveBeenCalled();
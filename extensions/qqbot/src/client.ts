@@ -1,18 +1,19 @@
-import { HttpError, httpGet, httpPost, type HttpRequestOptions } from "@openclaw-china/shared";
+import {
+  HttpError,
+  createAccessTokenManager,
+  httpGet,
+  httpPost,
+  httpPut,
+  type HttpRequestOptions,
+} from "@openclaw-china/shared";
 
 const API_BASE = "https://api.sgroup.qq.com";
 const TOKEN_URL = "https://bots.qq.com/app/getAppAccessToken";
 const MSG_SEQ_BASE = 1000000;
 const MAX_DUPLICATE_MSG_SEQ_RETRIES = 5;
 
-type TokenCache = {
-  token: string;
-  expiresAt: number;
-};
-
 // 按 appId 区分的 token 缓存（支持多账户）
-const tokenCacheMap = new Map<string, TokenCache>();
-const tokenPromiseMap = new Map<string, Promise<string>>();
+const tokenManager = createAccessTokenManager({ name: "qqbot" });
 
 const msgSeqMap = new Map<string, number>();
 let fallbackMsgSeq = 0;
@@ -117,14 +118,7 @@ async function postPassiveMessage<T>(params: {
 }
 
 export function clearTokenCache(appId?: string | number): void {
-  const normalizedAppId = toTrimmedString(appId);
-  if (normalizedAppId) {
-    tokenCacheMap.delete(normalizedAppId);
-    tokenPromiseMap.delete(normalizedAppId);
-  } else {
-    tokenCacheMap.clear();
-    tokenPromiseMap.clear();
-  }
+  tokenManager.invalidate(toTrimmedString(appId));
 }
 
 export async function getAccessToken(
@@ -135,19 +129,10 @@ export async function getAccessToken(
   const normalizedAppId = requireTrimmedString(appId, "appId");
   const normalizedClientSecret = requireTrimmedString(clientSecret, "clientSecret");
 
-  const cached = tokenCacheMap.get(normalizedAppId);
-  if (cached && Date.now() < cached.expiresAt - 5 * 60 * 1000) {
-    return cached.token;
-  }
-
-  const existingPromise = tokenPromiseMap.get(normalizedAppId);
-  if (existingPromise) {
-    return existingPromise;
-  }
-
-  const promise = (async () => {
-    try {
-      const data = await httpPost<{ access_token?: string; expires_in?: number }>(
+  return tokenManager.getToken({
+    key: normalizedAppId,
+    fetch: async () => {
+      const data = await httpPost<{ access_token?: string; expires_in?: number | string }>(
         TOKEN_URL,
         { appId: normalizedAppId, clientSecret: normalizedClientSecret },
         { timeout: options?.timeout ?? 15000 }
@@ -157,18 +142,13 @@ export async function getAccessToken(
         throw new Error("access_token missing from QQ response");
       }
 
-      tokenCacheMap.set(normalizedAppId, {
+      const expiresIn = Number(data.expires_in);
+      return {
         token: data.access_token,
-        expiresAt: Date.now() + (data.expires_in ?? 7200) * 1000,
-      });
-      return data.access_token;
-    } finally {
-      tokenPromiseMap.delete(normalizedAppId);
-    }
-  })();
-
-  tokenPromiseMap.set(normalizedAppId, promise);
-  return promise;
+        expiresInSec: Number.isFinite(expiresIn) && expiresIn > 0 ? expiresIn : 7200,
+      };
+    },
+  });
 }
 
 
@@ -265,11 +245,13 @@ function buildMessageBody(params: {
   messageId?: string;
   eventId?: string;
   markdown?: boolean;
+  keyboard?: Record<string, unknown>;
   msgSeq: number;
 }): Record<string, unknown> {
   const body = buildTextMessageBody({
     content: params.content,
     markdown: params.markdown,
+    keyboard: params.keyboard,
   });
   body.msg_seq = params.msgSeq;
 
@@ -281,10 +263,23 @@ function buildMessageBody(params: {
   return body;
 }
 
+/**
+ * 构建文本消息体
+ *
+ * 按钮键盘只能挂在 markdown 消息上，传入 keyboard 时强制使用 markdown。
+ */
 function buildTextMessageBody(params: {
   content: string;
   markdown?: boolean;
+  keyboard?: Record<string, unknown>;
 }): Record<string, unknown> {
+  if (params.keyboard) {
+    return {
+      markdown: { content: params.content },
+      keyboard: params.keyboard,
+      msg_type: 2,
+    };
+  }
   return params.markdown
     ? {
         markdown: { content: params.content },
@@ -299,6 +294,7 @@ function buildTextMessageBody(params: {
 function buildProactiveMessageBody(params: {
   content: string;
   markdown?: boolean;
+  keyboard?: Record<string, unknown>;
 }): Record<string, unknown> {
   if (!params.content.trim()) {
     throw new Error("QQBot proactive message content is empty");
@@ -313,6 +309,7 @@ export async function sendC2CMessage(params: {
   messageId?: string;
   eventId?: string;
   markdown?: boolean;
+  keyboard?: Record<string, unknown>;
 }): Promise<QQBotMessageResponse> {
   return postPassiveMessage({
     accessToken: params.accessToken,
@@ -325,6 +322,7 @@ export async function sendC2CMessage(params: {
         messageId: params.messageId,
         eventId: params.eventId,
         markdown: params.markdown,
+        keyboard: params.keyboard,
         msgSeq,
       }),
   });
@@ -337,6 +335,7 @@ export async function sendGroupMessage(params: {
   messageId?: string;
   eventId?: string;
   markdown?: boolean;
+  keyboard?: Record<string, unknown>;
 }): Promise<{ id: string; timestamp: number | string }> {
   return postPassiveMessage({
     accessToken: params.accessToken,
@@ -349,6 +348,7 @@ export async function sendGroupMessage(params: {
         messageId: params.messageId,
         eventId: params.eventId,
         markdown: params.markdown,
+        keyboard: params.keyboard,
         msgSeq,
       }),
   });
@@ -359,10 +359,12 @@ export async function sendProactiveC2CMessage(params: {
   openid: string;
   content: string;
   markdown?: boolean;
+  keyboard?: Record<string, unknown>;
 }): Promise<QQBotMessageResponse> {
   const body = buildProactiveMessageBody({
     content: params.content,
     markdown: params.markdown,
+    keyboard: params.keyboard,
   });
   return apiPost(params.accessToken, `/v2/users/${params.openid}/messages`, body, {
     timeout: 15000,
@@ -374,10 +376,12 @@ export async function sendProactiveGroupMessage(params: {
   groupOpenid: string;
   content: string;
   markdown?: boolean;
+  keyboard?: Record<string, unknown>;
 }): Promise<{ id: string; timestamp: number | string }> {
   const body = buildProactiveMessageBody({
     content: params.content,
     markdown: params.markdown,
+    keyboard: params.keyboard,
   });
   return apiPost(params.accessToken, `/v2/groups/${params.groupOpenid}/messages`, body, {
     timeout: 15000,
@@ -399,6 +403,34 @@ export async function sendChannelMessage(params: {
   });
 }
 
+/**
+ * 互动事件回应码
+ * 0 成功 / 1 操作失败 / 2 操作频繁 / 3 重复操作 / 4 没有权限 / 5 仅管理员操作
+ */
+export type QQBotInteractionAckCode = 0 | 1 | 2 | 3 | 4 | 5;
+
+/**
+ * 回应 INTERACTION_CREATE 互动事件
+ *
+ * 未回应时客户端按钮会一直处于加载状态。
+ */
+export async function acknowledgeInteraction(params: {
+  accessToken: string;
+  interactionId: string;
+  code?: QQBotInteractionAckCode;
+}): Promise<void> {
+  await httpPut(
+    `${API_BASE}/interactions/${params.interactionId}`,
+    { code: params.code ?? 0 },
+    {
+      timeout: 15000,
+      headers: {
+        Authorization: `QQBot ${params.accessToken}`,
+      },
+    }
+  );
+}
+
 export async function sendC2CInputNotify(params: {
   accessToken: string;
   openid: string;
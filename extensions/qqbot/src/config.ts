@@ -44,6 +44,14 @@ export const DEFAULT_QQBOT_TYPING_HEARTBEAT_MODE = "idle";
 export const DEFAULT_QQBOT_TYPING_HEARTBEAT_INTERVAL_MS = 5000;
 export const DEFAULT_QQBOT_TYPING_INPUT_SECONDS = 60;
 export const DEFAULT_QQBOT_C2C_MARKDOWN_SAFE_CHUNK_BYTE_LIMIT = 1200;
+export const DEFAULT_QQBOT_HISTORY_LIMIT = 10;
+
+const QQBotGroupOverrideSchema = z.object({
+  enabled: z.boolean().optional(),
+  requireMention: z.boolean().optional(),
+  allowFrom: z.array(z.string()).optional(),
+  denyFrom: z.array(z.string()).optional(),
+});
 
 // ── Account-level Schema ──────────────────────────────────────────────────────
 
@@ -78,6 +86,14 @@ const QQBotAccountSchema = z.object({
   requireMention: z.boolean().optional().default(true),
   allowFrom: z.array(z.string()).optional(),
   groupAllowFrom: z.array(z.string()).optional(),
+  denyFrom: z.array(z.string()).optional(),
+  groups: z.record(QQBotGroupOverrideSchema).optional(),
+  welcomeMessage: z
+    .object({
+      group: z.string().optional(),
+      friend: z.string().optional(),
+    })
+    .optional(),
   historyLimit: z.number().int().min(0).optional().default(10),
   textChunkLimit: z.number().int().positive().optional().default(1500),
   replyFinalOnly: z.boolean().optional().default(false),
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  buildQQBotKeyboardPayload,
+  extractQQBotKeyboard,
+  formatQQBotKeyboardFallbackText,
+  parseQQBotInteractionEvent,
+} from "./keyboard.js";
+
+describe("extractQQBotKeyboard", () => {
+  it("parses prompt, rows and button actions and strips the block", () => {
+    const text = [
+      "好的，已生成方案。",
+      "",
+      "```qqbot-keyboard",
+      "请选择套餐",
+      "[基础版](plan:basic) [专业版](plan:pro)",
+      "[帮助](/help) [文档](https://example.com/docs)",
+      "```",
+    ].join("\n");
+
+    const result = extractQQBotKeyboard(text);
+
+    expect(result.text).toBe("好的，已生成方案。");
+    expect(result.keyboard).toEqual({
+      prompt: "请选择套餐",
+      rows: [
+        [
+          { label: "基础版", data: "plan:basic", action: "callback" },
+          { label: "专业版", data: "plan:pro", action: "callback" },
+        ],
+        [
+          { label: "帮助", data: "/help", action: "command" },
+          { label: "文档", data: "https://example.com/docs", action: "link" },
+        ],
+      ],
+    });
+  });
+
+  it("leaves text without a keyboard block untouched", () => {
+    expect(extractQQBotKeyboard("```ts\nconst a = 1;\n```")).toEqual({ text: "```ts\nconst a = 1;\n```" });
+  });
+
+  it("strips an unterminated block from streaming partials", () => {
+    const result = extractQQBotKeyboard("处理中\n```qqbot-keyboard\n[确认](ok)");
+    expect(result).toEqual({ text: "处理中" });
+  });
+
+  it("caps rows and buttons per row", () => {
+    const row = Array.from({ length: 7 }, (_, i) => `[b${i}](d${i})`).join(" ");
+    const body = Array.from({ length: 7 }, () => row).join("\n");
+    const { keyboard } = extractQQBotKeyboard("```qqbot-keyboard\n" + body + "\n```");
+    expect(keyboard?.rows).toHaveLength(5);
+    expect(keyboard?.rows[0]).toHaveLength(5);
+  });
+});
+
+describe("buildQQBotKeyboardPayload", () => {
+  it("maps actions to QQ button types", () => {
+    const payload = buildQQBotKeyboardPayload({
+      rows: [
+        [
+          { label: "确认", data: "ok", action: "callback" },
+          { label: "帮助", data: "/help", action: "command" },
+          { label: "官网", data: "https://qq.com", action: "link" },
+        ],
+      ],
+    });
+    const buttons = (payload as { content: { rows: Array<{ buttons: Array<Record<string, any>> }> } }).content
+      .rows[0].buttons;
+
+    expect(buttons.map((button) => button.id)).toEqual(["1", "2", "3"]);
+    expect(buttons.map((button) => button.action.type)).toEqual([1, 2, 0]);
+    expect(buttons[1].action.enter).toBe(true);
+    expect(buttons[0].render_data).toEqual({ label: "确认", visited_label: "确认", style: 1 });
+  });
+
+  it("formats a plain-text fallback", () => {
+    expect(
+      formatQQBotKeyboardFallbackText({
+        prompt: "请选择",
+        rows: [[{ label: "确认", data: "ok", action: "callback" }, { label: "官网", data: "https://qq.com", action: "link" }]],
+      })
+    ).toBe("请选择\n- 确认\n- 官网：https://qq.com");
+  });
+});
+
+describe("parseQQBotInteractionEvent", () => {
+  it("parses group button callbacks", () => {
+    const inbound = parseQQBotInteractionEvent({
+      id: "itr-1",
+      type: 11,
+      chat_type: 1,
+      scene: "group",
+      timestamp: "2026-01-01T00:00:00+08:00",
+      group_openid: "GROUP_1",
+      group_member_openid: "MEMBER_1",
+      data: { resolved: { button_data: "plan:pro", button_id: "2" } },
+    });
+
+    expect(inbound).toMatchObject({
+      type: "group",
+      senderId: "MEMBER_1",
+      groupOpenid: "GROUP_1",
+      content: "[按钮点击] plan:pro",
+      messageId: "",
+      eventId: "itr-1",
+      mentionedBot: true,
+      interaction: { id: "itr-1", buttonId: "2", buttonData: "plan:pro" },
+    });
+  });
+
+  it("parses c2c button callbacks", () => {
+    const inbound = parseQQBotInteractionEvent({
+      id: "itr-2",
+      chat_type: 2,
+      user_openid: "USER_1",
+      data: { resolved: { button_data: "ok" } },
+    });
+
+    expect(inbound).toMatchObject({ type: "direct", senderId: "USER_1", c2cOpenid: "USER_1" });
+  });
+
+  it("ignores events without button data", () => {
+    expect(parseQQBotInteractionEvent({ id: "itr-3", chat_type: 2, user_openid: "U" })).toBeNull();
+    expect(parseQQBotInteractionEvent(null)).toBeNull();
+  });
+});
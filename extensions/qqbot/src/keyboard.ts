@@ -0,0 +1,236 @@
+/**
+ * QQ Bot 按钮键盘
+ *
+ * Agent 在回复中写入 qqbot-keyboard 代码块即可附带按钮:
+ *
+ * ```qqbot-keyboard
+ * 请确认是否继续
+ * [确认](confirm:yes) [取消](confirm:no)
+ * [帮助](/help) [文档](https://example.com)
+ * ```
+ *
+ * - 不含按钮的行作为按钮上方的提示文字
+ * - 每行按钮为一排，最多 5 排、每排 5 个
+ * - data 以 http(s):// 开头为跳转按钮，以 / 开头为指令按钮（点击后发送该指令），其余为回调按钮
+ * - 回调按钮点击后产生 INTERACTION_CREATE 事件，作为入站消息回到原会话
+ *
+ * 文档: https://bot.q.qq.com/wiki/develop/api-v2/server-inter/message/trans/msg-btn.html
+ */
+
+import type { QQBotInteraction, QQInboundMessage } from "./types.js";
+
+const KEYBOARD_BLOCK_LANG = "qqbot-keyboard";
+const MAX_KEYBOARD_ROWS = 5;
+const MAX_BUTTONS_PER_ROW = 5;
+const DEFAULT_KEYBOARD_PROMPT = "请选择：";
+const UNSUPPORTED_TIPS = "当前客户端不支持该按钮，请升级 QQ 后重试";
+
+/** 按钮动作类型 */
+export type QQBotKeyboardButtonAction = "callback" | "command" | "link";
+
+export interface QQBotKeyboardButton {
+  /** 按钮文字 */
+  label: string;
+  /** 回调数据 / 指令 / 链接 */
+  data: string;
+  /** 动作类型 */
+  action: QQBotKeyboardButtonAction;
+}
+
+export interface QQBotKeyboard {
+  /** 按钮上方的提示文字 */
+  prompt?: string;
+  /** 按钮行 */
+  rows: QQBotKeyboardButton[][];
+}
+
+const KEYBOARD_BLOCK_RE = new RegExp("```" + KEYBOARD_BLOCK_LANG + "[^\\n]*\\n([\\s\\S]*?)```", "g");
+const UNTERMINATED_BLOCK_RE = new RegExp("```" + KEYBOARD_BLOCK_LANG + "[\\s\\S]*$");
+const BUTTON_RE = /\[([^\]\n]+)\]\(([^)\n]+)\)/g;
+
+function resolveButtonAction(data: string): QQBotKeyboardButtonAction {
+  if (/^https?:\/\//i.test(data)) return "link";
+  if (data.startsWith("/")) return "command";
+  return "callback";
+}
+
+function parseKeyboardBlock(body: string): QQBotKeyboard | undefined {
+  const promptLines: string[] = [];
+  const rows: QQBotKeyboardButton[][] = [];
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    const buttons: QQBotKeyboardButton[] = [];
+    for (const match of line.matchAll(BUTTON_RE)) {
+      const label = match[1]?.trim() ?? "";
+      const data = match[2]?.trim() ?? "";
+      if (!label || !data) continue;
+      buttons.push({ label, data, action: resolveButtonAction(data) });
+    }
+    if (buttons.length === 0) {
+      promptLines.push(line);
+      continue;
+    }
+    if (rows.length < MAX_KEYBOARD_ROWS) {
+      rows.push(buttons.slice(0, MAX_BUTTONS_PER_ROW));
+    }
+  }
+
+  if (rows.length === 0) return undefined;
+  const prompt = promptLines.join("\n").trim();
+  return prompt ? { prompt, rows } : { rows };
+}
+
+/**
+ * 从回复文本中提取按钮键盘
+ *
+ * 所有 qqbot-keyboard 代码块都会从文本中移除（包括流式输出中尚未闭合的代码块），
+ * 仅第一个有效代码块生效。
+ */
+export function extractQQBotKeyboard(text: string): { text: string; keyboard?: QQBotKeyboard } {
+  if (!text.includes("```" + KEYBOARD_BLOCK_LANG)) {
+    return { text };
+  }
+
+  let keyboard: QQBotKeyboard | undefined;
+  const stripped = text
+    .replace(KEYBOARD_BLOCK_RE, (_match, body: string) => {
+      keyboard ??= parseKeyboardBlock(body);
+      return "";
+    })
+    .replace(UNTERMINATED_BLOCK_RE, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return keyboard ? { text: stripped, keyboard } : { text: stripped };
+}
+
+/**
+ * 构建 QQ 开放平台 keyboard 字段
+ */
+export function buildQQBotKeyboardPayload(keyboard: QQBotKeyboard): Record<string, unknown> {
+  let nextId = 1;
+  return {
+    content: {
+      rows: keyboard.rows.map((row) => ({
+        buttons: row.map((button) => {
+          const id = String(nextId++);
+          const action: Record<string, unknown> = {
+            type: button.action === "link" ? 0 : button.action === "callback" ? 1 : 2,
+            permission: { type: 2 },
+            data: button.data,
+            unsupport_tips: UNSUPPORTED_TIPS,
+          };
+          if (button.action === "command") {
+            action.enter = true;
+          }
+          return {
+            id,
+            render_data: {
+              label: button.label,
+              visited_label: button.label,
+              style: 1,
+            },
+            action,
+          };
+        }),
+      })),
+    },
+  };
+}
+
+/**
+ * 按钮消息的 markdown 正文
+ */
+export function resolveQQBotKeyboardPrompt(keyboard: QQBotKeyboard): string {
+  return keyboard.prompt ?? DEFAULT_KEYBOARD_PROMPT;
+}
+
+/**
+ * 按钮发送失败时的纯文本回退
+ */
+export function formatQQBotKeyboardFallbackText(keyboard: QQBotKeyboard): string {
+  const lines = [resolveQQBotKeyboardPrompt(keyboard)];
+  for (const button of keyboard.rows.flat()) {
+    lines.push(button.action === "callback" ? `- ${button.label}` : `- ${button.label}：${button.data}`);
+  }
+  return lines.join("\n");
+}
+
+function toStringValue(value: unknown): string | undefined {
+  if (typeof value === "string") return value.trim() || undefined;
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  return undefined;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : undefined;
+}
+
+/**
+ * 构建按钮回调的入站正文
+ */
+export function formatQQBotInteractionContent(interaction: QQBotInteraction): string {
+  return `[按钮点击] ${interaction.buttonData}`;
+}
+
+/**
+ * 解析 INTERACTION_CREATE 事件
+ *
+ * chat_type: 0=频道, 1=群聊, 2=单聊。被动回复使用互动事件 ID 作为 event_id。
+ */
+export function parseQQBotInteractionEvent(data: unknown): QQInboundMessage | null {
+  const payload = asRecord(data);
+  if (!payload) return null;
+
+  const id = toStringValue(payload.id);
+  const resolved = asRecord(asRecord(payload.data)?.resolved) ?? {};
+  const buttonData = toStringValue(resolved.button_data);
+  if (!id || !buttonData) return null;
+
+  const interaction: QQBotInteraction = {
+    id,
+    buttonId: toStringValue(resolved.button_id),
+    buttonData,
+    messageId: toStringValue(resolved.message_id),
+  };
+  const timestampRaw = payload.timestamp;
+  const parsedTimestamp =
+    typeof timestampRaw === "number" ? timestampRaw : Date.parse(String(timestampRaw ?? ""));
+  const base = {
+    content: formatQQBotInteractionContent(interaction),
+    messageId: "",
+    eventId: id,
+    timestamp: Number.isFinite(parsedTimestamp) ? parsedTimestamp : Date.now(),
+    mentionedBot: true,
+    interaction,
+  };
+
+  const chatType = typeof payload.chat_type === "number" ? payload.chat_type : undefined;
+  const scene = toStringValue(payload.scene);
+
+  if (chatType === 1 || scene === "group") {
+    const groupOpenid = toStringValue(payload.group_openid);
+    const senderId = toStringValue(payload.group_member_openid) ?? toStringValue(resolved.user_id);
+    if (!groupOpenid || !senderId) return null;
+    return { ...base, type: "group", senderId, groupOpenid };
+  }
+
+  if (chatType === 2 || scene === "c2c") {
+    const senderId = toStringValue(payload.user_openid) ?? toStringValue(resolved.user_id);
+    if (!senderId) return null;
+    return { ...base, type: "direct", senderId, c2cOpenid: senderId };
+  }
+
+  const channelId = toStringValue(payload.channel_id);
+  const senderId = toStringValue(resolved.user_id);
+  if (!channelId || !senderId) return null;
+  return {
+    ...base,
+    type: "channel",
+    senderId,
+    channelId,
+    guildId: toStringValue(payload.guild_id),
+  };
+}
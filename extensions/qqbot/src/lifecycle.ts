@@ -0,0 +1,168 @@
+/**
+ * QQ Bot 群 / 好友生命周期事件
+ *
+ * - GROUP_ADD_ROBOT / GROUP_DEL_ROBOT: 机器人被加入 / 移出群聊
+ * - GROUP_MSG_RECEIVE / GROUP_MSG_REJECT: 群管理员开启 / 关闭机器人主动消息
+ * - FRIEND_ADD / FRIEND_DEL: 用户添加 / 删除机器人好友
+ *
+ * 这些事件同步到 known-targets 存储，避免主动消息继续发往已移除机器人的群或好友。
+ *
+ * 文档: https://bot.q.qq.com/wiki/develop/api-v2/server-inter/group/manage/event.html
+ */
+
+import type { QQBotAccountConfig } from "./config.js";
+import { removeKnownQQBotTarget, upsertKnownQQBotTarget } from "./proactive.js";
+
+export type QQBotLifecycleEventType =
+  | "GROUP_ADD_ROBOT"
+  | "GROUP_DEL_ROBOT"
+  | "GROUP_MSG_REJECT"
+  | "GROUP_MSG_RECEIVE"
+  | "FRIEND_ADD"
+  | "FRIEND_DEL";
+
+const LIFECYCLE_EVENT_TYPES: ReadonlySet<string> = new Set<QQBotLifecycleEventType>([
+  "GROUP_ADD_ROBOT",
+  "GROUP_DEL_ROBOT",
+  "GROUP_MSG_REJECT",
+  "GROUP_MSG_RECEIVE",
+  "FRIEND_ADD",
+  "FRIEND_DEL",
+]);
+
+export interface QQBotLifecycleEvent {
+  eventType: QQBotLifecycleEventType;
+  /** 事件对象类型 */
+  kind: "group" | "user";
+  /** 群 openid 或用户 openid */
+  openid: string;
+  /** 操作人 openid（群事件） */
+  operatorOpenid?: string;
+  /** 事件时间（毫秒） */
+  timestamp: number;
+}
+
+export function isQQBotLifecycleEventType(eventType: string): eventType is QQBotLifecycleEventType {
+  return LIFECYCLE_EVENT_TYPES.has(eventType);
+}
+
+function toTrimmedString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function resolveTimestamp(value: unknown): number {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    // 生命周期事件的 timestamp 为秒级
+    return value < 1e12 ? value * 1000 : value;
+  }
+  const parsed = Date.parse(String(value ?? ""));
+  return Number.isFinite(parsed) ? parsed : Date.now();
+}
+
+/**
+ * 解析生命周期事件
+ */
+export function parseQQBotLifecycleEvent(eventType: string, data: unknown): QQBotLifecycleEvent | null {
+  if (!isQQBotLifecycleEventType(eventType) || !data || typeof data !== "object") {
+    return null;
+  }
+  const payload = data as Record<string, unknown>;
+  const timestamp = resolveTimestamp(payload.timestamp);
+
+  if (eventType === "FRIEND_ADD" || eventType === "FRIEND_DEL") {
+    const openid = toTrimmedString(payload.openid) ?? toTrimmedString(payload.user_openid);
+    if (!openid) return null;
+    return { eventType, kind: "user", openid, timestamp };
+  }
+
+  const openid = toTrimmedString(payload.group_openid);
+  if (!openid) return null;
+  const operatorOpenid = toTrimmedString(payload.op_member_openid);
+  return {
+    eventType,
+    kind: "group",
+    openid,
+    ...(operatorOpenid ? { operatorOpenid } : {}),
+    timestamp,
+  };
+}
+
+/**
+ * 生命周期事件对应的会话目标
+ */
+export function resolveQQBotLifecycleTarget(event: QQBotLifecycleEvent): string {
+  return event.kind === "group" ? `group:${event.openid}` : `user:${event.openid}`;
+}
+
+/**
+ * 将生命周期事件同步到 known-targets
+ *
+ * 加入 / 开启主动消息 / 添加好友时写入；移出 / 关闭主动消息 / 删除好友时移除。
+ */
+export function applyQQBotLifecycleEventToKnownTargets(params: {
+  event: QQBotLifecycleEvent;
+  accountId: string;
+  filePath?: string;
+}): "upserted" | "removed" | "unchanged" {
+  const { event, accountId, filePath } = params;
+  const target = resolveQQBotLifecycleTarget(event);
+
+  switch (event.eventType) {
+    case "GROUP_ADD_ROBOT":
+    case "GROUP_MSG_RECEIVE":
+    case "FRIEND_ADD":
+      upsertKnownQQBotTarget({
+        filePath,
+        target: {
+          accountId,
+          kind: event.kind,
+          target,
+          sourceChatType: event.kind === "group" ? "group" : "direct",
+          firstSeenAt: event.timestamp,
+          lastSeenAt: event.timestamp,
+        },
+      });
+      return "upserted";
+    case "GROUP_DEL_ROBOT":
+    case "GROUP_MSG_REJECT":
+    case "FRIEND_DEL":
+      return removeKnownQQBotTarget({ filePath, accountId, target }) ? "removed" : "unchanged";
+  }
+}
+
+/**
+ * 加入群聊 / 添加好友时的欢迎语
+ */
+export function resolveQQBotWelcomeMessage(
+  config: QQBotAccountConfig | undefined,
+  event: QQBotLifecycleEvent
+): string | undefined {
+  if (event.eventType === "GROUP_ADD_ROBOT") {
+    return config?.welcomeMessage?.group?.trim() || undefined;
+  }
+  if (event.eventType === "FRIEND_ADD") {
+    return config?.welcomeMessage?.friend?.trim() || undefined;
+  }
+  return undefined;
+}
+
+/**
+ * 构建给 Agent 的系统事件文本
+ */
+export function formatQQBotLifecycleSystemEvent(event: QQBotLifecycleEvent): string {
+  const operator = event.operatorOpenid ? `（操作人 ${event.operatorOpenid}）` : "";
+  switch (event.eventType) {
+    case "GROUP_ADD_ROBOT":
+      return `QQ 机器人被加入群 ${event.openid}${operator}`;
+    case "GROUP_DEL_ROBOT":
+      return `QQ 机器人被移出群 ${event.openid}${operator}，已停止向该群发送主动消息`;
+    case "GROUP_MSG_REJECT":
+      return `QQ 群 ${event.openid} 关闭了机器人主动消息${operator}`;
+    case "GROUP_MSG_RECEIVE":
+      return `QQ 群 ${event.openid} 开启了机器人主动消息${operator}`;
+    case "FRIEND_ADD":
+      return `QQ 用户 ${event.openid} 添加了机器人为好友`;
+    case "FRIEND_DEL":
+      return `QQ 用户 ${event.openid} 删除了机器人好友，已停止向其发送主动消息`;
+  }
+}
@@ -11,7 +11,9 @@ import {
   type PluginConfig,
 } from "./config.js";
 import {
+  acknowledgeInteraction,
   getAccessToken,
+  type QQBotInteractionAckCode,
   sendC2CInputNotify,
   sendC2CMessage,
   sendProactiveC2CMessage,
@@ -298,8 +300,10 @@ export const qqbotOutbound = {
     replyToId?: string;
     replyEventId?: string;
     accountId?: string;
+    /** 按钮键盘（仅单聊 / 群聊，发送时强制 markdown） */
+    keyboard?: Record<string, unknown>;
   }): Promise<QQBotSendResult> => {
-    const { cfg, to, text, replyToId, replyEventId, accountId } = params;
+    const { cfg, to, text, replyToId, replyEventId, accountId, keyboard } = params;
     const qqCfg = mergeQQBotAccountConfig(cfg, accountId ?? DEFAULT_ACCOUNT_ID);
     const credentials = resolveQQBotCredentials(qqCfg);
     if (!credentials) {
@@ -327,6 +331,7 @@ export const qqbotOutbound = {
             accessToken,
             groupOpenid: target.id,
             content: text,
+            keyboard,
             markdown,
           });
           return { channel: "qqbot", messageId: result.id, timestamp: result.timestamp };
@@ -349,6 +354,7 @@ export const qqbotOutbound = {
             accessToken,
             groupOpenid: target.id,
             content: text,
+            keyboard,
             ...buildPassiveReplyRefs({ replyToId, replyEventId }),
             markdown: groupMarkdown,
           });
@@ -371,6 +377,7 @@ export const qqbotOutbound = {
               accessToken,
               groupOpenid: target.id,
               content: text,
+              keyboard,
               eventId: replyEventId,
               markdown: groupMarkdown,
             });
@@ -432,6 +439,7 @@ export const qqbotOutbound = {
           accessToken,
           openid: target.id,
           content: text,
+          keyboard,
           markdown,
         });
         const refIdx = resolveResponseRefIdx(result);
@@ -461,6 +469,7 @@ export const qqbotOutbound = {
           accessToken,
           openid: target.id,
           content: text,
+          keyboard,
           ...buildPassiveReplyRefs({ replyToId, replyEventId }),
           markdown,
         });
@@ -483,6 +492,7 @@ export const qqbotOutbound = {
             accessToken,
             openid: target.id,
             content: text,
+            keyboard,
             eventId: replyEventId,
             markdown,
           });
@@ -741,4 +751,30 @@ export const qqbotOutbound = {
       return { channel: "qqbot", error: message };
     }
   },
+
+  /**
+   * 回应按钮回调（INTERACTION_CREATE）
+   */
+  acknowledgeInteraction: async (params: {
+    cfg: PluginConfig;
+    interactionId: string;
+    accountId?: string;
+    /** 回应码，默认 0（成功） */
+    code?: QQBotInteractionAckCode;
+  }): Promise<QQBotSendResult> => {
+    const { cfg, interactionId, accountId, code } = params;
+    const qqCfg = mergeQQBotAccountConfig(cfg, accountId ?? DEFAULT_ACCOUNT_ID);
+    const credentials = resolveQQBotCredentials(qqCfg);
+    if (!credentials) {
+      return { channel: "qqbot", error: "QQBot not configured (missing appId/clientSecret)" };
+    }
+
+    try {
+      const accessToken = await getAccessToken(credentials.appId, credentials.clientSecret);
+      await acknowledgeInteraction({ accessToken, interactionId, code });
+      return { channel: "qqbot" };
+    } catch (err) {
+      return { channel: "qqbot", error: summarizeError(err) };
+    }
+  },
 };
@@ -1,6 +1,7 @@
-import { copyFileSync, existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from "node:fs";
+import { copyFileSync, existsSync, mkdirSync, renameSync, rmSync } from "node:fs";
 import { homedir } from "node:os";
 import { dirname, join } from "node:path";
+import { readJsonStateSync, updateJsonStateSync, type JsonStateSchema } from "@openclaw-china/shared";
 import { DEFAULT_ACCOUNT_ID, type PluginConfig } from "./config.js";
 import { qqbotOutbound } from "./outbound.js";
 import type { QQBotSendResult, QQChatType } from "./types.js";
@@ -49,6 +50,16 @@ type UpsertKnownQQBotTargetParams = KnownQQBotTargetStoreOptions & {
   target: KnownQQBotTarget;
 };
 
+/**
+ * 已知目标文件
+ *
+ * v0 为目标数组；v1 起为 { version, targets }
+ */
+type KnownQQBotTargetsState = {
+  version: number;
+  targets: KnownQQBotTarget[];
+};
+
 function resolveKnownTargetsFilePath(options?: KnownQQBotTargetStoreOptions): string {
   return options?.filePath?.trim() || DEFAULT_KNOWN_TARGETS_PATH;
 }
@@ -99,13 +110,13 @@ function normalizeKnownQQBotTarget(target: KnownQQBotTarget): KnownQQBotTarget {
   return normalized;
 }
 
-function parseKnownTargets(raw: string, filePath: string): KnownQQBotTarget[] {
-  const parsed = JSON.parse(raw) as unknown;
-  if (!Array.isArray(parsed)) {
-    throw new Error(`Invalid known QQBot targets file: ${filePath}`);
+function parseKnownTargets(raw: unknown, fromVersion: number): KnownQQBotTarget[] {
+  const entries = fromVersion === 0 ? raw : (raw as Partial<KnownQQBotTargetsState>).targets;
+  if (!Array.isArray(entries)) {
+    throw new Error("Invalid known QQBot targets file");
   }
 
-  return parsed
+  return entries
     .filter((entry): entry is KnownQQBotTarget => {
       if (!entry || typeof entry !== "object") return false;
       const candidate = entry as Record<string, unknown>;
@@ -122,31 +133,36 @@ function parseKnownTargets(raw: string, filePath: string): KnownQQBotTarget[] {
     .filter((entry) => entry.target.length > 0);
 }
 
+const knownTargetsSchema: JsonStateSchema<KnownQQBotTargetsState> = {
+  version: 1,
+  create: () => ({ version: 1, targets: [] }),
+  migrate: (raw, fromVersion) => ({
+    version: 1,
+    targets: parseKnownTargets(raw, fromVersion).sort(compareTargetsByLastSeenDesc),
+  }),
+  isEmpty: (state) => state.targets.length === 0,
+};
+
 function readKnownTargets(options?: KnownQQBotTargetStoreOptions): KnownQQBotTarget[] {
   const filePath = resolveKnownTargetsFilePath(options);
   migrateLegacyKnownTargets(filePath);
-  if (!existsSync(filePath)) {
-    return [];
-  }
-  const raw = readFileSync(filePath, "utf8");
-  if (!raw.trim()) {
-    return [];
-  }
-  return parseKnownTargets(raw, filePath).sort(compareTargetsByLastSeenDesc);
+  return readJsonStateSync(filePath, knownTargetsSchema).targets;
 }
 
-function writeKnownTargets(targets: KnownQQBotTarget[], options?: KnownQQBotTargetStoreOptions): void {
+/**
+ * 在文件锁内读取、修改并写回已知目标（目标为空时删除文件）
+ */
+function updateKnownTargets<R>(
+  options: KnownQQBotTargetStoreOptions | undefined,
+  mutator: (targets: KnownQQBotTarget[]) => { targets: KnownQQBotTarget[]; result: R }
+): R {
   const filePath = resolveKnownTargetsFilePath(options);
   migrateLegacyKnownTargets(filePath);
-  if (targets.length === 0) {
-    if (existsSync(filePath)) {
-      rmSync(filePath, { force: true });
-    }
-    return;
-  }
-
-  ensureKnownTargetsDir(filePath);
-  writeFileSync(filePath, `${JSON.stringify(targets, null, 2)}\n`, "utf8");
+  return updateJsonStateSync(filePath, knownTargetsSchema, (state) => {
+    const next = mutator(state.targets);
+    state.targets = next.targets;
+    return next.result;
+  });
 }
 
 export function upsertKnownQQBotTarget(params: UpsertKnownQQBotTargetParams): KnownQQBotTarget {
@@ -155,27 +171,28 @@ export function upsertKnownQQBotTarget(params: UpsertKnownQQBotTargetParams): Kn
     throw new Error("Known QQBot target requires a non-empty target");
   }
 
-  const targets = readKnownTargets(params);
-  const index = targets.findIndex(
-    (entry) => entry.accountId === next.accountId && entry.target === next.target
-  );
-
-  if (index >= 0) {
-    const existing = targets[index] as KnownQQBotTarget;
-    targets[index] = {
-      ...existing,
-      kind: next.kind,
-      sourceChatType: next.sourceChatType,
-      displayName: next.displayName ?? existing.displayName,
-      lastSeenAt: next.lastSeenAt,
-    };
-  } else {
-    targets.push(next);
-  }
+  return updateKnownTargets(params, (targets) => {
+    const index = targets.findIndex(
+      (entry) => entry.accountId === next.accountId && entry.target === next.target
+    );
+
+    let stored = next;
+    if (index >= 0) {
+      const existing = targets[index] as KnownQQBotTarget;
+      stored = {
+        ...existing,
+        kind: next.kind,
+        sourceChatType: next.sourceChatType,
+        displayName: next.displayName ?? existing.displayName,
+        lastSeenAt: next.lastSeenAt,
+      };
+      targets[index] = stored;
+    } else {
+      targets.push(next);
+    }
 
-  targets.sort(compareTargetsByLastSeenDesc);
-  writeKnownTargets(targets, params);
-  return index >= 0 ? (targets.find((entry) => entry.accountId === next.accountId && entry.target === next.target) as KnownQQBotTarget) : next;
+    return { targets: targets.sort(compareTargetsByLastSeenDesc), result: stored };
+  });
 }
 
 export function listKnownQQBotTargets(params: ListKnownQQBotTargetsParams = {}): KnownQQBotTarget[] {
@@ -211,42 +228,31 @@ export function removeKnownQQBotTarget(params: RemoveKnownQQBotTargetParams): bo
   const target = params.target.trim();
   if (!target) return false;
 
-  const before = readKnownTargets(params);
-  const filtered = before.filter((entry) => {
-    if (entry.target !== target) return true;
-    if (params.accountId?.trim()) {
-      return entry.accountId !== params.accountId.trim();
-    }
-    return false;
+  return updateKnownTargets(params, (before) => {
+    const filtered = before.filter((entry) => {
+      if (entry.target !== target) return true;
+      if (params.accountId?.trim()) {
+        return entry.accountId !== params.accountId.trim();
+      }
+      return false;
+    });
+    return { targets: filtered, result: filtered.length !== before.length };
   });
-
-  if (filtered.length === before.length) {
-    return false;
-  }
-
-  writeKnownTargets(filtered, params);
-  return true;
 }
 
 export function clearKnownQQBotTargets(params: ClearKnownQQBotTargetsParams = {}): number {
-  const before = readKnownTargets(params);
-  const filtered = before.filter((entry) => {
-    if (params.accountId?.trim() && entry.accountId !== params.accountId.trim()) {
-      return true;
-    }
-    if (params.kind && entry.kind !== params.kind) {
-      return true;
-    }
-    return false;
+  return updateKnownTargets(params, (before) => {
+    const filtered = before.filter((entry) => {
+      if (params.accountId?.trim() && entry.accountId !== params.accountId.trim()) {
+        return true;
+      }
+      if (params.kind && entry.kind !== params.kind) {
+        return true;
+      }
+      return false;
+    });
+    return { targets: filtered, result: before.length - filtered.length };
   });
-
-  const removed = before.length - filtered.length;
-  if (removed === 0) {
-    return 0;
-  }
-
-  writeKnownTargets(filtered, params);
-  return removed;
 }
 
 export async function sendProactiveQQBotMessage(params: {
@@ -1,6 +1,6 @@
-import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
 import { homedir } from "node:os";
-import { dirname, join } from "node:path";
+import { join } from "node:path";
+import { createKeyedLogStore } from "@openclaw-china/shared";
 
 export interface RefAttachmentSummary {
   type: "image" | "voice" | "video" | "file" | "unknown";
@@ -21,34 +21,17 @@ export interface RefIndexEntry {
   attachments?: RefAttachmentSummary[];
 }
 
-type StoredRefIndexEntry = RefIndexEntry & {
-  _createdAt: number;
-};
-
-type RefIndexLine = {
-  k: string;
-  v: RefIndexEntry;
-  t: number;
-};
-
 const REF_INDEX_FILE = join(homedir(), ".openclaw", "qqbot", "data", "ref-index.jsonl");
 const MAX_CONTENT_LENGTH = 500;
 const MAX_ENTRIES = 50000;
 const TTL_MS = 7 * 24 * 60 * 60 * 1000;
 const COMPACT_THRESHOLD_RATIO = 2;
 
-let cache: Map<string, StoredRefIndexEntry> | null = null;
-let totalLinesOnDisk = 0;
-
 function normalizeRefIdx(refIdx: string): string | undefined {
   const next = refIdx.trim();
   return next ? next : undefined;
 }
 
-function ensureStorageDir(): void {
-  mkdirSync(dirname(REF_INDEX_FILE), { recursive: true });
-}
-
 function truncateContent(content: string): string {
   return content.trim().slice(0, MAX_CONTENT_LENGTH);
 }
@@ -96,126 +79,22 @@ function sanitizeEntry(entry: RefIndexEntry): RefIndexEntry {
   };
 }
 
-function shouldCompact(): boolean {
-  if (!cache) return false;
-  return totalLinesOnDisk > cache.size * COMPACT_THRESHOLD_RATIO && totalLinesOnDisk > 1000;
-}
-
-function compactFile(): void {
-  if (!cache) return;
-
-  try {
-    ensureStorageDir();
-    const tempPath = `${REF_INDEX_FILE}.tmp`;
-    const lines: string[] = [];
-
-    for (const [key, entry] of cache.entries()) {
-      lines.push(
-        JSON.stringify({
-          k: key,
-          v: sanitizeEntry(entry),
-          t: entry._createdAt,
-        } satisfies RefIndexLine)
-      );
-    }
-
-    writeFileSync(tempPath, lines.length > 0 ? `${lines.join("\n")}\n` : "", "utf8");
-    renameSync(tempPath, REF_INDEX_FILE);
-    totalLinesOnDisk = cache.size;
-  } catch {
-    // Leave the in-memory cache intact even if compaction fails.
-  }
-}
-
-function evictIfNeeded(): void {
-  if (!cache || cache.size < MAX_ENTRIES) return;
-
-  const now = Date.now();
-  for (const [key, entry] of cache.entries()) {
-    if (now - entry._createdAt > TTL_MS) {
-      cache.delete(key);
-    }
-  }
-
-  if (cache.size < MAX_ENTRIES) {
-    return;
-  }
-
-  const sorted = [...cache.entries()].sort((left, right) => left[1]._createdAt - right[1]._createdAt);
-  const removeCount = cache.size - MAX_ENTRIES + 1;
-  for (let index = 0; index < removeCount; index += 1) {
-    const key = sorted[index]?.[0];
-    if (key) {
-      cache.delete(key);
-    }
-  }
-}
-
-function loadCache(): Map<string, StoredRefIndexEntry> {
-  if (cache) {
-    return cache;
-  }
-
-  cache = new Map<string, StoredRefIndexEntry>();
-  totalLinesOnDisk = 0;
-
-  try {
-    if (!existsSync(REF_INDEX_FILE)) {
-      return cache;
-    }
-
-    const now = Date.now();
-    const raw = readFileSync(REF_INDEX_FILE, "utf8");
-    const lines = raw.split(/\r?\n/);
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (!trimmed) continue;
-      totalLinesOnDisk += 1;
-
-      try {
-        const parsed = JSON.parse(trimmed) as Partial<RefIndexLine>;
-        const key = typeof parsed.k === "string" ? normalizeRefIdx(parsed.k) : undefined;
-        const createdAt = typeof parsed.t === "number" && Number.isFinite(parsed.t) ? parsed.t : undefined;
-        if (!key || createdAt === undefined || !parsed.v || typeof parsed.v !== "object") {
-          continue;
-        }
-        if (now - createdAt > TTL_MS) {
-          continue;
-        }
-
-        const entry = sanitizeEntry(parsed.v as RefIndexEntry);
-        cache.set(key, {
-          ...entry,
-          _createdAt: createdAt,
-        });
-      } catch {
-        // Ignore malformed lines and keep loading.
-      }
-    }
-
-    if (shouldCompact()) {
-      compactFile();
-    }
-  } catch {
-    cache = new Map<string, StoredRefIndexEntry>();
-    totalLinesOnDisk = 0;
-  }
-
-  return cache;
+function sanitizeStoredEntry(raw: unknown): RefIndexEntry | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const entry = raw as Partial<RefIndexEntry>;
+  if (typeof entry.content !== "string" || typeof entry.senderId !== "string") return undefined;
+  return sanitizeEntry(entry as RefIndexEntry);
 }
 
-function appendLine(line: RefIndexLine): void {
-  try {
-    ensureStorageDir();
-    appendFileSync(REF_INDEX_FILE, `${JSON.stringify(line)}\n`, "utf8");
-    totalLinesOnDisk += 1;
-  } catch {
-    // Persistence is best-effort; keep the in-memory cache even if disk write fails.
-  }
-}
+const store = createKeyedLogStore<RefIndexEntry>({
+  filePath: REF_INDEX_FILE,
+  ttlMs: TTL_MS,
+  maxEntries: MAX_ENTRIES,
+  compactRatio: COMPACT_THRESHOLD_RATIO,
+  sanitize: sanitizeStoredEntry,
+});
 
-function restoreEntry(entry: StoredRefIndexEntry): RefIndexEntry {
+function restoreEntry(entry: RefIndexEntry): RefIndexEntry {
   const sanitized = sanitizeEntry(entry);
   return {
     content: sanitized.content,
@@ -270,43 +149,15 @@ export function setRefIndex(refIdx: string, entry: RefIndexEntry): void {
   const key = normalizeRefIdx(refIdx);
   if (!key) return;
 
-  const store = loadCache();
-  evictIfNeeded();
-
-  const nextEntry = sanitizeEntry(entry);
-  const createdAt = Date.now();
-  store.set(key, {
-    ...nextEntry,
-    _createdAt: createdAt,
-  });
-
-  appendLine({
-    k: key,
-    v: nextEntry,
-    t: createdAt,
-  });
-
-  if (shouldCompact()) {
-    compactFile();
-  }
+  store.set(key, sanitizeEntry(entry));
 }
 
 export function getRefIndex(refIdx: string): RefIndexEntry | null {
   const key = normalizeRefIdx(refIdx);
   if (!key) return null;
 
-  const store = loadCache();
   const entry = store.get(key);
-  if (!entry) {
-    return null;
-  }
-
-  if (Date.now() - entry._createdAt > TTL_MS) {
-    store.delete(key);
-    return null;
-  }
-
-  return restoreEntry(entry);
+  return entry ? restoreEntry(entry) : null;
 }
 
 export function formatRefEntryForAgent(entry: RefIndexEntry): string {
@@ -321,7 +172,5 @@ export function formatRefEntryForAgent(entry: RefIndexEntry): string {
 }
 
 export function flushRefIndex(): void {
-  if (shouldCompact()) {
-    compactFile();
-  }
+  store.flush();
 }
@@ -42,6 +42,18 @@ export interface QQInboundAttachment {
   size?: number;
 }
 
+/** 按钮回调信息 */
+export interface QQBotInteraction {
+  /** 互动事件 ID（用于回应及被动回复） */
+  id: string;
+  /** 按钮 ID */
+  buttonId?: string;
+  /** 按钮回调数据 */
+  buttonData: string;
+  /** 按钮所在消息 ID */
+  messageId?: string;
+}
+
 export interface QQInboundMessage {
   type: QQChatType;
   senderId: string;
@@ -58,6 +70,8 @@ export interface QQInboundMessage {
   refMsgIdx?: string;
   msgIdx?: string;
   mentionedBot: boolean;
+  /** 按钮回调（INTERACTION_CREATE） */
+  interaction?: QQBotInteraction;
 }
 
 export interface InboundContext {
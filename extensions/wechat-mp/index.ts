@@ -3,6 +3,7 @@ import type { IncomingMessage, ServerResponse } from "http";
 import { registerChinaSetupCli, showChinaInstallHint } from "@openclaw-china/shared";
 
 import { wechatMpPlugin, DEFAULT_ACCOUNT_ID } from "./src/channel.js";
+import { registerWechatMpCli } from "./src/cli.js";
 import { setWechatMpRuntime, getWechatMpRuntime } from "./src/runtime.js";
 import { sendWechatMpActiveText } from "./src/send.js";
 import { handleWechatMpWebhookRequest } from "./src/webhook.js";
@@ -32,10 +33,46 @@ export type {
   PluginConfig,
   MoltbotPluginApi,
 };
+export type {
+  WechatMpMenuButtonConfig,
+  WechatMpMenuButtonType,
+  WechatMpMenuConfig,
+  WechatMpQrSceneRecord,
+  WechatMpSubscriber,
+  WechatMpSubscriberDirectory,
+} from "./src/types.js";
 
 export { wechatMpPlugin, DEFAULT_ACCOUNT_ID } from "./src/channel.js";
 export { setWechatMpRuntime, getWechatMpRuntime } from "./src/runtime.js";
 export { sendWechatMpActiveText } from "./src/send.js";
+export {
+  buildWechatMpMenu,
+  resolveMenuClickPrompt,
+  syncWechatMpMenu,
+  validateWechatMpMenu,
+  type WechatMpMenuSyncResult,
+  type WechatMpMenuSyncStatus,
+} from "./src/menu.js";
+export {
+  createWechatMpSceneQrCode,
+  parseQrSceneFromEvent,
+  resolveQrSceneAttribution,
+  validateQrScene,
+  type WechatMpQrSceneAttribution,
+  type WechatMpSceneQrCode,
+} from "./src/qrcode.js";
+export { listQrScenes } from "./src/state.js";
+export {
+  findWechatMpSubscribers,
+  listWechatMpDirectoryPeers,
+  resolveWechatMpTagMembers,
+  setWechatMpUserRemark,
+  syncWechatMpDirectory,
+  tagWechatMpUsers,
+  type WechatMpDirectoryPeer,
+  type WechatMpDirectorySyncResult,
+} from "./src/directory.js";
+export { runWechatMpDirectorySync, runWechatMpMenuSync } from "./src/cli.js";
 
 /**
  * Collect webhook paths for all configured accounts.
@@ -72,6 +109,7 @@ export function register(api: MoltbotPluginApi): void {
 
   if (api.registerCli) {
     registerChinaSetupCli(api, { channels: ["wechat-mp"] });
+    registerWechatMpCli(api);
   }
 
   showChinaInstallHint(api);
@@ -8,7 +8,7 @@
  */
 
 import type { ResolvedWechatMpAccount } from "./types.js";
-import { getAccessToken, isInvalidTokenError, clearAccessTokenCache } from "./token.js";
+import { withAccessToken } from "./token.js";
 import { buildWechatMpXml } from "./crypto.js";
 
 // ============================================================================
@@ -69,12 +69,6 @@ async function callApi<T = unknown>(
     }
   }
 
-  // Add access_token if required
-  if (config.requireToken !== false) {
-    const token = await getAccessToken(account);
-    url.searchParams.set("access_token", token);
-  }
-
   const fetchOptions: RequestInit = {
     method: config.method,
     headers: {
@@ -86,21 +80,20 @@ async function callApi<T = unknown>(
     fetchOptions.body = JSON.stringify(config.body);
   }
 
-  const response = await fetch(url.toString(), fetchOptions);
-  const data = (await response.json()) as WechatMpApiResponse<T>;
-
-  // Handle token expiry
-  if (data.errcode && isInvalidTokenError(data.errcode)) {
-    clearAccessTokenCache(account);
-    // Retry once with fresh token
-    const newToken = await getAccessToken(account);
-    url.searchParams.set("access_token", newToken);
+  const request = async (): Promise<WechatMpApiResponse<T>> => {
+    const response = await fetch(url.toString(), fetchOptions);
+    return (await response.json()) as WechatMpApiResponse<T>;
+  };
 
-    const retryResponse = await fetch(url.toString(), fetchOptions);
-    return (await retryResponse.json()) as WechatMpApiResponse<T>;
+  if (config.requireToken === false) {
+    return request();
   }
 
-  return data;
+  // Inject access_token; retried once with a fresh token on expiry
+  return withAccessToken(account, (token) => {
+    url.searchParams.set("access_token", token);
+    return request();
+  });
 }
 
 /**
@@ -188,27 +181,22 @@ export async function uploadWechatMpMedia(
   media: Buffer,
   filename?: string
 ): Promise<UploadMediaResult> {
-  const token = await getAccessToken(account);
-  const url = new URL(`${API_BASE}/cgi-bin/media/upload`);
-  url.searchParams.set("access_token", token);
-  url.searchParams.set("type", type);
+  const data = await withAccessToken(account, async (token) => {
+    const url = new URL(`${API_BASE}/cgi-bin/media/upload`);
+    url.searchParams.set("access_token", token);
+    url.searchParams.set("type", type);
 
-  const formData = new FormData();
-  const blob = new Blob([media]);
-  formData.append("media", blob, filename ?? `media.${type === "image" ? "jpg" : "mp3"}`);
+    const formData = new FormData();
+    const blob = new Blob([media]);
+    formData.append("media", blob, filename ?? `media.${type === "image" ? "jpg" : "mp3"}`);
 
-  const response = await fetch(url.toString(), {
-    method: "POST",
-    body: formData,
+    const response = await fetch(url.toString(), {
+      method: "POST",
+      body: formData,
+    });
+    return (await response.json()) as WechatMpApiResponse<UploadMediaResult>;
   });
 
-  const data = (await response.json()) as WechatMpApiResponse<UploadMediaResult>;
-
-  if (data.errcode && isInvalidTokenError(data.errcode)) {
-    clearAccessTokenCache(account);
-    return uploadWechatMpMedia(account, type, media, filename);
-  }
-
   if (data.errcode !== undefined && data.errcode !== 0) {
     throw new WechatMpApiErrorImpl(
       `Upload media failed: ${data.errmsg ?? "unknown error"}`,
@@ -229,36 +217,33 @@ export async function downloadWechatMpMedia(
   account: ResolvedWechatMpAccount,
   mediaId: string
 ): Promise<Buffer> {
-  const token = await getAccessToken(account);
-  const url = new URL(`${API_BASE}/cgi-bin/media/get`);
-  url.searchParams.set("access_token", token);
-  url.searchParams.set("media_id", mediaId);
-
-  const response = await fetch(url.toString());
-
-  // Check for JSON error response
-  const contentType = response.headers.get("content-type") ?? "";
-  if (contentType.includes("application/json")) {
-    const data = (await response.json()) as WechatMpApiResponse;
-
-    if (data.errcode && isInvalidTokenError(data.errcode)) {
-      clearAccessTokenCache(account);
-      return downloadWechatMpMedia(account, mediaId);
+  // Token errors are thrown as WechatMpApiError and retried once with a fresh token
+  return withAccessToken(account, async (token) => {
+    const url = new URL(`${API_BASE}/cgi-bin/media/get`);
+    url.searchParams.set("access_token", token);
+    url.searchParams.set("media_id", mediaId);
+
+    const response = await fetch(url.toString());
+
+    // Check for JSON error response
+    const contentType = response.headers.get("content-type") ?? "";
+    if (contentType.includes("application/json")) {
+      const data = (await response.json()) as WechatMpApiResponse;
+
+      if (data.errcode !== undefined && data.errcode !== 0) {
+        throw new WechatMpApiErrorImpl(
+          `Download media failed: ${data.errmsg ?? "unknown error"}`,
+          data.errcode,
+          data.errmsg ?? "unknown error",
+          account.accountId
+        );
+      }
     }
 
-    if (data.errcode !== undefined && data.errcode !== 0) {
-      throw new WechatMpApiErrorImpl(
-        `Download media failed: ${data.errmsg ?? "unknown error"}`,
-        data.errcode,
-        data.errmsg ?? "unknown error",
-        account.accountId
-      );
-    }
-  }
-
-  // Return binary content as Buffer
-  const arrayBuffer = await response.arrayBuffer();
-  return Buffer.from(arrayBuffer);
+    // Return binary content as Buffer
+    const arrayBuffer = await response.arrayBuffer();
+    return Buffer.from(arrayBuffer);
+  });
 }
 
 // ============================================================================
@@ -266,11 +251,14 @@ export async function downloadWechatMpMedia(
 // ============================================================================
 
 export interface MenuButton {
-  type: "click" | "view" | "scancode_push" | "scancode_waitmsg" | "pic_sysphoto" | "pic_photo_or_album" | "pic_weixin" | "location_select" | "media_id" | "view_limited";
+  type?: "click" | "view" | "miniprogram" | "scancode_push" | "scancode_waitmsg" | "pic_sysphoto" | "pic_photo_or_album" | "pic_weixin" | "location_select" | "media_id" | "view_limited" | "article_id" | "article_view_limited";
   name: string;
   key?: string;
   url?: string;
   media_id?: string;
+  appid?: string;
+  pagepath?: string;
+  article_id?: string;
   sub_button?: MenuButton[];
 }
 
@@ -314,6 +302,58 @@ export async function deleteWechatMpMenu(
   };
 }
 
+/**
+ * Current menu as returned by get_current_selfmenu_info.
+ * Sub buttons are wrapped in { list }, and buttons configured in the MP console
+ * carry their payload in `value`.
+ */
+export interface CurrentSelfMenuButton {
+  type?: string;
+  name: string;
+  key?: string;
+  url?: string;
+  value?: string;
+  media_id?: string;
+  appid?: string;
+  pagepath?: string;
+  article_id?: string;
+  sub_button?: { list?: CurrentSelfMenuButton[] };
+}
+
+export interface CurrentSelfMenuInfo {
+  is_menu_open: number;
+  selfmenu_info?: { button?: CurrentSelfMenuButton[] };
+}
+
+/**
+ * Get the menu currently in effect
+ * https://developers.weixin.qq.com/doc/offiaccount/Custom_Menus/Querying_Custom_Menus.html
+ */
+export async function getWechatMpCurrentMenu(
+  account: ResolvedWechatMpAccount
+): Promise<CurrentSelfMenuInfo> {
+  const response = await callApi(account, {
+    method: "GET",
+    path: "/cgi-bin/get_current_selfmenu_info",
+  });
+
+  if (response.errcode !== undefined && response.errcode !== 0) {
+    throw new WechatMpApiErrorImpl(
+      `Get current menu failed: ${response.errmsg ?? "unknown error"}`,
+      response.errcode,
+      response.errmsg ?? "unknown error",
+      account.accountId
+    );
+  }
+
+  // The endpoint returns the menu at the top level rather than under `data`
+  const info = response as unknown as Partial<CurrentSelfMenuInfo>;
+  return {
+    is_menu_open: info.is_menu_open ?? 0,
+    ...(info.selfmenu_info ? { selfmenu_info: info.selfmenu_info } : {}),
+  };
+}
+
 // ============================================================================
 // Template Message API
 // ============================================================================
@@ -355,3 +395,251 @@ export async function sendTemplateMessage(
     msgid: response.data?.msgid,
   };
 }
+
+// ============================================================================
+// QR Code API
+// ============================================================================
+
+export interface QrCodeParams {
+  /** Integer scene id or string scene (1-64 characters) */
+  scene: number | string;
+  /** Permanent QR codes never expire but are limited to 100000 per account */
+  permanent?: boolean;
+  /** Lifetime of a temporary QR code in seconds (max 2592000, default 30 days) */
+  expireSeconds?: number;
+}
+
+export interface QrCodeResult {
+  ticket: string;
+  /** Seconds until the QR code expires; absent for permanent codes */
+  expire_seconds?: number;
+  /** URL encoded in the QR code image */
+  url: string;
+}
+
+/** Maximum lifetime of a temporary QR code (30 days) */
+export const QR_CODE_MAX_EXPIRE_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Create a parametric QR code
+ * https://developers.weixin.qq.com/doc/offiaccount/Account_Management/Generating_a_Parametric_QR_Code.html
+ *
+ * @throws WechatMpApiError if the API returns an error
+ */
+export async function createWechatMpQrCode(
+  account: ResolvedWechatMpAccount,
+  params: QrCodeParams
+): Promise<QrCodeResult> {
+  const isStringScene = typeof params.scene === "string";
+  const actionName = params.permanent
+    ? isStringScene
+      ? "QR_LIMIT_STR_SCENE"
+      : "QR_LIMIT_SCENE"
+    : isStringScene
+      ? "QR_STR_SCENE"
+      : "QR_SCENE";
+
+  const response = await callApi(account, {
+    method: "POST",
+    path: "/cgi-bin/qrcode/create",
+    body: {
+      ...(params.permanent
+        ? {}
+        : { expire_seconds: params.expireSeconds ?? QR_CODE_MAX_EXPIRE_SECONDS }),
+      action_name: actionName,
+      action_info: {
+        scene: isStringScene ? { scene_str: params.scene } : { scene_id: params.scene },
+      },
+    },
+  });
+
+  if (response.errcode !== undefined && response.errcode !== 0) {
+    throw new WechatMpApiErrorImpl(
+      `Create QR code failed: ${response.errmsg ?? "unknown error"}`,
+      response.errcode,
+      response.errmsg ?? "unknown error",
+      account.accountId
+    );
+  }
+
+  // The endpoint returns the ticket at the top level rather than under `data`
+  const result = response as unknown as Partial<QrCodeResult>;
+  if (!result.ticket) {
+    throw new WechatMpApiErrorImpl("Create QR code failed: empty ticket", -1, "empty ticket", account.accountId);
+  }
+  return {
+    ticket: result.ticket,
+    ...(result.expire_seconds !== undefined ? { expire_seconds: result.expire_seconds } : {}),
+    url: result.url ?? "",
+  };
+}
+
+/**
+ * Image URL for a QR code ticket (no access_token required)
+ */
+export function buildWechatMpQrCodeImageUrl(ticket: string): string {
+  return `https://mp.weixin.qq.com/cgi-bin/showqrcode?ticket=${encodeURIComponent(ticket)}`;
+}
+
+// ============================================================================
+// User Management API
+// ============================================================================
+
+export interface FollowerListResult {
+  total: number;
+  count: number;
+  data?: { openid?: string[] };
+  /** Empty when the last page was returned */
+  next_openid?: string;
+}
+
+export interface UserInfo {
+  /** 0 when the user has unsubscribed */
+  subscribe: number;
+  openid: string;
+  nickname?: string;
+  language?: string;
+  subscribe_time?: number;
+  remark?: string;
+  tagid_list?: number[];
+  subscribe_scene?: string;
+  qr_scene?: number;
+  qr_scene_str?: string;
+}
+
+export interface UserTag {
+  id: number;
+  name: string;
+  count?: number;
+}
+
+/** Openids returned per user/get and user/tag/get page */
+export const FOLLOWER_PAGE_SIZE = 10000;
+/** Openids accepted per user/info/batchget call */
+export const USER_INFO_BATCH_SIZE = 100;
+/** Openids accepted per tags/members/batchtagging call */
+export const TAG_MEMBERS_BATCH_SIZE = 50;
+
+function unwrapFlatResponse<T>(
+  account: ResolvedWechatMpAccount,
+  action: string,
+  response: WechatMpApiResponse
+): T {
+  if (response.errcode !== undefined && response.errcode !== 0) {
+    throw new WechatMpApiErrorImpl(
+      `${action} failed: ${response.errmsg ?? "unknown error"}`,
+      response.errcode,
+      response.errmsg ?? "unknown error",
+      account.accountId
+    );
+  }
+  // User management endpoints return their payload at the top level rather than under `data`
+  return response as unknown as T;
+}
+
+/**
+ * Get one page of follower openids
+ * https://developers.weixin.qq.com/doc/offiaccount/User_Management/Getting_a_User_List.html
+ */
+export async function getWechatMpFollowers(
+  account: ResolvedWechatMpAccount,
+  nextOpenId?: string
+): Promise<FollowerListResult> {
+  const response = await callApi(account, {
+    method: "GET",
+    path: "/cgi-bin/user/get",
+    ...(nextOpenId ? { params: { next_openid: nextOpenId } } : {}),
+  });
+  return unwrapFlatResponse<FollowerListResult>(account, "Get followers", response);
+}
+
+/**
+ * Get basic info of up to 100 users
+ * https://developers.weixin.qq.com/doc/offiaccount/User_Management/Get_users_basic_information_UnionID.html
+ */
+export async function batchGetWechatMpUserInfo(
+  account: ResolvedWechatMpAccount,
+  openIds: string[]
+): Promise<UserInfo[]> {
+  const response = await callApi(account, {
+    method: "POST",
+    path: "/cgi-bin/user/info/batchget",
+    body: { user_list: openIds.map((openid) => ({ openid, lang: "zh_CN" })) },
+  });
+  return unwrapFlatResponse<{ user_info_list?: UserInfo[] }>(account, "Batch get user info", response)
+    .user_info_list ?? [];
+}
+
+/**
+ * Set the remark of a follower
+ */
+export async function updateWechatMpUserRemark(
+  account: ResolvedWechatMpAccount,
+  openId: string,
+  remark: string
+): Promise<void> {
+  const response = await callApi(account, {
+    method: "POST",
+    path: "/cgi-bin/user/info/updateremark",
+    body: { openid: openId, remark },
+  });
+  unwrapFlatResponse(account, "Update user remark", response);
+}
+
+/**
+ * List all tags
+ * https://developers.weixin.qq.com/doc/offiaccount/User_Management/User_Tag_Management.html
+ */
+export async function getWechatMpTags(account: ResolvedWechatMpAccount): Promise<UserTag[]> {
+  const response = await callApi(account, {
+    method: "GET",
+    path: "/cgi-bin/tags/get",
+  });
+  return unwrapFlatResponse<{ tags?: UserTag[] }>(account, "Get tags", response).tags ?? [];
+}
+
+/**
+ * Create a tag
+ */
+export async function createWechatMpTag(
+  account: ResolvedWechatMpAccount,
+  name: string
+): Promise<UserTag> {
+  const response = await callApi(account, {
+    method: "POST",
+    path: "/cgi-bin/tags/create",
+    body: { tag: { name } },
+  });
+  return unwrapFlatResponse<{ tag: UserTag }>(account, "Create tag", response).tag;
+}
+
+/**
+ * Get one page of openids carrying a tag
+ */
+export async function getWechatMpTagFollowers(
+  account: ResolvedWechatMpAccount,
+  tagId: number,
+  nextOpenId?: string
+): Promise<FollowerListResult> {
+  const response = await callApi(account, {
+    method: "POST",
+    path: "/cgi-bin/user/tag/get",
+    body: { tagid: tagId, next_openid: nextOpenId ?? "" },
+  });
+  return unwrapFlatResponse<FollowerListResult>(account, "Get tag followers", response);
+}
+
+/**
+ * Add a tag to (or remove it from) up to 50 users
+ */
+export async function batchTagWechatMpUsers(
+  account: ResolvedWechatMpAccount,
+  params: { tagId: number; openIds: string[]; untag?: boolean }
+): Promise<void> {
+  const response = await callApi(account, {
+    method: "POST",
+    path: params.untag ? "/cgi-bin/tags/members/batchuntagging" : "/cgi-bin/tags/members/batchtagging",
+    body: { openid_list: params.openIds, tagid: params.tagId },
+  });
+  unwrapFlatResponse(account, params.untag ? "Batch untag users" : "Batch tag users", response);
+}
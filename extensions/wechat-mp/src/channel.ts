@@ -5,6 +5,8 @@ import {
   resolveDefaultWechatMpAccountId,
   resolveWechatMpAccount,
 } from "./config.js";
+import { listWechatMpDirectoryPeers } from "./directory.js";
+import { syncWechatMpMenu } from "./menu.js";
 import { wechatMpOnboardingAdapter } from "./onboarding.js";
 import { wechatMpOutbound } from "./outbound.js";
 import { probeWechatMpAccount } from "./probe.js";
@@ -18,14 +20,17 @@ export type { ResolvedWechatMpAccount } from "./types.js";
 
 type ParsedDirectTarget = {
   accountId?: string;
-  openId: string;
+  kind: "user" | "tag";
+  /** openid, or tag name for `tag:<name>` */
+  id: string;
 };
 
 const unregisterHooks = new Map<string, () => void>();
 
 /**
- * Parse a direct target string into accountId and openId components.
- * Supports formats: "wechat-mp:user:<openId>@<accountId>", "user:<openId>@<accountId>", "<openId>@<accountId>"
+ * Parse a direct target string into accountId and openId (or tag) components.
+ * Supports formats: "wechat-mp:user:<openId>@<accountId>", "user:<openId>@<accountId>", "<openId>@<accountId>",
+ * "tag:<name>@<accountId>"
  */
 function parseDirectTarget(rawTarget: string): ParsedDirectTarget | null {
   let raw = String(rawTarget ?? "").trim();
@@ -42,14 +47,79 @@ function parseDirectTarget(rawTarget: string): ParsedDirectTarget | null {
     raw = raw.slice(0, atIndex);
   }
 
+  if (/^tag:/i.test(raw)) {
+    const tag = raw.slice("tag:".length).trim();
+    return tag ? { accountId, kind: "tag", id: tag } : null;
+  }
+
   if (/^user:/i.test(raw)) {
     raw = raw.slice("user:".length);
   }
 
   const openId = raw.trim();
-  return openId ? { accountId, openId } : null;
+  return openId ? { accountId, kind: "user", id: openId } : null;
+}
+
+function formatDirectTarget(parsed: ParsedDirectTarget): string {
+  return `${parsed.kind}:${parsed.id}`;
 }
 
+const MENU_BUTTON_TYPES = [
+  "click",
+  "view",
+  "miniprogram",
+  "scancode_push",
+  "scancode_waitmsg",
+  "pic_sysphoto",
+  "pic_photo_or_album",
+  "pic_weixin",
+  "location_select",
+  "media_id",
+  "article_id",
+  "article_view_limited",
+];
+
+const menuLeafButtonProperties = {
+  name: { type: "string" },
+  type: { type: "string", enum: MENU_BUTTON_TYPES },
+  key: { type: "string" },
+  url: { type: "string" },
+  appId: { type: "string" },
+  pagePath: { type: "string" },
+  mediaId: { type: "string" },
+  articleId: { type: "string" },
+  prompt: { type: "string" },
+};
+
+const menuSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    syncOnStart: { type: "boolean" },
+    buttons: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["name"],
+        properties: {
+          ...menuLeafButtonProperties,
+          subButtons: {
+            type: "array",
+            items: {
+              type: "object",
+              additionalProperties: false,
+              required: ["name"],
+              properties: menuLeafButtonProperties,
+            },
+          },
+        },
+      },
+    },
+  },
+  required: ["buttons"],
+};
+
 /**
  * JSON Schema for wechat-mp configuration validation.
  */
@@ -72,6 +142,8 @@ const wechatMpConfigSchema = {
     welcomeText: { type: "string" },
     dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist", "disabled"] },
     allowFrom: { type: "array", items: { type: "string" } },
+    persistAccessToken: { type: "boolean" },
+    menu: menuSchema,
     accounts: {
       type: "object",
       additionalProperties: {
@@ -92,6 +164,8 @@ const wechatMpConfigSchema = {
           welcomeText: { type: "string" },
           dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist", "disabled"] },
           allowFrom: { type: "array", items: { type: "string" } },
+          persistAccessToken: { type: "boolean" },
+          menu: menuSchema,
         },
       },
     },
@@ -135,15 +209,15 @@ export const wechatMpPlugin = {
   messaging: {
     normalizeTarget: (raw: string): string | undefined => {
       const parsed = parseDirectTarget(raw);
-      return parsed ? `user:${parsed.openId}${parsed.accountId ? `@${parsed.accountId}` : ""}` : undefined;
+      return parsed ? `${formatDirectTarget(parsed)}${parsed.accountId ? `@${parsed.accountId}` : ""}` : undefined;
     },
     targetResolver: {
       looksLikeId: (raw: string, normalized?: string) => Boolean(parseDirectTarget(normalized ?? raw)),
-      hint: "Use openid only: user:<openid> (optional @accountId).",
+      hint: "Use openid: user:<openid>, or tag:<name> for every member of a tag (optional @accountId).",
     },
     formatTargetDisplay: (params: { target: string; display?: string }) => {
       const parsed = parseDirectTarget(params.target);
-      return parsed ? `user:${parsed.openId}` : params.display?.trim() || params.target;
+      return parsed ? formatDirectTarget(parsed) : params.display?.trim() || params.target;
     },
   },
 
@@ -300,7 +374,8 @@ export const wechatMpPlugin = {
         ? {
             channel: "wechat-mp",
             accountId: parsed.accountId,
-            to: parsed.openId,
+            // Tag targets keep their prefix so they are not mistaken for an openid
+            to: parsed.kind === "user" ? parsed.id : formatDirectTarget(parsed),
           }
         : null;
     },
@@ -314,7 +389,24 @@ export const wechatMpPlugin = {
       }
       return results;
     },
-    getTargetFormats: () => ["wechat-mp:user:<openid>", "user:<openid>", "<openid>"],
+    getTargetFormats: () => ["wechat-mp:user:<openid>", "user:<openid>", "<openid>", "tag:<name>"],
+
+    /**
+     * Look up followers in the subscriber directory by remark, nickname, openid or `tag:<name>`.
+     * The directory is synced on first use; use `openclaw wechat-mp directory sync` to refresh it.
+     */
+    listPeers: async (params: { cfg: PluginConfig; accountId?: string; query?: string; limit?: number }) => {
+      const account = resolveWechatMpAccount({ cfg: params.cfg, accountId: params.accountId });
+      const peers = await listWechatMpDirectoryPeers(account, { query: params.query, limit: params.limit });
+      return peers.map((peer) => ({
+        channel: "wechat-mp",
+        accountId: account.accountId,
+        kind: "user" as const,
+        id: peer.id,
+        name: peer.name,
+        tags: peer.tags,
+      }));
+    },
   },
 
   outbound: wechatMpOutbound,
@@ -370,6 +462,22 @@ export const wechatMpPlugin = {
         webhookPath: path,
         lastStartAt,
       });
+      if (account.config.menu && account.config.menu.syncOnStart !== false) {
+        void syncWechatMpMenu(account)
+          .then((result) => {
+            if (result.status === "invalid") {
+              ctx.log?.error?.(`[wechat-mp] menu config invalid: ${result.errors?.join("; ")}`);
+              return;
+            }
+            ctx.log?.info?.(`[wechat-mp] account ${account.accountId} menu sync: ${result.status}`);
+          })
+          .catch(async (err) => {
+            const message = err instanceof Error ? err.message : String(err);
+            await updateAccountState(account.accountId, { lastError: `menu sync failed: ${message}` });
+            ctx.log?.error?.(`[wechat-mp] menu sync failed: ${message}`);
+          });
+      }
+
       const state = await getAccountState(account.accountId);
       ctx.setStatus?.({
         accountId: account.accountId,
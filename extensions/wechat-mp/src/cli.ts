@@ -0,0 +1,185 @@
+/**
+ * WeChat MP CLI commands
+ *
+ * - openclaw wechat-mp menu sync [accountId]: push the configured menu if it changed
+ * - openclaw wechat-mp menu push [accountId]: push the configured menu unconditionally
+ * - openclaw wechat-mp directory sync [accountId]: refresh new / stale followers in the subscriber directory
+ * - openclaw wechat-mp directory resync [accountId]: refetch every follower
+ */
+
+import { listWechatMpAccountIds, resolveWechatMpAccount } from "./config.js";
+import { syncWechatMpDirectory } from "./directory.js";
+import { syncWechatMpMenu } from "./menu.js";
+import type { MoltbotPluginApi, PluginConfig } from "./types.js";
+
+type CommandLike = {
+  command: (name: string) => CommandLike;
+  description: (text: string) => CommandLike;
+  action: (handler: (...args: unknown[]) => void | Promise<void>) => CommandLike;
+};
+
+type LoggerLike = {
+  info?: (message: string) => void;
+  error?: (message: string) => void;
+};
+
+let cliRegistered = false;
+
+function isCommandLike(value: unknown): value is CommandLike {
+  if (!value || typeof value !== "object") return false;
+  const record = value as Record<string, unknown>;
+  return (
+    typeof record.command === "function" &&
+    typeof record.description === "function" &&
+    typeof record.action === "function"
+  );
+}
+
+/**
+ * Sync menus for one account or every configured account.
+ * @returns true when all accounts synced without errors
+ */
+export async function runWechatMpMenuSync(params: {
+  cfg: PluginConfig;
+  accountId?: string;
+  force?: boolean;
+  logger: LoggerLike;
+}): Promise<boolean> {
+  const accountIds = params.accountId ? [params.accountId] : listWechatMpAccountIds(params.cfg);
+  let ok = true;
+
+  for (const accountId of accountIds) {
+    const account = resolveWechatMpAccount({ cfg: params.cfg, accountId });
+    if (!account.config.menu) {
+      params.logger.info?.(`[${accountId}] 未配置 menu，跳过`);
+      continue;
+    }
+    if (!account.canSendActive) {
+      params.logger.error?.(`[${accountId}] 缺少 appId/appSecret，无法同步菜单`);
+      ok = false;
+      continue;
+    }
+
+    try {
+      const result = await syncWechatMpMenu(account, { force: params.force });
+      if (result.status === "invalid") {
+        ok = false;
+        params.logger.error?.(`[${accountId}] 菜单配置无效:\n  ${(result.errors ?? []).join("\n  ")}`);
+        continue;
+      }
+      const labels: Record<string, string> = {
+        skipped: "已跳过",
+        unchanged: "菜单未变化",
+        updated: "菜单已更新",
+        deleted: "菜单已删除",
+      };
+      params.logger.info?.(`[${accountId}] ${labels[result.status] ?? result.status}`);
+    } catch (err) {
+      ok = false;
+      params.logger.error?.(`[${accountId}] 菜单同步失败: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  return ok;
+}
+
+/**
+ * Sync the subscriber directory for one account or every configured account.
+ * @returns true when all accounts synced without errors
+ */
+export async function runWechatMpDirectorySync(params: {
+  cfg: PluginConfig;
+  accountId?: string;
+  full?: boolean;
+  logger: LoggerLike;
+}): Promise<boolean> {
+  const accountIds = params.accountId ? [params.accountId] : listWechatMpAccountIds(params.cfg);
+  let ok = true;
+
+  for (const accountId of accountIds) {
+    const account = resolveWechatMpAccount({ cfg: params.cfg, accountId });
+    if (!account.canSendActive) {
+      params.logger.error?.(`[${accountId}] 缺少 appId/appSecret，无法同步粉丝列表`);
+      ok = false;
+      continue;
+    }
+
+    try {
+      const result = await syncWechatMpDirectory(account, { full: params.full });
+      params.logger.info?.(
+        `[${accountId}] 粉丝 ${result.total} 人（新增 ${result.added}，移除 ${result.removed}，刷新 ${result.refreshed}）`
+      );
+    } catch (err) {
+      ok = false;
+      params.logger.error?.(`[${accountId}] 粉丝同步失败: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  return ok;
+}
+
+export function registerWechatMpCli(api: MoltbotPluginApi): void {
+  if (cliRegistered || typeof api.registerCli !== "function") {
+    return;
+  }
+  cliRegistered = true;
+
+  api.registerCli(
+    (ctx) => {
+      const logger: LoggerLike = {
+        info: (message) => console.log(message),
+        error: (message) => console.error(message),
+      };
+      if (!isCommandLike(ctx.program)) {
+        logger.error?.("无法注册 wechat-mp 命令：CLI program 实例无效。");
+        return;
+      }
+
+      const root = ctx.program.command("wechat-mp").description("微信公众号插件命令");
+      const menu = root.command("menu").description("管理公众号自定义菜单");
+
+      const run = async (accountId: unknown, force: boolean) => {
+        const ok = await runWechatMpMenuSync({
+          cfg: ctx.config ?? api.config ?? {},
+          accountId: typeof accountId === "string" && accountId.trim() ? accountId.trim() : undefined,
+          force,
+          logger,
+        });
+        if (!ok) process.exitCode = 1;
+      };
+
+      menu
+        .command("sync [accountId]")
+        .description("与当前菜单对比，有变化时推送配置中的菜单")
+        .action((accountId) => run(accountId, false));
+
+      menu
+        .command("push [accountId]")
+        .description("强制推送配置中的菜单")
+        .action((accountId) => run(accountId, true));
+
+      const directory = root.command("directory").description("管理公众号粉丝目录");
+
+      const runDirectory = async (accountId: unknown, full: boolean) => {
+        const ok = await runWechatMpDirectorySync({
+          cfg: ctx.config ?? api.config ?? {},
+          accountId: typeof accountId === "string" && accountId.trim() ? accountId.trim() : undefined,
+          full,
+          logger,
+        });
+        if (!ok) process.exitCode = 1;
+      };
+
+      directory
+        .command("sync [accountId]")
+        .description("增量同步粉丝列表、备注与标签")
+        .action((accountId) => runDirectory(accountId, false));
+
+      directory
+        .command("resync [accountId]")
+        .description("重新拉取全部粉丝信息")
+        .action((accountId) => runDirectory(accountId, true));
+    },
+    { commands: ["wechat-mp"] }
+  );
+}
@@ -90,6 +90,7 @@ export function resolveWechatMpAccount(params: {
         welcomeText: channelCfg.welcomeText,
         dmPolicy: channelCfg.dmPolicy,
         allowFrom: channelCfg.allowFrom,
+        persistAccessToken: channelCfg.persistAccessToken,
         retryConfig: channelCfg.retryConfig,
         asr: channelCfg.asr,
         ...dedicatedAccount,
@@ -109,6 +110,7 @@ export function resolveWechatMpAccount(params: {
         welcomeText: channelCfg.welcomeText,
         dmPolicy: channelCfg.dmPolicy,
         allowFrom: channelCfg.allowFrom,
+        persistAccessToken: channelCfg.persistAccessToken,
         retryConfig: channelCfg.retryConfig,
         asr: channelCfg.asr,
       };
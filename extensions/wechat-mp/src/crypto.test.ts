@@ -40,6 +40,56 @@ describe("wechat-mp crypto", () => {
     ).toBe(false);
   });
 
+  it("trims padded callback parameters before signing", () => {
+    const signature = computeSignature({
+      token: "callback-token",
+      timestamp: "1710000000",
+      nonce: "nonce-1",
+    });
+
+    expect(computeSignature({ token: " callback-token\n", timestamp: "1710000000 ", nonce: "nonce-1" })).toBe(
+      signature
+    );
+    expect(
+      verifySignature({ token: "  callback-token ", timestamp: "1710000000", nonce: " nonce-1", signature })
+    ).toBe(true);
+
+    const msgSignature = computeMsgSignature({
+      token: "callback-token",
+      timestamp: "1710000000",
+      nonce: "nonce-1",
+      encrypt: "encrypted-body",
+    });
+    expect(
+      verifyMsgSignature({
+        token: "callback-token\t",
+        timestamp: "1710000000",
+        nonce: "nonce-1",
+        encrypt: " encrypted-body\n",
+        msgSignature,
+      })
+    ).toBe(true);
+  });
+
+  it("trims the decrypted appId and the encrypted payload", () => {
+    const encrypted = encryptWechatMpMessage({
+      encodingAESKey,
+      appId: `${appId} `,
+      plaintext: "<xml></xml>",
+    }).encrypt;
+
+    const decrypted = decryptWechatMpMessage({
+      encodingAESKey,
+      encrypt: `\n${encrypted} `,
+      expectedAppId: appId,
+    });
+
+    expect(decrypted.appId).toBe(appId);
+    expect(() =>
+      decryptWechatMpMessage({ encodingAESKey, encrypt: encrypted, expectedAppId: "wx-other" })
+    ).toThrow(/AppId mismatch/);
+  });
+
   it("encrypts and decrypts safe-mode payloads", () => {
     const plaintext = buildWechatMpXml({
       ToUserName: appId,
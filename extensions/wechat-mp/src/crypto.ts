@@ -10,19 +10,30 @@
  * - encryptWechatMpMessage: Encrypt plaintext for encrypted reply (safe mode)
  * - parseWechatMpXml: Parse XML message body
  * - buildWechatMpXml: Build XML message for passive reply
+ *
+ * Signatures and AES payloads use the shared WXBizMsgCrypt implementation in @openclaw-china/shared.
+ * Callback parameters and the decrypted AppID are trimmed before use, since
+ * tokens copied from the MP console often carry stray whitespace.
  */
 
-import crypto from "node:crypto";
+import {
+  buildWxBizXmlEnvelope,
+  computeWxBizSignature,
+  decryptWxBizMessage,
+  encryptWxBizMessage,
+  verifyWxBizSignature,
+  WxBizMsgCryptError,
+} from "@openclaw-china/shared";
 import type { ResolvedWechatMpAccount } from "./types.js";
 
-const BLOCK_SIZE = 32;
-const AES_KEY_SIZE = 32;
-const IV_SIZE = 16;
-
 // ============================================================================
 // Signature Utilities
 // ============================================================================
 
+function trimParam(value: string | undefined): string {
+  return String(value ?? "").trim();
+}
+
 /**
  * Compute signature for GET callback verification
  * Used for URL callback verification
@@ -32,10 +43,11 @@ export function computeSignature(params: {
   timestamp: string;
   nonce: string;
 }): string {
-  const parts = [params.token, params.timestamp, params.nonce]
-    .map((v) => String(v ?? "").trim())
-    .sort();
-  return crypto.createHash("sha1").update(parts.join("")).digest("hex");
+  return computeWxBizSignature({
+    token: trimParam(params.token),
+    timestamp: trimParam(params.timestamp),
+    nonce: trimParam(params.nonce),
+  });
 }
 
 /**
@@ -47,12 +59,12 @@ export function verifySignature(params: {
   nonce: string;
   signature: string;
 }): boolean {
-  const computed = computeSignature({
-    token: params.token,
-    timestamp: params.timestamp,
-    nonce: params.nonce,
+  return verifyWxBizSignature({
+    token: trimParam(params.token),
+    timestamp: trimParam(params.timestamp),
+    nonce: trimParam(params.nonce),
+    signature: params.signature,
   });
-  return computed === params.signature;
 }
 
 /**
@@ -64,10 +76,12 @@ export function computeMsgSignature(params: {
   nonce: string;
   encrypt: string;
 }): string {
-  const parts = [params.token, params.timestamp, params.nonce, params.encrypt]
-    .map((v) => String(v ?? "").trim())
-    .sort();
-  return crypto.createHash("sha1").update(parts.join("")).digest("hex");
+  return computeWxBizSignature({
+    token: trimParam(params.token),
+    timestamp: trimParam(params.timestamp),
+    nonce: trimParam(params.nonce),
+    encrypt: trimParam(params.encrypt),
+  });
 }
 
 /**
@@ -80,66 +94,19 @@ export function verifyMsgSignature(params: {
   encrypt: string;
   msgSignature: string;
 }): boolean {
-  const computed = computeMsgSignature({
-    token: params.token,
-    timestamp: params.timestamp,
-    nonce: params.nonce,
-    encrypt: params.encrypt,
+  return verifyWxBizSignature({
+    token: trimParam(params.token),
+    timestamp: trimParam(params.timestamp),
+    nonce: trimParam(params.nonce),
+    encrypt: trimParam(params.encrypt),
+    signature: params.msgSignature,
   });
-  return computed === params.msgSignature;
 }
 
 // ============================================================================
 // AES Encryption/Decryption
 // ============================================================================
 
-/**
- * Decode encodingAESKey from base64 to 32-byte AES key
- */
-function decodeEncodingAESKey(encodingAESKey: string): Buffer {
-  const trimmed = encodingAESKey.trim();
-  if (!trimmed) {
-    throw new Error("encodingAESKey is required");
-  }
-  // Add base64 padding if needed
-  const withPadding = trimmed.endsWith("=") ? trimmed : `${trimmed}=`;
-  const decoded = Buffer.from(withPadding, "base64");
-  if (decoded.length !== AES_KEY_SIZE) {
-    throw new Error(
-      `Invalid encodingAESKey: expected ${AES_KEY_SIZE} bytes, got ${decoded.length}`
-    );
-  }
-  return decoded;
-}
-
-/**
- * PKCS7 unpad
- */
-function pkcs7Unpad(buf: Buffer, blockSize: number): Buffer {
-  if (buf.length === 0) {
-    throw new Error("Invalid PKCS7 payload: empty buffer");
-  }
-  const pad = buf[buf.length - 1];
-  if (pad < 1 || pad > blockSize) {
-    throw new Error(`Invalid PKCS7 padding: ${pad}`);
-  }
-  for (let i = 1; i <= pad; i++) {
-    if (buf[buf.length - i] !== pad) {
-      throw new Error("Invalid PKCS7 padding: inconsistent bytes");
-    }
-  }
-  return buf.subarray(0, buf.length - pad);
-}
-
-/**
- * PKCS7 pad
- */
-function pkcs7Pad(buf: Buffer, blockSize: number): Buffer {
-  const padLen = blockSize - (buf.length % blockSize);
-  const pad = Buffer.alloc(padLen, padLen);
-  return Buffer.concat([buf, pad]);
-}
-
 /**
  * Decrypt AES-256-CBC encrypted message (safe mode)
  * Returns the plaintext XML content
@@ -149,39 +116,18 @@ export function decryptWechatMpMessage(params: {
   encrypt: string;
   expectedAppId?: string;
 }): { plaintext: string; appId: string } {
-  const aesKey = decodeEncodingAESKey(params.encodingAESKey);
-  const iv = aesKey.subarray(0, IV_SIZE);
-
-  const decipher = crypto.createDecipheriv("aes-256-cbc", aesKey, iv);
-  decipher.setAutoPadding(false);
-
-  const decryptedPadded = Buffer.concat([
-    decipher.update(Buffer.from(params.encrypt, "base64")),
-    decipher.final(),
-  ]);
-
-  const decrypted = pkcs7Unpad(decryptedPadded, BLOCK_SIZE);
-
-  // Format: random(16) + msgLen(4) + msg + appId
-  if (decrypted.length < 20) {
-    throw new Error(`Invalid decrypted payload length: ${decrypted.length}`);
-  }
-
-  const msgLen = decrypted.readUInt32BE(16);
-  const msgStart = 20;
-  const msgEnd = msgStart + msgLen;
-
-  if (msgEnd > decrypted.length) {
-    throw new Error("Invalid decrypted message length");
-  }
-
-  const plaintext = decrypted.subarray(msgStart, msgEnd).toString("utf8");
-  const appId = decrypted.subarray(msgEnd).toString("utf8").trim();
+  const { plaintext, receiveId } = decryptWxBizMessage({
+    encodingAESKey: params.encodingAESKey,
+    encrypt: trimParam(params.encrypt),
+  });
+  const appId = receiveId.trim();
 
   // Verify appId if expected
-  if (params.expectedAppId && appId !== params.expectedAppId) {
-    throw new Error(
-      `AppId mismatch: expected "${params.expectedAppId}", got "${appId}"`
+  const expectedAppId = params.expectedAppId?.trim();
+  if (expectedAppId && appId !== expectedAppId) {
+    throw new WxBizMsgCryptError(
+      `AppId mismatch: expected "${expectedAppId}", got "${appId}"`,
+      "receive_id_mismatch"
     );
   }
 
@@ -196,27 +142,13 @@ export function encryptWechatMpMessage(params: {
   appId: string;
   plaintext: string;
 }): { encrypt: string } {
-  const aesKey = decodeEncodingAESKey(params.encodingAESKey);
-  const iv = aesKey.subarray(0, IV_SIZE);
-
-  // Build plaintext: random(16) + msgLen(4) + msg + appId
-  const randomBytes = crypto.randomBytes(16);
-  const msgBuffer = Buffer.from(params.plaintext, "utf8");
-  const msgLenBuffer = Buffer.alloc(4);
-  msgLenBuffer.writeUInt32BE(msgBuffer.length, 0);
-  const appIdBuffer = Buffer.from(params.appId, "utf8");
-
-  const plainBuffer = Buffer.concat([randomBytes, msgLenBuffer, msgBuffer, appIdBuffer]);
-
-  // PKCS7 pad
-  const padded = pkcs7Pad(plainBuffer, BLOCK_SIZE);
-
-  // Encrypt
-  const cipher = crypto.createCipheriv("aes-256-cbc", aesKey, iv);
-  cipher.setAutoPadding(false);
-  const encryptedBuffer = Buffer.concat([cipher.update(padded), cipher.final()]);
-
-  return { encrypt: encryptedBuffer.toString("base64") };
+  return {
+    encrypt: encryptWxBizMessage({
+      encodingAESKey: params.encodingAESKey,
+      plaintext: params.plaintext,
+      receiveId: params.appId,
+    }),
+  };
 }
 
 /**
@@ -228,12 +160,7 @@ export function buildEncryptedReplyXml(params: {
   timestamp: string;
   nonce: string;
 }): string {
-  return `<xml>
-<Encrypt><![CDATA[${params.encrypt}]]></Encrypt>
-<MsgSignature><![CDATA[${params.signature}]]></MsgSignature>
-<TimeStamp>${params.timestamp}</TimeStamp>
-<Nonce><![CDATA[${params.nonce}]]></Nonce>
-</xml>`;
+  return buildWxBizXmlEnvelope(params);
 }
 
 // ============================================================================
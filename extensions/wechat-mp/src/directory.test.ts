@@ -0,0 +1,164 @@
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  getWechatMpFollowers: vi.fn(),
+  batchGetWechatMpUserInfo: vi.fn(),
+  getWechatMpTags: vi.fn(),
+  createWechatMpTag: vi.fn(),
+  getWechatMpTagFollowers: vi.fn(),
+  batchTagWechatMpUsers: vi.fn(),
+  sendWechatMpMessage: vi.fn(),
+}));
+
+vi.mock("./api.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./api.js")>()),
+  getWechatMpFollowers: mocks.getWechatMpFollowers,
+  batchGetWechatMpUserInfo: mocks.batchGetWechatMpUserInfo,
+  getWechatMpTags: mocks.getWechatMpTags,
+  createWechatMpTag: mocks.createWechatMpTag,
+  getWechatMpTagFollowers: mocks.getWechatMpTagFollowers,
+  batchTagWechatMpUsers: mocks.batchTagWechatMpUsers,
+  sendWechatMpMessage: mocks.sendWechatMpMessage,
+}));
+
+import { listWechatMpDirectoryPeers, syncWechatMpDirectory, tagWechatMpUsers } from "./directory.js";
+import { sendWechatMpActiveText } from "./send.js";
+import {
+  flushWechatMpStateForTests,
+  markProcessedMessage,
+  setWechatMpStateFilePathForTests,
+} from "./state.js";
+import type { ResolvedWechatMpAccount } from "./types.js";
+
+function createAccount(): ResolvedWechatMpAccount {
+  return {
+    accountId: "default",
+    enabled: true,
+    configured: true,
+    canSendActive: true,
+    appId: "wx-test-appid",
+    appSecret: "secret",
+    config: {
+      appId: "wx-test-appid",
+      appSecret: "secret",
+    },
+  };
+}
+
+function userInfo(openid: string, remark: string, tagIds: number[] = []) {
+  return { subscribe: 1, openid, remark, tagid_list: tagIds, subscribe_time: 1710000000 };
+}
+
+let tempDir = "";
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  tempDir = await mkdtemp(path.join(os.tmpdir(), "wechat-mp-directory-"));
+  setWechatMpStateFilePathForTests(path.join(tempDir, "state.json"));
+  mocks.getWechatMpTags.mockResolvedValue([{ id: 100, name: "VIP", count: 1 }]);
+});
+
+afterEach(async () => {
+  await flushWechatMpStateForTests();
+  setWechatMpStateFilePathForTests();
+  if (tempDir) {
+    await rm(tempDir, { recursive: true, force: true });
+  }
+  tempDir = "";
+});
+
+describe("wechat-mp directory", () => {
+  it("pages followers and only fetches info for new subscribers on incremental sync", async () => {
+    mocks.getWechatMpFollowers
+      .mockResolvedValueOnce({ total: 3, count: 2, data: { openid: ["o1", "o2"] }, next_openid: "o2" })
+      .mockResolvedValueOnce({ total: 3, count: 1, data: { openid: ["o3"] }, next_openid: "o3" })
+      .mockResolvedValueOnce({ total: 3, count: 0, next_openid: "" });
+    mocks.batchGetWechatMpUserInfo.mockResolvedValueOnce([
+      userInfo("o1", "张三", [100]),
+      userInfo("o2", "李四"),
+      userInfo("o3", ""),
+    ]);
+
+    const first = await syncWechatMpDirectory(createAccount());
+    expect(first).toEqual({ total: 3, added: 3, removed: 0, refreshed: 0 });
+
+    mocks.getWechatMpFollowers.mockResolvedValueOnce({
+      total: 2,
+      count: 2,
+      data: { openid: ["o1", "o4"] },
+      next_openid: "",
+    });
+    mocks.batchGetWechatMpUserInfo.mockResolvedValueOnce([userInfo("o4", "王五")]);
+
+    const second = await syncWechatMpDirectory(createAccount());
+    expect(mocks.batchGetWechatMpUserInfo).toHaveBeenLastCalledWith(expect.anything(), ["o4"]);
+    expect(second).toEqual({ total: 2, added: 1, removed: 2, refreshed: 0 });
+
+    expect(await listWechatMpDirectoryPeers(createAccount(), { query: "王" })).toEqual([
+      { id: "o4", name: "王五", tags: [] },
+    ]);
+    expect(await listWechatMpDirectoryPeers(createAccount(), { query: "tag:vip" })).toEqual([
+      { id: "o1", name: "张三", tags: ["VIP"] },
+    ]);
+  });
+
+  it("keeps the directory in its own per-account file", async () => {
+    mocks.getWechatMpFollowers.mockResolvedValueOnce({
+      total: 1,
+      count: 1,
+      data: { openid: ["o1"] },
+      next_openid: "",
+    });
+    mocks.batchGetWechatMpUserInfo.mockResolvedValueOnce([userInfo("o1", "张三")]);
+
+    await syncWechatMpDirectory(createAccount());
+    await markProcessedMessage("msg-1");
+    await flushWechatMpStateForTests();
+
+    const state = await readFile(path.join(tempDir, "state.json"), "utf8");
+    expect(state).not.toContain("o1");
+    const directory = JSON.parse(await readFile(path.join(tempDir, "directory", "default.json"), "utf8"));
+    expect(directory.directory.subscribers.o1).toMatchObject({ openId: "o1", remark: "张三" });
+  });
+
+  it("creates missing tags when tagging users", async () => {
+    mocks.createWechatMpTag.mockResolvedValue({ id: 101, name: "新客" });
+
+    const result = await tagWechatMpUsers(createAccount(), { tag: "新客", openIds: ["o1", "o1", "o2"] });
+
+    expect(result).toEqual({ tagId: 101, count: 2 });
+    expect(mocks.createWechatMpTag).toHaveBeenCalledWith(expect.anything(), "新客");
+    expect(mocks.batchTagWechatMpUsers).toHaveBeenCalledWith(expect.anything(), {
+      tagId: 101,
+      openIds: ["o1", "o2"],
+      untag: undefined,
+    });
+  });
+
+  it("fans out tag: sends to every member and reports failures", async () => {
+    mocks.getWechatMpTagFollowers.mockResolvedValueOnce({
+      count: 2,
+      data: { openid: ["o1", "o2"] },
+      next_openid: "",
+    });
+    mocks.sendWechatMpMessage
+      .mockResolvedValueOnce({ errcode: 0, errmsg: "ok" })
+      .mockResolvedValueOnce({ errcode: 45015, errmsg: "response out of time limit" });
+
+    const result = await sendWechatMpActiveText({
+      account: createAccount(),
+      toUserName: "tag:VIP",
+      text: "活动通知",
+      retryConfig: { maxRetries: 0 },
+      fanOutIntervalMs: 0,
+    });
+
+    expect(mocks.getWechatMpTagFollowers).toHaveBeenCalledWith(expect.anything(), 100, undefined);
+    expect(mocks.sendWechatMpMessage).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ ok: false, recipients: 1, failedOpenIds: ["o2"] });
+  });
+});
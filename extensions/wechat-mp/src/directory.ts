@@ -0,0 +1,325 @@
+/**
+ * WeChat MP subscriber directory
+ *
+ * - Followers are paged via user/get and their info (remark, tags) fetched via user/info/batchget
+ * - Incremental sync only fetches info for new followers and entries older than a day;
+ *   unsubscribed users are dropped from the cache
+ * - Lookup by remark, nickname, openid or tag (`tag:<name>`) backs directory.listPeers
+ * - Tag members are resolved via user/tag/get so `tag:<name>` sends reach every member
+ *
+ * https://developers.weixin.qq.com/doc/offiaccount/User_Management/User_Tag_Management.html
+ */
+
+import {
+  batchGetWechatMpUserInfo,
+  batchTagWechatMpUsers,
+  createWechatMpTag,
+  getWechatMpFollowers,
+  getWechatMpTagFollowers,
+  getWechatMpTags,
+  updateWechatMpUserRemark,
+  TAG_MEMBERS_BATCH_SIZE,
+  USER_INFO_BATCH_SIZE,
+  type UserInfo,
+  type UserTag,
+} from "./api.js";
+import { getSubscriberDirectory, saveSubscriberDirectory } from "./state.js";
+import type {
+  ResolvedWechatMpAccount,
+  WechatMpSubscriber,
+  WechatMpSubscriberDirectory,
+} from "./types.js";
+
+/** Cached user info older than this is refetched on incremental sync */
+const DEFAULT_STALE_AFTER_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_PEER_LIMIT = 50;
+const TAG_PREFIX = "tag:";
+
+export type WechatMpDirectorySyncResult = {
+  total: number;
+  added: number;
+  removed: number;
+  refreshed: number;
+};
+
+export type WechatMpDirectoryPeer = {
+  /** openid */
+  id: string;
+  /** Remark, nickname or openid */
+  name: string;
+  tags: string[];
+};
+
+function createEmptyDirectory(): WechatMpSubscriberDirectory {
+  return { subscribers: {}, tags: {} };
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function toSubscriber(info: UserInfo, now: number): WechatMpSubscriber {
+  const qrScene = info.qr_scene_str?.trim() || (info.qr_scene ? String(info.qr_scene) : "");
+  return {
+    openId: info.openid,
+    ...(info.nickname?.trim() ? { nickname: info.nickname.trim() } : {}),
+    ...(info.remark?.trim() ? { remark: info.remark.trim() } : {}),
+    tagIds: info.tagid_list ?? [],
+    ...(info.language ? { language: info.language } : {}),
+    ...(info.subscribe_time ? { subscribeTime: info.subscribe_time } : {}),
+    ...(info.subscribe_scene ? { subscribeScene: info.subscribe_scene } : {}),
+    ...(qrScene ? { qrScene } : {}),
+    updatedAt: now,
+  };
+}
+
+function toTagMap(tags: UserTag[]): WechatMpSubscriberDirectory["tags"] {
+  const result: WechatMpSubscriberDirectory["tags"] = {};
+  for (const tag of tags) {
+    result[String(tag.id)] = { id: tag.id, name: tag.name, ...(tag.count !== undefined ? { count: tag.count } : {}) };
+  }
+  return result;
+}
+
+async function listAllFollowers(
+  fetchPage: (nextOpenId?: string) => Promise<{ count: number; data?: { openid?: string[] }; next_openid?: string }>
+): Promise<string[]> {
+  const openIds: string[] = [];
+  let nextOpenId: string | undefined;
+  for (;;) {
+    const page = await fetchPage(nextOpenId);
+    const pageOpenIds = page.data?.openid ?? [];
+    openIds.push(...pageOpenIds);
+    if (pageOpenIds.length === 0 || !page.next_openid || page.next_openid === nextOpenId) {
+      break;
+    }
+    nextOpenId = page.next_openid;
+  }
+  return [...new Set(openIds)];
+}
+
+/**
+ * Sync the subscriber directory with WeChat.
+ *
+ * @param opts.full Refetch info of every follower instead of only new / stale ones
+ * @throws WechatMpApiError if a WeChat API call fails
+ */
+export async function syncWechatMpDirectory(
+  account: ResolvedWechatMpAccount,
+  opts: { full?: boolean; staleAfterMs?: number } = {}
+): Promise<WechatMpDirectorySyncResult> {
+  const now = Date.now();
+  const staleAfterMs = opts.staleAfterMs ?? DEFAULT_STALE_AFTER_MS;
+  const existing = (await getSubscriberDirectory(account.accountId)) ?? createEmptyDirectory();
+
+  const openIds = await listAllFollowers((nextOpenId) => getWechatMpFollowers(account, nextOpenId));
+  const tags = await getWechatMpTags(account);
+
+  const toFetch = openIds.filter((openId) => {
+    const cached = existing.subscribers[openId];
+    return opts.full || !cached || now - cached.updatedAt > staleAfterMs;
+  });
+
+  const fetched = new Map<string, WechatMpSubscriber | null>();
+  for (const batch of chunk(toFetch, USER_INFO_BATCH_SIZE)) {
+    for (const info of await batchGetWechatMpUserInfo(account, batch)) {
+      fetched.set(info.openid, info.subscribe === 0 ? null : toSubscriber(info, now));
+    }
+  }
+
+  const subscribers: Record<string, WechatMpSubscriber> = {};
+  let added = 0;
+  for (const openId of openIds) {
+    const subscriber = fetched.has(openId) ? fetched.get(openId) : existing.subscribers[openId];
+    if (!subscriber) continue;
+    if (!existing.subscribers[openId]) added += 1;
+    subscribers[openId] = subscriber;
+  }
+  const removed = Object.keys(existing.subscribers).filter((openId) => !subscribers[openId]).length;
+
+  await saveSubscriberDirectory(account.accountId, {
+    subscribers,
+    tags: toTagMap(tags),
+    total: openIds.length,
+    syncedAt: now,
+  });
+
+  return {
+    total: Object.keys(subscribers).length,
+    added,
+    removed,
+    refreshed: [...fetched.values()].filter(Boolean).length - added,
+  };
+}
+
+function findTag(
+  directory: WechatMpSubscriberDirectory,
+  nameOrId: string
+): { id: number; name: string } | undefined {
+  const needle = nameOrId.trim().toLowerCase();
+  const tags = Object.values(directory.tags);
+  return (
+    tags.find((tag) => tag.name.toLowerCase() === needle) ?? tags.find((tag) => String(tag.id) === needle)
+  );
+}
+
+/**
+ * Find cached subscribers.
+ *
+ * A query of the form `tag:<name>` matches tag members; any other query matches
+ * remark, nickname or openid (case-insensitive substring).
+ */
+export function findWechatMpSubscribers(
+  directory: WechatMpSubscriberDirectory,
+  opts: { query?: string; limit?: number } = {}
+): WechatMpSubscriber[] {
+  const query = opts.query?.trim() ?? "";
+  const limit = opts.limit ?? DEFAULT_PEER_LIMIT;
+  const subscribers = Object.values(directory.subscribers);
+
+  let matches: WechatMpSubscriber[];
+  if (query.toLowerCase().startsWith(TAG_PREFIX)) {
+    const tag = findTag(directory, query.slice(TAG_PREFIX.length));
+    matches = tag ? subscribers.filter((subscriber) => subscriber.tagIds.includes(tag.id)) : [];
+  } else if (query) {
+    const needle = query.toLowerCase();
+    matches = subscribers.filter((subscriber) =>
+      [subscriber.remark, subscriber.nickname, subscriber.openId].some((value) =>
+        value?.toLowerCase().includes(needle)
+      )
+    );
+  } else {
+    matches = subscribers;
+  }
+
+  return matches.slice(0, Math.max(0, limit));
+}
+
+/**
+ * Look up followers for directory.listPeers.
+ * The directory is synced first if it has never been synced.
+ */
+export async function listWechatMpDirectoryPeers(
+  account: ResolvedWechatMpAccount,
+  opts: { query?: string; limit?: number } = {}
+): Promise<WechatMpDirectoryPeer[]> {
+  let directory = await getSubscriberDirectory(account.accountId);
+  if (!directory?.syncedAt && account.canSendActive) {
+    await syncWechatMpDirectory(account);
+    directory = await getSubscriberDirectory(account.accountId);
+  }
+  if (!directory) return [];
+
+  const cached = directory;
+  return findWechatMpSubscribers(cached, opts).map((subscriber) => ({
+    id: subscriber.openId,
+    name: subscriber.remark || subscriber.nickname || subscriber.openId,
+    tags: subscriber.tagIds
+      .map((tagId) => cached.tags[String(tagId)]?.name)
+      .filter((name): name is string => Boolean(name)),
+  }));
+}
+
+/**
+ * Resolve a tag by name (or numeric id), refreshing tags/get on a cache miss.
+ *
+ * @param opts.create Create the tag when no tag has that name
+ */
+export async function resolveWechatMpTag(
+  account: ResolvedWechatMpAccount,
+  nameOrId: string,
+  opts: { create?: boolean } = {}
+): Promise<{ id: number; name: string } | null> {
+  const name = nameOrId.trim();
+  if (!name) return null;
+
+  const directory = (await getSubscriberDirectory(account.accountId)) ?? createEmptyDirectory();
+  const cached = findTag(directory, name);
+  if (cached) return cached;
+
+  directory.tags = toTagMap(await getWechatMpTags(account));
+  const refreshed = findTag(directory, name);
+  if (refreshed) {
+    await saveSubscriberDirectory(account.accountId, directory);
+    return refreshed;
+  }
+  if (!opts.create) return null;
+
+  const created = await createWechatMpTag(account, name);
+  directory.tags[String(created.id)] = { id: created.id, name: created.name, count: 0 };
+  await saveSubscriberDirectory(account.accountId, directory);
+  return { id: created.id, name: created.name };
+}
+
+/**
+ * Get every openid carrying a tag via user/tag/get.
+ */
+export async function resolveWechatMpTagMembers(
+  account: ResolvedWechatMpAccount,
+  tagName: string
+): Promise<string[]> {
+  const tag = await resolveWechatMpTag(account, tagName);
+  if (!tag) {
+    throw new Error(`Unknown tag: ${tagName}`);
+  }
+  return listAllFollowers((nextOpenId) => getWechatMpTagFollowers(account, tag.id, nextOpenId));
+}
+
+/**
+ * Add a tag to users (the tag is created if missing) or remove it from them.
+ * The cached directory is updated to match.
+ *
+ * @throws WechatMpApiError if a WeChat API call fails
+ */
+export async function tagWechatMpUsers(
+  account: ResolvedWechatMpAccount,
+  params: { tag: string; openIds: string[]; untag?: boolean }
+): Promise<{ tagId: number; count: number }> {
+  const openIds = [...new Set(params.openIds.map((openId) => openId.trim()).filter(Boolean))];
+  const tag = await resolveWechatMpTag(account, params.tag, { create: !params.untag });
+  if (!tag) {
+    throw new Error(`Unknown tag: ${params.tag}`);
+  }
+
+  for (const batch of chunk(openIds, TAG_MEMBERS_BATCH_SIZE)) {
+    await batchTagWechatMpUsers(account, { tagId: tag.id, openIds: batch, untag: params.untag });
+  }
+
+  const directory = await getSubscriberDirectory(account.accountId);
+  if (directory) {
+    for (const openId of openIds) {
+      const subscriber = directory.subscribers[openId];
+      if (!subscriber) continue;
+      const tagIds = subscriber.tagIds.filter((tagId) => tagId !== tag.id);
+      subscriber.tagIds = params.untag ? tagIds : [...tagIds, tag.id];
+    }
+    await saveSubscriberDirectory(account.accountId, directory);
+  }
+
+  return { tagId: tag.id, count: openIds.length };
+}
+
+/**
+ * Set a follower's remark and update the cached directory.
+ *
+ * @throws WechatMpApiError if the WeChat API call fails
+ */
+export async function setWechatMpUserRemark(
+  account: ResolvedWechatMpAccount,
+  openId: string,
+  remark: string
+): Promise<void> {
+  await updateWechatMpUserRemark(account, openId, remark.trim());
+
+  const directory = await getSubscriberDirectory(account.accountId);
+  const subscriber = directory?.subscribers[openId];
+  if (directory && subscriber) {
+    if (remark.trim()) subscriber.remark = remark.trim();
+    else delete subscriber.remark;
+    await saveSubscriberDirectory(account.accountId, directory);
+  }
+}
@@ -2,7 +2,14 @@ import { resolveAllowFrom, resolveWechatMpASRCredentials } from "./config.js";
 import { updateAccountState } from "./state.js";
 import { normalizeWechatMpText, resolveRenderMarkdown } from "./text.js";
 import { downloadWechatMpMedia } from "./api.js";
-import { transcribeTencentFlash, ASRError } from "@openclaw-china/shared";
+import { resolveMenuClickPrompt } from "./menu.js";
+import { resolveQrSceneAttribution, type WechatMpQrSceneAttribution } from "./qrcode.js";
+import {
+  transcribeTencentFlash,
+  ASRError,
+  isSenderPaired,
+  resolvePairingChallenge,
+} from "@openclaw-china/shared";
 import type {
   PluginConfig,
   PluginRuntime,
@@ -38,7 +45,10 @@ function createLogger(opts: { log?: (message: string) => void; error?: (message:
   };
 }
 
-function isSenderAllowed(account: ResolvedWechatMpAccount, senderId: string): { allowed: boolean; reason?: string } {
+function isSenderAllowed(
+  account: ResolvedWechatMpAccount,
+  senderId: string
+): { allowed: boolean; reason?: string; pairingRequired?: boolean } {
   const policy = account.config.dmPolicy ?? "open";
   if (policy === "disabled") {
     return { allowed: false, reason: "dm disabled" };
@@ -50,8 +60,11 @@ function isSenderAllowed(account: ResolvedWechatMpAccount, senderId: string): {
   }
   if (policy === "pairing") {
     const allowFrom = resolveAllowFrom(account.config);
-    if (allowFrom.length > 0 && !allowFrom.includes(senderId.trim().toLowerCase())) {
-      return { allowed: false, reason: "sender not paired" };
+    if (allowFrom.includes(senderId.trim().toLowerCase())) {
+      return { allowed: true };
+    }
+    if (!isSenderPaired({ channel: "wechat-mp", accountId: account.accountId, senderId })) {
+      return { allowed: false, reason: "sender not paired", pairingRequired: true };
     }
   }
   return { allowed: true };
@@ -235,19 +248,44 @@ function buildCandidateBody(candidate: WechatMpInboundCandidate): string {
   return parts.join("\n").trim();
 }
 
+function appendQrSceneLines(body: string, qrScene: WechatMpQrSceneAttribution): string {
+  const parts = [body, `scene=${qrScene.scene}`];
+  if (qrScene.record) {
+    parts.push(`sceneLabel=${qrScene.record.label}`);
+    if (qrScene.record.metadata) {
+      parts.push(`sceneMetadata=${JSON.stringify(qrScene.record.metadata)}`);
+    }
+  }
+  return parts.join("\n").trim();
+}
+
 /**
  * Async version of buildCandidateBody that handles voice ASR.
  */
 async function buildCandidateBodyAsync(
   candidate: WechatMpInboundCandidate,
   account: ResolvedWechatMpAccount,
-  logger: ReturnType<typeof createLogger>
+  logger: ReturnType<typeof createLogger>,
+  qrScene?: WechatMpQrSceneAttribution
 ): Promise<{ text: string; asrErrorMessage?: string }> {
   // Handle voice with potential ASR
   if (candidate.msgType === "voice") {
     return buildVoiceBody(candidate, account, logger);
   }
 
+  // Menu clicks with a configured prompt reach the agent as that prompt
+  if (candidate.msgType === "event" && candidate.event === "click") {
+    const prompt = resolveMenuClickPrompt(account.config, candidate.eventKey);
+    if (prompt) {
+      return { text: prompt };
+    }
+  }
+
+  // Subscribe/scan via a parametric QR code carries the scene and its registered label
+  if (qrScene) {
+    return { text: appendQrSceneLines(buildCandidateBody(candidate), qrScene) };
+  }
+
   // All other message types use sync builder
   return { text: buildCandidateBody(candidate) };
 }
@@ -260,7 +298,7 @@ export async function dispatchWechatMpCandidate(params: {
   onChunk?: (text: string) => Promise<void>;
   log?: (message: string) => void;
   error?: (message: string) => void;
-}): Promise<{ dispatched: boolean; reason?: string; combinedReply?: string }> {
+}): Promise<{ dispatched: boolean; reason?: string; combinedReply?: string; pairingRequired?: boolean }> {
   const logger = createLogger({ log: params.log, error: params.error });
   const { candidate } = params;
 
@@ -268,8 +306,15 @@ export async function dispatchWechatMpCandidate(params: {
     return { dispatched: false, reason: "non-intentful event" };
   }
 
+  const qrScene = await resolveQrSceneAttribution(params.account.accountId, candidate);
+
   // Use async builder to support voice ASR
-  const { text: bodyRaw, asrErrorMessage } = await buildCandidateBodyAsync(candidate, params.account, logger);
+  const { text: bodyRaw, asrErrorMessage } = await buildCandidateBodyAsync(
+    candidate,
+    params.account,
+    logger,
+    qrScene
+  );
   if (!bodyRaw) {
     return { dispatched: false, reason: "empty inbound body" };
   }
@@ -286,6 +331,18 @@ export async function dispatchWechatMpCandidate(params: {
   const policyResult = isSenderAllowed(params.account, candidate.openId);
   if (!policyResult.allowed) {
     logger.info(`skip sender=${candidate.openId} reason=${policyResult.reason ?? "policy rejected"}`);
+    if (policyResult.pairingRequired) {
+      const challenge = resolvePairingChallenge({
+        channel: "wechat-mp",
+        accountId: params.account.accountId,
+        senderId: candidate.openId,
+      });
+      if (challenge && params.onChunk) {
+        await params.onChunk(challenge);
+        return { dispatched: false, reason: policyResult.reason, pairingRequired: true };
+      }
+      return { dispatched: false, reason: policyResult.reason, combinedReply: challenge, pairingRequired: true };
+    }
     return { dispatched: false, reason: policyResult.reason };
   }
 
@@ -350,6 +407,9 @@ export async function dispatchWechatMpCandidate(params: {
       OriginatingTo: to,
       EventName: candidate.event,
       EventKey: candidate.eventKey,
+      QrScene: qrScene?.scene,
+      QrSceneLabel: qrScene?.record?.label,
+      QrSceneMetadata: qrScene?.record?.metadata,
     }) as Record<string, unknown> | undefined) ?? {
       Body: body,
       RawBody: bodyRaw,
@@ -369,6 +429,9 @@ export async function dispatchWechatMpCandidate(params: {
       OriginatingTo: to,
       EventName: candidate.event,
       EventKey: candidate.eventKey,
+      QrScene: qrScene?.scene,
+      QrSceneLabel: qrScene?.record?.label,
+      QrSceneMetadata: qrScene?.record?.metadata,
     };
   ctxPayload.CommandAuthorized = true;
 
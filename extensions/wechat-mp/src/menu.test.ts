@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  createWechatMpMenu: vi.fn(),
+  deleteWechatMpMenu: vi.fn(),
+  getWechatMpCurrentMenu: vi.fn(),
+}));
+
+vi.mock("./api.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./api.js")>()),
+  createWechatMpMenu: mocks.createWechatMpMenu,
+  deleteWechatMpMenu: mocks.deleteWechatMpMenu,
+  getWechatMpCurrentMenu: mocks.getWechatMpCurrentMenu,
+}));
+
+import { resolveMenuClickPrompt, syncWechatMpMenu, validateWechatMpMenu } from "./menu.js";
+import type { ResolvedWechatMpAccount, WechatMpMenuConfig } from "./types.js";
+
+const menu: WechatMpMenuConfig = {
+  buttons: [
+    { name: "今日推荐", key: "TODAY", prompt: "请推荐今天值得读的文章" },
+    {
+      name: "更多",
+      subButtons: [
+        { name: "官网", type: "view", url: "https://example.com" },
+        { name: "联系客服", key: "CONTACT" },
+      ],
+    },
+  ],
+};
+
+function createAccount(menuConfig: WechatMpMenuConfig | null = menu): ResolvedWechatMpAccount {
+  return {
+    accountId: "default",
+    enabled: true,
+    configured: true,
+    canSendActive: true,
+    appId: "wx-test-appid",
+    appSecret: "secret",
+    config: {
+      appId: "wx-test-appid",
+      appSecret: "secret",
+      ...(menuConfig ? { menu: menuConfig } : {}),
+    },
+  };
+}
+
+describe("wechat-mp menu", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.createWechatMpMenu.mockResolvedValue({ errcode: 0, errmsg: "ok" });
+    mocks.deleteWechatMpMenu.mockResolvedValue({ errcode: 0, errmsg: "ok" });
+  });
+
+  it("validates button counts, name lengths and required fields", () => {
+    expect(validateWechatMpMenu(menu)).toEqual([]);
+    expect(
+      validateWechatMpMenu({
+        buttons: [
+          { name: "一二三四五六", key: "A" },
+          { name: "链接", type: "view" },
+          { name: "B", subButtons: Array.from({ length: 6 }, (_, i) => ({ name: `s${i}`, key: `S${i}` })) },
+          { name: "C", key: "A" },
+        ],
+      })
+    ).toEqual([
+      "menu.buttons: at most 3 top-level buttons, got 4",
+      'menu.buttons[0]: name "一二三四五六" exceeds 16 bytes',
+      "menu.buttons[1]: url is required for view buttons",
+      "menu.buttons[2].subButtons: at most 5 sub buttons, got 6",
+      'menu.buttons[3]: duplicate key "A"',
+    ]);
+  });
+
+  it("skips pushing when the current menu already matches", async () => {
+    mocks.getWechatMpCurrentMenu.mockResolvedValue({
+      is_menu_open: 1,
+      selfmenu_info: {
+        button: [
+          { type: "click", name: "今日推荐", key: "TODAY" },
+          {
+            name: "更多",
+            sub_button: {
+              list: [
+                { type: "view", name: "官网", url: "https://example.com" },
+                { type: "click", name: "联系客服", key: "CONTACT" },
+              ],
+            },
+          },
+        ],
+      },
+    });
+
+    expect(await syncWechatMpMenu(createAccount())).toEqual({ status: "unchanged" });
+    expect(mocks.createWechatMpMenu).not.toHaveBeenCalled();
+  });
+
+  it("pushes the configured menu when it changed", async () => {
+    mocks.getWechatMpCurrentMenu.mockResolvedValue({
+      is_menu_open: 1,
+      selfmenu_info: { button: [{ type: "click", name: "今日推荐", key: "TODAY" }] },
+    });
+
+    expect(await syncWechatMpMenu(createAccount())).toEqual({ status: "updated" });
+    expect(mocks.createWechatMpMenu).toHaveBeenCalledWith(expect.anything(), {
+      button: [
+        { type: "click", name: "今日推荐", key: "TODAY" },
+        {
+          name: "更多",
+          sub_button: [
+            { type: "view", name: "官网", url: "https://example.com" },
+            { type: "click", name: "联系客服", key: "CONTACT" },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("deletes the menu for an empty button list and ignores accounts without menu", async () => {
+    mocks.getWechatMpCurrentMenu.mockResolvedValue({
+      is_menu_open: 1,
+      selfmenu_info: { button: [{ type: "click", name: "旧菜单", key: "OLD" }] },
+    });
+
+    expect(await syncWechatMpMenu(createAccount({ buttons: [] }))).toEqual({ status: "deleted" });
+    expect(mocks.deleteWechatMpMenu).toHaveBeenCalledTimes(1);
+    expect(await syncWechatMpMenu(createAccount(null))).toEqual({ status: "skipped" });
+  });
+
+  it("maps click EventKeys to configured prompts", () => {
+    const config = createAccount().config;
+    expect(resolveMenuClickPrompt(config, "TODAY")).toBe("请推荐今天值得读的文章");
+    expect(resolveMenuClickPrompt(config, "CONTACT")).toBeUndefined();
+    expect(resolveMenuClickPrompt(config, "UNKNOWN")).toBeUndefined();
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * WeChat MP custom menu
+ *
+ * The `menu` section of the account config is the source of truth:
+ * - Validated against WeChat's limits (3 top-level buttons, 5 sub buttons, name/key/url lengths)
+ * - Compared with get_current_selfmenu_info and pushed via menu/create only when it changed
+ * - `click` buttons with a `prompt` are dispatched to the agent as that prompt when clicked
+ *
+ * https://developers.weixin.qq.com/doc/offiaccount/Custom_Menus/Creating_Custom-Defined_Menu.html
+ */
+
+import {
+  createWechatMpMenu,
+  deleteWechatMpMenu,
+  getWechatMpCurrentMenu,
+  WechatMpApiErrorImpl,
+  type CurrentSelfMenuButton,
+  type CurrentSelfMenuInfo,
+  type MenuButton,
+  type MenuConfig,
+} from "./api.js";
+import type {
+  ResolvedWechatMpAccount,
+  WechatMpAccountConfig,
+  WechatMpMenuButtonConfig,
+  WechatMpMenuConfig,
+} from "./types.js";
+
+const MAX_TOP_LEVEL_BUTTONS = 3;
+const MAX_SUB_BUTTONS = 5;
+const MAX_TOP_LEVEL_NAME_BYTES = 16;
+const MAX_SUB_NAME_BYTES = 60;
+const MAX_KEY_BYTES = 128;
+const MAX_URL_BYTES = 1024;
+
+/** Button types that report an EventKey */
+const KEY_BUTTON_TYPES = new Set([
+  "click",
+  "scancode_push",
+  "scancode_waitmsg",
+  "pic_sysphoto",
+  "pic_photo_or_album",
+  "pic_weixin",
+  "location_select",
+]);
+
+/** Fields compared when diffing menus, in a fixed order */
+const COMPARED_FIELDS = ["type", "name", "key", "url", "appid", "pagepath", "media_id", "article_id"] as const;
+
+export type WechatMpMenuSyncStatus = "skipped" | "invalid" | "unchanged" | "updated" | "deleted";
+
+export type WechatMpMenuSyncResult = {
+  status: WechatMpMenuSyncStatus;
+  /** Validation errors (status "invalid") */
+  errors?: string[];
+};
+
+function byteLength(value: string): number {
+  return Buffer.byteLength(value, "utf8");
+}
+
+function resolveButtonType(button: WechatMpMenuButtonConfig): string {
+  return button.type ?? "click";
+}
+
+function validateLeafButton(button: WechatMpMenuButtonConfig, path: string, errors: string[]): void {
+  const type = resolveButtonType(button);
+  const key = button.key?.trim() ?? "";
+  const url = button.url?.trim() ?? "";
+
+  if (KEY_BUTTON_TYPES.has(type)) {
+    if (!key) errors.push(`${path}: key is required for ${type} buttons`);
+    else if (byteLength(key) > MAX_KEY_BYTES) errors.push(`${path}: key exceeds ${MAX_KEY_BYTES} bytes`);
+  }
+  if ((type === "view" || type === "miniprogram") && !url) {
+    errors.push(`${path}: url is required for ${type} buttons`);
+  }
+  if (url && byteLength(url) > MAX_URL_BYTES) {
+    errors.push(`${path}: url exceeds ${MAX_URL_BYTES} bytes`);
+  }
+  if (type === "miniprogram" && (!button.appId?.trim() || !button.pagePath?.trim())) {
+    errors.push(`${path}: appId and pagePath are required for miniprogram buttons`);
+  }
+  if (type === "media_id" && !button.mediaId?.trim()) {
+    errors.push(`${path}: mediaId is required for media_id buttons`);
+  }
+  if ((type === "article_id" || type === "article_view_limited") && !button.articleId?.trim()) {
+    errors.push(`${path}: articleId is required for ${type} buttons`);
+  }
+  if (button.prompt !== undefined && type !== "click") {
+    errors.push(`${path}: prompt is only supported on click buttons`);
+  }
+}
+
+/**
+ * Validate a menu config against WeChat's limits.
+ * @returns Human-readable errors; empty when valid
+ */
+export function validateWechatMpMenu(menu: WechatMpMenuConfig): string[] {
+  const errors: string[] = [];
+  const buttons = Array.isArray(menu.buttons) ? menu.buttons : [];
+
+  if (buttons.length > MAX_TOP_LEVEL_BUTTONS) {
+    errors.push(`menu.buttons: at most ${MAX_TOP_LEVEL_BUTTONS} top-level buttons, got ${buttons.length}`);
+  }
+
+  const seenKeys = new Set<string>();
+  const checkName = (button: WechatMpMenuButtonConfig, path: string, maxBytes: number) => {
+    const name = button.name?.trim() ?? "";
+    if (!name) errors.push(`${path}: name is required`);
+    else if (byteLength(name) > maxBytes) errors.push(`${path}: name "${name}" exceeds ${maxBytes} bytes`);
+  };
+  const checkDuplicateKey = (button: WechatMpMenuButtonConfig, path: string) => {
+    const key = button.key?.trim();
+    if (!key) return;
+    if (seenKeys.has(key)) errors.push(`${path}: duplicate key "${key}"`);
+    seenKeys.add(key);
+  };
+
+  buttons.forEach((button, index) => {
+    const path = `menu.buttons[${index}]`;
+    checkName(button, path, MAX_TOP_LEVEL_NAME_BYTES);
+
+    const subButtons = button.subButtons;
+    if (!subButtons || subButtons.length === 0) {
+      validateLeafButton(button, path, errors);
+      checkDuplicateKey(button, path);
+      return;
+    }
+
+    if (button.type || button.key || button.url || button.prompt) {
+      errors.push(`${path}: buttons with subButtons cannot set type, key, url or prompt`);
+    }
+    if (subButtons.length > MAX_SUB_BUTTONS) {
+      errors.push(`${path}.subButtons: at most ${MAX_SUB_BUTTONS} sub buttons, got ${subButtons.length}`);
+    }
+    subButtons.forEach((subButton, subIndex) => {
+      const subPath = `${path}.subButtons[${subIndex}]`;
+      checkName(subButton, subPath, MAX_SUB_NAME_BYTES);
+      if (subButton.subButtons && subButton.subButtons.length > 0) {
+        errors.push(`${subPath}: menus support only two levels`);
+      }
+      validateLeafButton(subButton, subPath, errors);
+      checkDuplicateKey(subButton, subPath);
+    });
+  });
+
+  return errors;
+}
+
+function buildLeafButton(button: WechatMpMenuButtonConfig): MenuButton {
+  const type = resolveButtonType(button) as NonNullable<MenuButton["type"]>;
+  const result: MenuButton = { type, name: button.name.trim() };
+  if (button.key?.trim()) result.key = button.key.trim();
+  if (button.url?.trim()) result.url = button.url.trim();
+  if (button.appId?.trim()) result.appid = button.appId.trim();
+  if (button.pagePath?.trim()) result.pagepath = button.pagePath.trim();
+  if (button.mediaId?.trim()) result.media_id = button.mediaId.trim();
+  if (button.articleId?.trim()) result.article_id = button.articleId.trim();
+  return result;
+}
+
+/**
+ * Build the menu/create payload from config.
+ */
+export function buildWechatMpMenu(menu: WechatMpMenuConfig): MenuConfig {
+  return {
+    button: menu.buttons.map((button) =>
+      button.subButtons && button.subButtons.length > 0
+        ? { name: button.name.trim(), sub_button: button.subButtons.map(buildLeafButton) }
+        : buildLeafButton(button)
+    ),
+  };
+}
+
+function normalizeCurrentButton(button: CurrentSelfMenuButton): MenuButton {
+  const subButtons = button.sub_button?.list ?? [];
+  if (subButtons.length > 0) {
+    return { name: button.name, sub_button: subButtons.map(normalizeCurrentButton) };
+  }
+
+  const result: MenuButton = { name: button.name };
+  if (button.type) result.type = button.type as MenuButton["type"];
+  if (button.key) result.key = button.key;
+  if (button.url) result.url = button.url;
+  if (button.appid) result.appid = button.appid;
+  if (button.pagepath) result.pagepath = button.pagepath;
+  const mediaId = button.media_id ?? (button.type === "media_id" ? button.value : undefined);
+  if (mediaId) result.media_id = mediaId;
+  const articleId =
+    button.article_id ??
+    (button.type === "article_id" || button.type === "article_view_limited" ? button.value : undefined);
+  if (articleId) result.article_id = articleId;
+  return result;
+}
+
+/**
+ * Convert get_current_selfmenu_info into the menu/create shape.
+ */
+export function normalizeCurrentWechatMpMenu(info: CurrentSelfMenuInfo): MenuConfig {
+  if (!info.is_menu_open) return { button: [] };
+  return { button: (info.selfmenu_info?.button ?? []).map(normalizeCurrentButton) };
+}
+
+function toComparable(button: MenuButton): unknown[] {
+  return [
+    ...COMPARED_FIELDS.map((field) => button[field] ?? null),
+    (button.sub_button ?? []).map(toComparable),
+  ];
+}
+
+export function isSameWechatMpMenu(a: MenuConfig, b: MenuConfig): boolean {
+  return JSON.stringify(a.button.map(toComparable)) === JSON.stringify(b.button.map(toComparable));
+}
+
+function throwOnMenuError(
+  account: ResolvedWechatMpAccount,
+  action: string,
+  result: { errcode: number; errmsg: string }
+): void {
+  if (result.errcode !== 0) {
+    throw new WechatMpApiErrorImpl(
+      `${action} failed: ${result.errmsg}`,
+      result.errcode,
+      result.errmsg,
+      account.accountId
+    );
+  }
+}
+
+/**
+ * Sync the configured menu to WeChat.
+ *
+ * Accounts without a `menu` section are left untouched. The current menu is only
+ * replaced when it differs from config (or when force is set).
+ *
+ * @throws WechatMpApiError if a WeChat API call fails
+ */
+export async function syncWechatMpMenu(
+  account: ResolvedWechatMpAccount,
+  opts: { force?: boolean } = {}
+): Promise<WechatMpMenuSyncResult> {
+  const menu = account.config.menu;
+  if (!menu || !account.canSendActive) {
+    return { status: "skipped" };
+  }
+
+  const errors = validateWechatMpMenu(menu);
+  if (errors.length > 0) {
+    return { status: "invalid", errors };
+  }
+
+  const desired = buildWechatMpMenu(menu);
+  if (!opts.force) {
+    const current = normalizeCurrentWechatMpMenu(await getWechatMpCurrentMenu(account));
+    if (isSameWechatMpMenu(current, desired)) {
+      return { status: "unchanged" };
+    }
+  }
+
+  if (desired.button.length === 0) {
+    throwOnMenuError(account, "Delete menu", await deleteWechatMpMenu(account));
+    return { status: "deleted" };
+  }
+
+  throwOnMenuError(account, "Create menu", await createWechatMpMenu(account, desired));
+  return { status: "updated" };
+}
+
+/**
+ * Look up the prompt configured for a click button's EventKey.
+ */
+export function resolveMenuClickPrompt(
+  config: WechatMpAccountConfig,
+  eventKey: string | undefined
+): string | undefined {
+  const key = eventKey?.trim();
+  if (!key) return undefined;
+
+  for (const button of config.menu?.buttons ?? []) {
+    for (const candidate of [button, ...(button.subButtons ?? [])]) {
+      if (resolveButtonType(candidate) === "click" && candidate.key?.trim() === key) {
+        return candidate.prompt?.trim() || undefined;
+      }
+    }
+  }
+  return undefined;
+}
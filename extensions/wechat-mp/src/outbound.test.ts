@@ -3,6 +3,7 @@ import { beforeEach, describe, expect, it, vi } from "vitest";
 const mocks = vi.hoisted(() => ({
   resolveWechatMpAccount: vi.fn(),
   sendWechatMpActiveText: vi.fn(),
+  tagWechatMpUsers: vi.fn(),
 }));
 
 vi.mock("./config.js", () => ({
@@ -13,6 +14,11 @@ vi.mock("./send.js", () => ({
   sendWechatMpActiveText: mocks.sendWechatMpActiveText,
 }));
 
+vi.mock("./directory.js", () => ({
+  tagWechatMpUsers: mocks.tagWechatMpUsers,
+  setWechatMpUserRemark: vi.fn(),
+}));
+
 import { wechatMpOutbound } from "./outbound.js";
 import type { PluginConfig, ResolvedWechatMpAccount } from "./types.js";
 
@@ -221,3 +227,54 @@ describe("wechatMpOutbound sendText", () => {
     );
   });
 });
+
+describe("wechatMpOutbound tagUsers", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.resolveWechatMpAccount.mockImplementation(({ accountId }: { accountId?: string }) =>
+      createAccount({ accountId: accountId ?? "default" })
+    );
+    mocks.tagWechatMpUsers.mockResolvedValue({ count: 2 });
+  });
+
+  it("tags openids on the account named in the targets", async () => {
+    const result = await wechatMpOutbound.tagUsers({
+      cfg: {} as PluginConfig,
+      accountId: "default",
+      tag: "VIP",
+      to: ["user:openid-1@work", "wechat-mp:openid-2@work"],
+    });
+
+    expect(result).toMatchObject({ ok: true, count: 2 });
+    expect(mocks.resolveWechatMpAccount).toHaveBeenCalledWith({ cfg: {}, accountId: "work" });
+    expect(mocks.tagWechatMpUsers).toHaveBeenCalledWith(expect.objectContaining({ accountId: "work" }), {
+      tag: "VIP",
+      openIds: ["openid-1", "openid-2"],
+      untag: false,
+    });
+  });
+
+  it("rejects tag and group targets", async () => {
+    for (const target of ["tag:VIP", "group:g-1@work"]) {
+      const result = await wechatMpOutbound.untagUsers({
+        cfg: {} as PluginConfig,
+        tag: "VIP",
+        to: ["user:openid-1", target],
+      });
+      expect(result.ok).toBe(false);
+      expect(result.error?.message).toContain(target);
+    }
+    expect(mocks.tagWechatMpUsers).not.toHaveBeenCalled();
+  });
+
+  it("rejects targets spanning several accounts", async () => {
+    const result = await wechatMpOutbound.tagUsers({
+      cfg: {} as PluginConfig,
+      tag: "VIP",
+      to: ["user:openid-1@work", "user:openid-2"],
+    });
+
+    expect(result.ok).toBe(false);
+    expect(mocks.tagWechatMpUsers).not.toHaveBeenCalled();
+  });
+});
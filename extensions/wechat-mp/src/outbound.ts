@@ -8,6 +8,8 @@ import {
   type SendTemplateParams,
 } from "./send.js";
 import { normalizeWechatMpText, resolveRenderMarkdown } from "./text.js";
+import { createWechatMpSceneQrCode, type WechatMpSceneQrCode } from "./qrcode.js";
+import { setWechatMpUserRemark, tagWechatMpUsers } from "./directory.js";
 import type {
   PluginConfig,
   MediaMessageType,
@@ -17,6 +19,53 @@ import type {
 } from "./types.js";
 import { recordUserInteraction } from "./state.js";
 
+async function updateUserTags(params: {
+  cfg: PluginConfig;
+  accountId?: string;
+  tag: string;
+  to: string[];
+  untag: boolean;
+}): Promise<{ channel: "wechat-mp"; ok: boolean; count: number; error?: Error }> {
+  const fail = (message: string) => ({
+    channel: "wechat-mp" as const,
+    ok: false,
+    count: 0,
+    error: new Error(message),
+  });
+
+  // Tags can only be applied to individual followers, all on the same account
+  const openIds: string[] = [];
+  const accountIds = new Set<string | undefined>();
+  for (const target of params.to) {
+    const parsed = parseTarget(target);
+    if (!parsed || parsed.openId.includes(":")) {
+      return fail(`Unsupported target for WeChat MP tagging: ${target}`);
+    }
+    openIds.push(parsed.openId);
+    accountIds.add(parsed.accountId ?? params.accountId);
+  }
+  if (openIds.length === 0) {
+    return fail("No valid openid targets");
+  }
+  if (accountIds.size > 1) {
+    return fail("Tagging targets must belong to the same account");
+  }
+
+  const [accountId] = accountIds;
+  const account = resolveWechatMpAccount({ cfg: params.cfg, accountId });
+  try {
+    const result = await tagWechatMpUsers(account, { tag: params.tag, openIds, untag: params.untag });
+    return { channel: "wechat-mp", ok: true, count: result.count };
+  } catch (err) {
+    return {
+      channel: "wechat-mp",
+      ok: false,
+      count: 0,
+      error: err instanceof Error ? err : new Error(String(err)),
+    };
+  }
+}
+
 function parseTarget(rawTarget: string): { accountId?: string; openId: string } | null {
   let raw = String(rawTarget ?? "").trim();
   if (!raw) return null;
@@ -176,6 +225,110 @@ export const wechatMpOutbound = {
     };
   },
 
+  /**
+   * Create a parametric QR code and register its scene with a label.
+   * Subscribe/scan events from the code carry the label in the inbound context.
+   * @see https://developers.weixin.qq.com/doc/offiaccount/Account_Management/Generating_a_Parametric_QR_Code.html
+   */
+  createQrCode: async (params: {
+    cfg: PluginConfig;
+    accountId?: string;
+    /** Integer scene id or string scene */
+    scene: number | string;
+    label: string;
+    metadata?: Record<string, string>;
+    permanent?: boolean;
+    /** Lifetime of a temporary QR code in seconds (default 30 days) */
+    expireSeconds?: number;
+  }): Promise<{
+    channel: "wechat-mp";
+    ok: boolean;
+    qrCode?: WechatMpSceneQrCode;
+    error?: Error;
+  }> => {
+    const account = resolveWechatMpAccount({
+      cfg: params.cfg,
+      accountId: params.accountId,
+    });
+
+    if (!account.canSendActive) {
+      return {
+        channel: "wechat-mp",
+        ok: false,
+        error: new Error("Account not configured for active API calls (missing appId/appSecret)"),
+      };
+    }
+
+    try {
+      const qrCode = await createWechatMpSceneQrCode(account, {
+        scene: params.scene,
+        label: params.label,
+        metadata: params.metadata,
+        permanent: params.permanent,
+        expireSeconds: params.expireSeconds,
+      });
+      return { channel: "wechat-mp", ok: true, qrCode };
+    } catch (err) {
+      return {
+        channel: "wechat-mp",
+        ok: false,
+        error: err instanceof Error ? err : new Error(String(err)),
+      };
+    }
+  },
+
+  // ============================================================================
+  // Subscriber Tags & Remarks
+  // ============================================================================
+
+  /**
+   * Add a tag to users; the tag is created when missing.
+   * `tag:<name>` targets then reach these users.
+   */
+  tagUsers: (params: { cfg: PluginConfig; accountId?: string; tag: string; to: string[] }) =>
+    updateUserTags({ ...params, untag: false }),
+
+  /**
+   * Remove a tag from users.
+   */
+  untagUsers: (params: { cfg: PluginConfig; accountId?: string; tag: string; to: string[] }) =>
+    updateUserTags({ ...params, untag: true }),
+
+  /**
+   * Set a user's remark (used by directory lookups).
+   */
+  setRemark: async (params: {
+    cfg: PluginConfig;
+    accountId?: string;
+    to: string;
+    remark: string;
+  }): Promise<{ channel: "wechat-mp"; ok: boolean; error?: Error }> => {
+    const parsed = parseTarget(params.to);
+    if (!parsed) {
+      return {
+        channel: "wechat-mp",
+        ok: false,
+        error: new Error(`Unsupported target for WeChat MP: ${params.to}`),
+      };
+    }
+
+    const account = resolveWechatMpAccount({
+      cfg: params.cfg,
+      accountId: parsed.accountId ?? params.accountId,
+    });
+
+    try {
+      await setWechatMpUserRemark(account, parsed.openId, params.remark);
+      return { channel: "wechat-mp", ok: true };
+    } catch (err) {
+      return {
+        channel: "wechat-mp",
+        ok: false,
+        error: err instanceof Error ? err : new Error(String(err)),
+      };
+    }
+  },
+
   // ============================================================================
   // Permission & Time Window Checks
   // ============================================================================
@@ -1,5 +1,5 @@
 import { resolveWechatMpAccount } from "./config.js";
-import { getAccessToken } from "./token.js";
+import { getAccessToken, getTokenCacheStatus } from "./token.js";
 import { getAccountState } from "./state.js";
 import type { PluginConfig } from "./types.js";
 
@@ -14,6 +14,8 @@ export async function probeWechatMpAccount(params: {
   webhookPath?: string;
   authOk: boolean;
   lastInboundAt?: number;
+  /** Expiry of the cached access_token */
+  tokenExpiresAt?: number;
   error?: string;
 }> {
   const account = resolveWechatMpAccount({ cfg: params.cfg, accountId: params.accountId });
@@ -54,6 +56,7 @@ export async function probeWechatMpAccount(params: {
       webhookPath: account.config.webhookPath ?? "/wechat-mp",
       authOk: true,
       lastInboundAt: state.lastInboundAt,
+      tokenExpiresAt: getTokenCacheStatus(account).expiresAt,
     };
   } catch (error) {
     return {
@@ -0,0 +1,155 @@
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp, rm } from "node:fs/promises";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  createWechatMpQrCode: vi.fn(),
+}));
+
+vi.mock("./api.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./api.js")>()),
+  createWechatMpQrCode: mocks.createWechatMpQrCode,
+}));
+
+import { dispatchWechatMpCandidate } from "./dispatch.js";
+import { createWechatMpSceneQrCode, parseQrSceneFromEvent, resolveQrSceneAttribution } from "./qrcode.js";
+import { flushWechatMpStateForTests, setWechatMpStateFilePathForTests } from "./state.js";
+import type { PluginRuntime, ResolvedWechatMpAccount, WechatMpInboundCandidate } from "./types.js";
+
+function createAccount(): ResolvedWechatMpAccount {
+  return {
+    accountId: "default",
+    enabled: true,
+    configured: true,
+    canSendActive: true,
+    appId: "wx-test-appid",
+    appSecret: "secret",
+    config: {
+      appId: "wx-test-appid",
+      appSecret: "secret",
+      dmPolicy: "open",
+    },
+  };
+}
+
+function createScanCandidate(event: "subscribe" | "scan", eventKey: string): WechatMpInboundCandidate {
+  return {
+    accountId: "default",
+    openId: "openid-1",
+    appId: "wx-test-appid",
+    target: "user:openid-1@default",
+    sessionKey: "dm:wx-test-appid:openid-1",
+    createTime: 1710000000,
+    msgType: "event",
+    dedupeKey: `event:${event}`,
+    encrypted: false,
+    hasUserIntent: true,
+    event,
+    eventKey,
+    ticket: "ticket-1",
+    toUserName: "gh_xxx",
+    raw: {} as never,
+  };
+}
+
+let tempDir = "";
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  tempDir = await mkdtemp(path.join(os.tmpdir(), "wechat-mp-qrcode-"));
+  setWechatMpStateFilePathForTests(path.join(tempDir, "state.json"));
+  mocks.createWechatMpQrCode.mockResolvedValue({
+    ticket: "ticket-1",
+    expire_seconds: 3600,
+    url: "http://weixin.qq.com/q/abc",
+  });
+});
+
+afterEach(async () => {
+  await flushWechatMpStateForTests();
+  setWechatMpStateFilePathForTests();
+  if (tempDir) {
+    await rm(tempDir, { recursive: true, force: true });
+  }
+  tempDir = "";
+});
+
+describe("wechat-mp qrcode", () => {
+  it("creates a temporary QR code and registers its scene", async () => {
+    const qrCode = await createWechatMpSceneQrCode(createAccount(), {
+      scene: "poster-2024",
+      label: "线下海报",
+      metadata: { campaign: "spring" },
+      expireSeconds: 3600,
+    });
+
+    expect(mocks.createWechatMpQrCode).toHaveBeenCalledWith(expect.anything(), {
+      scene: "poster-2024",
+      permanent: false,
+      expireSeconds: 3600,
+    });
+    expect(qrCode).toMatchObject({
+      scene: "poster-2024",
+      label: "线下海报",
+      permanent: false,
+      ticket: "ticket-1",
+      imageUrl: "https://mp.weixin.qq.com/cgi-bin/showqrcode?ticket=ticket-1",
+    });
+    expect(qrCode.expiresAt).toBe(qrCode.createdAt + 3600 * 1000);
+
+    const subscribe = await resolveQrSceneAttribution("default", createScanCandidate("subscribe", "qrscene_poster-2024"));
+    expect(subscribe?.record?.label).toBe("线下海报");
+    const scan = await resolveQrSceneAttribution("default", createScanCandidate("scan", "poster-2024"));
+    expect(scan?.record?.metadata).toEqual({ campaign: "spring" });
+  });
+
+  it("rejects scene ids outside the permanent range", async () => {
+    await expect(
+      createWechatMpSceneQrCode(createAccount(), { scene: 100001, label: "门店", permanent: true })
+    ).rejects.toThrow("between 1 and 100000");
+    expect(mocks.createWechatMpQrCode).not.toHaveBeenCalled();
+  });
+
+  it("parses scenes only from QR subscribe and scan events", () => {
+    expect(parseQrSceneFromEvent(createScanCandidate("subscribe", "qrscene_42"))).toBe("42");
+    expect(parseQrSceneFromEvent(createScanCandidate("subscribe", ""))).toBeUndefined();
+    expect(parseQrSceneFromEvent(createScanCandidate("scan", "42"))).toBe("42");
+    expect(parseQrSceneFromEvent({ msgType: "event", event: "click", eventKey: "42" })).toBeUndefined();
+  });
+
+  it("attaches the registered scene to the dispatched context", async () => {
+    await createWechatMpSceneQrCode(createAccount(), { scene: 42, label: "门店 A", permanent: true });
+
+    const dispatchReply = vi.fn(async () => undefined);
+    const runtime: PluginRuntime = {
+      channel: {
+        routing: { resolveAgentRoute: vi.fn(() => ({ sessionKey: "session-1", accountId: "default", agentId: "agent-1" })) },
+        reply: { dispatchReplyWithBufferedBlockDispatcher: dispatchReply },
+      },
+    };
+
+    await dispatchWechatMpCandidate({
+      cfg: {},
+      account: createAccount(),
+      candidate: createScanCandidate("subscribe", "qrscene_42"),
+      runtime,
+    });
+
+    expect(dispatchReply).toHaveBeenCalledWith(
+      expect.objectContaining({
+        ctx: expect.objectContaining({
+          QrScene: "42",
+          QrSceneLabel: "门店 A",
+          RawBody: "[event:subscribe]\neventKey=qrscene_42\nticket=ticket-1\nscene=42\nsceneLabel=门店 A",
+        }),
+      })
+    );
+  });
+
+  it("keeps unknown scenes without a registry entry", async () => {
+    const attribution = await resolveQrSceneAttribution("default", createScanCandidate("scan", "999"));
+    expect(attribution).toEqual({ scene: "999" });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * WeChat MP parametric QR codes
+ *
+ * - QR codes are created via qrcode/create and registered locally with a label and metadata
+ * - Scanning one fires `subscribe` (EventKey `qrscene_<scene>`) for new followers
+ *   or `SCAN` (EventKey `<scene>`) for existing followers
+ * - The registry entry is attached to the inbound context so the agent knows which code was scanned
+ *
+ * https://developers.weixin.qq.com/doc/offiaccount/Account_Management/Generating_a_Parametric_QR_Code.html
+ */
+
+import {
+  buildWechatMpQrCodeImageUrl,
+  createWechatMpQrCode,
+  QR_CODE_MAX_EXPIRE_SECONDS,
+} from "./api.js";
+import { getQrScene, saveQrScene } from "./state.js";
+import type {
+  ResolvedWechatMpAccount,
+  WechatMpInboundCandidate,
+  WechatMpQrSceneRecord,
+} from "./types.js";
+
+/** Integer scene ids of temporary QR codes are 32-bit and non-zero */
+const MAX_TEMPORARY_SCENE_ID = 0xffffffff;
+/** Integer scene ids of permanent QR codes range from 1 to 100000 */
+const MAX_PERMANENT_SCENE_ID = 100000;
+const MAX_SCENE_STR_LENGTH = 64;
+const MIN_EXPIRE_SECONDS = 60;
+/** EventKey prefix of subscribe events triggered by a QR code */
+const SUBSCRIBE_SCENE_PREFIX = "qrscene_";
+
+export type WechatMpSceneQrCode = WechatMpQrSceneRecord & {
+  /** Image URL of the QR code */
+  imageUrl: string;
+};
+
+export type WechatMpQrSceneAttribution = {
+  scene: string;
+  /** Registry entry; absent for QR codes created outside this plugin */
+  record?: WechatMpQrSceneRecord;
+};
+
+/**
+ * Validate a scene value against WeChat's limits.
+ * @returns Human-readable error, or undefined when valid
+ */
+export function validateQrScene(scene: number | string, permanent: boolean): string | undefined {
+  if (typeof scene === "string") {
+    const length = scene.trim().length;
+    if (length === 0 || length > MAX_SCENE_STR_LENGTH) {
+      return `scene string must be 1-${MAX_SCENE_STR_LENGTH} characters`;
+    }
+    return undefined;
+  }
+
+  const max = permanent ? MAX_PERMANENT_SCENE_ID : MAX_TEMPORARY_SCENE_ID;
+  if (!Number.isInteger(scene) || scene < 1 || scene > max) {
+    return `scene id must be an integer between 1 and ${max}`;
+  }
+  return undefined;
+}
+
+function resolveExpireSeconds(value: number | undefined): number {
+  if (value === undefined || !Number.isFinite(value)) return QR_CODE_MAX_EXPIRE_SECONDS;
+  return Math.min(Math.max(Math.floor(value), MIN_EXPIRE_SECONDS), QR_CODE_MAX_EXPIRE_SECONDS);
+}
+
+/**
+ * Create a parametric QR code and register its scene.
+ *
+ * @throws Error if the scene or label is invalid
+ * @throws WechatMpApiError if qrcode/create fails
+ */
+export async function createWechatMpSceneQrCode(
+  account: ResolvedWechatMpAccount,
+  params: {
+    scene: number | string;
+    label: string;
+    metadata?: Record<string, string>;
+    permanent?: boolean;
+    expireSeconds?: number;
+  }
+): Promise<WechatMpSceneQrCode> {
+  const permanent = params.permanent === true;
+  const scene = typeof params.scene === "string" ? params.scene.trim() : params.scene;
+  const label = params.label.trim();
+
+  const sceneError = validateQrScene(scene, permanent);
+  if (sceneError) {
+    throw new Error(sceneError);
+  }
+  if (!label) {
+    throw new Error("label is required");
+  }
+
+  const expireSeconds = resolveExpireSeconds(params.expireSeconds);
+  const result = await createWechatMpQrCode(account, {
+    scene,
+    permanent,
+    expireSeconds: permanent ? undefined : expireSeconds,
+  });
+
+  const createdAt = Date.now();
+  const record: WechatMpQrSceneRecord = {
+    scene: String(scene),
+    label,
+    ...(params.metadata && Object.keys(params.metadata).length > 0 ? { metadata: params.metadata } : {}),
+    permanent,
+    ticket: result.ticket,
+    url: result.url,
+    createdAt,
+    ...(permanent
+      ? {}
+      : { expiresAt: createdAt + (result.expire_seconds ?? expireSeconds) * 1000 }),
+  };
+  await saveQrScene(account.accountId, record);
+
+  return { ...record, imageUrl: buildWechatMpQrCodeImageUrl(result.ticket) };
+}
+
+/**
+ * Extract the scene value from a subscribe/scan event.
+ */
+export function parseQrSceneFromEvent(
+  candidate: Pick<WechatMpInboundCandidate, "msgType" | "event" | "eventKey">
+): string | undefined {
+  if (candidate.msgType !== "event") return undefined;
+  const eventKey = candidate.eventKey?.trim();
+  if (!eventKey) return undefined;
+
+  if (candidate.event === "subscribe") {
+    return eventKey.startsWith(SUBSCRIBE_SCENE_PREFIX)
+      ? eventKey.slice(SUBSCRIBE_SCENE_PREFIX.length) || undefined
+      : undefined;
+  }
+  if (candidate.event === "scan") {
+    return eventKey;
+  }
+  return undefined;
+}
+
+/**
+ * Resolve which QR code a subscribe/scan event came from.
+ */
+export async function resolveQrSceneAttribution(
+  accountId: string,
+  candidate: Pick<WechatMpInboundCandidate, "msgType" | "event" | "eventKey">
+): Promise<WechatMpQrSceneAttribution | undefined> {
+  const scene = parseQrSceneFromEvent(candidate);
+  if (!scene) return undefined;
+  const record = await getQrScene(accountId, scene);
+  return record ? { scene, record } : { scene };
+}
@@ -22,6 +22,7 @@ import type {
   SendCapabilityResult,
 } from "./types.js";
 import { withRetry } from "@openclaw-china/shared";
+import { resolveWechatMpTagMembers } from "./directory.js";
 import {
   getLastInteractionTime,
   getInteractionWindowExpiry,
@@ -37,8 +38,16 @@ export type ActiveSendResult = {
   ok: boolean;
   msgid?: string;
   error?: string;
+  /** Members reached by a `tag:<name>` fan-out */
+  recipients?: number;
+  /** Members a `tag:<name>` fan-out failed to reach */
+  failedOpenIds?: string[];
 };
 
+/** Delay between recipients of a `tag:<name>` fan-out */
+const DEFAULT_FAN_OUT_INTERVAL_MS = 200;
+const TAG_TARGET_PREFIX = "tag:";
+
 export function buildPassiveTextReply(params: {
   account: ResolvedWechatMpAccount;
   toUserName: string;
@@ -113,6 +122,8 @@ export async function sendWechatMpActiveText(params: {
   text: string;
   /** Optional retry configuration; if provided, enables retry on transient errors */
   retryConfig?: RetryConfig;
+  /** Delay between recipients when `toUserName` is `tag:<name>` */
+  fanOutIntervalMs?: number;
 }): Promise<ActiveSendResult> {
   if (!params.account.canSendActive) {
     return {
@@ -121,6 +132,14 @@ export async function sendWechatMpActiveText(params: {
     };
   }
 
+  // tag:<name> fans out to every member of the tag
+  if (params.toUserName.toLowerCase().startsWith(TAG_TARGET_PREFIX)) {
+    return sendWechatMpTagFanOut({
+      ...params,
+      tag: params.toUserName.slice(TAG_TARGET_PREFIX.length),
+    });
+  }
+
   const byteLength = getUtf8ByteLength(params.text);
   const retryConfig = params.retryConfig ?? resolveRetryConfig(params.account);
 
@@ -143,6 +162,63 @@ export async function sendWechatMpActiveText(params: {
   return lastResult;
 }
 
+/**
+ * Send a text to every member of a tag, one recipient at a time.
+ * Failures are collected instead of stopping the fan-out.
+ */
+async function sendWechatMpTagFanOut(params: {
+  account: ResolvedWechatMpAccount;
+  tag: string;
+  text: string;
+  retryConfig?: RetryConfig;
+  fanOutIntervalMs?: number;
+}): Promise<ActiveSendResult> {
+  let openIds: string[];
+  try {
+    openIds = await resolveWechatMpTagMembers(params.account, params.tag);
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+  if (openIds.length === 0) {
+    return { ok: false, error: `Tag has no members: ${params.tag}`, recipients: 0 };
+  }
+
+  const intervalMs = params.fanOutIntervalMs ?? DEFAULT_FAN_OUT_INTERVAL_MS;
+  const failedOpenIds: string[] = [];
+  let lastError: string | undefined;
+
+  for (const [index, openId] of openIds.entries()) {
+    if (index > 0 && intervalMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    }
+    const result = await sendWechatMpActiveText({
+      account: params.account,
+      toUserName: openId,
+      text: params.text,
+      retryConfig: params.retryConfig,
+    });
+    if (!result.ok) {
+      failedOpenIds.push(openId);
+      lastError = result.error;
+    }
+  }
+
+  const recipients = openIds.length - failedOpenIds.length;
+  return {
+    ok: failedOpenIds.length === 0,
+    recipients,
+    ...(failedOpenIds.length > 0
+      ? {
+          failedOpenIds,
+          error: `${failedOpenIds.length}/${openIds.length} recipients failed: ${lastError ?? "unknown error"}`,
+        }
+      : {}),
+  };
+}
+
 async function sendSingleMessage(
   account: ResolvedWechatMpAccount,
   toUserName: string,
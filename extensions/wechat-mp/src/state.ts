@@ -1,90 +1,71 @@
-import { mkdir, readFile, writeFile } from "node:fs/promises";
 import { homedir } from "node:os";
 import { dirname, join } from "node:path";
 
-import type { WechatMpAccountState, WechatMpPersistedState } from "./types.js";
+import {
+  createJsonStateStore,
+  createLogger,
+  evictExpired,
+  type JsonStateSchema,
+  type JsonStateStore,
+} from "@openclaw-china/shared";
+
+import type {
+  WechatMpAccountState,
+  WechatMpDirectoryState,
+  WechatMpPersistedState,
+  WechatMpQrSceneRecord,
+  WechatMpSubscriberDirectory,
+} from "./types.js";
 
 /** 48 hours in milliseconds - WeChat's interaction window */
 const INTERACTION_WINDOW_MS = 48 * 60 * 60 * 1000;
 
 const DEDUP_TTL_MS = 10 * 60 * 1000;
+const logger = createLogger("wechat-mp");
 const DEFAULT_STATE_FILE = join(homedir(), ".openclaw", "wechat-mp", "data", "state.json");
 
-let stateFilePath = DEFAULT_STATE_FILE;
-let cachedState: WechatMpPersistedState | null = null;
-let loadingState: Promise<WechatMpPersistedState> | null = null;
-let saveTimer: ReturnType<typeof setTimeout> | null = null;
-
-function createEmptyState(): WechatMpPersistedState {
-  return {
+const stateSchema: JsonStateSchema<WechatMpPersistedState> = {
+  version: 1,
+  create: () => ({
     version: 1,
     processedMsgIds: {},
     accounts: {},
-  };
-}
+  }),
+  migrate: (raw) => {
+    const parsed = (raw && typeof raw === "object" ? raw : {}) as Partial<WechatMpPersistedState>;
+    return {
+      version: 1,
+      processedMsgIds: parsed.processedMsgIds ?? {},
+      accounts: parsed.accounts ?? {},
+    };
+  },
+  prune: (state, now) => {
+    evictExpired(state.processedMsgIds, now - DEDUP_TTL_MS, (timestamp) => timestamp);
+  },
+};
 
-function pruneState(state: WechatMpPersistedState): void {
-  const cutoff = Date.now() - DEDUP_TTL_MS;
-  for (const [msgId, timestamp] of Object.entries(state.processedMsgIds)) {
-    if (timestamp < cutoff) {
-      delete state.processedMsgIds[msgId];
-    }
-  }
-}
+/**
+ * Shared state store: updates are replayed onto the latest file contents under
+ * a file lock, so several gateway processes can share one state file.
+ */
+const store = createJsonStateStore({ filePath: DEFAULT_STATE_FILE, schema: stateSchema, logger });
 
-async function saveState(): Promise<void> {
-  if (!cachedState) return;
-  pruneState(cachedState);
-  await mkdir(dirname(stateFilePath), { recursive: true });
-  await writeFile(stateFilePath, `${JSON.stringify(cachedState, null, 2)}\n`, "utf8");
-}
-
-function scheduleSave(): void {
-  if (saveTimer) return;
-  saveTimer = setTimeout(() => {
-    saveTimer = null;
-    void saveState();
-  }, 50);
-}
-
-async function loadState(): Promise<WechatMpPersistedState> {
-  if (cachedState) return cachedState;
-  if (loadingState) return loadingState;
-
-  loadingState = (async () => {
-    try {
-      const raw = await readFile(stateFilePath, "utf8");
-      const parsed = JSON.parse(raw) as Partial<WechatMpPersistedState>;
-      cachedState = {
-        version: 1,
-        processedMsgIds: parsed.processedMsgIds ?? {},
-        accounts: parsed.accounts ?? {},
-      };
-    } catch {
-      cachedState = createEmptyState();
-    }
-    pruneState(cachedState);
-    return cachedState;
-  })();
-
-  try {
-    return await loadingState;
-  } finally {
-    loadingState = null;
-  }
+function loadState(): Promise<WechatMpPersistedState> {
+  return store.load();
 }
 
 export async function markProcessedMessage(msgId: string): Promise<boolean> {
   const normalized = msgId.trim();
   if (!normalized) return false;
-  const state = await loadState();
-  pruneState(state);
-  if (state.processedMsgIds[normalized]) {
-    return false;
-  }
-  state.processedMsgIds[normalized] = Date.now();
-  scheduleSave();
-  return true;
+  const now = Date.now();
+  return store.updateLocked((state) => {
+    const processedAt = state.processedMsgIds[normalized];
+    if (processedAt !== undefined && processedAt >= now - DEDUP_TTL_MS) {
+      return false;
+    }
+    state.processedMsgIds[normalized] = now;
+    return true;
+  });
 }
 
 export async function getAccountState(accountId: string): Promise<WechatMpAccountState> {
@@ -96,30 +77,21 @@ export async function updateAccountState(
   accountId: string,
   patch: Partial<WechatMpAccountState>
 ): Promise<WechatMpAccountState> {
-  const state = await loadState();
-  const current = state.accounts[accountId] ?? {};
-  const next = { ...current, ...patch };
-  state.accounts[accountId] = next;
-  scheduleSave();
-  return next;
+  return store.update((state) => {
+    const next = { ...state.accounts[accountId], ...patch };
+    state.accounts[accountId] = next;
+    return next;
+  });
 }
 
 export async function flushWechatMpStateForTests(): Promise<void> {
-  if (saveTimer) {
-    clearTimeout(saveTimer);
-    saveTimer = null;
-  }
-  await saveState();
+  await store.flush();
+  await Promise.all([...directoryStores.values()].map((directoryStore) => directoryStore.flush()));
 }
 
 export function setWechatMpStateFilePathForTests(nextPath?: string): void {
-  stateFilePath = nextPath?.trim() || DEFAULT_STATE_FILE;
-  cachedState = null;
-  loadingState = null;
-  if (saveTimer) {
-    clearTimeout(saveTimer);
-    saveTimer = null;
-  }
+  store.setFilePath(nextPath?.trim() || DEFAULT_STATE_FILE);
+  directoryStores.clear();
 }
 
 // ============================================================================
@@ -159,20 +131,18 @@ export async function recordUserInteraction(
   openId: string,
   timestamp?: number
 ): Promise<void> {
-  const state = await loadState();
-  const accountState = state.accounts[accountId] ?? {};
-  const userInteractions = accountState.userInteractions ?? {};
+  const lastInteractionAt = timestamp ?? Date.now();
+  await store.update((state) => {
+    const accountState = state.accounts[accountId] ?? {};
+    const userInteractions = accountState.userInteractions ?? {};
 
-  userInteractions[openId] = {
-    lastInteractionAt: timestamp ?? Date.now(),
-  };
+    userInteractions[openId] = { lastInteractionAt };
 
-  state.accounts[accountId] = {
-    ...accountState,
-    userInteractions,
-  };
-
-  scheduleSave();
+    state.accounts[accountId] = {
+      ...accountState,
+      userInteractions,
+    };
+  });
 }
 
 /**
@@ -214,3 +184,114 @@ export async function getInteractionWindowExpiry(
   }
   return expiresAt;
 }
+
+// ============================================================================
+// QR Scene Registry
+// ============================================================================
+
+/**
+ * Register (or replace) a parametric QR code scene.
+ * Expired temporary scenes of the same account are dropped at the same time.
+ */
+export async function saveQrScene(accountId: string, record: WechatMpQrSceneRecord): Promise<void> {
+  const now = Date.now();
+  await store.update((state) => {
+    const accountState = state.accounts[accountId] ?? {};
+    const qrScenes: Record<string, WechatMpQrSceneRecord> = {};
+
+    for (const [scene, existing] of Object.entries(accountState.qrScenes ?? {})) {
+      if (existing.expiresAt === undefined || existing.expiresAt > now) {
+        qrScenes[scene] = existing;
+      }
+    }
+    qrScenes[record.scene] = record;
+
+    state.accounts[accountId] = {
+      ...accountState,
+      qrScenes,
+    };
+  });
+}
+
+/**
+ * Look up a registered QR code scene.
+ *
+ * @returns The scene record, or null if the scene is unknown
+ */
+export async function getQrScene(
+  accountId: string,
+  scene: string
+): Promise<WechatMpQrSceneRecord | null> {
+  const state = await loadState();
+  return state.accounts[accountId]?.qrScenes?.[scene] ?? null;
+}
+
+/**
+ * List registered QR code scenes of an account, newest first.
+ */
+export async function listQrScenes(accountId: string): Promise<WechatMpQrSceneRecord[]> {
+  const state = await loadState();
+  return Object.values(state.accounts[accountId]?.qrScenes ?? {}).sort(
+    (a, b) => b.createdAt - a.createdAt
+  );
+}
+
+// ============================================================================
+// Subscriber Directory
+// ============================================================================
+
+/**
+ * The subscriber directory can hold thousands of followers, so each account keeps it in
+ * its own file next to state.json instead of rewriting it with every processed message.
+ */
+const directoryStores = new Map<string, JsonStateStore<WechatMpDirectoryState>>();
+
+const directorySchema: JsonStateSchema<WechatMpDirectoryState> = {
+  version: 1,
+  create: () => ({ version: 1 }),
+  migrate: (raw) => {
+    const parsed = (raw && typeof raw === "object" ? raw : {}) as Partial<WechatMpDirectoryState>;
+    return parsed.directory ? { version: 1, directory: parsed.directory } : { version: 1 };
+  },
+};
+
+function resolveDirectoryFilePath(accountId: string): string {
+  return join(dirname(store.filePath), "directory", `${encodeURIComponent(accountId)}.json`);
+}
+
+function getDirectoryStore(accountId: string): JsonStateStore<WechatMpDirectoryState> {
+  let directoryStore = directoryStores.get(accountId);
+  if (!directoryStore) {
+    directoryStore = createJsonStateStore({
+      filePath: resolveDirectoryFilePath(accountId),
+      schema: directorySchema,
+      logger,
+    });
+    directoryStores.set(accountId, directoryStore);
+  }
+  return directoryStore;
+}
+
+/**
+ * Get the cached subscriber directory of an account.
+ *
+ * @returns The directory, or null if it has never been synced
+ */
+export async function getSubscriberDirectory(
+  accountId: string
+): Promise<WechatMpSubscriberDirectory | null> {
+  const state = await getDirectoryStore(accountId).load();
+  return state.directory ?? null;
+}
+
+/**
+ * Replace the cached subscriber directory of an account.
+ */
+export async function saveSubscriberDirectory(
+  accountId: string,
+  directory: WechatMpSubscriberDirectory
+): Promise<void> {
+  await getDirectoryStore(accountId).update((state) => {
+    state.directory = directory;
+  });
+}
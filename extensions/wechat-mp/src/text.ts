@@ -9,6 +9,8 @@
  * - false: Minimal passthrough, preserving original text
  */
 
+import { chunkText } from "@openclaw-china/shared";
+
 /** WeChat MP text message byte limit (2048 bytes) */
 export const WECHAT_TEXT_BYTE_LIMIT = 2048;
 
@@ -25,6 +27,8 @@ export function getUtf8ByteLength(str: string): number {
  * Split text by byte limit, respecting boundaries (paragraphs, sentences, spaces).
  * Ensures no multi-byte characters are truncated.
  *
+ * Delegates to the shared chunker so all channels break text the same way.
+ *
  * @param text - The text to split
  * @param maxBytes - Maximum bytes per chunk (default: WECHAT_TEXT_BYTE_LIMIT)
  * @returns Array of text chunks, each within the byte limit
@@ -33,40 +37,7 @@ export function splitTextByByteLimit(
   text: string,
   maxBytes: number = WECHAT_TEXT_BYTE_LIMIT
 ): string[] {
-  if (getUtf8ByteLength(text) <= maxBytes) {
-    return [text];
-  }
-
-  const chunks: string[] = [];
-  let remaining = text;
-
-  while (remaining.length > 0) {
-    // Find the maximum character length that fits within maxBytes
-    let end = remaining.length;
-    while (end > 0 && getUtf8ByteLength(remaining.slice(0, end)) > maxBytes) {
-      end--;
-    }
-
-    if (end === 0) {
-      // Single character exceeds limit (should not happen with 2048 bytes)
-      // Force take at least 1 character to avoid infinite loop
-      end = 1;
-    }
-
-    // Try to find a good boundary (paragraph > sentence > space)
-    const boundary = findBestBoundary(remaining, end);
-    if (boundary > 0) {
-      end = boundary;
-    }
-
-    const chunk = remaining.slice(0, end).trim();
-    if (chunk) {
-      chunks.push(chunk);
-    }
-    remaining = remaining.slice(end).trim();
-  }
-
-  return chunks;
+  return chunkText(text, { limit: maxBytes, unit: "byte" });
 }
 
 /**
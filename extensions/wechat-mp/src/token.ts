@@ -1,23 +1,19 @@
 /**
  * access_token lifecycle management for wechat-mp
  *
- * Provides centralized token caching, proactive refresh, and error handling.
+ * Caching, single-flight refresh, proactive renewal and optional disk persistence
+ * are provided by the shared access token manager; this module supplies the
+ * WeChat token fetcher and keeps the per-account helpers.
  */
 
-import type { AccessTokenCacheEntry, ResolvedWechatMpAccount } from "./types.js";
+import { createAccessTokenManager, type AccessTokenSource } from "@openclaw-china/shared";
 
-// ============================================================================
-// Token Cache
-// ============================================================================
+import type { ResolvedWechatMpAccount } from "./types.js";
 
-const ACCESS_TOKEN_CACHE = new Map<string, AccessTokenCacheEntry>();
-const TOKEN_REFRESH_TIMERS = new Map<string, NodeJS.Timeout>();
-const INVALID_ACCESS_TOKEN_ERRCODES = new Set([40001, 40014, 42001, 42007]);
-
-interface TokenFetchResult {
-  token: string;
-  expiresIn: number;
-}
+const tokenManager = createAccessTokenManager({
+  name: "wechat-mp",
+  proactiveRefresh: true,
+});
 
 /**
  * Build cache key for account
@@ -26,42 +22,28 @@ function buildCacheKey(account: ResolvedWechatMpAccount): string {
   return `${account.accountId}:${account.config.appId}`;
 }
 
+function buildTokenSource(account: ResolvedWechatMpAccount): AccessTokenSource {
+  return {
+    key: buildCacheKey(account),
+    fetch: () => fetchAccessToken(account),
+    persist: account.config.persistAccessToken === true,
+  };
+}
+
 /**
  * Get a cached access_token or fetch a new one.
  * @throws Error if appId/appSecret not configured or API call fails
  */
 export async function getAccessToken(account: ResolvedWechatMpAccount): Promise<string> {
-  const key = buildCacheKey(account);
-
-  // Check cache first
-  const cached = ACCESS_TOKEN_CACHE.get(key);
-  if (cached && Date.now() < cached.expiresAt) {
-    return cached.token;
-  }
-
-  // Fetch new token from WeChat API
-  const result = await fetchAccessToken(account);
-
-  // Cache token with 5 minutes before expiry buffer
-  const bufferMs = 5 * 60 * 1000;
-  const expiresInMs = Math.max((result.expiresIn - 300) * 1000, 60 * 1000);
-
-  const entry: AccessTokenCacheEntry = {
-    token: result.token,
-    expiresAt: Date.now() + expiresInMs,
-  };
-  ACCESS_TOKEN_CACHE.set(key, entry);
-
-  // Schedule proactive refresh
-  scheduleTokenRefresh(account, expiresInMs - bufferMs);
-
-  return result.token;
+  return tokenManager.getToken(buildTokenSource(account));
 }
 
 /**
  * Fetch access_token from WeChat API
  */
-async function fetchAccessToken(account: ResolvedWechatMpAccount): Promise<TokenFetchResult> {
+async function fetchAccessToken(
+  account: ResolvedWechatMpAccount
+): Promise<{ token: string; expiresInSec: number }> {
   if (!account.config.appId || !account.config.appSecret) {
     throw new Error(`appId or appSecret not configured for account ${account.accountId}`);
   }
@@ -84,63 +66,53 @@ async function fetchAccessToken(account: ResolvedWechatMpAccount): Promise<Token
 
   return {
     token: data.access_token,
-    expiresIn: data.expires_in ?? 7200,
+    expiresInSec: data.expires_in ?? 7200,
   };
 }
 
 /**
  * Clear token cache for an account
+ * @param token Only clear when the cached token is still this one
  */
-export function clearAccessTokenCache(account: ResolvedWechatMpAccount): void {
-  const key = buildCacheKey(account);
-  ACCESS_TOKEN_CACHE.delete(key);
-
-  // Clear scheduled refresh
-  const timer = TOKEN_REFRESH_TIMERS.get(key);
-  if (timer) {
-    clearTimeout(timer);
-    TOKEN_REFRESH_TIMERS.delete(key);
-  }
+export function clearAccessTokenCache(account: ResolvedWechatMpAccount, token?: string): void {
+  tokenManager.invalidate(buildCacheKey(account), token);
 }
 
 /**
  * Clear all token caches
  */
 export function clearAllAccessTokenCache(): void {
-  ACCESS_TOKEN_CACHE.clear();
-  for (const timer of TOKEN_REFRESH_TIMERS.values()) {
-    clearTimeout(timer);
-  }
-  TOKEN_REFRESH_TIMERS.clear();
+  tokenManager.invalidate();
 }
 
 /**
  * Check if a token needs refresh (expires within 5 minutes)
  */
 export function shouldRefreshToken(account: ResolvedWechatMpAccount): boolean {
-  const key = buildCacheKey(account);
-  const cached = ACCESS_TOKEN_CACHE.get(key);
-  if (!cached) return false;
-
-  const bufferMs = 5 * 60 * 1000;
-  return Date.now() >= cached.expiresAt - bufferMs;
+  const status = tokenManager.getStatus(buildCacheKey(account));
+  return status.cached && !status.fresh;
 }
 
 /**
  * Get token cache status
  */
-export function getTokenCacheStatus(
-  account: ResolvedWechatMpAccount
-): { cached: boolean; expiresAt?: number; valid?: boolean } {
-  const key = buildCacheKey(account);
-  const cached = ACCESS_TOKEN_CACHE.get(key);
-  if (!cached) {
-    return { cached: false };
+export function getTokenCacheStatus(account: ResolvedWechatMpAccount): {
+  cached: boolean;
+  expiresAt?: number;
+  valid?: boolean;
+  refreshing?: boolean;
+  lastError?: string;
+} {
+  const status = tokenManager.getStatus(buildCacheKey(account));
+  if (!status.cached) {
+    return status.lastError ? { cached: false, lastError: status.lastError } : { cached: false };
   }
   return {
     cached: true,
-    expiresAt: cached.expiresAt,
-    valid: Date.now() < cached.expiresAt,
+    expiresAt: status.expiresAt,
+    valid: status.valid,
+    refreshing: status.refreshing,
+    ...(status.lastError ? { lastError: status.lastError } : {}),
   };
 }
 
@@ -148,42 +120,23 @@ export function getTokenCacheStatus(
  * Force refresh token (clear cache and fetch new)
  */
 export async function refreshToken(account: ResolvedWechatMpAccount): Promise<string> {
-  clearAccessTokenCache(account);
-  return getAccessToken(account);
+  return tokenManager.refresh(buildTokenSource(account));
 }
 
 /**
- * Schedule proactive token refresh
+ * Call an API with the account's access_token, clearing the cache and retrying
+ * once if WeChat reports the token as invalid or expired.
  */
-function scheduleTokenRefresh(account: ResolvedWechatMpAccount, delayMs: number): void {
-  const key = buildCacheKey(account);
-
-  // Clear existing timer
-  const existing = TOKEN_REFRESH_TIMERS.get(key);
-  if (existing) {
-    clearTimeout(existing);
-  }
-
-  if (delayMs <= 0) {
-    return;
-  }
-
-  const timer = setTimeout(async () => {
-    TOKEN_REFRESH_TIMERS.delete(key);
-    try {
-      await refreshToken(account);
-    } catch {
-      // Retry with exponential backoff
-      scheduleTokenRefresh(account, Math.min(delayMs * 2, 60 * 60 * 1000));
-    }
-  }, delayMs);
-
-  TOKEN_REFRESH_TIMERS.set(key, timer);
+export async function withAccessToken<T>(
+  account: ResolvedWechatMpAccount,
+  run: (token: string) => Promise<T>
+): Promise<T> {
+  return tokenManager.withToken(buildTokenSource(account), run);
 }
 
 /**
  * Check if error code indicates invalid token
  */
 export function isInvalidTokenError(errcode: number): boolean {
-  return INVALID_ACCESS_TOKEN_ERRCODES.has(errcode);
+  return tokenManager.isExpiredCode(errcode);
 }
@@ -71,6 +71,11 @@ export type WechatMpAccountConfig = {
   welcomeText?: string;
   dmPolicy?: WechatMpDmPolicy;
   allowFrom?: string[];
+  /**
+   * Persist access_token to disk so restarts reuse it instead of fetching a new one
+   * (token fetches count against a daily quota); default false
+   */
+  persistAccessToken?: boolean;
   /** Retry configuration for message sending (optional) */
   retryConfig?: RetryConfig;
   /**
@@ -85,6 +90,60 @@ export type WechatMpAccountConfig = {
     engineType?: string;
     timeoutMs?: number;
   };
+  /** Custom menu, synced to WeChat on gateway start or via `openclaw wechat-mp menu sync` */
+  menu?: WechatMpMenuConfig;
+};
+
+/**
+ * Custom menu button types supported by the menu/create API.
+ */
+export type WechatMpMenuButtonType =
+  | "click"
+  | "view"
+  | "miniprogram"
+  | "scancode_push"
+  | "scancode_waitmsg"
+  | "pic_sysphoto"
+  | "pic_photo_or_album"
+  | "pic_weixin"
+  | "location_select"
+  | "media_id"
+  | "article_id"
+  | "article_view_limited";
+
+/**
+ * Custom menu button configuration.
+ * A button with subButtons is a top-level group and must not set type.
+ */
+export type WechatMpMenuButtonConfig = {
+  name: string;
+  /** Defaults to "click" for leaf buttons */
+  type?: WechatMpMenuButtonType;
+  /** EventKey for click / scancode / pic / location buttons */
+  key?: string;
+  /** Web page URL for view buttons (fallback URL for miniprogram buttons) */
+  url?: string;
+  /** Mini program appid (miniprogram buttons) */
+  appId?: string;
+  /** Mini program page path (miniprogram buttons) */
+  pagePath?: string;
+  /** media_id (media_id buttons) */
+  mediaId?: string;
+  /** article_id (article_id / article_view_limited buttons) */
+  articleId?: string;
+  /** For click buttons: dispatched to the agent as the user's message when clicked */
+  prompt?: string;
+  subButtons?: WechatMpMenuButtonConfig[];
+};
+
+/**
+ * Custom menu configuration.
+ */
+export type WechatMpMenuConfig = {
+  /** Sync the menu on gateway start; default true */
+  syncOnStart?: boolean;
+  /** Top-level buttons; an empty list deletes the current menu */
+  buttons: WechatMpMenuButtonConfig[];
 };
 
 /**
@@ -281,14 +340,6 @@ export type ResolvedWechatMpAccount = {
   config: WechatMpAccountConfig;
 };
 
-/**
- * WeChat MP access token cache entry.
- */
-export type AccessTokenCacheEntry = {
-  token: string;
-  expiresAt: number;
-};
-
 /**
  * WeChat MP inbound text message structure.
  */
@@ -419,6 +470,54 @@ export interface UserInteractionState {
   lastInteractionAt: number;
 }
 
+/**
+ * A parametric QR code registered with a label, used to attribute subscribe/scan events.
+ */
+export interface WechatMpQrSceneRecord {
+  /** Scene value encoded in the QR code (integer ids are stored as strings) */
+  scene: string;
+  label: string;
+  metadata?: Record<string, string>;
+  permanent: boolean;
+  ticket: string;
+  /** URL encoded in the QR code */
+  url: string;
+  createdAt: number;
+  /** Expiry timestamp (ms) of temporary QR codes */
+  expiresAt?: number;
+}
+
+/**
+ * A follower cached in the subscriber directory.
+ */
+export interface WechatMpSubscriber {
+  openId: string;
+  /** Empty for most accounts since WeChat stopped returning nicknames */
+  nickname?: string;
+  remark?: string;
+  tagIds: number[];
+  language?: string;
+  /** Subscribe timestamp in seconds */
+  subscribeTime?: number;
+  subscribeScene?: string;
+  /** Scene value of the QR code the user subscribed through */
+  qrScene?: string;
+  /** When the user info was last fetched (ms) */
+  updatedAt: number;
+}
+
+/**
+ * Local cache of followers and tags, refreshed via user/get, user/info/batchget and tags/get.
+ */
+export interface WechatMpSubscriberDirectory {
+  subscribers: Record<string, WechatMpSubscriber>;
+  /** Tags keyed by tag id */
+  tags: Record<string, { id: number; name: string; count?: number }>;
+  /** Follower total reported by user/get */
+  total?: number;
+  syncedAt?: number;
+}
+
 /**
  * WeChat MP account state for tracking runtime status.
  */
@@ -437,6 +536,16 @@ export type WechatMpAccountState = {
   lastFromUserName?: string;
   /** Per-user interaction tracking for 48h window enforcement */
   userInteractions?: Record<string, UserInteractionState>;
+  /** Parametric QR code registry keyed by scene */
+  qrScenes?: Record<string, WechatMpQrSceneRecord>;
+};
+
+/**
+ * Per-account subscriber directory file (directory/<accountId>.json next to state.json).
+ */
+export type WechatMpDirectoryState = {
+  version: 1;
+  directory?: WechatMpSubscriberDirectory;
 };
 
 /**
@@ -235,12 +235,15 @@ async function handoffInboundCandidate(
     if (result.reason) {
       logger.info(`candidate skipped reason=${result.reason}`);
     }
-    return { dispatched: false, reason: result.reason };
+    // 未配对的发送者仍需收到配对码，继续走下面的回复流程
+    if (!result.pairingRequired) {
+      return { dispatched: false, reason: result.reason };
+    }
   }
 
   const combinedReply = result.combinedReply?.trim();
   if (!combinedReply) {
-    return { dispatched: true };
+    return { dispatched: result.dispatched };
   }
 
   if (replyMode === "active") {
@@ -255,7 +258,7 @@ async function handoffInboundCandidate(
       });
       logger.error(`active send failed: ${activeResult.error ?? "unknown error"}`);
     }
-    return { dispatched: true };
+    return { dispatched: result.dispatched };
   }
 
   const passive = buildPassiveTextReply({
@@ -269,10 +272,10 @@ async function handoffInboundCandidate(
       lastError: passive.error,
     });
     logger.error(`passive reply build failed: ${passive.error ?? "unknown error"}`);
-    return { dispatched: true };
+    return { dispatched: result.dispatched };
   }
 
-  return { dispatched: true, passiveReplyBody: passive.body };
+  return { dispatched: result.dispatched, passiveReplyBody: passive.body };
 }
 
 export function registerWechatMpWebhookTarget(target: WebhookTarget): () => void {
@@ -91,13 +91,20 @@ export {
   stripMarkdown,
   clearAccessTokenCache,
   clearAllAccessTokenCache,
+  getAccessTokenStatus,
   downloadAndSendImage,
   sendWecomAppImageMessage,
+  createWecomAppChat,
+  updateWecomAppChat,
+  type CreateWecomAppChatParams,
+  type UpdateWecomAppChatParams,
+  type WecomAppChatResult,
 } from "./src/api.js";
 
 // 导出封装发送函数 (业务层推荐使用)
 export {
   sendWecomDM,
+  sendWecomParty,
   sendWecom,
   normalizeTarget,
   parseTarget,
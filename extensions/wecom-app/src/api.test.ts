@@ -1,6 +1,12 @@
 import { afterEach, describe, expect, it, vi } from "vitest";
 
-import { clearAllAccessTokenCache, getAccessToken, sendWecomAppMessage } from "./api.js";
+import {
+  clearAllAccessTokenCache,
+  createWecomAppChat,
+  getAccessToken,
+  sendWecomAppMessage,
+  updateWecomAppChat,
+} from "./api.js";
 import type { ResolvedWecomAppAccount } from "./types.js";
 
 function createAccount(apiBaseUrl?: string): ResolvedWecomAppAccount {
@@ -75,3 +81,79 @@ describe("wecom-app api base url", () => {
     expect(fetchMock.mock.calls[1]?.[0]).toBe("https://proxy.wecom.local/cgi-bin/message/send?access_token=token-c");
   });
 });
+
+describe("wecom-app send targets", () => {
+  function mockSend(): ReturnType<typeof vi.fn> {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, access_token: "token-d" }))
+      .mockResolvedValue(mockJsonResponse({ errcode: 0, errmsg: "ok", msgid: "msg-2", chatid: "chat01" }));
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+    return fetchMock;
+  }
+
+  function sentBody(fetchMock: ReturnType<typeof vi.fn>, index = 1): Record<string, unknown> {
+    const init = fetchMock.mock.calls[index]?.[1] as { body: string };
+    return JSON.parse(init.body) as Record<string, unknown>;
+  }
+
+  it("sends to departments via toparty", async () => {
+    const fetchMock = mockSend();
+
+    await sendWecomAppMessage(createAccount(), { partyId: "2|3" }, "hello");
+
+    expect(fetchMock.mock.calls[1]?.[0]).toBe("https://qyapi.weixin.qq.com/cgi-bin/message/send?access_token=token-d");
+    expect(sentBody(fetchMock)).toEqual({
+      msgtype: "text",
+      text: { content: "hello" },
+      agentid: 1000002,
+      toparty: "2|3",
+    });
+  });
+
+  it("sends to tags and @all", async () => {
+    const fetchMock = mockSend();
+
+    await sendWecomAppMessage(createAccount(), { tagId: "5" }, "hello");
+    await sendWecomAppMessage(createAccount(), { all: true }, "hello");
+
+    expect(sentBody(fetchMock, 1)).toMatchObject({ agentid: 1000002, totag: "5" });
+    expect(sentBody(fetchMock, 1)).not.toHaveProperty("touser");
+    expect(sentBody(fetchMock, 2)).toMatchObject({ agentid: 1000002, touser: "@all" });
+  });
+
+  it("sends to app group chats via appchat/send", async () => {
+    const fetchMock = mockSend();
+
+    const result = await sendWecomAppMessage(createAccount(), { chatId: "chat01" }, "hello");
+
+    expect(result.ok).toBe(true);
+    expect(fetchMock.mock.calls[1]?.[0]).toBe("https://qyapi.weixin.qq.com/cgi-bin/appchat/send?access_token=token-d");
+    expect(sentBody(fetchMock)).toEqual({
+      msgtype: "text",
+      text: { content: "hello" },
+      chatid: "chat01",
+    });
+  });
+
+  it("creates and updates app group chats", async () => {
+    const fetchMock = mockSend();
+
+    const created = await createWecomAppChat(createAccount(), {
+      name: "值班群",
+      owner: "zhangsan",
+      userlist: ["zhangsan", "lisi"],
+    });
+    const updated = await updateWecomAppChat(createAccount(), {
+      chatid: "chat01",
+      addUserList: ["wangwu"],
+    });
+
+    expect(created).toMatchObject({ ok: true, chatid: "chat01" });
+    expect(fetchMock.mock.calls[1]?.[0]).toBe("https://qyapi.weixin.qq.com/cgi-bin/appchat/create?access_token=token-d");
+    expect(sentBody(fetchMock, 1)).toEqual({ userlist: ["zhangsan", "lisi"], name: "值班群", owner: "zhangsan" });
+    expect(updated).toMatchObject({ ok: true, chatid: "chat01" });
+    expect(fetchMock.mock.calls[2]?.[0]).toBe("https://qyapi.weixin.qq.com/cgi-bin/appchat/update?access_token=token-d");
+    expect(sentBody(fetchMock, 2)).toEqual({ chatid: "chat01", add_user_list: ["wangwu"] });
+  });
+});
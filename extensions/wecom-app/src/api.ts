@@ -3,7 +3,9 @@
  * 
  * 提供 Access Token 缓存和主动发送消息能力
  */
-import type { ResolvedWecomAppAccount, WecomAppSendTarget, AccessTokenCacheEntry } from "./types.js";
+import { createAccessTokenManager, type AccessTokenSource, type AccessTokenStatus } from "@openclaw-china/shared";
+
+import type { ResolvedWecomAppAccount, WecomAppSendTarget } from "./types.js";
 import {
   resolveInboundMediaDir,
   resolveInboundMediaKeepDays,
@@ -185,10 +187,7 @@ export class TimeoutError extends Error {
 }
 
 /** Access Token 缓存 (key: corpId:agentId) */
-const accessTokenCache = new Map<string, AccessTokenCacheEntry>();
-
-/** Access Token 有效期: 2小时减去5分钟缓冲 */
-const ACCESS_TOKEN_TTL_MS = 7200 * 1000 - 5 * 60 * 1000;
+const tokenManager = createAccessTokenManager({ name: "wecom-app" });
 
 function buildWecomApiUrl(account: ResolvedWecomAppAccount, pathWithQuery: string): string {
   const normalizedPath = pathWithQuery.startsWith("/") ? pathWithQuery : `/${pathWithQuery}`;
@@ -289,57 +288,68 @@ export function stripMarkdown(text: string): string {
   return result.trim();
 }
 
+function buildAccessTokenKey(account: ResolvedWecomAppAccount): string {
+  return `${account.corpId}:${account.agentId ?? "default"}`;
+}
+
+function buildTokenSource(account: ResolvedWecomAppAccount): AccessTokenSource {
+  return {
+    key: buildAccessTokenKey(account),
+    fetch: async () => {
+      const url = buildWecomApiUrl(
+        account,
+        `/cgi-bin/gettoken?corpid=${encodeURIComponent(account.corpId ?? "")}&corpsecret=${encodeURIComponent(account.corpSecret ?? "")}`
+      );
+      const resp = await fetch(url);
+      const data = (await resp.json()) as {
+        errcode?: number;
+        errmsg?: string;
+        access_token?: string;
+        expires_in?: number;
+      };
+
+      if (data.errcode !== undefined && data.errcode !== 0) {
+        throw new Error(`gettoken failed: ${data.errmsg ?? "unknown error"} (errcode=${data.errcode})`);
+      }
+
+      if (!data.access_token) {
+        throw new Error("gettoken returned empty access_token");
+      }
+
+      return { token: data.access_token, expiresInSec: data.expires_in };
+    },
+  };
+}
+
 /**
- * 获取 Access Token（带缓存）
+ * 获取 Access Token（带缓存，同一账户并发请求只刷新一次）
  */
 export async function getAccessToken(account: ResolvedWecomAppAccount): Promise<string> {
   if (!account.corpId || !account.corpSecret) {
     throw new Error("corpId or corpSecret not configured");
   }
-
-  const key = `${account.corpId}:${account.agentId ?? "default"}`;
-  const cached = accessTokenCache.get(key);
-
-  if (cached && Date.now() < cached.expiresAt) {
-    return cached.token;
-  }
-
-  const url = buildWecomApiUrl(
-    account,
-    `/cgi-bin/gettoken?corpid=${encodeURIComponent(account.corpId)}&corpsecret=${encodeURIComponent(account.corpSecret)}`
-  );
-  const resp = await fetch(url);
-  const data = (await resp.json()) as { errcode?: number; errmsg?: string; access_token?: string };
-
-  if (data.errcode !== undefined && data.errcode !== 0) {
-    throw new Error(`gettoken failed: ${data.errmsg ?? "unknown error"} (errcode=${data.errcode})`);
-  }
-
-  if (!data.access_token) {
-    throw new Error("gettoken returned empty access_token");
-  }
-
-  accessTokenCache.set(key, {
-    token: data.access_token,
-    expiresAt: Date.now() + ACCESS_TOKEN_TTL_MS,
-  });
-
-  return data.access_token;
+  return tokenManager.getToken(buildTokenSource(account));
 }
 
 /**
  * 清除指定账户的 Access Token 缓存
  */
 export function clearAccessTokenCache(account: ResolvedWecomAppAccount): void {
-  const key = `${account.corpId}:${account.agentId ?? "default"}`;
-  accessTokenCache.delete(key);
+  tokenManager.invalidate(buildAccessTokenKey(account));
 }
 
 /**
  * 清除所有 Access Token 缓存
  */
 export function clearAllAccessTokenCache(): void {
-  accessTokenCache.clear();
+  tokenManager.invalidate();
+}
+
+/**
+ * 查询 Access Token 缓存状态（用于 probe）
+ */
+export function getAccessTokenStatus(account: ResolvedWecomAppAccount): AccessTokenStatus {
+  return tokenManager.getStatus(buildAccessTokenKey(account));
 }
 
 /** 发送消息结果 */
@@ -353,6 +363,37 @@ export type SendMessageResult = {
   msgid?: string;
 };
 
+/**
+ * 根据发送目标构建接收方字段
+ *
+ * message/send 需要 agentid + touser/toparty/totag；appchat/send 只需要 chatid。
+ */
+export function buildWecomAppRecipient(
+  account: ResolvedWecomAppAccount,
+  target: WecomAppSendTarget
+): Record<string, unknown> {
+  if ("chatId" in target) {
+    return { chatid: target.chatId };
+  }
+  if ("partyId" in target) {
+    return { agentid: account.agentId, toparty: target.partyId };
+  }
+  if ("tagId" in target) {
+    return { agentid: account.agentId, totag: target.tagId };
+  }
+  if ("all" in target) {
+    return { agentid: account.agentId, touser: "@all" };
+  }
+  return { agentid: account.agentId, touser: target.userId };
+}
+
+/**
+ * 根据发送目标选择发送接口（群聊走 appchat/send）
+ */
+export function resolveWecomAppSendPath(target: WecomAppSendTarget): string {
+  return "chatId" in target ? "/cgi-bin/appchat/send" : "/cgi-bin/message/send";
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // 入站媒体下载 (media_id -> 本地文件)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -566,7 +607,7 @@ export async function downloadWecomMediaToFile(
  * 发送企业微信应用消息
  * 
  * @param account - 已解析的账户配置
- * @param target - 发送目标 (userId)
+ * @param target - 发送目标（用户 / 部门 / 标签 / 全员 / 群聊）
  * @param message - 消息内容 (会自动移除 Markdown 格式)
  */
 export async function sendWecomAppMessage(
@@ -587,16 +628,15 @@ export async function sendWecomAppMessage(
 
   const payload: Record<string, unknown> = {
     msgtype: "text",
-    agentid: account.agentId,
     text: { content: text },
-    touser: target.userId,
+    ...buildWecomAppRecipient(account, target),
   };
 
   // 注意：企业微信 API 要求 access_token 作为查询参数传递。
   // 这可能会在服务器日志、浏览器历史和引用头中暴露令牌。
   // 确保任何记录此 URL 的日志都隐藏 access_token 参数。
   const resp = await fetch(
-    buildWecomApiUrl(account, `/cgi-bin/message/send?access_token=${encodeURIComponent(token)}`),
+    buildWecomApiUrl(account, `${resolveWecomAppSendPath(target)}?access_token=${encodeURIComponent(token)}`),
     {
       method: "POST",
       body: JSON.stringify(payload),
@@ -637,13 +677,12 @@ export async function sendWecomAppMarkdownMessage(
 
   const payload: Record<string, unknown> = {
     msgtype: "markdown",
-    agentid: account.agentId,
     markdown: { content: markdownContent },
-    touser: target.userId,
+    ...buildWecomAppRecipient(account, target),
   };
 
   const resp = await fetch(
-    buildWecomApiUrl(account, `/cgi-bin/message/send?access_token=${encodeURIComponent(token)}`),
+    buildWecomApiUrl(account, `${resolveWecomAppSendPath(target)}?access_token=${encodeURIComponent(token)}`),
     {
       method: "POST",
       body: JSON.stringify(payload),
@@ -803,13 +842,12 @@ export async function sendWecomAppImageMessage(
 
   const payload: Record<string, unknown> = {
     msgtype: "image",
-    agentid: account.agentId,
     image: { media_id: mediaId },
-    touser: target.userId,
+    ...buildWecomAppRecipient(account, target),
   };
 
   const resp = await fetch(
-    buildWecomApiUrl(account, `/cgi-bin/message/send?access_token=${encodeURIComponent(token)}`),
+    buildWecomApiUrl(account, `${resolveWecomAppSendPath(target)}?access_token=${encodeURIComponent(token)}`),
     {
       method: "POST",
       body: JSON.stringify(payload),
@@ -985,13 +1023,12 @@ export async function sendWecomAppVoiceMessage(
 
   const payload: Record<string, unknown> = {
     msgtype: "voice",
-    agentid: account.agentId,
     voice: { media_id: mediaId },
-    touser: target.userId,
+    ...buildWecomAppRecipient(account, target),
   };
 
   const resp = await fetch(
-    buildWecomApiUrl(account, `/cgi-bin/message/send?access_token=${encodeURIComponent(token)}`),
+    buildWecomApiUrl(account, `${resolveWecomAppSendPath(target)}?access_token=${encodeURIComponent(token)}`),
     {
       method: "POST",
       body: JSON.stringify(payload),
@@ -1285,14 +1322,13 @@ export async function sendWecomAppFileMessage(
 
   const payload: Record<string, unknown> = {
     msgtype: "file",
-    agentid: account.agentId,
     file: { media_id: mediaId },
     safe: 0,
-    touser: target.userId,
+    ...buildWecomAppRecipient(account, target),
   };
 
   const resp = await fetch(
-    buildWecomApiUrl(account, `/cgi-bin/message/send?access_token=${encodeURIComponent(token)}`),
+    buildWecomApiUrl(account, `${resolveWecomAppSendPath(target)}?access_token=${encodeURIComponent(token)}`),
     {
       method: "POST",
       body: JSON.stringify(payload),
@@ -1336,13 +1372,12 @@ export async function sendWecomAppVideoMessage(
 
   const payload: Record<string, unknown> = {
     msgtype: "video",
-    agentid: account.agentId,
     video: { media_id: mediaId },
-    touser: target.userId,
+    ...buildWecomAppRecipient(account, target),
   };
 
   const resp = await fetch(
-    buildWecomApiUrl(account, `/cgi-bin/message/send?access_token=${encodeURIComponent(token)}`),
+    buildWecomApiUrl(account, `${resolveWecomAppSendPath(target)}?access_token=${encodeURIComponent(token)}`),
     {
       method: "POST",
       body: JSON.stringify(payload),
@@ -1528,3 +1563,114 @@ export async function downloadAndSendVideo(
     };
   }
 }
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 群聊 (appchat) 管理
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * 创建群聊参数
+ */
+export type CreateWecomAppChatParams = {
+  /** 群聊名称，最多 50 个 utf8 字符 */
+  name?: string;
+  /** 群主 UserID，不指定时随机选一名成员 */
+  owner?: string;
+  /** 群成员 UserID 列表，至少 2 人，最多 2000 人 */
+  userlist: string[];
+  /** 自定义群聊 ID，不指定时由企业微信生成 */
+  chatid?: string;
+};
+
+/**
+ * 修改群聊参数
+ */
+export type UpdateWecomAppChatParams = {
+  /** 群聊 ID */
+  chatid: string;
+  /** 新的群聊名称 */
+  name?: string;
+  /** 新群主 UserID */
+  owner?: string;
+  /** 添加成员 UserID 列表 */
+  addUserList?: string[];
+  /** 踢出成员 UserID 列表 */
+  delUserList?: string[];
+};
+
+/** 群聊管理结果 */
+export type WecomAppChatResult = {
+  ok: boolean;
+  errcode?: number;
+  errmsg?: string;
+  chatid?: string;
+};
+
+async function postAppChatRequest(
+  account: ResolvedWecomAppAccount,
+  path: string,
+  payload: Record<string, unknown>
+): Promise<WecomAppChatResult> {
+  if (!account.canSendActive) {
+    return {
+      ok: false,
+      errcode: -1,
+      errmsg: "Account not configured for active sending (missing corpId, corpSecret, or agentId)",
+    };
+  }
+
+  const token = await getAccessToken(account);
+  const resp = await fetch(
+    buildWecomApiUrl(account, `${path}?access_token=${encodeURIComponent(token)}`),
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+
+  const data = (await resp.json()) as { errcode?: number; errmsg?: string; chatid?: string };
+
+  return {
+    ok: data.errcode === 0,
+    errcode: data.errcode,
+    errmsg: data.errmsg,
+    chatid: data.chatid,
+  };
+}
+
+/**
+ * 创建群聊会话
+ *
+ * 只有应用创建的群聊才能通过 appchat/send 发送消息（target: chat:<chatid>）。
+ * 应用可见范围需为根部门。
+ */
+export async function createWecomAppChat(
+  account: ResolvedWecomAppAccount,
+  params: CreateWecomAppChatParams
+): Promise<WecomAppChatResult> {
+  const payload: Record<string, unknown> = { userlist: params.userlist };
+  if (params.name) payload.name = params.name;
+  if (params.owner) payload.owner = params.owner;
+  if (params.chatid) payload.chatid = params.chatid;
+
+  const result = await postAppChatRequest(account, "/cgi-bin/appchat/create", payload);
+  return { ...result, chatid: result.chatid ?? (result.ok ? params.chatid : undefined) };
+}
+
+/**
+ * 修改群聊会话（名称 / 群主 / 成员）
+ */
+export async function updateWecomAppChat(
+  account: ResolvedWecomAppAccount,
+  params: UpdateWecomAppChatParams
+): Promise<WecomAppChatResult> {
+  const payload: Record<string, unknown> = { chatid: params.chatid };
+  if (params.name) payload.name = params.name;
+  if (params.owner) payload.owner = params.owner;
+  if (params.addUserList?.length) payload.add_user_list = params.addUserList;
+  if (params.delUserList?.length) payload.del_user_list = params.delUserList;
+
+  const result = await postAppChatRequest(account, "/cgi-bin/appchat/update", payload);
+  return { ...result, chatid: params.chatid };
+}
@@ -10,6 +10,7 @@ import {
   appendCronHiddenPrompt,
   checkDmPolicy,
   createLogger,
+  resolvePairingChallenge,
   transcribeTencentFlash,
   type Logger,
 } from "@openclaw-china/shared";
@@ -33,6 +34,14 @@ import {
   finalizeInboundMedia,
   pruneInboundMediaDir,
 } from "./api.js";
+import {
+  buildWecomAppEventContextKey,
+  formatWecomAppEventContent,
+  formatWecomAppSystemEvent,
+  parseWecomAppEvent,
+  resolveWecomAppEventSubject,
+  type WecomAppEvent,
+} from "./events.js";
 
 export type WecomAppDispatchHooks = {
   onChunk: (text: string) => void | Promise<void>;
@@ -165,11 +174,8 @@ export function extractWecomAppContent(msg: WecomAppInboundMessage): string {
     return parts.length ? `[location] ${parts.join(" ")}` : "[location]";
   }
   if (msgtype === "event") {
-    const eventtype = String(
-      (msg as { event?: { eventtype?: string }; Event?: string }).event?.eventtype ??
-      (msg as { Event?: string }).Event ?? ""
-    ).trim();
-    return eventtype ? `[event] ${eventtype}` : "[event]";
+    const event = parseWecomAppEvent(msg);
+    return event ? formatWecomAppEventContent(event) : "[event]";
   }
   if (msgtype === "stream") {
     const id = String((msg as { stream?: { id?: string } }).stream?.id ?? "").trim();
@@ -463,10 +469,21 @@ export async function dispatchWecomAppMessage(params: {
     dmPolicy,
     senderId,
     allowFrom,
+    pairing: { channel: "wecom-app", accountId: account.accountId },
   });
 
   if (!policyResult.allowed) {
     logger.debug(`policy rejected: ${policyResult.reason}`);
+    if (policyResult.pairingRequired) {
+      const challenge = resolvePairingChallenge({
+        channel: "wecom-app",
+        accountId: account.accountId,
+        senderId,
+      });
+      if (challenge) {
+        await hooks.onChunk(challenge);
+      }
+    }
     return;
   }
 
@@ -662,6 +679,45 @@ export async function dispatchWecomAppMessage(params: {
   await cleanup();
 }
 
+/**
+ * 将事件作为系统事件交给 Agent（审批状态变更、通讯录变更、菜单跳转）
+ *
+ * 投递到事件关联成员的会话；系统事件不会触发回复，由 Agent 在后续对话中处理。
+ *
+ * @returns 是否已投递
+ */
+export function dispatchWecomAppSystemEvent(params: {
+  cfg?: PluginConfig;
+  account: ResolvedWecomAppAccount;
+  event: WecomAppEvent;
+  core: PluginRuntime;
+  log?: (msg: string) => void;
+  error?: (msg: string) => void;
+}): boolean {
+  const { account, event, core } = params;
+  const logger: Logger = createLogger("wecom-app", { log: params.log, error: params.error });
+
+  const enqueueSystemEvent = core.system?.enqueueSystemEvent;
+  const resolveAgentRoute = core.channel?.routing?.resolveAgentRoute;
+  if (!enqueueSystemEvent || !resolveAgentRoute) {
+    logger.debug("core system events or routing missing, skipping system event");
+    return false;
+  }
+
+  const route = resolveAgentRoute({
+    cfg: params.cfg ?? {},
+    channel: "wecom-app",
+    accountId: account.accountId,
+    peer: { kind: "dm", id: resolveWecomAppEventSubject(event) ?? "sys" },
+  });
+
+  enqueueSystemEvent(formatWecomAppSystemEvent(event), {
+    sessionKey: route.sessionKey,
+    contextKey: buildWecomAppEventContextKey(event),
+  });
+  return true;
+}
+
 /**
  * 主动发送消息 (仅限自建应用)
  */
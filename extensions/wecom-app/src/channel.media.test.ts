@@ -163,4 +163,19 @@ describe("wecom-app outbound media routing", () => {
     expect(result.ok).toBe(false);
     expect(result.error?.message).toBe("native voice send failed");
   });
+
+  it("routes media to department targets", async () => {
+    const result = await wecomAppPlugin.outbound.sendMedia({
+      cfg: createCfg(),
+      to: "party:2",
+      mediaUrl: "https://example.com/report.png",
+    });
+
+    expect(result.ok).toBe(true);
+    expect(mocks.downloadAndSendImage).toHaveBeenCalledWith(
+      expect.any(Object),
+      { partyId: "2" },
+      "https://example.com/report.png"
+    );
+  });
 });
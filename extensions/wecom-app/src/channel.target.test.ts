@@ -50,5 +50,26 @@ describe("wecom-app target resolution", () => {
       accountId: undefined,
     });
   });
-});
 
+  it("keeps the kind prefix for party, tag, chat and all targets", () => {
+    expect(
+      wecomAppPlugin.directory.resolveTargets({
+        cfg: {},
+        targets: ["party:2|3", "wecom-app:tag:5@ops", "chat:wrOgQhDgAAcwMTB7", "all"],
+      })
+    ).toEqual([
+      { channel: "wecom-app", to: "party:2|3", accountId: undefined },
+      { channel: "wecom-app", to: "tag:5", accountId: "ops" },
+      { channel: "wecom-app", to: "chat:wrOgQhDgAAcwMTB7", accountId: undefined },
+      { channel: "wecom-app", to: "all", accountId: undefined },
+    ]);
+    expect(wecomAppPlugin.messaging.normalizeTarget("@all")).toBe("all");
+    expect(wecomAppPlugin.messaging.normalizeTarget("user:all")).toBe("user:all");
+  });
+
+  it("rejects malformed party, tag and chat targets", () => {
+    expect(wecomAppPlugin.directory.canResolve({ target: "party:研发部" })).toBe(false);
+    expect(wecomAppPlugin.directory.canResolve({ target: "tag:" })).toBe(false);
+    expect(wecomAppPlugin.directory.canResolve({ target: "chat:bad id" })).toBe(false);
+  });
+});
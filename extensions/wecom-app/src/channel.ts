@@ -4,7 +4,7 @@
  * 与普通 wecom 智能机器人不同，自建应用支持主动发送消息
  */
 
-import type { ResolvedWecomAppAccount, WecomAppConfig } from "./types.js";
+import type { ResolvedWecomAppAccount, WecomAppConfig, WecomAppSendTarget } from "./types.js";
 import {
   DEFAULT_ACCOUNT_ID,
   listWecomAppAccountIds,
@@ -24,29 +24,41 @@ import { isWecomAudioMimeType, isWecomAudioSource, shouldTranscodeWecomVoice } f
  */
 type MediaType = "image" | "voice" | "file" | "video";
 
-type ParsedDirectTarget = {
+type WecomAppTargetKind = "user" | "party" | "tag" | "all" | "chat";
+
+type ParsedWecomAppTarget = {
   accountId?: string;
-  userId: string;
+  kind: WecomAppTargetKind;
+  /** 用户 / 部门 / 标签 / 群聊 ID；kind 为 all 时为 "@all" */
+  id: string;
 };
 
 // 裸目标（不带 user: 前缀）仅接受“机器可投递 ID”风格，避免把显示名误当作投递目标。
 const BARE_USER_ID_RE = /^[a-z0-9][a-z0-9._@-]{0,63}$/;
 // 显式 user: 前缀时放宽大小写，兼容历史 UserID。
 const EXPLICIT_USER_ID_RE = /^[A-Za-z0-9][A-Za-z0-9._@-]{0,63}$/;
+// 部门 / 标签 ID 为数字，多个用 "|" 分隔。
+const NUMERIC_ID_LIST_RE = /^\d+(\|\d+)*$/;
+// 群聊 ID 由应用创建时指定或企业微信生成，仅含字母数字。
+const CHAT_ID_RE = /^[A-Za-z0-9]{1,32}$/;
 
 function looksLikeEmail(raw: string): boolean {
   return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(raw.trim());
 }
 
 /**
- * 统一解析 wecom-app 直发目标（仅用户）
+ * 统一解析 wecom-app 直发目标
  * 支持：
  * - wecom-app:user:<userId>
  * - user:<userId>
  * - <userId>
+ * - party:<partyId>（部门，多个用 "|" 分隔）
+ * - tag:<tagId>（标签，多个用 "|" 分隔）
+ * - all / @all（应用可见范围内全部成员）
+ * - chat:<chatId>（应用创建的群聊）
  * - 上述格式 + @accountId 后缀（email 场景不拆 account）
  */
-function parseDirectTarget(rawTarget: string): ParsedDirectTarget | null {
+function parseWecomAppTarget(rawTarget: string): ParsedWecomAppTarget | null {
   let raw = String(rawTarget ?? "").trim();
   if (!raw) return null;
 
@@ -67,6 +79,21 @@ function parseDirectTarget(rawTarget: string): ParsedDirectTarget | null {
   }
 
   if (raw.startsWith("group:")) return null;
+
+  if (raw === "all" || raw === "@all") {
+    return { accountId, kind: "all", id: "@all" };
+  }
+  for (const kind of ["party", "tag"] as const) {
+    if (raw.startsWith(`${kind}:`)) {
+      const id = raw.slice(kind.length + 1).trim();
+      return NUMERIC_ID_LIST_RE.test(id) ? { accountId, kind, id } : null;
+    }
+  }
+  if (raw.startsWith("chat:")) {
+    const id = raw.slice(5).trim();
+    return CHAT_ID_RE.test(id) ? { accountId, kind: "chat", id } : null;
+  }
+
   const explicitUserPrefix = raw.startsWith("user:");
   if (explicitUserPrefix) raw = raw.slice(5);
 
@@ -76,7 +103,32 @@ function parseDirectTarget(rawTarget: string): ParsedDirectTarget | null {
   if (!explicitUserPrefix && !BARE_USER_ID_RE.test(userId)) return null;
   if (explicitUserPrefix && !EXPLICIT_USER_ID_RE.test(userId)) return null;
 
-  return { accountId, userId };
+  return { accountId, kind: "user", id: userId };
+}
+
+/**
+ * 带类型前缀的目标（不含 accountId），如 user:alice / party:2 / all
+ */
+function formatWecomAppTarget(parsed: ParsedWecomAppTarget): string {
+  return parsed.kind === "all" ? "all" : `${parsed.kind}:${parsed.id}`;
+}
+
+/**
+ * 转换为 API 发送目标
+ */
+function toWecomAppSendTarget(parsed: ParsedWecomAppTarget): WecomAppSendTarget {
+  switch (parsed.kind) {
+    case "party":
+      return { partyId: parsed.id };
+    case "tag":
+      return { tagId: parsed.id };
+    case "all":
+      return { all: true };
+    case "chat":
+      return { chatId: parsed.id };
+    default:
+      return { userId: parsed.id };
+  }
 }
 
 /**
@@ -170,21 +222,21 @@ export const wecomAppPlugin = {
 
   messaging: {
     normalizeTarget: (raw: string): string | undefined => {
-      const parsed = parseDirectTarget(raw);
+      const parsed = parseWecomAppTarget(raw);
       if (!parsed) return undefined;
-      return `user:${parsed.userId}${parsed.accountId ? `@${parsed.accountId}` : ""}`;
+      return `${formatWecomAppTarget(parsed)}${parsed.accountId ? `@${parsed.accountId}` : ""}`;
     },
     targetResolver: {
       looksLikeId: (raw: string, normalized?: string) => {
         const candidate = (normalized ?? raw).trim();
-        return Boolean(parseDirectTarget(candidate));
+        return Boolean(parseWecomAppTarget(candidate));
       },
-      hint: "Use WeCom UserID only: user:<userid> (optional @accountId). Do not use display names.",
+      hint: "Use WeCom IDs only: user:<userid>, party:<deptId>, tag:<tagId>, chat:<chatid> or all (optional @accountId). Do not use display names.",
     },
     formatTargetDisplay: (params: { target: string; display?: string }) => {
-      const parsed = parseDirectTarget(params.target);
+      const parsed = parseWecomAppTarget(params.target);
       if (!parsed) return params.display?.trim() || params.target;
-      return `user:${parsed.userId}`;
+      return formatWecomAppTarget(parsed);
     },
   },
 
@@ -294,6 +346,7 @@ export const wecomAppPlugin = {
    * - "user:xxx" → { channel: "wecom-app", to: "xxx" }
    * - "xxx" (仅小写 ID 风格) → { channel: "wecom-app", to: "xxx" }
    * - 带 accountId: "user:xxx@account1" → { channel: "wecom-app", accountId: "account1", to: "xxx" }
+   * - "party:2" / "tag:5" / "chat:xxx" / "all" → to 保留类型前缀
    */
   directory: {
     /**
@@ -301,7 +354,7 @@ export const wecomAppPlugin = {
      * 用于框架层判断是否调用 resolveTarget
      */
     canResolve: (params: { target: string }): boolean => {
-      return Boolean(parseDirectTarget(params.target));
+      return Boolean(parseWecomAppTarget(params.target));
     },
 
     /**
@@ -314,6 +367,9 @@ export const wecomAppPlugin = {
      * 例如：如果 inbound context 的 From 是 "wecom-app:user:CaiHongYu"，
      * 那么 resolveTarget 必须返回 { channel: "wecom-app", to: "CaiHongYu" }，
      * 而不是 { channel: "wecom-app", to: "user:CaiHongYu" }。
+     *
+     * 部门 / 标签 / 全员 / 群聊目标没有对应的入站会话，保留类型前缀以免被当作用户 ID，
+     * 如 { to: "party:2" }、{ to: "all" }。
      */
     resolveTarget: (params: {
       cfg: PluginConfig;
@@ -323,9 +379,13 @@ export const wecomAppPlugin = {
       accountId?: string;
       to: string;
     } | null => {
-      const parsed = parseDirectTarget(params.target);
+      const parsed = parseWecomAppTarget(params.target);
       if (!parsed) return null;
-      return { channel: "wecom-app", accountId: parsed.accountId, to: parsed.userId };
+      return {
+        channel: "wecom-app",
+        accountId: parsed.accountId,
+        to: parsed.kind === "user" ? parsed.id : formatWecomAppTarget(parsed),
+      };
     },
 
     /**
@@ -363,13 +423,17 @@ export const wecomAppPlugin = {
      * 获取此通道支持的目标格式说明
      * 用于帮助信息和错误提示
      * 
-     * 注意：虽然支持多种输入格式，但 resolveTarget 返回的 `to` 字段
+     * 注意：虽然支持多种输入格式，但用户目标经 resolveTarget 返回的 `to` 字段
      * 始终是纯 ID（不含前缀），以便框架正确匹配 inbound context。
      */
     getTargetFormats: (): string[] => [
       "wecom-app:user:<userId>",
       "user:<userId>",
       "<userid-lowercase>",
+      "party:<deptId>",
+      "tag:<tagId>",
+      "chat:<chatId>",
+      "all",
     ],
   },
 
@@ -395,7 +459,7 @@ export const wecomAppPlugin = {
       error?: Error;
     }> => {
       // 1. 先解析 target
-      const parsed = parseDirectTarget(params.to);
+      const parsed = parseWecomAppTarget(params.to);
       if (!parsed) {
         return {
           channel: "wecom-app",
@@ -431,7 +495,7 @@ export const wecomAppPlugin = {
       }
 
       // 5. 构建目标
-      const target: { userId: string } = { userId: parsed.userId };
+      const target = toWecomAppSendTarget(parsed);
 
       // 6. 日志
       console.log(`[wecom-app] Account resolved: canSendActive=${account.canSendActive}`);
@@ -474,7 +538,7 @@ export const wecomAppPlugin = {
       error?: Error;
     }> => {
       // 1. 先解析 target
-      const parsed = parseDirectTarget(params.to);
+      const parsed = parseWecomAppTarget(params.to);
       if (!parsed) {
         return {
           channel: "wecom-app",
@@ -518,7 +582,7 @@ export const wecomAppPlugin = {
       }
 
       // 6. 构建目标
-      const target: { userId: string } = { userId: parsed.userId };
+      const target = toWecomAppSendTarget(parsed);
 
       // 7. 日志
       console.log(`[wecom-app] Target parsed:`, target);
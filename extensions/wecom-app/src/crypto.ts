@@ -1,45 +1,14 @@
 /**
  * 企业微信自建应用加解密工具
- * (与 wecom 智能机器人相同的加解密逻辑)
+ *
+ * 签名与消息加解密使用 @openclaw-china/shared 的 WXBizMsgCrypt 实现（与 wecom 智能机器人相同）。
  */
-import crypto from "node:crypto";
-
-function decodeEncodingAESKey(encodingAESKey: string): Buffer {
-  const trimmed = encodingAESKey.trim();
-  if (!trimmed) throw new Error("encodingAESKey missing");
-  const withPadding = trimmed.endsWith("=") ? trimmed : `${trimmed}=`;
-  const key = Buffer.from(withPadding, "base64");
-  if (key.length !== 32) {
-    throw new Error(`invalid encodingAESKey (expected 32 bytes after base64 decode, got ${key.length})`);
-  }
-  return key;
-}
-
-const WECOM_PKCS7_BLOCK_SIZE = 32;
-
-function pkcs7Pad(buf: Buffer, blockSize: number): Buffer {
-  const mod = buf.length % blockSize;
-  const pad = mod === 0 ? blockSize : blockSize - mod;
-  return Buffer.concat([buf, Buffer.alloc(pad, pad)]);
-}
-
-function pkcs7Unpad(buf: Buffer, blockSize: number): Buffer {
-  if (buf.length === 0) throw new Error("invalid pkcs7 payload");
-  const pad = buf[buf.length - 1];
-  if (!pad || pad < 1 || pad > blockSize || pad > buf.length) {
-    throw new Error("invalid pkcs7 padding");
-  }
-  for (let i = 1; i <= pad; i += 1) {
-    if (buf[buf.length - i] !== pad) {
-      throw new Error("invalid pkcs7 padding");
-    }
-  }
-  return buf.subarray(0, buf.length - pad);
-}
-
-function sha1Hex(input: string): string {
-  return crypto.createHash("sha1").update(input).digest("hex");
-}
+import {
+  computeWxBizSignature,
+  decryptWxBizMessage,
+  encryptWxBizMessage,
+  verifyWxBizSignature,
+} from "@openclaw-china/shared";
 
 /**
  * 计算企业微信消息签名
@@ -50,10 +19,7 @@ export function computeWecomAppMsgSignature(params: {
   nonce: string;
   encrypt: string;
 }): string {
-  const parts = [params.token, params.timestamp, params.nonce, params.encrypt]
-    .map((value) => String(value ?? ""))
-    .sort();
-  return sha1Hex(parts.join(""));
+  return computeWxBizSignature(params);
 }
 
 /**
@@ -66,13 +32,7 @@ export function verifyWecomAppSignature(params: {
   encrypt: string;
   signature: string;
 }): boolean {
-  const expected = computeWecomAppMsgSignature({
-    token: params.token,
-    timestamp: params.timestamp,
-    nonce: params.nonce,
-    encrypt: params.encrypt,
-  });
-  return expected === params.signature;
+  return verifyWxBizSignature(params);
 }
 
 /**
@@ -83,38 +43,7 @@ export function decryptWecomAppEncrypted(params: {
   receiveId?: string;
   encrypt: string;
 }): string {
-  const aesKey = decodeEncodingAESKey(params.encodingAESKey);
-  const iv = aesKey.subarray(0, 16);
-  const decipher = crypto.createDecipheriv("aes-256-cbc", aesKey, iv);
-  decipher.setAutoPadding(false);
-  const decryptedPadded = Buffer.concat([
-    decipher.update(Buffer.from(params.encrypt, "base64")),
-    decipher.final(),
-  ]);
-  const decrypted = pkcs7Unpad(decryptedPadded, WECOM_PKCS7_BLOCK_SIZE);
-
-  if (decrypted.length < 20) {
-    throw new Error(`invalid decrypted payload (expected at least 20 bytes, got ${decrypted.length})`);
-  }
-
-  const msgLen = decrypted.readUInt32BE(16);
-  const msgStart = 20;
-  const msgEnd = msgStart + msgLen;
-  if (msgEnd > decrypted.length) {
-    throw new Error(`invalid decrypted msg length (msgEnd=${msgEnd}, payloadLength=${decrypted.length})`);
-  }
-
-  const msg = decrypted.subarray(msgStart, msgEnd).toString("utf8");
-
-  const receiveId = params.receiveId ?? "";
-  if (receiveId) {
-    const trailing = decrypted.subarray(msgEnd).toString("utf8");
-    if (trailing !== receiveId) {
-      throw new Error(`receiveId mismatch (expected "${receiveId}", got "${trailing}")`);
-    }
-  }
-
-  return msg;
+  return decryptWxBizMessage(params).plaintext;
 }
 
 /**
@@ -125,18 +54,5 @@ export function encryptWecomAppPlaintext(params: {
   receiveId?: string;
   plaintext: string;
 }): string {
-  const aesKey = decodeEncodingAESKey(params.encodingAESKey);
-  const iv = aesKey.subarray(0, 16);
-  const random16 = crypto.randomBytes(16);
-  const msg = Buffer.from(params.plaintext ?? "", "utf8");
-  const msgLen = Buffer.alloc(4);
-  msgLen.writeUInt32BE(msg.length, 0);
-  const receiveId = Buffer.from(params.receiveId ?? "", "utf8");
-
-  const raw = Buffer.concat([random16, msgLen, msg, receiveId]);
-  const padded = pkcs7Pad(raw, WECOM_PKCS7_BLOCK_SIZE);
-  const cipher = crypto.createCipheriv("aes-256-cbc", aesKey, iv);
-  cipher.setAutoPadding(false);
-  const encrypted = Buffer.concat([cipher.update(padded), cipher.final()]);
-  return encrypted.toString("base64");
+  return encryptWxBizMessage(params);
 }
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  buildWecomAppEventContextKey,
+  formatWecomAppEventContent,
+  formatWecomAppSystemEvent,
+  parseWecomAppEvent,
+  resolveWecomAppEventAction,
+  resolveWecomAppEventSubject,
+} from "./events.js";
+import type { WecomAppInboundMessage } from "./types.js";
+
+function eventMessage(fields: Record<string, unknown>): WecomAppInboundMessage {
+  return { msgtype: "event", MsgType: "event", CreateTime: 1700000001, ...fields } as WecomAppInboundMessage;
+}
+
+describe("wecom-app events", () => {
+  it("parses menu and task card clicks for dispatch", () => {
+    const click = parseWecomAppEvent(eventMessage({ FromUserName: "zhangsan", Event: "click", EventKey: "MENU_1" }));
+    expect(click).toEqual({ userId: "zhangsan", timestamp: 1700000001000, eventType: "click", key: "MENU_1" });
+    expect(resolveWecomAppEventAction(click!)).toBe("dispatch");
+    expect(formatWecomAppEventContent(click!)).toBe("[menu_click] MENU_1");
+
+    const taskcard = parseWecomAppEvent(
+      eventMessage({ FromUserName: "zhangsan", Event: "taskcard_click", EventKey: "approve", TaskId: "task-1" })
+    );
+    expect(resolveWecomAppEventAction(taskcard!)).toBe("dispatch");
+    expect(formatWecomAppEventContent(taskcard!)).toBe("[taskcard_click] task_id=task-1 key=approve");
+
+    expect(parseWecomAppEvent({ msgtype: "text", text: { content: "hi" } })).toBeNull();
+  });
+
+  it("maps enter_agent to welcome and unknown events to ignore", () => {
+    expect(resolveWecomAppEventAction(parseWecomAppEvent(eventMessage({ Event: "enter_agent" }))!)).toBe("welcome");
+    expect(resolveWecomAppEventAction(parseWecomAppEvent(eventMessage({ Event: "subscribe" }))!)).toBe("welcome");
+    expect(resolveWecomAppEventAction(parseWecomAppEvent(eventMessage({ Event: "batch_job_result" }))!)).toBe("ignore");
+  });
+
+  it("formats contact changes as system events", () => {
+    const event = parseWecomAppEvent(
+      eventMessage({
+        FromUserName: "sys",
+        Event: "change_contact",
+        ChangeType: "update_user",
+        UserID: "zhangsan",
+        NewUserID: "zhangsan01",
+        Name: "张三",
+        Department: "1,2",
+      })
+    )!;
+
+    expect(resolveWecomAppEventAction(event)).toBe("system");
+    expect(resolveWecomAppEventSubject(event)).toBe("zhangsan01");
+    expect(buildWecomAppEventContextKey(event)).toBe("wecom-app:change_contact:update_user:zhangsan");
+    expect(formatWecomAppSystemEvent(event)).toBe(
+      "企业微信通讯录变更：更新成员，成员 zhangsan → zhangsan01，部门 1,2，名称 张三"
+    );
+
+    const party = parseWecomAppEvent(
+      eventMessage({ FromUserName: "sys", Event: "change_contact", ChangeType: "delete_party", Id: "7" })
+    )!;
+    expect(formatWecomAppSystemEvent(party)).toBe("企业微信通讯录变更：删除部门，部门 7");
+  });
+
+  it("formats approval changes with the status label", () => {
+    const event = parseWecomAppEvent(
+      eventMessage({
+        FromUserName: "sys",
+        Event: "sys_approval_change",
+        ApprovalInfo: { SpNo: "2023001", SpName: "请假", SpStatus: "3", Applyer: { UserId: "lisi" } },
+      })
+    )!;
+
+    expect(resolveWecomAppEventSubject(event)).toBe("lisi");
+    expect(formatWecomAppSystemEvent(event)).toBe("企业微信审批单「请假」 2023001 已驳回，申请人 lisi");
+  });
+});
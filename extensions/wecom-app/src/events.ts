@@ -0,0 +1,276 @@
+/**
+ * 企业微信自建应用事件回调
+ *
+ * - click / taskcard_click: 菜单点击、任务卡片按钮点击，作为用户消息分发到 Agent 会话
+ * - enter_agent / subscribe: 进入应用、关注应用，发送 welcomeText 欢迎语
+ * - view / sys_approval_change / change_contact: 菜单跳转、审批状态变更、通讯录变更，作为系统事件交给 Agent
+ *
+ * 文档: https://developer.work.weixin.qq.com/document/path/90240
+ */
+
+import type { WecomAppInboundMessage } from "./types.js";
+
+/** 审批状态（SpStatus） */
+const APPROVAL_STATUS_LABELS: Record<string, string> = {
+  "1": "审批中",
+  "2": "已通过",
+  "3": "已驳回",
+  "4": "已撤销",
+  "6": "通过后撤销",
+  "7": "已删除",
+  "10": "已支付",
+};
+
+/** 通讯录变更类型（ChangeType） */
+const CONTACT_CHANGE_LABELS: Record<string, string> = {
+  create_user: "新增成员",
+  update_user: "更新成员",
+  delete_user: "删除成员",
+  create_party: "新增部门",
+  update_party: "更新部门",
+  delete_party: "删除部门",
+  update_tag: "标签成员变更",
+};
+
+export type WecomAppApprovalInfo = {
+  /** 审批单号 */
+  spNo: string;
+  /** 审批模板名称 */
+  spName?: string;
+  /** 审批状态码 */
+  spStatus?: string;
+  templateId?: string;
+  /** 申请人 UserID */
+  applicantUserId?: string;
+  /** 提交时间（毫秒） */
+  applyTime?: number;
+};
+
+export type WecomAppContactChange = {
+  changeType: string;
+  /** 成员 UserID */
+  userId?: string;
+  /** 成员新 UserID（update_user 修改账号时） */
+  newUserId?: string;
+  /** 成员或部门名称 */
+  name?: string;
+  /** 部门 ID（部门变更）或成员所在部门（成员变更） */
+  partyId?: string;
+  tagId?: string;
+};
+
+export type WecomAppEvent = {
+  /** 触发事件的成员 UserID（系统事件为 sys） */
+  userId?: string;
+  /** 事件时间（毫秒） */
+  timestamp: number;
+} & (
+  | { eventType: "click"; key: string }
+  | { eventType: "view"; url: string }
+  | { eventType: "enter_agent" }
+  | { eventType: "subscribe" }
+  | { eventType: "taskcard_click"; taskId: string; key: string }
+  | { eventType: "sys_approval_change"; approval: WecomAppApprovalInfo }
+  | { eventType: "change_contact"; contact: WecomAppContactChange }
+  | { eventType: "other"; event: string }
+);
+
+/**
+ * 事件处理方式
+ *
+ * - dispatch: 作为用户消息分发到 Agent 会话
+ * - welcome: 发送欢迎语
+ * - system: 作为系统事件交给 Agent
+ * - ignore: 仅应答
+ */
+export type WecomAppEventAction = "dispatch" | "welcome" | "system" | "ignore";
+
+function toTrimmedString(value: unknown): string | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function resolveTimestamp(value: unknown): number {
+  const parsed = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) return Date.now();
+  // 回调的 CreateTime 为秒级
+  return parsed < 1e12 ? parsed * 1000 : parsed;
+}
+
+function resolveEventName(msg: WecomAppInboundMessage): string {
+  const payload = msg as { event?: { eventtype?: unknown }; Event?: unknown };
+  return (toTrimmedString(payload.event?.eventtype) ?? toTrimmedString(payload.Event) ?? "").toLowerCase();
+}
+
+/**
+ * 解析事件回调（非事件消息返回 null）
+ */
+export function parseWecomAppEvent(msg: WecomAppInboundMessage): WecomAppEvent | null {
+  const msgtype = String(msg.msgtype ?? msg.MsgType ?? "").toLowerCase();
+  if (msgtype !== "event") return null;
+
+  const payload = msg as Record<string, unknown>;
+  const eventName = resolveEventName(msg);
+  const userId = msg.from?.userid?.trim() || toTrimmedString(payload.FromUserName);
+  const base = {
+    ...(userId ? { userId } : {}),
+    timestamp: resolveTimestamp(payload.CreateTime ?? payload.create_time),
+  };
+  const eventKey = toTrimmedString(payload.EventKey) ?? "";
+
+  switch (eventName) {
+    case "click":
+      return { ...base, eventType: "click", key: eventKey };
+    case "view":
+      return { ...base, eventType: "view", url: eventKey };
+    case "enter_agent":
+    case "enter_chat":
+      return { ...base, eventType: "enter_agent" };
+    case "subscribe":
+      return { ...base, eventType: "subscribe" };
+    case "taskcard_click":
+      return { ...base, eventType: "taskcard_click", taskId: toTrimmedString(payload.TaskId) ?? "", key: eventKey };
+    case "sys_approval_change": {
+      const info = (payload.ApprovalInfo ?? {}) as Record<string, unknown>;
+      const applyer = (info.Applyer ?? {}) as Record<string, unknown>;
+      const spName = toTrimmedString(info.SpName);
+      const spStatus = toTrimmedString(info.SpStatus);
+      const templateId = toTrimmedString(info.TemplateId);
+      const applicantUserId = toTrimmedString(applyer.UserId);
+      const applyTime = toTrimmedString(info.ApplyTime);
+      return {
+        ...base,
+        eventType: "sys_approval_change",
+        approval: {
+          spNo: toTrimmedString(info.SpNo) ?? "",
+          ...(spName ? { spName } : {}),
+          ...(spStatus ? { spStatus } : {}),
+          ...(templateId ? { templateId } : {}),
+          ...(applicantUserId ? { applicantUserId } : {}),
+          ...(applyTime ? { applyTime: resolveTimestamp(applyTime) } : {}),
+        },
+      };
+    }
+    case "change_contact": {
+      const changeType = toTrimmedString(payload.ChangeType) ?? "";
+      const isPartyChange = changeType.endsWith("_party");
+      const changedUserId = toTrimmedString(payload.UserID);
+      const newUserId = toTrimmedString(payload.NewUserID);
+      const name = toTrimmedString(payload.Name);
+      const partyId = isPartyChange ? toTrimmedString(payload.Id) : toTrimmedString(payload.Department);
+      const tagId = toTrimmedString(payload.TagId);
+      return {
+        ...base,
+        eventType: "change_contact",
+        contact: {
+          changeType,
+          ...(changedUserId ? { userId: changedUserId } : {}),
+          ...(newUserId ? { newUserId } : {}),
+          ...(name ? { name } : {}),
+          ...(partyId ? { partyId } : {}),
+          ...(tagId ? { tagId } : {}),
+        },
+      };
+    }
+    default:
+      return { ...base, eventType: "other", event: eventName };
+  }
+}
+
+/**
+ * 事件处理方式
+ */
+export function resolveWecomAppEventAction(event: WecomAppEvent): WecomAppEventAction {
+  switch (event.eventType) {
+    case "click":
+      return event.key ? "dispatch" : "ignore";
+    case "taskcard_click":
+      return "dispatch";
+    case "enter_agent":
+    case "subscribe":
+      return "welcome";
+    case "view":
+    case "sys_approval_change":
+    case "change_contact":
+      return "system";
+    default:
+      return "ignore";
+  }
+}
+
+/**
+ * 分发给 Agent 的消息正文（dispatch 事件）
+ */
+export function formatWecomAppEventContent(event: WecomAppEvent): string {
+  switch (event.eventType) {
+    case "click":
+      return `[menu_click] ${event.key}`;
+    case "taskcard_click":
+      return `[taskcard_click] task_id=${event.taskId} key=${event.key}`;
+    case "other":
+      return event.event ? `[event] ${event.event}` : "[event]";
+    default:
+      return `[event] ${event.eventType}`;
+  }
+}
+
+/**
+ * 系统事件关联的成员（用于确定投递到哪个会话）
+ */
+export function resolveWecomAppEventSubject(event: WecomAppEvent): string | undefined {
+  if (event.eventType === "sys_approval_change") {
+    return event.approval.applicantUserId;
+  }
+  if (event.eventType === "change_contact") {
+    return event.contact.newUserId ?? event.contact.userId;
+  }
+  return event.userId;
+}
+
+/**
+ * 系统事件的 contextKey（按审批单号 / 通讯录对象区分）
+ */
+export function buildWecomAppEventContextKey(event: WecomAppEvent): string {
+  if (event.eventType === "sys_approval_change") {
+    return `wecom-app:sys_approval_change:${event.approval.spNo}`;
+  }
+  if (event.eventType === "change_contact") {
+    const { contact } = event;
+    const id = contact.userId ?? contact.partyId ?? contact.tagId ?? "";
+    return `wecom-app:change_contact:${contact.changeType}:${id}`;
+  }
+  return `wecom-app:${event.eventType}:${event.userId ?? ""}`;
+}
+
+/**
+ * 构建给 Agent 的系统事件文本
+ */
+export function formatWecomAppSystemEvent(event: WecomAppEvent): string {
+  switch (event.eventType) {
+    case "view":
+      return `企业微信成员 ${event.userId ?? "unknown"} 点击了菜单链接 ${event.url}`;
+    case "sys_approval_change": {
+      const { approval } = event;
+      const name = approval.spName ? `「${approval.spName}」` : "";
+      const status = approval.spStatus
+        ? (APPROVAL_STATUS_LABELS[approval.spStatus] ?? `状态 ${approval.spStatus}`)
+        : "未知状态";
+      const applicant = approval.applicantUserId ? `，申请人 ${approval.applicantUserId}` : "";
+      return `企业微信审批单${name} ${approval.spNo} ${status}${applicant}`;
+    }
+    case "change_contact": {
+      const { contact } = event;
+      const label = CONTACT_CHANGE_LABELS[contact.changeType] ?? contact.changeType;
+      const parts: string[] = [];
+      if (contact.userId) {
+        parts.push(contact.newUserId ? `成员 ${contact.userId} → ${contact.newUserId}` : `成员 ${contact.userId}`);
+      }
+      if (contact.partyId) parts.push(`部门 ${contact.partyId}`);
+      if (contact.tagId) parts.push(`标签 ${contact.tagId}`);
+      if (contact.name) parts.push(`名称 ${contact.name}`);
+      return `企业微信通讯录变更：${label}${parts.length > 0 ? `，${parts.join("，")}` : ""}`;
+    }
+    default:
+      return `企业微信事件 ${event.eventType}`;
+  }
+}
@@ -0,0 +1,186 @@
+import { Readable } from "node:stream";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const { dispatchWecomAppMessageMock, dispatchWecomAppSystemEventMock } = vi.hoisted(() => ({
+  dispatchWecomAppMessageMock: vi.fn().mockResolvedValue(undefined),
+  dispatchWecomAppSystemEventMock: vi.fn().mockReturnValue(true),
+}));
+
+vi.mock("./bot.js", () => ({
+  dispatchWecomAppMessage: dispatchWecomAppMessageMock,
+  dispatchWecomAppSystemEvent: dispatchWecomAppSystemEventMock,
+}));
+
+vi.mock("./runtime.js", () => ({
+  tryGetWecomAppRuntime: () => ({}),
+}));
+
+import { computeWecomAppMsgSignature, encryptWecomAppPlaintext } from "./crypto.js";
+import { handleWecomAppWebhookRequest, registerWecomAppWebhookTarget } from "./monitor.js";
+import type { ResolvedWecomAppAccount } from "./types.js";
+
+const token = "token123";
+const encodingAESKey = "abcdefghijklmnopqrstuvwxyz0123456789ABCDEFG";
+
+function createRequest(method: string, url: string, body?: string): IncomingMessage {
+  const stream = new Readable({
+    read() {
+      return;
+    },
+  });
+  if (body) stream.push(body);
+  stream.push(null);
+  (stream as IncomingMessage).method = method;
+  (stream as IncomingMessage).url = url;
+  return stream as IncomingMessage;
+}
+
+function createResponseRecorder() {
+  const res = {
+    statusCode: 200,
+    setHeader: () => undefined,
+    end: () => undefined,
+  } as unknown as ServerResponse;
+  return { res };
+}
+
+function buildAccount(): ResolvedWecomAppAccount {
+  return {
+    accountId: "app",
+    enabled: true,
+    configured: true,
+    token,
+    encodingAESKey,
+    receiveId: "corp123",
+    agentId: 1001,
+    canSendActive: false,
+    config: {
+      webhookPath: "/wecom-app",
+      agentId: 1001,
+      welcomeText: "欢迎使用",
+    },
+  };
+}
+
+async function postXml(xml: string, nonce: string): Promise<void> {
+  const encrypt = encryptWecomAppPlaintext({ encodingAESKey, receiveId: "corp123", plaintext: xml });
+  const timestamp = "1700000001";
+  const signature = computeWecomAppMsgSignature({ token, timestamp, nonce, encrypt });
+  const params = new URLSearchParams({ timestamp, nonce, msg_signature: signature });
+  const req = createRequest("POST", `/wecom-app?${params.toString()}`, JSON.stringify({ encrypt }));
+  const handled = await handleWecomAppWebhookRequest(req, createResponseRecorder().res);
+  expect(handled).toBe(true);
+}
+
+function eventXml(fields: string[]): string {
+  return [
+    "<xml>",
+    "<ToUserName><![CDATA[corp123]]></ToUserName>",
+    "<CreateTime>1700000001</CreateTime>",
+    "<MsgType><![CDATA[event]]></MsgType>",
+    "<AgentID>1001</AgentID>",
+    ...fields,
+    "</xml>",
+  ].join("");
+}
+
+afterEach(() => {
+  dispatchWecomAppMessageMock.mockClear();
+  dispatchWecomAppSystemEventMock.mockClear();
+});
+
+describe("wecom-app event callbacks", () => {
+  it("dispatches menu clicks to the agent session", async () => {
+    const unregister = registerWecomAppWebhookTarget({
+      account: buildAccount(),
+      config: { channels: { "wecom-app": {} } },
+      runtime: {},
+      path: "/wecom-app",
+    });
+
+    await postXml(
+      eventXml([
+        "<FromUserName><![CDATA[zhangsan]]></FromUserName>",
+        "<Event><![CDATA[click]]></Event>",
+        "<EventKey><![CDATA[MENU_WEEKLY_REPORT]]></EventKey>",
+      ]),
+      "nonce-click"
+    );
+
+    expect(dispatchWecomAppMessageMock).toHaveBeenCalledTimes(1);
+    const call = dispatchWecomAppMessageMock.mock.calls[0]?.[0] as { msg?: Record<string, unknown> } | undefined;
+    expect(call?.msg?.Event).toBe("click");
+    expect(call?.msg?.EventKey).toBe("MENU_WEEKLY_REPORT");
+    expect(dispatchWecomAppSystemEventMock).not.toHaveBeenCalled();
+
+    unregister();
+  });
+
+  it("forwards approval changes as system events with the applicant", async () => {
+    const unregister = registerWecomAppWebhookTarget({
+      account: buildAccount(),
+      config: { channels: { "wecom-app": {} } },
+      runtime: {},
+      path: "/wecom-app",
+    });
+
+    await postXml(
+      eventXml([
+        "<FromUserName><![CDATA[sys]]></FromUserName>",
+        "<Event><![CDATA[sys_approval_change]]></Event>",
+        "<ApprovalInfo>",
+        "<SpNo>202310190001</SpNo>",
+        "<SpName><![CDATA[请假]]></SpName>",
+        "<SpStatus>2</SpStatus>",
+        "<TemplateId><![CDATA[tpl-1]]></TemplateId>",
+        "<ApplyTime>1700000000</ApplyTime>",
+        "<Applyer><UserId><![CDATA[lisi]]></UserId><Party><![CDATA[1]]></Party></Applyer>",
+        "<SpRecord><SpStatus>2</SpStatus><Details><Approver><UserId><![CDATA[boss]]></UserId></Approver></Details></SpRecord>",
+        "</ApprovalInfo>",
+      ]),
+      "nonce-approval"
+    );
+
+    expect(dispatchWecomAppMessageMock).not.toHaveBeenCalled();
+    expect(dispatchWecomAppSystemEventMock).toHaveBeenCalledTimes(1);
+    const call = dispatchWecomAppSystemEventMock.mock.calls[0]?.[0] as { event?: unknown } | undefined;
+    expect(call?.event).toMatchObject({
+      eventType: "sys_approval_change",
+      userId: "sys",
+      approval: {
+        spNo: "202310190001",
+        spName: "请假",
+        spStatus: "2",
+        templateId: "tpl-1",
+        applicantUserId: "lisi",
+        applyTime: 1700000000 * 1000,
+      },
+    });
+
+    unregister();
+  });
+
+  it("answers enter_agent without dispatching to the agent", async () => {
+    const unregister = registerWecomAppWebhookTarget({
+      account: buildAccount(),
+      config: { channels: { "wecom-app": {} } },
+      runtime: {},
+      path: "/wecom-app",
+    });
+
+    await postXml(
+      eventXml([
+        "<FromUserName><![CDATA[zhangsan]]></FromUserName>",
+        "<Event><![CDATA[enter_agent]]></Event>",
+        "<EventKey><![CDATA[]]></EventKey>",
+      ]),
+      "nonce-enter"
+    );
+
+    expect(dispatchWecomAppMessageMock).not.toHaveBeenCalled();
+    expect(dispatchWecomAppSystemEventMock).not.toHaveBeenCalled();
+
+    unregister();
+  });
+});
@@ -4,7 +4,7 @@
 import type { IncomingMessage, ServerResponse } from "node:http";
 import crypto from "node:crypto";
 
-import { createLogger, type Logger } from "@openclaw-china/shared";
+import { buildWxBizJsonEnvelope, chunkText, createLogger, type Logger } from "@openclaw-china/shared";
 
 import type { ResolvedWecomAppAccount, WecomAppInboundMessage } from "./types.js";
 import type { PluginConfig } from "./config.js";
@@ -14,7 +14,8 @@ import {
   verifyWecomAppSignature,
   computeWecomAppMsgSignature,
 } from "./crypto.js";
-import { dispatchWecomAppMessage } from "./bot.js";
+import { dispatchWecomAppMessage, dispatchWecomAppSystemEvent } from "./bot.js";
+import { parseWecomAppEvent, resolveWecomAppEventAction, type WecomAppEvent } from "./events.js";
 import { tryGetWecomAppRuntime } from "./runtime.js";
 import { sendWecomAppMessage, stripMarkdown } from "./api.js";
 
@@ -52,12 +53,16 @@ type StreamState = {
 const webhookTargets = new Map<string, WecomAppWebhookTarget[]>();
 const streams = new Map<string, StreamState>();
 const msgidToStreamId = new Map<string, string>();
+/** accountId:userId -> 上次发送 enter_agent 欢迎语的时间 */
+const welcomeSentAt = new Map<string, number>();
 
 const STREAM_TTL_MS = 10 * 60 * 1000;
 /** 增大到 500KB (用户偏好) */
 const STREAM_MAX_BYTES = 512_000;
 /** 等待时间：5秒是企业微信最大响应时间，用于累积足够内容 */
 const INITIAL_STREAM_WAIT_MS = 5000;
+/** enter_agent 每次进入应用都会推送，同一成员 24 小时内只发送一次欢迎语 */
+const ENTER_AGENT_WELCOME_COOLDOWN_MS = 24 * 60 * 60 * 1000;
 
 function normalizeWebhookPath(raw: string): string {
   const trimmed = raw.trim();
@@ -81,6 +86,22 @@ function pruneStreams(): void {
   }
 }
 
+function shouldSendWelcome(account: ResolvedWecomAppAccount, event: WecomAppEvent): boolean {
+  if (event.eventType !== "enter_agent") return true;
+
+  const now = Date.now();
+  for (const [key, sentAt] of welcomeSentAt.entries()) {
+    if (now - sentAt >= ENTER_AGENT_WELCOME_COOLDOWN_MS) {
+      welcomeSentAt.delete(key);
+    }
+  }
+
+  const key = `${account.accountId}:${event.userId ?? ""}`;
+  if (welcomeSentAt.has(key)) return false;
+  welcomeSentAt.set(key, now);
+  return true;
+}
+
 function truncateUtf8Bytes(text: string, maxBytes: number): string {
   const buf = Buffer.from(text, "utf8");
   if (buf.length <= maxBytes) return text;
@@ -89,43 +110,13 @@ function truncateUtf8Bytes(text: string, maxBytes: number): string {
 }
 
 /**
- * 将长文本按字节长度分割成多个片段
- * 企业微信限制：每条消息最长 2048 字节
- * @param text 要分割的文本
- * @param maxBytes 最大字节数（默认 2048）
- * @returns 分割后的文本数组
+ * 主动发送的文本分块
+ * 企业微信限制：每条消息最长 2048 字节，按自然断点拆分
  */
-function splitMessageByBytes(text: string, maxBytes = 2048): string[] {
-  const result: string[] = [];
-  let current = "";
-  let currentBytes = 0;
-
-  for (const char of text) {
-    const charBytes = Buffer.byteLength(char, "utf8");
-    
-    // 如果当前字符加上后超过限制，先保存当前片段
-    if (currentBytes + charBytes > maxBytes && current.length > 0) {
-      result.push(current);
-      current = char;
-      currentBytes = charBytes;
-    } else {
-      current += char;
-      currentBytes += charBytes;
-    }
-  }
-
-  // 保存最后一个片段
-  if (current.length > 0) {
-    result.push(current);
-  }
-
-  return result;
-}
-
 function splitActiveTextChunks(text: string): string[] {
   const formatted = stripMarkdown(text).trim();
   if (!formatted) return [];
-  return splitMessageByBytes(formatted, 2048).filter((chunk) => chunk.trim());
+  return chunkText(formatted, { limit: 2048, unit: "byte" }).filter((chunk) => chunk.trim());
 }
 
 function jsonOk(res: ServerResponse, body: unknown): void {
@@ -189,6 +180,34 @@ function parseXmlBody(xml: string): Record<string, string> {
   return result;
 }
 
+/**
+ * 提取 XML 中嵌套节点的内容（如 <ApprovalInfo>...</ApprovalInfo>）
+ */
+function extractXmlBlock(xml: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`).exec(xml);
+  return match?.[1];
+}
+
+/**
+ * 解析审批事件的 ApprovalInfo 节点
+ */
+function parseApprovalInfo(xml: string): Record<string, unknown> | undefined {
+  const block = extractXmlBlock(xml, "ApprovalInfo");
+  if (!block) return undefined;
+  const fields = parseXmlBody(block);
+  // 审批人、抄送人节点也有 UserId，申请人需从 Applyer 节点单独解析
+  const applyerBlock = extractXmlBlock(block, "Applyer");
+  const applyer = applyerBlock ? parseXmlBody(applyerBlock) : undefined;
+  return {
+    SpNo: fields.SpNo,
+    SpName: fields.SpName,
+    SpStatus: fields.SpStatus,
+    TemplateId: fields.TemplateId,
+    ApplyTime: fields.ApplyTime,
+    Applyer: applyer ? { UserId: applyer.UserId, Party: applyer.Party } : undefined,
+  };
+}
+
 /**
  * 判断是否是 XML 格式
  */
@@ -215,12 +234,12 @@ function buildEncryptedJsonReply(params: {
     nonce: params.nonce,
     encrypt,
   });
-  return {
+  return buildWxBizJsonEnvelope({
     encrypt,
-    msgsignature,
+    signature: msgsignature,
     timestamp: params.timestamp,
     nonce: params.nonce,
-  };
+  });
 }
 
 function resolveQueryParams(req: IncomingMessage): URLSearchParams {
@@ -316,6 +335,19 @@ function parseWecomAppPlainMessage(raw: string): WecomAppInboundMessage {
           : undefined,
       // 事件类型
       Event: xmlData.Event,
+      EventKey: xmlData.EventKey,
+      // taskcard_click
+      TaskId: xmlData.TaskId,
+      // change_contact
+      ChangeType: xmlData.ChangeType,
+      UserID: xmlData.UserID,
+      NewUserID: xmlData.NewUserID,
+      Name: xmlData.Name,
+      Department: xmlData.Department,
+      Id: xmlData.Id,
+      TagId: xmlData.TagId,
+      // sys_approval_change
+      ApprovalInfo: xmlData.Event === "sys_approval_change" ? parseApprovalInfo(trimmed) : undefined,
     } as WecomAppInboundMessage;
   }
   
@@ -654,34 +686,36 @@ export async function handleWecomAppWebhookRequest(req: IncomingMessage, res: Se
     return true;
   }
 
-  // 事件消息
-  if (msgtype === "event") {
-    const eventtype = String(
-      (msg as { event?: { eventtype?: string }; Event?: string }).event?.eventtype ??
-      (msg as { Event?: string }).Event ?? ""
-    ).toLowerCase();
-
-    if (eventtype === "enter_chat" || eventtype === "subscribe") {
+  // 事件消息：菜单点击、任务卡片点击继续走下方的 Agent 分发，其余事件在此应答
+  const event = parseWecomAppEvent(msg);
+  if (event && resolveWecomAppEventAction(event) !== "dispatch") {
+    const action = resolveWecomAppEventAction(event);
+    if (action === "welcome") {
       const welcome = target.account.config.welcomeText?.trim();
-      if (welcome && target.account.canSendActive) {
+      if (welcome && target.account.canSendActive && event.userId && shouldSendWelcome(target.account, event)) {
         // 使用主动发送欢迎消息
-        const senderId = msg.from?.userid?.trim() ?? (msg as { FromUserName?: string }).FromUserName?.trim();
-        if (senderId) {
-          sendWecomAppMessage(target.account, { userId: senderId }, welcome).catch((err) => {
-            logger.error(`failed to send welcome message: ${String(err)}`);
+        sendWecomAppMessage(target.account, { userId: event.userId }, welcome).catch((err) => {
+          logger.error(`failed to send welcome message: ${String(err)}`);
+        });
+      }
+    } else if (action === "system") {
+      const core = tryGetWecomAppRuntime();
+      if (core) {
+        try {
+          dispatchWecomAppSystemEvent({
+            cfg: target.config,
+            account: target.account,
+            event,
+            core,
+            log: target.runtime.log,
+            error: target.runtime.error,
           });
+        } catch (err) {
+          logger.error(`failed to forward ${event.eventType} event: ${String(err)}`);
         }
       }
-      jsonOk(
-        res,
-        buildEncryptedJsonReply({
-          account: target.account,
-          plaintextJson: {},
-          nonce: msgNonce,
-          timestamp: msgTimestamp,
-        })
-      );
-      return true;
+    } else {
+      logger.debug(`ignored event: ${event.eventType === "other" ? event.event : event.eventType}`);
     }
 
     jsonOk(
@@ -5,6 +5,8 @@
  *
  * 使用示例：
  * - 私聊：sendWecomDM("caihongyu", { text: "Hello" })
+ * - 部门：sendWecomParty("2", { text: "Hello" })
+ * - 其他目标：sendWecom("tag:5" | "chat:xxx" | "all", { text: "Hello" })
  */
 
 import type { ResolvedWecomAppAccount, WecomAppSendTarget } from "./types.js";
@@ -33,19 +35,29 @@ export type SendResult = {
 // Target 规范化
 // ─────────────────────────────────────────────────────────────────────────────
 
+/**
+ * 目标类型
+ */
+export type WecomAppTargetType = "user" | "party" | "tag" | "chat";
+
+const TARGET_TYPE_PREFIXES = ["user:", "party:", "tag:", "chat:"] as const;
+
 /**
  * 规范化目标格式
  *
  * 输入格式（用户侧传入）：
  * - 私聊："caihongyu" 或 "user:caihongyu"
+ * - 部门："2" 或 "party:2"（多个部门用 "|" 分隔）
+ * - 标签："5" 或 "tag:5"
+ * - 群聊："wrOgQhDgAA..." 或 "chat:wrOgQhDgAA..."
  * - 带 channel 前缀："wecom-app:user:caihongyu"
  *
  * 输出格式（OpenClaw 标准）：
- * - 私聊："user:caihongyu"
+ * - "<type>:<id>"，如 "user:caihongyu"、"party:2"
  */
 export function normalizeTarget(
   target: string,
-  type: "user"
+  type: WecomAppTargetType
 ): string {
   let normalized = target.trim();
 
@@ -56,23 +68,44 @@ export function normalizeTarget(
   }
 
   // 如果已有正确的类型前缀，直接返回
-  if (type === "user" && normalized.startsWith("user:")) {
+  if (normalized.startsWith(`${type}:`)) {
     return normalized;
   }
 
   // 移除可能存在的错误前缀
-  if (normalized.startsWith("user:")) {
-    normalized = normalized.slice(5);
+  for (const prefix of TARGET_TYPE_PREFIXES) {
+    if (normalized.startsWith(prefix)) {
+      normalized = normalized.slice(prefix.length);
+      break;
+    }
   }
 
   // 添加正确的类型前缀
-  return `user:${normalized}`;
+  return `${type}:${normalized}`;
 }
 
 /**
  * 将规范化的 target 字符串解析为 WecomAppSendTarget
+ *
+ * - "party:<id>" → 部门
+ * - "tag:<id>" → 标签
+ * - "chat:<chatid>" → 应用群聊
+ * - "all" / "@all" → 应用可见范围内全部成员
+ * - "user:<id>" 或裸 ID → 用户
  */
 export function parseTarget(target: string): WecomAppSendTarget {
+  if (target === "all" || target === "@all") {
+    return { all: true };
+  }
+  if (target.startsWith("party:")) {
+    return { partyId: target.slice(6) };
+  }
+  if (target.startsWith("tag:")) {
+    return { tagId: target.slice(4) };
+  }
+  if (target.startsWith("chat:")) {
+    return { chatId: target.slice(5) };
+  }
   if (target.startsWith("user:")) {
     return { userId: target.slice(5) };
   }
@@ -124,6 +157,36 @@ export async function sendWecomDM(
   return sendMessage(account, target, options);
 }
 
+/**
+ * 发送部门消息（部门内全部成员）
+ *
+ * @param account - 已解析的账户配置
+ * @param partyId - 部门 ID（如 "2"），支持带 "party:" 前缀，多个部门用 "|" 分隔
+ * @param options - 消息选项
+ *
+ * @example
+ * ```ts
+ * await sendWecomParty(account, "2|3", { text: "本周例会改到周四" });
+ * ```
+ */
+export async function sendWecomParty(
+  account: ResolvedWecomAppAccount,
+  partyId: string,
+  options: SendMessageOptions
+): Promise<SendResult> {
+  if (!account.canSendActive) {
+    return {
+      ok: false,
+      error: "Account not configured for active sending (missing corpId, corpSecret, or agentId)",
+    };
+  }
+
+  const normalizedTarget = normalizeTarget(partyId, "party");
+  const target = parseTarget(normalizedTarget);
+
+  return sendMessage(account, target, options);
+}
+
 /**
  * 内部统一发送函数
  */
@@ -197,11 +260,15 @@ async function sendMessage(
  *
  * 支持多种 target 格式：
  * - "user:xxx" → 私聊
+ * - "party:2" / "party:2|3" → 部门
+ * - "tag:5" → 标签
+ * - "all" / "@all" → 应用可见范围内全部成员
+ * - "chat:xxx" → 应用创建的群聊（appchat）
  * - "wecom-app:user:xxx" → 私聊（带 channel 前缀）
  * - "xxx" → 私聊（裸 ID，默认当作用户）
  *
  * @param account - 已解析的账户配置
- * @param target - 目标（支持 "user:xxx"、"wecom-app:user:xxx"、"xxx" 格式）
+ * @param target - 目标（支持上述格式）
  * @param options - 消息选项
  */
 export async function sendWecom(
@@ -223,7 +290,7 @@ export async function sendWecom(
     normalizedTarget = normalizedTarget.slice(channelPrefix.length);
   }
 
-  // 解析目标（只支持 user:）
+  // 解析目标（user: / party: / tag: / chat: / all）
   const parsedTarget = parseTarget(normalizedTarget);
 
   return sendMessage(account, parsedTarget, options);
@@ -118,11 +118,35 @@ export type ResolvedWecomAppAccount = {
   config: WecomAppAccountConfig;
 };
 
-/** 消息发送目标 */
-export type WecomAppSendTarget = {
-  /** 用户 ID */
-  userId: string;
-};
+/**
+ * 消息发送目标
+ *
+ * - userId / partyId / tagId / all: 走 message/send（touser / toparty / totag / @all）
+ * - chatId: 走 appchat/send，仅限本应用创建的群聊
+ *
+ * partyId / tagId 支持用 "|" 分隔多个 ID。
+ */
+export type WecomAppSendTarget =
+  | {
+      /** 用户 ID */
+      userId: string;
+    }
+  | {
+      /** 部门 ID */
+      partyId: string;
+    }
+  | {
+      /** 标签 ID */
+      tagId: string;
+    }
+  | {
+      /** 应用可见范围内的全部成员 */
+      all: true;
+    }
+  | {
+      /** 群聊 ID（appchat） */
+      chatId: string;
+    };
 
 /** Access Token 缓存条目 */
 export type AccessTokenCacheEntry = {
@@ -206,6 +230,26 @@ export type WecomAppInboundEvent = WecomAppInboundBase & {
   create_time?: number;
   Event?: string;
   EventKey?: string;
+  /** 任务卡片 ID（taskcard_click） */
+  TaskId?: string;
+  /** 通讯录变更类型（change_contact） */
+  ChangeType?: string;
+  UserID?: string;
+  NewUserID?: string;
+  Name?: string;
+  Department?: string;
+  /** 部门 ID（部门变更） */
+  Id?: string;
+  TagId?: string;
+  /** 审批信息（sys_approval_change） */
+  ApprovalInfo?: {
+    SpNo?: string;
+    SpName?: string;
+    SpStatus?: string;
+    TemplateId?: string;
+    ApplyTime?: string;
+    Applyer?: { UserId?: string; Party?: string };
+  };
   event?: {
     eventtype?: string;
     [key: string]: unknown;
@@ -58,6 +58,12 @@ export {
   getAccessToken,
   clearAccessTokenCache,
   clearAllAccessTokenCache,
+  getAccessTokenStatus,
+  downloadKfMedia,
+  getKfServiceState,
+  sendKfLinkMessage,
+  sendKfMediaMessage,
+  sendKfMenuMessage,
   sendKfMessage,
   sendKfWelcomeMessage,
   sendKfTextMessage,
@@ -65,7 +71,26 @@ export {
   stripMarkdown,
   summarizeSendResults,
   syncMessages,
+  transKfServiceState,
+  uploadKfMedia,
+  type KfLinkCard,
+  type KfMediaType,
+  type KfMenu,
+  type KfMenuItem,
 } from "./src/api.js";
+export {
+  extractKfReplyBlocks,
+  type KfHandoffSpec,
+  type KfLinkCardSpec,
+  type KfReplyBlocks,
+} from "./src/blocks.js";
+export {
+  getKfSessionState,
+  handoffToHuman,
+  isHumanServiceState,
+  type HandoffResult,
+} from "./src/handoff.js";
+export { resolveKfMediaType, sendKfMediaFromSource, sendKfReply } from "./src/reply.js";
 export { sendWecomKfDM, type SendMessageOptions, type SendResult } from "./src/send.js";
 export { probeWecomKfAccount } from "./src/probe.js";
 export type {
@@ -79,6 +104,8 @@ export type {
   WecomKfAccountConfig,
   WecomKfConfig,
   WecomKfDmPolicy,
+  WecomKfServiceState,
+  WecomKfSessionState,
 } from "./src/types.js";
 
 const plugin = {
@@ -1,14 +1,21 @@
+import {
+  chunkText,
+  createAccessTokenManager,
+  isAccessTokenExpiredCode,
+  type AccessTokenSource,
+  type AccessTokenStatus,
+} from "@openclaw-china/shared";
+
 import type {
-  AccessTokenCacheEntry,
   KfSendMsgParams,
   KfSendMsgResult,
   ResolvedWecomKfAccount,
   SyncMsgResponse,
+  WecomKfServiceState,
 } from "./types.js";
 import { resolveApiBaseUrl } from "./config.js";
 
-const ACCESS_TOKEN_CACHE = new Map<string, AccessTokenCacheEntry>();
-const INVALID_ACCESS_TOKEN_ERRCODES = new Set([40001, 40014, 42001]);
+const tokenManager = createAccessTokenManager({ name: "wecom-kf" });
 
 function buildApiUrl(account: ResolvedWecomKfAccount, pathWithQuery: string): string {
   const normalizedPath = pathWithQuery.startsWith("/") ? pathWithQuery : `/${pathWithQuery}`;
@@ -22,50 +29,60 @@ async function readJson<T>(response: Response): Promise<T> {
   return (await response.json()) as T;
 }
 
+function buildTokenSource(account: ResolvedWecomKfAccount): AccessTokenSource {
+  return {
+    key: `${account.corpId}:wecom-kf`,
+    fetch: async () => {
+      const url = buildApiUrl(
+        account,
+        `/cgi-bin/gettoken?corpid=${encodeURIComponent(account.corpId ?? "")}&corpsecret=${encodeURIComponent(account.corpSecret ?? "")}`
+      );
+      const data = await readJson<{
+        errcode?: number;
+        errmsg?: string;
+        access_token?: string;
+        expires_in?: number;
+      }>(await fetch(url));
+
+      if (data.errcode !== undefined && data.errcode !== 0) {
+        throw new Error(`gettoken failed: ${data.errmsg ?? "unknown error"} (errcode=${data.errcode})`);
+      }
+      if (!data.access_token) {
+        throw new Error("gettoken returned empty access_token");
+      }
+      return { token: data.access_token, expiresInSec: data.expires_in };
+    },
+  };
+}
+
+/**
+ * 获取 Access Token（带缓存，同一账户并发请求只刷新一次）
+ */
 export async function getAccessToken(account: ResolvedWecomKfAccount): Promise<string> {
   if (!account.corpId || !account.corpSecret) {
     throw new Error("corpId or corpSecret not configured");
   }
-
-  const key = `${account.corpId}:wecom-kf`;
-  const cached = ACCESS_TOKEN_CACHE.get(key);
-  if (cached && Date.now() < cached.expiresAt) {
-    return cached.token;
-  }
-
-  const url = buildApiUrl(
-    account,
-    `/cgi-bin/gettoken?corpid=${encodeURIComponent(account.corpId)}&corpsecret=${encodeURIComponent(account.corpSecret)}`
-  );
-  const data = await readJson<{
-    errcode?: number;
-    errmsg?: string;
-    access_token?: string;
-    expires_in?: number;
-  }>(await fetch(url));
-
-  if (data.errcode !== undefined && data.errcode !== 0) {
-    throw new Error(`gettoken failed: ${data.errmsg ?? "unknown error"} (errcode=${data.errcode})`);
-  }
-  if (!data.access_token) {
-    throw new Error("gettoken returned empty access_token");
-  }
-
-  const expiresInMs = Math.max((data.expires_in ?? 7200) - 300, 60) * 1000;
-  ACCESS_TOKEN_CACHE.set(key, {
-    token: data.access_token,
-    expiresAt: Date.now() + expiresInMs,
-  });
-  return data.access_token;
+  return tokenManager.getToken(buildTokenSource(account));
 }
 
-export function clearAccessTokenCache(account: ResolvedWecomKfAccount): void {
-  const key = `${account.corpId}:wecom-kf`;
-  ACCESS_TOKEN_CACHE.delete(key);
+/**
+ * 清除指定账户的 Access Token 缓存
+ *
+ * @param token 指定时仅当缓存的仍是该 token 才清除
+ */
+export function clearAccessTokenCache(account: ResolvedWecomKfAccount, token?: string): void {
+  tokenManager.invalidate(`${account.corpId}:wecom-kf`, token);
 }
 
 export function clearAllAccessTokenCache(): void {
-  ACCESS_TOKEN_CACHE.clear();
+  tokenManager.invalidate();
+}
+
+/**
+ * 查询 Access Token 缓存状态（用于 probe）
+ */
+export function getAccessTokenStatus(account: ResolvedWecomKfAccount): AccessTokenStatus {
+  return tokenManager.getStatus(`${account.corpId}:wecom-kf`);
 }
 
 async function callAuthenticatedJson<T extends { errcode?: number; errmsg?: string }>(
@@ -73,32 +90,20 @@ async function callAuthenticatedJson<T extends { errcode?: number; errmsg?: stri
   buildPath: (accessToken: string) => string,
   init: Omit<RequestInit, "headers"> & { headers?: Record<string, string> } = {}
 ): Promise<T> {
-  for (let attempt = 0; attempt < 2; attempt += 1) {
-    const accessToken = await getAccessToken(account);
-    const url = buildApiUrl(account, buildPath(accessToken));
-    const data = await readJson<T>(
-      await fetch(url, {
+  if (!account.corpId || !account.corpSecret) {
+    throw new Error("corpId or corpSecret not configured");
+  }
+  return tokenManager.withToken(buildTokenSource(account), async (accessToken) =>
+    readJson<T>(
+      await fetch(buildApiUrl(account, buildPath(accessToken)), {
         ...init,
         headers: {
           "Content-Type": "application/json",
-          ...(init.headers ?? {}),
+          ...init.headers,
         },
       })
-    );
-
-    if (
-      attempt === 0 &&
-      data.errcode !== undefined &&
-      INVALID_ACCESS_TOKEN_ERRCODES.has(data.errcode)
-    ) {
-      clearAccessTokenCache(account);
-      continue;
-    }
-
-    return data;
-  }
-
-  throw new Error("authenticated API call exhausted retries");
+    )
+  );
 }
 
 export async function syncMessages(
@@ -156,6 +161,138 @@ export async function sendKfWelcomeMessage(
   );
 }
 
+export type KfServiceStateResult = {
+  errcode: number;
+  errmsg: string;
+  service_state?: WecomKfServiceState;
+  servicer_userid?: string;
+};
+
+export type KfServiceStateTransResult = {
+  errcode: number;
+  errmsg: string;
+  msg_code?: string;
+};
+
+/**
+ * 获取会话状态（kf/service_state/get）
+ */
+export async function getKfServiceState(
+  account: ResolvedWecomKfAccount,
+  params: { openKfId: string; externalUserId: string }
+): Promise<KfServiceStateResult> {
+  return callAuthenticatedJson<KfServiceStateResult>(
+    account,
+    (accessToken) => `/cgi-bin/kf/service_state/get?access_token=${encodeURIComponent(accessToken)}`,
+    {
+      method: "POST",
+      body: JSON.stringify({ open_kfid: params.openKfId, external_userid: params.externalUserId }),
+    }
+  );
+}
+
+/**
+ * 变更会话状态（kf/service_state/trans）
+ *
+ * 转为人工接待（3）时必须指定 servicerUserId；转入待接入池（2）时由系统分配。
+ */
+export async function transKfServiceState(
+  account: ResolvedWecomKfAccount,
+  params: {
+    openKfId: string;
+    externalUserId: string;
+    serviceState: WecomKfServiceState;
+    servicerUserId?: string;
+  }
+): Promise<KfServiceStateTransResult> {
+  const body: Record<string, unknown> = {
+    open_kfid: params.openKfId,
+    external_userid: params.externalUserId,
+    service_state: params.serviceState,
+  };
+  if (params.servicerUserId) body.servicer_userid = params.servicerUserId;
+
+  return callAuthenticatedJson<KfServiceStateTransResult>(
+    account,
+    (accessToken) => `/cgi-bin/kf/service_state/trans?access_token=${encodeURIComponent(accessToken)}`,
+    {
+      method: "POST",
+      body: JSON.stringify(body),
+    }
+  );
+}
+
+export type KfMediaDownload = {
+  buffer: Buffer;
+  contentType?: string;
+  filename?: string;
+};
+
+function parseContentDispositionFilename(header: string | null): string | undefined {
+  if (!header) return undefined;
+  const encoded = header.match(/filename\*=(?:UTF-8'')?([^;]+)/i)?.[1];
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded.trim().replace(/^"|"$/g, ""));
+    } catch {
+      // 回退到普通 filename
+    }
+  }
+  const plain = header.match(/filename="?([^";]+)"?/i)?.[1];
+  return plain?.trim() || undefined;
+}
+
+/**
+ * 下载临时素材（media/get）
+ *
+ * 成功时返回二进制内容；失败时接口返回 JSON 错误，token 失效会刷新后重试一次。
+ */
+export async function downloadKfMedia(
+  account: ResolvedWecomKfAccount,
+  mediaId: string,
+  opts: { maxBytes?: number } = {}
+): Promise<KfMediaDownload> {
+  for (let attempt = 0; attempt < 2; attempt += 1) {
+    const accessToken = await getAccessToken(account);
+    const response = await fetch(
+      buildApiUrl(
+        account,
+        `/cgi-bin/media/get?access_token=${encodeURIComponent(accessToken)}&media_id=${encodeURIComponent(mediaId)}`
+      )
+    );
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+
+    const contentType = response.headers.get("content-type")?.split(";")[0]?.trim() || undefined;
+    if (contentType === "application/json" || contentType === "text/plain") {
+      const data = (await response.json()) as { errcode?: number; errmsg?: string };
+      if (attempt === 0 && isAccessTokenExpiredCode(data.errcode)) {
+        clearAccessTokenCache(account, accessToken);
+        continue;
+      }
+      throw new Error(`media/get failed: ${data.errmsg ?? "unknown error"} (errcode=${data.errcode})`);
+    }
+
+    const declaredSize = Number(response.headers.get("content-length") ?? "");
+    if (opts.maxBytes && Number.isFinite(declaredSize) && declaredSize > opts.maxBytes) {
+      throw new Error(`media too large: ${declaredSize} bytes (limit ${opts.maxBytes})`);
+    }
+    const buffer = Buffer.from(await response.arrayBuffer());
+    if (opts.maxBytes && buffer.length > opts.maxBytes) {
+      throw new Error(`media too large: ${buffer.length} bytes (limit ${opts.maxBytes})`);
+    }
+
+    return {
+      buffer,
+      contentType,
+      filename: parseContentDispositionFilename(response.headers.get("content-disposition")),
+    };
+  }
+
+  throw new Error("media/get exhausted retries");
+}
+
 export function stripMarkdown(text: string): string {
   let result = text;
   result = result.replace(/```(\w*)\n?([\s\S]*?)```/g, (_match, lang, code) => {
@@ -187,21 +324,15 @@ export function stripMarkdown(text: string): string {
 }
 
 export function splitMessageByBytes(text: string, maxBytes = 2048): string[] {
-  const chunks: string[] = [];
-  let current = "";
-
-  for (const char of text) {
-    const candidate = current + char;
-    if (Buffer.byteLength(candidate, "utf8") > maxBytes) {
-      if (current) chunks.push(current);
-      current = char;
-    } else {
-      current = candidate;
-    }
-  }
+  return chunkText(text, { limit: maxBytes, unit: "byte" }).filter(Boolean);
+}
 
-  if (current) chunks.push(current);
-  return chunks;
+function resolveSendOpenKfId(account: ResolvedWecomKfAccount, openKfId: string | undefined, kind: string): string {
+  const resolved = openKfId?.trim() || account.openKfId;
+  if (!resolved) {
+    throw new Error(`openKfId not available for ${kind} sending`);
+  }
+  return resolved;
 }
 
 export async function sendKfTextMessage(params: {
@@ -211,10 +342,7 @@ export async function sendKfTextMessage(params: {
   openKfId?: string;
 }): Promise<KfSendMsgResult[]> {
   const { account } = params;
-  const openKfId = params.openKfId?.trim() || account.openKfId;
-  if (!openKfId) {
-    throw new Error("openKfId not available for text sending");
-  }
+  const openKfId = resolveSendOpenKfId(account, params.openKfId, "text");
 
   const chunks = splitMessageByBytes(stripMarkdown(params.text), 2048);
   const results: KfSendMsgResult[] = [];
@@ -235,6 +363,153 @@ export async function sendKfTextMessage(params: {
   return results;
 }
 
+export type KfMediaType = "image" | "voice" | "video" | "file";
+
+/**
+ * 上传临时素材（media/upload），返回 media_id
+ *
+ * 限制: 图片 10MB（jpg/png），语音 2MB（amr），视频 10MB（mp4），文件 20MB。
+ */
+export async function uploadKfMedia(
+  account: ResolvedWecomKfAccount,
+  params: {
+    type: KfMediaType;
+    buffer: Buffer;
+    filename: string;
+    contentType?: string;
+  }
+): Promise<string> {
+  for (let attempt = 0; attempt < 2; attempt += 1) {
+    const accessToken = await getAccessToken(account);
+    const form = new FormData();
+    form.append(
+      "media",
+      new Blob([new Uint8Array(params.buffer)], { type: params.contentType || "application/octet-stream" }),
+      params.filename
+    );
+    const data = await readJson<{ errcode?: number; errmsg?: string; media_id?: string }>(
+      await fetch(
+        buildApiUrl(
+          account,
+          `/cgi-bin/media/upload?access_token=${encodeURIComponent(accessToken)}&type=${params.type}`
+        ),
+        { method: "POST", body: form }
+      )
+    );
+
+    if (attempt === 0 && isAccessTokenExpiredCode(data.errcode)) {
+      clearAccessTokenCache(account, accessToken);
+      continue;
+    }
+    if ((data.errcode !== undefined && data.errcode !== 0) || !data.media_id) {
+      throw new Error(`media/upload failed: ${data.errmsg ?? "empty media_id"} (errcode=${data.errcode ?? "?"})`);
+    }
+    return data.media_id;
+  }
+
+  throw new Error("media/upload exhausted retries");
+}
+
+export async function sendKfMediaMessage(params: {
+  account: ResolvedWecomKfAccount;
+  externalUserId: string;
+  msgtype: KfMediaType;
+  mediaId: string;
+  openKfId?: string;
+}): Promise<KfSendMsgResult> {
+  return sendKfMessage(params.account, {
+    touser: params.externalUserId,
+    open_kfid: resolveSendOpenKfId(params.account, params.openKfId, params.msgtype),
+    msgtype: params.msgtype,
+    [params.msgtype]: { media_id: params.mediaId },
+  });
+}
+
+/**
+ * 菜单项
+ *
+ * - click: 回复菜单，客户点击后以 text 消息（带 menu_id）回调
+ * - view: 超链接菜单
+ * - miniprogram: 小程序菜单
+ * - text: 纯文本（不可点击）
+ */
+export type KfMenuItem =
+  | { type: "click"; id: string; content: string }
+  | { type: "view"; url: string; content: string }
+  | { type: "miniprogram"; appid: string; pagepath: string; content: string }
+  | { type: "text"; content: string };
+
+export type KfMenu = {
+  headContent?: string;
+  items: KfMenuItem[];
+  tailContent?: string;
+};
+
+function buildKfMenuListItem(item: KfMenuItem): Record<string, unknown> {
+  switch (item.type) {
+    case "click":
+      return { type: "click", click: { id: item.id, content: item.content } };
+    case "view":
+      return { type: "view", view: { url: item.url, content: item.content } };
+    case "miniprogram":
+      return {
+        type: "miniprogram",
+        miniprogram: { appid: item.appid, pagepath: item.pagepath, content: item.content },
+      };
+    case "text":
+      return { type: "text", text: { content: item.content } };
+  }
+}
+
+export async function sendKfMenuMessage(params: {
+  account: ResolvedWecomKfAccount;
+  externalUserId: string;
+  menu: KfMenu;
+  openKfId?: string;
+}): Promise<KfSendMsgResult> {
+  const msgmenu: Record<string, unknown> = {
+    list: params.menu.items.map(buildKfMenuListItem),
+  };
+  if (params.menu.headContent) msgmenu.head_content = params.menu.headContent;
+  if (params.menu.tailContent) msgmenu.tail_content = params.menu.tailContent;
+
+  return sendKfMessage(params.account, {
+    touser: params.externalUserId,
+    open_kfid: resolveSendOpenKfId(params.account, params.openKfId, "msgmenu"),
+    msgtype: "msgmenu",
+    msgmenu,
+  });
+}
+
+export type KfLinkCard = {
+  title: string;
+  desc?: string;
+  url: string;
+  /** 缩略图 media_id（必填） */
+  thumbMediaId: string;
+};
+
+export async function sendKfLinkMessage(params: {
+  account: ResolvedWecomKfAccount;
+  externalUserId: string;
+  link: KfLinkCard;
+  openKfId?: string;
+}): Promise<KfSendMsgResult> {
+  const link: Record<string, unknown> = {
+    title: params.link.title,
+    url: params.link.url,
+    thumb_media_id: params.link.thumbMediaId,
+  };
+  if (params.link.desc) link.desc = params.link.desc;
+
+  return sendKfMessage(params.account, {
+    touser: params.externalUserId,
+    open_kfid: resolveSendOpenKfId(params.account, params.openKfId, "link"),
+    msgtype: "link",
+    link,
+  });
+}
+
 export function summarizeSendResults(results: KfSendMsgResult[]): {
   ok: boolean;
   msgid?: string;
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+
+import { extractKfReplyBlocks, formatKfMenuFallbackText } from "./blocks.js";
+
+describe("wecom-kf reply blocks", () => {
+  it("parses a menu block into head, click/view items and tail", () => {
+    const parsed = extractKfReplyBlocks(
+      [
+        "好的，请选择：",
+        "```wecom-kf-menu",
+        "您想咨询哪类问题？",
+        "[查询订单](order)",
+        "或者",
+        "[查看官网](https://example.com)",
+        "也可以直接输入您的问题",
+        "```",
+      ].join("\n")
+    );
+
+    expect(parsed.text).toBe("好的，请选择：");
+    expect(parsed.menu).toEqual({
+      headContent: "您想咨询哪类问题？",
+      items: [
+        { type: "click", id: "order", content: "查询订单" },
+        { type: "text", content: "或者" },
+        { type: "view", url: "https://example.com", content: "查看官网" },
+      ],
+      tailContent: "也可以直接输入您的问题",
+    });
+    expect(formatKfMenuFallbackText(parsed.menu!)).toBe(
+      "您想咨询哪类问题？\n· 查询订单\n或者\n· 查看官网：https://example.com\n也可以直接输入您的问题"
+    );
+  });
+
+  it("caps menus at 10 items including text items", () => {
+    const lines: string[] = [];
+    for (let i = 1; i <= 8; i++) {
+      lines.push(`[选项${i}](opt${i})`, `说明${i}`);
+    }
+    const parsed = extractKfReplyBlocks(["```wecom-kf-menu", ...lines, "```"].join("\n"));
+
+    expect(parsed.menu?.items).toHaveLength(10);
+    expect(parsed.menu?.items.at(-1)).toEqual({ type: "text", content: "说明5" });
+    expect(parsed.menu?.items.filter((item) => item.type === "click")).toHaveLength(5);
+  });
+
+  it("parses a link block and ignores invalid ones", () => {
+    const parsed = extractKfReplyBlocks(
+      '已为您查到：\n```wecom-kf-link\n{"title":"订单详情","url":"https://example.com/o/1","thumbUrl":"https://example.com/t.jpg"}\n```'
+    );
+    expect(parsed.text).toBe("已为您查到：");
+    expect(parsed.link).toEqual({
+      title: "订单详情",
+      url: "https://example.com/o/1",
+      thumb: "https://example.com/t.jpg",
+    });
+
+    const invalid = extractKfReplyBlocks('```wecom-kf-link\n{"title":"缺少链接"}\n```');
+    expect(invalid).toEqual({ text: "" });
+  });
+
+  it("parses handoff blocks with an optional servicer", () => {
+    expect(extractKfReplyBlocks("稍等，为您转接\n```wecom-kf-handoff\n```")).toEqual({
+      text: "稍等，为您转接",
+      handoff: {},
+    });
+    expect(extractKfReplyBlocks("```wecom-kf-handoff\nzhangsan\n```").handoff).toEqual({
+      servicerUserId: "zhangsan",
+    });
+  });
+
+  it("drops unterminated blocks while streaming", () => {
+    expect(extractKfReplyBlocks("请选择\n```wecom-kf-menu\n[查询订单](order)")).toEqual({ text: "请选择" });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * 微信客服回复中的富消息代码块
+ *
+ * 菜单消息（msgmenu），客户点击回复菜单后以文本消息回调（带 menu_id）:
+ *
+ * ```wecom-kf-menu
+ * 您想咨询哪类问题？
+ * [查询订单](order)
+ * [退换货](refund)
+ * [查看官网](https://example.com)
+ * 也可以直接输入您的问题
+ * ```
+ *
+ * - 第一个菜单项之前的文字为 head_content，最后一个菜单项之后的文字为 tail_content
+ * - `[文字](id)` 为回复菜单，`[文字](https://...)` 为超链接菜单
+ *
+ * 图文链接（link），thumb 为缩略图 URL 或本地路径:
+ *
+ * ```wecom-kf-link
+ * {"title":"订单详情","desc":"订单 1001 已发货","url":"https://example.com/o/1001","thumb":"https://example.com/thumb.jpg"}
+ * ```
+ *
+ * 转人工（handoff），内容为空时转给配置的接待人员或待接入池，也可写入接待人员 userid:
+ *
+ * ```wecom-kf-handoff
+ * zhangsan
+ * ```
+ *
+ * 文档: https://developer.work.weixin.qq.com/document/path/94677
+ */
+
+import type { KfMenu, KfMenuItem } from "./api.js";
+
+const MENU_BLOCK_LANG = "wecom-kf-menu";
+const LINK_BLOCK_LANG = "wecom-kf-link";
+const HANDOFF_BLOCK_LANG = "wecom-kf-handoff";
+const BLOCK_LANGS = [MENU_BLOCK_LANG, LINK_BLOCK_LANG, HANDOFF_BLOCK_LANG];
+/** 菜单项上限 */
+const MAX_MENU_ITEMS = 10;
+
+export type KfLinkCardSpec = {
+  title: string;
+  desc?: string;
+  url: string;
+  /** 缩略图 URL 或本地路径 */
+  thumb: string;
+};
+
+export type KfHandoffSpec = {
+  /** 接待人员 userid；为空时使用配置或进入待接入池 */
+  servicerUserId?: string;
+};
+
+export type KfReplyBlocks = {
+  text: string;
+  menu?: KfMenu;
+  link?: KfLinkCardSpec;
+  handoff?: KfHandoffSpec;
+};
+
+function blockRegExp(lang: string): RegExp {
+  return new RegExp("```" + lang + "[^\\n]*\\n([\\s\\S]*?)```", "g");
+}
+
+function unterminatedBlockRegExp(lang: string): RegExp {
+  return new RegExp("```" + lang + "[\\s\\S]*$");
+}
+
+const MENU_ITEM_RE = /^\[([^\]\n]+)\]\(([^)\n]+)\)$/;
+
+function parseMenuBlock(body: string): KfMenu | undefined {
+  const head: string[] = [];
+  const tail: string[] = [];
+  const items: KfMenuItem[] = [];
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    const match = line.match(MENU_ITEM_RE);
+    if (!match) {
+      if (items.length === 0) {
+        head.push(line);
+      } else {
+        tail.push(line);
+      }
+      continue;
+    }
+    // 菜单项之间的说明文字作为不可点击的文本项，与菜单项共用条数上限
+    for (const content of tail.splice(0)) {
+      if (items.length >= MAX_MENU_ITEMS) break;
+      items.push({ type: "text", content });
+    }
+    if (items.length >= MAX_MENU_ITEMS) continue;
+    const content = match[1]!.trim();
+    const target = match[2]!.trim();
+    items.push(
+      /^https?:\/\//i.test(target)
+        ? { type: "view", url: target, content }
+        : { type: "click", id: target, content }
+    );
+  }
+
+  if (!items.some((item) => item.type !== "text")) return undefined;
+  return {
+    ...(head.length > 0 ? { headContent: head.join("\n") } : {}),
+    items,
+    ...(tail.length > 0 ? { tailContent: tail.join("\n") } : {}),
+  };
+}
+
+function parseLinkBlock(body: string): KfLinkCardSpec | undefined {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(body.trim());
+  } catch {
+    return undefined;
+  }
+  if (!raw || typeof raw !== "object") return undefined;
+  const record = raw as Record<string, unknown>;
+  const pick = (key: string) => (typeof record[key] === "string" ? (record[key] as string).trim() : "");
+  const title = pick("title");
+  const url = pick("url");
+  const thumb = pick("thumb") || pick("thumbUrl");
+  if (!title || !url || !thumb) return undefined;
+  const desc = pick("desc");
+  return { title, url, thumb, ...(desc ? { desc } : {}) };
+}
+
+function parseHandoffBlock(body: string): KfHandoffSpec {
+  const servicerUserId = body.trim().split(/\s+/)[0];
+  return servicerUserId ? { servicerUserId } : {};
+}
+
+/**
+ * 从回复文本中提取菜单 / 图文链接 / 转人工代码块
+ *
+ * 代码块（包括流式输出中尚未闭合的代码块）都会从文本中移除，每种仅第一个有效代码块生效。
+ */
+export function extractKfReplyBlocks(text: string): KfReplyBlocks {
+  if (!BLOCK_LANGS.some((lang) => text.includes("```" + lang))) {
+    return { text };
+  }
+
+  let menu: KfMenu | undefined;
+  let link: KfLinkCardSpec | undefined;
+  let handoff: KfHandoffSpec | undefined;
+  const stripped = text
+    .replace(blockRegExp(MENU_BLOCK_LANG), (_match, body: string) => {
+      menu ??= parseMenuBlock(body);
+      return "";
+    })
+    .replace(blockRegExp(LINK_BLOCK_LANG), (_match, body: string) => {
+      link ??= parseLinkBlock(body);
+      return "";
+    })
+    .replace(blockRegExp(HANDOFF_BLOCK_LANG), (_match, body: string) => {
+      handoff ??= parseHandoffBlock(body);
+      return "";
+    })
+    .replace(unterminatedBlockRegExp(MENU_BLOCK_LANG), "")
+    .replace(unterminatedBlockRegExp(LINK_BLOCK_LANG), "")
+    .replace(unterminatedBlockRegExp(HANDOFF_BLOCK_LANG), "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return {
+    text: stripped,
+    ...(menu ? { menu } : {}),
+    ...(link ? { link } : {}),
+    ...(handoff ? { handoff } : {}),
+  };
+}
+
+/**
+ * 菜单发送失败时的纯文本回退
+ */
+export function formatKfMenuFallbackText(menu: KfMenu): string {
+  const lines: string[] = [];
+  if (menu.headContent) lines.push(menu.headContent);
+  for (const item of menu.items) {
+    if (item.type === "view") {
+      lines.push(`· ${item.content}：${item.url}`);
+    } else if (item.type === "text") {
+      lines.push(item.content);
+    } else {
+      lines.push(`· ${item.content}`);
+    }
+  }
+  if (menu.tailContent) lines.push(menu.tailContent);
+  return lines.join("\n");
+}
+
+/**
+ * 图文链接发送失败时的纯文本回退
+ */
+export function formatKfLinkFallbackText(link: KfLinkCardSpec): string {
+  return [link.title, link.desc, link.url].filter(Boolean).join("\n");
+}
+
+/**
+ * 菜单点击回调的入站正文
+ */
+export function formatKfMenuClickContent(content: string, menuId: string): string {
+  return `[菜单点击] ${content} (${menuId})`;
+}
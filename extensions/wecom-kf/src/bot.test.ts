@@ -0,0 +1,145 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { clearAllAccessTokenCache } from "./api.js";
+import { extractInboundText, isInboundCustomerMessage, resolveInboundContent } from "./bot.js";
+import type { ResolvedWecomKfAccount, SyncMsgItem } from "./types.js";
+
+let inboundDir = "";
+
+function createAccount(): ResolvedWecomKfAccount {
+  return {
+    accountId: "default",
+    enabled: true,
+    configured: true,
+    token: "callback-token",
+    encodingAESKey: "abcdefghijklmnopqrstuvwxyz0123456789ABCDEFG",
+    corpId: "ww-test-corp",
+    corpSecret: "kf-secret",
+    openKfId: "wk-test",
+    canSendActive: true,
+    config: {
+      corpId: "ww-test-corp",
+      corpSecret: "kf-secret",
+      openKfId: "wk-test",
+      inboundMedia: { dir: inboundDir },
+    },
+  };
+}
+
+function createMessage(msgtype: string, payload: Record<string, unknown>): SyncMsgItem {
+  return {
+    msgid: `msg-${msgtype}`,
+    msgtype,
+    origin: 3,
+    open_kfid: "wk-test",
+    external_userid: "wx-user-1",
+    send_time: 1_700_000_000,
+    [msgtype]: payload,
+  };
+}
+
+function mockJsonResponse(payload: unknown): Response {
+  return {
+    ok: true,
+    status: 200,
+    statusText: "OK",
+    headers: new Headers({ "content-type": "application/json" }),
+    json: vi.fn().mockResolvedValue(payload),
+  } as unknown as Response;
+}
+
+function mockBinaryResponse(body: Buffer, contentType: string): Response {
+  return {
+    ok: true,
+    status: 200,
+    statusText: "OK",
+    headers: new Headers({ "content-type": contentType, "content-length": String(body.length) }),
+    arrayBuffer: vi.fn().mockResolvedValue(body.buffer.slice(body.byteOffset, body.byteOffset + body.length)),
+  } as unknown as Response;
+}
+
+beforeEach(async () => {
+  inboundDir = await mkdtemp(join(tmpdir(), "wecom-kf-inbound-"));
+});
+
+afterEach(async () => {
+  clearAllAccessTokenCache();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  await rm(inboundDir, { recursive: true, force: true });
+});
+
+describe("wecom-kf inbound messages", () => {
+  it("accepts every customer message type but not events or servicer messages", () => {
+    expect(isInboundCustomerMessage(createMessage("image", { media_id: "m1" }))).toBe(true);
+    expect(isInboundCustomerMessage(createMessage("event", { event_type: "enter_session" }))).toBe(false);
+    expect(isInboundCustomerMessage({ ...createMessage("text", { content: "hi" }), origin: 5 })).toBe(false);
+  });
+
+  it("formats location, link, business card and miniprogram payloads", () => {
+    expect(
+      extractInboundText(
+        createMessage("location", { latitude: 23.1, longitude: 113.3, name: "广州塔", address: "海珠区阅江西路" })
+      )
+    ).toBe("[location]\nname=广州塔\naddress=海珠区阅江西路\ncoords=23.1,113.3");
+    expect(
+      extractInboundText(createMessage("link", { title: "订单详情", desc: "订单 1001", url: "https://example.com/o/1001" }))
+    ).toBe("[link]\ntitle=订单详情\ndescription=订单 1001\nurl=https://example.com/o/1001");
+    expect(extractInboundText(createMessage("business_card", { userid: "zhangsan" }))).toBe(
+      "[business_card]\nuserid=zhangsan"
+    );
+    expect(
+      extractInboundText(createMessage("miniprogram", { title: "商城", appid: "wx123", pagepath: "pages/index" }))
+    ).toBe("[miniprogram]\ntitle=商城\nappid=wx123\npagepath=pages/index");
+  });
+
+  it("marks menu clicks with their menu_id", () => {
+    expect(extractInboundText(createMessage("text", { content: "查询订单", menu_id: "order" }))).toBe(
+      "[菜单点击] 查询订单 (order)"
+    );
+  });
+
+  it("downloads images through media/get into the inbound media dir", async () => {
+    const image = Buffer.from("fake-png");
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, access_token: "token-a", expires_in: 7200 }))
+      .mockResolvedValueOnce(mockBinaryResponse(image, "image/png"));
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+
+    const content = await resolveInboundContent({
+      account: createAccount(),
+      msg: createMessage("image", { media_id: "media-1" }),
+    });
+
+    expect(fetchMock.mock.calls[1]?.[0]).toBe(
+      "https://qyapi.weixin.qq.com/cgi-bin/media/get?access_token=token-a&media_id=media-1"
+    );
+    expect(content?.mediaPaths).toHaveLength(1);
+    const savedPath = content!.mediaPaths[0]!;
+    expect(savedPath.startsWith(inboundDir)).toBe(true);
+    expect(savedPath.endsWith(".png")).toBe(true);
+    expect(content?.text).toBe(`[image]\npath=${savedPath}`);
+    expect(await readFile(savedPath)).toEqual(image);
+  });
+
+  it("falls back to the mediaId text when download fails", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, access_token: "token-a", expires_in: 7200 }))
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 40007, errmsg: "invalid media_id" }));
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+
+    const content = await resolveInboundContent({
+      account: createAccount(),
+      msg: createMessage("file", { media_id: "media-2" }),
+    });
+
+    expect(content?.mediaPaths).toEqual([]);
+    expect(content?.text).toBe("[file]\nmediaId=media-2\nerror=media/get failed: invalid media_id (errcode=40007)");
+  });
+});
@@ -1,11 +1,260 @@
-import type { SyncMsgItem, SyncMsgText } from "./types.js";
+import { randomBytes } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { extname, join } from "node:path";
 
-export function isInboundCustomerTextMessage(msg: SyncMsgItem): msg is SyncMsgText {
-  return msg.origin === 3 && msg.msgtype === "text";
+import {
+  ASRError,
+  finalizeInboundMediaFile,
+  pruneInboundMediaDir,
+  transcribeTencentFlash,
+} from "@openclaw-china/shared";
+
+import { downloadKfMedia } from "./api.js";
+import { formatKfMenuClickContent } from "./blocks.js";
+import {
+  resolveInboundMediaDir,
+  resolveInboundMediaEnabled,
+  resolveInboundMediaKeepDays,
+  resolveInboundMediaMaxBytes,
+  resolveWecomKfASRCredentials,
+} from "./config.js";
+import type { ResolvedWecomKfAccount, SyncMsgItem, SyncMsgMedia } from "./types.js";
+
+/** 客户发送的消息（origin=3） */
+const ORIGIN_CUSTOMER = 3;
+
+const MEDIA_MSG_TYPES: ReadonlySet<string> = new Set(["image", "voice", "video", "file"]);
+
+const MIME_EXT_MAP: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/bmp": ".bmp",
+  "audio/amr": ".amr",
+  "audio/silk": ".silk",
+  "audio/mpeg": ".mp3",
+  "video/mp4": ".mp4",
+  "application/pdf": ".pdf",
+};
+
+const DEFAULT_MEDIA_EXT: Record<string, string> = {
+  image: ".jpg",
+  voice: ".amr",
+  video: ".mp4",
+  file: ".bin",
+};
+
+export type InboundContent = {
+  text: string;
+  mediaPaths: string[];
+  /** 语音转写失败原因（已配置 ASR 时） */
+  asrErrorMessage?: string;
+};
+
+type Logger = {
+  info: (message: string) => void;
+  warn: (message: string) => void;
+};
+
+export function isInboundCustomerMessage(msg: SyncMsgItem): boolean {
+  return msg.origin === ORIGIN_CUSTOMER && msg.msgtype !== "event";
 }
 
+function isInboundMediaMessage(msg: SyncMsgItem): msg is SyncMsgMedia {
+  return MEDIA_MSG_TYPES.has(msg.msgtype);
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+}
+
+function toText(value: unknown): string {
+  if (typeof value === "string") return value.trim();
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  return "";
+}
+
+function formatParts(tag: string, fields: Array<[string, unknown]>): string {
+  const parts = [`[${tag}]`];
+  for (const [key, value] of fields) {
+    const text = toText(value);
+    if (text) parts.push(`${key}=${text}`);
+  }
+  return parts.join("\n");
+}
+
+/**
+ * 将客户消息转换为给 Agent 的文本（不下载媒体）
+ *
+ * 位置 / 链接 / 名片 / 小程序转为结构化文本；媒体消息仅包含 mediaId；
+ * 菜单点击（带 menu_id 的文本）标注为菜单点击。
+ */
 export function extractInboundText(msg: SyncMsgItem): string | undefined {
-  if (!isInboundCustomerTextMessage(msg)) return undefined;
-  const content = msg.text?.content?.trim();
-  return content || undefined;
+  if (!isInboundCustomerMessage(msg)) return undefined;
+
+  const payload = asRecord((msg as Record<string, unknown>)[msg.msgtype]);
+  switch (msg.msgtype) {
+    case "text": {
+      const content = toText(payload.content);
+      const menuId = toText(payload.menu_id);
+      if (content && menuId) return formatKfMenuClickContent(content, menuId);
+      return content || undefined;
+    }
+    case "image":
+    case "voice":
+    case "video":
+    case "file":
+      return formatParts(msg.msgtype, [["mediaId", payload.media_id]]);
+    case "location": {
+      const latitude = toText(payload.latitude);
+      const longitude = toText(payload.longitude);
+      return formatParts("location", [
+        ["name", payload.name],
+        ["address", payload.address],
+        ["coords", latitude && longitude ? `${latitude},${longitude}` : ""],
+      ]);
+    }
+    case "link":
+      return formatParts("link", [
+        ["title", payload.title],
+        ["description", payload.desc],
+        ["url", payload.url],
+        ["picUrl", payload.pic_url],
+      ]);
+    case "business_card":
+      return formatParts("business_card", [["userid", payload.userid]]);
+    case "miniprogram":
+      return formatParts("miniprogram", [
+        ["title", payload.title],
+        ["appid", payload.appid],
+        ["pagepath", payload.pagepath],
+      ]);
+    default:
+      return `[${msg.msgtype}]`;
+  }
+}
+
+function resolveMediaExtension(msgtype: string, contentType?: string, filename?: string): string {
+  const fromName = filename ? extname(filename) : "";
+  if (fromName) return fromName.toLowerCase();
+  if (contentType && MIME_EXT_MAP[contentType]) return MIME_EXT_MAP[contentType];
+  return DEFAULT_MEDIA_EXT[msgtype] ?? ".bin";
+}
+
+async function saveInboundMedia(params: {
+  account: ResolvedWecomKfAccount;
+  msgtype: string;
+  buffer: Buffer;
+  contentType?: string;
+  filename?: string;
+}): Promise<string> {
+  const tempDir = join(tmpdir(), "wecom-kf-media");
+  await mkdir(tempDir, { recursive: true });
+
+  const ext = resolveMediaExtension(params.msgtype, params.contentType, params.filename);
+  const tempPath = join(tempDir, `${params.msgtype}_${Date.now()}_${randomBytes(4).toString("hex")}${ext}`);
+  await writeFile(tempPath, params.buffer);
+
+  return finalizeInboundMediaFile({
+    filePath: tempPath,
+    tempDir,
+    inboundDir: resolveInboundMediaDir(params.account.config),
+  });
+}
+
+function formatASRErrorLog(err: unknown): string {
+  if (err instanceof ASRError) {
+    return `${err.kind}: ${err.message}`;
+  }
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * 解析客户消息内容
+ *
+ * 图片 / 语音 / 视频 / 文件通过 media/get 下载并归档到 inbound/YYYY-MM-DD，
+ * 语音在配置 ASR 后转写为文本。下载失败时回退为仅含 mediaId 的文本。
+ */
+export async function resolveInboundContent(params: {
+  account: ResolvedWecomKfAccount;
+  msg: SyncMsgItem;
+  logger?: Logger;
+}): Promise<InboundContent | undefined> {
+  const { account, msg, logger } = params;
+  const fallbackText = extractInboundText(msg);
+  if (!fallbackText) return undefined;
+
+  if (!isInboundMediaMessage(msg) || !resolveInboundMediaEnabled(account.config)) {
+    return { text: fallbackText, mediaPaths: [] };
+  }
+
+  const mediaId = toText(asRecord((msg as Record<string, unknown>)[msg.msgtype]).media_id);
+  if (!mediaId) {
+    return { text: fallbackText, mediaPaths: [] };
+  }
+
+  let savedPath: string;
+  let buffer: Buffer;
+  try {
+    const media = await downloadKfMedia(account, mediaId, {
+      maxBytes: resolveInboundMediaMaxBytes(account.config),
+    });
+    buffer = media.buffer;
+    savedPath = await saveInboundMedia({
+      account,
+      msgtype: msg.msgtype,
+      buffer: media.buffer,
+      contentType: media.contentType,
+      filename: media.filename,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    logger?.warn(`download ${msg.msgtype} failed msgid=${msg.msgid}: ${message}`);
+    return { text: `${fallbackText}\nerror=${message}`, mediaPaths: [] };
+  }
+
+  void pruneInboundMediaDir({
+    inboundDir: resolveInboundMediaDir(account.config),
+    keepDays: resolveInboundMediaKeepDays(account.config),
+  }).catch(() => undefined);
+
+  if (msg.msgtype !== "voice") {
+    return { text: formatParts(msg.msgtype, [["path", savedPath]]), mediaPaths: [savedPath] };
+  }
+
+  const asrCredentials = resolveWecomKfASRCredentials(account.config);
+  if (!asrCredentials) {
+    return { text: formatParts("voice", [["path", savedPath]]), mediaPaths: [savedPath] };
+  }
+
+  try {
+    logger?.info(`transcribing voice msgid=${msg.msgid} size=${buffer.length}`);
+    const transcript = await transcribeTencentFlash({
+      audio: buffer,
+      config: {
+        appId: asrCredentials.appId,
+        secretId: asrCredentials.secretId,
+        secretKey: asrCredentials.secretKey,
+        voiceFormat: extname(savedPath).slice(1) || "amr",
+        ...(asrCredentials.engineType ? { engineType: asrCredentials.engineType } : {}),
+        ...(typeof asrCredentials.timeoutMs === "number" ? { timeoutMs: asrCredentials.timeoutMs } : {}),
+      },
+    });
+    return {
+      text: formatParts("voice", [
+        ["recognition", transcript],
+        ["path", savedPath],
+      ]),
+      mediaPaths: [savedPath],
+    };
+  } catch (err) {
+    logger?.warn(`[voice-asr] transcription failed msgid=${msg.msgid} detail=${formatASRErrorLog(err)}`);
+    return {
+      text: formatParts("voice", [["path", savedPath]]),
+      mediaPaths: [savedPath],
+      asrErrorMessage: err instanceof Error ? err.message : String(err),
+    };
+  }
 }
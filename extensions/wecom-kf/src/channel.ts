@@ -10,8 +10,9 @@ import { probeWecomKfAccount } from "./probe.js";
 import { setWecomKfRuntime } from "./runtime.js";
 import { registerWecomKfWebhookTarget, primeWecomKfCursor } from "./webhook.js";
 import { sendKfTextMessage, summarizeSendResults } from "./api.js";
+import { sendKfMediaFromSource, sendKfReply } from "./reply.js";
 import { wecomKfOnboardingAdapter } from "./onboarding.js";
-import type { PluginConfig, ResolvedWecomKfAccount, WecomKfConfig } from "./types.js";
+import type { KfSendMsgResult, PluginConfig, ResolvedWecomKfAccount, WecomKfConfig } from "./types.js";
 
 export { DEFAULT_ACCOUNT_ID } from "./config.js";
 
@@ -58,6 +59,38 @@ const wecomKfConfigSchema = {
     welcomeText: { type: "string" },
     dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist", "disabled"] },
     allowFrom: { type: "array", items: { type: "string" } },
+    inboundMedia: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        enabled: { type: "boolean" },
+        dir: { type: "string" },
+        maxBytes: { type: "number" },
+        keepDays: { type: "number" },
+      },
+    },
+    asr: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        enabled: { type: "boolean" },
+        appId: { type: "string" },
+        secretId: { type: "string" },
+        secretKey: { type: "string" },
+        engineType: { type: "string" },
+        timeoutMs: { type: "number" },
+      },
+    },
+    handoff: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        enabled: { type: "boolean" },
+        keywords: { type: "array", items: { type: "string" } },
+        servicerUserId: { type: "string" },
+        noticeText: { type: "string" },
+      },
+    },
     accounts: {
       type: "object",
       additionalProperties: {
@@ -76,6 +109,38 @@ const wecomKfConfigSchema = {
           welcomeText: { type: "string" },
           dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist", "disabled"] },
           allowFrom: { type: "array", items: { type: "string" } },
+          inboundMedia: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              enabled: { type: "boolean" },
+              dir: { type: "string" },
+              maxBytes: { type: "number" },
+              keepDays: { type: "number" },
+            },
+          },
+          asr: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              enabled: { type: "boolean" },
+              appId: { type: "string" },
+              secretId: { type: "string" },
+              secretKey: { type: "string" },
+              engineType: { type: "string" },
+              timeoutMs: { type: "number" },
+            },
+          },
+          handoff: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              enabled: { type: "boolean" },
+              keywords: { type: "array", items: { type: "string" } },
+              servicerUserId: { type: "string" },
+              noticeText: { type: "string" },
+            },
+          },
         },
       },
     },
@@ -93,6 +158,36 @@ const meta = {
   order: 83,
 } as const;
 
+function resolveOutboundTarget(params: {
+  cfg: PluginConfig;
+  accountId?: string;
+  to: string;
+}): { account: ResolvedWecomKfAccount; userId: string } | { error: Error } {
+  const parsed = parseDirectTarget(params.to);
+  if (!parsed) {
+    return { error: new Error(`Unsupported target for WeCom KF: ${params.to}`) };
+  }
+
+  const account = resolveWecomKfAccount({
+    cfg: params.cfg,
+    accountId: parsed.accountId ?? params.accountId,
+  });
+  if (!account.canSendActive) {
+    return { error: new Error("Account not configured for active sending (missing corpId/corpSecret)") };
+  }
+  return { account, userId: parsed.userId };
+}
+
+function toOutboundResult(results: KfSendMsgResult[]) {
+  const summary = summarizeSendResults(results);
+  return {
+    channel: "wecom-kf",
+    ok: summary.ok,
+    messageId: summary.msgid ?? "",
+    error: summary.ok ? undefined : new Error(summary.error ?? "send failed"),
+  };
+}
+
 export const wecomKfPlugin = {
   id: "wecom-kf",
 
@@ -100,7 +195,7 @@ export const wecomKfPlugin = {
 
   capabilities: {
     chatTypes: ["direct"] as const,
-    media: false,
+    media: true,
     reactions: false,
     threads: false,
     edit: false,
@@ -302,42 +397,60 @@ export const wecomKfPlugin = {
       to: string;
       text: string;
     }) => {
-      const parsed = parseDirectTarget(params.to);
-      if (!parsed) {
-        return {
-          channel: "wecom-kf",
-          ok: false,
-          messageId: "",
-          error: new Error(`Unsupported target for WeCom KF: ${params.to}`),
-        };
+      const resolved = resolveOutboundTarget(params);
+      if ("error" in resolved) {
+        return { channel: "wecom-kf", ok: false, messageId: "", error: resolved.error };
       }
 
-      const account = resolveWecomKfAccount({
-        cfg: params.cfg,
-        accountId: parsed.accountId ?? params.accountId,
-      });
-      if (!account.canSendActive) {
+      try {
+        const results = await sendKfReply({
+          account: resolved.account,
+          externalUserId: resolved.userId,
+          text: params.text,
+        });
+        return toOutboundResult(results);
+      } catch (error) {
         return {
           channel: "wecom-kf",
           ok: false,
           messageId: "",
-          error: new Error("Account not configured for active sending (missing corpId/corpSecret)"),
+          error: error instanceof Error ? error : new Error(String(error)),
         };
       }
+    },
+    sendMedia: async (params: {
+      cfg: PluginConfig;
+      accountId?: string;
+      to: string;
+      mediaUrl: string;
+      text?: string;
+      mimeType?: string;
+    }) => {
+      const resolved = resolveOutboundTarget(params);
+      if ("error" in resolved) {
+        return { channel: "wecom-kf", ok: false, messageId: "", error: resolved.error };
+      }
 
       try {
-        const results = await sendKfTextMessage({
-          account,
-          externalUserId: parsed.userId,
-          text: params.text,
-        });
-        const summary = summarizeSendResults(results);
-        return {
-          channel: "wecom-kf",
-          ok: summary.ok,
-          messageId: summary.msgid ?? "",
-          error: summary.ok ? undefined : new Error(summary.error ?? "send failed"),
-        };
+        const results: KfSendMsgResult[] = [];
+        if (params.text?.trim()) {
+          results.push(
+            ...(await sendKfTextMessage({
+              account: resolved.account,
+              externalUserId: resolved.userId,
+              text: params.text,
+            }))
+          );
+        }
+        results.push(
+          await sendKfMediaFromSource({
+            account: resolved.account,
+            externalUserId: resolved.userId,
+            source: params.mediaUrl,
+            mimeType: params.mimeType,
+          })
+        );
+        return toOutboundResult(results);
       } catch (error) {
         return {
           channel: "wecom-kf",
@@ -1,7 +1,13 @@
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+import { isSenderPaired, type PairingContext } from "@openclaw-china/shared";
+
 import type {
   PluginConfig,
   ResolvedWecomKfAccount,
   WecomKfAccountConfig,
+  WecomKfASRCredentials,
   WecomKfConfig,
   WecomKfDmPolicy,
 } from "./types.js";
@@ -28,11 +34,68 @@ export function resolveAllowFrom(config: WecomKfAccountConfig): string[] {
     .filter(Boolean);
 }
 
+// 默认落盘目录：~/.openclaw/media/wecom-kf/inbound
+const DEFAULT_INBOUND_MEDIA_DIR = join(homedir(), ".openclaw", "media", "wecom-kf", "inbound");
+const DEFAULT_INBOUND_MEDIA_MAX_BYTES = 20 * 1024 * 1024;
+const DEFAULT_INBOUND_MEDIA_KEEP_DAYS = 7;
+
+export function resolveInboundMediaEnabled(config: WecomKfAccountConfig): boolean {
+  return config.inboundMedia?.enabled !== false;
+}
+
+export function resolveInboundMediaDir(config: WecomKfAccountConfig): string {
+  return (config.inboundMedia?.dir ?? "").trim() || DEFAULT_INBOUND_MEDIA_DIR;
+}
+
+export function resolveInboundMediaMaxBytes(config: WecomKfAccountConfig): number {
+  const value = config.inboundMedia?.maxBytes;
+  return typeof value === "number" && Number.isFinite(value) && value > 0
+    ? value
+    : DEFAULT_INBOUND_MEDIA_MAX_BYTES;
+}
+
+export function resolveInboundMediaKeepDays(config: WecomKfAccountConfig): number {
+  const value = config.inboundMedia?.keepDays;
+  return typeof value === "number" && Number.isFinite(value) && value >= 0
+    ? value
+    : DEFAULT_INBOUND_MEDIA_KEEP_DAYS;
+}
+
+export function resolveWecomKfASRCredentials(
+  config: WecomKfAccountConfig
+): WecomKfASRCredentials | undefined {
+  const asr = config.asr;
+  if (!asr?.enabled) return undefined;
+  if (!asr.appId || !asr.secretId || !asr.secretKey) return undefined;
+  return {
+    appId: asr.appId,
+    secretId: asr.secretId,
+    secretKey: asr.secretKey,
+    engineType: asr.engineType,
+    timeoutMs: asr.timeoutMs,
+  };
+}
+
+const DEFAULT_HANDOFF_KEYWORDS = ["转人工", "人工客服"];
+
+/** 转人工需显式开启（handoff.enabled = true） */
+export function resolveHandoffEnabled(config: WecomKfAccountConfig): boolean {
+  return config.handoff?.enabled === true;
+}
+
+export function resolveHandoffKeywords(config: WecomKfAccountConfig): string[] {
+  return (config.handoff?.keywords ?? DEFAULT_HANDOFF_KEYWORDS)
+    .map((keyword) => keyword.trim())
+    .filter(Boolean);
+}
+
 export function checkDmPolicy(params: {
   dmPolicy: WecomKfDmPolicy;
   senderId: string;
   allowFrom?: string[];
-}): { allowed: boolean; reason?: string } {
+  /** 配对上下文；未提供时 pairing 等同 open */
+  pairing?: PairingContext;
+}): { allowed: boolean; reason?: string; pairingRequired?: boolean } {
   const senderId = params.senderId.trim().toLowerCase();
   const allowFrom = (params.allowFrom ?? []).map((entry) => entry.trim().toLowerCase());
 
@@ -44,6 +107,10 @@ export function checkDmPolicy(params: {
         ? { allowed: true }
         : { allowed: false, reason: `sender ${senderId} not in allowlist` };
     case "pairing":
+      if (!params.pairing || allowFrom.includes(senderId)) return { allowed: true };
+      return isSenderPaired({ ...params.pairing, senderId })
+        ? { allowed: true }
+        : { allowed: false, reason: `sender ${senderId} not paired`, pairingRequired: true };
     case "open":
     default:
       return { allowed: true };
@@ -1,8 +1,36 @@
-import { extractInboundText } from "./bot.js";
-import { checkDmPolicy, resolveAllowFrom, resolveDmPolicy } from "./config.js";
+import { resolvePairingChallenge } from "@openclaw-china/shared";
+
+import { isInboundCustomerMessage, resolveInboundContent } from "./bot.js";
+import {
+  checkDmPolicy,
+  resolveAllowFrom,
+  resolveDmPolicy,
+  resolveHandoffEnabled,
+  resolveHandoffKeywords,
+} from "./config.js";
 import { sendKfTextMessage, summarizeSendResults } from "./api.js";
+import { handoffToHuman, matchHandoffKeyword, resolveBotCanReply } from "./handoff.js";
+import { sendKfReply } from "./reply.js";
 import { updateAccountState } from "./state.js";
-import type { PluginConfig, PluginRuntime, ResolvedWecomKfAccount, SyncMsgItem } from "./types.js";
+import type {
+  PluginConfig,
+  PluginRuntime,
+  ResolvedWecomKfAccount,
+  SyncMsgItem,
+  SyncMsgText,
+} from "./types.js";
+
+const VOICE_ASR_FALLBACK_TEXT = "当前语音功能未启动或识别失败，请稍后重试。";
+const VOICE_ASR_ERROR_MAX_LENGTH = 500;
+const DEFAULT_HANDOFF_NOTICE_TEXT = "正在为您转接人工客服，请稍候。";
+
+function buildVoiceASRFallbackReply(errorMessage: string): string {
+  const detail = errorMessage.trim();
+  if (!detail) return VOICE_ASR_FALLBACK_TEXT;
+  const trimmed =
+    detail.length <= VOICE_ASR_ERROR_MAX_LENGTH ? detail : `${detail.slice(0, VOICE_ASR_ERROR_MAX_LENGTH)}...`;
+  return `${VOICE_ASR_FALLBACK_TEXT}\n\n接口错误：${trimmed}`;
+}
 
 function createLogger(opts: { log?: (message: string) => void; error?: (message: string) => void }) {
   return {
@@ -12,6 +40,41 @@ function createLogger(opts: { log?: (message: string) => void; error?: (message:
   };
 }
 
+/**
+ * 关键词转人工：先发送提示（转接后无法再通过 API 发送消息），再变更会话状态
+ *
+ * @returns 转接成功返回 true；失败时交由 Agent 正常回复
+ */
+async function handoffByKeyword(params: {
+  account: ResolvedWecomKfAccount;
+  msg: SyncMsgItem;
+  senderId: string;
+  logger: ReturnType<typeof createLogger>;
+}): Promise<boolean> {
+  const noticeText = params.account.config.handoff?.noticeText?.trim() || DEFAULT_HANDOFF_NOTICE_TEXT;
+  const results = await sendKfTextMessage({
+    account: params.account,
+    externalUserId: params.senderId,
+    text: noticeText,
+    openKfId: params.msg.open_kfid,
+  });
+  const summary = summarizeSendResults(results);
+  if (!summary.ok) {
+    params.logger.warn(`send handoff notice failed: ${summary.error ?? "unknown error"}`);
+  }
+
+  const result = await handoffToHuman({
+    account: params.account,
+    openKfId: params.msg.open_kfid,
+    externalUserId: params.senderId,
+    logger: params.logger,
+  });
+  if (!result.ok) {
+    await updateAccountState(params.account.accountId, { lastError: result.error ?? "handoff failed" });
+  }
+  return result.ok;
+}
+
 export async function dispatchKfMessage(params: {
   cfg: PluginConfig;
   account: ResolvedWecomKfAccount;
@@ -21,9 +84,8 @@ export async function dispatchKfMessage(params: {
   error?: (message: string) => void;
 }): Promise<void> {
   const logger = createLogger({ log: params.log, error: params.error });
-  const rawText = extractInboundText(params.msg);
 
-  if (!rawText) {
+  if (!isInboundCustomerMessage(params.msg)) {
     logger.info(`skip unsupported inbound msgtype=${params.msg.msgtype} msgid=${params.msg.msgid}`);
     return;
   }
@@ -39,12 +101,83 @@ export async function dispatchKfMessage(params: {
     dmPolicy,
     senderId,
     allowFrom: resolveAllowFrom(params.account.config),
+    pairing: { channel: "wecom-kf", accountId: params.account.accountId },
   });
   if (!policyResult.allowed) {
     logger.info(`skip sender=${senderId} reason=${policyResult.reason ?? "policy rejected"}`);
+    if (policyResult.pairingRequired) {
+      const challenge = resolvePairingChallenge({
+        channel: "wecom-kf",
+        accountId: params.account.accountId,
+        senderId,
+      });
+      if (challenge) {
+        const results = await sendKfTextMessage({
+          account: params.account,
+          externalUserId: senderId,
+          text: challenge,
+          openKfId: params.msg.open_kfid,
+        });
+        const summary = summarizeSendResults(results);
+        if (!summary.ok) {
+          logger.warn(`send pairing code failed: ${summary.error ?? "unknown error"}`);
+        }
+      }
+    }
     return;
   }
 
+  // 人工接待 / 排队中的会话由人工处理，机器人不再回复
+  const canReply = await resolveBotCanReply({
+    account: params.account,
+    openKfId: params.msg.open_kfid,
+    externalUserId: senderId,
+    logger,
+  });
+  if (!canReply) {
+    logger.info(`skip sender=${senderId} reason=session owned by human servicer`);
+    return;
+  }
+
+  if (resolveHandoffEnabled(params.account.config) && params.msg.msgtype === "text") {
+    const content = String((params.msg as SyncMsgText).text?.content ?? "");
+    const keyword = matchHandoffKeyword(content, resolveHandoffKeywords(params.account.config));
+    if (keyword && (await handoffByKeyword({ ...params, senderId, logger }))) {
+      return;
+    }
+  }
+
+  // 策略校验通过后再下载媒体，避免为被拒绝的发送者拉取素材
+  const inbound = await resolveInboundContent({
+    account: params.account,
+    msg: params.msg,
+    logger,
+  });
+  const rawText = inbound?.text.trim();
+  if (!inbound || !rawText) {
+    logger.info(`skip empty inbound msgtype=${params.msg.msgtype} msgid=${params.msg.msgid}`);
+    return;
+  }
+
+  if (inbound.asrErrorMessage) {
+    const results = await sendKfTextMessage({
+      account: params.account,
+      externalUserId: senderId,
+      text: buildVoiceASRFallbackReply(inbound.asrErrorMessage),
+      openKfId: params.msg.open_kfid,
+    });
+    const summary = summarizeSendResults(results);
+    if (!summary.ok) {
+      logger.warn(`send asr fallback failed: ${summary.error ?? "unknown error"}`);
+    }
+    return;
+  }
+
+  const mediaFields: Record<string, unknown> =
+    inbound.mediaPaths.length > 0
+      ? { MediaPath: inbound.mediaPaths[0], MediaPaths: inbound.mediaPaths.slice() }
+      : {};
+
   const channel = params.runtime.channel;
   const resolveAgentRoute = channel?.routing?.resolveAgentRoute;
   const dispatchReply = channel?.reply?.dispatchReplyWithBufferedBlockDispatcher;
@@ -100,6 +233,7 @@ export async function dispatchKfMessage(params: {
     MessageSid: params.msg.msgid,
     OriginatingChannel: "wecom-kf",
     OriginatingTo: to,
+    ...mediaFields,
   }) as Record<string, unknown> | undefined) ?? {
     Body: body,
     RawBody: rawText,
@@ -117,6 +251,7 @@ export async function dispatchKfMessage(params: {
     MessageSid: params.msg.msgid,
     OriginatingChannel: "wecom-kf",
     OriginatingTo: to,
+    ...mediaFields,
   };
 
   if (channel.session?.recordInboundSession && storePath) {
@@ -150,12 +285,17 @@ export async function dispatchKfMessage(params: {
       : (text: string) => text;
 
   const responseChunks: string[] = [];
+  const responseMediaUrls: string[] = [];
 
   await dispatchReply({
     ctx: ctxPayload,
     cfg: params.cfg,
     dispatcherOptions: {
       deliver: async (payload) => {
+        for (const mediaUrl of payload.mediaUrls ?? (payload.mediaUrl ? [payload.mediaUrl] : [])) {
+          const trimmed = mediaUrl.trim();
+          if (trimmed && !responseMediaUrls.includes(trimmed)) responseMediaUrls.push(trimmed);
+        }
         const text = String(payload.text ?? "").trim();
         if (!text) return;
         responseChunks.push(convertTables(text));
@@ -167,17 +307,23 @@ export async function dispatchKfMessage(params: {
   });
 
   const combined = responseChunks.join("\n\n").trim();
-  if (!combined) {
+  if (!combined && responseMediaUrls.length === 0) {
     return;
   }
 
   try {
-    const results = await sendKfTextMessage({
+    const results = await sendKfReply({
       account: params.account,
       externalUserId: senderId,
       text: combined,
+      mediaUrls: responseMediaUrls,
       openKfId: params.msg.open_kfid,
+      logger,
     });
+    // 仅包含转人工等指令时没有可发送的消息
+    if (results.length === 0) {
+      return;
+    }
     const summary = summarizeSendResults(results);
     if (!summary.ok) {
       await updateAccountState(params.account.accountId, {
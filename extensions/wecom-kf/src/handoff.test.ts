@@ -0,0 +1,200 @@
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp, rm } from "node:fs/promises";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { clearAllAccessTokenCache } from "./api.js";
+import { dispatchKfMessage } from "./dispatch.js";
+import { applySessionStatusChange, getKfSessionState, resolveBotCanReply } from "./handoff.js";
+import { flushWecomKfStateForTests, setWecomKfStateFilePathForTests } from "./state.js";
+import type { PluginConfig, PluginRuntime, ResolvedWecomKfAccount, SyncMsgEvent, SyncMsgText } from "./types.js";
+
+let tempDir = "";
+
+function createAccount(handoff?: ResolvedWecomKfAccount["config"]["handoff"]): ResolvedWecomKfAccount {
+  return {
+    accountId: "default",
+    enabled: true,
+    configured: true,
+    token: "callback-token",
+    encodingAESKey: "abcdefghijklmnopqrstuvwxyz0123456789ABCDEFG",
+    corpId: "ww-test-corp",
+    corpSecret: "kf-secret",
+    openKfId: "wk-test",
+    canSendActive: true,
+    config: {
+      corpId: "ww-test-corp",
+      corpSecret: "kf-secret",
+      openKfId: "wk-test",
+      ...(handoff ? { handoff } : {}),
+    },
+  };
+}
+
+function createRuntime(dispatchReply: ReturnType<typeof vi.fn>): PluginRuntime {
+  return {
+    channel: {
+      routing: {
+        resolveAgentRoute: () => ({ sessionKey: "session-1", accountId: "default", agentId: "agent-1" }),
+      },
+      reply: {
+        dispatchReplyWithBufferedBlockDispatcher: dispatchReply as never,
+      },
+    },
+  };
+}
+
+function createTextMessage(content: string): SyncMsgText {
+  return {
+    msgid: `msg-${content}`,
+    msgtype: "text",
+    origin: 3,
+    open_kfid: "wk-test",
+    external_userid: "wx-user-1",
+    send_time: 1_700_000_000,
+    text: { content },
+  };
+}
+
+function createStatusChangeEvent(changeType: number, newServicer?: string): SyncMsgEvent {
+  return {
+    msgid: `event-${changeType}`,
+    msgtype: "event",
+    origin: 4,
+    open_kfid: "wk-test",
+    external_userid: "wx-user-1",
+    send_time: 1_700_000_000,
+    event: {
+      event_type: "session_status_change",
+      open_kfid: "wk-test",
+      external_userid: "wx-user-1",
+      change_type: changeType,
+      ...(newServicer ? { new_servicer_userid: newServicer } : {}),
+    },
+  };
+}
+
+function parseRequestBody(call: unknown[] | undefined): Record<string, unknown> {
+  const init = call?.[1] as RequestInit | undefined;
+  return JSON.parse(String(init?.body ?? "{}")) as Record<string, unknown>;
+}
+
+function mockJsonResponse(payload: unknown): Response {
+  return {
+    ok: true,
+    status: 200,
+    statusText: "OK",
+    headers: new Headers({ "content-type": "application/json" }),
+    json: vi.fn().mockResolvedValue(payload),
+  } as unknown as Response;
+}
+
+const cfg: PluginConfig = { channels: { "wecom-kf": { enabled: true } } };
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(path.join(os.tmpdir(), "wecom-kf-handoff-"));
+  setWecomKfStateFilePathForTests(path.join(tempDir, "state.json"));
+});
+
+afterEach(async () => {
+  clearAllAccessTokenCache();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  await flushWecomKfStateForTests();
+  setWecomKfStateFilePathForTests();
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+describe("wecom-kf handoff", () => {
+  it("hands off to the configured servicer on keyword without dispatching to the agent", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, access_token: "token-a", expires_in: 7200 }))
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, msgid: "msg-notice" }))
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, errmsg: "ok", msg_code: "code-1" }));
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+    const dispatchReply = vi.fn(async () => undefined);
+
+    await dispatchKfMessage({
+      cfg,
+      account: createAccount({ enabled: true, servicerUserId: "zhangsan", noticeText: "请稍候" }),
+      msg: createTextMessage("我要转人工"),
+      runtime: createRuntime(dispatchReply),
+    });
+
+    expect(dispatchReply).not.toHaveBeenCalled();
+    expect(parseRequestBody(fetchMock.mock.calls[1])).toMatchObject({
+      text: { content: "请稍候" },
+    });
+    expect(String(fetchMock.mock.calls[2]?.[0])).toContain("/cgi-bin/kf/service_state/trans?");
+    expect(parseRequestBody(fetchMock.mock.calls[2])).toEqual({
+      open_kfid: "wk-test",
+      external_userid: "wx-user-1",
+      service_state: 3,
+      servicer_userid: "zhangsan",
+    });
+    expect(
+      await getKfSessionState({ account: createAccount(), externalUserId: "wx-user-1" })
+    ).toMatchObject({ serviceState: 3, servicerUserId: "zhangsan" });
+  });
+
+  it("ignores handoff keywords unless handoff is explicitly enabled", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+    const dispatchReply = vi.fn(async () => undefined);
+
+    await dispatchKfMessage({
+      cfg,
+      account: createAccount({ servicerUserId: "zhangsan" }),
+      msg: createTextMessage("我要转人工"),
+      runtime: createRuntime(dispatchReply),
+    });
+
+    expect(dispatchReply).toHaveBeenCalledTimes(1);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("stays silent while a human owns the session and resumes after it ends", async () => {
+    const account = createAccount();
+    await applySessionStatusChange(account, createStatusChangeEvent(1, "lisi"));
+
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, access_token: "token-a", expires_in: 7200 }))
+      .mockResolvedValueOnce(
+        mockJsonResponse({ errcode: 0, errmsg: "ok", service_state: 3, servicer_userid: "lisi" })
+      );
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+    const dispatchReply = vi.fn(async () => undefined);
+
+    await dispatchKfMessage({
+      cfg,
+      account,
+      msg: createTextMessage("还在吗"),
+      runtime: createRuntime(dispatchReply),
+    });
+    expect(dispatchReply).not.toHaveBeenCalled();
+    expect(String(fetchMock.mock.calls[1]?.[0])).toContain("/cgi-bin/kf/service_state/get?");
+
+    await applySessionStatusChange(account, createStatusChangeEvent(3));
+    expect(await resolveBotCanReply({ account, externalUserId: "wx-user-1" })).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("resumes replying when service_state/get reports the session is back with the bot", async () => {
+    const account = createAccount();
+    await applySessionStatusChange(account, createStatusChangeEvent(2, "lisi"));
+
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, access_token: "token-a", expires_in: 7200 }))
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, errmsg: "ok", service_state: 4 }));
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+
+    expect(await resolveBotCanReply({ account, externalUserId: "wx-user-1" })).toBe(true);
+    expect(await getKfSessionState({ account, externalUserId: "wx-user-1" })).toMatchObject({
+      serviceState: 4,
+    });
+  });
+});
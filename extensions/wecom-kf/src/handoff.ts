@@ -0,0 +1,234 @@
+/**
+ * 转人工与会话状态
+ *
+ * 微信客服会话状态（service_state）:
+ * - 0 未处理 / 1 由智能助手接待：机器人正常回复
+ * - 2 待接入池排队中 / 3 由人工接待：机器人停止回复
+ * - 4 已结束或未开始：客户再次发消息后回到机器人
+ *
+ * 客户消息命中关键词（默认“转人工”“人工客服”）或 Agent 回复中包含 wecom-kf-handoff 代码块时，
+ * 调用 kf/service_state/trans 将会话转给指定接待人员（handoff.servicerUserId）或待接入池。
+ * 人工接入、转接、结束会话时的 session_status_change 事件会同步更新本地记录的会话状态。
+ *
+ * 文档: https://developer.work.weixin.qq.com/document/path/94669
+ */
+
+import { getKfServiceState, transKfServiceState } from "./api.js";
+import { buildSessionStateKey, getSessionState, setSessionState } from "./state.js";
+import type {
+  ResolvedWecomKfAccount,
+  SyncMsgEvent,
+  SyncMsgItem,
+  WecomKfServiceState,
+  WecomKfSessionState,
+} from "./types.js";
+
+export const SERVICE_STATE_BOT: WecomKfServiceState = 1;
+export const SERVICE_STATE_QUEUE: WecomKfServiceState = 2;
+export const SERVICE_STATE_HUMAN: WecomKfServiceState = 3;
+export const SERVICE_STATE_ENDED: WecomKfServiceState = 4;
+
+/** 接待人员在企业微信客户端发送的消息 */
+const ORIGIN_SERVICER = 5;
+
+/** session_status_change 事件的 change_type */
+const CHANGE_TYPE_ENDED = 3;
+
+type Logger = {
+  info: (message: string) => void;
+  warn: (message: string) => void;
+};
+
+export type HandoffResult = {
+  ok: boolean;
+  serviceState?: WecomKfServiceState;
+  error?: string;
+};
+
+export function isHumanServiceState(state: WecomKfServiceState | undefined): boolean {
+  return state === SERVICE_STATE_QUEUE || state === SERVICE_STATE_HUMAN;
+}
+
+/**
+ * 匹配转人工关键词（包含即命中）
+ */
+export function matchHandoffKeyword(text: string, keywords: string[]): string | undefined {
+  const normalized = text.trim();
+  if (!normalized) return undefined;
+  return keywords.find((keyword) => normalized.includes(keyword));
+}
+
+function resolveOpenKfId(account: ResolvedWecomKfAccount, openKfId?: string): string {
+  return openKfId?.trim() || account.openKfId?.trim() || "";
+}
+
+export async function getKfSessionState(params: {
+  account: ResolvedWecomKfAccount;
+  openKfId?: string;
+  externalUserId: string;
+}): Promise<WecomKfSessionState | undefined> {
+  const openKfId = resolveOpenKfId(params.account, params.openKfId);
+  if (!openKfId) return undefined;
+  return getSessionState(buildSessionStateKey(params.account.accountId, openKfId, params.externalUserId));
+}
+
+async function recordSessionState(params: {
+  account: ResolvedWecomKfAccount;
+  openKfId: string;
+  externalUserId: string;
+  serviceState: WecomKfServiceState;
+  servicerUserId?: string;
+}): Promise<WecomKfSessionState> {
+  return setSessionState(
+    buildSessionStateKey(params.account.accountId, params.openKfId, params.externalUserId),
+    { serviceState: params.serviceState, servicerUserId: params.servicerUserId }
+  );
+}
+
+/**
+ * 判断机器人是否可以回复
+ *
+ * 本地记录为人工接待 / 排队时，通过 kf/service_state/get 确认一次，避免漏收结束事件后一直静默；
+ * 查询失败时保持静默。
+ */
+export async function resolveBotCanReply(params: {
+  account: ResolvedWecomKfAccount;
+  openKfId?: string;
+  externalUserId: string;
+  logger?: Logger;
+}): Promise<boolean> {
+  const openKfId = resolveOpenKfId(params.account, params.openKfId);
+  if (!openKfId) return true;
+
+  const session = await getKfSessionState({ ...params, openKfId });
+  if (!session || !isHumanServiceState(session.serviceState)) {
+    return true;
+  }
+
+  try {
+    const result = await getKfServiceState(params.account, {
+      openKfId,
+      externalUserId: params.externalUserId,
+    });
+    if (result.errcode !== 0 || result.service_state === undefined) {
+      params.logger?.warn(
+        `service_state/get failed: ${result.errmsg || "empty service_state"} (errcode=${result.errcode})`
+      );
+      return false;
+    }
+    await recordSessionState({
+      account: params.account,
+      openKfId,
+      externalUserId: params.externalUserId,
+      serviceState: result.service_state,
+      servicerUserId: result.servicer_userid,
+    });
+    return !isHumanServiceState(result.service_state);
+  } catch (error) {
+    params.logger?.warn(`service_state/get failed: ${String(error)}`);
+    return false;
+  }
+}
+
+/**
+ * 将会话转给人工
+ *
+ * 指定接待人员时转为“由人工接待”，否则进入待接入池排队。
+ */
+export async function handoffToHuman(params: {
+  account: ResolvedWecomKfAccount;
+  openKfId?: string;
+  externalUserId: string;
+  servicerUserId?: string;
+  logger?: Logger;
+}): Promise<HandoffResult> {
+  const openKfId = resolveOpenKfId(params.account, params.openKfId);
+  if (!openKfId) {
+    return { ok: false, error: "open_kfid not configured" };
+  }
+
+  const servicerUserId =
+    params.servicerUserId?.trim() || params.account.config.handoff?.servicerUserId?.trim() || undefined;
+  const serviceState = servicerUserId ? SERVICE_STATE_HUMAN : SERVICE_STATE_QUEUE;
+
+  try {
+    const result = await transKfServiceState(params.account, {
+      openKfId,
+      externalUserId: params.externalUserId,
+      serviceState,
+      servicerUserId,
+    });
+    if (result.errcode !== 0) {
+      const error = `service_state/trans failed: ${result.errmsg || "unknown error"} (errcode=${result.errcode})`;
+      params.logger?.warn(error);
+      return { ok: false, error };
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    params.logger?.warn(`service_state/trans failed: ${message}`);
+    return { ok: false, error: message };
+  }
+
+  await recordSessionState({
+    account: params.account,
+    openKfId,
+    externalUserId: params.externalUserId,
+    serviceState,
+    servicerUserId,
+  });
+  params.logger?.info(
+    `handoff external_userid=${params.externalUserId} state=${serviceState}` +
+      (servicerUserId ? ` servicer=${servicerUserId}` : "")
+  );
+  return { ok: true, serviceState };
+}
+
+/**
+ * 根据 session_status_change 事件更新会话状态
+ *
+ * 接入 / 转接 / 重新接入后由人工接待；结束会话后回到机器人。
+ */
+export async function applySessionStatusChange(
+  account: ResolvedWecomKfAccount,
+  msg: SyncMsgEvent
+): Promise<WecomKfSessionState | undefined> {
+  const openKfId = resolveOpenKfId(account, msg.event?.open_kfid ?? msg.open_kfid);
+  const externalUserId = (msg.event?.external_userid ?? msg.external_userid ?? "").trim();
+  if (!openKfId || !externalUserId) return undefined;
+
+  if (msg.event?.change_type === CHANGE_TYPE_ENDED) {
+    return recordSessionState({ account, openKfId, externalUserId, serviceState: SERVICE_STATE_ENDED });
+  }
+
+  return recordSessionState({
+    account,
+    openKfId,
+    externalUserId,
+    serviceState: SERVICE_STATE_HUMAN,
+    servicerUserId: msg.event?.new_servicer_userid?.trim() || undefined,
+  });
+}
+
+/**
+ * 接待人员在企业微信客户端回复客户时，标记会话由人工接待
+ */
+export async function recordServicerMessage(
+  account: ResolvedWecomKfAccount,
+  msg: SyncMsgItem
+): Promise<boolean> {
+  const servicerUserId = msg.servicer_userid?.trim();
+  const externalUserId = msg.external_userid?.trim();
+  const openKfId = resolveOpenKfId(account, msg.open_kfid);
+  if (msg.origin !== ORIGIN_SERVICER || !servicerUserId || !externalUserId || !openKfId) {
+    return false;
+  }
+
+  await recordSessionState({
+    account,
+    openKfId,
+    externalUserId,
+    serviceState: SERVICE_STATE_HUMAN,
+    servicerUserId,
+  });
+  return true;
+}
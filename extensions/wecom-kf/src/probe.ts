@@ -1,5 +1,5 @@
 import { resolveWecomKfAccount } from "./config.js";
-import { getAccessToken } from "./api.js";
+import { getAccessToken, getAccessTokenStatus } from "./api.js";
 import { getAccountState } from "./state.js";
 import type { PluginConfig } from "./types.js";
 
@@ -14,6 +14,8 @@ export async function probeWecomKfAccount(params: {
   webhookPath?: string;
   hasCursor?: boolean;
   authOk: boolean;
+  /** 缓存的 access_token 过期时间 */
+  tokenExpiresAt?: number;
   error?: string;
 }> {
   const account = resolveWecomKfAccount({ cfg: params.cfg, accountId: params.accountId });
@@ -55,6 +57,7 @@ export async function probeWecomKfAccount(params: {
       webhookPath: account.config.webhookPath ?? "/wecom-kf",
       hasCursor: state.hasCursor,
       authOk: true,
+      tokenExpiresAt: getAccessTokenStatus(account).expiresAt,
     };
   } catch (error) {
     return {
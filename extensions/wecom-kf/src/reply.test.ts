@@ -0,0 +1,131 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { clearAllAccessTokenCache } from "./api.js";
+import { resolveKfMediaType, sendKfReply } from "./reply.js";
+import type { ResolvedWecomKfAccount } from "./types.js";
+
+let workDir = "";
+
+function createAccount(): ResolvedWecomKfAccount {
+  return {
+    accountId: "default",
+    enabled: true,
+    configured: true,
+    token: "callback-token",
+    encodingAESKey: "abcdefghijklmnopqrstuvwxyz0123456789ABCDEFG",
+    corpId: "ww-test-corp",
+    corpSecret: "kf-secret",
+    openKfId: "wk-test",
+    canSendActive: true,
+    config: {
+      corpId: "ww-test-corp",
+      corpSecret: "kf-secret",
+      openKfId: "wk-test",
+    },
+  };
+}
+
+function mockJsonResponse(payload: unknown): Response {
+  return {
+    ok: true,
+    status: 200,
+    statusText: "OK",
+    headers: new Headers({ "content-type": "application/json" }),
+    json: vi.fn().mockResolvedValue(payload),
+  } as unknown as Response;
+}
+
+function parseSendBody(call: unknown[] | undefined): Record<string, unknown> {
+  const init = call?.[1] as RequestInit | undefined;
+  return JSON.parse(String(init?.body ?? "{}")) as Record<string, unknown>;
+}
+
+beforeEach(async () => {
+  workDir = await mkdtemp(join(tmpdir(), "wecom-kf-reply-"));
+});
+
+afterEach(async () => {
+  clearAllAccessTokenCache();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  await rm(workDir, { recursive: true, force: true });
+});
+
+describe("wecom-kf outbound replies", () => {
+  it("maps files to the supported KF media types", () => {
+    expect(resolveKfMediaType("photo.PNG")).toBe("image");
+    expect(resolveKfMediaType("voice.amr")).toBe("voice");
+    expect(resolveKfMediaType("clip.mp4")).toBe("video");
+    expect(resolveKfMediaType("photo.gif", "image/gif")).toBe("file");
+    expect(resolveKfMediaType("report.pdf")).toBe("file");
+  });
+
+  it("uploads MEDIA: lines as temporary media and sends them after the text", async () => {
+    const imagePath = join(workDir, "chart.png");
+    await writeFile(imagePath, Buffer.from("fake-png"));
+
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, access_token: "token-a", expires_in: 7200 }))
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, msgid: "msg-text" }))
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, type: "image", media_id: "media-1" }))
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, msgid: "msg-image" }));
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+
+    const results = await sendKfReply({
+      account: createAccount(),
+      externalUserId: "wx-user-1",
+      text: `这是本月报表\nMEDIA: ${imagePath}`,
+    });
+
+    expect(results.map((r) => r.msgid)).toEqual(["msg-text", "msg-image"]);
+    expect(parseSendBody(fetchMock.mock.calls[1])).toMatchObject({
+      msgtype: "text",
+      text: { content: "这是本月报表" },
+    });
+    expect(String(fetchMock.mock.calls[2]?.[0])).toBe(
+      "https://qyapi.weixin.qq.com/cgi-bin/media/upload?access_token=token-a&type=image"
+    );
+    expect(parseSendBody(fetchMock.mock.calls[3])).toEqual({
+      touser: "wx-user-1",
+      open_kfid: "wk-test",
+      msgtype: "image",
+      image: { media_id: "media-1" },
+    });
+  });
+
+  it("sends menu blocks as msgmenu and falls back to text on failure", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, access_token: "token-a", expires_in: 7200 }))
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, msgid: "msg-menu" }))
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 95018, errmsg: "session state invalid" }))
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, msgid: "msg-fallback" }));
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+
+    const text = "```wecom-kf-menu\n请选择\n[查询订单](order)\n[退换货](refund)\n```";
+    const sent = await sendKfReply({ account: createAccount(), externalUserId: "wx-user-1", text });
+    expect(sent.map((r) => r.msgid)).toEqual(["msg-menu"]);
+    expect(parseSendBody(fetchMock.mock.calls[1])).toMatchObject({
+      msgtype: "msgmenu",
+      msgmenu: {
+        head_content: "请选择",
+        list: [
+          { type: "click", click: { id: "order", content: "查询订单" } },
+          { type: "click", click: { id: "refund", content: "退换货" } },
+        ],
+      },
+    });
+
+    const fallback = await sendKfReply({ account: createAccount(), externalUserId: "wx-user-1", text });
+    expect(fallback.map((r) => r.msgid)).toEqual(["msg-fallback"]);
+    expect(parseSendBody(fetchMock.mock.calls[3])).toMatchObject({
+      msgtype: "text",
+      text: { content: "请选择\n· 查询订单\n· 退换货" },
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import * as fs from "node:fs";
+import { extname } from "node:path";
+
+import { detectMediaType, extractMediaFromText, readMedia } from "@openclaw-china/shared";
+
+import {
+  sendKfLinkMessage,
+  sendKfMediaMessage,
+  sendKfMenuMessage,
+  sendKfTextMessage,
+  uploadKfMedia,
+  type KfMediaType,
+} from "./api.js";
+import {
+  extractKfReplyBlocks,
+  formatKfLinkFallbackText,
+  formatKfMenuFallbackText,
+} from "./blocks.js";
+import { resolveHandoffEnabled } from "./config.js";
+import { handoffToHuman } from "./handoff.js";
+import type { KfSendMsgResult, ResolvedWecomKfAccount } from "./types.js";
+
+/** 发送素材大小上限（文件 20MB） */
+const MAX_OUTBOUND_MEDIA_BYTES = 20 * 1024 * 1024;
+
+const IMAGE_EXTENSIONS = new Set([".jpg", ".jpeg", ".png"]);
+
+type Logger = {
+  info: (message: string) => void;
+  warn: (message: string) => void;
+};
+
+/**
+ * 根据文件名 / MIME 选择素材类型
+ *
+ * 微信客服图片仅支持 jpg/png、语音仅支持 amr、视频仅支持 mp4，其余格式按文件发送。
+ */
+export function resolveKfMediaType(fileName: string, mimeType?: string): KfMediaType {
+  const ext = extname(fileName.split("?")[0] ?? "").toLowerCase();
+  const mime = mimeType?.split(";")[0]?.trim().toLowerCase() ?? "";
+
+  if (IMAGE_EXTENSIONS.has(ext) || mime === "image/jpeg" || mime === "image/png") {
+    return "image";
+  }
+  if (ext === ".amr" || mime === "audio/amr") {
+    return "voice";
+  }
+  if (ext === ".mp4" || mime === "video/mp4") {
+    return "video";
+  }
+  if (!ext && !mime && detectMediaType(fileName) === "image") {
+    return "image";
+  }
+  return "file";
+}
+
+/**
+ * 读取本地路径或 URL，上传临时素材后发送
+ */
+export async function sendKfMediaFromSource(params: {
+  account: ResolvedWecomKfAccount;
+  externalUserId: string;
+  source: string;
+  mimeType?: string;
+  openKfId?: string;
+}): Promise<KfSendMsgResult> {
+  const media = await readMedia(params.source, { maxSize: MAX_OUTBOUND_MEDIA_BYTES });
+  const type = resolveKfMediaType(media.fileName, params.mimeType ?? media.mimeType);
+  const mediaId = await uploadKfMedia(params.account, {
+    type,
+    buffer: media.buffer,
+    filename: media.fileName,
+    contentType: params.mimeType ?? media.mimeType,
+  });
+  return sendKfMediaMessage({
+    account: params.account,
+    externalUserId: params.externalUserId,
+    msgtype: type,
+    mediaId,
+    openKfId: params.openKfId,
+  });
+}
+
+/**
+ * 从回复文本中提取行首 MEDIA: 指令、Markdown 图片和裸露的本地路径
+ */
+export function extractKfReplyMedia(params: { text: string; logger?: Logger }): {
+  text: string;
+  mediaUrls: string[];
+} {
+  const result = extractMediaFromText(params.text, {
+    removeFromText: true,
+    checkExists: true,
+    existsSync: (p: string) => {
+      const exists = fs.existsSync(p);
+      if (!exists) {
+        params.logger?.warn(`local media not found: ${p}`);
+      }
+      return exists;
+    },
+    parseMediaLines: true,
+    parseMarkdownImages: true,
+    parseHtmlImages: false,
+    parseBarePaths: true,
+    parseMarkdownLinks: false,
+  });
+
+  const mediaUrls = result.all
+    .map((m) => (m.isLocal ? m.localPath ?? m.source : m.source))
+    .filter((m): m is string => typeof m === "string" && m.trim().length > 0);
+
+  return { text: result.text, mediaUrls };
+}
+
+function toFailedResult(error: unknown): KfSendMsgResult {
+  return { errcode: -1, errmsg: error instanceof Error ? error.message : String(error) };
+}
+
+/**
+ * 发送 Agent 回复
+ *
+ * 依次发送: 文本 → 媒体（MEDIA: / 本地路径 / payload.mediaUrls）→ 图文链接 → 菜单，最后处理转人工。
+ * 图文链接与菜单发送失败时回退为纯文本。
+ */
+export async function sendKfReply(params: {
+  account: ResolvedWecomKfAccount;
+  externalUserId: string;
+  text: string;
+  mediaUrls?: string[];
+  openKfId?: string;
+  logger?: Logger;
+}): Promise<KfSendMsgResult[]> {
+  const { account, externalUserId, openKfId, logger } = params;
+  const blocks = extractKfReplyBlocks(params.text);
+  const extracted = extractKfReplyMedia({ text: blocks.text, logger });
+  const mediaUrls = [...new Set([...extracted.mediaUrls, ...(params.mediaUrls ?? [])])];
+  const results: KfSendMsgResult[] = [];
+
+  const sendText = async (text: string): Promise<void> => {
+    if (!text.trim()) return;
+    results.push(...(await sendKfTextMessage({ account, externalUserId, text, openKfId })));
+  };
+
+  await sendText(extracted.text);
+
+  for (const source of mediaUrls) {
+    try {
+      results.push(await sendKfMediaFromSource({ account, externalUserId, source, openKfId }));
+    } catch (error) {
+      logger?.warn(`send media failed source=${source}: ${String(error)}`);
+      results.push(toFailedResult(error));
+    }
+  }
+
+  if (blocks.link) {
+    const link = blocks.link;
+    try {
+      const thumb = await readMedia(link.thumb, { maxSize: MAX_OUTBOUND_MEDIA_BYTES });
+      const thumbMediaId = await uploadKfMedia(account, {
+        type: "image",
+        buffer: thumb.buffer,
+        filename: thumb.fileName,
+        contentType: thumb.mimeType,
+      });
+      const result = await sendKfLinkMessage({
+        account,
+        externalUserId,
+        openKfId,
+        link: { title: link.title, desc: link.desc, url: link.url, thumbMediaId },
+      });
+      if (result.errcode !== 0) {
+        throw new Error(result.errmsg || `errcode=${result.errcode}`);
+      }
+      results.push(result);
+    } catch (error) {
+      logger?.warn(`send link card failed, fallback to text: ${String(error)}`);
+      await sendText(formatKfLinkFallbackText(link));
+    }
+  }
+
+  if (blocks.menu) {
+    const menu = blocks.menu;
+    try {
+      const result = await sendKfMenuMessage({ account, externalUserId, openKfId, menu });
+      if (result.errcode !== 0) {
+        throw new Error(result.errmsg || `errcode=${result.errcode}`);
+      }
+      results.push(result);
+    } catch (error) {
+      logger?.warn(`send msgmenu failed, fallback to text: ${String(error)}`);
+      await sendText(formatKfMenuFallbackText(menu));
+    }
+  }
+
+  // 转人工后无法再通过 API 发送消息，因此放在最后
+  if (blocks.handoff && resolveHandoffEnabled(account.config)) {
+    await handoffToHuman({
+      account,
+      openKfId,
+      externalUserId,
+      servicerUserId: blocks.handoff.servicerUserId,
+      logger,
+    });
+  }
+
+  return results;
+}
@@ -1,78 +1,45 @@
-import { mkdir, readFile, writeFile } from "node:fs/promises";
 import { homedir } from "node:os";
-import { dirname, join } from "node:path";
+import { join } from "node:path";
 
-import type { WecomKfAccountState, WecomKfPersistedState } from "./types.js";
+import { createJsonStateStore, createLogger, evictExpired, type JsonStateSchema } from "@openclaw-china/shared";
+
+import type { WecomKfAccountState, WecomKfPersistedState, WecomKfSessionState } from "./types.js";
 
 const DEDUP_TTL_MS = 10 * 60 * 1000;
+const logger = createLogger("wecom-kf");
+/** 会话状态保留时长（微信客服会话 48 小时无消息即结束） */
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
 const DEFAULT_STATE_FILE = join(homedir(), ".openclaw", "wecom-kf", "data", "state.json");
 
-let stateFilePath = DEFAULT_STATE_FILE;
-let cachedState: WecomKfPersistedState | null = null;
-let loadingState: Promise<WecomKfPersistedState> | null = null;
-let saveTimer: ReturnType<typeof setTimeout> | null = null;
-
-function createEmptyState(): WecomKfPersistedState {
-  return {
+const stateSchema: JsonStateSchema<WecomKfPersistedState> = {
+  version: 1,
+  create: () => ({
     version: 1,
     cursors: {},
     processedMsgIds: {},
     accounts: {},
-  };
-}
-
-function pruneState(state: WecomKfPersistedState): void {
-  const cutoff = Date.now() - DEDUP_TTL_MS;
-  for (const [msgid, timestamp] of Object.entries(state.processedMsgIds)) {
-    if (timestamp < cutoff) {
-      delete state.processedMsgIds[msgid];
-    }
-  }
-}
-
-async function saveState(): Promise<void> {
-  if (!cachedState) return;
-  pruneState(cachedState);
-  await mkdir(dirname(stateFilePath), { recursive: true });
-  await writeFile(stateFilePath, `${JSON.stringify(cachedState, null, 2)}\n`, "utf8");
-}
-
-function scheduleSave(): void {
-  if (saveTimer) return;
-  saveTimer = setTimeout(() => {
-    saveTimer = null;
-    saveState().catch(() => {
-      // Best-effort persistence.
-    });
-  }, 50);
-}
-
-async function loadState(): Promise<WecomKfPersistedState> {
-  if (cachedState) return cachedState;
-  if (loadingState) return loadingState;
-
-  loadingState = (async () => {
-    try {
-      const raw = await readFile(stateFilePath, "utf8");
-      const parsed = JSON.parse(raw) as Partial<WecomKfPersistedState>;
-      cachedState = {
-        version: 1,
-        cursors: parsed.cursors ?? {},
-        processedMsgIds: parsed.processedMsgIds ?? {},
-        accounts: parsed.accounts ?? {},
-      };
-    } catch {
-      cachedState = createEmptyState();
-    }
-    pruneState(cachedState);
-    return cachedState;
-  })();
-
-  try {
-    return await loadingState;
-  } finally {
-    loadingState = null;
-  }
+    sessions: {},
+  }),
+  migrate: (raw) => {
+    const parsed = (raw && typeof raw === "object" ? raw : {}) as Partial<WecomKfPersistedState>;
+    return {
+      version: 1,
+      cursors: parsed.cursors ?? {},
+      processedMsgIds: parsed.processedMsgIds ?? {},
+      accounts: parsed.accounts ?? {},
+      sessions: parsed.sessions ?? {},
+    };
+  },
+  prune: (state, now) => {
+    evictExpired(state.processedMsgIds, now - DEDUP_TTL_MS, (timestamp) => timestamp);
+    evictExpired(state.sessions, now - SESSION_TTL_MS, (session) => session.updatedAt);
+  },
+};
+
+const store = createJsonStateStore({ filePath: DEFAULT_STATE_FILE, schema: stateSchema, logger });
+
+function loadState(): Promise<WecomKfPersistedState> {
+  return store.load();
 }
 
 export async function getStoredCursor(key: string): Promise<string | undefined> {
@@ -81,9 +48,9 @@ export async function getStoredCursor(key: string): Promise<string | undefined>
 }
 
 export async function setStoredCursor(key: string, cursor: string): Promise<void> {
-  const state = await loadState();
-  state.cursors[key] = cursor;
-  scheduleSave();
+  await store.update((state) => {
+    state.cursors[key] = cursor;
+  });
 }
 
 export async function hasStoredCursor(key: string): Promise<boolean> {
@@ -93,14 +60,15 @@ export async function hasStoredCursor(key: string): Promise<boolean> {
 export async function markProcessedMessage(msgid: string): Promise<boolean> {
   const normalized = msgid.trim();
   if (!normalized) return false;
-  const state = await loadState();
-  pruneState(state);
-  if (state.processedMsgIds[normalized]) {
-    return false;
-  }
-  state.processedMsgIds[normalized] = Date.now();
-  scheduleSave();
-  return true;
+  const now = Date.now();
+  return store.updateLocked((state) => {
+    const processedAt = state.processedMsgIds[normalized];
+    if (processedAt !== undefined && processedAt >= now - DEDUP_TTL_MS) {
+      return false;
+    }
+    state.processedMsgIds[normalized] = now;
+    return true;
+  });
 }
 
 export async function getAccountState(accountId: string): Promise<WecomKfAccountState> {
@@ -112,28 +80,39 @@ export async function updateAccountState(
   accountId: string,
   patch: Partial<WecomKfAccountState>
 ): Promise<WecomKfAccountState> {
+  return store.update((state) => {
+    const next = { ...state.accounts[accountId], ...patch };
+    state.accounts[accountId] = next;
+    return next;
+  });
+}
+
+export function buildSessionStateKey(accountId: string, openKfId: string, externalUserId: string): string {
+  return `${accountId}:${openKfId}:${externalUserId}`;
+}
+
+export async function getSessionState(key: string): Promise<WecomKfSessionState | undefined> {
   const state = await loadState();
-  const current = state.accounts[accountId] ?? {};
-  const next = { ...current, ...patch };
-  state.accounts[accountId] = next;
-  scheduleSave();
+  const session = state.sessions[key];
+  return session ? { ...session } : undefined;
+}
+
+export async function setSessionState(
+  key: string,
+  session: Omit<WecomKfSessionState, "updatedAt">
+): Promise<WecomKfSessionState> {
+  const next: WecomKfSessionState = { ...session, updatedAt: Date.now() };
+  if (!next.servicerUserId) delete next.servicerUserId;
+  await store.update((state) => {
+    state.sessions[key] = { ...next };
+  });
   return next;
 }
 
 export async function flushWecomKfStateForTests(): Promise<void> {
-  if (saveTimer) {
-    clearTimeout(saveTimer);
-    saveTimer = null;
-  }
-  await saveState();
+  await store.flush();
 }
 
 export function setWecomKfStateFilePathForTests(nextPath?: string): void {
-  stateFilePath = nextPath?.trim() || DEFAULT_STATE_FILE;
-  cachedState = null;
-  loadingState = null;
-  if (saveTimer) {
-    clearTimeout(saveTimer);
-    saveTimer = null;
-  }
+  store.setFilePath(nextPath?.trim() || DEFAULT_STATE_FILE);
 }
@@ -15,6 +15,41 @@ export type WecomKfAccountConfig = {
   welcomeText?: string;
   dmPolicy?: WecomKfDmPolicy;
   allowFrom?: string[];
+  /** 入站媒体（图片/语音/视频/文件）落盘设置 */
+  inboundMedia?: {
+    enabled?: boolean;
+    dir?: string;
+    maxBytes?: number;
+    keepDays?: number;
+  };
+  /** 语音转写（腾讯云录音文件识别极速版） */
+  asr?: {
+    enabled?: boolean;
+    appId?: string;
+    secretId?: string;
+    secretKey?: string;
+    engineType?: string;
+    timeoutMs?: number;
+  };
+  /** 转人工（会话状态 service_state） */
+  handoff?: {
+    /** 是否允许转人工（关键词与 Agent 指令），默认 false */
+    enabled?: boolean;
+    /** 客户消息命中关键词时转人工，默认 ["转人工", "人工客服"] */
+    keywords?: string[];
+    /** 指定接待人员 userid；未配置时进入待接入池排队 */
+    servicerUserId?: string;
+    /** 转人工前发送给客户的提示 */
+    noticeText?: string;
+  };
+};
+
+export type WecomKfASRCredentials = {
+  appId: string;
+  secretId: string;
+  secretKey: string;
+  engineType?: string;
+  timeoutMs?: number;
 };
 
 export type WecomKfConfig = WecomKfAccountConfig & {
@@ -65,6 +100,48 @@ export type SyncMsgText = SyncMsgItemBase & {
   text: { content: string; menu_id?: string };
 };
 
+export type SyncMsgImage = SyncMsgItemBase & {
+  msgtype: "image";
+  image: { media_id: string };
+};
+
+export type SyncMsgVoice = SyncMsgItemBase & {
+  msgtype: "voice";
+  voice: { media_id: string };
+};
+
+export type SyncMsgVideo = SyncMsgItemBase & {
+  msgtype: "video";
+  video: { media_id: string };
+};
+
+export type SyncMsgFile = SyncMsgItemBase & {
+  msgtype: "file";
+  file: { media_id: string };
+};
+
+export type SyncMsgLocation = SyncMsgItemBase & {
+  msgtype: "location";
+  location: { latitude?: number; longitude?: number; name?: string; address?: string };
+};
+
+export type SyncMsgLink = SyncMsgItemBase & {
+  msgtype: "link";
+  link: { title?: string; desc?: string; url?: string; pic_url?: string };
+};
+
+export type SyncMsgBusinessCard = SyncMsgItemBase & {
+  msgtype: "business_card";
+  business_card: { userid?: string };
+};
+
+export type SyncMsgMiniprogram = SyncMsgItemBase & {
+  msgtype: "miniprogram";
+  miniprogram: { title?: string; appid?: string; pagepath?: string; thumb_media_id?: string };
+};
+
+export type SyncMsgMedia = SyncMsgImage | SyncMsgVoice | SyncMsgVideo | SyncMsgFile;
+
 export type SyncMsgEvent = SyncMsgItemBase & {
   msgtype: "event";
   event: {
@@ -77,11 +154,21 @@ export type SyncMsgEvent = SyncMsgItemBase & {
     fail_msgid?: string;
     fail_type?: number;
     recall_msgid?: string;
+    /** session_status_change: 1 从接待池接入 / 2 转接 / 3 结束 / 4 重新接入 */
+    change_type?: number;
+    old_servicer_userid?: string;
+    new_servicer_userid?: string;
+    msg_code?: string;
   };
 };
 
 export type SyncMsgItem =
   | SyncMsgText
+  | SyncMsgMedia
+  | SyncMsgLocation
+  | SyncMsgLink
+  | SyncMsgBusinessCard
+  | SyncMsgMiniprogram
   | SyncMsgEvent
   | (SyncMsgItemBase & {
       msgtype: string;
@@ -125,11 +212,26 @@ export type WecomKfAccountState = {
   lastError?: string;
 };
 
+/**
+ * 会话状态
+ *
+ * 0 未处理 / 1 由智能助手接待 / 2 待接入池排队中 / 3 由人工接待 / 4 已结束或未开始
+ */
+export type WecomKfServiceState = 0 | 1 | 2 | 3 | 4;
+
+export type WecomKfSessionState = {
+  serviceState: WecomKfServiceState;
+  servicerUserId?: string;
+  updatedAt: number;
+};
+
 export type WecomKfPersistedState = {
   version: 1;
   cursors: Record<string, string>;
   processedMsgIds: Record<string, number>;
   accounts: Record<string, WecomKfAccountState>;
+  /** 按 accountId:openKfId:externalUserId 记录的会话状态 */
+  sessions: Record<string, WecomKfSessionState>;
 };
 
 export type WebhookTarget = {
@@ -165,7 +267,7 @@ export interface PluginRuntime {
         ctx: unknown;
         cfg: unknown;
         dispatcherOptions: {
-          deliver: (payload: { text?: string }) => Promise<void>;
+          deliver: (payload: { text?: string; mediaUrl?: string; mediaUrls?: string[] }) => Promise<void>;
           onError?: (err: unknown, info: { kind: string }) => void;
         };
       }) => Promise<void>;
@@ -3,6 +3,7 @@ import type { IncomingMessage, ServerResponse } from "http";
 import { syncMessages, sendKfWelcomeMessage } from "./api.js";
 import { decryptWecomEncrypted, verifyWecomSignature } from "./crypto.js";
 import { dispatchKfMessage } from "./dispatch.js";
+import { applySessionStatusChange, recordServicerMessage } from "./handoff.js";
 import { tryGetWecomKfRuntime } from "./runtime.js";
 import {
   getStoredCursor,
@@ -125,6 +126,17 @@ async function handleEventMessage(
     return;
   }
 
+  if (eventType === "session_status_change") {
+    const session = await applySessionStatusChange(account, msg);
+    if (session) {
+      logger.info(
+        `session_status_change external_userid=${msg.event?.external_userid ?? msg.external_userid} ` +
+          `change_type=${String(msg.event?.change_type ?? "unknown")} state=${session.serviceState}`
+      );
+    }
+    return;
+  }
+
   if (eventType === "msg_send_fail") {
     const message = `msg_send_fail: ${msg.event?.fail_msgid ?? "unknown"} type=${String(
       msg.event?.fail_type ?? "unknown"
@@ -193,6 +205,10 @@ async function pullAndDispatchMessages(params: {
           continue;
         }
 
+        if (await recordServicerMessage(account, msg)) {
+          continue;
+        }
+
         if (!runtime) {
           logger.warn(`runtime unavailable, skip msgid=${msg.msgid}`);
           continue;
@@ -1,6 +1,7 @@
 import { describe, expect, it, vi } from "vitest";
 
 vi.mock("@openclaw-china/shared", () => ({
+  createGroupHistoryBuffer: vi.fn(),
   registerChinaSetupCli: vi.fn(),
   showChinaInstallHint: vi.fn(),
 }));
@@ -6,12 +6,17 @@
 
 import {
   checkDmPolicy,
+  buildGroupHistoryKey,
   checkGroupPolicy,
+  createGroupHistoryBuffer,
   createLogger,
   extractMediaFromText,
   normalizeLocalPath,
   type Logger,
+  prependGroupHistory,
   resolveExtension,
+  resolveGroupHistoryLimit,
+  resolvePairingChallenge,
 } from "@openclaw-china/shared";
 
 import type { PluginRuntime } from "./runtime.js";
@@ -22,6 +27,7 @@ import * as os from "os";
 import * as fsPromises from "fs/promises";
 import * as fs from "fs";
 import {
+  DEFAULT_WECOM_HISTORY_LIMIT,
   resolveAllowFrom,
   resolveGroupAllowFrom,
   resolveGroupPolicy,
@@ -37,6 +43,9 @@ import {
 import { buildWecomNativeReplyImageItem, WECOM_REPLY_MSG_ITEM_LIMIT, type WecomReplyMsgItem } from "./ws-media.js";
 import { consumeWecomWsPendingAutoImagePaths, registerWecomWsPendingAutoImagePaths } from "./ws-reply-context.js";
 
+/** 群聊中未 @ 机器人的最近消息，被 @ 时作为上下文注入 */
+const groupHistory = createGroupHistoryBuffer();
+
 export type WecomDispatchHooks = {
   onAccepted?: () => void;
   onRouteContext?: (context: { sessionKey?: string; runId?: string }) => void;
@@ -401,28 +410,50 @@ export async function dispatchWecomMessage(params: {
       groupAllowFrom,
       requireMention,
       mentionedBot: resolveMentionedBot(msg),
+      senderId,
+      denyFrom: accountConfig.denyFrom,
+      groups: accountConfig.groups,
     });
 
     if (!policyResult.allowed) {
-      logger.debug(`policy rejected: ${policyResult.reason}`);
+      logger.debug(`policy rejected: ${policyResult.code} ${policyResult.reason}`);
+      if (policyResult.code === "mention_required") {
+        groupHistory.record(
+          buildGroupHistoryKey(account.accountId, chatId),
+          {
+            senderId,
+            body: extractWecomContent(msg),
+            timestamp: Date.now(),
+            messageId: msg.msgid,
+          },
+          resolveGroupHistoryLimit(accountConfig.historyLimit, DEFAULT_WECOM_HISTORY_LIMIT)
+        );
+      }
       return;
     }
   } else {
     const dmPolicyRaw: WecomDmPolicy = accountConfig.dmPolicy ?? "pairing";
-    if (dmPolicyRaw === "disabled") {
-      logger.debug("dmPolicy=disabled, skipping dispatch");
-      return;
-    }
-
     const allowFrom = resolveAllowFrom(accountConfig);
     const policyResult = checkDmPolicy({
       dmPolicy: dmPolicyRaw,
       senderId,
       allowFrom,
+      denyFrom: accountConfig.denyFrom,
+      pairing: { channel: "wecom", accountId: account.accountId },
     });
 
     if (!policyResult.allowed) {
-      logger.debug(`policy rejected: ${policyResult.reason}`);
+      logger.debug(`policy rejected: ${policyResult.code} ${policyResult.reason}`);
+      if (policyResult.pairingRequired) {
+        const challenge = resolvePairingChallenge({
+          channel: "wecom",
+          accountId: account.accountId,
+          senderId,
+        });
+        if (challenge) {
+          await hooks.onChunk(challenge);
+        }
+      }
       return;
     }
   }
@@ -454,6 +485,8 @@ export async function dispatchWecomMessage(params: {
   });
 
   const rawBody = mediaResult.text;
+  const historyEntries =
+    chatType === "group" ? groupHistory.consume(buildGroupHistoryKey(account.accountId, chatId)) : [];
   const fromLabel = chatType === "group" ? `group:${chatId}` : `user:${senderId}`;
 
   try {
@@ -478,9 +511,9 @@ export async function dispatchWecomMessage(params: {
           from: fromLabel,
           previousTimestamp,
           envelope: envelopeOptions,
-          body: rawBody,
+          body: prependGroupHistory(rawBody, historyEntries),
         })
-      : rawBody;
+      : prependGroupHistory(rawBody, historyEntries);
 
     const from = chatType === "group" ? `wecom:group:${chatId}` : `wecom:user:${senderId}`;
 
@@ -17,6 +17,14 @@ export const DEFAULT_WECOM_WS_URL = "wss://openws.work.weixin.qq.com";
 export const DEFAULT_WECOM_WS_HEARTBEAT_MS = 30_000;
 export const DEFAULT_WECOM_WS_RECONNECT_INITIAL_MS = 1_000;
 export const DEFAULT_WECOM_WS_RECONNECT_MAX_MS = 30_000;
+export const DEFAULT_WECOM_HISTORY_LIMIT = 10;
+
+const WecomGroupOverrideSchema = z.object({
+  enabled: z.boolean().optional(),
+  requireMention: z.boolean().optional(),
+  allowFrom: z.array(z.string()).optional(),
+  denyFrom: z.array(z.string()).optional(),
+});
 
 const WecomAccountSchema = z.object({
   name: z.string().optional(),
@@ -40,6 +48,9 @@ const WecomAccountSchema = z.object({
   groupPolicy: z.enum(["open", "allowlist", "disabled"]).optional(),
   groupAllowFrom: z.array(z.string()).optional(),
   requireMention: z.boolean().optional(),
+  historyLimit: z.number().int().min(0).optional(),
+  denyFrom: z.array(z.string()).optional(),
+  groups: z.record(WecomGroupOverrideSchema).optional(),
 });
 
 export const WecomConfigSchema = WecomAccountSchema.extend({
@@ -74,7 +85,22 @@ export const WecomConfigJsonSchema = {
       allowFrom: { type: "array", items: { type: "string" } },
       groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
       groupAllowFrom: { type: "array", items: { type: "string" } },
+      denyFrom: { type: "array", items: { type: "string" } },
+      groups: {
+        type: "object",
+        additionalProperties: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            enabled: { type: "boolean" },
+            requireMention: { type: "boolean" },
+            allowFrom: { type: "array", items: { type: "string" } },
+            denyFrom: { type: "array", items: { type: "string" } },
+          },
+        },
+      },
       requireMention: { type: "boolean" },
+      historyLimit: { type: "integer", minimum: 0 },
       defaultAccount: { type: "string" },
       accounts: {
         type: "object",
@@ -102,7 +128,22 @@ export const WecomConfigJsonSchema = {
             allowFrom: { type: "array", items: { type: "string" } },
             groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
             groupAllowFrom: { type: "array", items: { type: "string" } },
-            requireMention: { type: "boolean" }
+            denyFrom: { type: "array", items: { type: "string" } },
+            groups: {
+              type: "object",
+              additionalProperties: {
+                type: "object",
+                additionalProperties: false,
+                properties: {
+                  enabled: { type: "boolean" },
+                  requireMention: { type: "boolean" },
+                  allowFrom: { type: "array", items: { type: "string" } },
+                  denyFrom: { type: "array", items: { type: "string" } },
+                },
+              },
+            },
+            requireMention: { type: "boolean" },
+            historyLimit: { type: "integer", minimum: 0 }
           }
         }
       }
@@ -1,7 +1,7 @@
 import type { IncomingMessage, ServerResponse } from "node:http";
 import crypto from "node:crypto";
 
-import { createLogger, type Logger } from "@openclaw-china/shared";
+import { buildWxBizJsonEnvelope, createLogger, type Logger } from "@openclaw-china/shared";
 
 import type { ResolvedWecomAccount, WecomInboundMessage } from "./types.js";
 import type { PluginConfig } from "./config.js";
@@ -378,12 +378,12 @@ function buildEncryptedJsonReply(params: {
     nonce: params.nonce,
     encrypt,
   });
-  return {
+  return buildWxBizJsonEnvelope({
     encrypt,
-    msgsignature,
+    signature: msgsignature,
     timestamp: params.timestamp,
     nonce: params.nonce,
-  };
+  });
 }
 
 function resolveQueryParams(req: IncomingMessage): URLSearchParams {
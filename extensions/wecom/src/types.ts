@@ -1,3 +1,5 @@
+import type { GroupPolicyOverride } from "@openclaw-china/shared";
+
 export type WecomDmPolicy = "open" | "pairing" | "allowlist" | "disabled";
 export type WecomGroupPolicy = "open" | "allowlist" | "disabled";
 export type WecomTransportMode = "webhook" | "ws";
@@ -29,6 +31,12 @@ export type WecomAccountConfig = {
   groupPolicy?: WecomGroupPolicy;
   groupAllowFrom?: string[];
   requireMention?: boolean;
+  /** 群聊历史消息条数（未 @ 机器人的消息，被 @ 时作为上下文注入），默认 10，0 为关闭 */
+  historyLimit?: number;
+  /** 发送者黑名单（支持 "*" 与前缀通配） */
+  denyFrom?: string[];
+  /** 按群覆盖，key 为群 ID、前缀通配或 "*" */
+  groups?: Record<string, GroupPolicyOverride>;
 };
 
 export type WecomConfig = WecomAccountConfig & {
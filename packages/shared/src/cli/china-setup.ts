@@ -12,6 +12,12 @@ import { existsSync } from "node:fs";
 import { homedir } from "node:os";
 import { join } from "node:path";
 import { stdin as input, stdout as output } from "node:process";
+import {
+  approvePairingCode,
+  listPairedSenders,
+  listPendingPairingRequests,
+  revokePairedSender,
+} from "../pairing/store.js";
 
 type LoggerLike = {
   info?: (message: string) => void;
@@ -22,7 +28,7 @@ type LoggerLike = {
 type CommandLike = {
   command: (name: string) => CommandLike;
   description: (text: string) => CommandLike;
-  action: (handler: () => void | Promise<void>) => CommandLike;
+  action: (handler: (...args: unknown[]) => void | Promise<void>) => CommandLike;
 };
 
 type ChinaCliContext = {
@@ -963,6 +969,48 @@ async function runChinaSetup(params: {
   }
 }
 
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString();
+}
+
+function runPairingList(logger: LoggerLike, channel?: string): void {
+  const pending = listPendingPairingRequests({ channel });
+  const paired = listPairedSenders({ channel });
+  const lines: string[] = [];
+
+  lines.push(`待批准（${pending.length}）：`);
+  for (const entry of pending) {
+    lines.push(
+      `  ${entry.code}  ${entry.channel}/${entry.accountId}  ${entry.senderId}  过期于 ${formatTime(entry.expiresAt)}`
+    );
+  }
+  lines.push(`已配对（${paired.length}）：`);
+  for (const entry of paired) {
+    lines.push(`  ${entry.channel}/${entry.accountId}  ${entry.senderId}  批准于 ${formatTime(entry.approvedAt)}`);
+  }
+  logger.info?.(lines.join("\n"));
+}
+
+function runPairingApprove(logger: LoggerLike, code: string): void {
+  const approved = approvePairingCode({ code });
+  if (!approved) {
+    logger.error?.(`配对码 ${code.trim().toUpperCase()} 不存在或已过期。`);
+    return;
+  }
+  logger.info?.(`已批准 ${approved.channel}/${approved.accountId} 的发送者 ${approved.senderId}。`);
+}
+
+function runPairingRevoke(
+  logger: LoggerLike,
+  params: { channel: string; senderId: string; accountId?: string }
+): void {
+  if (revokePairedSender(params)) {
+    logger.info?.(`已撤销 ${params.channel}/${params.accountId ?? "default"} 的发送者 ${params.senderId}。`);
+    return;
+  }
+  logger.warn?.(`${params.channel}/${params.accountId ?? "default"} 中没有已配对的发送者 ${params.senderId}。`);
+}
+
 export function registerChinaSetupCli(api: ApiLike, opts?: RegisterChinaSetupCliOptions): void {
   const state = getChinaCliState();
   for (const channelId of normalizeChannels(opts?.channels)) {
@@ -1005,6 +1053,36 @@ export function registerChinaSetupCli(api: ApiLike, opts?: RegisterChinaSetupCli
           });
         });
 
+      const pairing = root.command("pairing").description("管理单聊配对（dmPolicy=pairing）");
+
+      pairing
+        .command("list [channel]")
+        .description("列出待批准的配对码和已配对的发送者")
+        .action((channel) => {
+          const logger = ctx.logger ?? api.logger ?? fallbackLogger;
+          runPairingList(logger, typeof channel === "string" ? channel : undefined);
+        });
+
+      pairing
+        .command("approve <code>")
+        .description("批准配对码")
+        .action((code) => {
+          const logger = ctx.logger ?? api.logger ?? fallbackLogger;
+          runPairingApprove(logger, String(code ?? ""));
+        });
+
+      pairing
+        .command("revoke <channel> <senderId> [accountId]")
+        .description("撤销已配对的发送者")
+        .action((channel, senderId, accountId) => {
+          const logger = ctx.logger ?? api.logger ?? fallbackLogger;
+          runPairingRevoke(logger, {
+            channel: String(channel ?? ""),
+            senderId: String(senderId ?? ""),
+            accountId: typeof accountId === "string" ? accountId : undefined,
+          });
+        });
+
       root.command("about").description("显示项目信息").action(() => {
         const installed = getInstalledChannels(state);
         clackIntro("OpenClaw China 渠道插件");
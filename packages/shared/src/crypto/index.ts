@@ -0,0 +1,7 @@
+/**
+ * 微信 / 企业微信消息加解密模块
+ *
+ * @module @openclaw-china/shared/crypto
+ */
+
+export * from "./wxbizmsgcrypt.js";
@@ -0,0 +1,154 @@
+import crypto from "node:crypto";
+
+import { describe, expect, it } from "vitest";
+
+import {
+  WXBIZ_PKCS7_BLOCK_SIZE,
+  WxBizMsgCryptError,
+  buildWxBizJsonEnvelope,
+  buildWxBizXmlEnvelope,
+  computeWxBizSignature,
+  decodeEncodingAESKey,
+  decryptWxBizMessage,
+  encryptAndSignWxBizMessage,
+  encryptWxBizMessage,
+  pkcs7Pad,
+  pkcs7Unpad,
+  timingSafeEqualString,
+  verifyWxBizSignature,
+} from "./wxbizmsgcrypt.js";
+
+/** 企业微信官方文档中的回调 URL 验证示例 */
+const OFFICIAL_VECTOR = {
+  token: "QDG6eK",
+  receiveId: "wx5823bf96d3bd56c7",
+  encodingAESKey: "jWmYm7qr5nMoAUwZRjGtBxmz3KA1tkAj3ykkR6q2B2C",
+  timestamp: "1409659589",
+  nonce: "263014780",
+  msgSignature: "5c45ff5e21c57e6ad56bac8758b79b1d9ac89fd3",
+  echostr: "P9nAzCzyDtyTWESHep1vC5X9xho/qYX3Zpb4yKa9SKld1DsH3Iyt3tP3zNdtp+4RPcs8TgAE7OaBO+FZXvnaqQ==",
+  plaintext: "1616140317555161061",
+};
+
+const PROPERTY_RUNS = 200;
+
+function randomEncodingAESKey(): string {
+  return crypto.randomBytes(32).toString("base64").replace(/=+$/, "");
+}
+
+function randomText(maxLength: number): string {
+  const alphabet = "abcXYZ019 <>&\"'\n中文测试🙂";
+  const chars = Array.from(alphabet);
+  const length = crypto.randomInt(0, maxLength + 1);
+  let text = "";
+  for (let i = 0; i < length; i += 1) {
+    text += chars[crypto.randomInt(0, chars.length)];
+  }
+  return text;
+}
+
+describe("wxbizmsgcrypt", () => {
+  it("matches the official callback verification vector", () => {
+    expect(computeWxBizSignature({ ...OFFICIAL_VECTOR, encrypt: OFFICIAL_VECTOR.echostr })).toBe(
+      OFFICIAL_VECTOR.msgSignature
+    );
+    expect(
+      verifyWxBizSignature({
+        ...OFFICIAL_VECTOR,
+        encrypt: OFFICIAL_VECTOR.echostr,
+        signature: OFFICIAL_VECTOR.msgSignature.toUpperCase(),
+      })
+    ).toBe(true);
+
+    expect(
+      decryptWxBizMessage({
+        encodingAESKey: OFFICIAL_VECTOR.encodingAESKey,
+        encrypt: OFFICIAL_VECTOR.echostr,
+        receiveId: OFFICIAL_VECTOR.receiveId,
+      })
+    ).toEqual({ plaintext: OFFICIAL_VECTOR.plaintext, receiveId: OFFICIAL_VECTOR.receiveId });
+  });
+
+  it("re-encrypts the official vector byte for byte with the same random prefix", () => {
+    const aesKey = decodeEncodingAESKey(OFFICIAL_VECTOR.encodingAESKey);
+    const decipher = crypto.createDecipheriv("aes-256-cbc", aesKey, aesKey.subarray(0, 16));
+    decipher.setAutoPadding(false);
+    const raw = Buffer.concat([decipher.update(Buffer.from(OFFICIAL_VECTOR.echostr, "base64")), decipher.final()]);
+
+    expect(
+      encryptWxBizMessage({
+        encodingAESKey: OFFICIAL_VECTOR.encodingAESKey,
+        plaintext: OFFICIAL_VECTOR.plaintext,
+        receiveId: OFFICIAL_VECTOR.receiveId,
+        random: raw.subarray(0, 16),
+      })
+    ).toBe(OFFICIAL_VECTOR.echostr);
+  });
+
+  it("round-trips random messages, keys and receiveIds", () => {
+    for (let run = 0; run < PROPERTY_RUNS; run += 1) {
+      const encodingAESKey = randomEncodingAESKey();
+      const plaintext = randomText(300);
+      const receiveId = randomText(20).replace(/\s/g, "");
+      const encrypt = encryptWxBizMessage({ encodingAESKey, plaintext, receiveId });
+
+      expect(Buffer.from(encrypt, "base64").length % WXBIZ_PKCS7_BLOCK_SIZE).toBe(0);
+      expect(decryptWxBizMessage({ encodingAESKey, encrypt, receiveId })).toEqual({ plaintext, receiveId });
+    }
+  });
+
+  it("pads every length to a whole block and unpads back", () => {
+    for (let length = 0; length <= WXBIZ_PKCS7_BLOCK_SIZE * 2; length += 1) {
+      const buf = crypto.randomBytes(length);
+      const padded = pkcs7Pad(buf);
+      expect(padded.length % WXBIZ_PKCS7_BLOCK_SIZE).toBe(0);
+      expect(padded.length).toBeGreaterThan(length);
+      expect(pkcs7Unpad(padded).equals(buf)).toBe(true);
+    }
+    expect(() => pkcs7Unpad(Buffer.from([1, 2, 3, 0]))).toThrow(WxBizMsgCryptError);
+    expect(() => pkcs7Unpad(Buffer.from([1, 2, 3, 2]))).toThrow("invalid pkcs7 padding");
+  });
+
+  it("rejects mismatched receiveIds, bad keys and tampered signatures", () => {
+    const encodingAESKey = randomEncodingAESKey();
+    const encrypt = encryptWxBizMessage({ encodingAESKey, plaintext: "hello", receiveId: "corp-a" });
+
+    try {
+      decryptWxBizMessage({ encodingAESKey, encrypt, receiveId: "corp-b" });
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(WxBizMsgCryptError);
+      expect((err as WxBizMsgCryptError).kind).toBe("receive_id_mismatch");
+    }
+    expect(() => decodeEncodingAESKey("too-short")).toThrow("invalid encodingAESKey");
+
+    const signed = encryptAndSignWxBizMessage({ token: "token", encodingAESKey, plaintext: "hello" });
+    expect(verifyWxBizSignature({ token: "token", ...signed })).toBe(true);
+    const tampered = signed.signature.replace(/.$/, (c) => (c === "0" ? "1" : "0"));
+    expect(verifyWxBizSignature({ token: "token", ...signed, signature: tampered })).toBe(false);
+    expect(verifyWxBizSignature({ token: "other", ...signed })).toBe(false);
+    expect(verifyWxBizSignature({ token: "token", ...signed, signature: "" })).toBe(false);
+  });
+
+  it("signs without encrypt for plain-mode URL verification", () => {
+    const expected = crypto.createHash("sha1").update(["token", "1710000000", "nonce"].sort().join("")).digest("hex");
+    expect(computeWxBizSignature({ token: "token", timestamp: "1710000000", nonce: "nonce" })).toBe(expected);
+  });
+
+  it("compares strings in constant time", () => {
+    expect(timingSafeEqualString("abc", "abc")).toBe(true);
+    expect(timingSafeEqualString("abc", "abd")).toBe(false);
+    expect(timingSafeEqualString("abc", "abcd")).toBe(false);
+  });
+
+  it("builds XML and JSON envelopes", () => {
+    const fields = { encrypt: "ENC", signature: "SIG", timestamp: "1710000000", nonce: "N" };
+    expect(buildWxBizXmlEnvelope(fields)).toContain("<MsgSignature><![CDATA[SIG]]></MsgSignature>");
+    expect(buildWxBizJsonEnvelope(fields)).toEqual({
+      encrypt: "ENC",
+      msgsignature: "SIG",
+      timestamp: "1710000000",
+      nonce: "N",
+    });
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * 微信 / 企业微信消息加解密（WXBizMsgCrypt）
+ *
+ * 企业微信智能机器人、自建应用、微信客服与微信公众号安全模式共用同一套方案:
+ * - 签名: sha1(sort(token, timestamp, nonce[, encrypt]).join(""))
+ * - 密钥: EncodingAESKey（43 位）base64 解码后的 32 字节，IV 取前 16 字节
+ * - 明文: random(16) + msgLen(4, 大端) + msg + receiveId，PKCS#7 按 32 字节填充后 AES-256-CBC 加密
+ *
+ * receiveId 在企业微信中为 CorpID / 机器人为空，在公众号中为 AppID。
+ *
+ * 文档: https://developer.work.weixin.qq.com/document/path/90968
+ *
+ * @module @openclaw-china/shared/crypto
+ */
+
+import crypto from "node:crypto";
+
+/** PKCS#7 填充块大小（WXBizMsgCrypt 固定为 32） */
+export const WXBIZ_PKCS7_BLOCK_SIZE = 32;
+
+const AES_KEY_BYTES = 32;
+const IV_BYTES = 16;
+const RANDOM_BYTES = 16;
+/** random(16) + msgLen(4) */
+const HEADER_BYTES = RANDOM_BYTES + 4;
+
+export type WxBizMsgCryptErrorKind =
+  | "invalid_aes_key"
+  | "invalid_padding"
+  | "invalid_payload"
+  | "decrypt_failed"
+  | "receive_id_mismatch";
+
+export class WxBizMsgCryptError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: WxBizMsgCryptErrorKind
+  ) {
+    super(message);
+    this.name = "WxBizMsgCryptError";
+  }
+}
+
+/**
+ * 解码 EncodingAESKey（补齐 base64 末尾的 "="）
+ * @throws WxBizMsgCryptError 解码后不是 32 字节
+ */
+export function decodeEncodingAESKey(encodingAESKey: string): Buffer {
+  const trimmed = String(encodingAESKey ?? "").trim();
+  if (!trimmed) {
+    throw new WxBizMsgCryptError("encodingAESKey missing", "invalid_aes_key");
+  }
+  const withPadding = trimmed.endsWith("=") ? trimmed : `${trimmed}=`;
+  const key = Buffer.from(withPadding, "base64");
+  if (key.length !== AES_KEY_BYTES) {
+    throw new WxBizMsgCryptError(
+      `invalid encodingAESKey (expected ${AES_KEY_BYTES} bytes after base64 decode, got ${key.length})`,
+      "invalid_aes_key"
+    );
+  }
+  return key;
+}
+
+export function pkcs7Pad(buf: Buffer, blockSize: number = WXBIZ_PKCS7_BLOCK_SIZE): Buffer {
+  const pad = blockSize - (buf.length % blockSize);
+  return Buffer.concat([buf, Buffer.alloc(pad, pad)]);
+}
+
+/**
+ * 去除 PKCS#7 填充
+ * @throws WxBizMsgCryptError 填充字节不合法
+ */
+export function pkcs7Unpad(buf: Buffer, blockSize: number = WXBIZ_PKCS7_BLOCK_SIZE): Buffer {
+  if (buf.length === 0) {
+    throw new WxBizMsgCryptError("invalid pkcs7 payload", "invalid_padding");
+  }
+  const pad = buf[buf.length - 1] ?? 0;
+  if (pad < 1 || pad > blockSize || pad > buf.length) {
+    throw new WxBizMsgCryptError("invalid pkcs7 padding", "invalid_padding");
+  }
+  for (let i = 1; i <= pad; i += 1) {
+    if (buf[buf.length - i] !== pad) {
+      throw new WxBizMsgCryptError("invalid pkcs7 padding", "invalid_padding");
+    }
+  }
+  return buf.subarray(0, buf.length - pad);
+}
+
+/**
+ * 计算签名
+ *
+ * 传入 encrypt 时为消息签名（msg_signature），否则为公众号明文模式 URL 校验签名（signature）。
+ */
+export function computeWxBizSignature(params: {
+  token: string;
+  timestamp: string;
+  nonce: string;
+  encrypt?: string;
+}): string {
+  const parts = [params.token, params.timestamp, params.nonce];
+  if (params.encrypt !== undefined) {
+    parts.push(params.encrypt);
+  }
+  return crypto
+    .createHash("sha1")
+    .update(
+      parts
+        .map((value) => String(value ?? ""))
+        .sort()
+        .join("")
+    )
+    .digest("hex");
+}
+
+/**
+ * 常量时间比较两个字符串
+ */
+export function timingSafeEqualString(a: string, b: string): boolean {
+  const left = Buffer.from(String(a ?? ""), "utf8");
+  const right = Buffer.from(String(b ?? ""), "utf8");
+  if (left.length !== right.length) {
+    // 长度不同时仍做一次比较，避免通过耗时推断长度
+    crypto.timingSafeEqual(left, left);
+    return false;
+  }
+  return crypto.timingSafeEqual(left, right);
+}
+
+/**
+ * 校验签名（常量时间比较，签名不区分大小写）
+ */
+export function verifyWxBizSignature(params: {
+  token: string;
+  timestamp: string;
+  nonce: string;
+  encrypt?: string;
+  signature: string;
+}): boolean {
+  const signature = String(params.signature ?? "").trim().toLowerCase();
+  if (!signature) return false;
+  return timingSafeEqualString(computeWxBizSignature(params), signature);
+}
+
+/**
+ * 加密消息
+ *
+ * @param params.random 16 字节随机串，仅用于测试复现，默认随机生成
+ * @returns base64 密文
+ */
+export function encryptWxBizMessage(params: {
+  encodingAESKey: string;
+  plaintext: string;
+  receiveId?: string;
+  random?: Buffer;
+}): string {
+  const aesKey = decodeEncodingAESKey(params.encodingAESKey);
+  const random = params.random ?? crypto.randomBytes(RANDOM_BYTES);
+  if (random.length !== RANDOM_BYTES) {
+    throw new WxBizMsgCryptError(`random must be ${RANDOM_BYTES} bytes`, "invalid_payload");
+  }
+
+  const msg = Buffer.from(params.plaintext ?? "", "utf8");
+  const msgLen = Buffer.alloc(4);
+  msgLen.writeUInt32BE(msg.length, 0);
+  const receiveId = Buffer.from(params.receiveId ?? "", "utf8");
+
+  const padded = pkcs7Pad(Buffer.concat([random, msgLen, msg, receiveId]));
+  const cipher = crypto.createCipheriv("aes-256-cbc", aesKey, aesKey.subarray(0, IV_BYTES));
+  cipher.setAutoPadding(false);
+  return Buffer.concat([cipher.update(padded), cipher.final()]).toString("base64");
+}
+
+/**
+ * 解密消息
+ *
+ * 传入 receiveId 时校验密文末尾的 CorpID / AppID 是否一致。
+ *
+ * @returns 明文与密文中携带的 receiveId
+ * @throws WxBizMsgCryptError 密钥、填充、长度不合法或 receiveId 不匹配
+ */
+export function decryptWxBizMessage(params: {
+  encodingAESKey: string;
+  encrypt: string;
+  receiveId?: string;
+}): { plaintext: string; receiveId: string } {
+  const aesKey = decodeEncodingAESKey(params.encodingAESKey);
+
+  let decryptedPadded: Buffer;
+  try {
+    const decipher = crypto.createDecipheriv("aes-256-cbc", aesKey, aesKey.subarray(0, IV_BYTES));
+    decipher.setAutoPadding(false);
+    decryptedPadded = Buffer.concat([
+      decipher.update(Buffer.from(String(params.encrypt ?? ""), "base64")),
+      decipher.final(),
+    ]);
+  } catch (err) {
+    throw new WxBizMsgCryptError(
+      `aes decrypt failed: ${err instanceof Error ? err.message : String(err)}`,
+      "decrypt_failed"
+    );
+  }
+
+  const decrypted = pkcs7Unpad(decryptedPadded);
+  if (decrypted.length < HEADER_BYTES) {
+    throw new WxBizMsgCryptError(
+      `invalid decrypted payload (expected at least ${HEADER_BYTES} bytes, got ${decrypted.length})`,
+      "invalid_payload"
+    );
+  }
+
+  const msgEnd = HEADER_BYTES + decrypted.readUInt32BE(RANDOM_BYTES);
+  if (msgEnd > decrypted.length) {
+    throw new WxBizMsgCryptError(
+      `invalid decrypted msg length (msgEnd=${msgEnd}, payloadLength=${decrypted.length})`,
+      "invalid_payload"
+    );
+  }
+
+  const plaintext = decrypted.subarray(HEADER_BYTES, msgEnd).toString("utf8");
+  const receiveId = decrypted.subarray(msgEnd).toString("utf8");
+
+  const expected = params.receiveId?.trim();
+  if (expected && receiveId !== expected) {
+    throw new WxBizMsgCryptError(
+      `receiveId mismatch (expected "${expected}", got "${receiveId}")`,
+      "receive_id_mismatch"
+    );
+  }
+
+  return { plaintext, receiveId };
+}
+
+/**
+ * 加密并签名，得到被动回复所需的全部字段
+ */
+export function encryptAndSignWxBizMessage(params: {
+  token: string;
+  encodingAESKey: string;
+  plaintext: string;
+  receiveId?: string;
+  timestamp?: string;
+  nonce?: string;
+}): { encrypt: string; signature: string; timestamp: string; nonce: string } {
+  const timestamp = params.timestamp ?? String(Math.floor(Date.now() / 1000));
+  const nonce = params.nonce ?? crypto.randomBytes(8).toString("hex");
+  const encrypt = encryptWxBizMessage({
+    encodingAESKey: params.encodingAESKey,
+    plaintext: params.plaintext,
+    receiveId: params.receiveId,
+  });
+  const signature = computeWxBizSignature({ token: params.token, timestamp, nonce, encrypt });
+  return { encrypt, signature, timestamp, nonce };
+}
+
+/**
+ * 构造加密回复 XML（公众号 / 自建应用 / 微信客服回调）
+ */
+export function buildWxBizXmlEnvelope(params: {
+  encrypt: string;
+  signature: string;
+  timestamp: string;
+  nonce: string;
+}): string {
+  return `<xml>
+<Encrypt><![CDATA[${params.encrypt}]]></Encrypt>
+<MsgSignature><![CDATA[${params.signature}]]></MsgSignature>
+<TimeStamp>${params.timestamp}</TimeStamp>
+<Nonce><![CDATA[${params.nonce}]]></Nonce>
+</xml>`;
+}
+
+/**
+ * 构造加密回复 JSON（企业微信智能机器人 / 自建应用 JSON 回调）
+ */
+export function buildWxBizJsonEnvelope(params: {
+  encrypt: string;
+  signature: string;
+  timestamp: string;
+  nonce: string;
+}): { encrypt: string; msgsignature: string; timestamp: string; nonce: string } {
+  return {
+    encrypt: params.encrypt,
+    msgsignature: params.signature,
+    timestamp: params.timestamp,
+    nonce: params.nonce,
+  };
+}
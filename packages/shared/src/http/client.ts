@@ -139,3 +139,59 @@ export async function httpGet<T = unknown>(
     clearTimeout(timeoutId);
   }
 }
+
+/**
+ * 发送 HTTP PUT 请求
+ *
+ * 响应体为空时返回 undefined。
+ *
+ * @param url 请求 URL
+ * @param body 请求体
+ * @param options 请求选项
+ * @returns 响应数据
+ *
+ * @example
+ * ```ts
+ * await httpPut("https://api.example.com/items/1", { code: 0 }, { timeout: 10000 });
+ * ```
+ */
+export async function httpPut<T = unknown>(
+  url: string,
+  body: unknown,
+  options?: HttpRequestOptions
+): Promise<T | undefined> {
+  const { timeout = 30000, headers = {} } = options ?? {};
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch(url, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        ...headers,
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    const responseBody = await response.text().catch(() => "");
+    if (!response.ok) {
+      throw new HttpError(
+        `HTTP ${response.status}: ${response.statusText}`,
+        response.status,
+        responseBody
+      );
+    }
+
+    return responseBody.trim() ? (JSON.parse(responseBody) as T) : undefined;
+  } catch (err) {
+    if (err instanceof Error && err.name === "AbortError") {
+      throw new TimeoutError(`Request timeout after ${timeout}ms`, timeout);
+    }
+    throw err;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
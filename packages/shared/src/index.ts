@@ -3,6 +3,7 @@
 
 export * from "./logger/index.js";
 export * from "./policy/index.js";
+export * from "./pairing/index.js";
 export * from "./http/index.js";
 export * from "./types/common.js";
 export * from "./file/index.js";
@@ -10,3 +11,7 @@ export * from "./media/index.js";
 export * from "./cron/index.js";
 export * from "./asr/index.js";
 export * from "./cli/index.js";
+export * from "./crypto/index.js";
+export * from "./token/index.js";
+export * from "./state/index.js";
+export * from "./message/index.js";
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  chunkMarkdownText,
+  chunkText,
+  hasMarkdownTable,
+  looksLikeStructuredMarkdown,
+  measureTextLength,
+  resolveChunkSoftLimit,
+} from "./chunker.js";
+
+describe("chunkText", () => {
+  it("returns text as-is when within the limit", () => {
+    expect(chunkText("  hello  ", { limit: 20 })).toEqual(["  hello  "]);
+  });
+
+  it("prefers paragraph and sentence boundaries", () => {
+    const text = `${"第一段内容。".repeat(5)}\n\n${"第二段内容。".repeat(5)}`;
+    const chunks = chunkText(text, { limit: 40 });
+    expect(chunks[0]).toBe("第一段内容。".repeat(5));
+    expect(chunks.join("")).toBe(text.replace("\n\n", ""));
+  });
+
+  it("respects UTF-8 byte limits without splitting multi-byte characters", () => {
+    const text = "中文😀".repeat(200);
+    const chunks = chunkText(text, { limit: 100, unit: "byte" });
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((chunk) => measureTextLength(chunk, "byte") <= 100)).toBe(true);
+    expect(chunks.join("")).toBe(text);
+  });
+});
+
+describe("chunkMarkdownText", () => {
+  it("reopens and closes code fences on every chunk", () => {
+    const code = Array.from({ length: 40 }, (_, index) => `const value${index} = ${index};`).join("\n");
+    const text = `示例代码：\n\n\`\`\`ts\n${code}\n\`\`\``;
+    const chunks = chunkMarkdownText(text, { limit: 300 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(300);
+    }
+    for (const chunk of chunks.slice(1)) {
+      expect(chunk.startsWith("```ts\n")).toBe(true);
+      expect(chunk.endsWith("\n```")).toBe(true);
+    }
+  });
+
+  it("repeats the table header on every table chunk", () => {
+    const rows = Array.from({ length: 30 }, (_, index) => `| item ${index} | value ${index} |`);
+    const text = ["| 名称 | 数值 |", "| --- | --- |", ...rows].join("\n");
+    const chunks = chunkMarkdownText(text, { limit: 200, unit: "byte" });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.startsWith("| 名称 | 数值 |\n| --- | --- |\n")).toBe(true);
+      expect(Buffer.byteLength(chunk, "utf8")).toBeLessThanOrEqual(200);
+    }
+  });
+
+  it("splits lists on item boundaries", () => {
+    const text = Array.from({ length: 20 }, (_, index) => `- 列表项 ${index}`).join("\n");
+    const chunks = chunkMarkdownText(text, { limit: 60 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join("\n").split("\n")).toEqual(text.split("\n"));
+  });
+
+  it("prefixes continuation chunks with the marker within the limit", () => {
+    const text = Array.from({ length: 10 }, (_, index) => `第 ${index} 段：${"内容".repeat(10)}`).join("\n\n");
+    const chunks = chunkMarkdownText(text, { limit: 80, continuationMarker: "（续）" });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0]?.startsWith("（续）")).toBe(false);
+    for (const chunk of chunks.slice(1)) {
+      expect(chunk.startsWith("（续）\n")).toBe(true);
+    }
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(80);
+    }
+  });
+
+  it("returns an empty list for blank text", () => {
+    expect(chunkMarkdownText("  \n ", { limit: 10 })).toEqual([]);
+  });
+});
+
+describe("markdown helpers", () => {
+  it("resolves soft limits with headroom and explicit values", () => {
+    expect(resolveChunkSoftLimit(100, {})).toBe(100);
+    expect(resolveChunkSoftLimit(1000, {})).toBe(820);
+    expect(resolveChunkSoftLimit(5000, { cap: 1200 })).toBe(1200);
+    expect(resolveChunkSoftLimit(1000, 600)).toBe(600);
+    expect(resolveChunkSoftLimit(1000)).toBe(1000);
+  });
+
+  it("detects tables and structured markdown", () => {
+    expect(hasMarkdownTable("| a | b |\n| --- | --- |\n| 1 | 2 |")).toBe(true);
+    expect(hasMarkdownTable("a | b")).toBe(false);
+    expect(looksLikeStructuredMarkdown("## 标题\n内容")).toBe(true);
+    expect(looksLikeStructuredMarkdown("普通文本")).toBe(false);
+  });
+});
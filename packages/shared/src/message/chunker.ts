@@ -0,0 +1,1207 @@
+/**
+ * Markdown 感知的文本分块
+ *
+ * 按块（标题、段落、列表、引用、表格、代码块、分隔线）解析后再打包：
+ * - 代码块拆分时每块都补齐开闭围栏，避免格式丢失
+ * - 表格拆分时每块都重复表头，超长行按单元格拆分
+ * - 列表 / 引用按行拆分，段落按段落 > 换行 > 句子 > 逗号 > 空白的优先级寻找断点
+ * - 标题尽量与其后的正文放在同一块
+ *
+ * 支持按字符（默认）或 UTF-8 字节计量，以及软上限余量与续块标记。
+ */
+
+/**
+ * 长度计量单位
+ * - char: 字符数（UTF-16 码元，不会拆开代理对）
+ * - byte: UTF-8 字节数
+ */
+export type TextLengthUnit = "char" | "byte";
+
+/**
+ * 纯文本分块参数
+ */
+export interface TextChunkOptions {
+  /** 单块上限（<= 0 时不分块） */
+  limit: number;
+  /** 计量单位，默认 char */
+  unit?: TextLengthUnit;
+}
+
+/**
+ * 软上限余量配置
+ *
+ * 上限大于 threshold 时预留 clamp(limit * ratio, min, max) 的余量，
+ * 让结构化内容在触及平台硬上限前就在稳定边界处断开。
+ */
+export interface ChunkSoftLimitOptions {
+  /** 上限不超过该值时不预留余量，默认 128 */
+  threshold?: number;
+  /** 余量比例，默认 0.18 */
+  ratio?: number;
+  /** 最小余量，默认 16 */
+  min?: number;
+  /** 最大余量，默认 320 */
+  max?: number;
+  /** 软上限的绝对上界（可选） */
+  cap?: number;
+}
+
+/**
+ * Markdown 分块参数
+ */
+export interface MarkdownChunkOptions extends TextChunkOptions {
+  /**
+   * 软上限：数字为显式软上限（不超过 limit），对象为按比例预留余量；不传则直接使用 limit
+   */
+  softLimit?: number | ChunkSoftLimitOptions;
+  /** 续块标记（如 "（续）"），加在第二块起的开头，计入上限 */
+  continuationMarker?: string;
+}
+
+type MarkdownBlockKind =
+  | "heading"
+  | "paragraph"
+  | "list"
+  | "blockquote"
+  | "table"
+  | "code"
+  | "thematic-break";
+
+type MarkdownBlock = {
+  kind: MarkdownBlockKind;
+  text: string;
+};
+
+/** 按单位计量文本长度 */
+type Meter = {
+  measure: (text: string) => number;
+};
+
+const MARKDOWN_TABLE_SEPARATOR_RE = /^\|?(?:\s*:?-{3,}:?\s*\|)+(?:\s*:?-{3,}:?)?\|?$/;
+const MARKDOWN_THEMATIC_BREAK_RE = /^\s{0,3}(?:(?:-\s*){3,}|(?:_\s*){3,}|(?:\*\s*){3,})$/;
+const MARKDOWN_ATX_HEADING_RE = /^\s{0,3}#{1,6}\s+\S/;
+const MARKDOWN_BLOCKQUOTE_RE = /^\s{0,3}>\s?/;
+const MARKDOWN_FENCE_RE = /^\s*(`{3,}|~{3,})(.*)$/;
+const MARKDOWN_LIST_ITEM_RE = /^\s*(?:[-+*]|\d+\.)\s+/;
+const MARKDOWN_LIST_CONTINUATION_RE = /^\s{2,}\S/;
+const MARKDOWN_INLINE_STRUCTURE_RE = /(?:\*\*[^*\n]+\*\*|__[^_\n]+__|`[^`\n]+`|~~[^~\n]+~~|\*[^*\n]+\*)/;
+const MARKDOWN_BOUNDARY_GUARD_RE = /[`*_~|]/;
+
+const DEFAULT_SOFT_LIMIT_THRESHOLD = 128;
+const DEFAULT_SOFT_LIMIT_HEADROOM_RATIO = 0.18;
+const DEFAULT_SOFT_LIMIT_HEADROOM_MIN = 16;
+const DEFAULT_SOFT_LIMIT_HEADROOM_MAX = 320;
+
+const CHAR_METER: Meter = { measure: (text) => text.length };
+const BYTE_METER: Meter = { measure: (text) => Buffer.byteLength(text, "utf8") };
+
+function resolveMeter(unit: TextLengthUnit | undefined): Meter {
+  return unit === "byte" ? BYTE_METER : CHAR_METER;
+}
+
+/**
+ * 按单位计量文本长度
+ */
+export function measureTextLength(text: string, unit: TextLengthUnit = "char"): number {
+  return resolveMeter(unit).measure(text);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Markdown 块识别
+// ─────────────────────────────────────────────────────────────────────────────
+
+function isBlankLine(line: string): boolean {
+  return line.trim().length === 0;
+}
+
+function resolveFenceDelimiter(line: string): string | undefined {
+  const match = line.match(MARKDOWN_FENCE_RE);
+  return match?.[1];
+}
+
+function isFenceClosingLine(line: string, delimiter: string): boolean {
+  const escapedDelimiter = delimiter.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const closingRe = new RegExp(`^\\s*${escapedDelimiter}${delimiter[0]}*\\s*$`);
+  return closingRe.test(line);
+}
+
+/**
+ * 用空行拼接 Markdown 片段
+ */
+export function joinMarkdownPieces(parts: string[]): string {
+  return parts.filter(Boolean).join("\n\n").trim();
+}
+
+/**
+ * 判断 lines[index] 是否为表格表头（下一行为分隔行）
+ */
+export function isMarkdownTableStart(lines: string[], index: number): boolean {
+  const header = lines[index]?.trim() ?? "";
+  const separator = lines[index + 1]?.trim() ?? "";
+  return Boolean(header.includes("|") && MARKDOWN_TABLE_SEPARATOR_RE.test(separator));
+}
+
+/**
+ * 文本中是否包含至少两列的 Markdown 表格
+ */
+export function hasMarkdownTable(text: string): boolean {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  for (let index = 0; index < lines.length - 1; index += 1) {
+    const header = lines[index]?.trim() ?? "";
+    const separator = lines[index + 1]?.trim() ?? "";
+    if (!header.includes("|") || !MARKDOWN_TABLE_SEPARATOR_RE.test(separator)) {
+      continue;
+    }
+
+    const headerColumns = header.split("|").filter((column) => column.trim()).length;
+    const separatorColumns = separator.split("|").filter((column) => column.trim()).length;
+    if (headerColumns >= 2 && separatorColumns >= 2) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * 解析表格行的单元格；传入 columnCount 时按列数截断或补齐
+ */
+export function parseMarkdownTableRowCells(row: string, columnCount?: number): string[] {
+  const trimmed = row.trim();
+  const inner = trimmed.replace(/^\|\s*/, "").replace(/\s*\|$/, "");
+  const cells = inner.split("|").map((cell) => cell.trim());
+
+  if (typeof columnCount !== "number" || !Number.isFinite(columnCount) || columnCount <= 0) {
+    return cells;
+  }
+
+  if (cells.length >= columnCount) {
+    return cells.slice(0, columnCount);
+  }
+
+  return [...cells, ...Array.from({ length: columnCount - cells.length }, () => "")];
+}
+
+function renderMarkdownTableRow(cells: string[]): string {
+  return `| ${cells.join(" | ")} |`;
+}
+
+function normalizeMarkdownSegment(text: string): string {
+  return text.replace(/\r\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+/**
+ * 文本是否包含块级或行内 Markdown 结构
+ */
+export function looksLikeStructuredMarkdown(text: string): boolean {
+  const normalized = normalizeMarkdownSegment(text);
+  if (!normalized) {
+    return false;
+  }
+
+  const lines = normalized.split("\n");
+  if (hasMarkdownTable(normalized)) {
+    return true;
+  }
+
+  return (
+    normalized.includes("\n\n") ||
+    MARKDOWN_INLINE_STRUCTURE_RE.test(normalized) ||
+    hasMarkdownBlockSyntax(lines)
+  );
+}
+
+/**
+ * 文本是否包含块级 Markdown（表格、标题、引用、代码块、分隔线、列表）
+ */
+export function hasMarkdownBlockStructure(text: string): boolean {
+  const normalized = normalizeMarkdownSegment(text);
+  if (!normalized) {
+    return false;
+  }
+  return hasMarkdownTable(normalized) || hasMarkdownBlockSyntax(normalized.split("\n"));
+}
+
+function hasMarkdownBlockSyntax(lines: string[]): boolean {
+  return (
+    lines.some((line) => MARKDOWN_ATX_HEADING_RE.test(line)) ||
+    lines.some((line) => MARKDOWN_BLOCKQUOTE_RE.test(line)) ||
+    lines.some((line) => MARKDOWN_FENCE_RE.test(line)) ||
+    lines.some((line) => MARKDOWN_THEMATIC_BREAK_RE.test(line)) ||
+    lines.some((line) => MARKDOWN_LIST_ITEM_RE.test(line))
+  );
+}
+
+function collectFencedCodeBlock(
+  lines: string[],
+  startIndex: number
+): { block: MarkdownBlock; nextIndex: number } {
+  const openingLine = lines[startIndex] ?? "";
+  const delimiter = resolveFenceDelimiter(openingLine) ?? "```";
+  let index = startIndex + 1;
+  while (index < lines.length) {
+    if (isFenceClosingLine(lines[index] ?? "", delimiter)) {
+      index += 1;
+      break;
+    }
+    index += 1;
+  }
+
+  return {
+    block: {
+      kind: "code",
+      text: lines.slice(startIndex, index).join("\n").trimEnd(),
+    },
+    nextIndex: index,
+  };
+}
+
+function collectTableBlock(
+  lines: string[],
+  startIndex: number
+): { block: MarkdownBlock; nextIndex: number } {
+  let index = startIndex + 2;
+  while (index < lines.length) {
+    const line = lines[index] ?? "";
+    if (isBlankLine(line) || !line.includes("|")) {
+      break;
+    }
+    index += 1;
+  }
+
+  return {
+    block: {
+      kind: "table",
+      text: lines.slice(startIndex, index).join("\n").trimEnd(),
+    },
+    nextIndex: index,
+  };
+}
+
+function collectBlockquoteBlock(
+  lines: string[],
+  startIndex: number
+): { block: MarkdownBlock; nextIndex: number } {
+  const collected: string[] = [];
+  let index = startIndex;
+
+  while (index < lines.length) {
+    const line = lines[index] ?? "";
+    if (MARKDOWN_BLOCKQUOTE_RE.test(line)) {
+      collected.push(line);
+      index += 1;
+      continue;
+    }
+    if (
+      isBlankLine(line) &&
+      index + 1 < lines.length &&
+      MARKDOWN_BLOCKQUOTE_RE.test(lines[index + 1] ?? "")
+    ) {
+      collected.push(line);
+      index += 1;
+      continue;
+    }
+    break;
+  }
+
+  return {
+    block: {
+      kind: "blockquote",
+      text: collected.join("\n").trimEnd(),
+    },
+    nextIndex: index,
+  };
+}
+
+function collectListBlock(
+  lines: string[],
+  startIndex: number
+): { block: MarkdownBlock; nextIndex: number } {
+  const collected: string[] = [];
+  let index = startIndex;
+
+  while (index < lines.length) {
+    const line = lines[index] ?? "";
+    if (isBlankLine(line)) {
+      break;
+    }
+    if (
+      MARKDOWN_FENCE_RE.test(line) ||
+      MARKDOWN_BLOCKQUOTE_RE.test(line) ||
+      MARKDOWN_ATX_HEADING_RE.test(line) ||
+      MARKDOWN_THEMATIC_BREAK_RE.test(line) ||
+      isMarkdownTableStart(lines, index)
+    ) {
+      break;
+    }
+    if (
+      collected.length > 0 &&
+      !MARKDOWN_LIST_ITEM_RE.test(line) &&
+      !MARKDOWN_LIST_CONTINUATION_RE.test(line)
+    ) {
+      collected.push(line);
+      index += 1;
+      continue;
+    }
+
+    collected.push(line);
+    index += 1;
+  }
+
+  return {
+    block: {
+      kind: "list",
+      text: collected.join("\n").trimEnd(),
+    },
+    nextIndex: index,
+  };
+}
+
+function collectParagraphBlock(
+  lines: string[],
+  startIndex: number
+): { block: MarkdownBlock; nextIndex: number } {
+  const collected: string[] = [];
+  let index = startIndex;
+
+  while (index < lines.length) {
+    const line = lines[index] ?? "";
+    if (isBlankLine(line)) {
+      break;
+    }
+    if (
+      collected.length > 0 &&
+      (MARKDOWN_FENCE_RE.test(line) ||
+        MARKDOWN_BLOCKQUOTE_RE.test(line) ||
+        MARKDOWN_ATX_HEADING_RE.test(line) ||
+        MARKDOWN_THEMATIC_BREAK_RE.test(line) ||
+        MARKDOWN_LIST_ITEM_RE.test(line) ||
+        isMarkdownTableStart(lines, index))
+    ) {
+      break;
+    }
+    collected.push(line);
+    index += 1;
+  }
+
+  return {
+    block: {
+      kind: "paragraph",
+      text: collected.join("\n").trimEnd(),
+    },
+    nextIndex: index,
+  };
+}
+
+function parseMarkdownBlocks(text: string): MarkdownBlock[] {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    while (index < lines.length && isBlankLine(lines[index] ?? "")) {
+      index += 1;
+    }
+    if (index >= lines.length) {
+      break;
+    }
+
+    const line = lines[index] ?? "";
+    if (MARKDOWN_FENCE_RE.test(line)) {
+      const result = collectFencedCodeBlock(lines, index);
+      blocks.push(result.block);
+      index = result.nextIndex;
+      continue;
+    }
+    if (isMarkdownTableStart(lines, index)) {
+      const result = collectTableBlock(lines, index);
+      blocks.push(result.block);
+      index = result.nextIndex;
+      continue;
+    }
+    if (MARKDOWN_THEMATIC_BREAK_RE.test(line)) {
+      blocks.push({ kind: "thematic-break", text: line.trim() });
+      index += 1;
+      continue;
+    }
+    if (MARKDOWN_BLOCKQUOTE_RE.test(line)) {
+      const result = collectBlockquoteBlock(lines, index);
+      blocks.push(result.block);
+      index = result.nextIndex;
+      continue;
+    }
+    if (MARKDOWN_ATX_HEADING_RE.test(line)) {
+      blocks.push({ kind: "heading", text: line.trimEnd() });
+      index += 1;
+      continue;
+    }
+    if (MARKDOWN_LIST_ITEM_RE.test(line)) {
+      const result = collectListBlock(lines, index);
+      blocks.push(result.block);
+      index = result.nextIndex;
+      continue;
+    }
+
+    const result = collectParagraphBlock(lines, index);
+    blocks.push(result.block);
+    index = result.nextIndex;
+  }
+
+  return blocks;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 断点查找与纯文本拆分
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** 在不超过 limit 的前提下，text 最多能取到的下标（不拆开代理对） */
+function findIndexWithinLimit(meter: Meter, text: string, limit: number): number {
+  if (limit <= 0 || !text) {
+    return 0;
+  }
+
+  let total = 0;
+  let index = 0;
+
+  for (const char of text) {
+    const charLength = meter.measure(char);
+    if (total + charLength > limit) {
+      break;
+    }
+    total += charLength;
+    index += char.length;
+  }
+
+  return index;
+}
+
+function isSafeMarkdownBoundary(text: string, index: number): boolean {
+  const left = text.slice(Math.max(0, index - 3), index).replace(/\s+/g, "");
+  const right = text.slice(index, Math.min(text.length, index + 3)).replace(/\s+/g, "");
+  const leftEdge = left.slice(-1);
+  const rightEdge = right.slice(0, 1);
+  return !MARKDOWN_BOUNDARY_GUARD_RE.test(leftEdge) && !MARKDOWN_BOUNDARY_GUARD_RE.test(rightEdge);
+}
+
+function findRegexBoundary(
+  meter: Meter,
+  text: string,
+  limit: number,
+  pattern: RegExp,
+  minLength: number
+): number | undefined {
+  const scopedIndex = findIndexWithinLimit(meter, text, limit);
+  const scopedText = text.slice(0, scopedIndex);
+  const regex = new RegExp(pattern.source, pattern.flags);
+  let match = regex.exec(scopedText);
+  let lastBoundary: number | undefined;
+
+  while (match) {
+    const boundary = match.index + match[0].length;
+    const boundaryLength = meter.measure(text.slice(0, boundary));
+    if (
+      boundary > 0 &&
+      boundaryLength <= limit &&
+      boundaryLength >= minLength &&
+      isSafeMarkdownBoundary(text, boundary)
+    ) {
+      lastBoundary = boundary;
+    }
+    match = regex.exec(scopedText);
+  }
+
+  return lastBoundary;
+}
+
+function findFallbackBoundary(meter: Meter, text: string, limit: number): number {
+  const maxIndex = findIndexWithinLimit(meter, text, limit);
+  const minIndex = Math.max(1, maxIndex - 120);
+  for (let index = maxIndex; index >= minIndex; index -= 1) {
+    if (isSafeMarkdownBoundary(text, index)) {
+      return index;
+    }
+  }
+  return maxIndex;
+}
+
+function findSafeSplitIndex(meter: Meter, text: string, limit: number, minLength: number): number {
+  const boundaryPatterns = [
+    /\n\n+/g,
+    /\n/g,
+    /[。！？.!?；;:：](?:\s+|$)/g,
+    /[,，](?:\s+|$)/g,
+    /\s+/g,
+  ];
+
+  for (const pattern of boundaryPatterns) {
+    const boundary = findRegexBoundary(meter, text, limit, pattern, minLength);
+    if (boundary && boundary > 0) {
+      return boundary;
+    }
+  }
+
+  return findFallbackBoundary(meter, text, limit);
+}
+
+function splitHardText(meter: Meter, text: string, limit: number): string[] {
+  if (limit <= 0 || meter.measure(text) <= limit) {
+    return [text];
+  }
+
+  const chunks: string[] = [];
+  let remaining = text;
+  while (meter.measure(remaining) > limit) {
+    const nextIndex = Math.max(1, findIndexWithinLimit(meter, remaining, limit));
+    chunks.push(remaining.slice(0, nextIndex));
+    remaining = remaining.slice(nextIndex);
+  }
+  if (remaining) {
+    chunks.push(remaining);
+  }
+  return chunks;
+}
+
+function splitTextSafely(
+  meter: Meter,
+  text: string,
+  limit: number,
+  options?: { trimLeading?: boolean; trimTrailing?: boolean; minChunkLength?: number }
+): string[] {
+  if (limit <= 0 || meter.measure(text) <= limit) {
+    return [text];
+  }
+
+  const trimLeading = options?.trimLeading ?? true;
+  const trimTrailing = options?.trimTrailing ?? true;
+  const minChunkLength = options?.minChunkLength ?? 0;
+  const chunks: string[] = [];
+  let remaining = text;
+
+  while (meter.measure(remaining) > limit) {
+    const splitIndex = findSafeSplitIndex(meter, remaining, limit, minChunkLength);
+    let nextChunk = remaining.slice(0, splitIndex);
+    let nextRemaining = remaining.slice(splitIndex);
+
+    if (trimTrailing) {
+      nextChunk = nextChunk.trimEnd();
+    }
+    if (trimLeading) {
+      nextRemaining = nextRemaining.trimStart();
+    }
+
+    if (!nextChunk) {
+      const hardChunkIndex = Math.max(1, findIndexWithinLimit(meter, remaining, limit));
+      const hardChunk = remaining.slice(0, hardChunkIndex);
+      chunks.push(hardChunk);
+      remaining = remaining.slice(hardChunk.length);
+      continue;
+    }
+
+    chunks.push(nextChunk);
+    remaining = nextRemaining;
+  }
+
+  const finalChunk = trimTrailing ? remaining.trimEnd() : remaining;
+  if (finalChunk) {
+    chunks.push(finalChunk);
+  }
+
+  return chunks;
+}
+
+/** 纯文本分块时，断点不足上限的该比例则不采用，避免产生过短的分块 */
+const PLAIN_TEXT_MIN_CHUNK_RATIO = 0.3;
+
+/**
+ * 按自然断点拆分纯文本（段落 > 换行 > 句子 > 逗号 > 空白，找不到时硬切），不拆开多字节字符
+ *
+ * 未超过上限时原样返回。
+ */
+export function chunkText(text: string, options: TextChunkOptions): string[] {
+  return splitTextSafely(resolveMeter(options.unit), text, options.limit, {
+    minChunkLength: Math.floor(options.limit * PLAIN_TEXT_MIN_CHUNK_RATIO),
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 按块拆分
+// ─────────────────────────────────────────────────────────────────────────────
+
+function splitLineBlock(meter: Meter, text: string, limit: number): string[] {
+  if (limit <= 0 || meter.measure(text) <= limit) {
+    return [text];
+  }
+
+  const lines = text.split("\n");
+  const chunks: string[] = [];
+  let currentLines: string[] = [];
+
+  const flushCurrent = (): void => {
+    if (currentLines.length === 0) {
+      return;
+    }
+    const chunk = currentLines.join("\n").trimEnd();
+    if (chunk) {
+      chunks.push(chunk);
+    }
+    currentLines = [];
+  };
+
+  for (const line of lines) {
+    const candidate = currentLines.length > 0 ? `${currentLines.join("\n")}\n${line}` : line;
+    if (meter.measure(candidate) <= limit) {
+      currentLines.push(line);
+      continue;
+    }
+
+    flushCurrent();
+    if (meter.measure(line) <= limit) {
+      currentLines.push(line);
+      continue;
+    }
+
+    for (const piece of splitTextSafely(meter, line, limit, {
+      trimLeading: false,
+      trimTrailing: false,
+    })) {
+      if (piece) {
+        chunks.push(piece);
+      }
+    }
+  }
+
+  flushCurrent();
+  return chunks;
+}
+
+function splitTableRowByCells(
+  meter: Meter,
+  params: {
+    row: string;
+    columnCount: number;
+    limit: number;
+    anchorColumnCount?: number;
+  }
+): string[] {
+  const { row, columnCount, limit } = params;
+  const normalizedCells = parseMarkdownTableRowCells(row, columnCount);
+  const normalizedRow = renderMarkdownTableRow(normalizedCells);
+  if (meter.measure(normalizedRow) <= limit) {
+    return [normalizedRow];
+  }
+
+  // 前几列作为锚点在每个拆分行中保留，便于对照
+  const anchorColumnCount = Math.min(Math.max(1, params.anchorColumnCount ?? 2), columnCount);
+  const anchorCells = normalizedCells.map((cell, index) => (index < anchorColumnCount ? cell : ""));
+  const chunks: string[] = [];
+  let currentCells = [...anchorCells];
+  let hasContent = false;
+
+  const flushCurrent = (): void => {
+    if (!hasContent) {
+      return;
+    }
+    chunks.push(renderMarkdownTableRow(currentCells));
+    currentCells = [...anchorCells];
+    hasContent = false;
+  };
+
+  for (let index = anchorColumnCount; index < columnCount; index += 1) {
+    const cell = normalizedCells[index] ?? "";
+    if (!cell) {
+      continue;
+    }
+
+    const candidateCells = [...currentCells];
+    candidateCells[index] = cell;
+    if (meter.measure(renderMarkdownTableRow(candidateCells)) <= limit) {
+      currentCells[index] = cell;
+      hasContent = true;
+      continue;
+    }
+
+    if (hasContent) {
+      flushCurrent();
+      const nextCandidateCells = [...currentCells];
+      nextCandidateCells[index] = cell;
+      if (meter.measure(renderMarkdownTableRow(nextCandidateCells)) <= limit) {
+        currentCells[index] = cell;
+        hasContent = true;
+        continue;
+      }
+    }
+
+    const emptyRowLength = meter.measure(renderMarkdownTableRow(currentCells));
+    const availableCellLength = Math.max(1, limit - emptyRowLength);
+    for (const cellPiece of splitTextSafely(meter, cell, availableCellLength, {
+      trimLeading: false,
+      trimTrailing: false,
+    })) {
+      const pieceCells = [...anchorCells];
+      pieceCells[index] = cellPiece;
+      chunks.push(renderMarkdownTableRow(pieceCells));
+    }
+    currentCells = [...anchorCells];
+    hasContent = false;
+  }
+
+  flushCurrent();
+  return chunks.length > 0 ? chunks : splitTextSafely(meter, normalizedRow, limit);
+}
+
+/** 宽表渲染后膨胀明显，列数较多时收紧打包上限 */
+function resolveTableBlockLimit(
+  meter: Meter,
+  params: {
+    header: string;
+    separator: string;
+    rows: string[];
+    limit: number;
+  }
+): number {
+  const { header, separator, rows, limit } = params;
+  if (limit <= 512) {
+    return limit;
+  }
+
+  const columnCount = parseMarkdownTableRowCells(header).length;
+  if (columnCount < 8) {
+    return limit;
+  }
+
+  const tablePrefixLength = meter.measure(`${header}\n${separator}`);
+  const extraColumnCount = Math.max(0, columnCount - 7);
+  const columnPenalty = Math.min(240, extraColumnCount * 55);
+  const headerPenalty = Math.min(120, Math.floor(tablePrefixLength * 0.25));
+  const reducedLimit = limit - columnPenalty - headerPenalty;
+  const minTableLimit = Math.max(tablePrefixLength + 64, Math.floor(limit * 0.45));
+  const maxSingleRowRequirement = Math.min(
+    limit,
+    rows.reduce((max, row) => {
+      const normalizedRow = renderMarkdownTableRow(parseMarkdownTableRowCells(row, columnCount));
+      return Math.max(max, meter.measure(`${header}\n${separator}\n${normalizedRow}`));
+    }, tablePrefixLength)
+  );
+
+  return Math.min(limit, Math.max(maxSingleRowRequirement, minTableLimit, Math.min(limit, reducedLimit)));
+}
+
+function splitTableBlock(meter: Meter, text: string, limit: number): string[] {
+  if (limit <= 0 || meter.measure(text) <= limit) {
+    return [text];
+  }
+
+  const lines = text.split("\n");
+  const header = lines[0] ?? "";
+  const separator = lines[1] ?? "";
+  const rows = lines.slice(2);
+  const packingLimit = resolveTableBlockLimit(meter, { header, separator, rows, limit });
+  const tablePrefix = `${header}\n${separator}`;
+  const columnCount = parseMarkdownTableRowCells(header).length;
+  const chunks: string[] = [];
+  let currentRows: string[] = [];
+
+  const flushCurrent = (): void => {
+    if (currentRows.length === 0) {
+      return;
+    }
+    chunks.push(`${tablePrefix}\n${currentRows.join("\n")}`);
+    currentRows = [];
+  };
+
+  for (const row of rows) {
+    const candidate =
+      currentRows.length > 0
+        ? `${tablePrefix}\n${currentRows.join("\n")}\n${row}`
+        : `${tablePrefix}\n${row}`;
+    if (meter.measure(candidate) <= packingLimit) {
+      currentRows.push(row);
+      continue;
+    }
+
+    flushCurrent();
+    if (meter.measure(`${tablePrefix}\n${row}`) <= limit) {
+      currentRows.push(row);
+      continue;
+    }
+
+    const maxRowLength = Math.max(16, limit - meter.measure(tablePrefix) - 1);
+    for (const rowPiece of splitTableRowByCells(meter, { row, columnCount, limit: maxRowLength })) {
+      chunks.push(`${tablePrefix}\n${rowPiece}`);
+    }
+  }
+
+  flushCurrent();
+  return chunks.length > 0 ? chunks : [text];
+}
+
+function splitCodeFence(meter: Meter, text: string, limit: number): string[] {
+  if (limit <= 0 || meter.measure(text) <= limit) {
+    return [text];
+  }
+
+  const lines = text.split("\n");
+  const openingLine = lines[0] ?? "```";
+  const delimiter = resolveFenceDelimiter(openingLine) ?? "```";
+  const hasClosingFence = lines.length > 1 && isFenceClosingLine(lines[lines.length - 1] ?? "", delimiter);
+  const closingLine = hasClosingFence ? lines[lines.length - 1] ?? delimiter : delimiter;
+  const codeLines = lines.slice(1, hasClosingFence ? -1 : lines.length);
+  const fixedOverhead = meter.measure(openingLine) + meter.measure(closingLine) + 2;
+  const availableLineLength = Math.max(1, limit - fixedOverhead);
+  const chunks: string[] = [];
+  let currentCodeLines: string[] = [];
+
+  const flushCurrent = (): void => {
+    if (currentCodeLines.length === 0) {
+      return;
+    }
+    chunks.push(`${openingLine}\n${currentCodeLines.join("\n")}\n${closingLine}`);
+    currentCodeLines = [];
+  };
+
+  for (const codeLine of codeLines) {
+    const candidate =
+      currentCodeLines.length > 0
+        ? `${openingLine}\n${currentCodeLines.join("\n")}\n${codeLine}\n${closingLine}`
+        : `${openingLine}\n${codeLine}\n${closingLine}`;
+    if (meter.measure(candidate) <= limit) {
+      currentCodeLines.push(codeLine);
+      continue;
+    }
+
+    flushCurrent();
+    if (meter.measure(`${openingLine}\n${codeLine}\n${closingLine}`) <= limit) {
+      currentCodeLines.push(codeLine);
+      continue;
+    }
+
+    for (const linePiece of splitHardText(meter, codeLine, availableLineLength)) {
+      chunks.push(`${openingLine}\n${linePiece}\n${closingLine}`);
+    }
+  }
+
+  flushCurrent();
+  return chunks.length > 0 ? chunks : [text];
+}
+
+function splitMarkdownBlock(meter: Meter, block: MarkdownBlock, limit: number): string[] {
+  if (limit <= 0 || meter.measure(block.text) <= limit) {
+    return [block.text];
+  }
+
+  switch (block.kind) {
+    case "table":
+      return splitTableBlock(meter, block.text, limit);
+    case "code":
+      return splitCodeFence(meter, block.text, limit);
+    case "blockquote":
+    case "list":
+      return splitLineBlock(meter, block.text, limit);
+    case "paragraph":
+    case "heading":
+      return splitTextSafely(meter, block.text, limit);
+    default:
+      return [block.text];
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 打包
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * 计算软上限
+ *
+ * - 数字：不超过 limit 的显式软上限
+ * - 对象：limit 超过 threshold 时预留 clamp(limit * ratio, min, max) 的余量，并受 cap 约束
+ */
+export function resolveChunkSoftLimit(
+  limit: number,
+  softLimit?: number | ChunkSoftLimitOptions
+): number {
+  if (softLimit === undefined || limit <= 0) {
+    return limit;
+  }
+
+  if (typeof softLimit === "number") {
+    return Number.isFinite(softLimit) && softLimit > 0 ? Math.min(limit, Math.floor(softLimit)) : limit;
+  }
+
+  if (limit <= (softLimit.threshold ?? DEFAULT_SOFT_LIMIT_THRESHOLD)) {
+    return limit;
+  }
+
+  const reservedLength = Math.min(
+    softLimit.max ?? DEFAULT_SOFT_LIMIT_HEADROOM_MAX,
+    Math.max(
+      softLimit.min ?? DEFAULT_SOFT_LIMIT_HEADROOM_MIN,
+      Math.floor(limit * (softLimit.ratio ?? DEFAULT_SOFT_LIMIT_HEADROOM_RATIO))
+    )
+  );
+  const reduced = limit - reservedLength;
+  const bounded = Math.min(reduced > 0 ? reduced : limit, softLimit.cap ?? Number.POSITIVE_INFINITY);
+  return bounded > 0 ? bounded : limit;
+}
+
+function maybePrefixContinuationPiece(
+  meter: Meter,
+  params: {
+    prefix?: string;
+    piece: string;
+    limit: number;
+  }
+): string {
+  const prefix = params.prefix?.trim();
+  if (!prefix) {
+    return params.piece;
+  }
+
+  const prefixedPiece = joinMarkdownPieces([prefix, params.piece]);
+  return meter.measure(prefixedPiece) <= params.limit ? prefixedPiece : params.piece;
+}
+
+function resolveLeadPiece(
+  meter: Meter,
+  blocks: MarkdownBlock[],
+  index: number,
+  limit: number
+): string | undefined {
+  const block = blocks[index];
+  if (!block) {
+    return undefined;
+  }
+
+  if (block.kind === "heading") {
+    const nextBlock = blocks[index + 1];
+    if (nextBlock && nextBlock.kind !== "thematic-break") {
+      const nextPieces = splitMarkdownBlock(meter, nextBlock, limit);
+      const firstBodyPiece = nextPieces[0];
+      if (firstBodyPiece) {
+        const pairedText = joinMarkdownPieces([block.text, firstBodyPiece]);
+        if (meter.measure(pairedText) <= limit) {
+          return pairedText;
+        }
+      }
+    }
+  }
+
+  return splitMarkdownBlock(meter, block, limit)
+    .map((piece) => piece.trim())
+    .find(Boolean);
+}
+
+/** 分隔线是否应留给下一块作为开头（而不是挂在当前块末尾） */
+function shouldCarryThematicBreakToNextBlock(
+  meter: Meter,
+  params: {
+    blocks: MarkdownBlock[];
+    index: number;
+    currentPieces: string[];
+    limit: number;
+  }
+): boolean {
+  const block = params.blocks[params.index];
+  if (!block || block.kind !== "thematic-break") {
+    return false;
+  }
+
+  if (params.currentPieces.length === 0) {
+    return true;
+  }
+
+  const withBreak = joinMarkdownPieces([...params.currentPieces, block.text]);
+  if (meter.measure(withBreak) > params.limit) {
+    return true;
+  }
+
+  const nextLeadPiece = resolveLeadPiece(meter, params.blocks, params.index + 1, params.limit);
+  if (!nextLeadPiece) {
+    return false;
+  }
+
+  const prefixedLeadPiece = joinMarkdownPieces([block.text, nextLeadPiece]);
+  if (meter.measure(prefixedLeadPiece) > params.limit) {
+    return false;
+  }
+
+  const sectionCandidate = joinMarkdownPieces([...params.currentPieces, block.text, nextLeadPiece]);
+  return meter.measure(sectionCandidate) > params.limit;
+}
+
+function packMarkdownBlocks(meter: Meter, text: string, chunkLimit: number): string[] {
+  const blocks = parseMarkdownBlocks(text);
+  if (blocks.length === 0 || chunkLimit <= 0) {
+    return [text.trim()];
+  }
+
+  const chunks: string[] = [];
+  let currentPieces: string[] = [];
+  let pendingPrefixPieces: string[] = [];
+
+  const flushCurrent = (): void => {
+    if (currentPieces.length === 0) {
+      return;
+    }
+    const chunk = joinMarkdownPieces(currentPieces);
+    if (chunk) {
+      chunks.push(chunk);
+    }
+    currentPieces = [];
+  };
+
+  const appendPiece = (piece: string): void => {
+    if (!piece) {
+      return;
+    }
+    const pieces = meter.measure(piece) > chunkLimit ? splitTextSafely(meter, piece, chunkLimit) : [piece];
+    for (const nextPiece of pieces) {
+      const normalizedPiece = nextPiece.trim();
+      if (!normalizedPiece) {
+        continue;
+      }
+      const candidate = joinMarkdownPieces([...currentPieces, normalizedPiece]);
+      if (currentPieces.length === 0 || meter.measure(candidate) <= chunkLimit) {
+        currentPieces.push(normalizedPiece);
+        continue;
+      }
+      flushCurrent();
+      currentPieces.push(normalizedPiece);
+    }
+  };
+
+  const consumePendingPrefix = (piece: string): string => {
+    if (pendingPrefixPieces.length === 0) {
+      return piece;
+    }
+    const prefixed = joinMarkdownPieces([...pendingPrefixPieces, piece]);
+    pendingPrefixPieces = [];
+    return prefixed;
+  };
+
+  // 标题与下一块首段一起放入；表格续块带上标题
+  const appendHeadingWithBody = (headingText: string, nextBlock: MarkdownBlock, nextPieces: string[]): void => {
+    currentPieces.push(headingText, nextPieces[0] ?? "");
+    for (let pieceIndex = 1; pieceIndex < nextPieces.length; pieceIndex += 1) {
+      const nextPiece = nextPieces[pieceIndex] ?? "";
+      appendPiece(
+        nextBlock.kind === "table"
+          ? maybePrefixContinuationPiece(meter, { prefix: headingText, piece: nextPiece, limit: chunkLimit })
+          : nextPiece
+      );
+    }
+  };
+
+  for (let index = 0; index < blocks.length; index += 1) {
+    const block = blocks[index];
+    if (!block) {
+      continue;
+    }
+
+    if (block.kind === "thematic-break") {
+      if (shouldCarryThematicBreakToNextBlock(meter, { blocks, index, currentPieces, limit: chunkLimit })) {
+        flushCurrent();
+        pendingPrefixPieces.push(block.text);
+        continue;
+      }
+
+      if (currentPieces.length > 0) {
+        const candidate = joinMarkdownPieces([...currentPieces, block.text]);
+        if (meter.measure(candidate) <= chunkLimit) {
+          currentPieces.push(block.text);
+          continue;
+        }
+        flushCurrent();
+      }
+      pendingPrefixPieces.push(block.text);
+      continue;
+    }
+
+    if (block.kind === "heading") {
+      const headingText = consumePendingPrefix(block.text);
+      const nextBlock = blocks[index + 1];
+      if (nextBlock && nextBlock.kind !== "thematic-break") {
+        const nextPieces = splitMarkdownBlock(meter, nextBlock, chunkLimit);
+        const firstBodyPiece = nextPieces[0];
+        if (firstBodyPiece) {
+          const pairedText = joinMarkdownPieces([headingText, firstBodyPiece]);
+          const pairedCandidate = joinMarkdownPieces([...currentPieces, headingText, firstBodyPiece]);
+          const pairedFits = meter.measure(pairedText) <= chunkLimit;
+          if (pairedFits && (currentPieces.length === 0 || meter.measure(pairedCandidate) <= chunkLimit)) {
+            appendHeadingWithBody(headingText, nextBlock, nextPieces);
+            index += 1;
+            continue;
+          }
+          if (pairedFits && currentPieces.length > 0) {
+            flushCurrent();
+            appendHeadingWithBody(headingText, nextBlock, nextPieces);
+            index += 1;
+            continue;
+          }
+        }
+      }
+
+      appendPiece(headingText);
+      continue;
+    }
+
+    const blockText = consumePendingPrefix(block.text);
+    for (const piece of splitMarkdownBlock(meter, { ...block, text: blockText }, chunkLimit)) {
+      appendPiece(piece);
+    }
+  }
+
+  if (pendingPrefixPieces.length > 0 && currentPieces.length > 0) {
+    const trailingCandidate = joinMarkdownPieces([...currentPieces, ...pendingPrefixPieces]);
+    if (meter.measure(trailingCandidate) <= chunkLimit) {
+      currentPieces.push(...pendingPrefixPieces);
+      pendingPrefixPieces = [];
+    }
+  }
+
+  if (pendingPrefixPieces.length > 0 && chunks.length > 0) {
+    const trailingPrefix = joinMarkdownPieces(pendingPrefixPieces);
+    const lastChunk = chunks[chunks.length - 1] ?? "";
+    const trailingCandidate = joinMarkdownPieces([lastChunk, trailingPrefix]);
+    if (meter.measure(trailingCandidate) <= chunkLimit) {
+      chunks[chunks.length - 1] = trailingCandidate;
+      pendingPrefixPieces = [];
+    }
+  }
+
+  if (pendingPrefixPieces.length > 0) {
+    currentPieces.push(joinMarkdownPieces(pendingPrefixPieces));
+  }
+
+  flushCurrent();
+  return chunks.length > 0 ? chunks : [text.trim()];
+}
+
+/**
+ * Markdown 感知分块
+ *
+ * 不会把代码块、表格从中间切坏；超过上限的块按类型拆分并补齐结构。
+ * 块之间统一以空行分隔，空文本返回空数组。
+ */
+export function chunkMarkdownText(text: string, options: MarkdownChunkOptions): string[] {
+  const normalized = text.trim();
+  if (!normalized) {
+    return [];
+  }
+
+  const meter = resolveMeter(options.unit);
+  const chunkLimit = resolveChunkSoftLimit(options.limit, options.softLimit);
+  const chunks = packMarkdownBlocks(meter, normalized, chunkLimit);
+  const marker = options.continuationMarker?.trim();
+  if (!marker || chunks.length <= 1) {
+    return chunks;
+  }
+
+  // 续块标记计入上限：预留标记长度后重新打包
+  const reserved = meter.measure(`${marker}\n`);
+  const markedLimit = chunkLimit - reserved;
+  if (markedLimit <= 0) {
+    return chunks;
+  }
+  return packMarkdownBlocks(meter, normalized, markedLimit).map((chunk, index) =>
+    index === 0 ? chunk : `${marker}\n${chunk}`
+  );
+}
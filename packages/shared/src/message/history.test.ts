@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  applyGroupHistoryToContext,
+  createGroupHistoryBuffer,
+  GROUP_HISTORY_CONTEXT_MARKER,
+  GROUP_HISTORY_CURRENT_MESSAGE_MARKER,
+  prependGroupHistory,
+  resolveGroupHistoryLimit,
+} from "./history.js";
+
+function entry(senderId: string, body: string, timestamp = Date.now()) {
+  return { senderId, body, timestamp };
+}
+
+describe("group history buffer", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("keeps only the latest historyLimit messages and clears on consume", () => {
+    const buffer = createGroupHistoryBuffer();
+    for (let index = 0; index < 5; index += 1) {
+      buffer.record("default:g1", entry("u1", `msg ${index}`), 3);
+    }
+    buffer.record("default:g2", entry("u2", "other group"), 3);
+
+    expect(buffer.peek("default:g1").map((item) => item.body)).toEqual(["msg 2", "msg 3", "msg 4"]);
+    expect(buffer.consume("default:g1")).toHaveLength(3);
+    expect(buffer.consume("default:g1")).toEqual([]);
+    expect(buffer.peek("default:g2")).toHaveLength(1);
+  });
+
+  it("resolves historyLimit with a channel fallback", () => {
+    expect(resolveGroupHistoryLimit(5.8, 10)).toBe(5);
+    expect(resolveGroupHistoryLimit(0, 10)).toBe(0);
+    expect(resolveGroupHistoryLimit(-1, 10)).toBe(10);
+    expect(resolveGroupHistoryLimit(Number.NaN, 10)).toBe(10);
+    expect(resolveGroupHistoryLimit(undefined, 20)).toBe(20);
+  });
+
+  it("skips recording when the limit is zero or the body is blank", () => {
+    const buffer = createGroupHistoryBuffer();
+    buffer.record("g", entry("u1", "hello"), 0);
+    buffer.record("g", entry("u1", "   "), 5);
+    expect(buffer.peek("g")).toEqual([]);
+  });
+
+  it("drops expired messages and evicts the least recently written group", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000_000);
+    const buffer = createGroupHistoryBuffer({ maxAgeMs: 1000, maxGroups: 2, maxBodyLength: 4 });
+    buffer.record("a", entry("u1", "old message"), 10);
+    vi.setSystemTime(1_001_500);
+    buffer.record("a", entry("u1", "new"), 10);
+    buffer.record("b", entry("u2", "b"), 10);
+    buffer.record("c", entry("u3", "c"), 10);
+
+    expect(buffer.peek("a")).toEqual([]);
+    expect(buffer.peek("b")).toHaveLength(1);
+    expect(buffer.peek("c")).toHaveLength(1);
+
+    buffer.record("b", entry("u2", "truncated body"), 10);
+    expect(buffer.peek("b")[1]?.body).toBe("trun…");
+  });
+
+  it("injects quoted history into Body and BodyForAgent only", () => {
+    const entries = [
+      { senderId: "u1", senderName: "张三", body: "明天几点开会？", timestamp: 1 },
+      { senderId: "u2", body: "十点\n会议室 A", timestamp: 2 },
+    ];
+    const ctx = { Body: "@bot 帮我总结一下", RawBody: "帮我总结一下", CommandBody: "帮我总结一下", BodyForAgent: "帮我总结一下" };
+
+    expect(applyGroupHistoryToContext(ctx, entries)).toBe(true);
+    expect(ctx.Body).toBe(
+      `${GROUP_HISTORY_CONTEXT_MARKER}\n> 张三: 明天几点开会？\n> u2: 十点\n> 会议室 A\n\n${GROUP_HISTORY_CURRENT_MESSAGE_MARKER}\n@bot 帮我总结一下`
+    );
+    expect(ctx.BodyForAgent).toBe(prependGroupHistory("帮我总结一下", entries));
+    expect(ctx.RawBody).toBe("帮我总结一下");
+    expect(ctx.CommandBody).toBe("帮我总结一下");
+    expect(applyGroupHistoryToContext(ctx, [])).toBe(false);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * 群聊历史消息缓冲
+ *
+ * requireMention 时机器人只处理 @ 它的那条消息，之前的讨论会丢失。
+ * 这里按群缓存最近未 @ 机器人的消息（受 historyLimit 与保留时长约束），
+ * 在机器人被 @ 时作为引用上下文注入，并在消费后清空。
+ */
+
+/**
+ * 单条历史消息
+ */
+export interface GroupHistoryEntry {
+  /** 发送者 ID */
+  senderId: string;
+  /** 发送者名称（可选，用于展示） */
+  senderName?: string;
+  /** 消息正文 */
+  body: string;
+  /** 消息时间（毫秒） */
+  timestamp: number;
+  /** 消息 ID */
+  messageId?: string;
+}
+
+/**
+ * 历史缓冲配置
+ */
+export interface GroupHistoryBufferOptions {
+  /** 单条消息的最长保留时间（毫秒），默认 1 小时 */
+  maxAgeMs?: number;
+  /** 最多缓存的群数量（超过时淘汰最久未写入的群），默认 1000 */
+  maxGroups?: number;
+  /** 单条消息正文最大长度（超出截断），默认 500 */
+  maxBodyLength?: number;
+}
+
+/**
+ * 群聊历史缓冲
+ */
+export interface GroupHistoryBuffer {
+  /**
+   * 记录一条未 @ 机器人的消息
+   *
+   * @param groupKey 群标识（建议包含 accountId，见 buildGroupHistoryKey）
+   * @param entry 消息
+   * @param limit 该群最多保留的条数（historyLimit），<= 0 时不记录
+   */
+  record(groupKey: string, entry: GroupHistoryEntry, limit: number): void;
+  /** 查看当前缓存（不清空） */
+  peek(groupKey: string): GroupHistoryEntry[];
+  /** 取出并清空该群缓存 */
+  consume(groupKey: string): GroupHistoryEntry[];
+  /** 清空指定群或全部缓存 */
+  clear(groupKey?: string): void;
+}
+
+export const DEFAULT_GROUP_HISTORY_MAX_AGE_MS = 60 * 60 * 1000;
+export const DEFAULT_GROUP_HISTORY_MAX_GROUPS = 1000;
+export const DEFAULT_GROUP_HISTORY_MAX_BODY_LENGTH = 500;
+
+/** 历史上下文标记（与 OpenClaw 内置渠道保持一致） */
+export const GROUP_HISTORY_CONTEXT_MARKER = "[Chat messages since your last reply - for context]";
+export const GROUP_HISTORY_CURRENT_MESSAGE_MARKER = "[Current message - respond to this]";
+
+/**
+ * 解析 historyLimit 配置
+ *
+ * 非负数按整数取整，缺省或非法值回退到渠道默认值；0 表示不缓存历史消息。
+ *
+ * @param value 配置值
+ * @param fallback 渠道默认条数
+ */
+export function resolveGroupHistoryLimit(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 ? Math.floor(value) : fallback;
+}
+
+/**
+ * 构建群历史缓存 key
+ */
+export function buildGroupHistoryKey(accountId: string, groupId: string): string {
+  return `${accountId}:${groupId}`;
+}
+
+function truncateBody(body: string, maxLength: number): string {
+  if (body.length <= maxLength) return body;
+  return `${body.slice(0, maxLength)}…`;
+}
+
+/**
+ * 创建群聊历史缓冲（进程内，按群为环形缓冲）
+ */
+export function createGroupHistoryBuffer(options: GroupHistoryBufferOptions = {}): GroupHistoryBuffer {
+  const maxAgeMs = options.maxAgeMs ?? DEFAULT_GROUP_HISTORY_MAX_AGE_MS;
+  const maxGroups = options.maxGroups ?? DEFAULT_GROUP_HISTORY_MAX_GROUPS;
+  const maxBodyLength = options.maxBodyLength ?? DEFAULT_GROUP_HISTORY_MAX_BODY_LENGTH;
+  // Map 保持插入顺序，写入时重新插入即可按最近写入淘汰
+  const groups = new Map<string, GroupHistoryEntry[]>();
+
+  const prune = (groupKey: string, now: number): GroupHistoryEntry[] => {
+    const entries = groups.get(groupKey);
+    if (!entries) return [];
+    const cutoff = now - maxAgeMs;
+    const fresh = entries.filter((entry) => entry.timestamp >= cutoff);
+    if (fresh.length === 0) {
+      groups.delete(groupKey);
+    } else if (fresh.length !== entries.length) {
+      groups.set(groupKey, fresh);
+    }
+    return fresh;
+  };
+
+  return {
+    record(groupKey, entry, limit) {
+      const body = entry.body.trim();
+      if (limit <= 0 || !body) return;
+
+      const entries = prune(groupKey, Date.now());
+      entries.push({ ...entry, body: truncateBody(body, maxBodyLength) });
+      if (entries.length > limit) {
+        entries.splice(0, entries.length - limit);
+      }
+
+      groups.delete(groupKey);
+      groups.set(groupKey, entries);
+      while (groups.size > maxGroups) {
+        const oldest = groups.keys().next().value;
+        if (oldest === undefined) break;
+        groups.delete(oldest);
+      }
+    },
+
+    peek(groupKey) {
+      return prune(groupKey, Date.now()).slice();
+    },
+
+    consume(groupKey) {
+      const entries = prune(groupKey, Date.now());
+      groups.delete(groupKey);
+      return entries;
+    },
+
+    clear(groupKey) {
+      if (groupKey === undefined) {
+        groups.clear();
+      } else {
+        groups.delete(groupKey);
+      }
+    },
+  };
+}
+
+/**
+ * 将历史消息格式化为引用上下文块（无历史时返回空字符串）
+ */
+export function formatGroupHistoryContext(entries: GroupHistoryEntry[]): string {
+  if (entries.length === 0) return "";
+  const lines = entries.map((entry) => {
+    const sender = entry.senderName?.trim() || entry.senderId;
+    const body = entry.body.replace(/\r?\n/g, "\n> ");
+    return `> ${sender}: ${body}`;
+  });
+  return `${GROUP_HISTORY_CONTEXT_MARKER}\n${lines.join("\n")}`;
+}
+
+/**
+ * 在当前消息前拼接历史上下文
+ */
+export function prependGroupHistory(body: string, entries: GroupHistoryEntry[]): string {
+  const context = formatGroupHistoryContext(entries);
+  if (!context) return body;
+  return `${context}\n\n${GROUP_HISTORY_CURRENT_MESSAGE_MARKER}\n${body}`;
+}
+
+/**
+ * 将历史上下文注入入站上下文
+ *
+ * 只改写发送给 LLM 的 Body / BodyForAgent，RawBody / CommandBody 保持原样，
+ * 避免影响命令解析。
+ *
+ * @returns 是否注入
+ */
+export function applyGroupHistoryToContext<T extends { Body?: string; BodyForAgent?: string }>(
+  ctx: T,
+  entries: GroupHistoryEntry[]
+): boolean {
+  if (entries.length === 0) return false;
+  let injected = false;
+  if (typeof ctx.Body === "string") {
+    ctx.Body = prependGroupHistory(ctx.Body, entries);
+    injected = true;
+  }
+  if (typeof ctx.BodyForAgent === "string" && ctx.BodyForAgent) {
+    ctx.BodyForAgent = prependGroupHistory(ctx.BodyForAgent, entries);
+    injected = true;
+  }
+  return injected;
+}
@@ -0,0 +1,8 @@
+/**
+ * 消息工具模块
+ *
+ * @module @openclaw-china/shared/message
+ */
+
+export * from "./history.js";
+export * from "./chunker.js";
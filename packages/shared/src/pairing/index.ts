@@ -0,0 +1,7 @@
+/**
+ * 单聊配对模块
+ *
+ * @module @openclaw-china/shared/pairing
+ */
+
+export * from "./store.js";
@@ -0,0 +1,93 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { checkDmPolicy } from "../policy/dm-policy.js";
+import {
+  PAIRING_CODE_TTL_MS,
+  approvePairingCode,
+  isSenderPaired,
+  issuePairingCode,
+  listPairedSenders,
+  listPendingPairingRequests,
+  resolvePairingChallenge,
+  resolvePairingStatePath,
+  revokePairedSender,
+} from "./store.js";
+
+describe("pairing store", () => {
+  let stateDir: string;
+
+  beforeEach(() => {
+    stateDir = mkdtempSync(join(tmpdir(), "openclaw-pairing-"));
+  });
+
+  afterEach(() => {
+    rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  it("stores state per channel and account", () => {
+    expect(resolvePairingStatePath({ channel: "qqbot", stateDir })).toBe(join(stateDir, "qqbot", "default.json"));
+    expect(resolvePairingStatePath({ channel: "qqbot", accountId: "a/b", stateDir })).toBe(
+      join(stateDir, "qqbot", "a_b.json")
+    );
+  });
+
+  it("issues a reusable code and approves it from any channel", () => {
+    const first = issuePairingCode({ channel: "dingtalk", senderId: "User1", stateDir, now: 1000 });
+    expect(first.notify).toBe(true);
+    expect(first.request.code).toMatch(/^[A-HJ-NP-Z2-9]{8}$/);
+
+    const again = issuePairingCode({ channel: "dingtalk", senderId: " User1 ", stateDir, now: 2000 });
+    expect(again.request.code).toBe(first.request.code);
+    expect(again.notify).toBe(false);
+
+    expect(listPendingPairingRequests({ stateDir, now: 2000 })).toHaveLength(1);
+    expect(approvePairingCode({ code: first.request.code.toLowerCase(), stateDir, now: 3000 })).toEqual({
+      channel: "dingtalk",
+      accountId: "default",
+      senderId: "User1",
+    });
+    expect(isSenderPaired({ channel: "dingtalk", senderId: "User1", stateDir })).toBe(true);
+    expect(isSenderPaired({ channel: "dingtalk", senderId: "user1", stateDir })).toBe(false);
+    expect(isSenderPaired({ channel: "dingtalk", accountId: "other", senderId: "User1", stateDir })).toBe(false);
+    expect(listPendingPairingRequests({ stateDir, now: 3000 })).toHaveLength(0);
+    expect(listPairedSenders({ stateDir })).toMatchObject([{ channel: "dingtalk", senderId: "User1" }]);
+  });
+
+  it("rejects expired codes", () => {
+    const { request } = issuePairingCode({ channel: "feishu", senderId: "ou_1", stateDir, now: 0 });
+    expect(approvePairingCode({ code: request.code, stateDir, now: PAIRING_CODE_TTL_MS + 1 })).toBeNull();
+    expect(isSenderPaired({ channel: "feishu", senderId: "ou_1", stateDir })).toBe(false);
+  });
+
+  it("revokes paired senders", () => {
+    const { request } = issuePairingCode({ channel: "wecom", senderId: "zhangsan", stateDir });
+    approvePairingCode({ code: request.code, channel: "wecom", stateDir });
+    expect(revokePairedSender({ channel: "wecom", senderId: "zhangsan", stateDir })).toBe(true);
+    expect(revokePairedSender({ channel: "wecom", senderId: "zhangsan", stateDir })).toBe(false);
+    expect(isSenderPaired({ channel: "wecom", senderId: "zhangsan", stateDir })).toBe(false);
+  });
+
+  it("builds a challenge with the approve command", () => {
+    const text = resolvePairingChallenge({ channel: "qqbot", senderId: "openid", stateDir, now: 0 });
+    expect(text).toContain("openclaw china pairing approve ");
+    expect(resolvePairingChallenge({ channel: "qqbot", senderId: "openid", stateDir, now: 1000 })).toBeUndefined();
+  });
+
+  it("gates dmPolicy=pairing on the store when a pairing context is given", () => {
+    const pairing = { channel: "dingtalk", stateDir };
+    expect(checkDmPolicy({ dmPolicy: "pairing", senderId: "u1" })).toEqual({ allowed: true });
+    expect(checkDmPolicy({ dmPolicy: "pairing", senderId: "u1", pairing })).toMatchObject({
+      allowed: false,
+      pairingRequired: true,
+    });
+    expect(checkDmPolicy({ dmPolicy: "pairing", senderId: "u1", allowFrom: ["u1"], pairing }).allowed).toBe(true);
+
+    const { request } = issuePairingCode({ ...pairing, senderId: "u1" });
+    approvePairingCode({ code: request.code, stateDir });
+    expect(checkDmPolicy({ dmPolicy: "pairing", senderId: "u1", pairing })).toEqual({ allowed: true });
+  });
+});
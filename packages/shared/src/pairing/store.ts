@@ -0,0 +1,353 @@
+/**
+ * 单聊配对存储
+ *
+ * dmPolicy=pairing 时，未知发送者会收到一次性配对码，运营者通过
+ * `openclaw china pairing approve <CODE>` 批准后，该发送者持久化到
+ * `$OPENCLAW_STATE_DIR/pairing/<channel>/<accountId>.json`（默认 ~/.openclaw），后续消息直接放行。
+ *
+ * @module @openclaw-china/shared/pairing
+ */
+
+import { randomInt } from "node:crypto";
+import { existsSync, readdirSync } from "node:fs";
+import { basename, join } from "node:path";
+
+import { readJsonStateSync, updateJsonStateSync, type JsonStateSchema } from "../state/json-store.js";
+import { resolveOpenClawStateDir } from "../state/paths.js";
+
+/** 默认账户 ID */
+const DEFAULT_ACCOUNT_ID = "default";
+
+/** 配对码字符集（去掉易混淆的 0/O/1/I） */
+const PAIRING_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+/** 配对码长度 */
+const PAIRING_CODE_LENGTH = 8;
+
+/** 配对码有效期（毫秒） */
+export const PAIRING_CODE_TTL_MS = 60 * 60 * 1000;
+
+/** 同一配对码的重复提示间隔（毫秒），避免刷屏 */
+const PAIRING_RENOTIFY_INTERVAL_MS = 60 * 1000;
+
+const STATE_VERSION = 1;
+
+/**
+ * 已批准的发送者
+ */
+export interface PairedSender {
+  /** 发送者 ID */
+  senderId: string;
+  /** 批准时间 */
+  approvedAt: number;
+  /** 批准时使用的配对码 */
+  code?: string;
+}
+
+/**
+ * 待批准的配对请求
+ */
+export interface PendingPairingRequest {
+  /** 配对码 */
+  code: string;
+  /** 发送者 ID */
+  senderId: string;
+  /** 创建时间 */
+  createdAt: number;
+  /** 过期时间 */
+  expiresAt: number;
+  /** 最近一次向发送者提示的时间 */
+  notifiedAt?: number;
+}
+
+/**
+ * 配对上下文：定位某个渠道账户的配对状态
+ */
+export interface PairingContext {
+  /** 渠道 ID，如 dingtalk、qqbot */
+  channel: string;
+  /** 账户 ID，默认 default */
+  accountId?: string;
+  /** 状态目录，默认 $OPENCLAW_STATE_DIR/pairing */
+  stateDir?: string;
+}
+
+interface PairingState {
+  version: number;
+  approved: Record<string, Omit<PairedSender, "senderId"> & { senderId?: string }>;
+  pending: Record<string, Omit<PendingPairingRequest, "code">>;
+}
+
+/** 发送者 ID 区分大小写（如 QQ openid、飞书 open_id），只去除首尾空白 */
+function normalizeSenderKey(senderId: string): string {
+  return senderId.trim();
+}
+
+function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function sanitizeSegment(value: string): string {
+  return value.trim().replace(/[^a-zA-Z0-9._-]/g, "_") || "_";
+}
+
+function resolveStateDir(stateDir?: string): string {
+  return stateDir?.trim() || join(resolveOpenClawStateDir(), "pairing");
+}
+
+/**
+ * 解析配对状态文件路径
+ */
+export function resolvePairingStatePath(ctx: PairingContext): string {
+  return join(
+    resolveStateDir(ctx.stateDir),
+    sanitizeSegment(ctx.channel),
+    `${sanitizeSegment(ctx.accountId ?? DEFAULT_ACCOUNT_ID)}.json`
+  );
+}
+
+/**
+ * 配对状态 schema
+ *
+ * 过期清理依赖调用方传入的 now，因此不使用 schema.prune，由各操作在锁内自行调用 pruneExpired。
+ */
+const pairingSchema: JsonStateSchema<PairingState> = {
+  version: STATE_VERSION,
+  create: () => ({ version: STATE_VERSION, approved: {}, pending: {} }),
+  migrate: (raw) => {
+    const parsed = (raw && typeof raw === "object" ? raw : {}) as Partial<PairingState>;
+    return {
+      version: STATE_VERSION,
+      approved: parsed.approved && typeof parsed.approved === "object" ? parsed.approved : {},
+      pending: parsed.pending && typeof parsed.pending === "object" ? parsed.pending : {},
+    };
+  },
+};
+
+function readState(filePath: string): PairingState {
+  return readJsonStateSync(filePath, pairingSchema);
+}
+
+/** 在文件锁内基于最新状态执行读-改-写 */
+function updateState<R>(filePath: string, mutator: (state: PairingState) => R): R {
+  return updateJsonStateSync(filePath, pairingSchema, mutator);
+}
+
+/** 清理过期的待批准请求，返回是否有变更 */
+function pruneExpired(state: PairingState, now: number): boolean {
+  let changed = false;
+  for (const [code, entry] of Object.entries(state.pending)) {
+    if (entry.expiresAt <= now) {
+      delete state.pending[code];
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+function generateCode(existing: Record<string, unknown>): string {
+  for (;;) {
+    let code = "";
+    for (let i = 0; i < PAIRING_CODE_LENGTH; i++) {
+      code += PAIRING_CODE_ALPHABET[randomInt(PAIRING_CODE_ALPHABET.length)];
+    }
+    if (!existing[code]) return code;
+  }
+}
+
+/**
+ * 发送者是否已完成配对
+ */
+export function isSenderPaired(ctx: PairingContext & { senderId: string }): boolean {
+  const key = normalizeSenderKey(ctx.senderId);
+  if (!key) return false;
+  return Boolean(readState(resolvePairingStatePath(ctx)).approved[key]);
+}
+
+/**
+ * 为发送者签发配对码
+ *
+ * 同一发送者存在未过期的配对码时复用，不重复签发。
+ *
+ * @returns 配对请求，以及本次是否需要向发送者提示（受重复提示间隔限制）
+ */
+export function issuePairingCode(
+  ctx: PairingContext & { senderId: string; now?: number }
+): { request: PendingPairingRequest; notify: boolean } {
+  const now = ctx.now ?? Date.now();
+  const key = normalizeSenderKey(ctx.senderId);
+
+  return updateState(resolvePairingStatePath(ctx), (state) => {
+    pruneExpired(state, now);
+
+    const existing = Object.entries(state.pending).find(
+      ([, entry]) => normalizeSenderKey(entry.senderId) === key
+    );
+
+    if (existing) {
+      const [code, entry] = existing;
+      const notify = entry.notifiedAt === undefined || now - entry.notifiedAt >= PAIRING_RENOTIFY_INTERVAL_MS;
+      if (notify) entry.notifiedAt = now;
+      return { request: { code, ...entry }, notify };
+    }
+
+    const code = generateCode(state.pending);
+    const entry = {
+      senderId: ctx.senderId.trim(),
+      createdAt: now,
+      expiresAt: now + PAIRING_CODE_TTL_MS,
+      notifiedAt: now,
+    };
+    state.pending[code] = entry;
+    return { request: { code, ...entry }, notify: true };
+  });
+}
+
+function listStateFiles(
+  stateDir: string | undefined,
+  channel?: string
+): Array<{ channel: string; accountId: string; filePath: string }> {
+  const root = resolveStateDir(stateDir);
+  if (!existsSync(root)) return [];
+  const channels = channel
+    ? [sanitizeSegment(channel)]
+    : readdirSync(root, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => entry.name);
+
+  const files: Array<{ channel: string; accountId: string; filePath: string }> = [];
+  for (const channelDir of channels) {
+    const dir = join(root, channelDir);
+    if (!existsSync(dir)) continue;
+    for (const name of readdirSync(dir)) {
+      if (!name.endsWith(".json")) continue;
+      files.push({ channel: channelDir, accountId: basename(name, ".json"), filePath: join(dir, name) });
+    }
+  }
+  return files;
+}
+
+/**
+ * 批准配对码
+ *
+ * 未指定 channel 时在所有渠道中查找。
+ *
+ * @returns 批准结果；配对码不存在或已过期时返回 null
+ */
+export function approvePairingCode(params: {
+  code: string;
+  channel?: string;
+  stateDir?: string;
+  now?: number;
+}): { channel: string; accountId: string; senderId: string } | null {
+  const code = normalizeCode(params.code);
+  const now = params.now ?? Date.now();
+  if (!code) return null;
+
+  for (const file of listStateFiles(params.stateDir, params.channel)) {
+    // 先无锁筛选，只对包含该配对码的文件加锁读-改-写
+    if (!readState(file.filePath).pending[code]) continue;
+
+    const senderId = updateState(file.filePath, (state) => {
+      pruneExpired(state, now);
+      const entry = state.pending[code];
+      if (!entry) return null;
+
+      delete state.pending[code];
+      state.approved[normalizeSenderKey(entry.senderId)] = {
+        senderId: entry.senderId,
+        approvedAt: now,
+        code,
+      };
+      return entry.senderId;
+    });
+    if (senderId !== null) {
+      return { channel: file.channel, accountId: file.accountId, senderId };
+    }
+  }
+  return null;
+}
+
+/**
+ * 撤销已配对的发送者
+ *
+ * @returns 是否存在并已撤销
+ */
+export function revokePairedSender(ctx: PairingContext & { senderId: string }): boolean {
+  const filePath = resolvePairingStatePath(ctx);
+  const key = normalizeSenderKey(ctx.senderId);
+  if (!readState(filePath).approved[key]) return false;
+  return updateState(filePath, (state) => {
+    if (!state.approved[key]) return false;
+    delete state.approved[key];
+    return true;
+  });
+}
+
+/**
+ * 列出待批准的配对请求（不含已过期）
+ */
+export function listPendingPairingRequests(params?: {
+  channel?: string;
+  stateDir?: string;
+  now?: number;
+}): Array<PendingPairingRequest & { channel: string; accountId: string }> {
+  const now = params?.now ?? Date.now();
+  const result: Array<PendingPairingRequest & { channel: string; accountId: string }> = [];
+  for (const file of listStateFiles(params?.stateDir, params?.channel)) {
+    const state = readState(file.filePath);
+    for (const [code, entry] of Object.entries(state.pending)) {
+      if (entry.expiresAt <= now) continue;
+      result.push({ channel: file.channel, accountId: file.accountId, code, ...entry });
+    }
+  }
+  return result.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * 列出已配对的发送者
+ */
+export function listPairedSenders(params?: {
+  channel?: string;
+  stateDir?: string;
+}): Array<PairedSender & { channel: string; accountId: string }> {
+  const result: Array<PairedSender & { channel: string; accountId: string }> = [];
+  for (const file of listStateFiles(params?.stateDir, params?.channel)) {
+    const state = readState(file.filePath);
+    for (const [key, entry] of Object.entries(state.approved)) {
+      result.push({
+        channel: file.channel,
+        accountId: file.accountId,
+        senderId: entry.senderId ?? key,
+        approvedAt: entry.approvedAt,
+        code: entry.code,
+      });
+    }
+  }
+  return result.sort((a, b) => a.approvedAt - b.approvedAt);
+}
+
+/**
+ * 构建发给未配对发送者的提示文本
+ */
+export function buildPairingChallengeText(request: Pick<PendingPairingRequest, "code" | "senderId">): string {
+  return [
+    "你还没有与该机器人完成配对，消息暂不会被处理。",
+    `配对码：${request.code}（1 小时内有效）`,
+    `你的 ID：${request.senderId}`,
+    "请将配对码发给管理员，由管理员执行：",
+    `openclaw china pairing approve ${request.code}`,
+  ].join("\n");
+}
+
+/**
+ * 处理未配对发送者：签发配对码并返回需要发送的提示文本
+ *
+ * @returns 提示文本；处于重复提示间隔内时返回 undefined（静默丢弃）
+ */
+export function resolvePairingChallenge(
+  ctx: PairingContext & { senderId: string; now?: number }
+): string | undefined {
+  const { request, notify } = issuePairingCode(ctx);
+  return notify ? buildPairingChallengeText(request) : undefined;
+}
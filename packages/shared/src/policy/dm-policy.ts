@@ -1,16 +1,20 @@
 /**
  * DM 策略引擎
  *
- * 实现 open/pairing/allowlist 策略检查
+ * 实现 open/pairing/allowlist/disabled 策略检查，allowFrom/denyFrom 支持 "*" 与前缀通配
  */
 
+import { isSenderPaired, type PairingContext } from "../pairing/store.js";
+import { matchesPolicyList, type PolicyReasonCode } from "./matcher.js";
+
 /**
  * DM 策略类型
  * - open: 允许所有单聊消息
- * - pairing: 配对模式（允许所有，配对逻辑由上层处理）
+ * - pairing: 配对模式（白名单或已配对的发送者放行，其余需要配对）
  * - allowlist: 仅允许白名单中的发送者
+ * - disabled: 禁用所有单聊消息
  */
-export type DmPolicyType = "open" | "pairing" | "allowlist";
+export type DmPolicyType = "open" | "pairing" | "allowlist" | "disabled";
 
 /**
  * 策略检查结果
@@ -20,6 +24,10 @@ export interface PolicyCheckResult {
   allowed: boolean;
   /** 拒绝原因（如果被拒绝） */
   reason?: string;
+  /** 拒绝原因码（如果被拒绝） */
+  code?: PolicyReasonCode;
+  /** 需要配对（pairing 策略下未配对的发送者），上层应签发配对码 */
+  pairingRequired?: boolean;
 }
 
 /**
@@ -30,8 +38,16 @@ export interface DmPolicyCheckParams {
   dmPolicy: DmPolicyType;
   /** 发送者 ID */
   senderId: string;
-  /** 白名单（allowlist 策略时使用） */
+  /** 白名单（allowlist 策略时使用，pairing 策略下免配对） */
   allowFrom?: string[];
+  /** 黑名单：命中时任何策略下都拒绝 */
+  denyFrom?: string[];
+  /**
+   * 配对上下文（pairing 策略时使用）
+   *
+   * 未提供时 pairing 等同 open，保持旧行为。
+   */
+  pairing?: PairingContext;
 }
 
 /**
@@ -51,11 +67,31 @@ export interface DmPolicyCheckParams {
  * // => { allowed: true }
  *
  * checkDmPolicy({ dmPolicy: "allowlist", senderId: "user3", allowFrom: ["user1", "user2"] });
- * // => { allowed: false, reason: "sender user3 not in DM allowlist" }
+ * // => { allowed: false, reason: "sender user3 not in DM allowlist", code: "dm_not_allowlisted" }
+ *
+ * // 通配 + 黑名单
+ * checkDmPolicy({ dmPolicy: "open", senderId: "bot_1", denyFrom: ["bot_*"] });
+ * // => { allowed: false, reason: "sender bot_1 denied", code: "sender_denied" }
+ *
+ * // 禁用策略
+ * checkDmPolicy({ dmPolicy: "disabled", senderId: "user1" });
+ * // => { allowed: false, reason: "direct messages disabled", code: "dm_disabled" }
+ *
+ * // 配对策略
+ * checkDmPolicy({ dmPolicy: "pairing", senderId: "user3", pairing: { channel: "dingtalk" } });
+ * // => { allowed: false, reason: "sender user3 not paired", code: "dm_not_paired", pairingRequired: true }
  * ```
  */
 export function checkDmPolicy(params: DmPolicyCheckParams): PolicyCheckResult {
-  const { dmPolicy, senderId, allowFrom = [] } = params;
+  const { dmPolicy, senderId, allowFrom = [], denyFrom, pairing } = params;
+
+  if (matchesPolicyList(denyFrom, senderId)) {
+    return {
+      allowed: false,
+      reason: `sender ${senderId} denied`,
+      code: "sender_denied",
+    };
+  }
 
   switch (dmPolicy) {
     case "open":
@@ -63,17 +99,37 @@ export function checkDmPolicy(params: DmPolicyCheckParams): PolicyCheckResult {
       return { allowed: true };
 
     case "pairing":
-      // 配对策略：允许所有单聊消息（配对逻辑由上层处理）
-      return { allowed: true };
+      // 配对策略：白名单或已配对的发送者放行
+      if (!pairing || matchesPolicyList(allowFrom, senderId)) {
+        return { allowed: true };
+      }
+      if (isSenderPaired({ ...pairing, senderId })) {
+        return { allowed: true };
+      }
+      return {
+        allowed: false,
+        reason: `sender ${senderId} not paired`,
+        code: "dm_not_paired",
+        pairingRequired: true,
+      };
+
+    case "disabled":
+      // 禁用策略：拒绝所有单聊消息
+      return {
+        allowed: false,
+        reason: "direct messages disabled",
+        code: "dm_disabled",
+      };
 
     case "allowlist":
       // 白名单策略：仅允许 allowFrom 中的发送者
-      if (allowFrom.includes(senderId)) {
+      if (matchesPolicyList(allowFrom, senderId)) {
         return { allowed: true };
       }
       return {
         allowed: false,
         reason: `sender ${senderId} not in DM allowlist`,
+        code: "dm_not_allowlisted",
       };
 
     default:
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+
+import { checkDmPolicy } from "./dm-policy.js";
+import { checkGroupPolicy } from "./group-policy.js";
+import { matchesPolicyRule, resolveGroupPolicyOverride } from "./matcher.js";
+
+describe("policy matcher", () => {
+  it("supports exact, prefix and wildcard rules", () => {
+    expect(matchesPolicyRule("*", "anything")).toBe(true);
+    expect(matchesPolicyRule("cid_*", "cid_123")).toBe(true);
+    expect(matchesPolicyRule("cid_*", "xcid_123")).toBe(false);
+    expect(matchesPolicyRule("user1", "user1")).toBe(true);
+    expect(matchesPolicyRule("user1", "user10")).toBe(false);
+    expect(matchesPolicyRule("", "")).toBe(false);
+  });
+
+  it("prefers exact over longest prefix over *", () => {
+    const groups = {
+      "*": { requireMention: true },
+      "g_*": { requireMention: false },
+      "g_team_*": { allowFrom: ["u1"] },
+      g_team_1: { enabled: false },
+    };
+    expect(resolveGroupPolicyOverride(groups, "g_team_1")?.key).toBe("g_team_1");
+    expect(resolveGroupPolicyOverride(groups, "g_team_2")?.key).toBe("g_team_*");
+    expect(resolveGroupPolicyOverride(groups, "g_other")?.key).toBe("g_*");
+    expect(resolveGroupPolicyOverride(groups, "h")?.key).toBe("*");
+    expect(resolveGroupPolicyOverride(undefined, "h")).toBeUndefined();
+  });
+});
+
+describe("checkDmPolicy rules", () => {
+  it("denies denyFrom senders under every policy", () => {
+    for (const dmPolicy of ["open", "pairing", "allowlist"] as const) {
+      expect(checkDmPolicy({ dmPolicy, senderId: "bot_1", allowFrom: ["*"], denyFrom: ["bot_*"] })).toEqual({
+        allowed: false,
+        reason: "sender bot_1 denied",
+        code: "sender_denied",
+      });
+    }
+  });
+
+  it("rejects every sender when direct messages are disabled", () => {
+    expect(checkDmPolicy({ dmPolicy: "disabled", senderId: "user1", allowFrom: ["*"] })).toEqual({
+      allowed: false,
+      reason: "direct messages disabled",
+      code: "dm_disabled",
+    });
+  });
+
+  it("matches allowlist wildcards", () => {
+    expect(checkDmPolicy({ dmPolicy: "allowlist", senderId: "staff_9", allowFrom: ["staff_*"] }).allowed).toBe(true);
+    expect(checkDmPolicy({ dmPolicy: "allowlist", senderId: "guest", allowFrom: ["staff_*"] }).code).toBe(
+      "dm_not_allowlisted"
+    );
+  });
+});
+
+describe("checkGroupPolicy overrides", () => {
+  const base = { groupPolicy: "open" as const, requireMention: true, mentionedBot: false };
+
+  it("lets a group skip the mention requirement", () => {
+    const groups = { g1: { requireMention: false } };
+    expect(checkGroupPolicy({ ...base, conversationId: "g1", groups }).allowed).toBe(true);
+    expect(checkGroupPolicy({ ...base, conversationId: "g2", groups }).code).toBe("mention_required");
+  });
+
+  it("restricts senders per group", () => {
+    const groups = { g1: { requireMention: false, allowFrom: ["admin_*"], denyFrom: ["admin_bad"] } };
+    expect(checkGroupPolicy({ ...base, conversationId: "g1", groups, senderId: "admin_a" }).allowed).toBe(true);
+    expect(checkGroupPolicy({ ...base, conversationId: "g1", groups, senderId: "user" }).code).toBe(
+      "group_sender_not_allowed"
+    );
+    expect(checkGroupPolicy({ ...base, conversationId: "g1", groups, senderId: "admin_bad" }).code).toBe(
+      "sender_denied"
+    );
+  });
+
+  it("applies account denyFrom in every group", () => {
+    const result = checkGroupPolicy({ ...base, mentionedBot: true, conversationId: "g1", senderId: "spam", denyFrom: ["spam"] });
+    expect(result).toEqual({ allowed: false, reason: "sender spam denied", code: "sender_denied" });
+  });
+
+  it("treats configured groups as allowlisted and honours enabled=false", () => {
+    const groups = { "team_*": {}, team_muted: { enabled: false }, "*": { requireMention: true } };
+    const allowlist = { ...base, groupPolicy: "allowlist" as const, mentionedBot: true, groups };
+    expect(checkGroupPolicy({ ...allowlist, conversationId: "team_a" }).allowed).toBe(true);
+    expect(checkGroupPolicy({ ...allowlist, conversationId: "other" }).code).toBe("group_not_allowlisted");
+    expect(checkGroupPolicy({ ...allowlist, conversationId: "other", groupAllowFrom: ["oth*"] }).allowed).toBe(true);
+    expect(checkGroupPolicy({ ...allowlist, conversationId: "team_muted" })).toEqual({
+      allowed: false,
+      reason: "group team_muted disabled",
+      code: "group_disabled",
+    });
+  });
+});
@@ -1,10 +1,11 @@
 /**
  * 群组策略引擎
  *
- * 实现 open/allowlist/disabled 策略检查
+ * 实现 open/allowlist/disabled 策略检查，支持通配规则、发送者黑名单与按群覆盖
  */
 
 import type { PolicyCheckResult } from "./dm-policy.js";
+import { matchesPolicyList, resolveGroupPolicyOverride, type GroupPolicyOverride } from "./matcher.js";
 
 /**
  * 群组策略类型
@@ -24,10 +25,20 @@ export interface GroupPolicyCheckParams {
   conversationId: string;
   /** 群组白名单（allowlist 策略时使用） */
   groupAllowFrom?: string[];
-  /** 是否要求 @提及机器人 */
+  /** 是否要求 @提及机器人（可被按群覆盖） */
   requireMention: boolean;
   /** 是否 @提及了机器人 */
   mentionedBot: boolean;
+  /** 发送者 ID（发送者规则需要） */
+  senderId?: string;
+  /** 发送者黑名单：命中时在所有群内拒绝 */
+  denyFrom?: string[];
+  /**
+   * 按群覆盖，key 为群 ID、前缀通配（如 "cid_*"）或 "*"
+   *
+   * allowlist 策略下，被非 "*" key 命中的群视为已加入白名单。
+   */
+  groups?: Record<string, GroupPolicyOverride | undefined>;
 }
 
 /**
@@ -40,19 +51,28 @@ export interface GroupPolicyCheckParams {
  * ```ts
  * // 禁用策略
  * checkGroupPolicy({ groupPolicy: "disabled", conversationId: "g1", requireMention: false, mentionedBot: false });
- * // => { allowed: false, reason: "group messages disabled" }
+ * // => { allowed: false, reason: "group messages disabled", code: "group_disabled" }
  *
  * // 开放策略 + 要求 @提及
  * checkGroupPolicy({ groupPolicy: "open", conversationId: "g1", requireMention: true, mentionedBot: false });
- * // => { allowed: false, reason: "message did not mention bot" }
+ * // => { allowed: false, reason: "message did not mention bot", code: "mention_required" }
  *
  * // 白名单策略
  * checkGroupPolicy({ groupPolicy: "allowlist", conversationId: "g1", groupAllowFrom: ["g1"], requireMention: false, mentionedBot: false });
  * // => { allowed: true }
+ *
+ * // 按群覆盖：g2 免 @，且仅允许 u_ 开头的发送者
+ * checkGroupPolicy({
+ *   groupPolicy: "open", conversationId: "g2", requireMention: true, mentionedBot: false,
+ *   senderId: "u_1", groups: { g2: { requireMention: false, allowFrom: ["u_*"] } },
+ * });
+ * // => { allowed: true }
  * ```
  */
 export function checkGroupPolicy(params: GroupPolicyCheckParams): PolicyCheckResult {
-  const { groupPolicy, conversationId, groupAllowFrom = [], requireMention, mentionedBot } = params;
+  const { groupPolicy, conversationId, groupAllowFrom = [], mentionedBot, senderId, denyFrom, groups } = params;
+  const matched = resolveGroupPolicyOverride(groups, conversationId);
+  const override = matched?.override;
 
   // 首先检查群聊策略
   switch (groupPolicy) {
@@ -61,14 +81,16 @@ export function checkGroupPolicy(params: GroupPolicyCheckParams): PolicyCheckRes
       return {
         allowed: false,
         reason: "group messages disabled",
+        code: "group_disabled",
       };
 
     case "allowlist":
-      // 白名单策略：仅允许 groupAllowFrom 中的群组
-      if (!groupAllowFrom.includes(conversationId)) {
+      // 白名单策略：仅允许 groupAllowFrom 或 groups 中配置的群组
+      if (!matchesPolicyList(groupAllowFrom, conversationId) && (!matched || matched.key === "*")) {
         return {
           allowed: false,
           reason: `group ${conversationId} not in allowlist`,
+          code: "group_not_allowlisted",
         };
       }
       break;
@@ -81,11 +103,40 @@ export function checkGroupPolicy(params: GroupPolicyCheckParams): PolicyCheckRes
       break;
   }
 
+  // 按群禁用
+  if (override?.enabled === false) {
+    return {
+      allowed: false,
+      reason: `group ${conversationId} disabled`,
+      code: "group_disabled",
+    };
+  }
+
+  // 发送者规则
+  if (senderId !== undefined) {
+    if (matchesPolicyList(denyFrom, senderId) || matchesPolicyList(override?.denyFrom, senderId)) {
+      return {
+        allowed: false,
+        reason: `sender ${senderId} denied`,
+        code: "sender_denied",
+      };
+    }
+    if (override?.allowFrom && override.allowFrom.length > 0 && !matchesPolicyList(override.allowFrom, senderId)) {
+      return {
+        allowed: false,
+        reason: `sender ${senderId} not allowed in group ${conversationId}`,
+        code: "group_sender_not_allowed",
+      };
+    }
+  }
+
   // 然后检查 @提及要求
+  const requireMention = override?.requireMention ?? params.requireMention;
   if (requireMention && !mentionedBot) {
     return {
       allowed: false,
       reason: "message did not mention bot",
+      code: "mention_required",
     };
   }
 
@@ -1,2 +1,3 @@
 export * from "./dm-policy.js";
 export * from "./group-policy.js";
+export * from "./matcher.js";
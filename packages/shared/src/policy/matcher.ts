@@ -0,0 +1,94 @@
+/**
+ * 策略规则匹配
+ *
+ * 规则语法:
+ * - "*": 匹配任意 ID
+ * - "prefix*": 前缀匹配，如 "cid_*"
+ * - 其他: 精确匹配
+ */
+
+/**
+ * 策略拒绝原因码
+ * - dm_disabled: 单聊已禁用
+ * - dm_not_allowlisted: 发送者不在单聊白名单
+ * - dm_not_paired: 发送者尚未配对
+ * - sender_denied: 发送者命中 denyFrom
+ * - group_disabled: 群聊已禁用（全局或按群覆盖）
+ * - group_not_allowlisted: 群组不在白名单
+ * - group_sender_not_allowed: 发送者不在该群的 allowFrom 中
+ * - mention_required: 需要 @机器人
+ */
+export type PolicyReasonCode =
+  | "dm_disabled"
+  | "dm_not_allowlisted"
+  | "dm_not_paired"
+  | "sender_denied"
+  | "group_disabled"
+  | "group_not_allowlisted"
+  | "group_sender_not_allowed"
+  | "mention_required";
+
+/**
+ * 单个规则是否匹配 ID
+ */
+export function matchesPolicyRule(rule: string, id: string): boolean {
+  const pattern = rule.trim();
+  if (!pattern) return false;
+  if (pattern === "*") return true;
+  if (pattern.endsWith("*")) {
+    return id.startsWith(pattern.slice(0, -1));
+  }
+  return pattern === id;
+}
+
+/**
+ * 规则列表中是否有任一规则匹配 ID
+ */
+export function matchesPolicyList(rules: readonly string[] | undefined, id: string): boolean {
+  if (!rules || rules.length === 0) return false;
+  return rules.some((rule) => matchesPolicyRule(rule, id));
+}
+
+/**
+ * 按群覆盖配置
+ */
+export interface GroupPolicyOverride {
+  /** 是否允许在该群响应，false 表示禁用 */
+  enabled?: boolean;
+  /** 覆盖账户级 requireMention */
+  requireMention?: boolean;
+  /** 该群内允许触发的发送者，未配置表示不限制 */
+  allowFrom?: string[];
+  /** 该群内禁止触发的发送者 */
+  denyFrom?: string[];
+}
+
+/**
+ * 解析会话匹配的按群覆盖配置
+ *
+ * 优先级: 精确匹配 > 最长前缀匹配 > "*"
+ *
+ * @returns 匹配的覆盖配置及其规则 key；未匹配返回 undefined
+ */
+export function resolveGroupPolicyOverride(
+  groups: Record<string, GroupPolicyOverride | undefined> | undefined,
+  conversationId: string
+): { key: string; override: GroupPolicyOverride } | undefined {
+  if (!groups) return undefined;
+
+  const exact = groups[conversationId];
+  if (exact) return { key: conversationId, override: exact };
+
+  let best: { key: string; override: GroupPolicyOverride } | undefined;
+  for (const [key, override] of Object.entries(groups)) {
+    if (!override || key === "*" || !key.endsWith("*")) continue;
+    if (!matchesPolicyRule(key, conversationId)) continue;
+    if (!best || key.length > best.key.length) {
+      best = { key, override };
+    }
+  }
+  if (best) return best;
+
+  const wildcard = groups["*"];
+  return wildcard ? { key: "*", override: wildcard } : undefined;
+}
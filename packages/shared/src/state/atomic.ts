@@ -0,0 +1,32 @@
+/**
+ * 原子写文件
+ *
+ * 先写入同目录临时文件再 rename 覆盖，读方不会看到写了一半的文件。
+ *
+ * @module @openclaw-china/shared/state
+ */
+
+import { randomBytes } from "node:crypto";
+import { mkdirSync, renameSync, rmSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+
+/**
+ * 原子写文件（自动创建目录）
+ *
+ * @param options.mode 文件权限，如 0o600
+ */
+export function writeFileAtomicSync(
+  filePath: string,
+  content: string,
+  options: { mode?: number } = {}
+): void {
+  mkdirSync(dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+  try {
+    writeFileSync(tempPath, content, { encoding: "utf8", mode: options.mode });
+    renameSync(tempPath, filePath);
+  } catch (err) {
+    rmSync(tempPath, { force: true });
+    throw err;
+  }
+}
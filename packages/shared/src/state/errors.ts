@@ -0,0 +1,17 @@
+/**
+ * 状态存储错误
+ *
+ * @module @openclaw-china/shared/state
+ */
+
+export type StateStoreErrorKind = "lock_timeout" | "unsupported_version";
+
+export class StateStoreError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: StateStoreErrorKind
+  ) {
+    super(message);
+    this.name = "StateStoreError";
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * 渠道运行时状态存储模块
+ *
+ * @module @openclaw-china/shared/state
+ */
+
+export * from "./paths.js";
+export * from "./errors.js";
+export * from "./atomic.js";
+export * from "./lock.js";
+export * from "./json-store.js";
+export * from "./log-store.js";
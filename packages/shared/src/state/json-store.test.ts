@@ -0,0 +1,172 @@
+import { spawnSync } from "node:child_process";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { StateStoreError } from "./errors.js";
+import {
+  createJsonStateStore,
+  evictExpired,
+  readJsonStateSync,
+  updateJsonStateSync,
+  type JsonStateSchema,
+} from "./json-store.js";
+import { withFileLockSync } from "./lock.js";
+
+type CounterState = {
+  version: number;
+  counts: Record<string, number>;
+  seenAt: Record<string, number>;
+};
+
+const schema: JsonStateSchema<CounterState> = {
+  version: 2,
+  create: () => ({ version: 2, counts: {}, seenAt: {} }),
+  migrate: (raw, fromVersion) => {
+    const record = (raw ?? {}) as Partial<CounterState> & { items?: string[] };
+    if (fromVersion < 2) {
+      // v1 stored a plain list of ids
+      const counts: Record<string, number> = {};
+      for (const id of record.items ?? []) counts[id] = 1;
+      return { version: 2, counts, seenAt: {} };
+    }
+    return { version: 2, counts: record.counts ?? {}, seenAt: record.seenAt ?? {} };
+  },
+  prune: (state, now) => {
+    evictExpired(state.seenAt, now - 1000, (value) => value);
+  },
+  isEmpty: (state) => Object.keys(state.counts).length === 0,
+};
+
+describe("json state store", () => {
+  let stateDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    stateDir = mkdtempSync(join(tmpdir(), "openclaw-state-"));
+    filePath = join(stateDir, "nested", "state.json");
+  });
+
+  afterEach(() => {
+    rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  it("updates under the lock, prunes expired entries and removes empty files", () => {
+    const now = Date.now();
+    updateJsonStateSync(filePath, schema, (state) => {
+      state.counts.a = 1;
+      state.seenAt.old = now - 5000;
+      state.seenAt.fresh = now;
+    });
+
+    const persisted = JSON.parse(readFileSync(filePath, "utf8")) as CounterState;
+    expect(persisted).toEqual({ version: 2, counts: { a: 1 }, seenAt: { fresh: now } });
+    expect(existsSync(`${filePath}.lock`)).toBe(false);
+
+    const removed = updateJsonStateSync(filePath, schema, (state) => {
+      delete state.counts.a;
+      return "removed";
+    });
+    expect(removed).toBe("removed");
+    expect(existsSync(filePath)).toBe(false);
+  });
+
+  it("migrates older versions and rejects newer ones", () => {
+    const legacyPath = join(stateDir, "legacy.json");
+    writeFileSync(legacyPath, JSON.stringify({ version: 1, items: ["x", "y"] }));
+    expect(readJsonStateSync(legacyPath, schema).counts).toEqual({ x: 1, y: 1 });
+
+    const corruptPath = join(stateDir, "corrupt.json");
+    writeFileSync(corruptPath, "{not json");
+    expect(readJsonStateSync(corruptPath, schema)).toEqual(schema.create());
+
+    const futurePath = join(stateDir, "future.json");
+    writeFileSync(futurePath, JSON.stringify({ version: 3, counts: {} }));
+    expect(() => readJsonStateSync(futurePath, schema)).toThrow(StateStoreError);
+  });
+
+  it("merges debounced updates from two stores sharing one file", async () => {
+    const first = createJsonStateStore({ filePath, schema });
+    const second = createJsonStateStore({ filePath, schema });
+
+    await first.update((state) => {
+      state.counts.a = (state.counts.a ?? 0) + 1;
+    });
+    await second.update((state) => {
+      state.counts.a = (state.counts.a ?? 0) + 1;
+      state.counts.b = 1;
+    });
+    await first.flush();
+    await second.flush();
+
+    expect((JSON.parse(readFileSync(filePath, "utf8")) as CounterState).counts).toEqual({ a: 2, b: 1 });
+    expect((await first.load()).counts).toEqual({ a: 2, b: 1 });
+  });
+
+  it("checks and sets against the latest file contents under the lock", async () => {
+    const first = createJsonStateStore({ filePath, schema });
+    const second = createJsonStateStore({ filePath, schema });
+    const claim = (state: CounterState) => {
+      if (state.counts.msg) return false;
+      state.counts.msg = 1;
+      return true;
+    };
+
+    // both stores have cached the empty state before either claims the id
+    await first.load();
+    await second.load();
+
+    expect(await first.updateLocked(claim)).toBe(true);
+    expect(await second.updateLocked(claim)).toBe(false);
+    expect((JSON.parse(readFileSync(filePath, "utf8")) as CounterState).counts).toEqual({ msg: 1 });
+  });
+
+  it("retries a failed debounced save with backoff and logs the failure", async () => {
+    vi.useFakeTimers();
+    try {
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const store = createJsonStateStore({ filePath, schema, saveDelayMs: 10, lock: { timeoutMs: 30 }, logger });
+
+      // a live lock held by this process makes the debounced save time out
+      const lockPath = `${filePath}.lock`;
+      mkdirSync(dirname(lockPath), { recursive: true });
+      writeFileSync(lockPath, JSON.stringify({ pid: process.pid, acquiredAt: Date.now() }));
+
+      await store.update((state) => {
+        state.counts.a = 1;
+      });
+      await vi.advanceTimersByTimeAsync(100);
+      expect(logger.warn).toHaveBeenCalledTimes(1);
+      expect(logger.warn.mock.calls[0]?.[0]).toContain("retrying in 1000ms");
+      expect(existsSync(filePath)).toBe(false);
+
+      rmSync(lockPath);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect((JSON.parse(readFileSync(filePath, "utf8")) as CounterState).counts).toEqual({ a: 1 });
+      expect(logger.warn).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("clears locks left by a dead process and times out on live ones", () => {
+    const deadPid = spawnSync(process.execPath, ["-e", ""]).pid;
+    const lockPath = join(stateDir, "state.json.lock");
+    writeFileSync(lockPath, JSON.stringify({ pid: deadPid, acquiredAt: Date.now() }));
+
+    expect(withFileLockSync(join(stateDir, "state.json"), () => "acquired")).toBe("acquired");
+    expect(existsSync(lockPath)).toBe(false);
+
+    writeFileSync(lockPath, JSON.stringify({ pid: process.pid, acquiredAt: Date.now() }));
+    let error: unknown;
+    try {
+      withFileLockSync(join(stateDir, "state.json"), () => "acquired", { timeoutMs: 50 });
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(StateStoreError);
+    expect((error as StateStoreError).kind).toBe("lock_timeout");
+  });
+});
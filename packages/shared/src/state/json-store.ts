@@ -0,0 +1,341 @@
+/**
+ * JSON 状态文件存储
+ *
+ * 渠道运行时数据（游标、去重 ID、会话状态、已知目标…）统一保存为带 version 的 JSON 文件:
+ * - 写入通过临时文件 + rename 原子替换
+ * - 读-改-写在跨进程文件锁内完成，并以磁盘上的最新内容为基础，两个网关进程共用同一文件时不会互相覆盖
+ * - schema.migrate 负责解析与版本迁移，schema.prune 负责 TTL 清理
+ *
+ * createJsonStateStore 为高频写入场景提供内存缓存与防抖保存：
+ * update 的变更立即作用于缓存，保存时在锁内对磁盘最新状态重放全部待保存的变更；
+ * 需要以磁盘最新状态为准做判断时使用 updateLocked。
+ *
+ * @module @openclaw-china/shared/state
+ */
+
+import { existsSync, readFileSync, rmSync, statSync } from "node:fs";
+
+import { createLogger, type Logger } from "../logger/logger.js";
+import { writeFileAtomicSync } from "./atomic.js";
+import { StateStoreError } from "./errors.js";
+import { withFileLock, withFileLockSync, type FileLockOptions } from "./lock.js";
+
+/** 默认防抖保存延迟（毫秒） */
+const DEFAULT_SAVE_DELAY_MS = 50;
+
+/** 保存失败后的首次重试延迟（毫秒），之后每次翻倍 */
+const SAVE_RETRY_INITIAL_MS = 1000;
+
+/** 保存失败重试延迟上限（毫秒） */
+const SAVE_RETRY_MAX_MS = 60 * 1000;
+
+/**
+ * 状态文件 schema
+ */
+export interface JsonStateSchema<T extends { version: number }> {
+  /** 当前版本 */
+  version: number;
+  /** 创建空状态 */
+  create: () => T;
+  /**
+   * 解析磁盘内容并迁移到当前版本
+   *
+   * fromVersion 为文件中的 version（缺省为 0）；等于当前版本时只需补齐缺省字段。
+   * 未提供时，版本一致直接使用磁盘内容，否则丢弃旧数据。
+   */
+  migrate?: (raw: unknown, fromVersion: number) => T;
+  /** 清理过期数据（读取和保存时调用） */
+  prune?: (state: T, now: number) => void;
+  /** 状态为空时删除文件而不是写入空状态 */
+  isEmpty?: (state: T) => boolean;
+}
+
+function readVersion(raw: unknown): number {
+  if (raw && typeof raw === "object" && !Array.isArray(raw)) {
+    const version = (raw as { version?: unknown }).version;
+    if (typeof version === "number" && Number.isFinite(version)) return version;
+  }
+  return 0;
+}
+
+function parseState<T extends { version: number }>(
+  content: string,
+  filePath: string,
+  schema: JsonStateSchema<T>
+): T {
+  if (!content.trim()) return schema.create();
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    // 文件损坏时从空状态开始
+    return schema.create();
+  }
+
+  const fromVersion = readVersion(raw);
+  if (fromVersion > schema.version) {
+    throw new StateStoreError(
+      `state file ${filePath} has version ${fromVersion}, newer than supported version ${schema.version}`,
+      "unsupported_version"
+    );
+  }
+
+  let state: T;
+  if (schema.migrate) {
+    state = schema.migrate(raw, fromVersion);
+  } else {
+    state = fromVersion === schema.version ? (raw as T) : schema.create();
+  }
+  state.version = schema.version;
+  return state;
+}
+
+function readFileStamp(filePath: string): string | null {
+  try {
+    const stat = statSync(filePath);
+    return `${stat.mtimeMs}:${stat.size}`;
+  } catch {
+    return null;
+  }
+}
+
+function writeState<T extends { version: number }>(filePath: string, schema: JsonStateSchema<T>, state: T): void {
+  if (schema.isEmpty?.(state)) {
+    rmSync(filePath, { force: true });
+    return;
+  }
+  writeFileAtomicSync(filePath, `${JSON.stringify(state, null, 2)}\n`);
+}
+
+/**
+ * 读取状态文件（不加锁；文件不存在时返回空状态）
+ *
+ * @throws StateStoreError 文件版本高于 schema 版本（kind=unsupported_version）
+ */
+export function readJsonStateSync<T extends { version: number }>(
+  filePath: string,
+  schema: JsonStateSchema<T>
+): T {
+  const state = existsSync(filePath) ? parseState(readFileSync(filePath, "utf8"), filePath, schema) : schema.create();
+  schema.prune?.(state, Date.now());
+  return state;
+}
+
+/**
+ * 在文件锁内读取最新状态、执行变更并原子写回
+ *
+ * @returns mutator 的返回值
+ * @throws StateStoreError 等待锁超时或文件版本不受支持
+ */
+export function updateJsonStateSync<T extends { version: number }, R>(
+  filePath: string,
+  schema: JsonStateSchema<T>,
+  mutator: (state: T) => R,
+  lockOptions?: FileLockOptions
+): R {
+  return withFileLockSync(
+    filePath,
+    () => {
+      const state = readJsonStateSync(filePath, schema);
+      const result = mutator(state);
+      schema.prune?.(state, Date.now());
+      writeState(filePath, schema, state);
+      return result;
+    },
+    lockOptions
+  );
+}
+
+/**
+ * 带缓存与防抖保存的状态存储
+ */
+export interface JsonStateStore<T extends { version: number }> {
+  /** 当前状态文件路径 */
+  readonly filePath: string;
+  /** 读取状态（文件被其他进程修改后自动重新加载） */
+  load(): Promise<T>;
+  /**
+   * 修改状态并安排保存
+   *
+   * mutator 会在保存时对磁盘最新状态重放，因此只能依赖传入的 state 与闭包中的不可变值。
+   */
+  update<R>(mutator: (state: T) => R): Promise<R>;
+  /**
+   * 在文件锁内基于磁盘最新状态修改并立即保存
+   *
+   * 返回值在锁内计算，适用于“检查并设置”（如消息去重）：多个进程同时调用时只有一个能看到未设置的状态。
+   */
+  updateLocked<R>(mutator: (state: T) => R): Promise<R>;
+  /** 立即保存待保存的变更 */
+  flush(): Promise<void>;
+  /** 切换状态文件并清空缓存（用于测试） */
+  setFilePath(filePath: string): void;
+}
+
+/**
+ * 创建带缓存与防抖保存的状态存储
+ *
+ * @param options.saveDelayMs 防抖保存延迟，默认 50ms
+ * @param options.logger 防抖保存失败时的日志输出
+ */
+export function createJsonStateStore<T extends { version: number }>(options: {
+  filePath: string;
+  schema: JsonStateSchema<T>;
+  saveDelayMs?: number;
+  lock?: FileLockOptions;
+  logger?: Logger;
+}): JsonStateStore<T> {
+  const { schema } = options;
+  const saveDelayMs = options.saveDelayMs ?? DEFAULT_SAVE_DELAY_MS;
+  const logger = options.logger ?? createLogger("state");
+
+  let filePath = options.filePath;
+  let cached: T | null = null;
+  let cachedStamp: string | null = null;
+  let pending: Array<(state: T) => unknown> = [];
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+  let retryDelayMs = 0;
+
+  function reload(): T {
+    cached = readJsonStateSync(filePath, schema);
+    cachedStamp = readFileStamp(filePath);
+    return cached;
+  }
+
+  function scheduleSave(delayMs = saveDelayMs): void {
+    if (saveTimer) return;
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      store.flush().then(
+        () => {
+          retryDelayMs = 0;
+        },
+        (err: unknown) => {
+          // 失败的变更已放回待保存队列，按指数退避重试
+          retryDelayMs = Math.min(retryDelayMs ? retryDelayMs * 2 : SAVE_RETRY_INITIAL_MS, SAVE_RETRY_MAX_MS);
+          logger.warn(
+            `failed to save state file ${filePath}, retrying in ${retryDelayMs}ms: ${
+              err instanceof Error ? err.message : String(err)
+            }`
+          );
+          if (pending.length > 0) scheduleSave(retryDelayMs);
+        }
+      );
+    }, delayMs);
+  }
+
+  function save<R>(extra?: (state: T) => R): R | undefined {
+    const batch = pending;
+    pending = [];
+    try {
+      const next = readJsonStateSync(filePath, schema);
+      for (const mutator of batch) {
+        try {
+          mutator(next);
+        } catch {
+          // 无法作用于最新状态的变更直接丢弃
+        }
+      }
+      const result = extra?.(next);
+      schema.prune?.(next, Date.now());
+      writeState(filePath, schema, next);
+      cached = next;
+      cachedStamp = readFileStamp(filePath);
+      return result;
+    } catch (err) {
+      pending = [...batch, ...pending];
+      throw err;
+    }
+  }
+
+  const store: JsonStateStore<T> = {
+    get filePath() {
+      return filePath;
+    },
+
+    async load() {
+      if (cached && (pending.length > 0 || readFileStamp(filePath) === cachedStamp)) {
+        return cached;
+      }
+      return reload();
+    },
+
+    async update(mutator) {
+      const state = await store.load();
+      const result = mutator(state);
+      pending.push(mutator);
+      scheduleSave();
+      return result;
+    },
+
+    async updateLocked<R>(mutator: (state: T) => R): Promise<R> {
+      if (saveTimer) {
+        clearTimeout(saveTimer);
+        saveTimer = null;
+      }
+      for (;;) {
+        const targetPath = filePath;
+        const saved = await withFileLock(
+          targetPath,
+          // 等待锁期间文件路径可能已被切换，此时在新文件上重试
+          () => (targetPath === filePath ? { result: save(mutator) as R } : null),
+          options.lock
+        );
+        if (saved) return saved.result;
+      }
+    },
+
+    async flush() {
+      if (saveTimer) {
+        clearTimeout(saveTimer);
+        saveTimer = null;
+      }
+      if (pending.length === 0) return;
+      const targetPath = filePath;
+      await withFileLock(
+        targetPath,
+        () => {
+          // 等待锁期间文件路径可能已被切换
+          if (targetPath === filePath) save();
+        },
+        options.lock
+      );
+    },
+
+    setFilePath(nextPath) {
+      if (saveTimer) {
+        clearTimeout(saveTimer);
+        saveTimer = null;
+      }
+      filePath = nextPath;
+      retryDelayMs = 0;
+      cached = null;
+      cachedStamp = null;
+      pending = [];
+    },
+  };
+
+  return store;
+}
+
+/**
+ * 删除时间早于 cutoff 的记录
+ *
+ * @returns 删除的条数
+ */
+export function evictExpired<V>(
+  record: Record<string, V>,
+  cutoff: number,
+  timeOf: (value: V) => number | undefined
+): number {
+  let removed = 0;
+  for (const [key, value] of Object.entries(record)) {
+    const time = timeOf(value);
+    if (time !== undefined && time < cutoff) {
+      delete record[key];
+      removed += 1;
+    }
+  }
+  return removed;
+}
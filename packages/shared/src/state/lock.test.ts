@@ -0,0 +1,67 @@
+import { spawnSync } from "node:child_process";
+import * as fs from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const hooks = vi.hoisted(() => ({
+  afterLockRead: undefined as ((path: string) => void) | undefined,
+}));
+
+vi.mock("node:fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:fs")>();
+  return {
+    ...actual,
+    readFileSync: ((...args: Parameters<typeof actual.readFileSync>) => {
+      const result = actual.readFileSync(...args);
+      const [path] = args;
+      if (typeof path === "string" && path.endsWith(".lock") && hooks.afterLockRead) {
+        const hook = hooks.afterLockRead;
+        hooks.afterLockRead = undefined;
+        hook(path);
+      }
+      return result;
+    }) as typeof actual.readFileSync,
+  };
+});
+
+import { StateStoreError } from "./errors.js";
+import { withFileLockSync } from "./lock.js";
+
+describe("file lock", () => {
+  let stateDir: string;
+
+  beforeEach(() => {
+    stateDir = fs.mkdtempSync(join(tmpdir(), "openclaw-lock-"));
+  });
+
+  afterEach(() => {
+    hooks.afterLockRead = undefined;
+    fs.rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  it("keeps a lock another process took over after clearing the same stale lock", () => {
+    const deadPid = spawnSync(process.execPath, ["-e", ""]).pid;
+    const filePath = join(stateDir, "state.json");
+    const lockPath = `${filePath}.lock`;
+    fs.writeFileSync(lockPath, JSON.stringify({ pid: deadPid, acquiredAt: Date.now() }));
+
+    // another process clears the stale lock and acquires a fresh one right after we inspected it
+    const takenOver = JSON.stringify({ pid: process.pid, acquiredAt: Date.now() + 1 });
+    hooks.afterLockRead = (path) => {
+      fs.rmSync(path);
+      fs.writeFileSync(path, takenOver);
+    };
+
+    let error: unknown;
+    try {
+      withFileLockSync(filePath, () => "acquired", { timeoutMs: 50 });
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(StateStoreError);
+    expect(fs.readFileSync(lockPath, "utf8")).toBe(takenOver);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * 跨进程文件锁
+ *
+ * 以 `<file>.lock` 的独占创建（O_EXCL）作为锁，锁文件记录持有者 pid。
+ * 持有进程已退出或锁超过 staleMs 未释放时视为残留锁并清除，避免进程崩溃后永久死锁。
+ *
+ * 锁内回调必须是同步函数：同一进程内不会在持锁期间让出事件循环，因此无需可重入。
+ *
+ * @module @openclaw-china/shared/state
+ */
+
+import { closeSync, mkdirSync, openSync, readFileSync, rmSync, statSync, writeSync } from "node:fs";
+import { dirname } from "node:path";
+
+import { StateStoreError } from "./errors.js";
+
+/** 等待锁的默认超时（毫秒） */
+const DEFAULT_LOCK_TIMEOUT_MS = 5000;
+
+/** 锁文件超过该时长视为残留（毫秒） */
+const DEFAULT_LOCK_STALE_MS = 30 * 1000;
+
+/** 重试间隔（毫秒） */
+const LOCK_RETRY_INTERVAL_MS = 20;
+
+export interface FileLockOptions {
+  /** 等待锁的超时（毫秒），默认 5000 */
+  timeoutMs?: number;
+  /** 锁文件超过该时长视为残留（毫秒），默认 30000 */
+  staleMs?: number;
+}
+
+function resolveLockPath(filePath: string): string {
+  return `${filePath}.lock`;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/** 锁文件快照：同一锁文件被释放后重新创建时 inode / mtime / 内容会变化 */
+type LockSnapshot = {
+  ino: number;
+  mtimeMs: number;
+  content: string;
+};
+
+function readLockSnapshot(lockPath: string): LockSnapshot | null {
+  try {
+    const stat = statSync(lockPath);
+    return { ino: stat.ino, mtimeMs: stat.mtimeMs, content: readFileSync(lockPath, "utf8") };
+  } catch {
+    // 锁已被释放
+    return null;
+  }
+}
+
+function isStaleLock(snapshot: LockSnapshot, staleMs: number): boolean {
+  try {
+    const owner = JSON.parse(snapshot.content) as { pid?: unknown };
+    if (typeof owner.pid === "number" && owner.pid !== process.pid && !isProcessAlive(owner.pid)) {
+      return true;
+    }
+  } catch {
+    // 锁文件可能刚创建还未写入内容，只按时间判断
+  }
+  return Date.now() - snapshot.mtimeMs > staleMs;
+}
+
+/**
+ * 清除残留锁
+ *
+ * 删除前再次读取锁文件，确认仍是判定为残留的那一个：
+ * 其他进程可能已清除同一残留锁并获取了新锁，此时不能删除。
+ */
+function removeStaleLock(lockPath: string, staleMs: number): void {
+  const snapshot = readLockSnapshot(lockPath);
+  if (!snapshot || !isStaleLock(snapshot, staleMs)) return;
+
+  const current = readLockSnapshot(lockPath);
+  if (
+    current &&
+    current.ino === snapshot.ino &&
+    current.mtimeMs === snapshot.mtimeMs &&
+    current.content === snapshot.content
+  ) {
+    rmSync(lockPath, { force: true });
+  }
+}
+
+function tryAcquire(lockPath: string, staleMs: number): boolean {
+  try {
+    mkdirSync(dirname(lockPath), { recursive: true });
+    const fd = openSync(lockPath, "wx");
+    try {
+      writeSync(fd, JSON.stringify({ pid: process.pid, acquiredAt: Date.now() }));
+    } finally {
+      closeSync(fd);
+    }
+    return true;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "EEXIST") {
+      throw err;
+    }
+    removeStaleLock(lockPath, staleMs);
+    return false;
+  }
+}
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function createLockTimeoutError(filePath: string, timeoutMs: number): StateStoreError {
+  return new StateStoreError(`timed out after ${timeoutMs}ms waiting for lock on ${filePath}`, "lock_timeout");
+}
+
+/**
+ * 持有文件锁执行同步回调（同步等待锁）
+ *
+ * @throws StateStoreError 等待超时（kind=lock_timeout）
+ */
+export function withFileLockSync<T>(filePath: string, fn: () => T, options: FileLockOptions = {}): T {
+  const lockPath = resolveLockPath(filePath);
+  const timeoutMs = options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+  const staleMs = options.staleMs ?? DEFAULT_LOCK_STALE_MS;
+  const deadline = Date.now() + timeoutMs;
+
+  while (!tryAcquire(lockPath, staleMs)) {
+    if (Date.now() >= deadline) {
+      throw createLockTimeoutError(filePath, timeoutMs);
+    }
+    sleepSync(LOCK_RETRY_INTERVAL_MS);
+  }
+
+  try {
+    return fn();
+  } finally {
+    rmSync(lockPath, { force: true });
+  }
+}
+
+/**
+ * 持有文件锁执行同步回调（异步等待锁，不阻塞事件循环）
+ *
+ * @throws StateStoreError 等待超时（kind=lock_timeout）
+ */
+export async function withFileLock<T>(filePath: string, fn: () => T, options: FileLockOptions = {}): Promise<T> {
+  const lockPath = resolveLockPath(filePath);
+  const timeoutMs = options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+  const staleMs = options.staleMs ?? DEFAULT_LOCK_STALE_MS;
+  const deadline = Date.now() + timeoutMs;
+
+  while (!tryAcquire(lockPath, staleMs)) {
+    if (Date.now() >= deadline) {
+      throw createLockTimeoutError(filePath, timeoutMs);
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_INTERVAL_MS));
+  }
+
+  try {
+    return fn();
+  } finally {
+    rmSync(lockPath, { force: true });
+  }
+}
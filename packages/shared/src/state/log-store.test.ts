@@ -0,0 +1,107 @@
+import { appendFileSync, mkdtempSync, readFileSync, renameSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createKeyedLogStore } from "./log-store.js";
+
+function countLines(filePath: string): number {
+  return readFileSync(filePath, "utf8").split("\n").filter(Boolean).length;
+}
+
+describe("keyed log store", () => {
+  let stateDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    stateDir = mkdtempSync(join(tmpdir(), "openclaw-log-store-"));
+    filePath = join(stateDir, "data", "index.jsonl");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  it("appends entries and reloads them in a new store", () => {
+    const store = createKeyedLogStore<{ text: string }>({ filePath, ttlMs: 60_000, maxEntries: 100 });
+    store.set("a", { text: "one" });
+    store.set("a", { text: "two" });
+    store.set("b", { text: "three" });
+
+    expect(countLines(filePath)).toBe(3);
+
+    const reloaded = createKeyedLogStore<{ text: string }>({
+      filePath,
+      ttlMs: 60_000,
+      maxEntries: 100,
+      sanitize: (raw) => (raw && typeof (raw as { text?: unknown }).text === "string" ? (raw as { text: string }) : undefined),
+    });
+    expect(reloaded.get("a")).toEqual({ text: "two" });
+    expect(reloaded.get("b")).toEqual({ text: "three" });
+    expect(reloaded.get("missing")).toBeUndefined();
+  });
+
+  it("picks up lines appended by another process", () => {
+    const store = createKeyedLogStore<string>({ filePath, ttlMs: 60_000, maxEntries: 100 });
+    store.set("a", "mine");
+    expect(store.get("b")).toBeUndefined();
+
+    appendFileSync(filePath, `${JSON.stringify({ k: "b", v: "theirs", t: Date.now() })}\n`);
+    expect(store.get("b")).toBe("theirs");
+  });
+
+  it("reloads when another process replaces the file with one at least as large", () => {
+    const store = createKeyedLogStore<string>({ filePath, ttlMs: 60_000, maxEntries: 100 });
+    store.set("a", "one");
+
+    // another process compacted and appended: the new file is not smaller than our read offset
+    const now = Date.now();
+    const replaced = `${JSON.stringify({ k: "a", v: "two", t: now })}\n${JSON.stringify({ k: "b", v: "three", t: now })}\n`;
+    writeFileSync(`${filePath}.tmp`, replaced);
+    renameSync(`${filePath}.tmp`, filePath);
+
+    expect(store.get("a")).toBe("two");
+    expect(store.get("b")).toBe("three");
+  });
+
+  it("expires entries and compacts without losing other writers' lines", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000_000);
+    const options = { filePath, ttlMs: 1000, maxEntries: 100, compactMinLines: 6 };
+    const first = createKeyedLogStore<number>(options);
+    const second = createKeyedLogStore<number>(options);
+
+    for (let index = 0; index < 5; index += 1) {
+      first.set("counter", index);
+    }
+    second.set("other", 1);
+
+    expect(first.get("counter")).toBe(4);
+    expect(first.get("other")).toBe(1);
+
+    first.set("counter", 5);
+    expect(countLines(filePath)).toBe(2);
+
+    vi.setSystemTime(1_002_000);
+    expect(first.get("counter")).toBeUndefined();
+    first.reset();
+    expect(first.get("other")).toBeUndefined();
+  });
+
+  it("evicts the oldest entries above maxEntries", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000_000);
+    const store = createKeyedLogStore<number>({ filePath, ttlMs: 60_000, maxEntries: 2 });
+    store.set("a", 1);
+    vi.setSystemTime(1_000_010);
+    store.set("b", 2);
+    vi.setSystemTime(1_000_020);
+    store.set("c", 3);
+
+    expect(store.get("a")).toBeUndefined();
+    expect(store.get("b")).toBe(2);
+    expect(store.get("c")).toBe(3);
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * 追加写的键值日志存储（JSONL）
+ *
+ * 每次写入追加一行 `{"k":key,"v":value,"t":createdAt}`，同一 key 以最后一行为准。
+ * 适合写多读少、条目较多的数据（如消息引用索引）:
+ * - 追加与压缩在跨进程文件锁内进行，压缩前先读入其他进程追加的行，不会丢失数据
+ * - 读取时增量读取其他进程追加的行；文件被替换（压缩通过 rename 写入，inode 变化）或截断时整体重新加载
+ * - 超过 ttlMs 的条目在加载和压缩时丢弃；超过 maxEntries 时淘汰最早的条目
+ * - 文件行数超过有效条目数的 compactRatio 倍（且超过 compactMinLines 行）时压缩重写
+ *
+ * 持久化为尽力而为：磁盘读写失败时保留内存中的数据。
+ *
+ * @module @openclaw-china/shared/state
+ */
+
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  fstatSync,
+  openSync,
+  readFileSync,
+  readSync,
+  statSync,
+  type Stats,
+} from "node:fs";
+
+import { writeFileAtomicSync } from "./atomic.js";
+import { withFileLockSync, type FileLockOptions } from "./lock.js";
+
+/** 默认压缩倍数 */
+const DEFAULT_COMPACT_RATIO = 2;
+
+/** 文件行数低于该值时不压缩 */
+const DEFAULT_COMPACT_MIN_LINES = 1000;
+
+type LogLine = {
+  k: string;
+  v: unknown;
+  t: number;
+};
+
+type LogEntry<V> = {
+  value: V;
+  createdAt: number;
+};
+
+/** 文件标识：同一路径被替换为新文件时发生变化 */
+function resolveFileIdentity(stat: Stats): string {
+  return `${stat.dev}:${stat.ino}:${stat.birthtimeMs}`;
+}
+
+export interface KeyedLogStoreOptions<V> {
+  /** JSONL 文件路径 */
+  filePath: string;
+  /** 条目有效期（毫秒） */
+  ttlMs: number;
+  /** 最多保留的条目数 */
+  maxEntries: number;
+  /** 压缩倍数，默认 2 */
+  compactRatio?: number;
+  /** 文件行数低于该值时不压缩，默认 1000 */
+  compactMinLines?: number;
+  /** 校验并规范化读取到的值，返回 undefined 表示丢弃该行 */
+  sanitize?: (raw: unknown) => V | undefined;
+  /** 文件锁选项 */
+  lock?: FileLockOptions;
+}
+
+export interface KeyedLogStore<V> {
+  /** 当前文件路径 */
+  readonly filePath: string;
+  /** 读取条目（过期返回 undefined） */
+  get(key: string): V | undefined;
+  /** 写入条目并追加到文件 */
+  set(key: string, value: V): void;
+  /** 需要时压缩文件 */
+  flush(): void;
+  /** 清空内存缓存，可同时切换文件路径（用于测试） */
+  reset(filePath?: string): void;
+}
+
+/**
+ * 创建追加写的键值日志存储
+ */
+export function createKeyedLogStore<V>(options: KeyedLogStoreOptions<V>): KeyedLogStore<V> {
+  const compactRatio = options.compactRatio ?? DEFAULT_COMPACT_RATIO;
+  const compactMinLines = options.compactMinLines ?? DEFAULT_COMPACT_MIN_LINES;
+  const sanitize = options.sanitize ?? ((raw: unknown) => raw as V);
+
+  let filePath = options.filePath;
+  let cache: Map<string, LogEntry<V>> | null = null;
+  let linesOnDisk = 0;
+  /** 已读取到的文件字节偏移 */
+  let readOffset = 0;
+  /** readOffset 所属文件的标识 */
+  let fileIdentity: string | null = null;
+
+  function isExpired(entry: LogEntry<V>, now: number): boolean {
+    return now - entry.createdAt > options.ttlMs;
+  }
+
+  function applyLines(target: Map<string, LogEntry<V>>, text: string): void {
+    const now = Date.now();
+    for (const line of text.split(/\r?\n/)) {
+      const trimmed = line.trim();
+      if (!trimmed) continue;
+      linesOnDisk += 1;
+
+      try {
+        const parsed = JSON.parse(trimmed) as Partial<LogLine>;
+        const key = typeof parsed.k === "string" ? parsed.k : undefined;
+        const createdAt = typeof parsed.t === "number" && Number.isFinite(parsed.t) ? parsed.t : undefined;
+        if (!key || createdAt === undefined || parsed.v === undefined) continue;
+        if (now - createdAt > options.ttlMs) continue;
+
+        const value = sanitize(parsed.v);
+        if (value === undefined) continue;
+        target.set(key, { value, createdAt });
+      } catch {
+        // 忽略损坏的行
+      }
+    }
+  }
+
+  function loadAll(): Map<string, LogEntry<V>> {
+    const next = new Map<string, LogEntry<V>>();
+    linesOnDisk = 0;
+    readOffset = 0;
+    fileIdentity = null;
+    cache = next;
+
+    try {
+      if (!existsSync(filePath)) return next;
+      const fd = openSync(filePath, "r");
+      try {
+        // 标识取自实际读取的文件，读取期间文件被替换时下次同步会重新加载
+        const identity = resolveFileIdentity(fstatSync(fd));
+        const raw = readFileSync(fd);
+        const end = raw.lastIndexOf(0x0a) + 1;
+        applyLines(next, raw.subarray(0, end).toString("utf8"));
+        readOffset = end;
+        fileIdentity = identity;
+      } finally {
+        closeSync(fd);
+      }
+    } catch {
+      // 文件无法读取时从空缓存开始
+    }
+    return next;
+  }
+
+  /** 增量读取其他进程追加的行；文件被其他进程压缩（替换）或截断后整体重新加载 */
+  function syncFromDisk(): Map<string, LogEntry<V>> {
+    if (!cache) return loadAll();
+
+    let stat: Stats;
+    try {
+      stat = statSync(filePath);
+    } catch {
+      return cache;
+    }
+    const identity = resolveFileIdentity(stat);
+    if (fileIdentity !== null && identity !== fileIdentity) return loadAll();
+    fileIdentity = identity;
+    const size = stat.size;
+    if (size === readOffset) return cache;
+    if (size < readOffset) return loadAll();
+
+    try {
+      const buffer = Buffer.alloc(size - readOffset);
+      const fd = openSync(filePath, "r");
+      try {
+        readSync(fd, buffer, 0, buffer.length, readOffset);
+      } finally {
+        closeSync(fd);
+      }
+      // 末尾未写完的行留到下次读取
+      const end = buffer.lastIndexOf(0x0a) + 1;
+      applyLines(cache, buffer.subarray(0, end).toString("utf8"));
+      readOffset += end;
+    } catch {
+      // 读取失败时保留当前缓存
+    }
+    return cache;
+  }
+
+  function evictIfNeeded(target: Map<string, LogEntry<V>>): void {
+    if (target.size < options.maxEntries) return;
+
+    const now = Date.now();
+    for (const [key, entry] of target.entries()) {
+      if (isExpired(entry, now)) {
+        target.delete(key);
+      }
+    }
+    if (target.size < options.maxEntries) return;
+
+    const sorted = [...target.entries()].sort((left, right) => left[1].createdAt - right[1].createdAt);
+    const removeCount = target.size - options.maxEntries + 1;
+    for (let index = 0; index < removeCount; index += 1) {
+      const key = sorted[index]?.[0];
+      if (key !== undefined) {
+        target.delete(key);
+      }
+    }
+  }
+
+  function shouldCompact(target: Map<string, LogEntry<V>>): boolean {
+    return linesOnDisk > target.size * compactRatio && linesOnDisk > compactMinLines;
+  }
+
+  /** 在锁内调用 */
+  function compact(target: Map<string, LogEntry<V>>): void {
+    const now = Date.now();
+    const lines: string[] = [];
+    for (const [key, entry] of target.entries()) {
+      if (isExpired(entry, now)) {
+        target.delete(key);
+        continue;
+      }
+      lines.push(JSON.stringify({ k: key, v: entry.value, t: entry.createdAt } satisfies LogLine));
+    }
+
+    const content = lines.length > 0 ? `${lines.join("\n")}\n` : "";
+    writeFileAtomicSync(filePath, content);
+    linesOnDisk = lines.length;
+    readOffset = Buffer.byteLength(content);
+    fileIdentity = resolveFileIdentity(statSync(filePath));
+  }
+
+  return {
+    get filePath() {
+      return filePath;
+    },
+
+    get(key) {
+      const entries = syncFromDisk();
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (isExpired(entry, Date.now())) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.value;
+    },
+
+    set(key, value) {
+      const entries = syncFromDisk();
+      evictIfNeeded(entries);
+      const createdAt = Date.now();
+      entries.set(key, { value, createdAt });
+
+      try {
+        withFileLockSync(
+          filePath,
+          () => {
+            // 先读入其他进程追加的行
+            const latest = syncFromDisk();
+            appendFileSync(filePath, `${JSON.stringify({ k: key, v: value, t: createdAt } satisfies LogLine)}\n`, "utf8");
+            linesOnDisk += 1;
+            const stat = statSync(filePath);
+            readOffset = stat.size;
+            fileIdentity = resolveFileIdentity(stat);
+            latest.set(key, { value, createdAt });
+            if (shouldCompact(latest)) {
+              compact(latest);
+            }
+          },
+          options.lock
+        );
+      } catch {
+        // 尽力持久化，写盘失败时保留内存缓存
+      }
+    },
+
+    flush() {
+      if (!cache || !shouldCompact(cache)) return;
+      try {
+        withFileLockSync(
+          filePath,
+          () => {
+            const latest = syncFromDisk();
+            if (shouldCompact(latest)) {
+              compact(latest);
+            }
+          },
+          options.lock
+        );
+      } catch {
+        // 压缩失败时保留内存缓存
+      }
+    },
+
+    reset(nextPath) {
+      if (nextPath) {
+        filePath = nextPath;
+      }
+      cache = null;
+      linesOnDisk = 0;
+      readOffset = 0;
+      fileIdentity = null;
+    },
+  };
+}
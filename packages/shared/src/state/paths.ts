@@ -0,0 +1,23 @@
+/**
+ * 状态目录解析
+ *
+ * @module @openclaw-china/shared/state
+ */
+
+import { homedir } from "node:os";
+import { join, resolve } from "node:path";
+
+/**
+ * 解析 OpenClaw 状态目录（$OPENCLAW_STATE_DIR，默认 ~/.openclaw）
+ */
+export function resolveOpenClawStateDir(): string {
+  const override = process.env.OPENCLAW_STATE_DIR?.trim() || process.env.CLAWDBOT_STATE_DIR?.trim();
+  if (override) {
+    if (override.startsWith("~")) {
+      const home = homedir();
+      return resolve(override === "~" ? home : join(home, override.slice(2)));
+    }
+    return resolve(override);
+  }
+  return join(homedir(), ".openclaw");
+}
@@ -0,0 +1,7 @@
+/**
+ * Access Token 管理模块
+ *
+ * @module @openclaw-china/shared/token
+ */
+
+export * from "./manager.js";
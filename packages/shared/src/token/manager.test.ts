@@ -0,0 +1,140 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createAccessTokenManager, isAccessTokenExpiredCode, type AccessTokenSource } from "./manager.js";
+
+function createSource(
+  fetch: AccessTokenSource["fetch"],
+  overrides?: Partial<AccessTokenSource>
+): AccessTokenSource {
+  return { key: "app-1", fetch, ...overrides };
+}
+
+describe("access token manager", () => {
+  let stateDir: string;
+
+  beforeEach(() => {
+    stateDir = mkdtempSync(join(tmpdir(), "openclaw-token-"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  it("shares one refresh between concurrent callers and caches the result", async () => {
+    const manager = createAccessTokenManager({ name: "test", persistFilePath: join(stateDir, "tokens.json") });
+    let resolveFetch: (value: { token: string; expiresInSec: number }) => void = () => undefined;
+    const fetch = vi.fn(
+      () =>
+        new Promise<{ token: string; expiresInSec: number }>((resolve) => {
+          resolveFetch = resolve;
+        })
+    );
+    const source = createSource(fetch);
+
+    const pending = Promise.all([manager.getToken(source), manager.getToken(source), manager.getToken(source)]);
+    expect(manager.getStatus("app-1").refreshing).toBe(true);
+    resolveFetch({ token: "token-1", expiresInSec: 7200 });
+
+    expect(await pending).toEqual(["token-1", "token-1", "token-1"]);
+    expect(await manager.getToken(source)).toBe("token-1");
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(manager.getStatus("app-1")).toMatchObject({ cached: true, valid: true, fresh: true, refreshing: false });
+  });
+
+  it("renews early and keeps the old token when early renewal fails", async () => {
+    vi.useFakeTimers();
+    const manager = createAccessTokenManager({ name: "test", persistFilePath: join(stateDir, "tokens.json") });
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce({ token: "token-1", expiresInSec: 7200 })
+      .mockRejectedValueOnce(new Error("network down"))
+      .mockResolvedValueOnce({ token: "token-2", expiresInSec: 7200 });
+    const source = createSource(fetch);
+
+    expect(await manager.getToken(source)).toBe("token-1");
+
+    vi.advanceTimersByTime((7200 - 200) * 1000);
+    expect(manager.getStatus("app-1")).toMatchObject({ valid: true, fresh: false });
+    expect(await manager.getToken(source)).toBe("token-1");
+    expect(manager.getStatus("app-1").lastError).toBe("network down");
+
+    expect(await manager.getToken(source)).toBe("token-2");
+    expect(manager.getStatus("app-1").lastError).toBeUndefined();
+
+    vi.advanceTimersByTime(7200 * 1000);
+    fetch.mockRejectedValueOnce(new Error("still down"));
+    await expect(manager.getToken(source)).rejects.toThrow("still down");
+  });
+
+  it("refreshes proactively before expiry", async () => {
+    vi.useFakeTimers();
+    const manager = createAccessTokenManager({
+      name: "test",
+      proactiveRefresh: true,
+      persistFilePath: join(stateDir, "tokens.json"),
+    });
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce({ token: "token-1", expiresInSec: 7200 })
+      .mockResolvedValueOnce({ token: "token-2", expiresInSec: 7200 });
+    const source = createSource(fetch);
+
+    await manager.getToken(source);
+    await vi.advanceTimersByTimeAsync((7200 - 5 * 60) * 1000);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(await manager.getToken(source)).toBe("token-2");
+    manager.invalidate();
+  });
+
+  it("invalidates and retries once on expired-token error codes", async () => {
+    const manager = createAccessTokenManager({ name: "test", persistFilePath: join(stateDir, "tokens.json") });
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce({ token: "token-1" })
+      .mockResolvedValueOnce({ token: "token-2" });
+    const run = vi
+      .fn()
+      .mockResolvedValueOnce({ errcode: 42001, errmsg: "access_token expired" })
+      .mockResolvedValueOnce({ errcode: 0, errmsg: "ok" });
+
+    const result = await manager.withToken(createSource(fetch), run);
+
+    expect(result).toEqual({ errcode: 0, errmsg: "ok" });
+    expect(run.mock.calls.map(([token]) => token)).toEqual(["token-1", "token-2"]);
+
+    const thrown = Object.assign(new Error("invalid credential"), { errcode: 40001 });
+    const throwing = vi.fn().mockRejectedValueOnce(thrown).mockRejectedValueOnce(thrown);
+    fetch.mockResolvedValueOnce({ token: "token-3" });
+    await expect(manager.withToken(createSource(fetch), throwing)).rejects.toThrow("invalid credential");
+    expect(throwing).toHaveBeenCalledTimes(2);
+
+    expect(isAccessTokenExpiredCode(40014)).toBe(true);
+    expect(isAccessTokenExpiredCode(45009)).toBe(false);
+  });
+
+  it("persists tokens so a new manager reuses them", async () => {
+    const persistFilePath = join(stateDir, "tokens", "test.json");
+    const fetch = vi.fn().mockResolvedValue({ token: "token-1", expiresInSec: 7200 });
+    const first = createAccessTokenManager({ name: "test", persistFilePath });
+    await first.getToken(createSource(fetch, { persist: true }));
+
+    expect(JSON.parse(readFileSync(persistFilePath, "utf8")).tokens["app-1"].token).toBe("token-1");
+
+    const second = createAccessTokenManager({ name: "test", persistFilePath });
+    expect(await second.getToken(createSource(fetch, { persist: true }))).toBe("token-1");
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    second.invalidate("app-1");
+    expect(JSON.parse(readFileSync(persistFilePath, "utf8")).tokens).toEqual({});
+
+    const memoryOnly = createAccessTokenManager({ name: "memory", persistFilePath: join(stateDir, "memory.json") });
+    await memoryOnly.getToken(createSource(fetch));
+    expect(existsSync(join(stateDir, "memory.json"))).toBe(false);
+  });
+});
@@ -0,0 +1,385 @@
+/**
+ * Access Token 管理
+ *
+ * 各渠道的 access_token 缓存统一由此实现:
+ * - 获取逻辑可插拔（AccessTokenSource.fetch），按 key 缓存，多账户互不影响
+ * - 同一 key 同时只有一个刷新请求，并发调用共享结果
+ * - 临近过期（refreshBufferMs）时提前刷新；刷新失败但旧 token 未过期时继续使用旧 token
+ * - 可选定时主动刷新，空闲进程也不会拿到过期 token
+ * - 平台返回 token 失效错误码（40001/40014/42001…）时作废缓存并重试一次
+ * - 可选持久化到磁盘，重启后复用未过期的 token，避免消耗每日获取次数
+ *
+ * @module @openclaw-china/shared/token
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { writeFileAtomicSync } from "../state/atomic.js";
+import { resolveOpenClawStateDir } from "../state/paths.js";
+
+/** 默认提前刷新时间（毫秒）- 提前 5 分钟 */
+const DEFAULT_REFRESH_BUFFER_MS = 5 * 60 * 1000;
+
+/** 平台未返回有效期时的默认值（秒） */
+const DEFAULT_EXPIRES_IN_SEC = 7200;
+
+/** 主动刷新失败后的重试间隔（毫秒），指数退避 */
+const PROACTIVE_RETRY_INITIAL_MS = 60 * 1000;
+const PROACTIVE_RETRY_MAX_MS = 10 * 60 * 1000;
+
+const PERSIST_VERSION = 1;
+
+/**
+ * 表示 access_token 无效或过期的错误码（微信公众号 / 企业微信）
+ * - 40001: 获取 access_token 时 AppSecret 错误，或 access_token 无效
+ * - 40014: 不合法的 access_token
+ * - 42001: access_token 超时
+ * - 42007: 用户修改微信密码，access_token 失效
+ */
+export const ACCESS_TOKEN_EXPIRED_CODES: ReadonlySet<number> = new Set([40001, 40014, 42001, 42007]);
+
+/**
+ * 错误码是否表示 access_token 失效
+ */
+export function isAccessTokenExpiredCode(code: unknown): boolean {
+  return typeof code === "number" && ACCESS_TOKEN_EXPIRED_CODES.has(code);
+}
+
+/**
+ * 获取 token 的结果
+ */
+export interface AccessTokenFetchResult {
+  /** 访问令牌 */
+  token: string;
+  /** 有效期（秒），默认 7200 */
+  expiresInSec?: number;
+}
+
+/**
+ * token 来源
+ */
+export interface AccessTokenSource {
+  /** 缓存 key，通常由应用 ID 组成（如 corpId:agentId） */
+  key: string;
+  /** 从平台获取新 token */
+  fetch: () => Promise<AccessTokenFetchResult>;
+  /** 是否持久化到磁盘 */
+  persist?: boolean;
+}
+
+/**
+ * token 缓存状态（用于 probe / 诊断）
+ */
+export interface AccessTokenStatus {
+  key: string;
+  /** 是否有缓存 */
+  cached: boolean;
+  /** 缓存的 token 是否未过期 */
+  valid: boolean;
+  /** 缓存的 token 是否无需提前刷新 */
+  fresh: boolean;
+  /** 是否正在刷新 */
+  refreshing: boolean;
+  /** 过期时间戳（毫秒） */
+  expiresAt?: number;
+  /** 获取时间戳（毫秒） */
+  fetchedAt?: number;
+  /** 最近一次刷新失败的错误信息 */
+  lastError?: string;
+  /** 最近一次刷新失败的时间戳（毫秒） */
+  lastErrorAt?: number;
+}
+
+/**
+ * Access Token 管理器选项
+ */
+export interface AccessTokenManagerOptions {
+  /** 管理器名称（通常为渠道 ID），用于持久化文件名 */
+  name: string;
+  /** 提前刷新时间（毫秒），默认 5 分钟；不超过 token 有效期的一半 */
+  refreshBufferMs?: number;
+  /** 平台未返回有效期时的默认值（秒），默认 7200 */
+  defaultExpiresInSec?: number;
+  /** 是否在进入提前刷新窗口时主动刷新，默认 false */
+  proactiveRefresh?: boolean;
+  /** 持久化文件路径，默认 $OPENCLAW_STATE_DIR/tokens/<name>.json */
+  persistFilePath?: string;
+  /** 表示 token 失效的错误码，默认 ACCESS_TOKEN_EXPIRED_CODES */
+  expiredCodes?: Iterable<number>;
+}
+
+/**
+ * Access Token 管理器
+ */
+export interface AccessTokenManager {
+  /**
+   * 获取 token：缓存有效时直接返回，否则刷新（同一 key 并发调用共享一次刷新）
+   * @throws 刷新失败且没有未过期的旧 token 时抛出 fetch 的错误
+   */
+  getToken(source: AccessTokenSource): Promise<string>;
+  /** 忽略缓存，强制刷新 */
+  refresh(source: AccessTokenSource): Promise<string>;
+  /**
+   * 作废缓存（含持久化）
+   * @param key 不指定时作废全部
+   * @param token 指定时仅当缓存的仍是该 token 才作废，避免误删并发刷新得到的新 token
+   */
+  invalidate(key?: string, token?: string): void;
+  /** 查询缓存状态 */
+  getStatus(key: string): AccessTokenStatus;
+  /** 查询全部缓存状态 */
+  listStatus(): AccessTokenStatus[];
+  /**
+   * 携带 token 调用接口；结果或抛出的错误带有 token 失效错误码（errcode / code）时作废缓存并重试一次
+   * @param opts.isExpired 自定义判断结果是否表示 token 失效
+   */
+  withToken<T>(
+    source: AccessTokenSource,
+    run: (token: string) => Promise<T>,
+    opts?: { isExpired?: (result: T) => boolean }
+  ): Promise<T>;
+  /** 错误码是否表示 token 失效 */
+  isExpiredCode(code: unknown): boolean;
+}
+
+interface TokenEntry {
+  token: string;
+  expiresAt: number;
+  fetchedAt: number;
+}
+
+interface PersistedTokens {
+  version: number;
+  tokens: Record<string, TokenEntry>;
+}
+
+function sanitizeSegment(value: string): string {
+  return value.trim().replace(/[^a-zA-Z0-9._-]/g, "_") || "_";
+}
+
+function readPersisted(filePath: string): Record<string, TokenEntry> {
+  if (!existsSync(filePath)) return {};
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, "utf8")) as Partial<PersistedTokens>;
+    return parsed.tokens && typeof parsed.tokens === "object" ? parsed.tokens : {};
+  } catch {
+    return {};
+  }
+}
+
+function writePersisted(filePath: string, tokens: Record<string, TokenEntry>): void {
+  const state: PersistedTokens = { version: PERSIST_VERSION, tokens };
+  writeFileAtomicSync(filePath, `${JSON.stringify(state, null, 2)}\n`, { mode: 0o600 });
+}
+
+function readErrorCode(value: unknown): unknown {
+  if (!value || typeof value !== "object") return undefined;
+  const record = value as { errcode?: unknown; code?: unknown };
+  return record.errcode ?? record.code;
+}
+
+/**
+ * 创建 Access Token 管理器
+ *
+ * 每个渠道模块持有一个实例，按账户 key 缓存。
+ */
+export function createAccessTokenManager(options: AccessTokenManagerOptions): AccessTokenManager {
+  const refreshBufferMs = options.refreshBufferMs ?? DEFAULT_REFRESH_BUFFER_MS;
+  const defaultExpiresInSec = options.defaultExpiresInSec ?? DEFAULT_EXPIRES_IN_SEC;
+  const expiredCodes = new Set(options.expiredCodes ?? ACCESS_TOKEN_EXPIRED_CODES);
+  const persistFilePath =
+    options.persistFilePath ?? join(resolveOpenClawStateDir(), "tokens", `${sanitizeSegment(options.name)}.json`);
+
+  const entries = new Map<string, TokenEntry>();
+  const inflight = new Map<string, Promise<TokenEntry>>();
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  const errors = new Map<string, { message: string; at: number }>();
+  /** 每次作废递增，丢弃作废前发起的刷新结果 */
+  const generations = new Map<string, number>();
+  /** 已从磁盘加载过的 key */
+  const loadedKeys = new Set<string>();
+
+  function freshUntil(entry: TokenEntry): number {
+    const buffer = Math.min(refreshBufferMs, (entry.expiresAt - entry.fetchedAt) / 2);
+    return entry.expiresAt - buffer;
+  }
+
+  function readEntry(source: AccessTokenSource): TokenEntry | undefined {
+    const cached = entries.get(source.key);
+    if (cached || !source.persist || loadedKeys.has(source.key)) return cached;
+
+    loadedKeys.add(source.key);
+    const persisted = readPersisted(persistFilePath)[source.key];
+    if (!persisted?.token || !(persisted.expiresAt > Date.now())) return undefined;
+    entries.set(source.key, persisted);
+    scheduleRefresh(source, freshUntil(persisted) - Date.now());
+    return persisted;
+  }
+
+  function clearTimer(key: string): void {
+    const timer = timers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      timers.delete(key);
+    }
+  }
+
+  function scheduleRefresh(source: AccessTokenSource, delayMs: number, retryDelayMs?: number): void {
+    if (!options.proactiveRefresh) return;
+    clearTimer(source.key);
+
+    const timer = setTimeout(() => {
+      timers.delete(source.key);
+      startRefresh(source).catch(() => {
+        const nextRetryMs = Math.min((retryDelayMs ?? PROACTIVE_RETRY_INITIAL_MS / 2) * 2, PROACTIVE_RETRY_MAX_MS);
+        scheduleRefresh(source, nextRetryMs, nextRetryMs);
+      });
+    }, Math.max(delayMs, 0));
+    timer.unref?.();
+    timers.set(source.key, timer);
+  }
+
+  async function fetchEntry(source: AccessTokenSource, generation: number): Promise<TokenEntry> {
+    try {
+      const result = await source.fetch();
+      if (!result.token) {
+        throw new Error(`${options.name} access token fetch returned empty token`);
+      }
+      const fetchedAt = Date.now();
+      const entry: TokenEntry = {
+        token: result.token,
+        fetchedAt,
+        expiresAt: fetchedAt + (result.expiresInSec ?? defaultExpiresInSec) * 1000,
+      };
+      if ((generations.get(source.key) ?? 0) !== generation) {
+        return entry;
+      }
+
+      entries.set(source.key, entry);
+      errors.delete(source.key);
+      if (source.persist) {
+        loadedKeys.add(source.key);
+        writePersisted(persistFilePath, { ...readPersisted(persistFilePath), [source.key]: entry });
+      }
+      scheduleRefresh(source, freshUntil(entry) - fetchedAt);
+      return entry;
+    } catch (err) {
+      errors.set(source.key, { message: err instanceof Error ? err.message : String(err), at: Date.now() });
+      throw err;
+    }
+  }
+
+  function startRefresh(source: AccessTokenSource): Promise<TokenEntry> {
+    const existing = inflight.get(source.key);
+    if (existing) return existing;
+
+    const promise: Promise<TokenEntry> = fetchEntry(source, generations.get(source.key) ?? 0).finally(() => {
+      if (inflight.get(source.key) === promise) {
+        inflight.delete(source.key);
+      }
+    });
+    inflight.set(source.key, promise);
+    return promise;
+  }
+
+  function removePersisted(keys: string[]): void {
+    if (!existsSync(persistFilePath)) return;
+    const tokens = readPersisted(persistFilePath);
+    const present = keys.filter((key) => key in tokens);
+    if (present.length === 0) return;
+    for (const key of present) {
+      delete tokens[key];
+    }
+    writePersisted(persistFilePath, tokens);
+  }
+
+  function invalidateKey(key: string): void {
+    entries.delete(key);
+    inflight.delete(key);
+    loadedKeys.add(key);
+    generations.set(key, (generations.get(key) ?? 0) + 1);
+    clearTimer(key);
+  }
+
+  const manager: AccessTokenManager = {
+    async getToken(source) {
+      const cached = readEntry(source);
+      if (cached && Date.now() < freshUntil(cached)) {
+        return cached.token;
+      }
+
+      try {
+        return (await startRefresh(source)).token;
+      } catch (err) {
+        // 提前刷新失败时，旧 token 仍在有效期内则继续使用
+        const current = entries.get(source.key);
+        if (current && Date.now() < current.expiresAt) {
+          return current.token;
+        }
+        throw err;
+      }
+    },
+
+    async refresh(source) {
+      manager.invalidate(source.key);
+      return (await startRefresh(source)).token;
+    },
+
+    invalidate(key, token) {
+      if (key === undefined) {
+        const keys = [...new Set([...entries.keys(), ...loadedKeys])];
+        for (const cachedKey of keys) {
+          invalidateKey(cachedKey);
+        }
+        loadedKeys.clear();
+        removePersisted(keys);
+        return;
+      }
+      if (token !== undefined && entries.get(key)?.token !== token) {
+        return;
+      }
+      invalidateKey(key);
+      removePersisted([key]);
+    },
+
+    getStatus(key) {
+      const entry = entries.get(key);
+      const error = errors.get(key);
+      const now = Date.now();
+      return {
+        key,
+        cached: Boolean(entry),
+        valid: entry ? now < entry.expiresAt : false,
+        fresh: entry ? now < freshUntil(entry) : false,
+        refreshing: inflight.has(key),
+        ...(entry ? { expiresAt: entry.expiresAt, fetchedAt: entry.fetchedAt } : {}),
+        ...(error ? { lastError: error.message, lastErrorAt: error.at } : {}),
+      };
+    },
+
+    listStatus() {
+      return [...new Set([...entries.keys(), ...errors.keys()])].map((key) => manager.getStatus(key));
+    },
+
+    async withToken(source, run, opts) {
+      const isExpired = opts?.isExpired ?? ((result) => manager.isExpiredCode(readErrorCode(result)));
+      const token = await manager.getToken(source);
+      try {
+        const result = await run(token);
+        if (!isExpired(result)) return result;
+      } catch (err) {
+        if (!manager.isExpiredCode(readErrorCode(err))) throw err;
+      }
+
+      manager.invalidate(source.key, token);
+      return run(await manager.getToken(source));
+    },
+
+    isExpiredCode(code) {
+      return typeof code === "number" && expiredCodes.has(code);
+    },
+  };
+
+  return manager;
+}